@@ -2,7 +2,6 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
-import path from 'path';
 import rateLimit from 'express-rate-limit';
 import { Server } from 'socket.io';
 import http from 'http';
@@ -10,10 +9,22 @@ import cookieParser from 'cookie-parser';
 import 'reflect-metadata';
 
 import routes from './routes';
+import fileRoutes from './routes/file.routes';
 import { errorHandler } from './middlewares/error.middleware';
 import { csrfMiddleware } from './middlewares/csrf.middleware';
+import { authenticateSocket } from './middlewares/socketAuth.middleware';
 import { logger } from './utils/logger';
 import { UserRole } from './entities/User';
+import { registerLayoutCollaboration } from './services/collaboration.service';
+import { registerVisitorPresence } from './services/presence.service';
+import { registerGroupTours } from './services/groupTour.service';
+import { registerExhibitionChat } from './services/chat.service';
+import {
+  LOCAL_STORAGE_DIR,
+  isPrivateStorageKey,
+  localStorageKeyFromPath,
+  verifyLocalSignature
+} from './services/storage.service';
 
 // Initialize express app
 const app = express();
@@ -37,12 +48,18 @@ const io = new Server(server, {
 // Set up global socket.io instance for use in services
 app.set('io', io);
 
+// Identify socket users from the access token cookie sent with the handshake
+io.engine.use(cookieParser());
+io.use(authenticateSocket);
+
 // Rate limiting
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // limit each IP to 100 requests per windowMs
   standardHeaders: true,
-  legacyHeaders: false
+  legacyHeaders: false,
+  // A chunked upload is one action spread over many requests
+  skip: req => req.method === 'PATCH' && req.path.startsWith('/uploads/')
 });
 
 // Add cookie parser middleware
@@ -68,6 +85,18 @@ app.use('/api', limiter);
 // Apply CSRF protection middleware
 app.use(csrfMiddleware);
 
+// Originals kept by the local store only open through the signed links /files hands out.
+// Every request is checked by the file it would be served, so no spelling of
+// the path reaches an original unsigned.
+app.use('/uploads', (req, res, next) => {
+  const key = localStorageKeyFromPath(req.path);
+  if (key === null || (isPrivateStorageKey(key) && !verifyLocalSignature(key, req.query.expires, req.query.signature))) {
+    res.status(403).json({ message: 'Access forbidden' });
+    return;
+  }
+  next();
+});
+
 // Static files
 app.use('/uploads', (_req, res, next) => {
   // Set CORS headers specifically for static files
@@ -75,7 +104,10 @@ app.use('/uploads', (_req, res, next) => {
   res.setHeader('Access-Control-Allow-Methods', 'GET');
   res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
   next();
-}, express.static(path.join(__dirname, '../uploads')));
+}, express.static(LOCAL_STORAGE_DIR));
+
+// Private files, checked and handed out as signed links
+app.use('/files', fileRoutes);
 
 // Health check
 app.get('/health', (_req, res) => {
@@ -95,53 +127,51 @@ const userConnections = new Map();
 io.on('connection', (socket) => {
   logger.info(`Socket connected: ${socket.id}`);
   
-  // Authenticate user and join user-specific room
-  socket.on('authenticate', (userData) => {
-    if (userData && userData.userId) {
-      // Store user connection consistently
-      socket.data.userId = userData.userId;
-      socket.data.userRole = userData.userRole;
-      socket.handshake.auth.userId = userData.userId;
-      
-      // Add this socket to user's room (for targeted messages)
-      socket.join(userData.userId);
-      
-      // Join role-based rooms
-      if (userData.userRole) {
-        socket.join(`role:${userData.userRole}`);
-      }
-      
-      // Track active user connections
-      if (!userConnections.has(userData.userId)) {
-        userConnections.set(userData.userId, new Set());
-      }
-      userConnections.get(userData.userId).add(socket.id);
-      
-      logger.info(`User authenticated on socket: ${userData.userId}, role: ${userData.userRole}`);
-      
-      // Emit welcome message
-      socket.emit('authenticated', { 
-        status: 'success', 
-        message: 'Authentication successful' 
+  // Join the user's own and role rooms. Who the user is comes from the
+  // handshake's token, never from what the client sends here.
+  socket.on('authenticate', () => {
+    const { userId, userRole } = socket.data;
+
+    if (!userId) {
+      socket.emit('authenticated', {
+        status: 'error',
+        message: 'Not authenticated'
       });
+      return;
     }
-  });
-  
-  // Handle joining exhibition room (for exhibition-specific updates)
-  socket.on('join-exhibition', (exhibitionId) => {
-    if (exhibitionId) {
-      socket.join(`exhibition:${exhibitionId}`);
-      logger.info(`Socket ${socket.id} joined exhibition room: ${exhibitionId}`);
+
+    // Add this socket to user's room (for targeted messages)
+    socket.join(userId);
+
+    // Join role-based rooms
+    socket.join(`role:${userRole}`);
+
+    // Track active user connections
+    if (!userConnections.has(userId)) {
+      userConnections.set(userId, new Set());
     }
+    userConnections.get(userId).add(socket.id);
+
+    logger.info(`User authenticated on socket: ${userId}, role: ${userRole}`);
+
+    // Emit welcome message
+    socket.emit('authenticated', {
+      status: 'success',
+      message: 'Authentication successful'
+    });
   });
   
-  // Handle leaving exhibition room
-  socket.on('leave-exhibition', (exhibitionId) => {
-    if (exhibitionId) {
-      socket.leave(`exhibition:${exhibitionId}`);
-      logger.info(`Socket ${socket.id} left exhibition room: ${exhibitionId}`);
-    }
-  });
+  // Exhibition rooms, visitor counts and avatars in the 3D scene
+  registerVisitorPresence(io, socket);
+  
+  // Live co-editing of wall layouts between curators
+  registerLayoutCollaboration(io, socket);
+  
+  // Docent-led group tours that followers join with a code
+  registerGroupTours(io, socket);
+  
+  // Per-exhibition visitor chat
+  registerExhibitionChat(io, socket);
   
   // Handle client pings to keep connection alive
   socket.on('ping', () => {
@@ -151,8 +181,7 @@ io.on('connection', (socket) => {
   socket.on('disconnect', () => {
     logger.info(`Socket disconnected: ${socket.id}`);
     
-    // Get userId from either location
-    const userId = socket.data?.userId || socket.handshake.auth?.userId;
+    const userId = socket.data?.userId;
     
     // Clean up user connections tracking
     if (userId && userConnections.has(userId)) {
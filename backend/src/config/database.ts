@@ -10,6 +10,20 @@ import { Comment } from '../entities/Comment';
 import { Notification } from '../entities/Notification';
 import { ArtworkPlacement } from '../entities/ArtworkPlacement';
 import { Wall } from '../entities/Wall';
+import { ArtworkReview } from '../entities/ArtworkReview';
+import { ArtworkRendition } from '../entities/ArtworkRendition';
+import { WallLayoutVersion } from '../entities/WallLayoutVersion';
+import { Room } from '../entities/Room';
+import { Doorway } from '../entities/Doorway';
+import { Tour } from '../entities/Tour';
+import { TourStop } from '../entities/TourStop';
+import { ChatMessage } from '../entities/ChatMessage';
+import { ChatMute } from '../entities/ChatMute';
+import { AnalyticsDailyStat } from '../entities/AnalyticsDailyStat';
+import { VisitorPositionSample } from '../entities/VisitorPositionSample';
+import { Job } from '../entities/Job';
+import { DeadJob } from '../entities/DeadJob';
+import { UploadSession } from '../entities/UploadSession';
 
 // Create a new DataSource instance
 export const AppDataSource = new DataSource({
@@ -18,7 +32,9 @@ export const AppDataSource = new DataSource({
   port: parseInt(process.env.DB_PORT || '5432'),
   synchronize: process.env.NODE_ENV !== 'production',
   logging: process.env.NODE_ENV !== 'production',
-  entities: [User, Artwork, Exhibition, ExhibitionItem, Comment, Notification, ArtworkPlacement, Wall],
+  entities: [User, Artwork, Exhibition, ExhibitionItem, Comment, Notification, ArtworkPlacement, Wall, ArtworkReview, ArtworkRendition, WallLayoutVersion, Room, Doorway, Tour, TourStop, ChatMessage, ChatMute, AnalyticsDailyStat, VisitorPositionSample, Job, DeadJob, UploadSession],
   migrations: [path.join(__dirname, '../migrations/*.{ts,js}')],
+  // Migrations run before synchronize, so a backfill can see the schema it is upgrading from
+  migrationsRun: true,
   subscribers: []
 });
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import { handleErrorController } from '../utils/handleErrorController';
+import * as AnalyticsService from '../services/analytics.service';
+
+export class AnalyticsController {
+  /**
+   * Record a batch of engagement events from a visitor's browser
+   * @route POST /api/analytics/events
+   */
+  async ingestEvents(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const result = await AnalyticsService.ingestAnalyticsEvents(req.body.events);
+      res.status(202).json(result);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while recording analytics events');
+    }
+  }
+
+  /**
+   * Record positions sampled from a visitor's walk through the 3D scene
+   * @route POST /api/analytics/positions
+   */
+  async recordPositions(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { exhibitionId, sessionId, samples } = req.body;
+
+      const result = await AnalyticsService.recordPositionSamples(exhibitionId, sessionId, samples);
+      res.status(202).json(result);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while recording visitor positions');
+    }
+  }
+
+  /**
+   * Get engagement with the signed-in artist's artworks
+   * @route GET /api/analytics/artist
+   */
+  async getArtistAnalytics(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const { from, to } = req.query;
+
+      const analytics = await AnalyticsService.getArtistAnalytics(
+        req.user,
+        from as string | undefined,
+        to as string | undefined
+      );
+
+      res.status(200).json(analytics);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while getting artist analytics');
+    }
+  }
+
+  /**
+   * Get engagement with the signed-in curator's exhibitions
+   * @route GET /api/analytics/curator
+   */
+  async getCuratorAnalytics(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const { from, to } = req.query;
+
+      const analytics = await AnalyticsService.getCuratorAnalytics(
+        req.user,
+        from as string | undefined,
+        to as string | undefined
+      );
+
+      res.status(200).json(analytics);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while getting curator analytics');
+    }
+  }
+
+  /**
+   * Get a heatmap of where visitors walked in an exhibition
+   * @route GET /api/analytics/exhibitions/:id/heatmap
+   */
+  async getExhibitionHeatmap(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const { from, to, cellSize } = req.query;
+
+      const heatmap = await AnalyticsService.getExhibitionHeatmap(req.user, req.params.id, {
+        from: from as string | undefined,
+        to: to as string | undefined,
+        cellSize: cellSize !== undefined ? Number(cellSize) : undefined
+      });
+
+      res.status(200).json(heatmap);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while getting the visitor heatmap');
+    }
+  }
+}
@@ -2,8 +2,15 @@ import { Request, Response } from 'express';
 import { AuthRequest } from '../middlewares/auth.middleware';
 import { UserRole } from '../entities/User';
 import * as ArtworkService from '../services/artwork.service';
+import * as ReviewService from '../services/review.service';
 import { handleErrorController } from '../utils/handleErrorController';
 
+/**
+ * The new image sent with a request: a file, or the ID of a completed chunked upload
+ */
+const imageFromRequest = (req: AuthRequest): ArtworkService.ArtworkImageUpload | undefined =>
+  req.file || (req.body.uploadId ? { uploadId: req.body.uploadId } : undefined);
+
 export class ArtworkController {
   /**
    * Get all artworks with filtering and pagination
@@ -37,6 +44,23 @@ export class ArtworkController {
     }
   }
 
+  /**
+   * Send the client on to a signed link for an artwork's original image
+   * @route GET /files/originals/*
+   */
+  async getOriginalFile(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const segments = req.params.path as unknown as string[];
+      const signedUrl = await ArtworkService.getOriginalFileUrl(`originals/${segments.join('/')}`, req.user);
+
+      // The signed link expires, so the redirect must not be remembered for longer
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.redirect(302, signedUrl);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while getting original file');
+    }
+  }
+
   /**
    * Get artwork by ID
    * @route GET /api/artworks/:id
@@ -75,7 +99,8 @@ export class ArtworkController {
       }
       
       // Check if file was uploaded
-      if (!req.file) {
+      const image = imageFromRequest(req);
+      if (!image) {
         res.status(400).json({ message: 'No file uploaded' });
         return;
       }
@@ -89,7 +114,12 @@ export class ArtworkController {
         req.body.category,
         req.body.tags,
         req.body.creationDate,
-        req.file,
+        image,
+        {
+          width: req.body.width,
+          height: req.body.height,
+          depth: req.body.depth
+        },
         io
       );
       
@@ -117,9 +147,12 @@ export class ArtworkController {
           title: req.body.title,
           description: req.body.description,
           category: req.body.category,
-          tags: req.body.tags
+          tags: req.body.tags,
+          width: req.body.width,
+          height: req.body.height,
+          depth: req.body.depth
         },
-        req.file
+        imageFromRequest(req)
       );
       
       res.status(200).json(updatedArtwork);
@@ -177,10 +210,87 @@ export class ArtworkController {
       }
 
       const io = req.app.get('io');
-      const result = await ArtworkService.rejectArtwork(req.params.id, req.user, io);
+      const result = await ArtworkService.rejectArtwork(
+        req.params.id,
+        req.user,
+        req.body.reasonCategory,
+        req.body.reason,
+        io
+      );
       res.status(200).json(result);
     } catch (error: any) {
       handleErrorController(error, req, res, 'Error while rejecting artwork');
     }
   }
+
+  /**
+   * Revise a rejected artwork and send it back for review
+   * @route POST /api/artworks/:id/resubmit
+   */
+  async resubmitArtwork(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const io = req.app.get('io');
+      const artwork = await ArtworkService.resubmitArtwork(
+        req.params.id,
+        req.user,
+        {
+          title: req.body.title,
+          description: req.body.description,
+          category: req.body.category,
+          tags: req.body.tags,
+          width: req.body.width,
+          height: req.body.height,
+          depth: req.body.depth
+        },
+        req.body.note,
+        imageFromRequest(req),
+        io
+      );
+
+      res.status(200).json(artwork);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while resubmitting artwork');
+    }
+  }
+
+  /**
+   * Get the review history of an artwork
+   * @route GET /api/artworks/:id/reviews
+   */
+  async getArtworkReviews(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const reviews = await ReviewService.getArtworkReviews(req.params.id, req.user);
+      res.status(200).json(reviews);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while getting artwork reviews');
+    }
+  }
+
+  /**
+   * Compare the latest review round of an artwork with the previous one
+   * @route GET /api/artworks/:id/reviews/compare
+   */
+  async getReviewComparison(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const comparison = await ReviewService.getReviewComparison(req.params.id, req.user);
+      res.status(200).json(comparison);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while comparing artwork reviews');
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import { handleErrorController } from '../utils/handleErrorController';
+import * as ChatService from '../services/chat.service';
+
+export class ChatController {
+  /**
+   * Get a page of an exhibition's chat history
+   * @route GET /api/exhibitions/:id/chat
+   */
+  async getChatHistory(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { before, limit = 50 } = req.query;
+
+      const history = await ChatService.getChatHistory(
+        req.params.id,
+        req.user,
+        before as string | undefined,
+        Number(limit)
+      );
+
+      res.status(200).json(history);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while getting chat history');
+    }
+  }
+
+  /**
+   * Delete a chat message
+   * @route DELETE /api/exhibitions/:id/chat/:messageId
+   */
+  async deleteChatMessage(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const io = req.app.get('io');
+
+      const result = await ChatService.deleteChatMessage(req.user, req.params.id, req.params.messageId, io);
+      res.status(200).json(result);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while deleting chat message');
+    }
+  }
+
+  /**
+   * Get the visitors muted in an exhibition's chat
+   * @route GET /api/exhibitions/:id/chat/mutes
+   */
+  async getChatMutes(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const mutes = await ChatService.getChatMutes(req.user, req.params.id);
+      res.status(200).json(mutes);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while getting chat mutes');
+    }
+  }
+
+  /**
+   * Mute a visitor in an exhibition's chat
+   * @route PUT /api/exhibitions/:id/chat/mutes/:userId
+   */
+  async muteChatUser(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const io = req.app.get('io');
+
+      const mute = await ChatService.muteChatUser(
+        req.user,
+        req.params.id,
+        req.params.userId,
+        req.body.minutes ?? null,
+        io
+      );
+
+      res.status(200).json(mute);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while muting chat user');
+    }
+  }
+
+  /**
+   * Lift a visitor's chat mute
+   * @route DELETE /api/exhibitions/:id/chat/mutes/:userId
+   */
+  async unmuteChatUser(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const io = req.app.get('io');
+
+      const result = await ChatService.unmuteChatUser(req.user, req.params.id, req.params.userId, io);
+      res.status(200).json(result);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while unmuting chat user');
+    }
+  }
+
+  /**
+   * Turn slow mode on or off for an exhibition's chat
+   * @route PUT /api/exhibitions/:id/chat/slow-mode
+   */
+  async setChatSlowMode(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const io = req.app.get('io');
+
+      const settings = await ChatService.setChatSlowMode(req.user, req.params.id, req.body.seconds, io);
+      res.status(200).json(settings);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while setting chat slow mode');
+    }
+  }
+}
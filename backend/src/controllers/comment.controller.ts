@@ -0,0 +1,137 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import { handleErrorController } from '../utils/handleErrorController';
+import * as CommentService from '../services/comment.service';
+
+export class CommentController {
+  /**
+   * Get the comment threads on an artwork
+   * @route GET /api/artworks/:id/comments
+   */
+  async getComments(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 20 } = req.query;
+
+      const result = await CommentService.getComments(
+        req.params.id,
+        req.user,
+        Number(page),
+        Number(limit)
+      );
+
+      res.status(200).json(result);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while getting comments');
+    }
+  }
+
+  /**
+   * Add a comment or a reply to an artwork
+   * @route POST /api/artworks/:id/comments
+   */
+  async createComment(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const io = req.app.get('io');
+
+      const comment = await CommentService.createComment(
+        req.user,
+        req.params.id,
+        req.body.content,
+        req.body.parentId,
+        io
+      );
+
+      res.status(201).json(comment);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while creating comment');
+    }
+  }
+
+  /**
+   * Edit a comment
+   * @route PATCH /api/artworks/:id/comments/:commentId
+   */
+  async updateComment(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const comment = await CommentService.updateComment(
+        req.user,
+        req.params.id,
+        req.params.commentId,
+        req.body.content
+      );
+
+      res.status(200).json(comment);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while updating comment');
+    }
+  }
+
+  /**
+   * Delete a comment
+   * @route DELETE /api/artworks/:id/comments/:commentId
+   */
+  async deleteComment(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const result = await CommentService.deleteComment(req.user, req.params.id, req.params.commentId);
+      res.status(200).json(result);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while deleting comment');
+    }
+  }
+
+  /**
+   * Get the edit history of a comment
+   * @route GET /api/artworks/:id/comments/:commentId/history
+   */
+  async getCommentHistory(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const history = await CommentService.getCommentHistory(req.params.id, req.params.commentId, req.user);
+      res.status(200).json(history);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while getting comment history');
+    }
+  }
+
+  /**
+   * Hide, pin or lock a comment
+   * @route PATCH /api/artworks/:id/comments/:commentId/moderate
+   */
+  async moderateComment(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const comment = await CommentService.moderateComment(
+        req.user,
+        req.params.id,
+        req.params.commentId,
+        {
+          isHidden: req.body.isHidden,
+          isPinned: req.body.isPinned,
+          isLocked: req.body.isLocked
+        }
+      );
+
+      res.status(200).json(comment);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while moderating comment');
+    }
+  }
+}
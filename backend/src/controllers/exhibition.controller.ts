@@ -4,25 +4,72 @@ import { handleErrorController } from '../utils/handleErrorController';
 import { validateRequestBody } from '../utils/validateRequestBody';
 import * as ExhibitionService from '../services/exhibition.service';
 
+/**
+ * Read which layout the caller wants: ?layout=draft for the curator's draft,
+ * ?preview=<token> for a draft preview link
+ */
+const getLayoutViewOptions = (req: AuthRequest): ExhibitionService.LayoutViewOptions => ({
+  draft: req.query.layout === 'draft',
+  previewToken: typeof req.query.preview === 'string' ? req.query.preview : undefined
+});
+
 export class ExhibitionController {
   /**
-   * Get the active exhibition with all walls and artwork placements
-   * @route GET /api/exhibition
+   * Get all exhibitions with filtering and pagination
+   * @route GET /api/exhibitions
    */
-  async getExhibition(_req: Request, res: Response): Promise<void> {
+  async getExhibitions(req: AuthRequest, res: Response): Promise<void> {
     try {
-      const exhibition = await ExhibitionService.getExhibition();
+      const {
+        curator,
+        isActive,
+        status,
+        search,
+        page = 1,
+        limit = 10
+      } = req.query;
+
+      // Validate pagination parameters
+      await validateRequestBody({ page: Number(page), limit: Number(limit) });
+
+      const result = await ExhibitionService.getExhibitions(
+        req.user,
+        curator as string | undefined,
+        isActive === undefined ? undefined : isActive === 'true',
+        status as string | undefined,
+        search as string | undefined,
+        Number(page),
+        Number(limit)
+      );
+
+      res.status(200).json(result);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while getting exhibitions');
+    }
+  }
+
+  /**
+   * Get an exhibition with all walls and artwork placements
+   * @route GET /api/exhibitions/:id
+   */
+  async getExhibitionById(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const exhibition = await ExhibitionService.getExhibitionById(
+        req.params.id,
+        req.user,
+        getLayoutViewOptions(req)
+      );
       res.status(200).json(exhibition);
     } catch (error: any) {
-      handleErrorController(error, _req, res, 'Error while getting exhibition');
+      handleErrorController(error, req, res, 'Error while getting exhibition');
     }
   }
 
   /**
-   * Create or update the exhibition
-   * @route POST /api/exhibition
+   * Create a new exhibition
+   * @route POST /api/exhibitions
    */
-  async createOrUpdateExhibition(req: AuthRequest, res: Response): Promise<void> {
+  async createExhibition(req: AuthRequest, res: Response): Promise<void> {
     try {
       // Authenticate
       if (!req.user) {
@@ -30,42 +77,181 @@ export class ExhibitionController {
         return;
       }
       
-      const { title, description, startDate, endDate, isActive } = req.body;
+      const { title, description, startDate, endDate, publish } = req.body;
       
       // Validate required fields
       await validateRequestBody({ title, description, startDate, endDate });
       
-      const savedExhibition = await ExhibitionService.createOrUpdateExhibition(
+      const io = req.app.get('io');
+      const savedExhibition = await ExhibitionService.createExhibition(
         req.user,
         title,
         description,
         startDate,
         endDate,
-        isActive
+        publish,
+        io
       );
       
+      res.status(201).json(savedExhibition);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while creating exhibition');
+    }
+  }
+
+  /**
+   * Update an exhibition
+   * @route PUT /api/exhibitions/:id
+   */
+  async updateExhibition(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const { title, description, startDate, endDate } = req.body;
+
+      const io = req.app.get('io');
+      const savedExhibition = await ExhibitionService.updateExhibition(
+        req.user,
+        req.params.id,
+        { title, description, startDate, endDate },
+        io
+      );
+
       res.status(200).json(savedExhibition);
     } catch (error: any) {
-      handleErrorController(error, req, res, 'Error while creating/updating exhibition');
+      handleErrorController(error, req, res, 'Error while updating exhibition');
     }
   }
 
   /**
-   * Get all walls for the exhibition
-   * @route GET /api/exhibition/walls
+   * Delete an exhibition
+   * @route DELETE /api/exhibitions/:id
    */
-  async getWalls(_req: Request, res: Response): Promise<void> {
+  async deleteExhibition(req: AuthRequest, res: Response): Promise<void> {
     try {
-      const walls = await ExhibitionService.getWalls();
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const result = await ExhibitionService.deleteExhibition(req.user, req.params.id);
+      res.status(200).json(result);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while deleting exhibition');
+    }
+  }
+
+  /**
+   * Publish a draft exhibition
+   * @route PATCH /api/exhibitions/:id/publish
+   */
+  async publishExhibition(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const io = req.app.get('io');
+      const exhibition = await ExhibitionService.publishExhibition(req.user, req.params.id, io);
+      res.status(200).json(exhibition);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while publishing exhibition');
+    }
+  }
+
+  /**
+   * Move a scheduled exhibition back to draft
+   * @route PATCH /api/exhibitions/:id/unpublish
+   */
+  async unpublishExhibition(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const exhibition = await ExhibitionService.unpublishExhibition(req.user, req.params.id);
+      res.status(200).json(exhibition);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while unpublishing exhibition');
+    }
+  }
+
+  /**
+   * Publish the draft layout so visitors see it
+   * @route POST /api/exhibitions/:id/layout/publish
+   */
+  async publishExhibitionLayout(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const io = req.app.get('io');
+      const status = await ExhibitionService.publishExhibitionLayout(req.user, req.params.id, io);
+      res.status(200).json(status);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while publishing exhibition layout');
+    }
+  }
+
+  /**
+   * Get when the layout was last published and whether the draft differs
+   * @route GET /api/exhibitions/:id/layout/status
+   */
+  async getLayoutPublishStatus(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const status = await ExhibitionService.getLayoutPublishStatus(req.user, req.params.id);
+      res.status(200).json(status);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while getting layout publish status');
+    }
+  }
+
+  /**
+   * Create a preview link for viewing the draft layout in the 3D viewer
+   * @route POST /api/exhibitions/:id/layout/preview
+   */
+  async createLayoutPreviewToken(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const preview = await ExhibitionService.createLayoutPreviewToken(req.user, req.params.id);
+      res.status(201).json(preview);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while creating layout preview');
+    }
+  }
+
+  /**
+   * Get all walls for an exhibition
+   * @route GET /api/exhibitions/:id/layout
+   */
+  async getWalls(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const walls = await ExhibitionService.getWalls(req.params.id, req.user, getLayoutViewOptions(req));
       res.status(200).json(walls);
     } catch (error: any) {
-      handleErrorController(error, _req, res, 'Error while getting walls');
+      handleErrorController(error, req, res, 'Error while getting walls');
     }
   }
 
   /**
-   * Create a new wall in the exhibition
-   * @route POST /api/exhibition/walls
+   * Create a new wall in an exhibition
+   * @route POST /api/exhibitions/:id/walls
    */
   async createWall(req: AuthRequest, res: Response): Promise<void> {
     try {
@@ -74,12 +260,20 @@ export class ExhibitionController {
         return;
       }
       
-      const { name } = req.body;
+      const { name, width, height, depth, roomId, planPosition, orientation } = req.body;
+      const exhibitionId = req.params.id;
       
       // Validate required fields
-      await validateRequestBody({ name });
+      await validateRequestBody({ exhibitionId, name });
       
-      const savedWall = await ExhibitionService.createWall(req.user, name);
+      const io = req.app.get('io');
+      const savedWall = await ExhibitionService.createWall(
+        req.user,
+        exhibitionId,
+        name,
+        { width, height, depth, roomId, planPosition, orientation },
+        io
+      );
       res.status(201).json(savedWall);
     } catch (error: any) {
       handleErrorController(error, req, res, 'Error while creating wall');
@@ -88,7 +282,7 @@ export class ExhibitionController {
 
   /**
    * Update a wall
-   * @route PUT /api/exhibition/walls/:id
+   * @route PUT /api/exhibitions/walls/:id
    */
   async updateWall(req: AuthRequest, res: Response): Promise<void> {
     try {
@@ -97,16 +291,18 @@ export class ExhibitionController {
         return;
       }
       
-      const { name, displayOrder } = req.body;
+      const { name, displayOrder, width, height, depth, roomId, planPosition, orientation } = req.body;
       const wallId = req.params.id;
       
       // Validate required fields
       await validateRequestBody({ wallId, name });
       
+      const io = req.app.get('io');
       const savedWall = await ExhibitionService.updateWall(
         req.user, 
         wallId, 
-        { name, displayOrder }
+        { name, displayOrder, width, height, depth, roomId, planPosition, orientation },
+        io
       );
       
       res.status(200).json(savedWall);
@@ -117,7 +313,7 @@ export class ExhibitionController {
 
   /**
    * Delete a wall
-   * @route DELETE /api/exhibition/walls/:id
+   * @route DELETE /api/exhibitions/walls/:id
    */
   async deleteWall(req: AuthRequest, res: Response): Promise<void> {
     try {
@@ -126,16 +322,162 @@ export class ExhibitionController {
         return;
       }
       
-      const result = await ExhibitionService.deleteWall(req.user, req.params.id);
+      const io = req.app.get('io');
+      const result = await ExhibitionService.deleteWall(req.user, req.params.id, io);
       res.status(200).json(result);
     } catch (error: any) {
       handleErrorController(error, req, res, 'Error while deleting wall');
     }
   }
 
+  /**
+   * Get an exhibition's floor plan: rooms, their walls and the doorways between them
+   * @route GET /api/exhibitions/:id/floor-plan
+   */
+  async getFloorPlan(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const floorPlan = await ExhibitionService.getFloorPlan(req.params.id, req.user, getLayoutViewOptions(req));
+      res.status(200).json(floorPlan);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while getting floor plan');
+    }
+  }
+
+  /**
+   * Add a room to an exhibition
+   * @route POST /api/exhibitions/:id/rooms
+   */
+  async createRoom(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const { name, footprint, displayOrder } = req.body;
+
+      const io = req.app.get('io');
+      const room = await ExhibitionService.createRoom(req.user, req.params.id, { name, footprint, displayOrder }, io);
+      res.status(201).json(room);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while creating room');
+    }
+  }
+
+  /**
+   * Update a room
+   * @route PUT /api/exhibitions/rooms/:id
+   */
+  async updateRoom(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const { name, footprint, displayOrder } = req.body;
+
+      const io = req.app.get('io');
+      const room = await ExhibitionService.updateRoom(req.user, req.params.id, { name, footprint, displayOrder }, io);
+      res.status(200).json(room);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while updating room');
+    }
+  }
+
+  /**
+   * Delete a room
+   * @route DELETE /api/exhibitions/rooms/:id
+   */
+  async deleteRoom(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const io = req.app.get('io');
+      const result = await ExhibitionService.deleteRoom(req.user, req.params.id, io);
+      res.status(200).json(result);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while deleting room');
+    }
+  }
+
+  /**
+   * Add a doorway between rooms of an exhibition
+   * @route POST /api/exhibitions/:id/doorways
+   */
+  async createDoorway(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const { fromRoomId, toRoomId, position, width } = req.body;
+
+      const io = req.app.get('io');
+      const doorway = await ExhibitionService.createDoorway(
+        req.user,
+        req.params.id,
+        { fromRoomId, toRoomId, position, width },
+        io
+      );
+      res.status(201).json(doorway);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while creating doorway');
+    }
+  }
+
+  /**
+   * Update a doorway
+   * @route PUT /api/exhibitions/doorways/:id
+   */
+  async updateDoorway(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const { fromRoomId, toRoomId, position, width } = req.body;
+
+      const io = req.app.get('io');
+      const doorway = await ExhibitionService.updateDoorway(
+        req.user,
+        req.params.id,
+        { fromRoomId, toRoomId, position, width },
+        io
+      );
+      res.status(200).json(doorway);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while updating doorway');
+    }
+  }
+
+  /**
+   * Delete a doorway
+   * @route DELETE /api/exhibitions/doorways/:id
+   */
+  async deleteDoorway(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const io = req.app.get('io');
+      const result = await ExhibitionService.deleteDoorway(req.user, req.params.id, io);
+      res.status(200).json(result);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while deleting doorway');
+    }
+  }
+
   /**
    * Update the layout of artworks on a wall
-   * @route POST /api/exhibition/walls/:id/layout
+   * @route POST /api/exhibitions/walls/:id/layout
    */
   async updateWallLayout(req: AuthRequest, res: Response): Promise<void> {
     try {
@@ -144,16 +486,19 @@ export class ExhibitionController {
         return;
       }
       
-      const { placements } = req.body;
+      const { placements, expectedRevision } = req.body;
       const wallId = req.params.id;
       
       // Validate required fields
       await validateRequestBody({ wallId, placements });
       
+      const io = req.app.get('io');
       const updatedWall = await ExhibitionService.updateWallLayout(
         req.user,
         wallId,
-        placements
+        placements,
+        expectedRevision !== undefined ? Number(expectedRevision) : undefined,
+        io
       );
       
       res.status(200).json(updatedWall);
@@ -162,9 +507,104 @@ export class ExhibitionController {
     }
   }
 
+  /**
+   * Propose a layout for a wall without saving it
+   * @route POST /api/exhibitions/walls/:id/layout/auto
+   */
+  async previewAutoLayout(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const { artworkIds, strategy, groupBy } = req.body;
+
+      const preview = await ExhibitionService.previewAutoLayout(req.user, req.params.id, artworkIds, {
+        strategy,
+        groupBy
+      });
+
+      res.status(200).json(preview);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while generating wall layout');
+    }
+  }
+
+  /**
+   * Get the saved layout versions of a wall
+   * @route GET /api/exhibitions/walls/:id/layout/versions
+   */
+  async getWallLayoutVersions(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const versions = await ExhibitionService.getWallLayoutVersions(req.user, req.params.id);
+      res.status(200).json(versions);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while getting layout versions');
+    }
+  }
+
+  /**
+   * Compare two layout versions of a wall
+   * @route GET /api/exhibitions/walls/:id/layout/diff
+   */
+  async getWallLayoutDiff(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const { from, to } = req.query;
+
+      const diff = await ExhibitionService.getWallLayoutDiff(
+        req.user,
+        req.params.id,
+        from !== undefined ? Number(from) : undefined,
+        to !== undefined ? Number(to) : undefined
+      );
+
+      res.status(200).json(diff);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while comparing layout versions');
+    }
+  }
+
+  /**
+   * Restore an earlier layout version of a wall
+   * @route POST /api/exhibitions/walls/:id/layout/versions/:version/rollback
+   */
+  async rollbackWallLayout(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const { expectedRevision } = req.body;
+      const io = req.app.get('io');
+      const updatedWall = await ExhibitionService.rollbackWallLayout(
+        req.user,
+        req.params.id,
+        Number(req.params.version),
+        expectedRevision !== undefined ? Number(expectedRevision) : undefined,
+        io
+      );
+
+      res.status(200).json(updatedWall);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while restoring layout version');
+    }
+  }
+
   /**
    * Get all approved artworks for placement (curator's stockpile)
-   * @route GET /api/exhibition/stockpile
+   * @route GET /api/exhibitions/stockpile
    */
   async getArtworksForPlacement(_req: Request, res: Response): Promise<void> {
     try {
@@ -177,16 +617,20 @@ export class ExhibitionController {
 
   /**
    * Get walls with their images for a specific exhibition
-   * @route GET /api/exhibition/:exhibitionId/walls
+   * @route GET /api/exhibitions/:exhibitionId/walls
    */
-  async getWallsWithImages(req: Request, res: Response): Promise<void> {
+  async getWallsWithImages(req: AuthRequest, res: Response): Promise<void> {
     try {
       const exhibitionId = req.params.exhibitionId;
       
       // Validate required fields
       await validateRequestBody({ exhibitionId });
       
-      const wallResults = await ExhibitionService.getWallsWithImages(exhibitionId);
+      const wallResults = await ExhibitionService.getWallsWithImages(
+        exhibitionId,
+        req.user,
+        getLayoutViewOptions(req)
+      );
       res.json(wallResults);
     } catch (error: any) {
       handleErrorController(error, req, res, 'Error while getting walls with images');
@@ -0,0 +1,105 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import { handleErrorController } from '../utils/handleErrorController';
+import * as ReviewService from '../services/review.service';
+
+export class ReviewController {
+  /**
+   * Get the artworks waiting for review
+   * @route GET /api/reviews/queue
+   */
+  async getReviewQueue(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const { page = 1, limit = 20, category, artist, search, assignee } = req.query;
+
+      const result = await ReviewService.getReviewQueue(
+        req.user,
+        {
+          category: category as string | undefined,
+          artist: artist as string | undefined,
+          search: search as string | undefined,
+          assignee: assignee as string | undefined
+        },
+        Number(page),
+        Number(limit)
+      );
+
+      res.status(200).json(result);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while getting review queue');
+    }
+  }
+
+  /**
+   * Claim an artwork in the review queue
+   * @route POST /api/reviews/queue/:artworkId/claim
+   */
+  async claimReview(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const io = req.app.get('io');
+
+      const item = await ReviewService.claimReview(req.user, req.params.artworkId, io);
+
+      res.status(200).json(item);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while claiming review');
+    }
+  }
+
+  /**
+   * Give a claimed artwork back to the review queue
+   * @route POST /api/reviews/queue/:artworkId/release
+   */
+  async releaseReview(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const io = req.app.get('io');
+
+      const item = await ReviewService.releaseReview(req.user, req.params.artworkId, io);
+
+      res.status(200).json(item);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while releasing review');
+    }
+  }
+
+  /**
+   * Assign an artwork in the review queue to a curator
+   * @route POST /api/reviews/queue/:artworkId/assign
+   */
+  async assignReview(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const io = req.app.get('io');
+
+      const item = await ReviewService.assignReview(
+        req.user,
+        req.params.artworkId,
+        req.body.curatorId,
+        io
+      );
+
+      res.status(200).json(item);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while assigning review');
+    }
+  }
+}
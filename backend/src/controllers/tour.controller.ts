@@ -0,0 +1,149 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import { handleErrorController } from '../utils/handleErrorController';
+import * as TourService from '../services/tour.service';
+
+export class TourController {
+  /**
+   * Get the tours of an exhibition
+   * @route GET /api/exhibitions/:id/tours
+   */
+  async getTours(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const tours = await TourService.getTours(req.params.id, req.user);
+      res.status(200).json(tours);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while getting tours');
+    }
+  }
+
+  /**
+   * Get a tour with its stops
+   * @route GET /api/exhibitions/tours/:id
+   */
+  async getTour(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const tour = await TourService.getTour(req.params.id, req.user);
+      res.status(200).json(tour);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while getting tour');
+    }
+  }
+
+  /**
+   * Start a new tour of an exhibition
+   * @route POST /api/exhibitions/:id/tours
+   */
+  async createTour(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const { title, description } = req.body;
+
+      const tour = await TourService.createTour(req.user, req.params.id, { title, description });
+      res.status(201).json(tour);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while creating tour');
+    }
+  }
+
+  /**
+   * Update a tour's details or publish it
+   * @route PUT /api/exhibitions/tours/:id
+   */
+  async updateTour(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const { title, description, isPublished } = req.body;
+
+      const tour = await TourService.updateTour(req.user, req.params.id, { title, description, isPublished });
+      res.status(200).json(tour);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while updating tour');
+    }
+  }
+
+  /**
+   * Delete a tour
+   * @route DELETE /api/exhibitions/tours/:id
+   */
+  async deleteTour(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const result = await TourService.deleteTour(req.user, req.params.id);
+      res.status(200).json(result);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while deleting tour');
+    }
+  }
+
+  /**
+   * Replace a tour's stops
+   * @route PUT /api/exhibitions/tours/:id/stops
+   */
+  async saveTourStops(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const tour = await TourService.saveTourStops(req.user, req.params.id, req.body.stops);
+      res.status(200).json(tour);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while saving tour stops');
+    }
+  }
+
+  /**
+   * Attach a narration clip to a tour stop
+   * @route POST /api/exhibitions/tours/:id/stops/:stopId/audio
+   */
+  async setTourStopAudio(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({ message: 'No file uploaded' });
+        return;
+      }
+
+      const stop = await TourService.setTourStopAudio(req.user, req.params.id, req.params.stopId, req.file);
+      res.status(200).json(stop);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while uploading tour audio');
+    }
+  }
+
+  /**
+   * Remove a tour stop's narration clip
+   * @route DELETE /api/exhibitions/tours/:id/stops/:stopId/audio
+   */
+  async removeTourStopAudio(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const stop = await TourService.removeTourStopAudio(req.user, req.params.id, req.params.stopId);
+      res.status(200).json(stop);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while removing tour audio');
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { Request, Response } from 'express';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import * as ResumableUploadService from '../services/resumableUpload.service';
+import { handleErrorController } from '../utils/handleErrorController';
+
+/**
+ * Read a chunk sent as the raw request body
+ * @param maxBytes Chunks bigger than this are refused before they are read in full
+ */
+const readChunk = (req: Request, maxBytes: number) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const parts: Buffer[] = [];
+    let received = 0;
+
+    req.on('data', (part: Buffer) => {
+      received += part.length;
+      if (received > maxBytes) {
+        req.pause();
+        reject({ code: 413, error: new Error(`Chunks must be at most ${maxBytes} bytes`) });
+        return;
+      }
+      parts.push(part);
+    });
+    req.on('end', () => resolve(Buffer.concat(parts)));
+    req.on('error', reject);
+  });
+
+export class UploadController {
+  /**
+   * Start a chunked upload
+   * @route POST /api/uploads
+   */
+  async createUpload(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const upload = await ResumableUploadService.createUpload(
+        req.user,
+        req.body.fileName,
+        req.body.mimeType,
+        req.body.size
+      );
+
+      res.status(201).location(`${req.baseUrl}/${upload.id}`).json(upload);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while starting upload');
+    }
+  }
+
+  /**
+   * How far an upload has got
+   * @route GET /api/uploads/:id
+   */
+  async getUpload(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const upload = await ResumableUploadService.getUpload(req.params.id, req.user);
+
+      res.status(200).set('Upload-Offset', String(upload.offset)).json(upload);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while getting upload');
+    }
+  }
+
+  /**
+   * Send the next chunk of an upload, starting at the Upload-Offset header
+   * and checked against the Upload-Checksum header
+   * @route PATCH /api/uploads/:id
+   */
+  async appendChunk(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      if (!req.is('application/offset+octet-stream')) {
+        res.status(415).json({ message: 'Chunks must be sent as application/offset+octet-stream' });
+        return;
+      }
+
+      const offset = Number(req.headers['upload-offset']);
+      if (!Number.isInteger(offset) || offset < 0) {
+        res.status(400).json({ message: 'Upload-Offset must be a byte offset' });
+        return;
+      }
+
+      const chunk = await readChunk(req, ResumableUploadService.MAX_CHUNK_BYTES);
+      const upload = await ResumableUploadService.appendChunk(
+        req.params.id,
+        req.user,
+        offset,
+        chunk,
+        req.headers['upload-checksum'] as string | undefined
+      );
+
+      res.status(200).set('Upload-Offset', String(upload.offset)).json(upload);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while uploading chunk');
+    }
+  }
+
+  /**
+   * Finish an upload once every chunk is in
+   * @route POST /api/uploads/:id/complete
+   */
+  async completeUpload(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const upload = await ResumableUploadService.completeUpload(req.params.id, req.user);
+
+      res.status(200).json(upload);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while completing upload');
+    }
+  }
+
+  /**
+   * Give up on an upload
+   * @route DELETE /api/uploads/:id
+   */
+  async cancelUpload(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ message: 'Not authenticated' });
+        return;
+      }
+
+      const result = await ResumableUploadService.cancelUpload(req.params.id, req.user);
+
+      res.status(200).json(result);
+    } catch (error: any) {
+      handleErrorController(error, req, res, 'Error while cancelling upload');
+    }
+  }
+}
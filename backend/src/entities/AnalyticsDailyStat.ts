@@ -0,0 +1,49 @@
+import { Entity, PrimaryGeneratedColumn, Column, Unique } from 'typeorm';
+
+/**
+ * What a daily engagement total is counted for
+ */
+export enum AnalyticsScope {
+  ARTWORK = 'artwork',
+  WALL = 'wall',
+  EXHIBITION = 'exhibition'
+}
+
+/**
+ * Visitor engagement with one artwork, wall or exhibition over one day (UTC)
+ */
+@Entity('analytics_daily_stats')
+@Unique(['day', 'scope', 'scopeId'])
+export class AnalyticsDailyStat {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // YYYY-MM-DD
+  @Column('date')
+  day: string;
+
+  @Column({
+    type: 'enum',
+    enum: AnalyticsScope
+  })
+  scope: AnalyticsScope;
+
+  // The artwork, wall or exhibition counted
+  @Column('uuid')
+  scopeId: string;
+
+  // Artwork detail page views; only counted for artworks
+  @Column({ type: 'int', default: 0 })
+  views: number;
+
+  // Times the artwork was picked in the 3D scene
+  @Column({ type: 'int', default: 0 })
+  selections: number;
+
+  // Time visitors spent standing near the artwork, and how many visits that was
+  @Column({ type: 'double precision', default: 0 })
+  dwellSeconds: number;
+
+  @Column({ type: 'int', default: 0 })
+  dwellCount: number;
+}
@@ -3,6 +3,8 @@ import { User } from './User';
 import { Comment } from './Comment';
 import { ExhibitionItem } from './ExhibitionItem';
 import { ArtworkPlacement } from './ArtworkPlacement';
+import { ArtworkReview } from './ArtworkReview';
+import { ArtworkRendition } from './ArtworkRendition';
 
 export enum ArtworkStatus {
     PENDING = 'pending',
@@ -10,6 +12,29 @@ export enum ArtworkStatus {
     REJECTED = 'rejected'
 }
 
+// Renditions and tiles are made by the background worker after upload
+export enum ArtworkImageStatus {
+    PROCESSING = 'processing',
+    READY = 'ready',
+    FAILED = 'failed'
+}
+
+// A tile pyramid in the Deep Zoom layout. Level levels - 1 is full size and
+// each level below halves it; tile (column, row) of a level is found at
+// `${tilesUrl}/${level}/${column}_${row}.${format}`.
+export interface DeepZoomImage {
+    // The .dzi descriptor, for viewers that read it themselves
+    descriptorUrl: string;
+    tilesUrl: string;
+    width: number;
+    height: number;
+    tileSize: number;
+    // Pixels each tile repeats from its neighbours on every shared edge
+    overlap: number;
+    format: 'jpeg' | 'png';
+    levels: number;
+}
+
 @Entity('artworks')
 export class Artwork {
     @PrimaryGeneratedColumn('uuid')
@@ -34,6 +59,19 @@ export class Artwork {
     @Column()
     thumbnailUrl: string;
 
+    // Only images too big to show whole are tiled
+    @Column('jsonb', { nullable: true })
+    deepZoom: DeepZoomImage | null;
+
+    // While processing, a new artwork has no thumbnail yet and an edited one
+    // keeps the renditions of its previous image
+    @Column({
+        type: 'enum',
+        enum: ArtworkImageStatus,
+        default: ArtworkImageStatus.READY
+    })
+    imageStatus: ArtworkImageStatus;
+
     @Column({ length: 50 })
     category: string;
 
@@ -42,6 +80,16 @@ export class Artwork {
 
     @Column('timestamptz')
     creationDate: Date;
+
+    // Physical size in metres; unknown for artworks submitted before sizes were asked for
+    @Column('float', { nullable: true })
+    width: number | null;
+
+    @Column('float', { nullable: true })
+    height: number | null;
+
+    @Column('float', { nullable: true })
+    depth: number | null;
     
     @Column({
         type: 'enum',
@@ -50,6 +98,10 @@ export class Artwork {
     })
     status: ArtworkStatus;
 
+    // Goes up every time the artist changes the artwork, so reviews can say which version they saw
+    @Column('int', { default: 1 })
+    revision: number;
+
     @OneToMany(() => Comment, comment => comment.artwork)
     comments: Comment[];
 
@@ -59,6 +111,13 @@ export class Artwork {
     @OneToMany(() => ArtworkPlacement, placement => placement.artwork)
     placements: ArtworkPlacement[];
 
+    @OneToMany(() => ArtworkReview, review => review.artwork)
+    reviews: ArtworkReview[];
+
+    // Resized copies of the image; none for artworks uploaded before renditions existed
+    @OneToMany(() => ArtworkRendition, rendition => rendition.artwork)
+    renditions: ArtworkRendition[];
+
     @CreateDateColumn()
     createdAt: Date;
 
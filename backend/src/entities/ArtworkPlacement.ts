@@ -35,15 +35,16 @@ export class ArtworkPlacement {
   })
   position: PlacementPosition;
 
-  // For custom positioning
+  // For custom positioning: the artwork's centre in metres, x from the wall's
+  // left edge, y up from the floor and z out from the wall surface
   @Column('jsonb', { nullable: true })
   coordinates: { x: number, y: number, z: number } | null;
 
-  // For rotation
+  // For rotation, in degrees; z turns the artwork within the wall plane
   @Column('jsonb', { nullable: true })
   rotation: { x: number, y: number, z: number } | null;
 
-  // For scaling
+  // For scaling, multiplying the artwork's width (x), height (y) and depth (z)
   @Column('jsonb', { nullable: true })
   scale: { x: number, y: number, z: number } | null;
 
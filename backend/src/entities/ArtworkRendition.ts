@@ -0,0 +1,67 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, Index } from 'typeorm';
+import { Artwork } from './Artwork';
+
+/**
+ * What a rendition is sized for
+ */
+export enum RenditionKind {
+  THUMB = 'thumb',
+  CARD = 'card',
+  DETAIL = 'detail',
+  // Power-of-two texture for the 3D viewer
+  TEXTURE = 'texture'
+}
+
+export enum RenditionFormat {
+  AVIF = 'avif',
+  WEBP = 'webp',
+  // The fallbacks: PNG for images with transparency, JPEG for the rest
+  JPEG = 'jpeg',
+  PNG = 'png'
+}
+
+/**
+ * A resized copy of an artwork's image in one format, so clients download
+ * only what they show
+ */
+@Entity('artwork_renditions')
+@Index(['artworkId'])
+export class ArtworkRendition {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Artwork, artwork => artwork.renditions, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'artworkId' })
+  artwork: Artwork;
+
+  @Column()
+  artworkId: string;
+
+  @Column({
+    type: 'enum',
+    enum: RenditionKind
+  })
+  kind: RenditionKind;
+
+  @Column({
+    type: 'enum',
+    enum: RenditionFormat
+  })
+  format: RenditionFormat;
+
+  // In pixels
+  @Column('int')
+  width: number;
+
+  @Column('int')
+  height: number;
+
+  @Column()
+  fileUrl: string;
+
+  @Column('int')
+  bytes: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,110 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn } from 'typeorm';
+import { User } from './User';
+import { Artwork } from './Artwork';
+
+export enum ReviewDecision {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected'
+}
+
+export enum RejectionReason {
+  IMAGE_QUALITY = 'image_quality',
+  INCOMPLETE_INFORMATION = 'incomplete_information',
+  COPYRIGHT = 'copyright',
+  INAPPROPRIATE_CONTENT = 'inappropriate_content',
+  OFF_THEME = 'off_theme',
+  DUPLICATE = 'duplicate',
+  OTHER = 'other'
+}
+
+// The artwork as it looked when it was submitted for this round
+export interface ArtworkSnapshot {
+  title: string;
+  description: string;
+  category: string;
+  tags: string[];
+  fileUrl: string;
+  thumbnailUrl: string;
+}
+
+/**
+ * One round of curator review. A round opens when the artist submits
+ * (or resubmits) the artwork and closes with the curator's decision.
+ */
+@Entity('artwork_reviews')
+export class ArtworkReview {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Artwork, artwork => artwork.reviews, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'artworkId' })
+  artwork: Artwork;
+
+  @Column()
+  artworkId: string;
+
+  // Starts at 1 and goes up with every resubmission
+  @Column('int')
+  round: number;
+
+  @Column({
+    type: 'enum',
+    enum: ReviewDecision,
+    default: ReviewDecision.PENDING
+  })
+  decision: ReviewDecision;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'reviewerId' })
+  reviewer: User | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  reviewerId: string | null;
+
+  // Curator currently holding this round in the review queue
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'assigneeId' })
+  assignee: User | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  assigneeId: string | null;
+
+  // The assignee themselves for claims, an admin for assignments
+  @Column({ type: 'uuid', nullable: true })
+  assignedById: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  claimedAt: Date | null;
+
+  // Claims lapse after a while; admin assignments have no expiry
+  @Column({ type: 'timestamptz', nullable: true })
+  claimExpiresAt: Date | null;
+
+  @Column({
+    type: 'enum',
+    enum: RejectionReason,
+    nullable: true
+  })
+  reasonCategory: RejectionReason | null;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null;
+
+  // What the artist changed since the last round, in their own words
+  @Column({ type: 'text', nullable: true })
+  submissionNote: string | null;
+
+  // The artwork revision this round was decided on
+  @Column('int', { default: 1 })
+  artworkRevision: number;
+
+  @Column('jsonb')
+  snapshot: ArtworkSnapshot;
+
+  @CreateDateColumn()
+  submittedAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  reviewedAt: Date | null;
+}
@@ -0,0 +1,45 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, Index } from 'typeorm';
+import { Exhibition } from './Exhibition';
+import { User } from './User';
+
+/**
+ * A message in an exhibition's visitor chat
+ */
+@Entity('chat_messages')
+@Index(['exhibitionId', 'createdAt'])
+export class ChatMessage {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Exhibition, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'exhibitionId' })
+  exhibition: Exhibition;
+
+  @Column()
+  exhibitionId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column()
+  userId: string;
+
+  // As shown to visitors, after the profanity filter
+  @Column('text')
+  content: string;
+
+  // Deleted messages are kept as placeholders so the history keeps its shape
+  @Column({ default: false })
+  isDeleted: boolean;
+
+  // The author or the moderator who deleted the message
+  @Column({ type: 'uuid', nullable: true })
+  deletedById: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  deletedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
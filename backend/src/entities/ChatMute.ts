@@ -0,0 +1,37 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, Unique } from 'typeorm';
+import { Exhibition } from './Exhibition';
+import { User } from './User';
+
+/**
+ * A visitor a moderator has stopped from posting in an exhibition's chat
+ */
+@Entity('chat_mutes')
+@Unique(['exhibitionId', 'userId'])
+export class ChatMute {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Exhibition, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'exhibitionId' })
+  exhibition: Exhibition;
+
+  @Column()
+  exhibitionId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column()
+  userId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  mutedById: string | null;
+
+  // Null mutes the visitor until a moderator lifts it
+  @Column({ type: 'timestamptz', nullable: true })
+  until: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
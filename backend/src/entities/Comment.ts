@@ -1,7 +1,13 @@
-import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, OneToMany, JoinColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
 import { User } from './User';
 import { Artwork } from './Artwork';
 
+export interface CommentEdit {
+  content: string;
+  // When this version of the content was written
+  createdAt: string;
+}
+
 @Entity('comments')
 export class Comment {
   @PrimaryGeneratedColumn('uuid')
@@ -24,6 +30,48 @@ export class Comment {
   @Column()
   artworkId: string;
 
+  // Direct parent for replies, null for top-level comments
+  @ManyToOne(() => Comment, comment => comment.replies, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parentId' })
+  parent: Comment | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  parentId: string | null;
+
+  // Top-level comment of the thread, null for top-level comments
+  @Column({ type: 'uuid', nullable: true })
+  rootId: string | null;
+
+  @OneToMany(() => Comment, comment => comment.parent)
+  replies: Comment[];
+
+  // Previous versions of the content, oldest first
+  @Column('jsonb', { default: () => "'[]'" })
+  editHistory: CommentEdit[];
+
+  @Column({ type: 'timestamptz', nullable: true })
+  editedAt: Date | null;
+
+  @Column({ default: false })
+  isDeleted: boolean;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  deletedAt: Date | null;
+
+  // Moderation flags (curators and admins only)
+  @Column({ default: false })
+  isHidden: boolean;
+
+  @Column({ default: false })
+  isPinned: boolean;
+
+  // Only meaningful on top-level comments, locks the whole thread
+  @Column({ default: false })
+  isLocked: boolean;
+
   @CreateDateColumn()
   timestamp: Date;
-}
\ No newline at end of file
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,35 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import { JobType } from './Job';
+
+/**
+ * A job that failed every attempt, kept for someone to look into
+ */
+@Entity('dead_jobs')
+@Index(['type', 'failedAt'])
+export class DeadJob {
+  // The id the job had in the queue
+  @PrimaryColumn('uuid')
+  id: string;
+
+  @Column({
+    type: 'enum',
+    enum: JobType
+  })
+  type: JobType;
+
+  @Column('jsonb')
+  payload: Record<string, unknown>;
+
+  @Column('int')
+  attempts: number;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  // When the job was first queued
+  @Column({ type: 'timestamptz' })
+  queuedAt: Date;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  failedAt: Date;
+}
@@ -0,0 +1,49 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { Exhibition } from './Exhibition';
+import { Room, PlanPoint } from './Room';
+
+/**
+ * An opening visitors walk through between two rooms, or into the
+ * exhibition from outside
+ */
+@Entity('doorways')
+export class Doorway {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Exhibition, exhibition => exhibition.doorways, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'exhibitionId' })
+  exhibition: Exhibition;
+
+  @Column()
+  exhibitionId: string;
+
+  @ManyToOne(() => Room, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'fromRoomId' })
+  fromRoom: Room;
+
+  @Column()
+  fromRoomId: string;
+
+  // null for the way in from outside the exhibition
+  @ManyToOne(() => Room, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'toRoomId' })
+  toRoom: Room | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  toRoomId: string | null;
+
+  // Middle of the opening on the floor plan
+  @Column('jsonb')
+  position: PlanPoint;
+
+  // Metres across the opening
+  @Column('float', { default: 1.2 })
+  width: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -1,7 +1,45 @@
 import { Entity, Column, ManyToOne, OneToMany, JoinColumn, CreateDateColumn, UpdateDateColumn, PrimaryGeneratedColumn } from 'typeorm';
 import { User } from './User';
 import { Wall } from './Wall';
+import { Room, PlanPoint } from './Room';
+import { Doorway } from './Doorway';
+import { Tour } from './Tour';
 import { ExhibitionItem } from './ExhibitionItem';
+import { LayoutPlacementSnapshot } from './WallLayoutVersion';
+
+export enum ExhibitionStatus {
+  DRAFT = 'draft',
+  SCHEDULED = 'scheduled',
+  LIVE = 'live',
+  CLOSED = 'closed',
+  ARCHIVED = 'archived'
+}
+
+// A wall as visitors see it, copied from the curator's draft on publish
+export interface PublishedWall {
+  id: string;
+  name: string;
+  displayOrder: number;
+  // Missing from layouts published before walls had dimensions
+  width?: number;
+  height?: number;
+  depth?: number;
+  // Missing from layouts published before floor plans
+  roomId?: string | null;
+  planPosition?: PlanPoint | null;
+  orientation?: number;
+  placements: LayoutPlacementSnapshot[];
+}
+
+export type PublishedRoom = Pick<Room, 'id' | 'name' | 'displayOrder' | 'footprint'>;
+
+export type PublishedDoorway = Pick<Doorway, 'id' | 'fromRoomId' | 'toRoomId' | 'position' | 'width'>;
+
+export interface PublishedLayout {
+  walls: PublishedWall[];
+  rooms?: PublishedRoom[];
+  doorways?: PublishedDoorway[];
+}
 
 @Entity('exhibitions')
 export class Exhibition {
@@ -27,12 +65,42 @@ export class Exhibition {
   @Column('timestamptz')
   endDate: Date;
 
+  @Column({
+    type: 'enum',
+    enum: ExhibitionStatus,
+    default: ExhibitionStatus.DRAFT
+  })
+  status: ExhibitionStatus;
+
+  // Kept in sync with status by the lifecycle scheduler (true while live)
   @Column({ default: false })
   isActive: boolean;
 
+  // Walls and placements are the curator's draft; visitors see this published copy.
+  // Null for exhibitions laid out before drafts existed, which show their walls directly.
+  // Not selected by default so exhibition lists stay small.
+  @Column('jsonb', { nullable: true, select: false })
+  publishedLayout: PublishedLayout | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  layoutPublishedAt: Date | null;
+
+  // Seconds each visitor must wait between chat messages; 0 turns slow mode off
+  @Column({ type: 'int', default: 0 })
+  chatSlowModeSeconds: number;
+
   @OneToMany(() => Wall, wall => wall.exhibition, { cascade: true })
   walls: Wall[];
 
+  @OneToMany(() => Room, room => room.exhibition)
+  rooms: Room[];
+
+  @OneToMany(() => Doorway, doorway => doorway.exhibition)
+  doorways: Doorway[];
+
+  @OneToMany(() => Tour, tour => tour.exhibition)
+  tours: Tour[];
+
   @OneToMany(() => ExhibitionItem, item => item.exhibition, { cascade: true })
   items: ExhibitionItem[];
 
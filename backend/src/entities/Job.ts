@@ -0,0 +1,69 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+/**
+ * Work the background worker knows how to do
+ */
+export enum JobType {
+  PROCESS_ARTWORK_IMAGE = 'process_artwork_image',
+  NOTIFY_ARTWORK_UPLOAD = 'notify_artwork_upload',
+  NOTIFY_ARTWORK_RESUBMISSION = 'notify_artwork_resubmission'
+}
+
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running'
+}
+
+/**
+ * A task waiting for, or being run by, the background worker. Jobs that
+ * succeed are deleted; jobs that run out of attempts move to dead_jobs.
+ */
+@Entity('jobs')
+@Index(['status', 'runAt'])
+export class Job {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({
+    type: 'enum',
+    enum: JobType
+  })
+  type: JobType;
+
+  @Column('jsonb')
+  payload: Record<string, unknown>;
+
+  @Column({
+    type: 'enum',
+    enum: JobStatus,
+    default: JobStatus.QUEUED
+  })
+  status: JobStatus;
+
+  // Attempts started so far, the running one included
+  @Column('int', { default: 0 })
+  attempts: number;
+
+  @Column('int')
+  maxAttempts: number;
+
+  // Not run before this; pushed back after each failure
+  @Column({ type: 'timestamptz' })
+  runAt: Date;
+
+  // Which worker is running the job, and since when
+  @Column({ type: 'varchar', nullable: true })
+  lockedBy: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lockedAt: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -5,7 +5,11 @@ export enum NotificationType {
   ARTWORK_UPLOAD = 'artwork_upload',
   ARTWORK_APPROVED = 'artwork_approved',
   ARTWORK_REJECTED = 'artwork_rejected',
+  ARTWORK_RESUBMITTED = 'artwork_resubmitted',
+  REVIEW_ASSIGNED = 'review_assigned',
   EXHIBITION_CREATED = 'exhibition_created',
+  EXHIBITION_OPENED = 'exhibition_opened',
+  EXHIBITION_CLOSED = 'exhibition_closed',
   COMMENT_ADDED = 'comment_added'
 }
 
@@ -38,8 +42,8 @@ export class Notification {
   @JoinColumn({ name: 'senderId' })
   sender: User;
 
-  @Column({ nullable: true })
-  senderId: string;
+  @Column({ type: 'uuid', nullable: true })
+  senderId: string | null;
 
   @Column({ default: false })
   isRead: boolean;
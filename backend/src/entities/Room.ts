@@ -0,0 +1,46 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, OneToMany, JoinColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { Exhibition } from './Exhibition';
+import { Wall } from './Wall';
+
+// A point on the exhibition's floor plan, seen from above: metres with x to
+// the east and y to the north
+export interface PlanPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * A named space in an exhibition, holding walls and joined to the other
+ * rooms by doorways
+ */
+@Entity('rooms')
+export class Room {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 100 })
+  name: string;
+
+  @Column({ default: 0 })
+  displayOrder: number;
+
+  // Corners of the floor in order around the room
+  @Column('jsonb')
+  footprint: PlanPoint[];
+
+  @ManyToOne(() => Exhibition, exhibition => exhibition.rooms, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'exhibitionId' })
+  exhibition: Exhibition;
+
+  @Column()
+  exhibitionId: string;
+
+  @OneToMany(() => Wall, wall => wall.room)
+  walls: Wall[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
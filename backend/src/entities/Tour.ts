@@ -0,0 +1,38 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, OneToMany, JoinColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { Exhibition } from './Exhibition';
+import { TourStop } from './TourStop';
+
+/**
+ * A guided route through an exhibition, visiting artworks in order
+ */
+@Entity('tours')
+export class Tour {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 100 })
+  title: string;
+
+  @Column('text', { nullable: true })
+  description: string | null;
+
+  // Visitors only see published tours
+  @Column({ default: false })
+  isPublished: boolean;
+
+  @ManyToOne(() => Exhibition, exhibition => exhibition.tours, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'exhibitionId' })
+  exhibition: Exhibition;
+
+  @Column()
+  exhibitionId: string;
+
+  @OneToMany(() => TourStop, stop => stop.tour)
+  stops: TourStop[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
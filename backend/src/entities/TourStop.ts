@@ -0,0 +1,62 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { Tour } from './Tour';
+import { Wall } from './Wall';
+import { Artwork } from './Artwork';
+
+// Where the camera stands and looks at a stop: metres and degrees in the 3D scene
+export interface CameraPose {
+  position: { x: number; y: number; z: number };
+  rotation: { x: number; y: number; z: number };
+  fieldOfView?: number;
+}
+
+/**
+ * One stop on a tour: an artwork on a wall, with what to see and hear there.
+ * Stops name the wall and artwork rather than a placement, because saving a
+ * layout replaces its placements.
+ */
+@Entity('tour_stops')
+export class TourStop {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Tour, tour => tour.stops, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tourId' })
+  tour: Tour;
+
+  @Column()
+  tourId: string;
+
+  @Column()
+  stopOrder: number;
+
+  @ManyToOne(() => Wall, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'wallId' })
+  wall: Wall;
+
+  @Column()
+  wallId: string;
+
+  @ManyToOne(() => Artwork, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'artworkId' })
+  artwork: Artwork;
+
+  @Column()
+  artworkId: string;
+
+  // null lets the viewer frame the artwork itself
+  @Column('jsonb', { nullable: true })
+  cameraPose: CameraPose | null;
+
+  @Column('text', { default: '' })
+  narration: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  audioUrl: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
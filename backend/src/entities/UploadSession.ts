@@ -0,0 +1,73 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { User } from './User';
+
+export enum UploadStatus {
+  // Chunks are still coming in
+  UPLOADING = 'uploading',
+  // Put together and checked; waiting for an artwork to use it
+  COMPLETE = 'complete'
+}
+
+// Postgres bigints come back as strings; file sizes fit in a JS number
+const bigintToNumber = {
+  to: (value: number) => value,
+  from: (value: string | null) => (value === null ? null : Number(value))
+};
+
+/**
+ * A file being uploaded in chunks, so a dropped connection only loses the
+ * chunk in flight. Chunks are kept in storage until the upload is completed,
+ * so any backend replica can take the next one.
+ */
+@Entity('upload_sessions')
+@Index(['expiresAt'])
+export class UploadSession {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'ownerId' })
+  owner: User;
+
+  @Column()
+  ownerId: string;
+
+  @Column({ length: 255 })
+  fileName: string;
+
+  @Column({ length: 100 })
+  mimeType: string;
+
+  // Total size in bytes, given when the upload is created
+  @Column('bigint', { transformer: bigintToNumber })
+  size: number;
+
+  // Bytes received so far; the next chunk must start here
+  @Column('bigint', { default: 0, transformer: bigintToNumber })
+  offset: number;
+
+  @Column({
+    type: 'enum',
+    enum: UploadStatus,
+    default: UploadStatus.UPLOADING
+  })
+  status: UploadStatus;
+
+  // SHA-256 of the whole file, once complete
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  checksum: string | null;
+
+  // Where the completed file is stored
+  @Column({ type: 'varchar', nullable: true })
+  fileUrl: string | null;
+
+  // Pushed back by every chunk; abandoned uploads are removed after this
+  @Column({ type: 'timestamptz' })
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,35 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { Exhibition } from './Exhibition';
+
+/**
+ * Where a visitor stood in an exhibition's 3D scene at one moment. The viewer
+ * samples the visitor's position at a steady interval, so the number of
+ * samples in a spot measures the time spent there.
+ */
+@Entity('visitor_position_samples')
+@Index(['exhibitionId', 'sampledAt'])
+export class VisitorPositionSample {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Exhibition, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'exhibitionId' })
+  exhibition: Exhibition;
+
+  @Column()
+  exhibitionId: string;
+
+  // One visit to the 3D scene, chosen by the visitor's browser
+  @Column('uuid')
+  sessionId: string;
+
+  // On the floor plan, in metres
+  @Column('float')
+  x: number;
+
+  @Column('float')
+  y: number;
+
+  @Column({ type: 'timestamptz' })
+  sampledAt: Date;
+}
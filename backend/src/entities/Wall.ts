@@ -1,6 +1,11 @@
 import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, OneToMany, JoinColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
 import { Exhibition } from './Exhibition';
 import { ArtworkPlacement } from './ArtworkPlacement';
+import { WallLayoutVersion } from './WallLayoutVersion';
+import { Room, PlanPoint } from './Room';
+
+// Size given to walls created before dimensions were recorded, in metres
+export const DEFAULT_WALL_DIMENSIONS = { width: 6, height: 3, depth: 0.5 };
 
 @Entity('walls')
 export class Wall {
@@ -13,6 +18,18 @@ export class Wall {
   @Column({ default: 0 })
   displayOrder: number;
 
+  // Metres along the floor
+  @Column('float', { default: DEFAULT_WALL_DIMENSIONS.width })
+  width: number;
+
+  // Metres from floor to ceiling
+  @Column('float', { default: DEFAULT_WALL_DIMENSIONS.height })
+  height: number;
+
+  // Metres an artwork may stand out from the wall
+  @Column('float', { default: DEFAULT_WALL_DIMENSIONS.depth })
+  depth: number;
+
   @ManyToOne(() => Exhibition, exhibition => exhibition.walls, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'exhibitionId' })
   exhibition: Exhibition;
@@ -20,9 +37,33 @@ export class Wall {
   @Column()
   exhibitionId: string;
 
+  // The room the wall stands in; walls not yet on the floor plan have none
+  @ManyToOne(() => Room, room => room.walls, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'roomId' })
+  room: Room | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  roomId: string | null;
+
+  // Middle of the wall's base on the floor plan
+  @Column('jsonb', { nullable: true })
+  planPosition: PlanPoint | null;
+
+  // Direction the hanging face looks, in degrees anticlockwise from east.
+  // The wall runs at right angles to it.
+  @Column('float', { default: 0 })
+  orientation: number;
+
+  // Goes up with every layout save so an editor working from a stale copy is caught
+  @Column('int', { default: 0 })
+  layoutRevision: number;
+
   @OneToMany(() => ArtworkPlacement, placement => placement.wall, { cascade: true })
   placements: ArtworkPlacement[];
 
+  @OneToMany(() => WallLayoutVersion, version => version.wall)
+  layoutVersions: WallLayoutVersion[];
+
   @CreateDateColumn()
   createdAt: Date;
 
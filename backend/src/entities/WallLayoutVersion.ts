@@ -0,0 +1,53 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, Unique } from 'typeorm';
+import { Wall } from './Wall';
+import { User } from './User';
+import { PlacementPosition } from './ArtworkPlacement';
+
+// One artwork as it was placed on the wall when the version was saved
+export interface LayoutPlacementSnapshot {
+  artworkId: string;
+  position: PlacementPosition;
+  coordinates: { x: number, y: number, z: number } | null;
+  rotation: { x: number, y: number, z: number } | null;
+  scale: { x: number, y: number, z: number } | null;
+}
+
+/**
+ * An immutable snapshot of a wall's layout, recorded on every save
+ * so earlier arrangements can be compared and restored.
+ */
+@Entity('wall_layout_versions')
+@Unique(['wallId', 'version'])
+export class WallLayoutVersion {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Wall, wall => wall.layoutVersions, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'wallId' })
+  wall: Wall;
+
+  @Column()
+  wallId: string;
+
+  // Starts at 1 and goes up with every save of this wall
+  @Column('int')
+  version: number;
+
+  @Column('jsonb')
+  placements: LayoutPlacementSnapshot[];
+
+  // Null for the baseline recorded from a layout saved before versioning
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'createdById' })
+  createdBy: User | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  createdById: string | null;
+
+  // Set when this version was created by rolling back to an earlier one
+  @Column('int', { nullable: true })
+  restoredFromVersion: number | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -67,6 +67,42 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
   }
 };
 
+/**
+ * Middleware that attaches the user when a valid token is present
+ * Public routes use it to tailor responses without requiring a login
+ */
+export const optionalAuthenticate = async (req: AuthRequest, _res: Response, next: NextFunction): Promise<void> => {
+  try {
+    let token = req.cookies.token;
+
+    if (!token) {
+      const authHeader = req.headers.authorization;
+      if (authHeader && authHeader.startsWith('Bearer ')) {
+        token = authHeader.split(' ')[1];
+      }
+    }
+
+    if (token) {
+      const decoded = jwt.verify(
+        token,
+        process.env.JWT_SECRET as string
+      ) as { id: string; role: UserRole };
+
+      const userRepository = AppDataSource.getRepository(User);
+      const user = await userRepository.findOne({ where: { id: decoded.id } });
+
+      if (user && user.role === decoded.role) {
+        req.user = user;
+      }
+    }
+  } catch (error) {
+    // An invalid or expired token simply means an anonymous request here
+    logger.debug('Optional authentication skipped:', error instanceof Error ? error.message : error);
+  }
+
+  next();
+};
+
 /**
  * Middleware to check if user has required role
  * This enhanced version allows an array of roles and provides better error handling
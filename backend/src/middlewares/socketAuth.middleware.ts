@@ -0,0 +1,47 @@
+import { Request } from 'express';
+import jwt from 'jsonwebtoken';
+import { Socket } from 'socket.io';
+import { AppDataSource } from '../config/database';
+import { User, UserRole } from '../entities/User';
+import { logger } from '../utils/logger';
+
+/**
+ * Socket.io middleware that identifies the user from the access token sent
+ * with the handshake. socket.data.userId and userRole are only ever set here,
+ * so socket handlers can trust them; sockets without a valid token connect
+ * as guests.
+ * Needs cookie-parser on io.engine so the handshake's cookies are parsed.
+ */
+export const authenticateSocket = async (socket: Socket, next: (err?: Error) => void): Promise<void> => {
+  try {
+    let token = (socket.request as Request).cookies?.token;
+
+    // Fallback to Authorization header, as for HTTP requests
+    if (!token) {
+      const authHeader = socket.request.headers.authorization;
+      if (authHeader && authHeader.startsWith('Bearer ')) {
+        token = authHeader.split(' ')[1];
+      }
+    }
+
+    if (token) {
+      const decoded = jwt.verify(
+        token,
+        process.env.JWT_SECRET as string
+      ) as { id: string; role: UserRole };
+
+      const userRepository = AppDataSource.getRepository(User);
+      const user = await userRepository.findOne({ where: { id: decoded.id } });
+
+      if (user && user.role === decoded.role) {
+        socket.data.userId = user.id;
+        socket.data.userRole = user.role;
+      }
+    }
+  } catch (error) {
+    // An invalid or expired token simply means a guest connection
+    logger.debug('Socket authentication skipped:', error instanceof Error ? error.message : error);
+  }
+
+  next();
+};
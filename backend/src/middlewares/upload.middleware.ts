@@ -3,9 +3,10 @@ import multer from 'multer';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs';
+import os from 'os';
 
-// Ensure upload directory exists
-const uploadDir = path.join(__dirname, '../../uploads');
+// Uploads only wait here until they are processed and put in storage
+const uploadDir = path.join(os.tmpdir(), 'exhibition-art-uploads');
 if (!fs.existsSync(uploadDir)) {
   fs.mkdirSync(uploadDir, { recursive: true });
 }
@@ -41,4 +42,23 @@ export const upload = multer({
   limits: {
     fileSize: 10 * 1024 * 1024 // 10MB limit
   }
-});
\ No newline at end of file
+});
+
+// Narration clips for tour stops
+const audioFileFilter = (_req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  const allowedTypes = ['audio/mpeg', 'audio/mp4', 'audio/ogg', 'audio/wav', 'audio/webm'];
+
+  if (allowedTypes.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Only MP3, M4A, OGG, WAV and WebM audio are allowed.'));
+  }
+};
+
+export const audioUpload = multer({
+  storage,
+  fileFilter: audioFileFilter,
+  limits: {
+    fileSize: 20 * 1024 * 1024 // 20MB limit
+  }
+});
@@ -0,0 +1,57 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Matches EXHIBITION_ARCHIVE_AFTER_DAYS in the exhibition service
+const ARCHIVE_AFTER_DAYS = Number(process.env.EXHIBITION_ARCHIVE_AFTER_DAYS || 30);
+
+/**
+ * Give exhibitions from before lifecycle statuses the status their dates and
+ * isActive flag call for. Without it they all default to draft, which the
+ * scheduler never moves and visitors never see.
+ *
+ * Runs before the schema is synchronised. Where the status column is not
+ * there yet, every exhibition predates it: ones under way stay live if they
+ * were active and become drafts if their curator had switched them off.
+ * Where it is, only drafts still marked active are fixed, since a real draft
+ * is never active.
+ */
+export class BackfillExhibitionStatus1792281600000 implements MigrationInterface {
+  name = 'BackfillExhibitionStatus1792281600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // A new database gets its tables from synchronize
+    if (!(await queryRunner.hasTable('exhibitions'))) return;
+
+    const hadStatus = await queryRunner.hasColumn('exhibitions', 'status');
+
+    if (!hadStatus) {
+      await queryRunner.query(`
+        DO $$ BEGIN
+          CREATE TYPE "exhibitions_status_enum" AS ENUM ('draft', 'scheduled', 'live', 'closed', 'archived');
+        EXCEPTION
+          WHEN duplicate_object THEN NULL;
+        END $$
+      `);
+      await queryRunner.query(
+        `ALTER TABLE "exhibitions" ADD "status" "exhibitions_status_enum" NOT NULL DEFAULT 'draft'`
+      );
+    }
+
+    await queryRunner.query(
+      `UPDATE "exhibitions" SET "status" = (CASE
+          WHEN now() < "startDate" THEN 'scheduled'
+          WHEN now() < "endDate" THEN (CASE WHEN "isActive" THEN 'live' ELSE 'draft' END)
+          WHEN now() < "endDate" + make_interval(days => $1::int) THEN 'closed'
+          ELSE 'archived'
+        END)::"exhibitions_status_enum"
+        WHERE "status" = 'draft' ${hadStatus ? 'AND "isActive"' : ''}`,
+      [ARCHIVE_AFTER_DAYS]
+    );
+
+    // isActive now follows the status, as the scheduler keeps it
+    await queryRunner.query(`UPDATE "exhibitions" SET "isActive" = ("status" = 'live')`);
+  }
+
+  public async down(): Promise<void> {
+    // Backfilled statuses cannot be told apart from ones set since, so they are kept
+  }
+}
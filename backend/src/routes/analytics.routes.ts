@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { AnalyticsController } from '../controllers/analytics.controller';
+import { withAuth } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validation.middleware';
+import { UserRole } from '../entities/User';
+import {
+  AnalyticsEventType,
+  MAX_HEATMAP_CELL_SIZE,
+  MIN_HEATMAP_CELL_SIZE
+} from '../services/analytics.service';
+
+const router = Router();
+const analyticsController = new AnalyticsController();
+
+const rangeValidators = [
+  query('from').optional().isISO8601().withMessage('from must be a date'),
+  query('to').optional().isISO8601().withMessage('to must be a date')
+];
+
+// Public route - visitors' browsers send engagement events in batches
+router.post('/events',
+  validate([
+    body('events').isArray({ min: 1, max: 100 }).withMessage('Send between 1 and 100 events'),
+    body('events.*.type').isIn(Object.values(AnalyticsEventType)).withMessage('Invalid event type'),
+    body('events.*.artworkId').isUUID().withMessage('Invalid artwork ID'),
+    body('events.*.exhibitionId').optional().isUUID().withMessage('Invalid exhibition ID'),
+    body('events.*.wallId').optional().isUUID().withMessage('Invalid wall ID'),
+    body('events.*.durationMs').optional().isInt({ min: 0 }).toInt().withMessage('durationMs must be a non-negative integer'),
+    body('events.*.occurredAt').optional().isISO8601().withMessage('occurredAt must be a date')
+  ]),
+  analyticsController.ingestEvents
+);
+
+// Public route - the 3D viewer samples where each visitor walks
+router.post('/positions',
+  validate([
+    body('exhibitionId').isUUID().withMessage('Invalid exhibition ID'),
+    body('sessionId').isUUID().withMessage('Invalid session ID'),
+    body('samples').isArray({ min: 1, max: 200 }).withMessage('Send between 1 and 200 samples'),
+    body('samples.*.x').isFloat().toFloat().withMessage('x must be a number'),
+    body('samples.*.y').isFloat().toFloat().withMessage('y must be a number'),
+    body('samples.*.sampledAt').optional().isISO8601().withMessage('sampledAt must be a date')
+  ]),
+  analyticsController.recordPositions
+);
+
+// Protected routes - each role sees engagement with their own work
+router.get('/artist', ...withAuth([UserRole.ARTIST, UserRole.CURATOR]),
+  validate(rangeValidators),
+  analyticsController.getArtistAnalytics
+);
+
+router.get('/curator', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate(rangeValidators),
+  analyticsController.getCuratorAnalytics
+);
+
+router.get('/exhibitions/:id/heatmap', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID'),
+    ...rangeValidators,
+    query('cellSize')
+      .optional()
+      .isFloat({ min: MIN_HEATMAP_CELL_SIZE, max: MAX_HEATMAP_CELL_SIZE })
+      .withMessage(`cellSize must be between ${MIN_HEATMAP_CELL_SIZE} and ${MAX_HEATMAP_CELL_SIZE} metres`)
+  ]),
+  analyticsController.getExhibitionHeatmap
+);
+
+export default router;
@@ -1,13 +1,16 @@
 import { Router } from 'express';
-import { body } from 'express-validator';
+import { body, query } from 'express-validator';
 import { ArtworkController } from '../controllers/artwork.controller';
-import { withAuth } from '../middlewares/auth.middleware';
+import { CommentController } from '../controllers/comment.controller';
+import { withAuth, optionalAuthenticate } from '../middlewares/auth.middleware';
 import { upload } from '../middlewares/upload.middleware';
 import { validate } from '../middlewares/validation.middleware';
 import { UserRole } from '../entities/User';
+import { RejectionReason } from '../entities/ArtworkReview';
 
 const router = Router();
 const artworkController = new ArtworkController();
+const commentController = new CommentController();
 
 // Public routes
 router.get('/', artworkController.getAllArtworks);
@@ -21,7 +24,11 @@ router.post('/', ...withAuth([UserRole.ARTIST]), upload.single('image'),
     body('title').isLength({ min: 1, max: 100 }).withMessage('Title is required and must be under 100 characters'),
     body('description').notEmpty().withMessage('Description is required'),
     body('category').notEmpty().withMessage('Category is required'),
-    body('tags').optional().isString().withMessage('Tags must be a JSON string array')
+    body('tags').optional().isString().withMessage('Tags must be a JSON string array'),
+    body('width').optional().isFloat({ gt: 0, max: 100 }).toFloat().withMessage('Width must be a size in metres'),
+    body('height').optional().isFloat({ gt: 0, max: 100 }).toFloat().withMessage('Height must be a size in metres'),
+    body('depth').optional().isFloat({ gt: 0, max: 100 }).toFloat().withMessage('Depth must be a size in metres'),
+    body('uploadId').optional().isUUID().withMessage('uploadId must be a valid upload ID')
   ]),
   artworkController.createArtwork
 );
@@ -32,7 +39,11 @@ router.put('/:id', ...withAuth([UserRole.ARTIST, UserRole.ADMIN]), upload.single
     body('title').optional().isLength({ min: 1, max: 100 }).withMessage('Title must be under 100 characters'),
     body('description').optional(),
     body('category').optional(),
-    body('tags').optional().isString().withMessage('Tags must be a JSON string array')
+    body('tags').optional().isString().withMessage('Tags must be a JSON string array'),
+    body('width').optional().isFloat({ gt: 0, max: 100 }).toFloat().withMessage('Width must be a size in metres'),
+    body('height').optional().isFloat({ gt: 0, max: 100 }).toFloat().withMessage('Height must be a size in metres'),
+    body('depth').optional().isFloat({ gt: 0, max: 100 }).toFloat().withMessage('Depth must be a size in metres'),
+    body('uploadId').optional().isUUID().withMessage('uploadId must be a valid upload ID')
   ]),
   artworkController.updateArtwork
 );
@@ -47,7 +58,75 @@ router.patch('/:id/approve', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
   artworkController.approveArtwork
 );
 router.patch('/:id/reject', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    body('reasonCategory').isIn(Object.values(RejectionReason)).withMessage('A valid rejection reason is required'),
+    body('reason').optional().isString().isLength({ max: 2000 }).withMessage('Reason must be under 2000 characters')
+  ]),
   artworkController.rejectArtwork
 );
 
+// Protected routes - Artist only (service checks ownership)
+router.post('/:id/resubmit', ...withAuth([UserRole.ARTIST]), upload.single('image'),
+  validate([
+    body('title').optional().isLength({ min: 1, max: 100 }).withMessage('Title must be under 100 characters'),
+    body('description').optional(),
+    body('category').optional(),
+    body('tags').optional().isString().withMessage('Tags must be a JSON string array'),
+    body('width').optional().isFloat({ gt: 0, max: 100 }).toFloat().withMessage('Width must be a size in metres'),
+    body('height').optional().isFloat({ gt: 0, max: 100 }).toFloat().withMessage('Height must be a size in metres'),
+    body('depth').optional().isFloat({ gt: 0, max: 100 }).toFloat().withMessage('Depth must be a size in metres'),
+    body('uploadId').optional().isUUID().withMessage('uploadId must be a valid upload ID'),
+    body('note').optional().isString().isLength({ max: 2000 }).withMessage('Note must be under 2000 characters')
+  ]),
+  artworkController.resubmitArtwork
+);
+
+// Review rounds - the artist, curators and admins (service checks ownership)
+router.get('/:id/reviews', ...withAuth([UserRole.ARTIST, UserRole.CURATOR, UserRole.ADMIN]),
+  artworkController.getArtworkReviews
+);
+router.get('/:id/reviews/compare', ...withAuth([UserRole.ARTIST, UserRole.CURATOR, UserRole.ADMIN]),
+  artworkController.getReviewComparison
+);
+
+// Comment routes - reading is public (hidden comments only show to moderators and their author)
+router.get('/:id/comments', optionalAuthenticate,
+  validate([
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+  ]),
+  commentController.getComments
+);
+router.get('/:id/comments/:commentId/history', optionalAuthenticate,
+  commentController.getCommentHistory
+);
+
+// Protected routes - Any authenticated user (service checks comment ownership)
+router.post('/:id/comments', ...withAuth(),
+  validate([
+    body('content').trim().isLength({ min: 1, max: 2000 }).withMessage('Comment is required and must be under 2000 characters'),
+    body('parentId').optional().isUUID().withMessage('parentId must be a valid comment ID')
+  ]),
+  commentController.createComment
+);
+router.patch('/:id/comments/:commentId', ...withAuth(),
+  validate([
+    body('content').trim().isLength({ min: 1, max: 2000 }).withMessage('Comment is required and must be under 2000 characters')
+  ]),
+  commentController.updateComment
+);
+router.delete('/:id/comments/:commentId', ...withAuth(),
+  commentController.deleteComment
+);
+
+// Comment moderation - Curator or Admin only
+router.patch('/:id/comments/:commentId/moderate', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    body('isHidden').optional().isBoolean({ strict: true }).withMessage('isHidden must be a boolean'),
+    body('isPinned').optional().isBoolean({ strict: true }).withMessage('isPinned must be a boolean'),
+    body('isLocked').optional().isBoolean({ strict: true }).withMessage('isLocked must be a boolean')
+  ]),
+  commentController.moderateComment
+);
+
 export default router;
\ No newline at end of file
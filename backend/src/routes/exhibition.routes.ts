@@ -1,74 +1,429 @@
 // backend/src/routes/exhibition.routes.ts
 import { Router } from 'express';
-import { body, param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import { ExhibitionController } from '../controllers/exhibition.controller';
-import { withAuth } from '../middlewares/auth.middleware';
+import { TourController } from '../controllers/tour.controller';
+import { ChatController } from '../controllers/chat.controller';
+import { withAuth, optionalAuthenticate } from '../middlewares/auth.middleware';
 import { validate } from '../middlewares/validation.middleware';
+import { audioUpload } from '../middlewares/upload.middleware';
 import { UserRole } from '../entities/User';
 import { PlacementPosition } from '../entities/ArtworkPlacement';
+import { ExhibitionStatus } from '../entities/Exhibition';
+import { AutoLayoutGrouping, AutoLayoutStrategy } from '../services/autoLayout.service';
 
 const router = Router();
 const exhibitionController = new ExhibitionController();
+const tourController = new TourController();
+const chatController = new ChatController();
 
-// Public routes
-router.get('/', exhibitionController.getExhibition);
-router.get('/walls', exhibitionController.getWalls);
+// Where a wall stands on the floor plan, accepted when creating or updating it
+const wallPlanValidators = [
+  body('roomId').optional({ values: 'null' }).isUUID().withMessage('Invalid room ID'),
+  body('planPosition').optional({ values: 'null' }).isObject().withMessage('Plan position must be an object'),
+  body('planPosition.x').if(body('planPosition').exists({ values: 'null' })).isFloat({ min: -1000, max: 1000 }).toFloat().withMessage('Plan position must be in metres'),
+  body('planPosition.y').if(body('planPosition').exists({ values: 'null' })).isFloat({ min: -1000, max: 1000 }).toFloat().withMessage('Plan position must be in metres'),
+  body('orientation').optional().isFloat({ min: -360, max: 360 }).toFloat().withMessage('Orientation must be in degrees')
+];
+
+// Corners of a room's floor
+const footprintValidators = (optional: boolean) => [
+  optional
+    ? body('footprint').optional().isArray({ min: 3, max: 64 }).withMessage('A room needs between 3 and 64 corners')
+    : body('footprint').isArray({ min: 3, max: 64 }).withMessage('A room needs between 3 and 64 corners'),
+  body('footprint.*.x').isFloat({ min: -1000, max: 1000 }).toFloat().withMessage('Corners must be in metres'),
+  body('footprint.*.y').isFloat({ min: -1000, max: 1000 }).toFloat().withMessage('Corners must be in metres')
+];
+
+// The middle of a doorway on the floor plan
+const doorwayPositionValidators = (optional: boolean) => [
+  optional
+    ? body('position').optional().isObject().withMessage('Position must be an object')
+    : body('position').isObject().withMessage('Position must be an object'),
+  body('position.x').if(body('position').exists()).isFloat({ min: -1000, max: 1000 }).toFloat().withMessage('Position must be in metres'),
+  body('position.y').if(body('position').exists()).isFloat({ min: -1000, max: 1000 }).toFloat().withMessage('Position must be in metres')
+];
+
+// Public routes (drafts are only visible to their curator and admins)
+router.get('/', optionalAuthenticate,
+  validate([
+    query('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+    query('status').optional().isIn(Object.values(ExhibitionStatus)).withMessage('Invalid exhibition status')
+  ]),
+  exhibitionController.getExhibitions
+);
+
+// Stockpile route - Get all approved artworks for placement
+router.get('/stockpile', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]), 
+exhibitionController.getArtworksForPlacement
+);
 
 // Protected routes - Curator or Admin only
-router.post('/', ...withAuth([UserRole.CURATOR]),
+router.post('/', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
   validate([
     body('title').isLength({ min: 1, max: 100 }).withMessage('Title is required and must be under 100 characters'),
     body('description').notEmpty().withMessage('Description is required'),
     body('startDate').isISO8601().withMessage('Start date must be a valid date'),
     body('endDate').isISO8601().withMessage('End date must be a valid date'),
-    body('isActive').optional().isBoolean().withMessage('isActive must be a boolean')
+    body('publish').optional().isBoolean().withMessage('publish must be a boolean')
   ]),
-  exhibitionController.createOrUpdateExhibition
+  exhibitionController.createExhibition
 );
 
-// Wall management routes - Curator or Admin only
-router.post('/walls', ...withAuth([UserRole.CURATOR]),
-  validate([
-    body('name').isLength({ min: 1, max: 100 }).withMessage('Wall name is required and must be under 100 characters')
-  ]),
-  exhibitionController.createWall
-);
-
-router.put('/walls/:id', ...withAuth([UserRole.CURATOR]),
+// Wall management routes - Curator or Admin only (service checks exhibition ownership)
+router.put('/walls/:id', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
   validate([
     param('id').isUUID().withMessage('Invalid wall ID'),
     body('name').optional().isLength({ min: 1, max: 100 }).withMessage('Wall name must be under 100 characters'),
-    body('displayOrder').optional().isInt().withMessage('Display order must be an integer')
+    body('displayOrder').optional().isInt().withMessage('Display order must be an integer'),
+    body('width').optional().isFloat({ gt: 0, max: 100 }).toFloat().withMessage('Width must be between 0 and 100 metres'),
+    body('height').optional().isFloat({ gt: 0, max: 20 }).toFloat().withMessage('Height must be between 0 and 20 metres'),
+    body('depth').optional().isFloat({ gt: 0, max: 10 }).toFloat().withMessage('Depth must be between 0 and 10 metres'),
+    ...wallPlanValidators
   ]),
   exhibitionController.updateWall
 );
 
-router.delete('/walls/:id', ...withAuth([UserRole.CURATOR]),
+router.delete('/walls/:id', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
   validate([
     param('id').isUUID().withMessage('Invalid wall ID')
   ]),
   exhibitionController.deleteWall
 );
 
+// Room and doorway management routes - Curator or Admin only (service checks exhibition ownership)
+router.put('/rooms/:id', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid room ID'),
+    body('name').optional().isLength({ min: 1, max: 100 }).withMessage('Room name must be under 100 characters'),
+    body('displayOrder').optional().isInt().withMessage('Display order must be an integer'),
+    ...footprintValidators(true)
+  ]),
+  exhibitionController.updateRoom
+);
+
+router.delete('/rooms/:id', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid room ID')
+  ]),
+  exhibitionController.deleteRoom
+);
+
+router.put('/doorways/:id', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid doorway ID'),
+    body('fromRoomId').optional().isUUID().withMessage('Invalid room ID'),
+    body('toRoomId').optional({ values: 'null' }).isUUID().withMessage('Invalid room ID'),
+    body('width').optional().isFloat({ gt: 0, max: 20 }).toFloat().withMessage('Width must be between 0 and 20 metres'),
+    ...doorwayPositionValidators(true)
+  ]),
+  exhibitionController.updateDoorway
+);
+
+router.delete('/doorways/:id', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid doorway ID')
+  ]),
+  exhibitionController.deleteDoorway
+);
+
 // Wall layout routes
-router.post('/walls/:id/layout', ...withAuth([UserRole.CURATOR]),
+router.post('/walls/:id/layout', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
   validate([
     param('id').isUUID().withMessage('Invalid wall ID'),
     body('placements').isArray().withMessage('Placements must be an array'),
     body('placements.*.artworkId').isUUID().withMessage('Invalid artwork ID'),
     body('placements.*.position').optional().isIn(Object.values(PlacementPosition)).withMessage('Invalid position'),
     body('placements.*.coordinates').optional().isObject().withMessage('Coordinates must be an object'),
+    body('placements.*.coordinates.*').isFloat().withMessage('Coordinates must be numbers'),
     body('placements.*.rotation').optional().isObject().withMessage('Rotation must be an object'),
-    body('placements.*.scale').optional().isObject().withMessage('Scale must be an object')
+    body('placements.*.rotation.*').isFloat({ min: -360, max: 360 }).withMessage('Rotation must be in degrees'),
+    body('placements.*.scale').optional().isObject().withMessage('Scale must be an object'),
+    body('placements.*.scale.*').isFloat({ gt: 0, max: 10 }).withMessage('Scale must be a positive number'),
+    body('expectedRevision').optional().isInt({ min: 0 }).withMessage('Expected revision must be a non-negative integer')
   ]),
   exhibitionController.updateWallLayout
 );
 
-// Stockpile route - Get all approved artworks for placement
-router.get('/stockpile', ...withAuth([UserRole.CURATOR]), 
-exhibitionController.getArtworksForPlacement
+// Proposed layouts - nothing is saved until the curator saves the layout
+router.post('/walls/:id/layout/auto', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid wall ID'),
+    body('artworkIds').isArray({ min: 1, max: 50 }).withMessage('Pick between 1 and 50 artworks'),
+    body('artworkIds.*').isUUID().withMessage('Invalid artwork ID'),
+    body('strategy').isIn(Object.values(AutoLayoutStrategy)).withMessage('Invalid layout strategy'),
+    body('groupBy').optional().isIn(Object.values(AutoLayoutGrouping)).withMessage('groupBy must be category or artist')
+  ]),
+  exhibitionController.previewAutoLayout
+);
+
+// Wall layout history - every layout save is kept as a version
+router.get('/walls/:id/layout/versions', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid wall ID')
+  ]),
+  exhibitionController.getWallLayoutVersions
+);
+
+router.get('/walls/:id/layout/diff', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid wall ID'),
+    query('from').optional().isInt({ min: 0 }).withMessage('from must be a version number'),
+    query('to').optional().isInt({ min: 1 }).withMessage('to must be a version number')
+  ]),
+  exhibitionController.getWallLayoutDiff
+);
+
+router.post('/walls/:id/layout/versions/:version/rollback', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid wall ID'),
+    param('version').isInt({ min: 1 }).withMessage('Invalid layout version'),
+    body('expectedRevision').optional().isInt({ min: 0 }).withMessage('Expected revision must be a non-negative integer')
+  ]),
+  exhibitionController.rollbackWallLayout
+);
+
+// Tour routes - visitors see published tours, curators manage them (service checks exhibition ownership)
+router.get('/tours/:id', optionalAuthenticate,
+  validate([
+    param('id').isUUID().withMessage('Invalid tour ID')
+  ]),
+  tourController.getTour
+);
+
+router.put('/tours/:id', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid tour ID'),
+    body('title').optional().isLength({ min: 1, max: 100 }).withMessage('Title must be under 100 characters'),
+    body('description').optional({ values: 'null' }).isString().withMessage('Description must be text'),
+    body('isPublished').optional().isBoolean().withMessage('isPublished must be a boolean')
+  ]),
+  tourController.updateTour
+);
+
+router.delete('/tours/:id', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid tour ID')
+  ]),
+  tourController.deleteTour
+);
+
+router.put('/tours/:id/stops', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid tour ID'),
+    body('stops').isArray({ max: 100 }).withMessage('Stops must be an array of at most 100 stops'),
+    body('stops.*.id').optional().isUUID().withMessage('Invalid stop ID'),
+    body('stops.*.wallId').isUUID().withMessage('Invalid wall ID'),
+    body('stops.*.artworkId').isUUID().withMessage('Invalid artwork ID'),
+    body('stops.*.narration').optional().isString().isLength({ max: 5000 }).withMessage('Narration must be under 5000 characters'),
+    body('stops.*.cameraPose').optional({ values: 'null' }).isObject().withMessage('Camera pose must be an object'),
+    body('stops.*.cameraPose.position.*').isFloat().toFloat().withMessage('Camera position must be numbers'),
+    body('stops.*.cameraPose.rotation.*').isFloat({ min: -360, max: 360 }).toFloat().withMessage('Camera rotation must be in degrees'),
+    body('stops.*.cameraPose.fieldOfView').optional().isFloat({ min: 10, max: 120 }).toFloat().withMessage('Field of view must be between 10 and 120 degrees')
+  ]),
+  tourController.saveTourStops
+);
+
+router.post('/tours/:id/stops/:stopId/audio', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]), audioUpload.single('audio'),
+  validate([
+    param('id').isUUID().withMessage('Invalid tour ID'),
+    param('stopId').isUUID().withMessage('Invalid stop ID')
+  ]),
+  tourController.setTourStopAudio
+);
+
+router.delete('/tours/:id/stops/:stopId/audio', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid tour ID'),
+    param('stopId').isUUID().withMessage('Invalid stop ID')
+  ]),
+  tourController.removeTourStopAudio
+);
+
+// Single exhibition routes
+router.get('/:id', optionalAuthenticate,
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID'),
+    query('layout').optional().isIn(['draft', 'published']).withMessage('layout must be draft or published')
+  ]),
+  exhibitionController.getExhibitionById
+);
+
+router.put('/:id', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID'),
+    body('title').optional().isLength({ min: 1, max: 100 }).withMessage('Title must be under 100 characters'),
+    body('description').optional().notEmpty().withMessage('Description cannot be empty'),
+    body('startDate').optional().isISO8601().withMessage('Start date must be a valid date'),
+    body('endDate').optional().isISO8601().withMessage('End date must be a valid date')
+  ]),
+  exhibitionController.updateExhibition
+);
+
+// Lifecycle routes - the scheduler takes over once an exhibition is published
+router.patch('/:id/publish', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID')
+  ]),
+  exhibitionController.publishExhibition
+);
+
+router.patch('/:id/unpublish', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID')
+  ]),
+  exhibitionController.unpublishExhibition
+);
+
+router.delete('/:id', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID')
+  ]),
+  exhibitionController.deleteExhibition
+);
+
+// Walls of a single exhibition - the published layout unless the curator asks for the draft
+router.get('/:id/layout', optionalAuthenticate,
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID'),
+    query('layout').optional().isIn(['draft', 'published']).withMessage('layout must be draft or published')
+  ]),
+  exhibitionController.getWalls
+);
+
+// Draft layout publishing - Curator or Admin only (service checks exhibition ownership)
+router.get('/:id/layout/status', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID')
+  ]),
+  exhibitionController.getLayoutPublishStatus
+);
+
+router.post('/:id/layout/publish', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID')
+  ]),
+  exhibitionController.publishExhibitionLayout
+);
+
+router.post('/:id/layout/preview', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID')
+  ]),
+  exhibitionController.createLayoutPreviewToken
+);
+
+router.post('/:id/walls', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID'),
+    body('name').isLength({ min: 1, max: 100 }).withMessage('Wall name is required and must be under 100 characters'),
+    body('width').optional().isFloat({ gt: 0, max: 100 }).toFloat().withMessage('Width must be between 0 and 100 metres'),
+    body('height').optional().isFloat({ gt: 0, max: 20 }).toFloat().withMessage('Height must be between 0 and 20 metres'),
+    body('depth').optional().isFloat({ gt: 0, max: 10 }).toFloat().withMessage('Depth must be between 0 and 10 metres'),
+    ...wallPlanValidators
+  ]),
+  exhibitionController.createWall
+);
+
+// Floor plan routes - rooms and the doorways between them
+router.get('/:id/floor-plan', optionalAuthenticate,
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID'),
+    query('layout').optional().isIn(['draft', 'published']).withMessage('layout must be draft or published')
+  ]),
+  exhibitionController.getFloorPlan
+);
+
+router.post('/:id/rooms', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID'),
+    body('name').isLength({ min: 1, max: 100 }).withMessage('Room name is required and must be under 100 characters'),
+    body('displayOrder').optional().isInt().withMessage('Display order must be an integer'),
+    ...footprintValidators(false)
+  ]),
+  exhibitionController.createRoom
+);
+
+router.post('/:id/doorways', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID'),
+    body('fromRoomId').isUUID().withMessage('Invalid room ID'),
+    body('toRoomId').optional({ values: 'null' }).isUUID().withMessage('Invalid room ID'),
+    body('width').optional().isFloat({ gt: 0, max: 20 }).toFloat().withMessage('Width must be between 0 and 20 metres'),
+    ...doorwayPositionValidators(false)
+  ]),
+  exhibitionController.createDoorway
+);
+
+// Tours of a single exhibition
+router.get('/:id/tours', optionalAuthenticate,
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID')
+  ]),
+  tourController.getTours
+);
+
+router.post('/:id/tours', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID'),
+    body('title').isLength({ min: 1, max: 100 }).withMessage('Title is required and must be under 100 characters'),
+    body('description').optional({ values: 'null' }).isString().withMessage('Description must be text')
+  ]),
+  tourController.createTour
+);
+
+// Exhibition chat - messages are sent over the socket; history is public, moderation is for curators
+router.get('/:id/chat', optionalAuthenticate,
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID'),
+    query('before').optional().isISO8601().withMessage('before must be a date'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100')
+  ]),
+  chatController.getChatHistory
+);
+
+router.get('/:id/chat/mutes', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID')
+  ]),
+  chatController.getChatMutes
+);
+
+router.put('/:id/chat/mutes/:userId', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID'),
+    param('userId').isUUID().withMessage('Invalid user ID'),
+    body('minutes').optional({ values: 'null' }).isInt({ min: 1, max: 10080 }).toInt().withMessage('Mutes last between 1 minute and a week')
+  ]),
+  chatController.muteChatUser
+);
+
+router.delete('/:id/chat/mutes/:userId', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID'),
+    param('userId').isUUID().withMessage('Invalid user ID')
+  ]),
+  chatController.unmuteChatUser
+);
+
+router.put('/:id/chat/slow-mode', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID'),
+    body('seconds').isInt({ min: 0, max: 600 }).toInt().withMessage('Slow mode must be between 0 and 600 seconds')
+  ]),
+  chatController.setChatSlowMode
+);
+
+// Any signed-in user may delete their own message (service checks authorship)
+router.delete('/:id/chat/:messageId', ...withAuth(),
+  validate([
+    param('id').isUUID().withMessage('Invalid exhibition ID'),
+    param('messageId').isUUID().withMessage('Invalid message ID')
+  ]),
+  chatController.deleteChatMessage
 );
 
-router.get('/:exhibitionId/walls', exhibitionController.getWallsWithImages);
+// Simplified wall/image slots used by the Unity client
+router.get('/:exhibitionId/walls', optionalAuthenticate, exhibitionController.getWallsWithImages);
 
-export default router;
\ No newline at end of file
+export default router;
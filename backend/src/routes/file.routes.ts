@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { ArtworkController } from '../controllers/artwork.controller';
+import { optionalAuthenticate } from '../middlewares/auth.middleware';
+
+// Mounted outside /api: pages load these as images, which the API rate limit would soon stop
+const router = Router();
+const artworkController = new ArtworkController();
+
+router.get('/originals/*path', optionalAuthenticate, artworkController.getOriginalFile);
+
+export default router;
@@ -4,13 +4,19 @@ import artworkRoutes from './artwork.routes';
 import exhibitionRoutes from './exhibition.routes';
 import userRoutes from './user.routes';
 import notificationRoutes from './notification.routes';
+import reviewRoutes from './review.routes';
+import analyticsRoutes from './analytics.routes';
+import uploadRoutes from './upload.routes';
 
 const router = Router();
 
 router.use('/auth', authRoutes);
 router.use('/artworks', artworkRoutes);
-router.use('/exhibition', exhibitionRoutes);
+router.use('/exhibitions', exhibitionRoutes);
 router.use('/users', userRoutes);
 router.use('/notifications', notificationRoutes);
+router.use('/reviews', reviewRoutes);
+router.use('/analytics', analyticsRoutes);
+router.use('/uploads', uploadRoutes);
 
 export default router;
\ No newline at end of file
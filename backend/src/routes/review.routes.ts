@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import { ReviewController } from '../controllers/review.controller';
+import { withAuth } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validation.middleware';
+import { UserRole } from '../entities/User';
+
+const router = Router();
+const reviewController = new ReviewController();
+
+// Protected routes - Curator or Admin only
+router.get('/queue', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  validate([
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+    query('assignee').optional().custom(value =>
+      value === 'me' || value === 'unassigned' || /^[0-9a-f-]{36}$/i.test(value)
+    ).withMessage('Assignee must be "me", "unassigned" or a user id')
+  ]),
+  reviewController.getReviewQueue
+);
+router.post('/queue/:artworkId/claim', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  reviewController.claimReview
+);
+router.post('/queue/:artworkId/release', ...withAuth([UserRole.CURATOR, UserRole.ADMIN]),
+  reviewController.releaseReview
+);
+
+// Protected routes - Admin only
+router.post('/queue/:artworkId/assign', ...withAuth([UserRole.ADMIN]),
+  validate([
+    body('curatorId').isUUID().withMessage('A valid curator id is required')
+  ]),
+  reviewController.assignReview
+);
+
+export default router;
@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { UploadController } from '../controllers/upload.controller';
+import { withAuth } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validation.middleware';
+import { UserRole } from '../entities/User';
+
+// Chunked, resumable uploads of artwork images: create an upload, PATCH its
+// chunks in order, then complete it and pass its id to the artwork routes
+const router = Router();
+const uploadController = new UploadController();
+
+// Protected routes - Artist or Admin only (service checks ownership)
+router.post('/', ...withAuth([UserRole.ARTIST, UserRole.ADMIN]),
+  validate([
+    body('fileName').isString().isLength({ min: 1, max: 255 }).withMessage('fileName is required and must be under 255 characters'),
+    body('mimeType').isString().isLength({ min: 1, max: 100 }).withMessage('mimeType is required'),
+    body('size').isInt({ min: 1 }).toInt().withMessage('size must be the file size in bytes')
+  ]),
+  uploadController.createUpload
+);
+router.get('/:id', ...withAuth([UserRole.ARTIST, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid upload ID')
+  ]),
+  uploadController.getUpload
+);
+router.patch('/:id', ...withAuth([UserRole.ARTIST, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid upload ID')
+  ]),
+  uploadController.appendChunk
+);
+router.post('/:id/complete', ...withAuth([UserRole.ARTIST, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid upload ID')
+  ]),
+  uploadController.completeUpload
+);
+router.delete('/:id', ...withAuth([UserRole.ARTIST, UserRole.ADMIN]),
+  validate([
+    param('id').isUUID().withMessage('Invalid upload ID')
+  ]),
+  uploadController.cancelUpload
+);
+
+export default router;
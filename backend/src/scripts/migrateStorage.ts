@@ -0,0 +1,174 @@
+import 'dotenv/config';
+import 'reflect-metadata';
+import path from 'path';
+import { EntityTarget, ObjectLiteral } from 'typeorm';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import { AppDataSource } from '../config/database';
+import { Artwork } from '../entities/Artwork';
+import { ArtworkRendition } from '../entities/ArtworkRendition';
+import { ArtworkReview } from '../entities/ArtworkReview';
+import { TourStop } from '../entities/TourStop';
+import { logger } from '../utils/logger';
+import {
+  StorageDriver,
+  copyStoredFile,
+  createStorageDriver,
+  fileUrlFor,
+  isPrivateStorageKey,
+  storageKeyFromUrl
+} from '../services/storage.service';
+
+/**
+ * Copy every uploaded file from one storage backend to another and point the
+ * database at the copies:
+ *
+ *   npm run storage:migrate -- --from local --to s3 [--dry-run]
+ *
+ * or `node dist/scripts/migrateStorage.js ...` in a built image. Files are
+ * copied, not moved, so the old store keeps working until STORAGE_DRIVER is
+ * switched; running it again picks up anything uploaded in between.
+ * Originals uploaded before they were kept private are made private on the way.
+ */
+
+interface MigrationOptions {
+  from: StorageDriver;
+  to: StorageDriver;
+  dryRun: boolean;
+}
+
+const parseArguments = (args: string[]): MigrationOptions => {
+  const valueOf = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const from = valueOf('--from');
+  const to = valueOf('--to');
+  if (!from || !to || from === to) {
+    throw new Error('Usage: migrateStorage --from <local|s3> --to <local|s3> [--dry-run]');
+  }
+
+  return {
+    from: createStorageDriver(from),
+    to: createStorageDriver(to),
+    dryRun: args.includes('--dry-run')
+  };
+};
+
+const migrate = async ({ from, to, dryRun }: MigrationOptions) => {
+  const copied = new Set<string>();
+  let failures = 0;
+
+  const copy = async (key: string, targetKey: string = key) => {
+    if (copied.has(key)) return true;
+
+    try {
+      if (!dryRun) await copyStoredFile(key, from, to, targetKey);
+      copied.add(key);
+      return true;
+    } catch (error) {
+      failures++;
+      logger.warn(`Could not copy ${key}:`, error);
+      return false;
+    }
+  };
+
+  // The URL of a file once it is in the new store; files that could not be
+  // copied, or are not in the old store, keep their URL
+  const moveFile = async (url: string) => {
+    const key = storageKeyFromUrl(url, from);
+    if (!key || !(await copy(key))) return url;
+    return fileUrlFor(key, to);
+  };
+
+  // Originals uploaded before they were kept private move to where they are
+  const moveOriginal = async (url: string) => {
+    const key = storageKeyFromUrl(url, from);
+    if (!key) return url;
+
+    const targetKey = isPrivateStorageKey(key) ? key : `originals/${path.posix.basename(key)}`;
+    if (!(await copy(key, targetKey))) return url;
+    return fileUrlFor(targetKey, to);
+  };
+
+  const moveDirectory = async (url: string) => {
+    const prefix = storageKeyFromUrl(url, from);
+    if (!prefix) return url;
+
+    let complete = true;
+    for (const key of await from.list(`${prefix}/`)) {
+      complete = (await copy(key)) && complete;
+    }
+    return complete ? fileUrlFor(prefix, to) : url;
+  };
+
+  // Records already pointing at the new store are left alone
+  const save = async <T extends ObjectLiteral>(target: EntityTarget<T>, entity: T, changes: QueryDeepPartialEntity<T>) => {
+    const changed = Object.entries(changes).some(([field, value]) => JSON.stringify(value) !== JSON.stringify(entity[field]));
+    if (changed && !dryRun) await AppDataSource.getRepository(target).update(entity.id, changes);
+  };
+
+  const artworks = await AppDataSource.getRepository(Artwork).find();
+  for (const artwork of artworks) {
+    await save(Artwork, artwork, {
+      fileUrl: await moveOriginal(artwork.fileUrl),
+      thumbnailUrl: await moveFile(artwork.thumbnailUrl),
+      deepZoom: artwork.deepZoom && {
+        ...artwork.deepZoom,
+        descriptorUrl: await moveFile(artwork.deepZoom.descriptorUrl),
+        tilesUrl: await moveDirectory(artwork.deepZoom.tilesUrl)
+      }
+    });
+  }
+  logger.info(`Artworks: ${artworks.length}`);
+
+  const renditions = await AppDataSource.getRepository(ArtworkRendition).find();
+  for (const rendition of renditions) {
+    await save(ArtworkRendition, rendition, { fileUrl: await moveFile(rendition.fileUrl) });
+  }
+  logger.info(`Renditions: ${renditions.length}`);
+
+  // Review rounds show the images the artwork was submitted with
+  const reviews = await AppDataSource.getRepository(ArtworkReview).find();
+  for (const review of reviews) {
+    await save(ArtworkReview, review, {
+      snapshot: {
+        ...review.snapshot,
+        fileUrl: await moveOriginal(review.snapshot.fileUrl),
+        thumbnailUrl: await moveFile(review.snapshot.thumbnailUrl)
+      }
+    });
+  }
+  logger.info(`Review rounds: ${reviews.length}`);
+
+  const stops = await AppDataSource.getRepository(TourStop).find();
+  for (const stop of stops) {
+    if (stop.audioUrl) {
+      await save(TourStop, stop, { audioUrl: await moveFile(stop.audioUrl) });
+    }
+  }
+  logger.info(`Tour stops: ${stops.length}`);
+
+  logger.info(`${dryRun ? 'Would copy' : 'Copied'} ${copied.size} files from ${from.name} to ${to.name}`);
+  return failures;
+};
+
+const run = async () => {
+  try {
+    const options = parseArguments(process.argv.slice(2));
+    await AppDataSource.initialize();
+
+    const failures = await migrate(options);
+    if (failures > 0) {
+      logger.error(`${failures} files could not be copied; their records were left pointing at ${options.from.name}`);
+    }
+    process.exitCode = failures > 0 ? 1 : 0;
+  } catch (error) {
+    logger.error('Storage migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    if (AppDataSource.isInitialized) await AppDataSource.destroy();
+  }
+};
+
+run();
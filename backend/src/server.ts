@@ -1,7 +1,9 @@
 import 'dotenv/config';
 import { AppDataSource } from './config/database';
-import { server } from './app';
+import { app, server } from './app';
 import { logger } from './utils/logger';
+import { startExhibitionScheduler } from './services/scheduler.service';
+import { startUploadCleanup } from './services/resumableUpload.service';
 
 const PORT = process.env.PORT || 3000;
 
@@ -24,6 +26,12 @@ async function startServer() {
     await AppDataSource.initialize();
     logger.info('Database connection established');
 
+    // Drive exhibition openings and closings from their dates
+    startExhibitionScheduler(app.get('io'));
+
+    // Remove chunked uploads that were abandoned or never used
+    startUploadCleanup();
+
     server.listen(PORT, () => {
       logger.info(`Server running on port ${PORT}`);
     });
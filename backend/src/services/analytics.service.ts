@@ -0,0 +1,562 @@
+import { Between, In } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { AnalyticsDailyStat, AnalyticsScope } from '../entities/AnalyticsDailyStat';
+import { Artwork } from '../entities/Artwork';
+import { ArtworkPlacement } from '../entities/ArtworkPlacement';
+import { Exhibition, ExhibitionStatus } from '../entities/Exhibition';
+import { PlanPoint, Room } from '../entities/Room';
+import { User, UserRole } from '../entities/User';
+import { VisitorPositionSample } from '../entities/VisitorPositionSample';
+import { Wall } from '../entities/Wall';
+import { assertCanManageExhibition, findExhibitionOrFail } from './exhibition.service';
+import { logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A single dwell longer than this is a visitor who walked away from the screen
+const MAX_DWELL_MS = 10 * 60 * 1000;
+// Events are counted on the day they happened, if the client says so plausibly
+const MAX_EVENT_AGE_MS = 2 * DAY_MS;
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+// Heatmap cells are squares of this many metres
+export const DEFAULT_HEATMAP_CELL_SIZE = 1;
+export const MIN_HEATMAP_CELL_SIZE = 0.5;
+export const MAX_HEATMAP_CELL_SIZE = 5;
+// Positions further out than this from the plan's origin are not a real floor
+const MAX_PLAN_EXTENT = 1000;
+// A visitor standing within this many metres in front of a wall is at it
+const WALL_REACH = 2;
+
+export enum AnalyticsEventType {
+  // The artwork's detail page was opened
+  VIEW = 'view',
+  // The artwork was picked in the 3D scene (Unity's ArtworkSelected)
+  SELECT = 'select',
+  // The visitor stood near the artwork in the 3D scene for durationMs
+  DWELL = 'dwell'
+}
+
+export interface AnalyticsEventInput {
+  type: AnalyticsEventType;
+  artworkId: string;
+  // Set for events in the 3D scene
+  exhibitionId?: string;
+  wallId?: string;
+  durationMs?: number;
+  occurredAt?: string;
+}
+
+export interface PositionSampleInput {
+  // On the floor plan, in metres: Unity's x and z
+  x: number;
+  y: number;
+  sampledAt?: string;
+}
+
+export interface EngagementTotals {
+  views: number;
+  selections: number;
+  dwellSeconds: number;
+  dwellCount: number;
+  averageDwellSeconds: number;
+}
+
+type Counts = Pick<AnalyticsDailyStat, 'views' | 'selections' | 'dwellSeconds' | 'dwellCount'>;
+
+const emptyCounts = (): Counts => ({ views: 0, selections: 0, dwellSeconds: 0, dwellCount: 0 });
+
+const toDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * When something reported by a client happened, unless its clock or queue
+ * makes that implausible
+ */
+const reportedTime = (occurredAt: string | undefined, now: number) => {
+  const time = occurredAt ? new Date(occurredAt).getTime() : NaN;
+  return Number.isFinite(time) && time <= now + MAX_CLOCK_SKEW_MS && now - time <= MAX_EVENT_AGE_MS
+    ? Math.min(time, now)
+    : now;
+};
+
+/**
+ * The day an event is counted on: when it happened, unless the client's clock
+ * or queue makes that implausible
+ */
+const eventDay = (occurredAt: string | undefined, now: number) => toDay(reportedTime(occurredAt, now));
+
+const eventCounts = (event: AnalyticsEventInput): Counts => {
+  const counts = emptyCounts();
+  if (event.type === AnalyticsEventType.VIEW) counts.views = 1;
+  if (event.type === AnalyticsEventType.SELECT) counts.selections = 1;
+  if (event.type === AnalyticsEventType.DWELL) {
+    counts.dwellSeconds = Math.min(Math.max(0, Number(event.durationMs) || 0), MAX_DWELL_MS) / 1000;
+    counts.dwellCount = 1;
+  }
+  return counts;
+};
+
+const addCounts = (target: Counts, counts: Counts) => {
+  target.views += counts.views;
+  target.selections += counts.selections;
+  target.dwellSeconds += counts.dwellSeconds;
+  target.dwellCount += counts.dwellCount;
+};
+
+const toTotals = (counts: Counts): EngagementTotals => ({
+  views: counts.views,
+  selections: counts.selections,
+  dwellSeconds: Math.round(counts.dwellSeconds),
+  dwellCount: counts.dwellCount,
+  averageDwellSeconds: counts.dwellCount > 0 ? Math.round((counts.dwellSeconds / counts.dwellCount) * 10) / 10 : 0
+});
+
+const sumRows = (rows: AnalyticsDailyStat[]) => {
+  const counts = emptyCounts();
+  rows.forEach(row => addCounts(counts, row));
+  return toTotals(counts);
+};
+
+/**
+ * Resolve a reporting range of whole days, the last 30 by default
+ */
+const resolveRange = (from?: string, to?: string) => {
+  const end = to ? toDay(new Date(to).getTime()) : toDay(Date.now());
+  const start = from
+    ? toDay(new Date(from).getTime())
+    : toDay(new Date(end).getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+
+  const days = (new Date(end).getTime() - new Date(start).getTime()) / DAY_MS + 1;
+  if (days < 1 || days > MAX_RANGE_DAYS) {
+    throw {
+      code: 400,
+      error: new Error(`The range must run forwards and cover at most ${MAX_RANGE_DAYS} days`)
+    };
+  }
+
+  return { from: start, to: end, days };
+};
+
+/**
+ * Daily totals over a range, with empty days filled in
+ */
+const buildDaily = (rows: AnalyticsDailyStat[], range: { from: string; days: number }) => {
+  const byDay = new Map<string, Counts>();
+  rows.forEach(row => {
+    const counts = byDay.get(row.day) || emptyCounts();
+    addCounts(counts, row);
+    byDay.set(row.day, counts);
+  });
+
+  return Array.from({ length: range.days }, (_, i) => {
+    const day = toDay(new Date(range.from).getTime() + i * DAY_MS);
+    return { day, ...toTotals(byDay.get(day) || emptyCounts()) };
+  });
+};
+
+const groupRows = (rows: AnalyticsDailyStat[]) => {
+  const groups = new Map<string, AnalyticsDailyStat[]>();
+  rows.forEach(row => groups.set(row.scopeId, [...(groups.get(row.scopeId) || []), row]));
+  return groups;
+};
+
+/**
+ * Add a batch of engagement events to the daily totals of their artworks,
+ * walls and exhibitions. Events for unknown artworks are dropped, as are walls
+ * that are not in the event's exhibition.
+ * @param events Events from one client
+ */
+export const ingestAnalyticsEvents = async (events: AnalyticsEventInput[]) => {
+  try {
+    const artworkIds = [...new Set(events.map(event => event.artworkId))];
+    const exhibitionIds = [...new Set(events.map(event => event.exhibitionId).filter(Boolean))] as string[];
+    const wallIds = [...new Set(events.map(event => event.wallId).filter(Boolean))] as string[];
+
+    const [artworks, exhibitions, walls] = await Promise.all([
+      AppDataSource.getRepository(Artwork).find({ where: { id: In(artworkIds) }, select: ['id'] }),
+      exhibitionIds.length > 0
+        ? AppDataSource.getRepository(Exhibition).find({ where: { id: In(exhibitionIds) }, select: ['id'] })
+        : [],
+      wallIds.length > 0
+        ? AppDataSource.getRepository(Wall).find({ where: { id: In(wallIds) }, select: ['id', 'exhibitionId'] })
+        : []
+    ]);
+
+    const knownArtworks = new Set(artworks.map(artwork => artwork.id));
+    const knownExhibitions = new Set(exhibitions.map(exhibition => exhibition.id));
+    const wallExhibitions = new Map(walls.map(wall => [wall.id, wall.exhibitionId]));
+
+    // Scene events without a usable wall are put on the wall the artwork hangs on
+    const unplaced = events.filter(event =>
+      event.exhibitionId && knownExhibitions.has(event.exhibitionId) &&
+      (!event.wallId || wallExhibitions.get(event.wallId) !== event.exhibitionId)
+    );
+    const hangingWalls = new Map<string, string>();
+    if (unplaced.length > 0) {
+      const placements = await AppDataSource.getRepository(ArtworkPlacement)
+        .createQueryBuilder('placement')
+        .innerJoin('placement.wall', 'wall')
+        .select(['placement.artworkId AS "artworkId"', 'placement.wallId AS "wallId"', 'wall.exhibitionId AS "exhibitionId"'])
+        .where('placement.artworkId IN (:...artworkIds)', { artworkIds: [...new Set(unplaced.map(event => event.artworkId))] })
+        .andWhere('wall.exhibitionId IN (:...exhibitionIds)', { exhibitionIds: [...new Set(unplaced.map(event => event.exhibitionId))] })
+        .getRawMany<{ artworkId: string; wallId: string; exhibitionId: string }>();
+
+      placements.forEach(placement => {
+        hangingWalls.set(`${placement.exhibitionId}:${placement.artworkId}`, placement.wallId);
+      });
+    }
+
+    const now = Date.now();
+    const totals = new Map<string, Omit<AnalyticsDailyStat, 'id'>>();
+    const add = (day: string, scope: AnalyticsScope, scopeId: string, counts: Counts) => {
+      const key = `${day}:${scope}:${scopeId}`;
+      const row = totals.get(key) || { day, scope, scopeId, ...emptyCounts() };
+      addCounts(row, counts);
+      totals.set(key, row);
+    };
+
+    let accepted = 0;
+    for (const event of events) {
+      if (!knownArtworks.has(event.artworkId)) continue;
+
+      const day = eventDay(event.occurredAt, now);
+      const counts = eventCounts(event);
+      add(day, AnalyticsScope.ARTWORK, event.artworkId, counts);
+
+      const exhibitionId = event.exhibitionId && knownExhibitions.has(event.exhibitionId) ? event.exhibitionId : null;
+      if (exhibitionId) {
+        add(day, AnalyticsScope.EXHIBITION, exhibitionId, counts);
+
+        const wallId = event.wallId && wallExhibitions.get(event.wallId) === exhibitionId
+          ? event.wallId
+          : hangingWalls.get(`${exhibitionId}:${event.artworkId}`);
+        if (wallId) {
+          add(day, AnalyticsScope.WALL, wallId, counts);
+        }
+      }
+      accepted++;
+    }
+
+    if (totals.size > 0) {
+      await AppDataSource.createQueryBuilder()
+        .insert()
+        .into(AnalyticsDailyStat)
+        .values([...totals.values()])
+        .onConflict(`("day", "scope", "scopeId") DO UPDATE SET
+          "views" = "analytics_daily_stats"."views" + EXCLUDED."views",
+          "selections" = "analytics_daily_stats"."selections" + EXCLUDED."selections",
+          "dwellSeconds" = "analytics_daily_stats"."dwellSeconds" + EXCLUDED."dwellSeconds",
+          "dwellCount" = "analytics_daily_stats"."dwellCount" + EXCLUDED."dwellCount"`)
+        .execute();
+    }
+
+    return { accepted };
+  } catch (error) {
+    logger.error('Ingest analytics events error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get engagement with an artist's artworks over a range of days
+ * @param user The artist
+ * @param from First day, YYYY-MM-DD
+ * @param to Last day, YYYY-MM-DD
+ */
+export const getArtistAnalytics = async (user: User, from?: string, to?: string) => {
+  try {
+    const range = resolveRange(from, to);
+
+    const artworks = await AppDataSource.getRepository(Artwork).find({
+      where: { artistId: user.id },
+      select: ['id', 'title', 'thumbnailUrl']
+    });
+
+    const rows = artworks.length > 0
+      ? await AppDataSource.getRepository(AnalyticsDailyStat).find({
+        where: {
+          scope: AnalyticsScope.ARTWORK,
+          scopeId: In(artworks.map(artwork => artwork.id)),
+          day: Between(range.from, range.to)
+        }
+      })
+      : [];
+    const byArtwork = groupRows(rows);
+
+    return {
+      from: range.from,
+      to: range.to,
+      totals: sumRows(rows),
+      daily: buildDaily(rows, range),
+      artworks: artworks
+        .map(artwork => ({
+          artworkId: artwork.id,
+          title: artwork.title,
+          thumbnailUrl: artwork.thumbnailUrl,
+          ...sumRows(byArtwork.get(artwork.id) || [])
+        }))
+        .sort((a, b) => b.views + b.selections - (a.views + a.selections))
+    };
+  } catch (error) {
+    logger.error('Get artist analytics error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get engagement with a curator's exhibitions and their walls over a range of
+ * days. Admins see every exhibition.
+ * @param user The curator or admin
+ * @param from First day, YYYY-MM-DD
+ * @param to Last day, YYYY-MM-DD
+ */
+export const getCuratorAnalytics = async (user: User, from?: string, to?: string) => {
+  try {
+    const range = resolveRange(from, to);
+
+    const exhibitions = await AppDataSource.getRepository(Exhibition).find({
+      where: user.role === UserRole.ADMIN ? {} : { curatorId: user.id },
+      select: ['id', 'title']
+    });
+    const exhibitionIds = exhibitions.map(exhibition => exhibition.id);
+
+    const walls = exhibitionIds.length > 0
+      ? await AppDataSource.getRepository(Wall).find({
+        where: { exhibitionId: In(exhibitionIds) },
+        select: ['id', 'name', 'exhibitionId']
+      })
+      : [];
+
+    const findRows = (scope: AnalyticsScope, scopeIds: string[]) => scopeIds.length > 0
+      ? AppDataSource.getRepository(AnalyticsDailyStat).find({
+        where: { scope, scopeId: In(scopeIds), day: Between(range.from, range.to) }
+      })
+      : Promise.resolve([]);
+
+    const [exhibitionRows, wallRows] = await Promise.all([
+      findRows(AnalyticsScope.EXHIBITION, exhibitionIds),
+      findRows(AnalyticsScope.WALL, walls.map(wall => wall.id))
+    ]);
+    const byExhibition = groupRows(exhibitionRows);
+    const byWall = groupRows(wallRows);
+    const titles = new Map(exhibitions.map(exhibition => [exhibition.id, exhibition.title]));
+
+    return {
+      from: range.from,
+      to: range.to,
+      totals: sumRows(exhibitionRows),
+      daily: buildDaily(exhibitionRows, range),
+      exhibitions: exhibitions
+        .map(exhibition => ({
+          exhibitionId: exhibition.id,
+          title: exhibition.title,
+          ...sumRows(byExhibition.get(exhibition.id) || [])
+        }))
+        .sort((a, b) => b.dwellSeconds - a.dwellSeconds),
+      walls: walls
+        .map(wall => ({
+          wallId: wall.id,
+          name: wall.name,
+          exhibitionId: wall.exhibitionId,
+          exhibitionTitle: titles.get(wall.exhibitionId) || null,
+          ...sumRows(byWall.get(wall.id) || [])
+        }))
+        .filter(wall => wall.selections > 0 || wall.dwellCount > 0)
+        .sort((a, b) => b.dwellSeconds - a.dwellSeconds)
+    };
+  } catch (error) {
+    logger.error('Get curator analytics error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Store positions sampled from a visitor's walk through an exhibition's 3D
+ * scene. Draft exhibitions are only seen by their curators, so their samples
+ * are dropped, as are positions off any plausible floor.
+ * @param exhibitionId Exhibition being visited
+ * @param sessionId The visit, chosen by the visitor's browser
+ * @param samples Positions in the order they were taken
+ */
+export const recordPositionSamples = async (
+  exhibitionId: string,
+  sessionId: string,
+  samples: PositionSampleInput[]
+) => {
+  try {
+    const exhibition = await findExhibitionOrFail(exhibitionId);
+    if (exhibition.status === ExhibitionStatus.DRAFT) {
+      return { accepted: 0 };
+    }
+
+    const now = Date.now();
+    const rows = samples
+      .filter(sample =>
+        Number.isFinite(sample.x) && Number.isFinite(sample.y) &&
+        Math.abs(sample.x) <= MAX_PLAN_EXTENT && Math.abs(sample.y) <= MAX_PLAN_EXTENT
+      )
+      .map(sample => ({
+        exhibitionId,
+        sessionId,
+        x: sample.x,
+        y: sample.y,
+        sampledAt: new Date(reportedTime(sample.sampledAt, now))
+      }));
+
+    if (rows.length > 0) {
+      await AppDataSource.getRepository(VisitorPositionSample).insert(rows);
+    }
+
+    return { accepted: rows.length };
+  } catch (error) {
+    logger.error('Record position samples error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Ray casting: whether a point lies inside a room's footprint
+ */
+const isInFootprint = (point: PlanPoint, footprint: PlanPoint[]) => {
+  let inside = false;
+  for (let i = 0, j = footprint.length - 1; i < footprint.length; j = i++) {
+    const a = footprint[i];
+    const b = footprint[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Whether a point is in front of a wall's hanging face and close enough to
+ * look at it
+ */
+const isAtWall = (point: PlanPoint, wall: Pick<Wall, 'planPosition' | 'orientation' | 'width'>) => {
+  if (!wall.planPosition) return false;
+
+  const angle = (wall.orientation * Math.PI) / 180;
+  const offset = { x: point.x - wall.planPosition.x, y: point.y - wall.planPosition.y };
+  const ahead = offset.x * Math.cos(angle) + offset.y * Math.sin(angle);
+  const along = -offset.x * Math.sin(angle) + offset.y * Math.cos(angle);
+
+  return ahead > 0 && ahead <= WALL_REACH && Math.abs(along) <= wall.width / 2;
+};
+
+/**
+ * Get a grid heatmap of where visitors walked and stood in an exhibition's 3D
+ * scene over a range of days. Each cell counts the position samples taken in
+ * it; cells are put in the room whose floor holds their centre, and walls
+ * total the cells in front of them.
+ * @param user The exhibition's curator, or an admin
+ * @param exhibitionId Exhibition to map
+ * @param options Days to cover and the cell size in metres
+ */
+export const getExhibitionHeatmap = async (
+  user: User,
+  exhibitionId: string,
+  options: { from?: string; to?: string; cellSize?: number } = {}
+) => {
+  try {
+    const exhibition = await findExhibitionOrFail(exhibitionId);
+    assertCanManageExhibition(user, exhibition);
+
+    const range = resolveRange(options.from, options.to);
+    const cellSize = Math.min(
+      Math.max(Number(options.cellSize) || DEFAULT_HEATMAP_CELL_SIZE, MIN_HEATMAP_CELL_SIZE),
+      MAX_HEATMAP_CELL_SIZE
+    );
+    const start = new Date(range.from);
+    const end = new Date(new Date(range.to).getTime() + DAY_MS);
+
+    const inRange = AppDataSource.getRepository(VisitorPositionSample)
+      .createQueryBuilder('sample')
+      .where('sample.exhibitionId = :exhibitionId', { exhibitionId })
+      .andWhere('sample.sampledAt >= :start AND sample.sampledAt < :end', { start, end });
+
+    const [grouped, visits, rooms, walls] = await Promise.all([
+      inRange.clone()
+        .select('FLOOR(sample.x / :cellSize)', 'column')
+        .addSelect('FLOOR(sample.y / :cellSize)', 'row')
+        .addSelect('COUNT(*)', 'samples')
+        .addSelect('COUNT(DISTINCT sample.sessionId)', 'sessions')
+        .setParameter('cellSize', cellSize)
+        .groupBy('"column"')
+        .addGroupBy('"row"')
+        .getRawMany<{ column: string; row: string; samples: string; sessions: string }>(),
+      inRange.clone()
+        .select('COUNT(DISTINCT sample.sessionId)', 'sessions')
+        .getRawOne<{ sessions: string }>(),
+      AppDataSource.getRepository(Room).find({ where: { exhibitionId }, order: { displayOrder: 'ASC' } }),
+      AppDataSource.getRepository(Wall).find({
+        where: { exhibitionId },
+        select: ['id', 'name', 'roomId', 'planPosition', 'orientation', 'width']
+      })
+    ]);
+
+    const centreOf = (column: number, row: number) => ({ x: (column + 0.5) * cellSize, y: (row + 0.5) * cellSize });
+
+    const cells = grouped.map(group => {
+      const column = Number(group.column);
+      const row = Number(group.row);
+      const centre = centreOf(column, row);
+      return {
+        x: column * cellSize,
+        y: row * cellSize,
+        samples: Number(group.samples),
+        sessions: Number(group.sessions),
+        roomId: rooms.find(room => isInFootprint(centre, room.footprint))?.id || null
+      };
+    });
+
+    // How much of each room's floor visitors reached, so dead corners stand out
+    const roomStats = rooms.map(room => {
+      const xs = room.footprint.map(point => point.x);
+      const ys = room.footprint.map(point => point.y);
+      let floorCells = 0;
+      for (let column = Math.floor(Math.min(...xs) / cellSize); column * cellSize < Math.max(...xs); column++) {
+        for (let row = Math.floor(Math.min(...ys) / cellSize); row * cellSize < Math.max(...ys); row++) {
+          if (isInFootprint(centreOf(column, row), room.footprint)) floorCells++;
+        }
+      }
+
+      const visited = cells.filter(cell => cell.roomId === room.id);
+      return {
+        roomId: room.id,
+        name: room.name,
+        samples: visited.reduce((sum, cell) => sum + cell.samples, 0),
+        floorCells,
+        visitedCells: visited.length
+      };
+    });
+
+    const wallStats = walls
+      .filter(wall => wall.planPosition)
+      .map(wall => ({
+        wallId: wall.id,
+        name: wall.name,
+        roomId: wall.roomId,
+        samples: cells
+          .filter(cell => isAtWall({ x: cell.x + cellSize / 2, y: cell.y + cellSize / 2 }, wall))
+          .reduce((sum, cell) => sum + cell.samples, 0)
+      }))
+      .sort((a, b) => b.samples - a.samples);
+
+    return {
+      exhibitionId,
+      from: range.from,
+      to: range.to,
+      cellSize,
+      sessions: Number(visits?.sessions || 0),
+      samples: cells.reduce((sum, cell) => sum + cell.samples, 0),
+      peakSamples: cells.reduce((peak, cell) => Math.max(peak, cell.samples), 0),
+      cells,
+      rooms: roomStats,
+      walls: wallStats
+    };
+  } catch (error) {
+    logger.error('Get exhibition heatmap error:', error);
+    throw error;
+  }
+};
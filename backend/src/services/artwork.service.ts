@@ -1,12 +1,36 @@
 // backend/src/services/artwork.service.ts
+import { EntityManager } from 'typeorm';
 import { AppDataSource } from '../config/database';
-import { Artwork, ArtworkStatus } from '../entities/Artwork';
+import { Artwork, ArtworkImageStatus, ArtworkStatus, DeepZoomImage } from '../entities/Artwork';
+import { ArtworkRendition } from '../entities/ArtworkRendition';
+import { ArtworkReview, RejectionReason, ReviewDecision } from '../entities/ArtworkReview';
 import { User, UserRole } from '../entities/User';
+import { JobType } from '../entities/Job';
 import { logger } from '../utils/logger';
-import { processArtworkImage } from './upload.service';
-import { notifyArtworkUpload, notifyArtworkApproval } from './notification.service';
-import path from 'path';
-import fs from 'fs';
+import { ProcessedRendition, processArtworkImage, storeArtworkUpload } from './upload.service';
+import { JobPayloads, enqueueJob } from './jobQueue.service';
+import { claimUpload } from './resumableUpload.service';
+import {
+  deleteStoredDirectory,
+  deleteStoredFile,
+  fileUrlFor,
+  getSignedFileUrl,
+  isPrivateStorageKey
+} from './storage.service';
+import {
+  notifyArtworkUpload,
+  notifyArtworkApproval,
+  notifyArtworkRejection,
+  notifyArtworkResubmission
+} from './notification.service';
+import {
+  openReviewRound,
+  syncOpenReviewRound,
+  closeReviewRound,
+  describeRejection,
+  emitQueueUpdate,
+  assertNotClaimedByOthers
+} from './review.service';
 
 /**
  * Get all artworks with filtering and pagination
@@ -26,6 +50,7 @@ export const getAllArtworks = async (
     let query = artworkRepository
       .createQueryBuilder('artwork')
       .leftJoinAndSelect('artwork.artist', 'artist')
+      .leftJoinAndSelect('artwork.renditions', 'rendition')
       .orderBy('artwork.creationDate', 'DESC');
 
     if (status) {
@@ -82,7 +107,8 @@ export const getArtworkById = async (id: string) => {
     const artworkRepository = AppDataSource.getRepository(Artwork);
     const artwork = await artworkRepository.findOne({
       where: { id },
-      relations: ['artist', 'comments', 'comments.user']
+      // Comments are served by the comment routes so moderation applies to them
+      relations: ['artist', 'renditions']
     });
     
     if (!artwork) {
@@ -96,6 +122,218 @@ export const getArtworkById = async (id: string) => {
   }
 };
 
+/**
+ * The artist and curators see an artwork whatever its status
+ */
+const isArtworkReviewer = (artwork: Artwork, user?: User) =>
+  !!user && (
+    user.id === artwork.artistId ||
+    user.role === UserRole.CURATOR ||
+    user.role === UserRole.ADMIN
+  );
+
+/**
+ * Whether someone may see an artwork: anyone once it is approved, before
+ * that only its artist and curators
+ */
+export const canViewArtwork = (artwork: Artwork, user?: User) =>
+  artwork.status === ArtworkStatus.APPROVED || isArtworkReviewer(artwork, user);
+
+/**
+ * A short-lived link to an artwork's original image, which storage keeps
+ * private. Anyone may see the original of an approved artwork; before that,
+ * and for originals the artwork has since replaced, only its artist and
+ * curators may.
+ * @param key Storage key of the original
+ * @param user Who is asking, if signed in
+ */
+export const getOriginalFileUrl = async (key: string, user?: User) => {
+  try {
+    const notFound = { code: 404, error: new Error('File not found') };
+    if (!isPrivateStorageKey(key)) {
+      throw notFound;
+    }
+
+    const fileUrl = fileUrlFor(key);
+    const current = await AppDataSource.getRepository(Artwork).findOne({ where: { fileUrl } });
+    // Earlier review rounds still show the images they were submitted with
+    const artwork = current || (await AppDataSource.getRepository(ArtworkReview)
+      .createQueryBuilder('review')
+      .innerJoinAndSelect('review.artwork', 'artwork')
+      .where(`review.snapshot ->> 'fileUrl' = :fileUrl`, { fileUrl })
+      .getOne())?.artwork;
+
+    if (!artwork) {
+      throw notFound;
+    }
+
+    // Originals the artwork has since replaced are never public.
+    // Not telling strangers the file exists
+    if (current ? !canViewArtwork(current, user) : !isArtworkReviewer(artwork, user)) {
+      throw notFound;
+    }
+
+    return getSignedFileUrl(key);
+  } catch (error) {
+    logger.error('Get original file URL error:', error);
+    throw error;
+  }
+};
+
+// Physical size of an artwork in metres
+export type ArtworkDimensions = Partial<Pick<Artwork, 'width' | 'height' | 'depth'>>;
+
+// A new image: sent with the request, or uploaded beforehand in chunks
+export type ArtworkImageUpload = Express.Multer.File | { uploadId: string };
+
+/**
+ * Keep a new image as an artwork's original
+ * @param user Who sent it; chunked uploads can only be used by whoever made them
+ * @returns URL of the original
+ */
+const storeArtworkImage = (image: ArtworkImageUpload, user: User) =>
+  'uploadId' in image ? claimUpload(image.uploadId, user) : storeArtworkUpload(image);
+
+/**
+ * Record the renditions made for an artwork's image in place of any it had.
+ * The old ones are returned so their files can be deleted once the new ones
+ * are saved for good.
+ */
+const replaceRenditions = async (
+  artworkId: string,
+  processed: ProcessedRendition[],
+  manager: EntityManager = AppDataSource.manager
+) => {
+  const renditionRepository = manager.getRepository(ArtworkRendition);
+
+  const replaced = await renditionRepository.find({ where: { artworkId } });
+  await renditionRepository.delete({ artworkId });
+  const renditions = await renditionRepository.save(processed.map(rendition => renditionRepository.create({
+    artworkId,
+    kind: rendition.kind,
+    format: rendition.format,
+    width: rendition.width,
+    height: rendition.height,
+    bytes: rendition.bytes,
+    fileUrl: rendition.fileUrl
+  })));
+
+  return { renditions, replaced };
+};
+
+/**
+ * Images earlier review rounds of an artwork still show
+ */
+const findReviewedFileUrls = async (artworkId: string) => {
+  const reviews = await AppDataSource.getRepository(ArtworkReview).find({ where: { artworkId } });
+  return new Set(reviews.flatMap(review => [review.snapshot?.fileUrl, review.snapshot?.thumbnailUrl]));
+};
+
+/**
+ * Delete an artwork's deep-zoom tiles, if it has any
+ */
+const deleteDeepZoomFiles = async (deepZoom: DeepZoomImage | null) => {
+  if (!deepZoom) return;
+
+  await deleteStoredFile(deepZoom.descriptorUrl);
+  await deleteStoredDirectory(deepZoom.tilesUrl);
+};
+
+/**
+ * Have the worker make the renditions and tiles of an artwork's new image.
+ * Only called once the artwork is saved, so the worker finds the new image.
+ */
+const queueImageProcessing = (artwork: Artwork) =>
+  enqueueJob(JobType.PROCESS_ARTWORK_IMAGE, { artworkId: artwork.id, fileUrl: artwork.fileUrl });
+
+/**
+ * Make the renditions and tiles of an artwork's image. Run by the worker;
+ * does nothing if the artwork was deleted or given another image since.
+ */
+export const processArtworkImageJob = async ({ artworkId, fileUrl }: JobPayloads[JobType.PROCESS_ARTWORK_IMAGE]) => {
+  try {
+    const artworkRepository = AppDataSource.getRepository(Artwork);
+    const isCurrent = (artwork: Artwork | null): artwork is Artwork => artwork?.fileUrl === fileUrl;
+
+    if (!isCurrent(await artworkRepository.findOne({ where: { id: artworkId } }))) {
+      return;
+    }
+
+    const processed = await processArtworkImage(fileUrl);
+
+    // Locked so an upload made meanwhile either comes after this save or is
+    // seen here, and is never overwritten with the older image
+    const result = await AppDataSource.transaction(async transactionalEntityManager => {
+      const artwork = await transactionalEntityManager.findOne(Artwork, {
+        where: { id: artworkId },
+        lock: { mode: 'pessimistic_write' }
+      });
+      if (!isCurrent(artwork)) return null;
+
+      const previousDeepZoom = artwork.deepZoom;
+      const { renditions, replaced } = await replaceRenditions(artwork.id, processed.renditions, transactionalEntityManager);
+      artwork.renditions = renditions;
+
+      artwork.deepZoom = processed.deepZoom;
+      artwork.fileUrl = processed.fileUrl;
+      artwork.thumbnailUrl = processed.thumbnailUrl;
+      artwork.imageStatus = ArtworkImageStatus.READY;
+      await transactionalEntityManager.save(artwork);
+
+      return { artwork, previousDeepZoom, replaced };
+    });
+
+    // The artist uploaded again while this one was processed
+    if (!result) {
+      for (const rendition of processed.renditions) await deleteStoredFile(rendition.fileUrl);
+      if (processed.fileUrl !== fileUrl) await deleteStoredFile(processed.fileUrl);
+      await deleteDeepZoomFiles(processed.deepZoom);
+      return;
+    }
+
+    const { artwork, previousDeepZoom, replaced } = result;
+
+    // Reviews never show tiles, so the old ones can go
+    await deleteDeepZoomFiles(previousDeepZoom);
+
+    // A converted original replaces the one uploaded
+    if (processed.fileUrl !== fileUrl) {
+      await deleteStoredFile(fileUrl);
+    }
+
+    // Curators review the finished images
+    if (artwork.status === ArtworkStatus.PENDING) {
+      await syncOpenReviewRound(artwork);
+    }
+
+    // Old renditions go too, except thumbnails earlier review rounds still show
+    const kept = await findReviewedFileUrls(artwork.id);
+    processed.renditions.forEach(rendition => kept.add(rendition.fileUrl));
+    for (const rendition of replaced) {
+      if (!kept.has(rendition.fileUrl)) await deleteStoredFile(rendition.fileUrl);
+    }
+  } catch (error) {
+    logger.error('Process artwork image job error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Mark an artwork whose image could not be processed, so its artist knows
+ * to upload it again
+ */
+export const markArtworkImageFailed = async ({ artworkId, fileUrl }: JobPayloads[JobType.PROCESS_ARTWORK_IMAGE]) => {
+  try {
+    await AppDataSource.getRepository(Artwork).update(
+      { id: artworkId, fileUrl },
+      { imageStatus: ArtworkImageStatus.FAILED }
+    );
+  } catch (error) {
+    logger.error('Mark artwork image failed error:', error);
+    throw error;
+  }
+};
+
 /**
  * Create new artwork
  */
@@ -106,19 +344,18 @@ export const createArtwork = async (
   category: string,
   tagsString?: string,
   creationDate?: string,
-  file?: Express.Multer.File,
+  image?: ArtworkImageUpload,
+  dimensions: ArtworkDimensions = {},
   io?: any
 ) => {
   try {
     // Check if file was uploaded
-    if (!file) {
+    if (!image) {
       throw new Error('No file uploaded');
     }
     
-    // Process the uploaded artwork image
-    const { originalPath, thumbnailPath } = await processArtworkImage(file);
-    const relativeOriginPath = path.relative(path.join(__dirname, '../../../'), originalPath);
-    const relativeThumbnailPath = path.relative(path.join(__dirname, '../../../'), thumbnailPath);
+    // Renditions are made in the background; until then there is no thumbnail
+    const fileUrl = await storeArtworkImage(image, artist);
     
     // Create new artwork record
     const artworkRepository = AppDataSource.getRepository(Artwork);
@@ -128,13 +365,23 @@ export const createArtwork = async (
     artwork.description = description;
     artwork.artist = artist;
     artwork.artistId = artist.id;
-    artwork.fileUrl = '/' + relativeOriginPath.replace(/^backend[\/\\]?/, '');
-    artwork.thumbnailUrl = '/' + relativeThumbnailPath.replace(/^backend[\/\\]?/, '');
+    artwork.fileUrl = fileUrl;
+    artwork.thumbnailUrl = '';
+    artwork.deepZoom = null;
+    artwork.imageStatus = ArtworkImageStatus.PROCESSING;
     artwork.category = category;
     artwork.tags = tagsString ? JSON.parse(tagsString) : [];
     artwork.creationDate = new Date(creationDate || Date.now());
+    artwork.width = dimensions.width ?? null;
+    artwork.height = dimensions.height ?? null;
+    artwork.depth = dimensions.depth ?? null;
     
     const savedArtwork = await artworkRepository.save(artwork);
+    savedArtwork.renditions = [];
+    await queueImageProcessing(savedArtwork);
+    
+    // Every submission goes through at least one review round
+    await openReviewRound(savedArtwork);
     
     // Create notifications for curators
     await notifyArtworkUpload(
@@ -155,6 +402,8 @@ export const createArtwork = async (
       });
     }
     
+    emitQueueUpdate(io, savedArtwork.id, 'added');
+    
     return savedArtwork;
   } catch (error) {
     logger.error('Create artwork error:', error);
@@ -162,19 +411,57 @@ export const createArtwork = async (
   }
 };
 
+interface ArtworkUpdates extends ArtworkDimensions {
+  title?: string;
+  description?: string;
+  category?: string;
+  tags?: string;
+}
+
+/**
+ * Apply an artist's edits (and optionally a new image) to an artwork,
+ * bumping its revision when anything was changed
+ * @returns Whether the image was replaced and needs processing once saved
+ */
+const applyArtworkUpdates = async (artwork: Artwork, user: User, updates: ArtworkUpdates, image?: ArtworkImageUpload) => {
+  const resized = (['width', 'height', 'depth'] as const).some(
+    dimension => updates[dimension] !== undefined && updates[dimension] !== artwork[dimension]
+  );
+  
+  if (updates.title || updates.description || updates.category || updates.tags || image || resized) {
+    artwork.revision = (artwork.revision || 1) + 1;
+  }
+  
+  if (updates.title) artwork.title = updates.title;
+  if (updates.description) artwork.description = updates.description;
+  if (updates.category) artwork.category = updates.category;
+  if (updates.width !== undefined) artwork.width = updates.width;
+  if (updates.height !== undefined) artwork.height = updates.height;
+  if (updates.depth !== undefined) artwork.depth = updates.depth;
+  
+  if (updates.tags) {
+    artwork.tags = JSON.parse(updates.tags);
+  }
+  
+  // Handle file upload if a new file is provided
+  if (image) {
+    // The previous image's renditions are shown until the new ones are made
+    artwork.fileUrl = await storeArtworkImage(image, user);
+    artwork.imageStatus = ArtworkImageStatus.PROCESSING;
+    return true;
+  }
+
+  return false;
+};
+
 /**
  * Update artwork
  */
 export const updateArtwork = async (
   id: string,
   user: User,
-  updates: {
-    title?: string;
-    description?: string;
-    category?: string;
-    tags?: string;
-  },
-  file?: Express.Multer.File
+  updates: ArtworkUpdates,
+  image?: ArtworkImageUpload
 ) => {
   try {
     const artworkRepository = AppDataSource.getRepository(Artwork);
@@ -196,26 +483,18 @@ export const updateArtwork = async (
     }
     
     // Update artwork fields
-    if (updates.title) artwork.title = updates.title;
-    if (updates.description) artwork.description = updates.description;
-    if (updates.category) artwork.category = updates.category;
+    const imageReplaced = await applyArtworkUpdates(artwork, user, updates, image);
     
-    if (updates.tags) {
-      artwork.tags = JSON.parse(updates.tags);
+    const updatedArtwork = await artworkRepository.save(artwork);
+    if (imageReplaced) {
+      await queueImageProcessing(updatedArtwork);
     }
     
-    // Handle file upload if a new file is provided
-    if (file) {
-      // Process the uploaded artwork image
-      const { originalPath, thumbnailPath } = await processArtworkImage(file);
-      
-      // Update file paths
-      artwork.fileUrl = originalPath.replace(path.join(__dirname, '../../../'), '/');
-      artwork.thumbnailUrl = thumbnailPath.replace(path.join(__dirname, '../../../'), '/');
+    // Keep a pending review in step with what curators will now see
+    if (updatedArtwork.status === ArtworkStatus.PENDING) {
+      await syncOpenReviewRound(updatedArtwork);
     }
     
-    const updatedArtwork = await artworkRepository.save(artwork);
-    
     return updatedArtwork;
   } catch (error) {
     logger.error('Update artwork error:', error);
@@ -246,21 +525,18 @@ export const deleteArtwork = async (id: string, user: User) => {
       throw new Error('Not authorized to delete this artwork');
     }
     
-    // Delete associated files
-    const basePath = path.join(__dirname, '../../../');
-    if (artwork.fileUrl) {
-      const filePath = path.join(basePath, artwork.fileUrl);
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
-      }
-    }
-    
-    if (artwork.thumbnailUrl) {
-      const thumbnailPath = path.join(basePath, artwork.thumbnailUrl);
-      if (fs.existsSync(thumbnailPath)) {
-        fs.unlinkSync(thumbnailPath);
-      }
+    // Delete associated files, with the images its review rounds kept
+    const renditions = await AppDataSource.getRepository(ArtworkRendition).find({ where: { artworkId: id } });
+    const fileUrls = new Set([
+      artwork.fileUrl,
+      artwork.thumbnailUrl,
+      ...renditions.map(rendition => rendition.fileUrl),
+      ...await findReviewedFileUrls(id)
+    ]);
+    for (const fileUrl of fileUrls) {
+      if (fileUrl) await deleteStoredFile(fileUrl);
     }
+    await deleteDeepZoomFiles(artwork.deepZoom);
     
     // Delete from database
     await artworkRepository.remove(artwork);
@@ -272,6 +548,18 @@ export const deleteArtwork = async (id: string, user: User) => {
   }
 };
 
+/**
+ * Curators can only decide on artworks that are waiting for review
+ */
+const assertAwaitingReview = (artwork: Artwork) => {
+  if (artwork.status !== ArtworkStatus.PENDING) {
+    throw {
+      code: 409,
+      error: new Error('This artwork is not awaiting review')
+    };
+  }
+};
+
 /**
  * Approve an artwork
  */
@@ -291,10 +579,15 @@ export const approveArtwork = async (id: string, user: User, io?: any) => {
       throw new Error('Artwork not found');
     }
     
+    assertAwaitingReview(artwork);
+    await assertNotClaimedByOthers(artwork, user);
+    
     // Update artwork status
     artwork.status = ArtworkStatus.APPROVED;
     await artworkRepository.save(artwork);
     
+    await closeReviewRound(artwork, user, ReviewDecision.APPROVED);
+    
     // Create notification for the artist
     await notifyArtworkApproval(
       artwork.id,
@@ -312,6 +605,8 @@ export const approveArtwork = async (id: string, user: User, io?: any) => {
       });
     }
     
+    emitQueueUpdate(io, artwork.id, 'removed');
+    
     return { success: true, message: 'Artwork approved successfully' };
   } catch (error) {
     logger.error('Approve artwork error:', error);
@@ -322,7 +617,13 @@ export const approveArtwork = async (id: string, user: User, io?: any) => {
 /**
  * Reject an artwork
  */
-export const rejectArtwork = async (id: string, user: User, io?: any) => {
+export const rejectArtwork = async (
+  id: string,
+  user: User,
+  reasonCategory: RejectionReason,
+  reason?: string,
+  io?: any
+) => {
   try {
     if (user.role !== UserRole.CURATOR && user.role !== UserRole.ADMIN) {
       throw new Error('Only curators and admins can reject artworks');
@@ -338,16 +639,30 @@ export const rejectArtwork = async (id: string, user: User, io?: any) => {
       throw new Error('Artwork not found');
     }
     
+    assertAwaitingReview(artwork);
+    await assertNotClaimedByOthers(artwork, user);
+    
+    if (reasonCategory === RejectionReason.OTHER && !reason?.trim()) {
+      throw {
+        code: 400,
+        error: new Error('Please describe the reason for rejecting this artwork')
+      };
+    }
+    
     // Update artwork status
     artwork.status = ArtworkStatus.REJECTED;
     await artworkRepository.save(artwork);
     
+    const review = await closeReviewRound(artwork, user, ReviewDecision.REJECTED, reasonCategory, reason);
+    const rejectionMessage = describeRejection(reasonCategory, reason);
+    
     // Create notification for the artist
-    await notifyArtworkApproval(
+    await notifyArtworkRejection(
       artwork.id,
       artwork.title,
       artwork.artistId,
-      user.username
+      user.id,
+      rejectionMessage
     );
     
     // Emit socket event for real-time notification
@@ -355,10 +670,15 @@ export const rejectArtwork = async (id: string, user: User, io?: any) => {
       io.to(artwork.artistId).emit('artwork-rejected', {
         id: artwork.id,
         title: artwork.title,
-        curatorName: user.username
+        curatorName: user.username,
+        reasonCategory,
+        reason: rejectionMessage,
+        round: review.round
       });
     }
     
+    emitQueueUpdate(io, artwork.id, 'removed');
+    
     return { success: true, message: 'Artwork rejected successfully' };
   } catch (error) {
     logger.error('Reject artwork error:', error);
@@ -366,6 +686,79 @@ export const rejectArtwork = async (id: string, user: User, io?: any) => {
   }
 };
 
+/**
+ * Revise a rejected artwork and send it back for another review round
+ */
+export const resubmitArtwork = async (
+  id: string,
+  user: User,
+  updates: ArtworkUpdates,
+  note?: string,
+  image?: ArtworkImageUpload,
+  io?: any
+) => {
+  try {
+    const artworkRepository = AppDataSource.getRepository(Artwork);
+    const artwork = await artworkRepository.findOne({
+      where: { id },
+      relations: ['artist']
+    });
+    
+    if (!artwork) {
+      throw new Error('Artwork not found');
+    }
+    
+    if (artwork.artistId !== user.id) {
+      throw {
+        code: 403,
+        error: new Error('Only the artist can resubmit this artwork')
+      };
+    }
+    
+    if (artwork.status !== ArtworkStatus.REJECTED) {
+      throw {
+        code: 409,
+        error: new Error('Only rejected artworks can be resubmitted')
+      };
+    }
+    
+    const imageReplaced = await applyArtworkUpdates(artwork, user, updates, image);
+    artwork.status = ArtworkStatus.PENDING;
+    
+    const savedArtwork = await artworkRepository.save(artwork);
+    if (imageReplaced) {
+      await queueImageProcessing(savedArtwork);
+    }
+    const review = await openReviewRound(savedArtwork, note?.trim());
+    
+    // Let curators know it is back in the queue
+    await notifyArtworkResubmission(
+      savedArtwork.id,
+      savedArtwork.title,
+      user.id,
+      user.username,
+      review.round
+    );
+    
+    if (io) {
+      io.to(`role:${UserRole.CURATOR}`).to(`role:${UserRole.ADMIN}`).emit('artwork-resubmitted', {
+        id: savedArtwork.id,
+        title: savedArtwork.title,
+        artist: user.username,
+        artistId: user.id,
+        round: review.round
+      });
+    }
+    
+    emitQueueUpdate(io, savedArtwork.id, 'added');
+    
+    return savedArtwork;
+  } catch (error) {
+    logger.error('Resubmit artwork error:', error);
+    throw error;
+  }
+};
+
 export const getArtworkInfoById = async (id: string) => {
   try {
     const artworkRepository = AppDataSource.getRepository(Artwork);
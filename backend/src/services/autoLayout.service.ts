@@ -0,0 +1,252 @@
+import { Artwork } from '../entities/Artwork';
+import { PlacementPosition } from '../entities/ArtworkPlacement';
+import { DEFAULT_ARTWORK_DIMENSIONS, MIN_ARTWORK_SPACING, WallBounds } from './layoutValidation.service';
+
+// Height of an artwork's centre above the floor when hung at eye level, in metres
+const EYE_LINE_HEIGHT = 1.5;
+
+// Kept free beyond the minimum spacing and the wall's edges, so rounding the
+// proposed coordinates never brings an artwork too close
+const CLEARANCE = 0.005;
+
+// Gaps between groups are this many times wider than gaps inside a group
+const GROUP_GAP_WEIGHT = 3;
+
+export enum AutoLayoutStrategy {
+  // One row centred on the eye line
+  EYE_LINE = 'eye_line',
+  // Rows packed tightly above and below the eye line
+  SALON = 'salon',
+  // One row on the eye line with the artworks grouped together
+  GROUPED = 'grouped'
+}
+
+export enum AutoLayoutGrouping {
+  CATEGORY = 'category',
+  ARTIST = 'artist'
+}
+
+export interface AutoLayoutOptions {
+  strategy: AutoLayoutStrategy;
+  // Only used by the grouped strategy; defaults to category
+  groupBy?: AutoLayoutGrouping;
+}
+
+export type LayoutArtwork = Pick<Artwork, 'id' | 'title' | 'category' | 'artistId' | 'width' | 'height' | 'depth'> & {
+  artist?: { username: string } | null;
+};
+
+export interface ProposedPlacement {
+  artworkId: string;
+  position: PlacementPosition;
+  coordinates: { x: number; y: number; z: number };
+}
+
+export interface UnplacedArtwork {
+  artworkId: string;
+  reason: string;
+}
+
+export interface AutoLayoutResult {
+  placements: ProposedPlacement[];
+  unplaced: UnplacedArtwork[];
+}
+
+interface SizedArtwork {
+  artwork: LayoutArtwork;
+  width: number;
+  height: number;
+  depth: number;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const measure = (artwork: LayoutArtwork): SizedArtwork => ({
+  artwork,
+  width: artwork.width ?? DEFAULT_ARTWORK_DIMENSIONS.width,
+  height: artwork.height ?? DEFAULT_ARTWORK_DIMENSIONS.height,
+  depth: artwork.depth ?? DEFAULT_ARTWORK_DIMENSIONS.depth
+});
+
+// Centre height for an artwork hung on the eye line, lowered or raised to stay on the wall
+const eyeLineCentre = (height: number, wall: WallBounds) =>
+  clamp(EYE_LINE_HEIGHT, height / 2 + CLEARANCE, wall.height - height / 2 - CLEARANCE);
+
+const place = (item: SizedArtwork, x: number, y: number): ProposedPlacement => ({
+  artworkId: item.artwork.id,
+  position: PlacementPosition.CUSTOM,
+  coordinates: { x: round(x), y: round(y), z: 0 }
+});
+
+const getGroupKey = (artwork: LayoutArtwork, groupBy: AutoLayoutGrouping) =>
+  groupBy === AutoLayoutGrouping.ARTIST ? artwork.artist?.username || artwork.artistId : artwork.category;
+
+/**
+ * Share the wall's spare width between the gaps of a row. Returns the centre
+ * of each artwork across the wall, or null when the row doesn't fit.
+ * @param groupStarts Whether each artwork starts a new group
+ */
+const spreadRow = (items: SizedArtwork[], wallWidth: number, groupStarts: boolean[]) => {
+  const gapWeights = items.slice(1).map((_item, i) => (groupStarts[i + 1] ? GROUP_GAP_WEIGHT : 1));
+  // The two ends of the row count as ordinary gaps
+  const totalWeight = gapWeights.reduce((sum, weight) => sum + weight, 2);
+  const usedWidth = items.reduce((sum, item) => sum + item.width, 0);
+  const gap = (wallWidth - usedWidth) / totalWeight;
+
+  if (gap < MIN_ARTWORK_SPACING + CLEARANCE) return null;
+
+  const centres: number[] = [];
+  let left = gap;
+  items.forEach((item, i) => {
+    if (i > 0) left += gap * gapWeights[i - 1];
+    centres.push(left + item.width / 2);
+    left += item.width;
+  });
+
+  return centres;
+};
+
+/**
+ * Hang artworks in one row on the eye line, leaving off the last ones
+ * while the row is too wide for the wall
+ */
+const layoutRow = (items: SizedArtwork[], wall: WallBounds, groupStarts: boolean[]): AutoLayoutResult => {
+  for (let count = items.length; count > 0; count--) {
+    const row = items.slice(0, count);
+    const centres = spreadRow(row, wall.width, groupStarts.slice(0, count));
+    if (!centres) continue;
+
+    return {
+      placements: row.map((item, i) =>
+        place(item, centres[i], eyeLineCentre(item.height, wall))
+      ),
+      unplaced: items.slice(count).map(item => ({
+        artworkId: item.artwork.id,
+        reason: `No room left on the wall for "${item.artwork.title}" in a single row`
+      }))
+    };
+  }
+
+  return {
+    placements: [],
+    unplaced: items.map(item => ({
+      artworkId: item.artwork.id,
+      reason: `No room left on the wall for "${item.artwork.title}"`
+    }))
+  };
+};
+
+/**
+ * Pack artworks salon-style: tallest first into rows across the wall, then
+ * stack the rows as a block centred on the eye line
+ */
+const layoutSalon = (items: SizedArtwork[], wall: WallBounds): AutoLayoutResult => {
+  const spacing = MIN_ARTWORK_SPACING + CLEARANCE;
+  const sorted = [...items].sort((a, b) => b.height - a.height);
+  const rows: SizedArtwork[][] = [];
+  const rowWidth = (row: SizedArtwork[]) =>
+    row.reduce((sum, item) => sum + item.width, 0) + (row.length + 1) * spacing;
+
+  sorted.forEach(item => {
+    const row = rows[rows.length - 1];
+    if (row && rowWidth([...row, item]) <= wall.width) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  });
+
+  const rowHeight = (row: SizedArtwork[]) => Math.max(...row.map(item => item.height));
+  const blockHeight = (stack: SizedArtwork[][]) =>
+    stack.reduce((sum, row) => sum + rowHeight(row), 0) + (stack.length - 1) * spacing;
+
+  // Drop the rows of smallest artworks until the block fits the wall's height
+  const unplacedRows: SizedArtwork[][] = [];
+  while (rows.length > 0 && blockHeight(rows) > wall.height - 2 * CLEARANCE) {
+    const row = rows.pop();
+    if (row) unplacedRows.unshift(row);
+  }
+
+  const placements: ProposedPlacement[] = [];
+  if (rows.length > 0) {
+    const height = blockHeight(rows);
+    let top = eyeLineCentre(height, wall) + height / 2;
+
+    rows.forEach(row => {
+      const centreY = top - rowHeight(row) / 2;
+      let left = (wall.width - rowWidth(row)) / 2 + spacing;
+
+      row.forEach(item => {
+        placements.push(place(item, left + item.width / 2, centreY));
+        left += item.width + spacing;
+      });
+
+      top -= rowHeight(row) + spacing;
+    });
+  }
+
+  return {
+    placements,
+    unplaced: unplacedRows.flat().map(item => ({
+      artworkId: item.artwork.id,
+      reason: `No room left on the wall for "${item.artwork.title}"`
+    }))
+  };
+};
+
+/**
+ * Propose where to hang a set of artworks on a wall. Every placement uses
+ * custom coordinates, and the result keeps to the wall's size and the
+ * minimum spacing so it passes layout validation as proposed.
+ * @param wall The wall's dimensions
+ * @param artworks The artworks to hang, in the curator's order
+ * @param options Strategy and grouping
+ * @returns The proposed placements and the artworks that could not be hung
+ */
+export const generateWallLayout = (
+  wall: WallBounds,
+  artworks: LayoutArtwork[],
+  options: AutoLayoutOptions
+): AutoLayoutResult => {
+  const unplaced: UnplacedArtwork[] = [];
+  const items: SizedArtwork[] = [];
+
+  artworks.map(measure).forEach(item => {
+    if (item.width + 2 * (MIN_ARTWORK_SPACING + CLEARANCE) > wall.width || item.height + 2 * CLEARANCE > wall.height) {
+      unplaced.push({ artworkId: item.artwork.id, reason: `"${item.artwork.title}" is larger than the wall` });
+    } else if (item.depth > wall.depth) {
+      unplaced.push({ artworkId: item.artwork.id, reason: `"${item.artwork.title}" stands out further than the wall allows` });
+    } else {
+      items.push(item);
+    }
+  });
+
+  let result: AutoLayoutResult;
+
+  switch (options.strategy) {
+    case AutoLayoutStrategy.SALON:
+      result = layoutSalon(items, wall);
+      break;
+    case AutoLayoutStrategy.GROUPED: {
+      const groupBy = options.groupBy || AutoLayoutGrouping.CATEGORY;
+      // Stable sort keeps the curator's order inside each group
+      const grouped = [...items].sort((a, b) =>
+        getGroupKey(a.artwork, groupBy).localeCompare(getGroupKey(b.artwork, groupBy))
+      );
+      const groupStarts = grouped.map((item, i) =>
+        i > 0 && getGroupKey(item.artwork, groupBy) !== getGroupKey(grouped[i - 1].artwork, groupBy)
+      );
+      result = layoutRow(grouped, wall, groupStarts);
+      break;
+    }
+    default:
+      result = layoutRow(items, wall, items.map(() => false));
+  }
+
+  return {
+    placements: result.placements,
+    unplaced: [...unplaced, ...result.unplaced]
+  };
+};
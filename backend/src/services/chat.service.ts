@@ -0,0 +1,549 @@
+import { LessThan } from 'typeorm';
+import { Server, Socket } from 'socket.io';
+import { validate as isUuid } from 'uuid';
+import { AppDataSource } from '../config/database';
+import { ChatMessage } from '../entities/ChatMessage';
+import { ChatMute } from '../entities/ChatMute';
+import { Exhibition } from '../entities/Exhibition';
+import { User, UserRole } from '../entities/User';
+import { assertCanManageExhibition, assertCanViewExhibition, findExhibitionOrFail } from './exhibition.service';
+import { logger } from '../utils/logger';
+
+const MAX_MESSAGE_LENGTH = 500;
+const MAX_SLOW_MODE_SECONDS = 600;
+// Everyone, moderators included, may send this many messages per window
+const RATE_LIMIT = Number(process.env.CHAT_RATE_LIMIT || 5);
+const RATE_WINDOW_MS = Number(process.env.CHAT_RATE_WINDOW_SECONDS || 10) * 1000;
+
+// Masked in messages, along with their plurals and -ing/-ed forms. CHAT_BLOCKED_WORDS adds to the list.
+const DEFAULT_BLOCKED_WORDS = [
+  'asshole', 'bastard', 'bitch', 'bollocks', 'bullshit', 'cock', 'cunt', 'dick', 'fuck', 'motherfucker',
+  'piss', 'prick', 'shit', 'shitty', 'slut', 'twat', 'wanker', 'whore'
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const BLOCKED_WORDS = [
+  ...DEFAULT_BLOCKED_WORDS,
+  ...(process.env.CHAT_BLOCKED_WORDS || '').split(',').map(word => word.trim().toLowerCase()).filter(Boolean)
+];
+const PROFANITY_PATTERN = new RegExp(`\\b(?:${BLOCKED_WORDS.map(escapeRegExp).join('|')})(?:s|es|ed|er|ers|ing|in)?\\b`, 'gi');
+
+// Addresses with a scheme or www, and bare domains on common top-level domains
+const LINK_PATTERN = /(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|co|info|biz|xyz|ru|me|ly|gg|app|dev|link|site|online|shop|tk)\b/i;
+
+export interface ChatMessageResponse {
+  id: string;
+  exhibitionId: string;
+  userId: string | null;
+  user: Pick<User, 'id' | 'username' | 'profileUrl' | 'role'> | null;
+  content: string;
+  isDeleted: boolean;
+  createdAt: Date;
+}
+
+export interface ChatMuteResponse {
+  exhibitionId: string;
+  userId: string;
+  username: string | null;
+  mutedById: string | null;
+  until: Date | null;
+  createdAt: Date;
+}
+
+// What chat:join answers with
+interface ChatJoinResult {
+  ok: boolean;
+  error?: string;
+  slowModeSeconds?: number;
+  canPost?: boolean;
+  canModerate?: boolean;
+  mute?: { until: Date | null } | null;
+}
+
+// What chat:send answers with
+interface ChatSendResult {
+  ok: boolean;
+  error?: string;
+  message?: ChatMessageResponse;
+}
+
+// Recent send times per user, for the rate limit
+const recentSends = new Map<string, number[]>();
+
+const chatRoom = (exhibitionId: string) => `chat:${exhibitionId}`;
+
+/**
+ * An exhibition's chat is moderated by its curator and by admins
+ */
+const canModerate = (user: User | null | undefined, exhibition: Exhibition) =>
+  user?.role === UserRole.ADMIN || (user?.role === UserRole.CURATOR && exhibition.curatorId === user.id);
+
+/**
+ * The message of a service error, for socket acknowledgements
+ */
+const errorMessage = (error: unknown, fallback: string) => {
+  const wrapped = (error as { error?: unknown } | null)?.error;
+  return wrapped instanceof Error ? wrapped.message : fallback;
+};
+
+/**
+ * Look up the socket's user, whom the handshake verified
+ */
+const findSocketUser = async (socket: Socket) => {
+  const userId = socket.data?.userId;
+  return userId ? AppDataSource.getRepository(User).findOne({ where: { id: userId } }) : null;
+};
+
+/**
+ * Shape a message for the API, without the content or author of deleted messages
+ */
+const toChatMessageResponse = (message: ChatMessage): ChatMessageResponse => ({
+  id: message.id,
+  exhibitionId: message.exhibitionId,
+  userId: message.isDeleted ? null : message.userId,
+  user: message.isDeleted || !message.user ? null : {
+    id: message.user.id,
+    username: message.user.username,
+    profileUrl: message.user.profileUrl,
+    role: message.user.role
+  },
+  content: message.isDeleted ? '' : message.content,
+  isDeleted: message.isDeleted,
+  createdAt: message.createdAt
+});
+
+const toChatMuteResponse = (mute: ChatMute): ChatMuteResponse => ({
+  exhibitionId: mute.exhibitionId,
+  userId: mute.userId,
+  username: mute.user?.username ?? null,
+  mutedById: mute.mutedById,
+  until: mute.until,
+  createdAt: mute.createdAt
+});
+
+/**
+ * Mask blocked words with asterisks
+ */
+const maskProfanity = (content: string) =>
+  content.replace(PROFANITY_PATTERN, word => '*'.repeat(word.length));
+
+/**
+ * Find a user's mute in an exhibition's chat, clearing it once it has run out
+ */
+const findActiveMute = async (exhibitionId: string, userId: string) => {
+  const mutes = AppDataSource.getRepository(ChatMute);
+  const mute = await mutes.findOne({ where: { exhibitionId, userId } });
+
+  if (mute?.until && mute.until.getTime() <= Date.now()) {
+    await mutes.remove(mute);
+    return null;
+  }
+
+  return mute;
+};
+
+/**
+ * Throw a 429 when a user has sent RATE_LIMIT messages within the window,
+ * otherwise count this send. Counting it straight away keeps messages sent
+ * side by side from all getting through while the first is saved.
+ */
+const assertWithinRateLimit = (userId: string, now: number) => {
+  const sends = (recentSends.get(userId) || []).filter(sentAt => now - sentAt < RATE_WINDOW_MS);
+
+  if (sends.length >= RATE_LIMIT) {
+    recentSends.set(userId, sends);
+    throw {
+      code: 429,
+      error: new Error('You are sending messages too quickly')
+    };
+  }
+
+  recentSends.set(userId, [...sends, now]);
+};
+
+/**
+ * Forget users who have sent nothing within the rate limit window
+ */
+const pruneRecentSends = (now: number) => {
+  recentSends.forEach((sends, userId) => {
+    if (sends.every(sentAt => now - sentAt >= RATE_WINDOW_MS)) {
+      recentSends.delete(userId);
+    }
+  });
+};
+
+/**
+ * Throw a 429 while slow mode still has the user waiting since their last message
+ */
+const assertSlowModeElapsed = async (exhibition: Exhibition, userId: string, now: number) => {
+  if (exhibition.chatSlowModeSeconds <= 0) return;
+
+  const last = await AppDataSource.getRepository(ChatMessage).findOne({
+    where: { exhibitionId: exhibition.id, userId },
+    order: { createdAt: 'DESC' }
+  });
+  if (!last) return;
+
+  const waitSeconds = Math.ceil((last.createdAt.getTime() + exhibition.chatSlowModeSeconds * 1000 - now) / 1000);
+  if (waitSeconds > 0) {
+    throw {
+      code: 429,
+      error: new Error(`Slow mode is on: wait ${waitSeconds}s before sending another message`)
+    };
+  }
+};
+
+/**
+ * Get a page of an exhibition's chat history, oldest first
+ * @param exhibitionId Exhibition ID
+ * @param viewer The user reading, if signed in
+ * @param before Only messages sent before this time
+ * @param limit Most messages to return
+ */
+export const getChatHistory = async (
+  exhibitionId: string,
+  viewer: User | undefined,
+  before?: string,
+  limit = 50
+) => {
+  try {
+    const exhibition = await findExhibitionOrFail(exhibitionId);
+    assertCanViewExhibition(exhibition, viewer);
+
+    const messages = await AppDataSource.getRepository(ChatMessage).find({
+      where: {
+        exhibitionId,
+        ...(before && { createdAt: LessThan(new Date(before)) })
+      },
+      relations: ['user'],
+      order: { createdAt: 'DESC' },
+      take: limit + 1
+    });
+
+    return {
+      messages: messages.slice(0, limit).reverse().map(toChatMessageResponse),
+      hasMore: messages.length > limit,
+      slowModeSeconds: exhibition.chatSlowModeSeconds
+    };
+  } catch (error) {
+    logger.error('Get chat history error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Post a message to an exhibition's chat. Links are refused from visitors and
+ * blocked words are masked.
+ * @param user The author
+ * @param exhibitionId Exhibition ID
+ * @param rawContent The message as typed
+ * @param io Socket.io server, to send the message to the chat
+ */
+export const sendChatMessage = async (user: User, exhibitionId: string, rawContent: string, io?: any) => {
+  try {
+    const exhibition = await findExhibitionOrFail(exhibitionId);
+    assertCanViewExhibition(exhibition, user);
+
+    const content = typeof rawContent === 'string' ? rawContent.trim() : '';
+    if (!content || content.length > MAX_MESSAGE_LENGTH) {
+      throw {
+        code: 400,
+        error: new Error(`Messages must be 1 to ${MAX_MESSAGE_LENGTH} characters`)
+      };
+    }
+
+    if (!canModerate(user, exhibition) && LINK_PATTERN.test(content)) {
+      throw {
+        code: 400,
+        error: new Error('Links are not allowed in chat')
+      };
+    }
+
+    const mute = await findActiveMute(exhibitionId, user.id);
+    if (mute) {
+      throw {
+        code: 403,
+        error: new Error(mute.until
+          ? `You are muted in this chat until ${mute.until.toISOString()}`
+          : 'You are muted in this chat')
+      };
+    }
+
+    const now = Date.now();
+    assertWithinRateLimit(user.id, now);
+    if (!canModerate(user, exhibition)) {
+      await assertSlowModeElapsed(exhibition, user.id, now);
+    }
+
+    const messages = AppDataSource.getRepository(ChatMessage);
+    const saved = await messages.save(messages.create({
+      exhibitionId,
+      userId: user.id,
+      content: maskProfanity(content)
+    }));
+
+    const response = toChatMessageResponse({ ...saved, user });
+    if (io) {
+      io.to(chatRoom(exhibitionId)).emit('chat:message', response);
+    }
+
+    return response;
+  } catch (error) {
+    logger.error('Send chat message error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a chat message. Authors can delete their own; the exhibition's moderators any.
+ * @param user The user deleting
+ * @param exhibitionId Exhibition ID
+ * @param messageId Message ID
+ * @param io Socket.io server, to take the message out of the chat
+ */
+export const deleteChatMessage = async (user: User, exhibitionId: string, messageId: string, io?: any) => {
+  try {
+    const exhibition = await findExhibitionOrFail(exhibitionId);
+
+    const messages = AppDataSource.getRepository(ChatMessage);
+    const message = await messages.findOne({ where: { id: messageId, exhibitionId } });
+
+    if (!message || message.isDeleted) {
+      throw {
+        code: 404,
+        error: new Error('Message not found')
+      };
+    }
+
+    if (message.userId !== user.id && !canModerate(user, exhibition)) {
+      throw {
+        code: 403,
+        error: new Error('You can only delete your own messages')
+      };
+    }
+
+    message.isDeleted = true;
+    message.deletedById = user.id;
+    message.deletedAt = new Date();
+    await messages.save(message);
+
+    if (io) {
+      io.to(chatRoom(exhibitionId)).emit('chat:deleted', { exhibitionId, messageId });
+    }
+
+    return { message: 'Message deleted' };
+  } catch (error) {
+    logger.error('Delete chat message error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the visitors currently muted in an exhibition's chat
+ * @param user The exhibition's curator or an admin
+ * @param exhibitionId Exhibition ID
+ */
+export const getChatMutes = async (user: User, exhibitionId: string) => {
+  try {
+    const exhibition = await findExhibitionOrFail(exhibitionId);
+    assertCanManageExhibition(user, exhibition);
+
+    const mutes = await AppDataSource.getRepository(ChatMute).find({
+      where: { exhibitionId },
+      relations: ['user'],
+      order: { createdAt: 'DESC' }
+    });
+
+    return mutes
+      .filter(mute => !mute.until || mute.until.getTime() > Date.now())
+      .map(toChatMuteResponse);
+  } catch (error) {
+    logger.error('Get chat mutes error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Stop a visitor posting in an exhibition's chat
+ * @param moderator The exhibition's curator or an admin
+ * @param exhibitionId Exhibition ID
+ * @param userId The visitor to mute
+ * @param minutes How long for; null until the mute is lifted
+ * @param io Socket.io server, to tell the visitor
+ */
+export const muteChatUser = async (
+  moderator: User,
+  exhibitionId: string,
+  userId: string,
+  minutes: number | null,
+  io?: any
+) => {
+  try {
+    const exhibition = await findExhibitionOrFail(exhibitionId);
+    assertCanManageExhibition(moderator, exhibition);
+
+    const target = await AppDataSource.getRepository(User).findOne({ where: { id: userId } });
+    if (!target) {
+      throw {
+        code: 404,
+        error: new Error('User not found')
+      };
+    }
+    if (canModerate(target, exhibition)) {
+      throw {
+        code: 400,
+        error: new Error('The exhibition\'s curator and admins cannot be muted')
+      };
+    }
+
+    const mutes = AppDataSource.getRepository(ChatMute);
+    const mute = (await mutes.findOne({ where: { exhibitionId, userId } })) || mutes.create({ exhibitionId, userId });
+    mute.mutedById = moderator.id;
+    mute.until = minutes ? new Date(Date.now() + minutes * 60 * 1000) : null;
+    const saved = await mutes.save(mute);
+
+    if (io) {
+      io.to(userId).emit('chat:muted', { exhibitionId, muted: true, until: saved.until });
+    }
+
+    logger.info(`${moderator.username} muted ${target.username} in the chat of exhibition ${exhibitionId}`);
+    return toChatMuteResponse({ ...saved, user: target });
+  } catch (error) {
+    logger.error('Mute chat user error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Let a muted visitor post again
+ * @param user The exhibition's curator or an admin
+ * @param exhibitionId Exhibition ID
+ * @param userId The muted visitor
+ * @param io Socket.io server, to tell the visitor
+ */
+export const unmuteChatUser = async (user: User, exhibitionId: string, userId: string, io?: any) => {
+  try {
+    const exhibition = await findExhibitionOrFail(exhibitionId);
+    assertCanManageExhibition(user, exhibition);
+
+    const mutes = AppDataSource.getRepository(ChatMute);
+    const mute = await mutes.findOne({ where: { exhibitionId, userId } });
+
+    if (!mute) {
+      throw {
+        code: 404,
+        error: new Error('User is not muted')
+      };
+    }
+
+    await mutes.remove(mute);
+
+    if (io) {
+      io.to(userId).emit('chat:muted', { exhibitionId, muted: false, until: null });
+    }
+
+    return { message: 'User unmuted' };
+  } catch (error) {
+    logger.error('Unmute chat user error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Turn slow mode on or off for an exhibition's chat
+ * @param user The exhibition's curator or an admin
+ * @param exhibitionId Exhibition ID
+ * @param seconds Seconds between each visitor's messages; 0 turns it off
+ * @param io Socket.io server, to tell everyone in the chat
+ */
+export const setChatSlowMode = async (user: User, exhibitionId: string, seconds: number, io?: any) => {
+  try {
+    const exhibition = await findExhibitionOrFail(exhibitionId);
+    assertCanManageExhibition(user, exhibition);
+    exhibition.chatSlowModeSeconds = Math.min(Math.max(0, Math.round(seconds)), MAX_SLOW_MODE_SECONDS);
+    await AppDataSource.getRepository(Exhibition).update(exhibition.id, {
+      chatSlowModeSeconds: exhibition.chatSlowModeSeconds
+    });
+
+    const settings = { exhibitionId, slowModeSeconds: exhibition.chatSlowModeSeconds };
+    if (io) {
+      io.to(chatRoom(exhibitionId)).emit('chat:settings', settings);
+    }
+
+    return settings;
+  } catch (error) {
+    logger.error('Set chat slow mode error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Wire up exhibition chat on a socket. Anyone who can see the exhibition can
+ * read along; signed-in visitors can post.
+ * @param io Socket.io server
+ * @param socket The connecting socket
+ */
+export const registerExhibitionChat = (io: Server, socket: Socket) => {
+  const joinedChats = new Set<string>();
+
+  socket.on('chat:join', async (exhibitionId: string, callback?: (result: ChatJoinResult) => void) => {
+    const respond = typeof callback === 'function' ? callback : () => undefined;
+    try {
+      if (typeof exhibitionId !== 'string' || !isUuid(exhibitionId)) {
+        respond({ ok: false, error: 'Exhibition not found' });
+        return;
+      }
+
+      const user = await findSocketUser(socket);
+
+      const exhibition = await findExhibitionOrFail(exhibitionId);
+      assertCanViewExhibition(exhibition, user || undefined);
+
+      joinedChats.add(exhibitionId);
+      socket.join(chatRoom(exhibitionId));
+
+      const mute = user ? await findActiveMute(exhibitionId, user.id) : null;
+      respond({
+        ok: true,
+        slowModeSeconds: exhibition.chatSlowModeSeconds,
+        canPost: Boolean(user),
+        canModerate: canModerate(user, exhibition),
+        mute: mute ? { until: mute.until } : null
+      });
+    } catch (error) {
+      logger.error('Join chat error:', error);
+      respond({ ok: false, error: errorMessage(error, 'Failed to join the chat') });
+    }
+  });
+
+  socket.on('chat:leave', (exhibitionId: string) => {
+    if (!joinedChats.delete(exhibitionId)) return;
+    socket.leave(chatRoom(exhibitionId));
+  });
+
+  socket.on('chat:send', async (data: { exhibitionId: string; content: string }, callback?: (result: ChatSendResult) => void) => {
+    const respond = typeof callback === 'function' ? callback : () => undefined;
+    try {
+      if (!joinedChats.has(data?.exhibitionId)) {
+        respond({ ok: false, error: 'Join the chat first' });
+        return;
+      }
+
+      const user = await findSocketUser(socket);
+      if (!user) {
+        respond({ ok: false, error: 'Sign in to chat' });
+        return;
+      }
+
+      const message = await sendChatMessage(user, data.exhibitionId, data.content, io);
+      respond({ ok: true, message });
+    } catch (error) {
+      respond({ ok: false, error: errorMessage(error, 'Failed to send the message') });
+    }
+  });
+
+  socket.on('disconnect', () => {
+    pruneRecentSends(Date.now());
+  });
+};
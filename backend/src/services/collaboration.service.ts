@@ -0,0 +1,342 @@
+import { Server, Socket } from 'socket.io';
+import { AppDataSource } from '../config/database';
+import { Exhibition } from '../entities/Exhibition';
+import { Wall } from '../entities/Wall';
+import { PlacementPosition } from '../entities/ArtworkPlacement';
+import { User, UserRole } from '../entities/User';
+import { logger } from '../utils/logger';
+
+// A lock left behind by a client that stopped renewing it is dropped after this long
+const PLACEMENT_LOCK_TTL_MS = Number(process.env.LAYOUT_LOCK_SECONDS || 60) * 1000;
+
+export interface LayoutEditor {
+  socketId: string;
+  userId: string;
+  username: string;
+  // The wall the curator has open in the editor
+  wallId: string | null;
+}
+
+export interface PlacementLock {
+  exhibitionId: string;
+  wallId: string;
+  position: PlacementPosition;
+  socketId: string;
+  userId: string;
+  username: string;
+  expiresAt: Date;
+}
+
+interface LayoutDragPreview {
+  exhibitionId: string;
+  wallId: string | null;
+  // Cleared when the drag ends
+  artworkId: string | null;
+  artworkTitle?: string | null;
+  // The slot the artwork is currently held over
+  position: PlacementPosition | null;
+}
+
+// Who is editing and which slots they hold live in this process's memory, so
+// curators only see each other when served by the same API server. Run a
+// single API server (see "Live Collaboration" in the README).
+
+// Curators with each exhibition's layout editor open, keyed by socket
+const editorsByExhibition = new Map<string, Map<string, LayoutEditor>>();
+
+// Slots being worked on, keyed by `${wallId}:${position}`
+const placementLocks = new Map<string, PlacementLock>();
+
+// The exhibition each wall belongs to; a wall never moves to another one
+const wallExhibitions = new Map<string, string>();
+
+const layoutRoom = (exhibitionId: string) => `layout:${exhibitionId}`;
+
+const lockKey = (wallId: string, position: string) => `${wallId}:${position}`;
+
+const getActiveLock = (wallId: string, position: string) => {
+  const lock = placementLocks.get(lockKey(wallId, position));
+
+  if (lock && lock.expiresAt.getTime() <= Date.now()) {
+    placementLocks.delete(lockKey(wallId, position));
+    return undefined;
+  }
+
+  return lock;
+};
+
+const getExhibitionLocks = (exhibitionId: string) =>
+  [...placementLocks.values()].filter(lock =>
+    lock.exhibitionId === exhibitionId && getActiveLock(lock.wallId, lock.position)
+  );
+
+const emitPresence = (io: Server, exhibitionId: string) => {
+  const editors = editorsByExhibition.get(exhibitionId);
+
+  io.to(layoutRoom(exhibitionId)).emit('layout:presence', {
+    exhibitionId,
+    editors: editors ? [...editors.values()] : []
+  });
+};
+
+const emitLocks = (io: Server, exhibitionId: string) => {
+  io.to(layoutRoom(exhibitionId)).emit('layout:locks', {
+    exhibitionId,
+    locks: getExhibitionLocks(exhibitionId)
+  });
+};
+
+/**
+ * Drop a socket from an exhibition's editors along with any locks it holds
+ */
+const removeEditor = (io: Server, socket: Socket, exhibitionId: string) => {
+  const editors = editorsByExhibition.get(exhibitionId);
+  if (!editors?.delete(socket.id)) return;
+
+  if (editors.size === 0) {
+    editorsByExhibition.delete(exhibitionId);
+  }
+
+  let releasedLocks = false;
+  placementLocks.forEach((lock, key) => {
+    if (lock.socketId === socket.id && lock.exhibitionId === exhibitionId) {
+      placementLocks.delete(key);
+      releasedLocks = true;
+    }
+  });
+
+  socket.leave(layoutRoom(exhibitionId));
+
+  // Clear any drag preview the curator left on the other screens
+  socket.to(layoutRoom(exhibitionId)).emit('layout:drag', {
+    exhibitionId,
+    socketId: socket.id,
+    userId: socket.data.userId,
+    wallId: null,
+    artworkId: null,
+    artworkTitle: null,
+    position: null
+  });
+
+  emitPresence(io, exhibitionId);
+  if (releasedLocks) {
+    emitLocks(io, exhibitionId);
+  }
+};
+
+/**
+ * Check a wall is part of an exhibition, remembering the answer for walls that exist
+ */
+const isExhibitionWall = async (wallId: string, exhibitionId: string) => {
+  if (!wallExhibitions.has(wallId)) {
+    const wall = await AppDataSource.getRepository(Wall).findOne({
+      where: { id: wallId },
+      select: { id: true, exhibitionId: true }
+    });
+    if (!wall) return false;
+    wallExhibitions.set(wall.id, wall.exhibitionId);
+  }
+
+  return wallExhibitions.get(wallId) === exhibitionId;
+};
+
+/**
+ * Look up the socket's user and check they may edit the exhibition's layout.
+ * The handshake verified who the socket's user is.
+ */
+const findLayoutEditor = async (socket: Socket, exhibitionId: string) => {
+  const userId = socket.data?.userId;
+  if (!userId) return null;
+
+  const user = await AppDataSource.getRepository(User).findOne({ where: { id: userId } });
+  if (!user || (user.role !== UserRole.CURATOR && user.role !== UserRole.ADMIN)) {
+    return null;
+  }
+
+  const exhibition = await AppDataSource.getRepository(Exhibition).findOne({ where: { id: exhibitionId } });
+  if (!exhibition || (user.role !== UserRole.ADMIN && exhibition.curatorId !== user.id)) {
+    return null;
+  }
+
+  return user;
+};
+
+/**
+ * Refuse a layout save that changes a slot another curator is working on
+ * @param userId The curator saving the layout
+ * @param wallId Wall being saved
+ * @param positions Slots the save changes
+ */
+export const assertPlacementsUnlocked = (userId: string, wallId: string, positions: string[]) => {
+  for (const position of positions) {
+    const lock = getActiveLock(wallId, position);
+
+    if (lock && lock.userId !== userId) {
+      throw {
+        code: 409,
+        error: new Error(`${lock.username} is working on the ${position} slot of this wall`)
+      };
+    }
+  }
+};
+
+/**
+ * Tell everyone editing an exhibition's layout that a wall or room changed so they reload it
+ * @param io Socket.io server
+ * @param exhibitionId Exhibition the wall or room belongs to
+ * @param change The wall or room, the wall's new layout revision (if its layout changed) and who changed it
+ */
+export const emitLayoutChange = (
+  io: any,
+  exhibitionId: string,
+  change: { wallId?: string; roomId?: string; layoutRevision?: number; deleted?: boolean; user: User }
+) => {
+  if (!io) return;
+
+  io.to(layoutRoom(exhibitionId)).emit('layout:changed', {
+    exhibitionId,
+    wallId: change.wallId || null,
+    roomId: change.roomId || null,
+    layoutRevision: change.layoutRevision,
+    deleted: change.deleted || false,
+    userId: change.user.id,
+    username: change.user.username
+  });
+};
+
+/**
+ * Wire up live co-editing of wall layouts on a socket: who has the editor
+ * open, where their dragged artworks are hovering and which slots they hold
+ * @param io Socket.io server
+ * @param socket The connecting socket
+ */
+export const registerLayoutCollaboration = (io: Server, socket: Socket) => {
+  // Exhibitions this socket has the layout editor open for
+  const joinedExhibitions = new Set<string>();
+
+  socket.on('layout:join', async (exhibitionId: string) => {
+    try {
+      if (!exhibitionId || joinedExhibitions.has(exhibitionId)) return;
+
+      const user = await findLayoutEditor(socket, exhibitionId);
+      if (!user) {
+        socket.emit('layout:error', { exhibitionId, message: 'You cannot edit this exhibition layout' });
+        return;
+      }
+
+      const editors = editorsByExhibition.get(exhibitionId) || new Map<string, LayoutEditor>();
+      editorsByExhibition.set(exhibitionId, editors);
+      editors.set(socket.id, {
+        socketId: socket.id,
+        userId: user.id,
+        username: user.username,
+        wallId: null
+      });
+
+      joinedExhibitions.add(exhibitionId);
+      socket.join(layoutRoom(exhibitionId));
+
+      emitPresence(io, exhibitionId);
+      socket.emit('layout:locks', { exhibitionId, locks: getExhibitionLocks(exhibitionId) });
+    } catch (error) {
+      logger.error('Join layout editor error:', error);
+    }
+  });
+
+  socket.on('layout:leave', (exhibitionId: string) => {
+    if (!joinedExhibitions.delete(exhibitionId)) return;
+    removeEditor(io, socket, exhibitionId);
+  });
+
+  // The curator switched to another wall
+  socket.on('layout:focus', (data: { exhibitionId: string; wallId: string | null }) => {
+    const editor = editorsByExhibition.get(data?.exhibitionId)?.get(socket.id);
+    if (!editor) return;
+
+    editor.wallId = data.wallId || null;
+    emitPresence(io, data.exhibitionId);
+  });
+
+  // Relay where a dragged artwork is so the others can show a preview
+  socket.on('layout:drag', (data: LayoutDragPreview) => {
+    const editor = editorsByExhibition.get(data?.exhibitionId)?.get(socket.id);
+    if (!editor) return;
+
+    socket.volatile.to(layoutRoom(data.exhibitionId)).emit('layout:drag', {
+      exhibitionId: data.exhibitionId,
+      socketId: socket.id,
+      userId: editor.userId,
+      username: editor.username,
+      wallId: data.wallId || null,
+      artworkId: data.artworkId || null,
+      artworkTitle: data.artworkTitle || null,
+      position: data.position || null
+    });
+  });
+
+  // Hold a slot while working on it; taking it again renews the lock
+  socket.on('layout:lock', async (
+    data: { exhibitionId: string; wallId: string; position: PlacementPosition },
+    callback?: (result: { ok: boolean; lock?: PlacementLock }) => void
+  ) => {
+    const respond = typeof callback === 'function' ? callback : () => undefined;
+    try {
+      if (
+        !editorsByExhibition.get(data?.exhibitionId)?.has(socket.id) ||
+        typeof data.wallId !== 'string' ||
+        !Object.values(PlacementPosition).includes(data.position) ||
+        !(await isExhibitionWall(data.wallId, data.exhibitionId))
+      ) {
+        respond({ ok: false });
+        return;
+      }
+
+      // The curator may have closed the editor while the wall was looked up
+      const editor = editorsByExhibition.get(data.exhibitionId)?.get(socket.id);
+      if (!editor) {
+        respond({ ok: false });
+        return;
+      }
+
+      const current = getActiveLock(data.wallId, data.position);
+      if (current && current.socketId !== socket.id) {
+        respond({ ok: false, lock: current });
+        return;
+      }
+
+      const lock: PlacementLock = {
+        exhibitionId: data.exhibitionId,
+        wallId: data.wallId,
+        position: data.position,
+        socketId: socket.id,
+        userId: editor.userId,
+        username: editor.username,
+        expiresAt: new Date(Date.now() + PLACEMENT_LOCK_TTL_MS)
+      };
+      placementLocks.set(lockKey(data.wallId, data.position), lock);
+
+      respond({ ok: true, lock });
+      if (!current) {
+        emitLocks(io, data.exhibitionId);
+      }
+    } catch (error) {
+      logger.error('Lock layout slot error:', error);
+      respond({ ok: false });
+    }
+  });
+
+  socket.on('layout:unlock', (data: { exhibitionId: string; wallId: string; position: PlacementPosition }) => {
+    if (!data?.wallId) return;
+
+    const current = getActiveLock(data.wallId, data.position);
+    if (!current || current.socketId !== socket.id) return;
+
+    placementLocks.delete(lockKey(data.wallId, data.position));
+    emitLocks(io, current.exhibitionId);
+  });
+
+  socket.on('disconnect', () => {
+    joinedExhibitions.forEach(exhibitionId => removeEditor(io, socket, exhibitionId));
+    joinedExhibitions.clear();
+  });
+};
@@ -0,0 +1,421 @@
+import { In } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Artwork } from '../entities/Artwork';
+import { Comment } from '../entities/Comment';
+import { User, UserRole } from '../entities/User';
+import { logger } from '../utils/logger';
+import { notifyCommentAdded } from './notification.service';
+import { canViewArtwork } from './artwork.service';
+
+export interface CommentModeration {
+  isHidden?: boolean;
+  isPinned?: boolean;
+  isLocked?: boolean;
+}
+
+export interface CommentResponse {
+  id: string;
+  artworkId: string;
+  parentId: string | null;
+  rootId: string | null;
+  content: string;
+  userId: string | null;
+  user: Pick<User, 'id' | 'username' | 'profileUrl' | 'role'> | null;
+  isEdited: boolean;
+  editedAt: Date | null;
+  isDeleted: boolean;
+  isHidden: boolean;
+  isPinned: boolean;
+  isLocked: boolean;
+  timestamp: Date;
+  replies: CommentResponse[];
+}
+
+/**
+ * Curators and admins moderate comments
+ */
+const canModerate = (user?: User) =>
+  user?.role === UserRole.CURATOR || user?.role === UserRole.ADMIN;
+
+/**
+ * Hidden comments stay visible to moderators and to their own author
+ */
+const canSeeComment = (comment: Comment, viewer?: User) =>
+  !comment.isHidden || canModerate(viewer) || comment.userId === viewer?.id;
+
+/**
+ * Shape a comment for the API, without exposing the author's account details
+ * or the content of deleted comments
+ */
+const toCommentResponse = (comment: Comment): CommentResponse => ({
+  id: comment.id,
+  artworkId: comment.artworkId,
+  parentId: comment.parentId,
+  rootId: comment.rootId,
+  content: comment.isDeleted ? '' : comment.content,
+  userId: comment.isDeleted ? null : comment.userId,
+  user: comment.isDeleted || !comment.user ? null : {
+    id: comment.user.id,
+    username: comment.user.username,
+    profileUrl: comment.user.profileUrl,
+    role: comment.user.role
+  },
+  isEdited: Boolean(comment.editedAt),
+  editedAt: comment.editedAt ?? null,
+  isDeleted: comment.isDeleted,
+  isHidden: comment.isHidden,
+  isPinned: comment.isPinned,
+  isLocked: comment.isLocked,
+  timestamp: comment.timestamp,
+  replies: []
+});
+
+/**
+ * Find an artwork the viewer may see by ID or throw a 404
+ */
+const findArtworkOrFail = async (artworkId: string, viewer?: User) => {
+  const artwork = await AppDataSource.getRepository(Artwork).findOne({
+    where: { id: artworkId }
+  });
+
+  if (!artwork || !canViewArtwork(artwork, viewer)) {
+    throw {
+      code: 404,
+      error: new Error('Artwork not found')
+    };
+  }
+
+  return artwork;
+};
+
+/**
+ * Find a live comment on an artwork or throw a 404
+ */
+const findCommentOrFail = async (artworkId: string, commentId: string, viewer?: User) => {
+  const comment = await AppDataSource.getRepository(Comment).findOne({
+    where: { id: commentId, artworkId },
+    relations: ['user']
+  });
+
+  if (!comment || comment.isDeleted || !canSeeComment(comment, viewer)) {
+    throw {
+      code: 404,
+      error: new Error('Comment not found')
+    };
+  }
+
+  return comment;
+};
+
+/**
+ * Check whether the thread a comment belongs to has been locked
+ */
+const isThreadLocked = async (comment: Comment) => {
+  if (!comment.rootId) {
+    return comment.isLocked;
+  }
+
+  const root = await AppDataSource.getRepository(Comment).findOne({
+    where: { id: comment.rootId }
+  });
+
+  return root?.isLocked ?? false;
+};
+
+/**
+ * Nest replies under their parents. Replies whose parent is not visible are dropped
+ * with it, and deleted comments are kept only as placeholders for visible replies.
+ */
+const buildThreads = (roots: Comment[], replies: Comment[], viewer?: User) => {
+  const nodes = new Map<string, CommentResponse>();
+
+  for (const comment of [...roots, ...replies]) {
+    if (canSeeComment(comment, viewer)) {
+      nodes.set(comment.id, toCommentResponse(comment));
+    }
+  }
+
+  for (const reply of replies) {
+    const node = nodes.get(reply.id);
+    const parent = reply.parentId ? nodes.get(reply.parentId) : undefined;
+
+    if (node && parent) {
+      parent.replies.push(node);
+    }
+  }
+
+  const prune = (node: CommentResponse): CommentResponse | null => {
+    node.replies = node.replies
+      .map(prune)
+      .filter((reply): reply is CommentResponse => reply !== null);
+
+    return node.isDeleted && node.replies.length === 0 ? null : node;
+  };
+
+  return roots
+    .map(root => nodes.get(root.id))
+    .filter((node): node is CommentResponse => node !== undefined)
+    .map(prune)
+    .filter((node): node is CommentResponse => node !== null);
+};
+
+/**
+ * Get the comment threads on an artwork, pinned threads first, then newest first
+ */
+export const getComments = async (
+  artworkId: string,
+  viewer?: User,
+  page: number = 1,
+  limit: number = 20
+) => {
+  try {
+    await findArtworkOrFail(artworkId, viewer);
+
+    const commentRepository = AppDataSource.getRepository(Comment);
+
+    let query = commentRepository
+      .createQueryBuilder('comment')
+      .leftJoinAndSelect('comment.user', 'user')
+      .where('comment.artworkId = :artworkId', { artworkId })
+      .andWhere('comment.parentId IS NULL')
+      // Deleted threads are only worth showing while they still have live replies
+      .andWhere(
+        '(comment.isDeleted = false OR EXISTS (SELECT 1 FROM comments reply WHERE reply."rootId" = comment.id AND reply."isDeleted" = false))'
+      );
+
+    if (!canModerate(viewer)) {
+      query = viewer
+        ? query.andWhere('(comment.isHidden = false OR comment.userId = :viewerId)', { viewerId: viewer.id })
+        : query.andWhere('comment.isHidden = false');
+    }
+
+    // Pagination
+    const skip = (Number(page) - 1) * Number(limit);
+    query = query
+      .orderBy('comment.isPinned', 'DESC')
+      .addOrderBy('comment.timestamp', 'DESC')
+      .skip(skip)
+      .take(Number(limit));
+
+    const [roots, total] = await query.getManyAndCount();
+
+    const replies = roots.length > 0
+      ? await commentRepository.find({
+          where: { rootId: In(roots.map(root => root.id)) },
+          relations: ['user'],
+          order: { timestamp: 'ASC' }
+        })
+      : [];
+
+    return {
+      comments: buildThreads(roots, replies, viewer),
+      pagination: {
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        pages: Math.ceil(total / Number(limit))
+      }
+    };
+  } catch (error) {
+    logger.error('Get comments error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Add a comment to an artwork, or a reply when a parent comment is given
+ */
+export const createComment = async (
+  user: User,
+  artworkId: string,
+  content: string,
+  parentId?: string,
+  io?: any
+) => {
+  try {
+    const artwork = await findArtworkOrFail(artworkId, user);
+    const commentRepository = AppDataSource.getRepository(Comment);
+
+    const comment = new Comment();
+    comment.content = content.trim();
+    comment.userId = user.id;
+    comment.artworkId = artwork.id;
+    comment.parentId = null;
+    comment.rootId = null;
+
+    if (parentId) {
+      const parent = await findCommentOrFail(artwork.id, parentId, user);
+
+      if (!canModerate(user) && await isThreadLocked(parent)) {
+        throw {
+          code: 409,
+          error: new Error('This thread is locked')
+        };
+      }
+
+      comment.parentId = parent.id;
+      comment.rootId = parent.rootId ?? parent.id;
+    }
+
+    const savedComment = await commentRepository.save(comment);
+    savedComment.user = user;
+
+    // Let the artist know, unless they are commenting on their own work
+    if (artwork.artistId !== user.id) {
+      await notifyCommentAdded(
+        artwork.id,
+        artwork.title,
+        artwork.artistId,
+        user.id,
+        user.username
+      );
+
+      if (io) {
+        io.to(artwork.artistId).emit('comment-added', {
+          id: savedComment.id,
+          artworkId: artwork.id,
+          title: artwork.title,
+          username: user.username
+        });
+      }
+    }
+
+    return toCommentResponse(savedComment);
+  } catch (error) {
+    logger.error('Create comment error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Edit a comment's content, keeping the previous version in its history
+ */
+export const updateComment = async (user: User, artworkId: string, commentId: string, content: string) => {
+  try {
+    await findArtworkOrFail(artworkId, user);
+    const comment = await findCommentOrFail(artworkId, commentId, user);
+
+    if (comment.userId !== user.id) {
+      throw {
+        code: 403,
+        error: new Error('Not authorized to edit this comment')
+      };
+    }
+
+    if (!canModerate(user) && await isThreadLocked(comment)) {
+      throw {
+        code: 409,
+        error: new Error('This thread is locked')
+      };
+    }
+
+    const nextContent = content.trim();
+
+    if (nextContent !== comment.content) {
+      comment.editHistory = [
+        ...(comment.editHistory || []),
+        {
+          content: comment.content,
+          createdAt: (comment.editedAt ?? comment.timestamp).toISOString()
+        }
+      ];
+      comment.content = nextContent;
+      comment.editedAt = new Date();
+
+      await AppDataSource.getRepository(Comment).save(comment);
+    }
+
+    return toCommentResponse(comment);
+  } catch (error) {
+    logger.error('Update comment error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Soft delete a comment so replies to it keep their place in the thread
+ */
+export const deleteComment = async (user: User, artworkId: string, commentId: string) => {
+  try {
+    const comment = await findCommentOrFail(artworkId, commentId, user);
+
+    if (comment.userId !== user.id && !canModerate(user)) {
+      throw {
+        code: 403,
+        error: new Error('Not authorized to delete this comment')
+      };
+    }
+
+    comment.isDeleted = true;
+    comment.deletedAt = new Date();
+    await AppDataSource.getRepository(Comment).save(comment);
+
+    return { success: true, message: 'Comment deleted successfully' };
+  } catch (error) {
+    logger.error('Delete comment error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get every version of a comment, oldest first, ending with the current content
+ */
+export const getCommentHistory = async (artworkId: string, commentId: string, viewer?: User) => {
+  try {
+    await findArtworkOrFail(artworkId, viewer);
+    const comment = await findCommentOrFail(artworkId, commentId, viewer);
+
+    return [
+      ...(comment.editHistory || []),
+      {
+        content: comment.content,
+        createdAt: (comment.editedAt ?? comment.timestamp).toISOString()
+      }
+    ];
+  } catch (error) {
+    logger.error('Get comment history error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Hide, pin or lock a comment. Pinning and locking apply to whole threads,
+ * so only top-level comments accept them.
+ */
+export const moderateComment = async (
+  user: User,
+  artworkId: string,
+  commentId: string,
+  moderation: CommentModeration
+) => {
+  try {
+    if (!canModerate(user)) {
+      throw {
+        code: 403,
+        error: new Error('Only curators and admins can moderate comments')
+      };
+    }
+
+    const comment = await findCommentOrFail(artworkId, commentId, user);
+
+    if (comment.parentId && (moderation.isPinned !== undefined || moderation.isLocked !== undefined)) {
+      throw {
+        code: 400,
+        error: new Error('Only top-level comments can be pinned or locked')
+      };
+    }
+
+    if (moderation.isHidden !== undefined) comment.isHidden = moderation.isHidden;
+    if (moderation.isPinned !== undefined) comment.isPinned = moderation.isPinned;
+    if (moderation.isLocked !== undefined) comment.isLocked = moderation.isLocked;
+
+    await AppDataSource.getRepository(Comment).save(comment);
+
+    logger.info(`Comment ${comment.id} moderated by ${user.username}: ${JSON.stringify(moderation)}`);
+
+    return toCommentResponse(comment);
+  } catch (error) {
+    logger.error('Moderate comment error:', error);
+    throw error;
+  }
+};
@@ -1,358 +1,1803 @@
+import { In } from 'typeorm';
+import jwt from 'jsonwebtoken';
 import { ArtworkPlacement, PlacementPosition } from '../entities/ArtworkPlacement';
-import { Exhibition } from '../entities/Exhibition';
+import { Exhibition, ExhibitionStatus, PublishedDoorway, PublishedLayout, PublishedRoom } from '../entities/Exhibition';
 import { User, UserRole } from '../entities/User';
-import { Wall } from '../entities/Wall';
+import { Wall, DEFAULT_WALL_DIMENSIONS } from '../entities/Wall';
+import { WallLayoutVersion, LayoutPlacementSnapshot } from '../entities/WallLayoutVersion';
 import { Artwork, ArtworkStatus } from '../entities/Artwork';
+import { Room, PlanPoint } from '../entities/Room';
+import { Doorway } from '../entities/Doorway';
 import { AppDataSource } from '../config/database';
 import { logger } from '../utils/logger';
+import { notifyExhibitionStatusChange } from './notification.service';
+import { assertPlacementsUnlocked, emitLayoutChange } from './collaboration.service';
+import { assertValidWallLayout, validateWallLayout } from './layoutValidation.service';
+import { AutoLayoutOptions, generateWallLayout } from './autoLayout.service';
+
+// How long a curator's draft preview link stays valid
+const LAYOUT_PREVIEW_EXPIRY = '30m';
+
+// Bumped whenever the floor plan document changes shape, so the 3D viewer can tell what it was sent
+const FLOOR_PLAN_FORMAT_VERSION = 2;
+
+// A wall as shown to a viewer, either a draft row or rebuilt from the published layout
+type LayoutWall = Pick<
+  Wall,
+  'id' | 'name' | 'displayOrder' | 'exhibitionId' | 'width' | 'height' | 'depth' | 'roomId' | 'planPosition' | 'orientation'
+> & {
+  placements: Array<Pick<
+    ArtworkPlacement,
+    'id' | 'wallId' | 'artworkId' | 'artwork' | 'position' | 'coordinates' | 'rotation' | 'scale'
+  >>;
+};
+
+export type WallDimensions = Partial<Pick<Wall, 'width' | 'height' | 'depth'>>;
+
+// Where a wall stands on the exhibition's floor plan
+export type WallPlanPlacement = Partial<Pick<Wall, 'roomId' | 'planPosition' | 'orientation'>>;
+
+// The rooms and doorways of an exhibition, either draft rows or from the published layout
+interface LayoutFloorPlan {
+  rooms: PublishedRoom[];
+  doorways: PublishedDoorway[];
+}
+
+export interface LayoutViewOptions {
+  // Show the curator's draft instead of the published layout
+  draft?: boolean;
+  // Preview link handed to the Unity client, which has no session of its own
+  previewToken?: string;
+}
+
+// How long a closed exhibition stays browsable before it is archived
+const ARCHIVE_AFTER_MS = Number(process.env.EXHIBITION_ARCHIVE_AFTER_DAYS || 30) * 24 * 60 * 60 * 1000;
+
+/**
+ * Work out where a published exhibition should be in its lifecycle at a given time.
+ * Drafts stay drafts until a curator publishes them.
+ */
+export const resolveLifecycleStatus = (exhibition: Exhibition, now: Date = new Date()): ExhibitionStatus => {
+  if (exhibition.status === ExhibitionStatus.DRAFT) {
+    return ExhibitionStatus.DRAFT;
+  }
+
+  const time = now.getTime();
+
+  if (time < exhibition.startDate.getTime()) {
+    return ExhibitionStatus.SCHEDULED;
+  }
+
+  if (time < exhibition.endDate.getTime()) {
+    return ExhibitionStatus.LIVE;
+  }
+
+  if (time < exhibition.endDate.getTime() + ARCHIVE_AFTER_MS) {
+    return ExhibitionStatus.CLOSED;
+  }
+
+  return ExhibitionStatus.ARCHIVED;
+};
+
+/**
+ * Move an exhibition to a new lifecycle status, announcing openings and closings
+ * to the exhibition room and to its curator. Other changes to the exhibition
+ * are saved with it.
+ * The status only moves if it is still what it was when the exhibition was
+ * loaded, so when several servers run the scheduler only one announces each
+ * change; the others get a 409.
+ */
+export const transitionExhibition = async (exhibition: Exhibition, status: ExhibitionStatus, io?: any) => {
+  const exhibitionRepository = AppDataSource.getRepository(Exhibition);
+  const previousStatus = exhibition.status;
+
+  if (previousStatus !== status) {
+    const { affected } = await exhibitionRepository.update(
+      { id: exhibition.id, status: previousStatus },
+      { status, isActive: status === ExhibitionStatus.LIVE }
+    );
+
+    if (!affected) {
+      throw {
+        code: 409,
+        error: new Error('The exhibition changed status while it was being updated')
+      };
+    }
+  }
+
+  exhibition.status = status;
+  exhibition.isActive = status === ExhibitionStatus.LIVE;
+
+  const savedExhibition = await exhibitionRepository.save(exhibition);
+
+  if (previousStatus === status) {
+    return savedExhibition;
+  }
+
+  logger.info(`Exhibition ${exhibition.id} moved from ${previousStatus} to ${status}`);
+
+  const opened = status === ExhibitionStatus.LIVE;
+  const closed = status === ExhibitionStatus.CLOSED
+    || (status === ExhibitionStatus.ARCHIVED && previousStatus === ExhibitionStatus.LIVE);
+
+  if (opened || closed) {
+    await notifyExhibitionStatusChange(exhibition.id, exhibition.title, exhibition.curatorId, opened);
+
+    if (io) {
+      io.to(`exhibition:${exhibition.id}`).to(exhibition.curatorId).emit(opened ? 'exhibition:opened' : 'exhibition:closed', {
+        id: exhibition.id,
+        title: exhibition.title,
+        status
+      });
+    }
+  }
+
+  return savedExhibition;
+};
+
+/**
+ * Check that the user may manage the exhibition (its curator or an admin)
+ */
+export const assertCanManageExhibition = (user: User, exhibition: Exhibition) => {
+  if (user.role !== UserRole.ADMIN && exhibition.curatorId !== user.id) {
+    throw {
+      code: 403,
+      error: new Error('Not authorized to manage this exhibition')
+    };
+  }
+};
+
+/**
+ * Find an exhibition by ID or throw a 404
+ */
+export const findExhibitionOrFail = async (id: string, relations: string[] = []) => {
+  const exhibition = await AppDataSource.getRepository(Exhibition).findOne({
+    where: { id },
+    relations
+  });
+
+  if (!exhibition) {
+    throw {
+      code: 404,
+      error: new Error('Exhibition not found')
+    };
+  }
+
+  return exhibition;
+};
+
+/**
+ * Hide drafts from everyone but their curator and admins
+ */
+export const assertCanViewExhibition = (exhibition: Exhibition, viewer?: User) => {
+  if (
+    exhibition.status === ExhibitionStatus.DRAFT &&
+    viewer?.role !== UserRole.ADMIN &&
+    viewer?.id !== exhibition.curatorId
+  ) {
+    throw {
+      code: 404,
+      error: new Error('Exhibition not found')
+    };
+  }
+};
+
+/**
+ * Closed and archived exhibitions are read-only
+ */
+export const assertExhibitionEditable = (exhibition: Exhibition) => {
+  if (
+    exhibition.status === ExhibitionStatus.CLOSED ||
+    exhibition.status === ExhibitionStatus.ARCHIVED
+  ) {
+    throw {
+      code: 409,
+      error: new Error(`Exhibition is ${exhibition.status} and can no longer be edited`)
+    };
+  }
+};
+
+/**
+ * Find a wall by ID (with its exhibition) and check the user may manage it
+ */
+const findManageableWall = async (user: User, wallId: string, relations: string[] = []) => {
+  const wall = await AppDataSource.getRepository(Wall).findOne({
+    where: { id: wallId },
+    relations: ['exhibition', ...relations]
+  });
+
+  if (!wall) {
+    throw {
+      code: 404,
+      error: new Error('Wall not found')
+    };
+  }
+
+  assertCanManageExhibition(user, wall.exhibition);
+  assertExhibitionEditable(wall.exhibition);
+
+  return wall;
+};
+
+/**
+ * Find a room of an exhibition, for walls and doorways being put in it
+ */
+const findRoomInExhibition = async (roomId: string, exhibitionId: string) => {
+  const room = await AppDataSource.getRepository(Room).findOne({ where: { id: roomId, exhibitionId } });
+
+  if (!room) {
+    throw {
+      code: 400,
+      error: new Error('Room not found in this exhibition')
+    };
+  }
+
+  return room;
+};
+
+/**
+ * Find a room by ID (with its exhibition) and check the user may manage it
+ */
+const findManageableRoom = async (user: User, roomId: string) => {
+  const room = await AppDataSource.getRepository(Room).findOne({
+    where: { id: roomId },
+    relations: ['exhibition']
+  });
+
+  if (!room) {
+    throw {
+      code: 404,
+      error: new Error('Room not found')
+    };
+  }
+
+  assertCanManageExhibition(user, room.exhibition);
+  assertExhibitionEditable(room.exhibition);
+
+  return room;
+};
+
+/**
+ * Find a doorway by ID (with its exhibition) and check the user may manage it
+ */
+const findManageableDoorway = async (user: User, doorwayId: string) => {
+  const doorway = await AppDataSource.getRepository(Doorway).findOne({
+    where: { id: doorwayId },
+    relations: ['exhibition']
+  });
+
+  if (!doorway) {
+    throw {
+      code: 404,
+      error: new Error('Doorway not found')
+    };
+  }
+
+  assertCanManageExhibition(user, doorway.exhibition);
+  assertExhibitionEditable(doorway.exhibition);
+
+  return doorway;
+};
+
+/**
+ * A room's floor needs at least three corners that enclose some area
+ */
+const assertValidFootprint = (footprint: PlanPoint[]) => {
+  // Shoelace formula
+  const area = Math.abs(footprint.reduce((sum, point, i) => {
+    const next = footprint[(i + 1) % footprint.length];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0)) / 2;
+
+  if (footprint.length < 3 || area < 0.01) {
+    throw {
+      code: 400,
+      error: new Error('A room needs at least three corners enclosing some floor')
+    };
+  }
+};
+
+/**
+ * Point a wall's face somewhere between 0 and 360 degrees
+ */
+const normalizeOrientation = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+/**
+ * Sort walls by display order and their placements by position
+ */
+const sortWallsAndPlacements = <T extends { displayOrder: number; placements?: { position: PlacementPosition }[] }>(
+  walls: T[]
+) => {
+  walls.sort((a, b) => a.displayOrder - b.displayOrder);
+
+  // For each wall, make sure the placements are ordered by position
+  walls.forEach(wall => {
+    if (wall.placements) {
+      // Custom sort logic for positions (left, center, right, custom)
+      wall.placements.sort((a, b) => {
+        const positionOrder = {
+          [PlacementPosition.LEFT]: 0,
+          [PlacementPosition.CENTER]: 1,
+          [PlacementPosition.RIGHT]: 2,
+          [PlacementPosition.CUSTOM]: 3
+        };
+        return positionOrder[a.position] - positionOrder[b.position];
+      });
+    }
+  });
+
+  return walls;
+};
+
+type PlacementInput = {
+  artworkId: string;
+  position?: PlacementPosition;
+  coordinates?: { x: number; y: number; z: number } | null;
+  rotation?: { x: number; y: number; z: number } | null;
+  scale?: { x: number; y: number; z: number } | null;
+};
+
+/**
+ * Reduce placements to the fields a layout version keeps
+ */
+const toPlacementSnapshot = (placement: PlacementInput): LayoutPlacementSnapshot => ({
+  artworkId: placement.artworkId,
+  position: placement.position || PlacementPosition.CUSTOM,
+  coordinates: placement.coordinates || null,
+  rotation: placement.rotation || null,
+  scale: placement.scale || null
+});
+
+/**
+ * Copy the draft walls into the layout visitors see
+ */
+const buildPublishedLayout = (
+  walls: Array<
+    Pick<Wall, 'id' | 'name' | 'displayOrder'> & WallDimensions & WallPlanPlacement & {
+      placements?: LayoutPlacementSnapshot[];
+    }
+  >,
+  floorPlan: Partial<LayoutFloorPlan> = {}
+): PublishedLayout => ({
+  walls: sortWallsAndPlacements(walls).map(wall => ({
+    id: wall.id,
+    name: wall.name,
+    displayOrder: wall.displayOrder,
+    width: wall.width ?? DEFAULT_WALL_DIMENSIONS.width,
+    height: wall.height ?? DEFAULT_WALL_DIMENSIONS.height,
+    depth: wall.depth ?? DEFAULT_WALL_DIMENSIONS.depth,
+    roomId: wall.roomId ?? null,
+    planPosition: wall.planPosition ? { x: wall.planPosition.x, y: wall.planPosition.y } : null,
+    orientation: wall.orientation ?? 0,
+    placements: (wall.placements || []).map(toPlacementSnapshot)
+  })),
+  rooms: [...(floorPlan.rooms || [])]
+    .sort((a, b) => a.displayOrder - b.displayOrder)
+    .map(room => ({
+      id: room.id,
+      name: room.name,
+      displayOrder: room.displayOrder,
+      footprint: room.footprint.map(point => ({ x: point.x, y: point.y }))
+    })),
+  doorways: (floorPlan.doorways || []).map(doorway => ({
+    id: doorway.id,
+    fromRoomId: doorway.fromRoomId,
+    toRoomId: doorway.toRoomId ?? null,
+    position: { x: doorway.position.x, y: doorway.position.y },
+    width: doorway.width
+  }))
+});
+
+/**
+ * Get the draft walls of an exhibition with their placed artworks
+ */
+const findDraftWalls = async (exhibitionId: string) => {
+  const walls = await AppDataSource.getRepository(Wall).find({
+    where: { exhibitionId },
+    order: { displayOrder: 'ASC' },
+    relations: ['placements', 'placements.artwork', 'placements.artwork.artist']
+  });
+
+  return sortWallsAndPlacements(walls);
+};
+
+/**
+ * Get the draft rooms and doorways of an exhibition
+ */
+const findDraftFloorPlan = async (exhibitionId: string): Promise<LayoutFloorPlan> => {
+  const [rooms, doorways] = await Promise.all([
+    AppDataSource.getRepository(Room).find({
+      where: { exhibitionId },
+      order: { displayOrder: 'ASC', createdAt: 'ASC' }
+    }),
+    AppDataSource.getRepository(Doorway).find({
+      where: { exhibitionId },
+      order: { createdAt: 'ASC' }
+    })
+  ]);
+
+  return { rooms, doorways };
+};
+
+/**
+ * Load the published layout column, which isn't selected by default
+ */
+const findPublishedLayout = async (exhibitionId: string) => {
+  const exhibition = await AppDataSource.getRepository(Exhibition)
+    .createQueryBuilder('exhibition')
+    .addSelect('exhibition.publishedLayout')
+    .where('exhibition.id = :exhibitionId', { exhibitionId })
+    .getOne();
+
+  return exhibition?.publishedLayout || null;
+};
+
+/**
+ * Exhibitions laid out before drafts existed show their walls directly.
+ * Freeze that layout as published before the first draft edit so the
+ * edit doesn't go straight to visitors.
+ */
+const ensurePublishedLayout = async (exhibitionId: string) => {
+  if (await findPublishedLayout(exhibitionId)) return;
+
+  const walls = await findDraftWalls(exhibitionId);
+  const floorPlan = await findDraftFloorPlan(exhibitionId);
+
+  await AppDataSource.createQueryBuilder()
+    .update(Exhibition)
+    .set({ publishedLayout: buildPublishedLayout(walls, floorPlan), layoutPublishedAt: new Date() })
+    .where('id = :exhibitionId AND "publishedLayout" IS NULL', { exhibitionId })
+    .execute();
+};
+
+/**
+ * Turn a published layout back into walls with their artworks attached.
+ * Artworks deleted since publishing are left out.
+ */
+const hydratePublishedLayout = async (exhibitionId: string, layout: PublishedLayout): Promise<LayoutWall[]> => {
+  const artworkIds = [...new Set(layout.walls.flatMap(wall => wall.placements.map(placement => placement.artworkId)))];
+  const artworks = artworkIds.length > 0
+    ? await AppDataSource.getRepository(Artwork).find({ where: { id: In(artworkIds) }, relations: ['artist'] })
+    : [];
+  const artworksById = new Map(artworks.map(artwork => [artwork.id, artwork]));
+
+  const walls = layout.walls.map(wall => ({
+    id: wall.id,
+    name: wall.name,
+    displayOrder: wall.displayOrder,
+    width: wall.width ?? DEFAULT_WALL_DIMENSIONS.width,
+    height: wall.height ?? DEFAULT_WALL_DIMENSIONS.height,
+    depth: wall.depth ?? DEFAULT_WALL_DIMENSIONS.depth,
+    roomId: wall.roomId ?? null,
+    planPosition: wall.planPosition ?? null,
+    orientation: wall.orientation ?? 0,
+    exhibitionId,
+    placements: wall.placements
+      .filter(placement => artworksById.has(placement.artworkId))
+      .map(placement => ({
+        ...placement,
+        // Published placements have no row of their own
+        id: `${wall.id}:${placement.artworkId}`,
+        wallId: wall.id,
+        artwork: artworksById.get(placement.artworkId) as Artwork
+      }))
+  }));
+
+  return sortWallsAndPlacements(walls);
+};
+
+/**
+ * Whether a preview link was issued for this exhibition and has not expired
+ */
+const isValidPreviewToken = (exhibition: Exhibition, previewToken?: string) => {
+  if (!previewToken) return false;
+
+  try {
+    const decoded = jwt.verify(previewToken, process.env.JWT_PREVIEW_SECRET as string) as { exhibitionId: string };
+    return decoded.exhibitionId === exhibition.id;
+  } catch (error) {
+    logger.warn('Layout preview token rejected:', error instanceof Error ? error.message : error);
+    return false;
+  }
+};
+
+/**
+ * Hide draft exhibitions as assertCanViewExhibition does, except from someone
+ * holding a preview link for it, which stands in for the curator's own access.
+ * Every read of an exhibition's layout checks this.
+ */
+const assertCanViewExhibitionLayout = (exhibition: Exhibition, viewer?: User, options: LayoutViewOptions = {}) => {
+  if (!isValidPreviewToken(exhibition, options.previewToken)) {
+    assertCanViewExhibition(exhibition, viewer);
+  }
+};
+
+/**
+ * Only the exhibition's curator, admins, or someone holding a preview
+ * link from them may see the draft layout
+ */
+const assertCanViewDraftLayout = (exhibition: Exhibition, viewer?: User, previewToken?: string) => {
+  if (viewer && (viewer.role === UserRole.ADMIN || viewer.id === exhibition.curatorId)) {
+    return;
+  }
+
+  if (isValidPreviewToken(exhibition, previewToken)) {
+    return;
+  }
+
+  throw {
+    code: 403,
+    error: new Error('The draft layout is only visible to the exhibition curator')
+  };
+};
+
+/**
+ * Get the walls a viewer should see: the published layout by default,
+ * or the draft when the curator asks to preview it
+ */
+const findVisibleWalls = async (
+  exhibition: Exhibition,
+  options: LayoutViewOptions = {},
+  viewer?: User
+): Promise<LayoutWall[]> => {
+  if (options.draft || options.previewToken) {
+    assertCanViewDraftLayout(exhibition, viewer, options.previewToken);
+    return findDraftWalls(exhibition.id);
+  }
+
+  const layout = await findPublishedLayout(exhibition.id);
+
+  return layout ? hydratePublishedLayout(exhibition.id, layout) : findDraftWalls(exhibition.id);
+};
+
+/**
+ * Get the rooms and doorways a viewer should see, following the same
+ * draft or published choice as findVisibleWalls
+ */
+const findVisibleFloorPlan = async (
+  exhibition: Exhibition,
+  options: LayoutViewOptions = {},
+  viewer?: User
+): Promise<LayoutFloorPlan> => {
+  if (options.draft || options.previewToken) {
+    assertCanViewDraftLayout(exhibition, viewer, options.previewToken);
+    return findDraftFloorPlan(exhibition.id);
+  }
+
+  const layout = await findPublishedLayout(exhibition.id);
+
+  return layout
+    ? { rooms: layout.rooms || [], doorways: layout.doorways || [] }
+    : findDraftFloorPlan(exhibition.id);
+};
+
+/**
+ * Validate that an exhibition ends after it starts
+ */
+const assertValidDateRange = (startDate: Date, endDate: Date) => {
+  if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+    throw {
+      code: 400,
+      error: new Error('Start and end dates must be valid dates')
+    };
+  }
+
+  if (endDate <= startDate) {
+    throw {
+      code: 400,
+      error: new Error('End date must be after start date')
+    };
+  }
+};
+
+/**
+ * Get all exhibitions with filtering and pagination
+ */
+export const getExhibitions = async (
+  viewer?: User,
+  curator?: string,
+  isActive?: boolean,
+  status?: string,
+  search?: string,
+  page: number = 1,
+  limit: number = 10
+) => {
+  try {
+    const exhibitionRepository = AppDataSource.getRepository(Exhibition);
+
+    let query = exhibitionRepository
+      .createQueryBuilder('exhibition')
+      .leftJoinAndSelect('exhibition.curator', 'curator')
+      .orderBy('exhibition.startDate', 'DESC');
+
+    // Drafts are only listed for their own curator (and for admins)
+    if (viewer?.role !== UserRole.ADMIN) {
+      query = query.andWhere(
+        '(exhibition.status != :draft OR exhibition.curatorId = :viewerId)',
+        { draft: ExhibitionStatus.DRAFT, viewerId: viewer?.id ?? null }
+      );
+    }
+
+    if (status) {
+      query = query.andWhere('exhibition.status = :status', { status });
+    }
+
+    if (curator) {
+      query = query.andWhere('curator.username = :curator', { curator });
+    }
+
+    if (isActive !== undefined) {
+      query = query.andWhere('exhibition.isActive = :isActive', { isActive });
+    }
+
+    if (search) {
+      query = query.andWhere(
+        '(exhibition.title ILIKE :search OR exhibition.description ILIKE :search)',
+        { search: `%${search}%` }
+      );
+    }
+
+    // Pagination
+    const skip = (Number(page) - 1) * Number(limit);
+    query = query.skip(skip).take(Number(limit));
+
+    const [exhibitions, total] = await query.getManyAndCount();
+
+    return {
+      exhibitions,
+      pagination: {
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        pages: Math.ceil(total / Number(limit))
+      }
+    };
+  } catch (error) {
+    logger.error('Get exhibitions error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get an exhibition by ID with all walls and artwork placements
+ */
+export const getExhibitionById = async (id: string, viewer?: User, options: LayoutViewOptions = {}) => {
+  try {
+    const exhibition = await findExhibitionOrFail(id, ['curator']);
+
+    assertCanViewExhibitionLayout(exhibition, viewer, options);
+
+    const walls = await findVisibleWalls(exhibition, options, viewer);
+
+    return { ...exhibition, walls };
+  } catch (error) {
+    logger.error('Get exhibition by ID error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Create a new exhibition owned by the user
+ */
+export const createExhibition = async (
+  user: User,
+  title: string,
+  description: string,
+  startDate: string,
+  endDate: string,
+  publish?: boolean,
+  io?: any
+) => {
+  try {
+    // Only curators and admins can create exhibitions
+    if (user.role !== UserRole.CURATOR && user.role !== UserRole.ADMIN) {
+      throw new Error('Only curators can create exhibitions');
+    }
+
+    const exhibitionRepository = AppDataSource.getRepository(Exhibition);
+
+    const exhibition = new Exhibition();
+    exhibition.title = title;
+    exhibition.description = description;
+    exhibition.curator = user;
+    exhibition.curatorId = user.id;
+    exhibition.startDate = new Date(startDate);
+    exhibition.endDate = new Date(endDate);
+    exhibition.status = ExhibitionStatus.DRAFT;
+    exhibition.isActive = false;
+    // Nothing is published until the curator publishes a layout
+    exhibition.publishedLayout = { walls: [] };
+    exhibition.layoutPublishedAt = null;
+
+    assertValidDateRange(exhibition.startDate, exhibition.endDate);
+
+    const savedExhibition = await exhibitionRepository.save(exhibition);
+
+    if (publish) {
+      const status = resolveLifecycleStatus({ ...savedExhibition, status: ExhibitionStatus.SCHEDULED });
+      return await transitionExhibition(savedExhibition, status, io);
+    }
+
+    return savedExhibition;
+  } catch (error) {
+    logger.error('Create exhibition error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update an exhibition
+ */
+export const updateExhibition = async (
+  user: User,
+  id: string,
+  updates: {
+    title?: string;
+    description?: string;
+    startDate?: string;
+    endDate?: string;
+  },
+  io?: any
+) => {
+  try {
+    const exhibition = await findExhibitionOrFail(id);
+
+    assertCanManageExhibition(user, exhibition);
+
+    if (exhibition.status === ExhibitionStatus.ARCHIVED) {
+      throw {
+        code: 409,
+        error: new Error('Exhibition is archived and can no longer be edited')
+      };
+    }
+
+    // Update exhibition fields
+    if (updates.title) exhibition.title = updates.title;
+    if (updates.description) exhibition.description = updates.description;
+    if (updates.startDate) exhibition.startDate = new Date(updates.startDate);
+    if (updates.endDate) exhibition.endDate = new Date(updates.endDate);
+
+    assertValidDateRange(exhibition.startDate, exhibition.endDate);
+
+    // New dates may move a published exhibition along (or back) in its lifecycle
+    return await transitionExhibition(exhibition, resolveLifecycleStatus(exhibition), io);
+  } catch (error) {
+    logger.error('Update exhibition error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete an exhibition along with its walls and placements
+ */
+export const deleteExhibition = async (user: User, id: string) => {
+  try {
+    const exhibitionRepository = AppDataSource.getRepository(Exhibition);
+    const exhibition = await findExhibitionOrFail(id);
+
+    assertCanManageExhibition(user, exhibition);
+
+    await exhibitionRepository.remove(exhibition);
+
+    return { success: true, message: 'Exhibition deleted successfully' };
+  } catch (error) {
+    logger.error('Delete exhibition error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Publish a draft so the scheduler opens and closes it on its dates
+ */
+export const publishExhibition = async (user: User, id: string, io?: any) => {
+  try {
+    const exhibition = await findExhibitionOrFail(id);
+
+    assertCanManageExhibition(user, exhibition);
+
+    if (exhibition.status !== ExhibitionStatus.DRAFT) {
+      throw {
+        code: 409,
+        error: new Error('Exhibition is already published')
+      };
+    }
+
+    const status = resolveLifecycleStatus({ ...exhibition, status: ExhibitionStatus.SCHEDULED });
+
+    return await transitionExhibition(exhibition, status, io);
+  } catch (error) {
+    logger.error('Publish exhibition error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Take a scheduled exhibition back to draft before it opens
+ */
+export const unpublishExhibition = async (user: User, id: string) => {
+  try {
+    const exhibition = await findExhibitionOrFail(id);
+
+    assertCanManageExhibition(user, exhibition);
+
+    if (exhibition.status !== ExhibitionStatus.SCHEDULED) {
+      throw {
+        code: 409,
+        error: new Error('Only scheduled exhibitions can be unpublished')
+      };
+    }
+
+    return await transitionExhibition(exhibition, ExhibitionStatus.DRAFT);
+  } catch (error) {
+    logger.error('Unpublish exhibition error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get all walls for an exhibition
+ */
+export const getWalls = async (exhibitionId: string, viewer?: User, options: LayoutViewOptions = {}) => {
+  try {
+    const exhibition = await findExhibitionOrFail(exhibitionId);
+
+    assertCanViewExhibitionLayout(exhibition, viewer, options);
+
+    return await findVisibleWalls(exhibition, options, viewer);
+  } catch (error) {
+    logger.error('Get walls error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Create a new wall in an exhibition
+ */
+export const createWall = async (
+  user: User,
+  exhibitionId: string,
+  name: string,
+  details: WallDimensions & WallPlanPlacement = {},
+  io?: any
+) => {
+  try {
+    // Only curators and admins can create walls
+    if (user.role !== UserRole.CURATOR && user.role !== UserRole.ADMIN) {
+      throw new Error('Only curators can create walls');
+    }
+
+    const wallRepository = AppDataSource.getRepository(Wall);
+    const exhibition = await findExhibitionOrFail(exhibitionId);
+
+    assertCanManageExhibition(user, exhibition);
+    assertExhibitionEditable(exhibition);
+    await ensurePublishedLayout(exhibition.id);
+
+    // Find the highest display order of existing walls
+    const lastWall = await wallRepository.findOne({
+      where: { exhibitionId: exhibition.id },
+      order: { displayOrder: 'DESC' }
+    });
+
+    const newDisplayOrder = lastWall ? lastWall.displayOrder + 1 : 0;
+
+    // Create the new wall
+    const wall = new Wall();
+    wall.name = name;
+    wall.displayOrder = newDisplayOrder;
+    wall.width = details.width ?? DEFAULT_WALL_DIMENSIONS.width;
+    wall.height = details.height ?? DEFAULT_WALL_DIMENSIONS.height;
+    wall.depth = details.depth ?? DEFAULT_WALL_DIMENSIONS.depth;
+    wall.exhibition = exhibition;
+    wall.exhibitionId = exhibition.id;
+    wall.roomId = details.roomId ? (await findRoomInExhibition(details.roomId, exhibition.id)).id : null;
+    wall.planPosition = details.planPosition ?? null;
+    wall.orientation = normalizeOrientation(details.orientation ?? 0);
+
+    const savedWall = await wallRepository.save(wall);
+    emitLayoutChange(io, exhibition.id, { wallId: savedWall.id, user });
+
+    return savedWall;
+  } catch (error) {
+    logger.error('Create wall error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update a wall
+ */
+export const updateWall = async (
+  user: User,
+  wallId: string,
+  updates: {
+    name?: string;
+    displayOrder?: number;
+  } & WallDimensions & WallPlanPlacement,
+  io?: any
+) => {
+  try {
+    // Only curators and admins can update walls
+    if (user.role !== UserRole.CURATOR && user.role !== UserRole.ADMIN) {
+      throw new Error('Only curators can update walls');
+    }
+    
+    const wallRepository = AppDataSource.getRepository(Wall);
+    
+    // Find the wall
+    const wall = await findManageableWall(user, wallId);
+    await ensurePublishedLayout(wall.exhibitionId);
+    
+    // Update the wall
+    if (updates.name) wall.name = updates.name;
+    if (updates.displayOrder !== undefined) {
+      wall.displayOrder = updates.displayOrder;
+    }
+    
+    // Moving the wall on the floor plan; null takes it out of its room or off the plan
+    if (updates.roomId !== undefined) {
+      wall.roomId = updates.roomId ? (await findRoomInExhibition(updates.roomId, wall.exhibitionId)).id : null;
+    }
+    if (updates.planPosition !== undefined) wall.planPosition = updates.planPosition;
+    if (updates.orientation !== undefined) wall.orientation = normalizeOrientation(updates.orientation);
+    
+    // A smaller wall must still hold the artworks already on it
+    const resized = (['width', 'height', 'depth'] as const).some(
+      dimension => updates[dimension] !== undefined && updates[dimension] !== wall[dimension]
+    );
+    if (resized) {
+      wall.width = updates.width ?? wall.width;
+      wall.height = updates.height ?? wall.height;
+      wall.depth = updates.depth ?? wall.depth;
+      
+      const placements = await AppDataSource.getRepository(ArtworkPlacement).find({
+        where: { wallId },
+        relations: ['artwork']
+      });
+      assertValidWallLayout(wall, placements);
+    }
+    
+    const savedWall = await wallRepository.save(wall);
+    emitLayoutChange(io, wall.exhibitionId, { wallId: wall.id, user });
+    
+    return savedWall;
+  } catch (error) {
+    logger.error('Update wall error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a wall
+ */
+export const deleteWall = async (user: User, wallId: string, io?: any) => {
+  try {
+    // Only curators and admins can delete walls
+    if (user.role !== UserRole.CURATOR && user.role !== UserRole.ADMIN) {
+      throw new Error('Only curators can delete walls');
+    }
+    
+    const wallRepository = AppDataSource.getRepository(Wall);
+    
+    // Find the wall
+    const wall = await findManageableWall(user, wallId);
+    await ensurePublishedLayout(wall.exhibitionId);
+    
+    // Delete the wall
+    await wallRepository.remove(wall);
+    emitLayoutChange(io, wall.exhibitionId, { wallId, deleted: true, user });
+    
+    return { success: true, message: 'Wall deleted successfully' };
+  } catch (error) {
+    logger.error('Delete wall error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get an exhibition's floor plan as one document: its rooms with the walls
+ * standing in them, the doorways between rooms and the artworks on every
+ * wall. The 3D viewer builds the exhibition from it.
+ */
+export const getFloorPlan = async (exhibitionId: string, viewer?: User, options: LayoutViewOptions = {}) => {
+  try {
+    const exhibition = await findExhibitionOrFail(exhibitionId);
+
+    assertCanViewExhibitionLayout(exhibition, viewer, options);
+
+    const walls = await findVisibleWalls(exhibition, options, viewer);
+    const { rooms, doorways } = await findVisibleFloorPlan(exhibition, options, viewer);
+    const roomIds = new Set(rooms.map(room => room.id));
+
+    const toPlanWall = (wall: LayoutWall) => ({
+      id: wall.id,
+      name: wall.name,
+      displayOrder: wall.displayOrder,
+      width: wall.width,
+      height: wall.height,
+      depth: wall.depth,
+      position: wall.planPosition,
+      orientation: wall.orientation,
+      placements: wall.placements.map(placement => ({
+        artworkId: placement.artworkId,
+        position: placement.position,
+        coordinates: placement.coordinates || null,
+        rotation: placement.rotation || null,
+        scale: placement.scale || null,
+        title: placement.artwork?.title || null,
+        fileUrl: placement.artwork?.fileUrl || null,
+        // Lets the 3D viewer load sharper tiles as the visitor walks up to the artwork
+        deepZoom: placement.artwork?.deepZoom || null,
+        artistName: placement.artwork?.artist?.username || null
+      }))
+    });
+
+    return {
+      formatVersion: FLOOR_PLAN_FORMAT_VERSION,
+      units: 'metres',
+      exhibitionId: exhibition.id,
+      title: exhibition.title,
+      rooms: rooms.map(room => ({
+        id: room.id,
+        name: room.name,
+        displayOrder: room.displayOrder,
+        footprint: room.footprint,
+        walls: walls.filter(wall => wall.roomId === room.id).map(toPlanWall)
+      })),
+      doorways: doorways.map(doorway => ({
+        id: doorway.id,
+        fromRoomId: doorway.fromRoomId,
+        toRoomId: doorway.toRoomId,
+        position: doorway.position,
+        width: doorway.width
+      })),
+      // Walls not yet stood in a room
+      unplacedWalls: walls.filter(wall => !wall.roomId || !roomIds.has(wall.roomId)).map(toPlanWall)
+    };
+  } catch (error) {
+    logger.error('Get floor plan error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Add a room to an exhibition's floor plan
+ */
+export const createRoom = async (
+  user: User,
+  exhibitionId: string,
+  data: { name: string; footprint: PlanPoint[]; displayOrder?: number },
+  io?: any
+) => {
+  try {
+    // Only curators and admins can create rooms
+    if (user.role !== UserRole.CURATOR && user.role !== UserRole.ADMIN) {
+      throw new Error('Only curators can create rooms');
+    }
+
+    const roomRepository = AppDataSource.getRepository(Room);
+    const exhibition = await findExhibitionOrFail(exhibitionId);
+
+    assertCanManageExhibition(user, exhibition);
+    assertExhibitionEditable(exhibition);
+    assertValidFootprint(data.footprint);
+    await ensurePublishedLayout(exhibition.id);
+
+    let displayOrder = data.displayOrder;
+    if (displayOrder === undefined) {
+      const lastRoom = await roomRepository.findOne({
+        where: { exhibitionId: exhibition.id },
+        order: { displayOrder: 'DESC' }
+      });
+      displayOrder = lastRoom ? lastRoom.displayOrder + 1 : 0;
+    }
+
+    const savedRoom = await roomRepository.save(roomRepository.create({
+      name: data.name,
+      displayOrder,
+      footprint: data.footprint.map(point => ({ x: point.x, y: point.y })),
+      exhibitionId: exhibition.id
+    }));
+    emitLayoutChange(io, exhibition.id, { roomId: savedRoom.id, user });
+
+    return savedRoom;
+  } catch (error) {
+    logger.error('Create room error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Rename, reshape or reorder a room
+ */
+export const updateRoom = async (
+  user: User,
+  roomId: string,
+  updates: { name?: string; footprint?: PlanPoint[]; displayOrder?: number },
+  io?: any
+) => {
+  try {
+    const room = await findManageableRoom(user, roomId);
+    await ensurePublishedLayout(room.exhibitionId);
+
+    if (updates.name) room.name = updates.name;
+    if (updates.displayOrder !== undefined) room.displayOrder = updates.displayOrder;
+    if (updates.footprint) {
+      assertValidFootprint(updates.footprint);
+      room.footprint = updates.footprint.map(point => ({ x: point.x, y: point.y }));
+    }
+
+    const savedRoom = await AppDataSource.getRepository(Room).save(room);
+    emitLayoutChange(io, room.exhibitionId, { roomId: room.id, user });
+
+    return savedRoom;
+  } catch (error) {
+    logger.error('Update room error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a room. Its walls stay in the exhibition, off the floor plan,
+ * and its doorways go with it.
+ */
+export const deleteRoom = async (user: User, roomId: string, io?: any) => {
+  try {
+    const room = await findManageableRoom(user, roomId);
+    await ensurePublishedLayout(room.exhibitionId);
+
+    await AppDataSource.getRepository(Room).remove(room);
+    emitLayoutChange(io, room.exhibitionId, { roomId, deleted: true, user });
+
+    return { success: true, message: 'Room deleted successfully' };
+  } catch (error) {
+    logger.error('Delete room error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Check a doorway joins two different rooms of the exhibition, or one room to outside
+ */
+const assertValidDoorway = async (exhibitionId: string, fromRoomId: string, toRoomId: string | null) => {
+  if (fromRoomId === toRoomId) {
+    throw {
+      code: 400,
+      error: new Error('A doorway must join two different rooms')
+    };
+  }
+
+  await findRoomInExhibition(fromRoomId, exhibitionId);
+  if (toRoomId) {
+    await findRoomInExhibition(toRoomId, exhibitionId);
+  }
+};
+
+/**
+ * Add a doorway between two rooms, or from a room to outside
+ */
+export const createDoorway = async (
+  user: User,
+  exhibitionId: string,
+  data: { fromRoomId: string; toRoomId?: string | null; position: PlanPoint; width?: number },
+  io?: any
+) => {
+  try {
+    // Only curators and admins can create doorways
+    if (user.role !== UserRole.CURATOR && user.role !== UserRole.ADMIN) {
+      throw new Error('Only curators can create doorways');
+    }
+
+    const doorwayRepository = AppDataSource.getRepository(Doorway);
+    const exhibition = await findExhibitionOrFail(exhibitionId);
+
+    assertCanManageExhibition(user, exhibition);
+    assertExhibitionEditable(exhibition);
+    await assertValidDoorway(exhibition.id, data.fromRoomId, data.toRoomId || null);
+    await ensurePublishedLayout(exhibition.id);
+
+    const savedDoorway = await doorwayRepository.save(doorwayRepository.create({
+      exhibitionId: exhibition.id,
+      fromRoomId: data.fromRoomId,
+      toRoomId: data.toRoomId || null,
+      position: { x: data.position.x, y: data.position.y },
+      ...(data.width !== undefined && { width: data.width })
+    }));
+    emitLayoutChange(io, exhibition.id, { roomId: savedDoorway.fromRoomId, user });
+
+    return savedDoorway;
+  } catch (error) {
+    logger.error('Create doorway error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Move, resize or reconnect a doorway
+ */
+export const updateDoorway = async (
+  user: User,
+  doorwayId: string,
+  updates: { fromRoomId?: string; toRoomId?: string | null; position?: PlanPoint; width?: number },
+  io?: any
+) => {
+  try {
+    const doorway = await findManageableDoorway(user, doorwayId);
+    await ensurePublishedLayout(doorway.exhibitionId);
+
+    if (updates.fromRoomId !== undefined || updates.toRoomId !== undefined) {
+      const fromRoomId = updates.fromRoomId ?? doorway.fromRoomId;
+      const toRoomId = updates.toRoomId !== undefined ? updates.toRoomId : doorway.toRoomId;
+
+      await assertValidDoorway(doorway.exhibitionId, fromRoomId, toRoomId);
+      doorway.fromRoomId = fromRoomId;
+      doorway.toRoomId = toRoomId;
+    }
+    if (updates.position) doorway.position = { x: updates.position.x, y: updates.position.y };
+    if (updates.width !== undefined) doorway.width = updates.width;
+
+    const savedDoorway = await AppDataSource.getRepository(Doorway).save(doorway);
+    emitLayoutChange(io, doorway.exhibitionId, { roomId: doorway.fromRoomId, user });
+
+    return savedDoorway;
+  } catch (error) {
+    logger.error('Update doorway error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a doorway
+ */
+export const deleteDoorway = async (user: User, doorwayId: string, io?: any) => {
+  try {
+    const doorway = await findManageableDoorway(user, doorwayId);
+    await ensurePublishedLayout(doorway.exhibitionId);
+
+    await AppDataSource.getRepository(Doorway).remove(doorway);
+    emitLayoutChange(io, doorway.exhibitionId, { roomId: doorway.fromRoomId, user });
+
+    return { success: true, message: 'Doorway deleted successfully' };
+  } catch (error) {
+    logger.error('Delete doorway error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Slots whose artwork differs between two sets of placements. Freely placed
+ * artworks share the custom slot, which changes when any of them is added,
+ * removed or moved.
+ */
+const findChangedSlots = (before: PlacementInput[], after: PlacementInput[]) => {
+  const slots = [PlacementPosition.LEFT, PlacementPosition.CENTER, PlacementPosition.RIGHT];
+  const artworkAt = (placements: PlacementInput[], position: PlacementPosition) =>
+    placements.find(placement => placement.position === position)?.artworkId;
+
+  const toVector = (vector?: { x: number; y: number; z: number } | null) =>
+    vector ? [vector.x, vector.y, vector.z] : null;
+  const customPlacements = (placements: PlacementInput[]) =>
+    placements
+      .map(toPlacementSnapshot)
+      .filter(placement => placement.position === PlacementPosition.CUSTOM)
+      .map(placement => JSON.stringify([
+        placement.artworkId,
+        toVector(placement.coordinates),
+        toVector(placement.rotation),
+        toVector(placement.scale)
+      ]))
+      .sort()
+      .join();
+
+  const changed = slots.filter(position => artworkAt(before, position) !== artworkAt(after, position));
+
+  if (customPlacements(before) !== customPlacements(after)) {
+    changed.push(PlacementPosition.CUSTOM);
+  }
+
+  return changed;
+};
+
+/**
+ * Swap a wall's placements for a new set and record the result as the next
+ * layout version. Walls laid out before versioning get their old arrangement
+ * recorded first so it can still be restored.
+ *
+ * When the editor says which layout revision it started from, the save is
+ * refused if anyone has saved the wall since, so their work is never lost.
+ */
+const saveWallLayout = async (
+  user: User,
+  wallId: string,
+  placements: PlacementInput[],
+  options: { expectedRevision?: number; restoredFromVersion?: number | null } = {}
+) => {
+  if (!placements || !Array.isArray(placements)) {
+    throw new Error('Invalid placement data');
+  }
+
+  return await AppDataSource.transaction(async transactionalEntityManager => {
+    // Lock the wall so concurrent saves get consecutive version numbers
+    const wall = await transactionalEntityManager.getRepository(Wall).findOne({
+      where: { id: wallId },
+      lock: { mode: 'pessimistic_write' }
+    });
+
+    if (!wall) {
+      throw {
+        code: 404,
+        error: new Error('Wall not found')
+      };
+    }
+
+    if (options.expectedRevision !== undefined && options.expectedRevision !== wall.layoutRevision) {
+      throw {
+        code: 409,
+        error: new Error('Another curator changed this wall while you were editing. Reload it to see their changes.')
+      };
+    }
+
+    const placementRepository = transactionalEntityManager.getRepository(ArtworkPlacement);
+    const versionRepository = transactionalEntityManager.getRepository(WallLayoutVersion);
+
+    const existingPlacements = await placementRepository.find({ where: { wallId } });
+
+    // Leave alone the slots another curator is in the middle of working on
+    assertPlacementsUnlocked(user.id, wallId, findChangedSlots(existingPlacements, placements));
+    const latestVersion = await versionRepository.findOne({
+      where: { wallId },
+      order: { version: 'DESC' }
+    });
+
+    let nextVersion = latestVersion ? latestVersion.version + 1 : 1;
+
+    if (!latestVersion && existingPlacements.length > 0) {
+      await versionRepository.save(versionRepository.create({
+        wallId,
+        version: nextVersion,
+        placements: existingPlacements.map(toPlacementSnapshot),
+        createdById: null,
+        restoredFromVersion: null
+      }));
+      nextVersion += 1;
+    }
+
+    // Remove all existing placements for this wall
+    if (existingPlacements.length > 0) {
+      await transactionalEntityManager.remove(existingPlacements);
+    }
+
+    const newPlacements: ArtworkPlacement[] = [];
+
+    for (const placementData of placements) {
+      // Verify the artwork exists and is approved
+      const artwork = await transactionalEntityManager.getRepository(Artwork).findOne({
+        where: {
+          id: placementData.artworkId,
+          status: ArtworkStatus.APPROVED
+        }
+      });
+
+      if (!artwork) {
+        throw new Error(`Artwork with ID ${placementData.artworkId} not found or not approved`);
+      }
+
+      const placement = new ArtworkPlacement();
+      placement.wall = wall;
+      placement.wallId = wall.id;
+      placement.artwork = artwork;
+      placement.artworkId = artwork.id;
+      placement.position = placementData.position || PlacementPosition.CUSTOM;
+
+      if (placementData.coordinates) {
+        placement.coordinates = placementData.coordinates;
+      }
+
+      if (placementData.rotation) {
+        placement.rotation = placementData.rotation;
+      }
+
+      if (placementData.scale) {
+        placement.scale = placementData.scale;
+      }
+
+      newPlacements.push(placement);
+    }
+
+    // Reject artworks that run off the wall or into each other
+    assertValidWallLayout(wall, newPlacements);
+
+    // Save all new placements
+    await transactionalEntityManager.save(newPlacements);
+
+    await versionRepository.save(versionRepository.create({
+      wallId,
+      version: nextVersion,
+      placements: newPlacements.map(toPlacementSnapshot),
+      createdById: user.id,
+      restoredFromVersion: options.restoredFromVersion ?? null
+    }));
+
+    const layoutRevision = wall.layoutRevision + 1;
+    await transactionalEntityManager.getRepository(Wall).update(wall.id, { layoutRevision });
+
+    // Get the updated wall with its placements
+    const updatedWall = await transactionalEntityManager.getRepository(Wall).findOne({
+      where: { id: wall.id },
+      relations: ['placements', 'placements.artwork', 'placements.artwork.artist']
+    });
+
+    return { ...updatedWall, layoutRevision, layoutVersion: nextVersion };
+  });
+};
 
 /**
- * Get the active exhibition with all walls and artwork placements
+ * Update the layout of artworks on a wall
  */
-export const getExhibition = async () => {
+export const updateWallLayout = async (
+  user: User,
+  wallId: string,
+  placements: PlacementInput[],
+  expectedRevision?: number,
+  io?: any
+) => {
   try {
-    const exhibitionRepository = AppDataSource.getRepository(Exhibition);
-    
-    // Get the active exhibition (or the most recently created one if none is active)
-    let exhibition = await exhibitionRepository.findOne({
-      where: { isActive: true },
-      relations: ['curator', 'walls', 'walls.placements', 'walls.placements.artwork', 'walls.placements.artwork.artist']
-    });
-    
-    if (!exhibition) {
-      // Find the most recent exhibition if none is active
-      exhibition = await exhibitionRepository.findOne({
-        order: { createdAt: 'DESC' },
-        relations: ['curator', 'walls', 'walls.placements', 'walls.placements.artwork', 'walls.placements.artwork.artist']
-      });
-    }
-    
-    if (!exhibition) {
-      throw new Error('No exhibition found');
+    // Only curators and admins can update layouts
+    if (user.role !== UserRole.CURATOR && user.role !== UserRole.ADMIN) {
+      throw new Error('Only curators can update layouts');
     }
     
-    // Sort the walls by display order
-    if (exhibition.walls) {
-      exhibition.walls.sort((a, b) => a.displayOrder - b.displayOrder);
-      
-      // For each wall, make sure the placements are ordered by position
-      exhibition.walls.forEach(wall => {
-        if (wall.placements) {
-          // Custom sort logic for positions (left, center, right, custom)
-          wall.placements.sort((a, b) => {
-            const positionOrder = {
-              [PlacementPosition.LEFT]: 0,
-              [PlacementPosition.CENTER]: 1,
-              [PlacementPosition.RIGHT]: 2,
-              [PlacementPosition.CUSTOM]: 3
-            };
-            return positionOrder[a.position] - positionOrder[b.position];
-          });
-        }
-      });
-    }
+    // Check the user may edit this wall
+    const wall = await findManageableWall(user, wallId);
+    await ensurePublishedLayout(wall.exhibitionId);
     
-    return exhibition;
+    const updatedWall = await saveWallLayout(user, wallId, placements, { expectedRevision });
+    emitLayoutChange(io, wall.exhibitionId, { wallId, layoutRevision: updatedWall.layoutRevision, user });
+
+    return updatedWall;
   } catch (error) {
-    logger.error('Get exhibition error:', error);
+    logger.error('Update wall layout error:', error);
     throw error;
   }
 };
 
 /**
- * Create or update the exhibition
+ * Propose a layout for a wall from a set of approved artworks. Nothing is
+ * saved: the curator reviews and adjusts the proposal, then saves it as a
+ * normal layout update.
+ * @param user The curator asking
+ * @param wallId Wall to lay out
+ * @param artworkIds Approved artworks to hang, in the curator's order
+ * @param options Strategy and grouping
  */
-export const createOrUpdateExhibition = async (
+export const previewAutoLayout = async (
   user: User,
-  title: string,
-  description: string,
-  startDate: string,
-  endDate: string,
-  isActive?: boolean
+  wallId: string,
+  artworkIds: string[],
+  options: AutoLayoutOptions
 ) => {
   try {
-    // Only curators and admins can create or update exhibitions
-    if (user.role !== UserRole.CURATOR && user.role !== UserRole.ADMIN) {
-      throw new Error('Only curators can create exhibitions');
-    }
-    
-    const exhibitionRepository = AppDataSource.getRepository(Exhibition);
-    
-    // Find existing exhibition
-    let exhibition = await exhibitionRepository.findOne({
-      where: { isActive: true }
+    const wall = await findManageableWall(user, wallId);
+
+    const uniqueIds = [...new Set(artworkIds)];
+    const artworks = await AppDataSource.getRepository(Artwork).find({
+      where: { id: In(uniqueIds), status: ArtworkStatus.APPROVED },
+      relations: ['artist']
     });
-    
-    if (!exhibition) {
-      // Create new exhibition if none exists
-      exhibition = new Exhibition();
+
+    if (artworks.length !== uniqueIds.length) {
+      throw {
+        code: 400,
+        error: new Error('Some artworks were not found or are not approved')
+      };
     }
-    
-    // Update exhibition fields
-    exhibition.title = title;
-    exhibition.description = description;
-    exhibition.curator = user;
-    exhibition.curatorId = user.id;
-    exhibition.startDate = new Date(startDate);
-    exhibition.endDate = new Date(endDate);
-    exhibition.isActive = isActive || false;
-    
-    const savedExhibition = await exhibitionRepository.save(exhibition);
-    
-    return savedExhibition;
+
+    // Keep the order the curator picked the artworks in
+    const artworksById = new Map(artworks.map(artwork => [artwork.id, artwork]));
+    const orderedArtworks = uniqueIds.map(id => artworksById.get(id) as Artwork);
+
+    const { placements, unplaced } = generateWallLayout(wall, orderedArtworks, options);
+    const proposed = placements.map(placement => ({
+      ...placement,
+      artwork: artworksById.get(placement.artworkId) as Artwork
+    }));
+
+    return {
+      wallId: wall.id,
+      layoutRevision: wall.layoutRevision,
+      strategy: options.strategy,
+      groupBy: options.groupBy || null,
+      placements: proposed,
+      unplaced,
+      // Empty unless the proposal breaks a rule the generator doesn't know about
+      issues: validateWallLayout(wall, proposed)
+    };
   } catch (error) {
-    logger.error('Create/update exhibition error:', error);
+    logger.error('Preview auto layout error:', error);
     throw error;
   }
 };
 
 /**
- * Get all walls for the exhibition
+ * Find a wall whose layout history the user may read. Unlike editing,
+ * this stays open once the exhibition has closed.
+ */
+const findWallWithHistory = async (user: User, wallId: string) => {
+  const wall = await AppDataSource.getRepository(Wall).findOne({
+    where: { id: wallId },
+    relations: ['exhibition']
+  });
+
+  if (!wall) {
+    throw {
+      code: 404,
+      error: new Error('Wall not found')
+    };
+  }
+
+  assertCanManageExhibition(user, wall.exhibition);
+
+  return wall;
+};
+
+/**
+ * Find one layout version of a wall or throw a 404
+ */
+const findLayoutVersionOrFail = async (wallId: string, version: number) => {
+  const layoutVersion = await AppDataSource.getRepository(WallLayoutVersion).findOne({
+    where: { wallId, version },
+    relations: ['createdBy']
+  });
+
+  if (!layoutVersion) {
+    throw {
+      code: 404,
+      error: new Error(`Layout version ${version} not found`)
+    };
+  }
+
+  return layoutVersion;
+};
+
+/**
+ * Strip a layout version down to what clients need to show it
  */
-export const getWalls = async () => {
+const toLayoutVersionResponse = (layoutVersion: WallLayoutVersion) => ({
+  id: layoutVersion.id,
+  wallId: layoutVersion.wallId,
+  version: layoutVersion.version,
+  placements: layoutVersion.placements,
+  placementCount: layoutVersion.placements.length,
+  createdBy: layoutVersion.createdBy
+    ? { id: layoutVersion.createdBy.id, username: layoutVersion.createdBy.username }
+    : null,
+  restoredFromVersion: layoutVersion.restoredFromVersion,
+  createdAt: layoutVersion.createdAt
+});
+
+/**
+ * Get every saved layout of a wall, newest first
+ */
+export const getWallLayoutVersions = async (user: User, wallId: string) => {
   try {
-    const wallRepository = AppDataSource.getRepository(Wall);
-    const exhibitionRepository = AppDataSource.getRepository(Exhibition);
-    
-    // Get the active exhibition (or the most recently created one if none is active)
-    const exhibition = await exhibitionRepository.findOne({
-      where: { isActive: true },
-      order: { createdAt: 'DESC' }
-    });
-    
-    if (!exhibition) {
-      throw new Error('No exhibition found');
-    }
-    
-    // Get all walls for the exhibition
-    const walls = await wallRepository.find({
-      where: { exhibitionId: exhibition.id },
-      order: { displayOrder: 'ASC' },
-      relations: ['placements', 'placements.artwork', 'placements.artwork.artist']
+    await findWallWithHistory(user, wallId);
+
+    const versions = await AppDataSource.getRepository(WallLayoutVersion).find({
+      where: { wallId },
+      relations: ['createdBy'],
+      order: { version: 'DESC' }
     });
-    
-    return walls;
+
+    return versions.map(toLayoutVersionResponse);
   } catch (error) {
-    logger.error('Get walls error:', error);
+    logger.error('Get wall layout versions error:', error);
     throw error;
   }
 };
 
 /**
- * Create a new wall in the exhibition
+ * Compare two layout versions of a wall. Defaults to the latest version
+ * against the one before it.
  */
-export const createWall = async (user: User, name: string) => {
+export const getWallLayoutDiff = async (
+  user: User,
+  wallId: string,
+  fromVersion?: number,
+  toVersion?: number
+) => {
   try {
-    // Only curators and admins can create walls
-    if (user.role !== UserRole.CURATOR && user.role !== UserRole.ADMIN) {
-      throw new Error('Only curators can create walls');
+    await findWallWithHistory(user, wallId);
+
+    if (toVersion === undefined) {
+      const latest = await AppDataSource.getRepository(WallLayoutVersion).findOne({
+        where: { wallId },
+        order: { version: 'DESC' }
+      });
+
+      if (!latest) {
+        throw {
+          code: 404,
+          error: new Error('This wall has no saved layouts yet')
+        };
+      }
+
+      toVersion = latest.version;
     }
-    
-    const wallRepository = AppDataSource.getRepository(Wall);
-    const exhibitionRepository = AppDataSource.getRepository(Exhibition);
-    
-    // Get the current exhibition
-    const exhibition = await exhibitionRepository.findOne({
-      where: { isActive: true },
-    });
-    
-    if (!exhibition) {
-      throw new Error('No exhibition found. Create an exhibition first.');
+
+    if (fromVersion === undefined) {
+      fromVersion = toVersion - 1;
     }
-    
-    // Find the highest display order of existing walls
-    const lastWall = await wallRepository.findOne({
-      where: { exhibitionId: exhibition.id },
-      order: { displayOrder: 'DESC' }
-    });
-    
-    const newDisplayOrder = lastWall ? lastWall.displayOrder + 1 : 0;
-    
-    // Create the new wall
-    const wall = new Wall();
-    wall.name = name;
-    wall.displayOrder = newDisplayOrder;
-    wall.exhibition = exhibition;
-    wall.exhibitionId = exhibition.id;
-    
-    const savedWall = await wallRepository.save(wall);
-    
-    return savedWall;
+
+    const to = await findLayoutVersionOrFail(wallId, toVersion);
+    // Comparing against version 0 shows the first layout against an empty wall
+    const from = fromVersion > 0 ? await findLayoutVersionOrFail(wallId, fromVersion) : null;
+
+    const before = new Map((from?.placements || []).map(placement => [placement.artworkId, placement]));
+    const after = new Map(to.placements.map(placement => [placement.artworkId, placement]));
+
+    const artworkIds = [...new Set([...before.keys(), ...after.keys()])];
+    const artworks = artworkIds.length > 0
+      ? await AppDataSource.getRepository(Artwork).find({ where: { id: In(artworkIds) } })
+      : [];
+    const titles = new Map(artworks.map(artwork => [artwork.id, artwork.title]));
+    const titleOf = (artworkId: string) => titles.get(artworkId) || 'Deleted artwork';
+
+    const added = [...after.values()]
+      .filter(placement => !before.has(placement.artworkId))
+      .map(placement => ({ artworkId: placement.artworkId, title: titleOf(placement.artworkId), placement }));
+
+    const removed = [...before.values()]
+      .filter(placement => !after.has(placement.artworkId))
+      .map(placement => ({ artworkId: placement.artworkId, title: titleOf(placement.artworkId), placement }));
+
+    const moved = [...after.values()]
+      .filter(placement => {
+        const previous = before.get(placement.artworkId);
+        return previous && JSON.stringify(toPlacementSnapshot(previous)) !== JSON.stringify(toPlacementSnapshot(placement));
+      })
+      .map(placement => ({
+        artworkId: placement.artworkId,
+        title: titleOf(placement.artworkId),
+        before: before.get(placement.artworkId) as LayoutPlacementSnapshot,
+        after: placement
+      }));
+
+    return {
+      from: from ? toLayoutVersionResponse(from) : null,
+      to: toLayoutVersionResponse(to),
+      added,
+      removed,
+      moved
+    };
   } catch (error) {
-    logger.error('Create wall error:', error);
+    logger.error('Get wall layout diff error:', error);
     throw error;
   }
 };
 
 /**
- * Update a wall
+ * Put an earlier layout back on a wall. The restore is saved as a new
+ * version so the layout it replaces stays in the history.
  */
-export const updateWall = async (
+export const rollbackWallLayout = async (
   user: User,
   wallId: string,
-  updates: {
-    name?: string;
-    displayOrder?: number;
-  }
+  version: number,
+  expectedRevision?: number,
+  io?: any
 ) => {
   try {
-    // Only curators and admins can update walls
     if (user.role !== UserRole.CURATOR && user.role !== UserRole.ADMIN) {
-      throw new Error('Only curators can update walls');
+      throw new Error('Only curators can update layouts');
     }
-    
-    const wallRepository = AppDataSource.getRepository(Wall);
-    
-    // Find the wall
-    const wall = await wallRepository.findOne({
-      where: { id: wallId }
+
+    const wall = await findManageableWall(user, wallId);
+    await ensurePublishedLayout(wall.exhibitionId);
+
+    const target = await findLayoutVersionOrFail(wallId, version);
+
+    const updatedWall = await saveWallLayout(user, wallId, target.placements, {
+      expectedRevision,
+      restoredFromVersion: target.version
     });
-    
-    if (!wall) {
-      throw new Error('Wall not found');
-    }
-    
-    // Update the wall
-    if (updates.name) wall.name = updates.name;
-    if (updates.displayOrder !== undefined) {
-      wall.displayOrder = updates.displayOrder;
-    }
-    
-    const savedWall = await wallRepository.save(wall);
-    
-    return savedWall;
+    emitLayoutChange(io, wall.exhibitionId, { wallId, layoutRevision: updatedWall.layoutRevision, user });
+
+    return updatedWall;
   } catch (error) {
-    logger.error('Update wall error:', error);
+    logger.error('Rollback wall layout error:', error);
     throw error;
   }
 };
 
 /**
- * Delete a wall
+ * Promote the draft walls to the layout visitors see, in one update
  */
-export const deleteWall = async (user: User, wallId: string) => {
+export const publishExhibitionLayout = async (user: User, id: string, io?: any) => {
   try {
-    // Only curators and admins can delete walls
-    if (user.role !== UserRole.CURATOR && user.role !== UserRole.ADMIN) {
-      throw new Error('Only curators can delete walls');
-    }
-    
-    const wallRepository = AppDataSource.getRepository(Wall);
-    
-    // Find the wall
-    const wall = await wallRepository.findOne({
-      where: { id: wallId }
+    const exhibition = await findExhibitionOrFail(id);
+
+    assertCanManageExhibition(user, exhibition);
+    assertExhibitionEditable(exhibition);
+
+    const walls = await findDraftWalls(exhibition.id);
+    const floorPlan = await findDraftFloorPlan(exhibition.id);
+    const layoutPublishedAt = new Date();
+
+    await AppDataSource.getRepository(Exhibition).update(exhibition.id, {
+      publishedLayout: buildPublishedLayout(walls, floorPlan),
+      layoutPublishedAt
     });
-    
-    if (!wall) {
-      throw new Error('Wall not found');
+
+    logger.info(`Layout of exhibition ${exhibition.id} published by ${user.id}`);
+
+    // Visitors in the exhibition reload to pick up the new layout
+    if (io) {
+      io.to(`exhibition:${exhibition.id}`).emit('exhibition:layout-published', {
+        id: exhibition.id,
+        layoutPublishedAt
+      });
     }
-    
-    // Delete the wall
-    await wallRepository.remove(wall);
-    
-    return { success: true, message: 'Wall deleted successfully' };
+
+    return { layoutPublishedAt, hasUnpublishedChanges: false };
   } catch (error) {
-    logger.error('Delete wall error:', error);
+    logger.error('Publish exhibition layout error:', error);
     throw error;
   }
 };
 
 /**
- * Update the layout of artworks on a wall
+ * Tell the curator when the layout was last published and whether
+ * the draft has moved on since
  */
-export const updateWallLayout = async (
-  user: User,
-  wallId: string,
-  placements: Array<{
-    artworkId: string;
-    position?: PlacementPosition;
-    coordinates?: { x: number; y: number; z: number };
-    rotation?: { x: number; y: number; z: number };
-    scale?: { x: number; y: number; z: number };
-  }>
-) => {
+export const getLayoutPublishStatus = async (user: User, id: string) => {
   try {
-    // Only curators and admins can update layouts
-    if (user.role !== UserRole.CURATOR && user.role !== UserRole.ADMIN) {
-      throw new Error('Only curators can update layouts');
-    }
-    
-    const wallRepository = AppDataSource.getRepository(Wall);
-    const artworkRepository = AppDataSource.getRepository(Artwork);
-    
-    // Find the wall
-    const wall = await wallRepository.findOne({
-      where: { id: wallId },
-      relations: ['placements']
-    });
-    
-    if (!wall) {
-      throw new Error('Wall not found');
+    const exhibition = await findExhibitionOrFail(id);
+
+    assertCanManageExhibition(user, exhibition);
+
+    const publishedLayout = await findPublishedLayout(exhibition.id);
+
+    // Exhibitions laid out before drafts existed show their draft directly
+    if (!publishedLayout) {
+      return { layoutPublishedAt: exhibition.layoutPublishedAt, hasUnpublishedChanges: false };
     }
-    
-    // Start a transaction
-    return await AppDataSource.transaction(async transactionalEntityManager => {
-      // Remove all existing placements for this wall
-      if (wall.placements && wall.placements.length > 0) {
-        await transactionalEntityManager.remove(wall.placements);
-      }
-      
-      // Create new placements from the request
-      if (!placements || !Array.isArray(placements)) {
-        throw new Error('Invalid placement data');
-      }
-      
-      const newPlacements: ArtworkPlacement[] = [];
-      
-      for (const placementData of placements) {
-        // Verify the artwork exists and is approved
-        const artwork = await artworkRepository.findOne({
-          where: { 
-            id: placementData.artworkId,
-            status: ArtworkStatus.APPROVED
-          }
-        });
-        
-        if (!artwork) {
-          throw new Error(`Artwork with ID ${placementData.artworkId} not found or not approved`);
-        }
-        
-        const placement = new ArtworkPlacement();
-        placement.wall = wall;
-        placement.wallId = wall.id;
-        placement.artwork = artwork;
-        placement.artworkId = artwork.id;
-        placement.position = placementData.position || PlacementPosition.CUSTOM;
-        
-        if (placementData.coordinates) {
-          placement.coordinates = placementData.coordinates;
-        }
-        
-        if (placementData.rotation) {
-          placement.rotation = placementData.rotation;
-        }
-        
-        if (placementData.scale) {
-          placement.scale = placementData.scale;
-        }
-        
-        newPlacements.push(placement);
-      }
-      
-      // Save all new placements
-      await transactionalEntityManager.save(newPlacements);
-      
-      // Get the updated wall with its placements
-      const updatedWall = await wallRepository.findOne({
-        where: { id: wall.id },
-        relations: ['placements', 'placements.artwork', 'placements.artwork.artist']
-      });
-      
-      return updatedWall;
-    });
+
+    // Rebuild both sides the same way so key order from jsonb doesn't matter
+    const draftLayout = buildPublishedLayout(
+      await findDraftWalls(exhibition.id),
+      await findDraftFloorPlan(exhibition.id)
+    );
+
+    return {
+      layoutPublishedAt: exhibition.layoutPublishedAt,
+      hasUnpublishedChanges:
+        JSON.stringify(draftLayout) !== JSON.stringify(buildPublishedLayout(publishedLayout.walls, publishedLayout))
+    };
   } catch (error) {
-    logger.error('Update wall layout error:', error);
+    logger.error('Get layout publish status error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Create a short-lived link for the Unity viewer to load the draft layout
+ */
+export const createLayoutPreviewToken = async (user: User, id: string) => {
+  try {
+    const exhibition = await findExhibitionOrFail(id);
+
+    assertCanManageExhibition(user, exhibition);
+
+    const token = jwt.sign(
+      { exhibitionId: exhibition.id },
+      process.env.JWT_PREVIEW_SECRET as string,
+      { expiresIn: LAYOUT_PREVIEW_EXPIRY }
+    );
+    const { exp } = jwt.decode(token) as { exp: number };
+
+    return { token, expiresAt: new Date(exp * 1000) };
+  } catch (error) {
+    logger.error('Create layout preview token error:', error);
     throw error;
   }
 };
@@ -380,15 +1825,13 @@ export const getArtworksForPlacement = async () => {
 /**
  * Get walls with their images by exhibition ID
  */
-export const getWallsWithImages = async (exhibitionId: string) => {
+export const getWallsWithImages = async (exhibitionId: string, viewer?: User, options: LayoutViewOptions = {}) => {
   try {
-    const walls = await AppDataSource.getRepository(Wall).find({
-      where: { exhibitionId },
-      relations: ['placements', 'placements.artwork'],
-      order: {
-        displayOrder: 'ASC'
-      }
-    });
+    const exhibition = await findExhibitionOrFail(exhibitionId);
+
+    assertCanViewExhibitionLayout(exhibition, viewer, options);
+
+    const walls = await findVisibleWalls(exhibition, options, viewer);
 
     const wallResults = walls.map(wall => {
       const images: Record<'left' | 'center' | 'right', { fileUrl: string | null; artId: string | null } | null> = {
@@ -413,6 +1856,7 @@ export const getWallsWithImages = async (exhibitionId: string) => {
       return {
         wallId: wall.id,
         name: wall.name,
+        dimensions: { width: wall.width, height: wall.height, depth: wall.depth },
         images
       };
     });
@@ -0,0 +1,435 @@
+import { randomInt, randomUUID } from 'crypto';
+import { Server, Socket } from 'socket.io';
+import { AppDataSource } from '../config/database';
+import { User, UserRole } from '../entities/User';
+import { assertCanViewExhibition, findExhibitionOrFail } from './exhibition.service';
+import { logger } from '../utils/logger';
+
+// Docents sign in as curators
+const GUIDE_ROLES = [UserRole.CURATOR, UserRole.ADMIN];
+// Join codes avoid characters that are easy to misread aloud or on a sign
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+// The guide's camera is relayed at most this often
+const CAMERA_MIN_INTERVAL_MS = 100;
+// Followers may ask one question this often
+const QUESTION_MIN_INTERVAL_MS = 5000;
+const MAX_QUESTION_LENGTH = 500;
+const MAX_DISPLAY_NAME_LENGTH = 40;
+const MAX_GUEST_TOKEN_LENGTH = 100;
+
+interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface GroupTourFollower {
+  socketId: string;
+  // null for followers who are not signed in
+  userId: string | null;
+  displayName: string;
+  handRaised: boolean;
+  // Muted followers cannot raise their hand or ask questions
+  muted: boolean;
+  joinedAt: Date;
+}
+
+export interface GroupTourQuestion {
+  id: string;
+  socketId: string;
+  displayName: string;
+  text: string;
+  askedAt: Date;
+  answered: boolean;
+}
+
+// What the server keeps about a follower besides what the guide sees
+type FollowerEntry = GroupTourFollower & {
+  lastQuestionAt: number;
+  // The signed-in user or the browser's guest token, which kicks are recorded against
+  kickKey: string;
+};
+
+interface GroupTourSession {
+  id: string;
+  code: string;
+  exhibitionId: string;
+  guideSocketId: string;
+  guideUserId: string;
+  guideName: string;
+  followers: Map<string, FollowerEntry>;
+  questions: GroupTourQuestion[];
+  // Users and guests the guide removed; they cannot join again with the code
+  kicked: Set<string>;
+  // What a follower joining late is brought up to
+  camera: { position: Vector3; heading: number } | null;
+  cameraAt: number;
+  selectedArtworkId: string | null;
+  startedAt: Date;
+}
+
+type Ack = (result: { ok: boolean; error?: string; [key: string]: unknown }) => void;
+
+// Running sessions, keyed by id and by join code
+const sessions = new Map<string, GroupTourSession>();
+const sessionsByCode = new Map<string, GroupTourSession>();
+
+const sessionRoom = (sessionId: string) => `group-tour:${sessionId}`;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isVector3 = (value: any): value is Vector3 =>
+  !!value && isNumber(value.x) && isNumber(value.y) && isNumber(value.z);
+
+const toAck = (callback: unknown): Ack =>
+  typeof callback === 'function' ? callback as Ack : () => undefined;
+
+const errorMessage = (error: any) =>
+  error?.error instanceof Error ? error.error.message : 'Something went wrong';
+
+const generateCode = () => {
+  let code: string;
+  do {
+    code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+  } while (sessionsByCode.has(code));
+  return code;
+};
+
+// What everyone in the session may know about it
+const toSummary = (session: GroupTourSession) => ({
+  id: session.id,
+  code: session.code,
+  exhibitionId: session.exhibitionId,
+  guideName: session.guideName,
+  followerCount: session.followers.size,
+  startedAt: session.startedAt
+});
+
+const toFollower = ({ lastQuestionAt: _lastQuestionAt, kickKey: _kickKey, ...follower }: FollowerEntry) =>
+  follower;
+
+/**
+ * Tell the guide who is following, and everyone how many
+ */
+const emitFollowers = (io: Server, session: GroupTourSession) => {
+  io.to(session.guideSocketId).emit('group-tour:followers', {
+    sessionId: session.id,
+    followers: [...session.followers.values()].map(toFollower)
+  });
+  io.to(sessionRoom(session.id)).emit('group-tour:state', toSummary(session));
+};
+
+/**
+ * Find the session a socket is guiding
+ */
+const findGuidedSession = (socket: Socket, sessionId: string) => {
+  const session = sessions.get(sessionId);
+  return session && session.guideSocketId === socket.id ? session : undefined;
+};
+
+/**
+ * Close a session and send its followers back to exploring on their own
+ */
+const endSession = (io: Server, session: GroupTourSession, reason: 'ended' | 'guide-left') => {
+  sessions.delete(session.id);
+  sessionsByCode.delete(session.code);
+
+  io.to(sessionRoom(session.id)).emit('group-tour:ended', { sessionId: session.id, reason });
+  io.in(sessionRoom(session.id)).socketsLeave(sessionRoom(session.id));
+
+  logger.info(`Group tour ${session.code} of exhibition ${session.exhibitionId} ended (${reason})`);
+};
+
+/**
+ * Take a follower out of a session
+ */
+const removeFollower = (io: Server, session: GroupTourSession, socketId: string) => {
+  if (!session.followers.delete(socketId)) return false;
+
+  io.in(socketId).socketsLeave(sessionRoom(session.id));
+  emitFollowers(io, session);
+  return true;
+};
+
+/**
+ * Look up the socket's signed-in user, if any. The handshake verified who
+ * they are, so guide rights can rest on it.
+ */
+const findSocketUser = async (socket: Socket) => {
+  const userId = socket.data?.userId;
+  if (!userId) return null;
+  return AppDataSource.getRepository(User).findOne({ where: { id: userId } });
+};
+
+/**
+ * Wire up docent-led group tours on a socket. A guide starts a session for an
+ * exhibition and shares its code; followers who join with it see the guide's
+ * camera and selected artworks, and can raise a hand or ask questions.
+ * @param io Socket.io server
+ * @param socket The connecting socket
+ */
+export const registerGroupTours = (io: Server, socket: Socket) => {
+  // The session this socket guides or follows; one at a time
+  let guidedSessionId: string | null = null;
+  let followedSessionId: string | null = null;
+
+  const leaveFollowed = () => {
+    const session = followedSessionId ? sessions.get(followedSessionId) : undefined;
+    followedSessionId = null;
+    if (session) {
+      removeFollower(io, session, socket.id);
+    }
+  };
+
+  socket.on('group-tour:start', async (data: { exhibitionId: string }, callback?: Ack) => {
+    const respond = toAck(callback);
+    try {
+      if (guidedSessionId || followedSessionId) {
+        respond({ ok: false, error: 'Leave your current group tour first' });
+        return;
+      }
+
+      const user = await findSocketUser(socket);
+      if (!user || !GUIDE_ROLES.includes(user.role)) {
+        respond({ ok: false, error: 'Only curators can guide group tours' });
+        return;
+      }
+
+      const exhibition = await findExhibitionOrFail(data?.exhibitionId);
+      assertCanViewExhibition(exhibition, user);
+
+      const session: GroupTourSession = {
+        id: randomUUID(),
+        code: generateCode(),
+        exhibitionId: exhibition.id,
+        guideSocketId: socket.id,
+        guideUserId: user.id,
+        guideName: user.username,
+        followers: new Map(),
+        questions: [],
+        kicked: new Set(),
+        camera: null,
+        cameraAt: 0,
+        selectedArtworkId: null,
+        startedAt: new Date()
+      };
+      sessions.set(session.id, session);
+      sessionsByCode.set(session.code, session);
+      guidedSessionId = session.id;
+
+      logger.info(`Group tour ${session.code} of exhibition ${exhibition.id} started by ${user.username}`);
+      respond({ ok: true, session: toSummary(session) });
+    } catch (error) {
+      logger.error('Start group tour error:', error);
+      respond({ ok: false, error: errorMessage(error) });
+    }
+  });
+
+  socket.on('group-tour:join', async (
+    data: { exhibitionId: string; code: string; displayName?: string; guestToken?: string },
+    callback?: Ack
+  ) => {
+    const respond = toAck(callback);
+    try {
+      if (guidedSessionId) {
+        respond({ ok: false, error: 'You are guiding a group tour' });
+        return;
+      }
+
+      const session = sessionsByCode.get(String(data?.code || '').trim().toUpperCase());
+      if (!session) {
+        respond({ ok: false, error: 'No group tour has that code' });
+        return;
+      }
+      if (session.exhibitionId !== data.exhibitionId) {
+        respond({ ok: false, error: 'That code is for a tour of another exhibition' });
+        return;
+      }
+
+      const user = await findSocketUser(socket);
+      const guestToken = typeof data.guestToken === 'string' ? data.guestToken.trim() : '';
+      if (!user && (!guestToken || guestToken.length > MAX_GUEST_TOKEN_LENGTH)) {
+        respond({ ok: false, error: 'Guests must send a guest token' });
+        return;
+      }
+
+      const kickKey = user ? `user:${user.id}` : `guest:${guestToken}`;
+      if (session.kicked.has(kickKey)) {
+        respond({ ok: false, error: 'The guide removed you from this tour' });
+        return;
+      }
+
+      // The session may have ended while the user was looked up
+      if (!sessions.has(session.id)) {
+        respond({ ok: false, error: 'No group tour has that code' });
+        return;
+      }
+
+      leaveFollowed();
+
+      const guestName = typeof data.displayName === 'string' ? data.displayName.trim().slice(0, MAX_DISPLAY_NAME_LENGTH) : '';
+      session.followers.set(socket.id, {
+        socketId: socket.id,
+        userId: user?.id || null,
+        displayName: user?.username || guestName || 'Guest',
+        handRaised: false,
+        muted: false,
+        joinedAt: new Date(),
+        lastQuestionAt: 0,
+        kickKey
+      });
+      followedSessionId = session.id;
+      socket.join(sessionRoom(session.id));
+
+      emitFollowers(io, session);
+      respond({
+        ok: true,
+        session: toSummary(session),
+        camera: session.camera,
+        selectedArtworkId: session.selectedArtworkId
+      });
+    } catch (error) {
+      logger.error('Join group tour error:', error);
+      respond({ ok: false, error: errorMessage(error) });
+    }
+  });
+
+  socket.on('group-tour:leave', () => {
+    leaveFollowed();
+  });
+
+  // The guide's camera, from their Unity client; followers' cameras follow it
+  socket.on('group-tour:camera', (data: { sessionId: string; position: Vector3; heading: number }) => {
+    const session = findGuidedSession(socket, data?.sessionId);
+    if (!session || !isVector3(data.position) || !isNumber(data.heading)) return;
+
+    const now = Date.now();
+    if (now - session.cameraAt < CAMERA_MIN_INTERVAL_MS) return;
+
+    session.camera = {
+      position: { x: data.position.x, y: data.position.y, z: data.position.z },
+      heading: data.heading
+    };
+    session.cameraAt = now;
+
+    socket.volatile.to(sessionRoom(session.id)).emit('group-tour:camera', {
+      sessionId: session.id,
+      ...session.camera
+    });
+  });
+
+  // The guide picked an artwork to talk about
+  socket.on('group-tour:select', (data: { sessionId: string; artworkId: string | null }) => {
+    const session = findGuidedSession(socket, data?.sessionId);
+    if (!session) return;
+
+    session.selectedArtworkId = typeof data.artworkId === 'string' ? data.artworkId : null;
+    socket.to(sessionRoom(session.id)).emit('group-tour:selected', {
+      sessionId: session.id,
+      artworkId: session.selectedArtworkId
+    });
+  });
+
+  socket.on('group-tour:hand', (data: { sessionId: string; raised: boolean }) => {
+    const session = sessions.get(data?.sessionId);
+    const follower = session?.followers.get(socket.id);
+    if (!session || !follower || follower.muted) return;
+
+    follower.handRaised = Boolean(data.raised);
+    emitFollowers(io, session);
+  });
+
+  socket.on('group-tour:question', (data: { sessionId: string; text: string }, callback?: Ack) => {
+    const respond = toAck(callback);
+    const session = sessions.get(data?.sessionId);
+    const follower = session?.followers.get(socket.id);
+
+    if (!session || !follower) {
+      respond({ ok: false, error: 'You are not on this tour' });
+      return;
+    }
+    if (follower.muted) {
+      respond({ ok: false, error: 'The guide has muted you' });
+      return;
+    }
+
+    const text = typeof data.text === 'string' ? data.text.trim() : '';
+    if (!text || text.length > MAX_QUESTION_LENGTH) {
+      respond({ ok: false, error: `Questions must be 1 to ${MAX_QUESTION_LENGTH} characters` });
+      return;
+    }
+
+    const now = Date.now();
+    if (now - follower.lastQuestionAt < QUESTION_MIN_INTERVAL_MS) {
+      respond({ ok: false, error: 'Please wait a moment before asking another question' });
+      return;
+    }
+    follower.lastQuestionAt = now;
+
+    const question: GroupTourQuestion = {
+      id: randomUUID(),
+      socketId: socket.id,
+      displayName: follower.displayName,
+      text,
+      askedAt: new Date(now),
+      answered: false
+    };
+    session.questions.push(question);
+
+    io.to(session.guideSocketId).emit('group-tour:question', { sessionId: session.id, question });
+    respond({ ok: true, question });
+  });
+
+  socket.on('group-tour:answer', (data: { sessionId: string; questionId: string }) => {
+    const session = findGuidedSession(socket, data?.sessionId);
+    const question = session?.questions.find(q => q.id === data.questionId);
+    if (!session || !question) return;
+
+    question.answered = true;
+    socket.emit('group-tour:questions', { sessionId: session.id, questions: session.questions });
+  });
+
+  socket.on('group-tour:mute', (data: { sessionId: string; socketId: string; muted: boolean }) => {
+    const session = findGuidedSession(socket, data?.sessionId);
+    const follower = session?.followers.get(data.socketId);
+    if (!session || !follower) return;
+
+    follower.muted = Boolean(data.muted);
+    if (follower.muted) {
+      follower.handRaised = false;
+    }
+
+    io.to(follower.socketId).emit('group-tour:muted', { sessionId: session.id, muted: follower.muted });
+    emitFollowers(io, session);
+  });
+
+  socket.on('group-tour:kick', (data: { sessionId: string; socketId: string }) => {
+    const session = findGuidedSession(socket, data?.sessionId);
+    const follower = session?.followers.get(data.socketId);
+    if (!session || !follower) return;
+
+    session.kicked.add(follower.kickKey);
+
+    io.to(follower.socketId).emit('group-tour:kicked', { sessionId: session.id });
+    removeFollower(io, session, follower.socketId);
+  });
+
+  socket.on('group-tour:end', (data: { sessionId: string }) => {
+    const session = findGuidedSession(socket, data?.sessionId);
+    if (!session) return;
+
+    guidedSessionId = null;
+    endSession(io, session, 'ended');
+  });
+
+  socket.on('disconnect', () => {
+    leaveFollowed();
+
+    const session = guidedSessionId ? sessions.get(guidedSessionId) : undefined;
+    guidedSessionId = null;
+    if (session) {
+      endSession(io, session, 'guide-left');
+    }
+  });
+};
@@ -0,0 +1,271 @@
+import os from 'os';
+import { EntityManager, In } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Job, JobStatus, JobType } from '../entities/Job';
+import { DeadJob } from '../entities/DeadJob';
+import { logger } from '../utils/logger';
+
+const DEFAULT_MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS || 5);
+const POLL_INTERVAL_MS = Number(process.env.JOB_POLL_INTERVAL_MS || 1000);
+// The first retry waits this long and each later one twice as long, up to an hour
+const RETRY_BASE_MS = Number(process.env.JOB_RETRY_BASE_MS || 10 * 1000);
+const RETRY_MAX_MS = 60 * 60 * 1000;
+// A job running for longer than this belongs to a worker that died
+const LOCK_TIMEOUT_MS = Number(process.env.JOB_LOCK_TIMEOUT_MS || 15 * 60 * 1000);
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+/**
+ * What each type of job is given to work on
+ */
+export interface JobPayloads {
+  [JobType.PROCESS_ARTWORK_IMAGE]: { artworkId: string; fileUrl: string };
+  [JobType.NOTIFY_ARTWORK_UPLOAD]: { artworkId: string; title: string; artistId: string; artistName: string };
+  [JobType.NOTIFY_ARTWORK_RESUBMISSION]: {
+    artworkId: string;
+    title: string;
+    artistId: string;
+    artistName: string;
+    round: number;
+  };
+}
+
+export interface JobHandler<T extends JobType> {
+  run: (payload: JobPayloads[T], job: Job) => Promise<void>;
+  // Jobs of this type one worker runs at once
+  concurrency: number;
+  // Called once a job has failed its last attempt and been dead-lettered
+  onDeadLetter?: (payload: JobPayloads[T], error: unknown) => Promise<void>;
+}
+
+interface EnqueueOptions {
+  delayMs?: number;
+  maxAttempts?: number;
+}
+
+const handlers = new Map<JobType, JobHandler<JobType>>();
+// Jobs of each type this worker is running
+const runningCounts = new Map<JobType, number>();
+const activeJobs = new Set<Promise<void>>();
+
+let pollTimer: NodeJS.Timeout | null = null;
+let isPolling = false;
+let isStopping = false;
+
+/**
+ * Services throw plain { code, error } objects as well as Errors
+ */
+const describeError = (error: unknown) => {
+  if (error instanceof Error) return error.stack || error.message;
+  const wrapped = (error as { error?: unknown } | null)?.error;
+  if (wrapped instanceof Error) return wrapped.stack || wrapped.message;
+  return String(error);
+};
+
+/**
+ * How long to wait before the next attempt, with some jitter so jobs that
+ * failed together do not all retry together
+ */
+const retryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS) * (0.8 + Math.random() * 0.4);
+
+/**
+ * Queue a job for the background worker
+ * @param type What to do
+ * @param payload What to do it to
+ * @param manager Entity manager of a transaction the job should be part of
+ */
+export const enqueueJob = async <T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueOptions = {},
+  manager: EntityManager = AppDataSource.manager
+) => {
+  try {
+    const jobRepository = manager.getRepository(Job);
+    return await jobRepository.save(jobRepository.create({
+      type,
+      payload: payload as unknown as Record<string, unknown>,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      runAt: new Date(Date.now() + (options.delayMs || 0))
+    }));
+  } catch (error) {
+    logger.error('Enqueue job error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Tell this worker how to run a type of job
+ */
+export const registerJobHandler = <T extends JobType>(type: T, handler: JobHandler<T>) => {
+  handlers.set(type, handler as unknown as JobHandler<JobType>);
+};
+
+/**
+ * Take up to a number of due jobs of one type. SKIP LOCKED lets several
+ * workers poll at once without taking the same job.
+ */
+const claimJobs = async (type: JobType, limit: number) => {
+  const result = await AppDataSource.createQueryBuilder()
+    .update(Job)
+    .set({
+      status: JobStatus.RUNNING,
+      lockedBy: WORKER_ID,
+      lockedAt: () => 'now()',
+      attempts: () => 'attempts + 1'
+    })
+    .where(
+      `id IN (
+        SELECT id FROM jobs
+        WHERE status = :queued AND type = :type AND "runAt" <= now()
+        ORDER BY "runAt"
+        LIMIT :limit
+        FOR UPDATE SKIP LOCKED
+      )`,
+      { queued: JobStatus.QUEUED, type, limit }
+    )
+    .returning(['id'])
+    .execute();
+
+  const ids = (result.raw as { id: string }[]).map(row => row.id);
+  return ids.length > 0 ? AppDataSource.getRepository(Job).find({ where: { id: In(ids) } }) : [];
+};
+
+/**
+ * Put back jobs whose worker died while running them
+ */
+const releaseStaleJobs = async () => {
+  const result = await AppDataSource.createQueryBuilder()
+    .update(Job)
+    .set({ status: JobStatus.QUEUED, lockedBy: null, lockedAt: null, lastError: 'The worker running the job stopped' })
+    .where('status = :running AND "lockedAt" < :staleBefore', {
+      running: JobStatus.RUNNING,
+      staleBefore: new Date(Date.now() - LOCK_TIMEOUT_MS)
+    })
+    .execute();
+
+  if (result.affected) {
+    logger.warn(`Released ${result.affected} jobs left running by a stopped worker`);
+  }
+};
+
+/**
+ * Retry a failed job later, or dead-letter it once it is out of attempts
+ */
+const failJob = async (job: Job, handler: JobHandler<JobType>, error: unknown) => {
+  const lastError = describeError(error);
+
+  if (job.attempts < job.maxAttempts) {
+    const delay = retryDelay(job.attempts);
+    await AppDataSource.getRepository(Job).update(job.id, {
+      status: JobStatus.QUEUED,
+      runAt: new Date(Date.now() + delay),
+      lockedBy: null,
+      lockedAt: null,
+      lastError
+    });
+    logger.warn(`Job ${job.type} ${job.id} failed attempt ${job.attempts} of ${job.maxAttempts}; ` +
+      `retrying in ${Math.round(delay / 1000)}s: ${lastError}`);
+    return;
+  }
+
+  await AppDataSource.transaction(async manager => {
+    await manager.getRepository(DeadJob).save({
+      id: job.id,
+      type: job.type,
+      payload: job.payload,
+      attempts: job.attempts,
+      lastError,
+      queuedAt: job.createdAt
+    });
+    await manager.getRepository(Job).delete(job.id);
+  });
+  logger.error(`Job ${job.type} ${job.id} failed all ${job.maxAttempts} attempts and was dead-lettered: ${lastError}`);
+
+  if (handler.onDeadLetter) {
+    try {
+      await handler.onDeadLetter(job.payload as never, error);
+    } catch (deadLetterError) {
+      logger.error(`Dead-letter handler for job ${job.type} ${job.id} failed:`, deadLetterError);
+    }
+  }
+};
+
+const runJob = async (job: Job, handler: JobHandler<JobType>) => {
+  try {
+    // Released from a stopped worker after its last attempt
+    if (job.attempts > job.maxAttempts) {
+      throw new Error(job.lastError || 'Out of attempts');
+    }
+
+    await handler.run(job.payload as never, job);
+    await AppDataSource.getRepository(Job).delete(job.id);
+  } catch (error) {
+    try {
+      await failJob({ ...job, attempts: Math.min(job.attempts, job.maxAttempts) }, handler, error);
+    } catch (failError) {
+      // The job stays locked and is released after the lock timeout
+      logger.error(`Could not record failure of job ${job.type} ${job.id}:`, failError);
+    }
+  }
+};
+
+/**
+ * Start as many due jobs as each type's concurrency leaves room for
+ */
+const pollJobs = async () => {
+  if (isPolling || isStopping) return;
+  isPolling = true;
+
+  try {
+    await releaseStaleJobs();
+
+    for (const [type, handler] of handlers) {
+      const free = handler.concurrency - (runningCounts.get(type) || 0);
+      if (free <= 0) continue;
+
+      for (const job of await claimJobs(type, free)) {
+        runningCounts.set(type, (runningCounts.get(type) || 0) + 1);
+
+        const task = runJob(job, handler).finally(() => {
+          runningCounts.set(type, (runningCounts.get(type) || 1) - 1);
+          activeJobs.delete(task);
+          // A slot just came free
+          pollJobs();
+        });
+        activeJobs.add(task);
+      }
+    }
+  } catch (error) {
+    logger.error('Job queue poll error:', error);
+  } finally {
+    isPolling = false;
+  }
+};
+
+/**
+ * Start running queued jobs with the registered handlers
+ */
+export const startJobWorker = () => {
+  if (pollTimer) return;
+
+  isStopping = false;
+  logger.info(`Starting job worker ${WORKER_ID} for ${[...handlers.keys()].join(', ')} (polling every ${POLL_INTERVAL_MS}ms)`);
+
+  pollJobs();
+  pollTimer = setInterval(pollJobs, POLL_INTERVAL_MS);
+};
+
+/**
+ * Stop taking jobs and wait for the running ones to finish
+ */
+export const stopJobWorker = async () => {
+  isStopping = true;
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+
+  await Promise.allSettled([...activeJobs]);
+};
@@ -0,0 +1,200 @@
+import { PlacementPosition } from '../entities/ArtworkPlacement';
+import { Artwork } from '../entities/Artwork';
+import { Wall } from '../entities/Wall';
+
+// Clear space required between two artworks on a wall, in metres
+export const MIN_ARTWORK_SPACING = Number(process.env.LAYOUT_MIN_SPACING_METRES || 0.1);
+
+// Size assumed for artworks submitted before sizes were asked for, in metres
+export const DEFAULT_ARTWORK_DIMENSIONS = { width: 1, height: 1, depth: 0.05 };
+
+// Height of an artwork's centre above the floor when it hangs in a slot
+const SLOT_HANGING_HEIGHT = 1.5;
+
+// Where across the wall each slot's centre sits, as a fraction of its width
+const SLOT_CENTRES: Record<string, number> = {
+  [PlacementPosition.LEFT]: 1 / 6,
+  [PlacementPosition.CENTER]: 1 / 2,
+  [PlacementPosition.RIGHT]: 5 / 6
+};
+
+export enum PlacementIssueCode {
+  MISSING_COORDINATES = 'missing_coordinates',
+  OUT_OF_BOUNDS = 'out_of_bounds',
+  TOO_DEEP = 'too_deep',
+  OVERLAP = 'overlap',
+  INSUFFICIENT_SPACING = 'insufficient_spacing'
+}
+
+/**
+ * One problem with a proposed layout, pointing at the placement (by its
+ * index in the request) so the editor can highlight it
+ */
+export interface PlacementIssue {
+  code: PlacementIssueCode;
+  index: number;
+  artworkId: string;
+  position: PlacementPosition;
+  // The placement it collides with, for overlaps and spacing
+  otherIndex?: number;
+  otherArtworkId?: string;
+  message: string;
+}
+
+export type WallBounds = Pick<Wall, 'width' | 'height' | 'depth'>;
+
+export interface PlacementToValidate {
+  artworkId: string;
+  position?: PlacementPosition;
+  coordinates?: { x: number; y: number; z: number } | null;
+  rotation?: { x: number; y: number; z: number } | null;
+  scale?: { x: number; y: number; z: number } | null;
+  artwork: Pick<Artwork, 'title' | 'width' | 'height' | 'depth'>;
+}
+
+// The area a placed artwork covers on the wall face, and how far it stands out
+interface Footprint {
+  left: number;
+  right: number;
+  bottom: number;
+  top: number;
+  front: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Work out where on the wall a placement ends up and how much room it takes
+ */
+const getFootprint = (placement: PlacementToValidate, wall: WallBounds): Footprint | null => {
+  const position = placement.position || PlacementPosition.CUSTOM;
+  const scale = placement.scale || { x: 1, y: 1, z: 1 };
+
+  const width = (placement.artwork.width ?? DEFAULT_ARTWORK_DIMENSIONS.width) * scale.x;
+  const height = (placement.artwork.height ?? DEFAULT_ARTWORK_DIMENSIONS.height) * scale.y;
+  const depth = (placement.artwork.depth ?? DEFAULT_ARTWORK_DIMENSIONS.depth) * scale.z;
+
+  let centre: { x: number; y: number; z: number };
+  if (position === PlacementPosition.CUSTOM) {
+    if (!placement.coordinates) return null;
+    centre = placement.coordinates;
+  } else {
+    centre = {
+      x: wall.width * SLOT_CENTRES[position],
+      y: Math.min(SLOT_HANGING_HEIGHT, wall.height / 2),
+      z: 0
+    };
+  }
+
+  // A turned artwork covers the box around its rotated outline
+  const angle = ((placement.rotation?.z || 0) * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  const coveredWidth = width * cos + height * sin;
+  const coveredHeight = width * sin + height * cos;
+
+  return {
+    left: centre.x - coveredWidth / 2,
+    right: centre.x + coveredWidth / 2,
+    bottom: centre.y - coveredHeight / 2,
+    top: centre.y + coveredHeight / 2,
+    front: (centre.z || 0) + depth
+  };
+};
+
+/**
+ * Clear space between two footprints; negative when they overlap
+ */
+const getGap = (a: Footprint, b: Footprint) => {
+  const horizontalGap = Math.max(a.left - b.right, b.left - a.right);
+  const verticalGap = Math.max(a.bottom - b.top, b.bottom - a.top);
+
+  // Side by side or one above the other: the larger gap is the real clearance
+  return Math.max(horizontalGap, verticalGap);
+};
+
+/**
+ * Check a proposed layout against the wall's size and its artworks' sizes
+ * @param wall The wall's dimensions
+ * @param placements The proposed placements with their artworks
+ * @returns Every problem found, empty when the layout fits
+ */
+export const validateWallLayout = (wall: WallBounds, placements: PlacementToValidate[]): PlacementIssue[] => {
+  const issues: PlacementIssue[] = [];
+  const footprints: Array<Footprint | null> = [];
+
+  placements.forEach((placement, index) => {
+    const position = placement.position || PlacementPosition.CUSTOM;
+    const base = { index, artworkId: placement.artworkId, position };
+    const footprint = getFootprint(placement, wall);
+    footprints.push(footprint);
+
+    if (!footprint) {
+      issues.push({
+        ...base,
+        code: PlacementIssueCode.MISSING_COORDINATES,
+        message: `"${placement.artwork.title}" needs coordinates for a custom position`
+      });
+      return;
+    }
+
+    if (footprint.left < 0 || footprint.right > wall.width || footprint.bottom < 0 || footprint.top > wall.height) {
+      issues.push({
+        ...base,
+        code: PlacementIssueCode.OUT_OF_BOUNDS,
+        message: `"${placement.artwork.title}" extends past the edge of the ${wall.width} m × ${wall.height} m wall`
+      });
+    }
+
+    if (footprint.front > wall.depth) {
+      issues.push({
+        ...base,
+        code: PlacementIssueCode.TOO_DEEP,
+        message: `"${placement.artwork.title}" stands ${round(footprint.front)} m out but the wall allows ${wall.depth} m`
+      });
+    }
+  });
+
+  for (let i = 0; i < placements.length; i++) {
+    for (let j = i + 1; j < placements.length; j++) {
+      const a = footprints[i];
+      const b = footprints[j];
+      if (!a || !b) continue;
+
+      const gap = getGap(a, b);
+      if (gap >= MIN_ARTWORK_SPACING) continue;
+
+      const overlaps = gap < 0;
+      issues.push({
+        code: overlaps ? PlacementIssueCode.OVERLAP : PlacementIssueCode.INSUFFICIENT_SPACING,
+        index: j,
+        artworkId: placements[j].artworkId,
+        position: placements[j].position || PlacementPosition.CUSTOM,
+        otherIndex: i,
+        otherArtworkId: placements[i].artworkId,
+        message: overlaps
+          ? `"${placements[j].artwork.title}" overlaps "${placements[i].artwork.title}"`
+          : `"${placements[j].artwork.title}" is ${round(gap)} m from "${placements[i].artwork.title}"; leave at least ${MIN_ARTWORK_SPACING} m`
+      });
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Refuse a layout that doesn't physically fit on its wall
+ * @param wall The wall's dimensions
+ * @param placements The proposed placements with their artworks
+ */
+export const assertValidWallLayout = (wall: WallBounds, placements: PlacementToValidate[]) => {
+  const issues = validateWallLayout(wall, placements);
+
+  if (issues.length > 0) {
+    throw {
+      code: 422,
+      error: new Error(issues.length === 1 ? issues[0].message : `${issues.length} artworks do not fit on this wall`),
+      details: issues
+    };
+  }
+};
@@ -1,7 +1,9 @@
 import { AppDataSource } from '../config/database';
 import { Notification, NotificationType } from '../entities/Notification';
 import { User, UserRole } from '../entities/User';
+import { JobType } from '../entities/Job';
 import { logger } from '../utils/logger';
+import { JobPayloads, enqueueJob } from './jobQueue.service';
 
 export const createNotification = async (
   type: NotificationType,
@@ -16,7 +18,8 @@ export const createNotification = async (
   notification.type = type;
   notification.message = message;
   notification.recipientId = recipientId;
-  notification.senderId = senderId? senderId : "";
+  // System notifications, such as exhibition status changes, have no sender
+  notification.senderId = senderId ?? null;
   notification.entityId = entityId? entityId : "";
   notification.isRead = false;
   
@@ -73,20 +76,42 @@ export const getCuratorsForNotification = async (): Promise<User[]> => {
   });
 };
 
+/**
+ * Let every curator know about a new artwork. The worker sends the
+ * notifications, so uploads do not wait on one per curator.
+ */
 export const notifyArtworkUpload = async (
   artworkId: string,
   title: string,
   artistId: string,
   artistName: string
+): Promise<void> => {
+  try {
+    await enqueueJob(JobType.NOTIFY_ARTWORK_UPLOAD, { artworkId, title, artistId, artistName });
+  } catch (error) {
+    logger.error('Error queueing artwork upload notifications:', error);
+  }
+};
+
+/**
+ * Notify every curator of a new artwork. Run by the worker; a retry skips
+ * the curators already notified.
+ */
+export const sendArtworkUploadNotifications = async (
+  { artworkId, title, artistId, artistName }: JobPayloads[JobType.NOTIFY_ARTWORK_UPLOAD]
 ): Promise<void> => {
   try {
     // Get all curators and admins
     const curators = await getCuratorsForNotification();
+    const notified = new Set((await AppDataSource.getRepository(Notification).find({
+      where: { type: NotificationType.ARTWORK_UPLOAD, entityId: artworkId }
+    })).map(notification => notification.recipientId));
     
     // Create a notification for each curator
     const message = `${artistName} uploaded a new artwork: "${title}"`;
+    const recipients = curators.filter(curator => !notified.has(curator.id));
     
-    const notifications = curators.map(curator => 
+    const notifications = recipients.map(curator => 
       createNotification(
         NotificationType.ARTWORK_UPLOAD,
         message,
@@ -97,9 +122,10 @@ export const notifyArtworkUpload = async (
     );
     
     await Promise.all(notifications);
-    logger.info(`Created notifications for ${curators.length} curators about artwork upload: ${title}`);
+    logger.info(`Created notifications for ${recipients.length} curators about artwork upload: ${title}`);
   } catch (error) {
     logger.error('Error creating artwork upload notifications:', error);
+    throw error;
   }
 };
 
@@ -127,4 +153,152 @@ export const notifyArtworkApproval = async (
   } catch (error) {
     logger.error('Error creating artwork approval notification:', error);
   }
+};
+
+export const notifyArtworkRejection = async (
+  artworkId: string,
+  title: string,
+  artistId: string,
+  curatorId: string,
+  reason: string
+): Promise<void> => {
+  try {
+    const message = `Your artwork "${title}" was not accepted. Reason: ${reason}`;
+
+    await createNotification(
+      NotificationType.ARTWORK_REJECTED,
+      message,
+      artistId,
+      curatorId,
+      artworkId
+    );
+
+    logger.info(`Created notification for artist ${artistId} about artwork rejection: ${title}`);
+  } catch (error) {
+    logger.error('Error creating artwork rejection notification:', error);
+  }
+};
+
+/**
+ * Let every curator know an artwork is back for review. The worker sends
+ * the notifications, as for uploads.
+ */
+export const notifyArtworkResubmission = async (
+  artworkId: string,
+  title: string,
+  artistId: string,
+  artistName: string,
+  round: number
+): Promise<void> => {
+  try {
+    await enqueueJob(JobType.NOTIFY_ARTWORK_RESUBMISSION, { artworkId, title, artistId, artistName, round });
+  } catch (error) {
+    logger.error('Error queueing artwork resubmission notifications:', error);
+  }
+};
+
+/**
+ * Notify every curator of a resubmitted artwork. Run by the worker; a retry
+ * skips the curators already notified of this round.
+ */
+export const sendArtworkResubmissionNotifications = async (
+  { artworkId, title, artistId, artistName, round }: JobPayloads[JobType.NOTIFY_ARTWORK_RESUBMISSION]
+): Promise<void> => {
+  try {
+    const curators = await getCuratorsForNotification();
+    // The round in the message tells this round's notifications from earlier ones
+    const message = `${artistName} resubmitted "${title}" for review (round ${round})`;
+    const notified = new Set((await AppDataSource.getRepository(Notification).find({
+      where: { type: NotificationType.ARTWORK_RESUBMITTED, entityId: artworkId, message }
+    })).map(notification => notification.recipientId));
+    const recipients = curators.filter(curator => !notified.has(curator.id));
+
+    await Promise.all(recipients.map(curator =>
+      createNotification(
+        NotificationType.ARTWORK_RESUBMITTED,
+        message,
+        curator.id,
+        artistId,
+        artworkId
+      )
+    ));
+
+    logger.info(`Created notifications for ${recipients.length} curators about artwork resubmission: ${title}`);
+  } catch (error) {
+    logger.error('Error creating artwork resubmission notifications:', error);
+    throw error;
+  }
+};
+
+export const notifyReviewAssignment = async (
+  artworkId: string,
+  title: string,
+  curatorId: string,
+  adminId: string,
+  adminName: string
+): Promise<void> => {
+  try {
+    const message = `${adminName} assigned "${title}" to you for review`;
+
+    await createNotification(
+      NotificationType.REVIEW_ASSIGNED,
+      message,
+      curatorId,
+      adminId,
+      artworkId
+    );
+
+    logger.info(`Created notification for curator ${curatorId} about review assignment: ${title}`);
+  } catch (error) {
+    logger.error('Error creating review assignment notification:', error);
+  }
+};
+
+export const notifyExhibitionStatusChange = async (
+  exhibitionId: string,
+  title: string,
+  curatorId: string,
+  opened: boolean
+): Promise<void> => {
+  try {
+    const message = opened
+      ? `Your exhibition "${title}" is now open to visitors`
+      : `Your exhibition "${title}" has closed`;
+
+    await createNotification(
+      opened ? NotificationType.EXHIBITION_OPENED : NotificationType.EXHIBITION_CLOSED,
+      message,
+      curatorId,
+      undefined,
+      exhibitionId
+    );
+
+    logger.info(`Created notification for curator ${curatorId} about exhibition ${opened ? 'opening' : 'closing'}: ${title}`);
+  } catch (error) {
+    logger.error('Error creating exhibition status notification:', error);
+  }
+};
+
+export const notifyCommentAdded = async (
+  artworkId: string,
+  title: string,
+  artistId: string,
+  commenterId: string,
+  commenterName: string
+): Promise<void> => {
+  try {
+    const message = `${commenterName} commented on your artwork "${title}"`;
+
+    await createNotification(
+      NotificationType.COMMENT_ADDED,
+      message,
+      artistId,
+      commenterId,
+      artworkId
+    );
+
+    logger.info(`Created notification for artist ${artistId} about comment on artwork: ${title}`);
+  } catch (error) {
+    logger.error('Error creating comment notification:', error);
+  }
 };
\ No newline at end of file
@@ -0,0 +1,295 @@
+import { Server, Socket } from 'socket.io';
+import { validate as isUuid } from 'uuid';
+import { AppDataSource } from '../config/database';
+import { User } from '../entities/User';
+import { assertCanViewExhibition, findExhibitionOrFail } from './exhibition.service';
+import { logger } from '../utils/logger';
+
+// Poses sent faster than this are dropped; clients are expected to throttle to it
+const POSE_MIN_INTERVAL_MS = Number(process.env.PRESENCE_POSE_INTERVAL_MS || 100);
+// How often each visitor is sent the avatars around them
+const AVATAR_TICK_MS = Number(process.env.PRESENCE_TICK_MS || 200);
+// Interest management: a visitor only sees the nearest avatars within this many metres
+const INTEREST_RADIUS = Number(process.env.PRESENCE_INTEREST_RADIUS || 30);
+const MAX_VISIBLE_AVATARS = Number(process.env.PRESENCE_MAX_AVATARS || 20);
+// Visitor counts are sent at most this often, however busy the room
+const COUNT_INTERVAL_MS = 1000;
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface VisitorAvatar {
+  socketId: string;
+  // null for visitors who are not signed in
+  userId: string | null;
+  displayName: string;
+  position: Vector3;
+  // Degrees clockwise from the scene's forward (+z) axis
+  heading: number;
+}
+
+interface Visitor {
+  socketId: string;
+  // Set once the visitor has entered the 3D scene and can be shown as an avatar
+  inScene: boolean;
+  userId: string | null;
+  displayName: string;
+  position: Vector3 | null;
+  heading: number;
+  // When the last pose was accepted, and whether it has been sent out yet
+  poseAt: number;
+  poseChanged: boolean;
+  // The avatars this visitor currently has spawned
+  visible: Set<string>;
+}
+
+interface ExhibitionPresence {
+  visitors: Map<string, Visitor>;
+  tick: ReturnType<typeof setInterval> | null;
+  countTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// Who is in each exhibition right now, keyed by socket
+const presenceByExhibition = new Map<string, ExhibitionPresence>();
+
+const exhibitionRoom = (exhibitionId: string) => `exhibition:${exhibitionId}`;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isVector3 = (value: any): value is Vector3 =>
+  !!value && isNumber(value.x) && isNumber(value.y) && isNumber(value.z);
+
+const distance = (a: Vector3, b: Vector3) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+const toAvatar = (visitor: Visitor): VisitorAvatar => ({
+  socketId: visitor.socketId,
+  userId: visitor.userId,
+  displayName: visitor.displayName,
+  position: visitor.position as Vector3,
+  heading: visitor.heading
+});
+
+/**
+ * Tell an exhibition's room how many visitors it has, at most once per COUNT_INTERVAL_MS
+ */
+const scheduleCount = (io: Server, exhibitionId: string) => {
+  const presence = presenceByExhibition.get(exhibitionId);
+  if (!presence || presence.countTimer) return;
+
+  presence.countTimer = setTimeout(() => {
+    presence.countTimer = null;
+    io.to(exhibitionRoom(exhibitionId)).emit('exhibition:visitors', {
+      exhibitionId,
+      count: presence.visitors.size
+    });
+  }, COUNT_INTERVAL_MS);
+};
+
+/**
+ * Send every visitor in the scene the avatars near them that appeared, moved
+ * or went out of range since the last tick
+ */
+const sendAvatars = (io: Server, exhibitionId: string, presence: ExhibitionPresence) => {
+  const placed = [...presence.visitors.values()].filter(visitor => visitor.inScene && visitor.position);
+
+  for (const viewer of placed) {
+    const nearest = placed
+      .filter(other => other !== viewer)
+      .map(other => ({ other, distance: distance(viewer.position as Vector3, other.position as Vector3) }))
+      .filter(candidate => candidate.distance <= INTEREST_RADIUS)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, MAX_VISIBLE_AVATARS)
+      .map(candidate => candidate.other);
+
+    const inRange = new Set(nearest.map(other => other.socketId));
+    const updates = nearest.filter(other => other.poseChanged || !viewer.visible.has(other.socketId));
+    const removed = [...viewer.visible].filter(socketId => !inRange.has(socketId));
+
+    viewer.visible = inRange;
+    if (updates.length === 0 && removed.length === 0) continue;
+
+    io.to(viewer.socketId).emit('presence:avatars', {
+      exhibitionId,
+      updates: updates.map(toAvatar),
+      removed
+    });
+  }
+
+  placed.forEach(visitor => {
+    visitor.poseChanged = false;
+  });
+};
+
+/**
+ * Run the avatar tick while anyone is in the exhibition's scene
+ */
+const updateTick = (io: Server, exhibitionId: string, presence: ExhibitionPresence) => {
+  const anyoneInScene = [...presence.visitors.values()].some(visitor => visitor.inScene);
+
+  if (anyoneInScene && !presence.tick) {
+    presence.tick = setInterval(() => sendAvatars(io, exhibitionId, presence), AVATAR_TICK_MS);
+  } else if (!anyoneInScene && presence.tick) {
+    clearInterval(presence.tick);
+    presence.tick = null;
+  }
+};
+
+/**
+ * Take a visitor's avatar out of everyone's scene
+ */
+const hideAvatar = (io: Server, exhibitionId: string, presence: ExhibitionPresence, socketId: string) => {
+  presence.visitors.forEach(viewer => {
+    if (viewer.visible.delete(socketId)) {
+      io.to(viewer.socketId).emit('presence:avatars', { exhibitionId, updates: [], removed: [socketId] });
+    }
+  });
+};
+
+/**
+ * Drop a socket from an exhibition's visitors and its room
+ */
+const removeVisitor = (io: Server, socket: Socket, exhibitionId: string) => {
+  const presence = presenceByExhibition.get(exhibitionId);
+  if (!presence?.visitors.delete(socket.id)) return;
+
+  socket.leave(exhibitionRoom(exhibitionId));
+  hideAvatar(io, exhibitionId, presence, socket.id);
+  updateTick(io, exhibitionId, presence);
+
+  if (presence.visitors.size === 0) {
+    if (presence.countTimer) clearTimeout(presence.countTimer);
+    presenceByExhibition.delete(exhibitionId);
+    return;
+  }
+
+  scheduleCount(io, exhibitionId);
+};
+
+/**
+ * Look up the socket's signed-in user, whom the handshake verified
+ */
+const findSocketUser = async (socket: Socket) => {
+  const userId = socket.data?.userId;
+  return userId ? AppDataSource.getRepository(User).findOne({ where: { id: userId } }) : null;
+};
+
+/**
+ * How a visitor is labelled on their avatar
+ */
+const findDisplayName = async (socket: Socket) => {
+  const user = await findSocketUser(socket);
+  return user
+    ? { userId: user.id, displayName: user.username }
+    : { userId: null, displayName: 'Guest' };
+};
+
+/**
+ * Wire up live visitor presence on a socket: joining an exhibition's room
+ * counts as a visit, and visitors in the 3D scene stream their pose so the
+ * others can see them as avatars
+ * @param io Socket.io server
+ * @param socket The connecting socket
+ */
+export const registerVisitorPresence = (io: Server, socket: Socket) => {
+  // Exhibitions this socket is visiting
+  const joinedExhibitions = new Set<string>();
+
+  // Handle joining exhibition room (for exhibition-specific updates), for
+  // exhibitions the visitor may see
+  socket.on('join-exhibition', async (exhibitionId: string) => {
+    try {
+      if (typeof exhibitionId !== 'string' || !isUuid(exhibitionId) || joinedExhibitions.has(exhibitionId)) return;
+
+      const exhibition = await findExhibitionOrFail(exhibitionId);
+      assertCanViewExhibition(exhibition, (await findSocketUser(socket)) || undefined);
+
+      // The same join may have been sent twice while the exhibition was looked up
+      if (joinedExhibitions.has(exhibitionId) || socket.disconnected) return;
+    } catch (error) {
+      logger.debug(`Socket ${socket.id} may not join exhibition room ${exhibitionId}:`, error);
+      return;
+    }
+
+    const presence = presenceByExhibition.get(exhibitionId) || { visitors: new Map(), tick: null, countTimer: null };
+    presenceByExhibition.set(exhibitionId, presence);
+    presence.visitors.set(socket.id, {
+      socketId: socket.id,
+      inScene: false,
+      userId: null,
+      displayName: 'Guest',
+      position: null,
+      heading: 0,
+      poseAt: 0,
+      poseChanged: false,
+      visible: new Set()
+    });
+
+    joinedExhibitions.add(exhibitionId);
+    socket.join(exhibitionRoom(exhibitionId));
+    logger.info(`Socket ${socket.id} joined exhibition room: ${exhibitionId}`);
+
+    // The newcomer hears the count straight away; everyone else with the next update
+    socket.emit('exhibition:visitors', { exhibitionId, count: presence.visitors.size });
+    scheduleCount(io, exhibitionId);
+  });
+
+  // Handle leaving exhibition room
+  socket.on('leave-exhibition', (exhibitionId: string) => {
+    if (!joinedExhibitions.delete(exhibitionId)) return;
+    removeVisitor(io, socket, exhibitionId);
+    logger.info(`Socket ${socket.id} left exhibition room: ${exhibitionId}`);
+  });
+
+  // The visitor's 3D scene has loaded, so they can be shown as an avatar
+  socket.on('presence:enter', async (exhibitionId: string) => {
+    try {
+      const visitor = presenceByExhibition.get(exhibitionId)?.visitors.get(socket.id);
+      if (!visitor || visitor.inScene) return;
+
+      const { userId, displayName } = await findDisplayName(socket);
+
+      // The visitor may have left while their name was looked up
+      const presence = presenceByExhibition.get(exhibitionId);
+      if (presence?.visitors.get(socket.id) !== visitor) return;
+
+      Object.assign(visitor, { inScene: true, userId, displayName });
+      updateTick(io, exhibitionId, presence);
+    } catch (error) {
+      logger.error('Enter exhibition scene error:', error);
+    }
+  });
+
+  // The visitor closed the 3D scene but is still on the exhibition
+  socket.on('presence:exit', (exhibitionId: string) => {
+    const presence = presenceByExhibition.get(exhibitionId);
+    const visitor = presence?.visitors.get(socket.id);
+    if (!presence || !visitor?.inScene) return;
+
+    Object.assign(visitor, { inScene: false, position: null, poseChanged: false, visible: new Set() });
+    hideAvatar(io, exhibitionId, presence, socket.id);
+    updateTick(io, exhibitionId, presence);
+  });
+
+  // Where the visitor is standing and facing; sent on with the next tick. A
+  // pose can arrive while presence:enter is still looking up the visitor's name.
+  socket.on('presence:pose', (data: { exhibitionId: string; position: Vector3; heading: number }) => {
+    const visitor = presenceByExhibition.get(data?.exhibitionId)?.visitors.get(socket.id);
+    if (!visitor || !isVector3(data.position) || !isNumber(data.heading)) return;
+
+    const now = Date.now();
+    if (now - visitor.poseAt < POSE_MIN_INTERVAL_MS) return;
+
+    visitor.position = { x: data.position.x, y: data.position.y, z: data.position.z };
+    visitor.heading = ((data.heading % 360) + 360) % 360;
+    visitor.poseAt = now;
+    visitor.poseChanged = true;
+  });
+
+  socket.on('disconnect', () => {
+    joinedExhibitions.forEach(exhibitionId => removeVisitor(io, socket, exhibitionId));
+    joinedExhibitions.clear();
+  });
+};
@@ -0,0 +1,361 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { LessThan } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { UploadSession, UploadStatus } from '../entities/UploadSession';
+import { User } from '../entities/User';
+import { logger } from '../utils/logger';
+import { deleteStoredDirectory, deleteStoredFile, fileUrlFor, getStorage, storeFile } from './storage.service';
+
+// Largest file that can be uploaded in chunks
+export const MAX_UPLOAD_BYTES = Number(process.env.UPLOAD_MAX_BYTES || 500 * 1024 * 1024);
+// Clients are told to send chunks this big; a chunk may be up to twice as big
+export const UPLOAD_CHUNK_BYTES = Number(process.env.UPLOAD_CHUNK_BYTES || 5 * 1024 * 1024);
+export const MAX_CHUNK_BYTES = UPLOAD_CHUNK_BYTES * 2;
+// An upload nobody sends a chunk to, or uses once complete, is removed after this
+const UPLOAD_EXPIRY_MS = Number(process.env.UPLOAD_EXPIRY_HOURS || 24) * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// The image formats artworks accept, by MIME type, as sharp names them
+const IMAGE_FORMATS: Record<string, string> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/tiff': 'tiff'
+};
+
+const EXTENSIONS: Record<string, string> = {
+  jpeg: '.jpg',
+  png: '.png',
+  tiff: '.tif'
+};
+
+// Returned when a chunk's checksum does not match, as in the tus protocol
+const CHECKSUM_MISMATCH = 460;
+
+let cleanupTimer: NodeJS.Timeout | null = null;
+
+// Chunks wait under originals/, which storage never serves publicly.
+// Keys are zero-padded offsets so they list in order.
+const chunkPrefix = (id: string) => `originals/partial/${id}`;
+const chunkKey = (id: string, offset: number) => `${chunkPrefix(id)}/${String(offset).padStart(15, '0')}`;
+
+const nextExpiry = () => new Date(Date.now() + UPLOAD_EXPIRY_MS);
+
+/**
+ * Shape an upload for its owner
+ */
+const toUploadState = (session: UploadSession) => ({
+  id: session.id,
+  fileName: session.fileName,
+  mimeType: session.mimeType,
+  size: session.size,
+  offset: session.offset,
+  status: session.status,
+  checksum: session.checksum,
+  chunkSize: UPLOAD_CHUNK_BYTES,
+  expiresAt: session.expiresAt
+});
+
+/**
+ * Find an upload, which only the user who started it may see
+ */
+const findOwnUpload = async (id: string, user: User) => {
+  const session = await AppDataSource.getRepository(UploadSession).findOne({ where: { id, ownerId: user.id } });
+  if (!session) {
+    throw { code: 404, error: new Error('Upload not found') };
+  }
+  return session;
+};
+
+/**
+ * Delete an upload and everything it stored
+ */
+const discardUpload = async (session: UploadSession) => {
+  await deleteStoredDirectory(fileUrlFor(chunkPrefix(session.id)));
+  if (session.fileUrl) {
+    await deleteStoredFile(session.fileUrl);
+  }
+  await AppDataSource.getRepository(UploadSession).delete(session.id);
+};
+
+/**
+ * Start a chunked upload of an artwork image
+ * @param user Who is uploading
+ * @param fileName Name of the file on the user's device
+ * @param mimeType Type of the file
+ * @param size Size of the whole file in bytes
+ */
+export const createUpload = async (user: User, fileName: string, mimeType: string, size: number) => {
+  try {
+    if (!IMAGE_FORMATS[mimeType]) {
+      throw { code: 400, error: new Error('Invalid file type. Only JPG, PNG and TIFF are allowed.') };
+    }
+
+    if (size > MAX_UPLOAD_BYTES) {
+      throw {
+        code: 413,
+        error: new Error(`Image must be smaller than ${Math.floor(MAX_UPLOAD_BYTES / 1024 / 1024)}MB`)
+      };
+    }
+
+    const uploadRepository = AppDataSource.getRepository(UploadSession);
+    const session = await uploadRepository.save(uploadRepository.create({
+      ownerId: user.id,
+      fileName,
+      mimeType,
+      size,
+      expiresAt: nextExpiry()
+    }));
+
+    return toUploadState(session);
+  } catch (error) {
+    logger.error('Create upload error:', error);
+    throw error;
+  }
+};
+
+/**
+ * How far an upload has got, so an interrupted one can carry on from there
+ */
+export const getUpload = async (id: string, user: User) => {
+  try {
+    return toUploadState(await findOwnUpload(id, user));
+  } catch (error) {
+    logger.error('Get upload error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Add the next chunk of an upload
+ * @param offset Where in the file the chunk starts; must be where the upload has got to
+ * @param chunk The bytes
+ * @param checksum The chunk's checksum, as `sha256 <base64 digest>`
+ */
+export const appendChunk = async (id: string, user: User, offset: number, chunk: Buffer, checksum?: string) => {
+  try {
+    const [algorithm, digest] = (checksum || '').split(' ');
+    if (algorithm !== 'sha256' || !digest) {
+      throw { code: 400, error: new Error('Upload-Checksum must be "sha256 <base64 digest>"') };
+    }
+
+    if (crypto.createHash('sha256').update(chunk).digest('base64') !== digest) {
+      throw { code: CHECKSUM_MISMATCH, error: new Error('Chunk checksum does not match; please send it again') };
+    }
+
+    // Locked so two requests with the same chunk cannot both add it
+    const session = await AppDataSource.transaction(async transactionalEntityManager => {
+      const session = await transactionalEntityManager.findOne(UploadSession, {
+        where: { id, ownerId: user.id },
+        lock: { mode: 'pessimistic_write' }
+      });
+
+      if (!session) {
+        throw { code: 404, error: new Error('Upload not found') };
+      }
+
+      if (session.status !== UploadStatus.UPLOADING) {
+        throw { code: 409, error: new Error('This upload is already complete') };
+      }
+
+      if (offset !== session.offset) {
+        throw {
+          code: 409,
+          error: new Error(`The upload is at byte ${session.offset}, not ${offset}`),
+          details: { offset: session.offset }
+        };
+      }
+
+      if (chunk.length === 0 || offset + chunk.length > session.size) {
+        throw { code: 400, error: new Error('Chunk is empty or goes past the end of the file') };
+      }
+
+      await getStorage().put(chunkKey(id, offset), chunk, 'application/octet-stream');
+
+      session.offset = offset + chunk.length;
+      session.expiresAt = nextExpiry();
+      return transactionalEntityManager.save(session);
+    });
+
+    return toUploadState(session);
+  } catch (error) {
+    logger.error('Append upload chunk error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Put a fully received upload together, check it is an image of the type
+ * it claimed to be and keep it as a private original until an artwork
+ * uses it. Completing a complete upload just returns it.
+ */
+export const completeUpload = async (id: string, user: User) => {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'upload-'));
+
+  try {
+    const received = await findOwnUpload(id, user);
+
+    if (received.status === UploadStatus.COMPLETE) {
+      return toUploadState(received);
+    }
+
+    if (received.offset !== received.size) {
+      throw {
+        code: 409,
+        error: new Error(`The upload is missing ${received.size - received.offset} bytes`),
+        details: { offset: received.offset }
+      };
+    }
+
+    // Every byte is in, so no chunk can change while they are joined. This
+    // can take a while for a large file and is done without holding a lock.
+    const storage = getStorage();
+    const assembledPath = path.join(workDir, 'upload');
+    const hash = crypto.createHash('sha256');
+    const output = await fs.promises.open(assembledPath, 'w');
+    let written = 0;
+
+    try {
+      for (const key of (await storage.list(`${chunkPrefix(id)}/`)).sort()) {
+        if (Number(path.posix.basename(key)) !== written) {
+          throw new Error(`Chunk missing at byte ${written} of upload ${id}`);
+        }
+
+        const chunk = await storage.get(key);
+        hash.update(chunk);
+        await output.write(chunk);
+        written += chunk.length;
+      }
+    } finally {
+      await output.close();
+    }
+
+    if (written !== received.size) {
+      throw new Error(`Upload ${id} put together to ${written} of ${received.size} bytes`);
+    }
+
+    const format = await sharp(assembledPath).metadata().then(metadata => metadata.format, () => undefined);
+    if (format !== IMAGE_FORMATS[received.mimeType]) {
+      // It can never become a usable image, so nothing is kept
+      await discardUpload(received);
+      throw { code: 400, error: new Error('The uploaded file is not a valid JPG, PNG or TIFF image') };
+    }
+
+    // Each attempt stores its own copy, so one that loses a race to complete
+    // or cancel the upload can delete it without touching the winner's
+    const fileUrl = await storeFile(
+      assembledPath,
+      `originals/${id}-${crypto.randomBytes(4).toString('hex')}${EXTENSIONS[format]}`
+    );
+
+    // Locked only to mark the upload complete
+    const session = await AppDataSource.transaction(async transactionalEntityManager => {
+      const session = await transactionalEntityManager.findOne(UploadSession, {
+        where: { id, ownerId: user.id },
+        lock: { mode: 'pessimistic_write' }
+      });
+
+      if (!session || session.status === UploadStatus.COMPLETE) {
+        return session;
+      }
+
+      session.fileUrl = fileUrl;
+      session.checksum = hash.digest('hex');
+      session.status = UploadStatus.COMPLETE;
+      session.expiresAt = nextExpiry();
+      return transactionalEntityManager.save(session);
+    });
+
+    if (session?.fileUrl !== fileUrl) {
+      await deleteStoredFile(fileUrl);
+    }
+
+    if (!session) {
+      throw { code: 404, error: new Error('Upload not found') };
+    }
+
+    await deleteStoredDirectory(fileUrlFor(chunkPrefix(id)));
+
+    return toUploadState(session);
+  } catch (error) {
+    logger.error('Complete upload error:', error);
+    throw error;
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+};
+
+/**
+ * Give up on an upload
+ */
+export const cancelUpload = async (id: string, user: User) => {
+  try {
+    await discardUpload(await findOwnUpload(id, user));
+    return { success: true, message: 'Upload cancelled' };
+  } catch (error) {
+    logger.error('Cancel upload error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Hand a completed upload over to an artwork. The upload is used up: the
+ * artwork now owns the stored file.
+ * @returns URL of the stored file
+ */
+export const claimUpload = async (id: string, user: User) => {
+  try {
+    const session = await findOwnUpload(id, user);
+    if (session.status !== UploadStatus.COMPLETE || !session.fileUrl) {
+      throw { code: 409, error: new Error('This upload is not complete yet') };
+    }
+
+    // Only one artwork gets it if two ask at once
+    const { affected } = await AppDataSource.getRepository(UploadSession).delete({
+      id,
+      status: UploadStatus.COMPLETE
+    });
+    if (!affected) {
+      throw { code: 404, error: new Error('Upload not found') };
+    }
+
+    return session.fileUrl;
+  } catch (error) {
+    logger.error('Claim upload error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove uploads that were abandoned, or completed and never used
+ */
+export const removeExpiredUploads = async () => {
+  try {
+    const expired = await AppDataSource.getRepository(UploadSession).find({
+      where: { expiresAt: LessThan(new Date()) }
+    });
+
+    for (const session of expired) {
+      await discardUpload(session);
+    }
+
+    if (expired.length > 0) {
+      logger.info(`Removed ${expired.length} expired uploads`);
+    }
+  } catch (error) {
+    logger.error('Remove expired uploads error:', error);
+  }
+};
+
+/**
+ * Start removing expired uploads every hour
+ */
+export const startUploadCleanup = () => {
+  if (cleanupTimer) return;
+
+  removeExpiredUploads();
+  cleanupTimer = setInterval(removeExpiredUploads, CLEANUP_INTERVAL_MS);
+};
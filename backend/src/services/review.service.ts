@@ -0,0 +1,559 @@
+import { AppDataSource } from '../config/database';
+import { Artwork, ArtworkStatus } from '../entities/Artwork';
+import { ArtworkReview, ArtworkSnapshot, RejectionReason, ReviewDecision } from '../entities/ArtworkReview';
+import { User, UserRole } from '../entities/User';
+import { logger } from '../utils/logger';
+import { notifyReviewAssignment } from './notification.service';
+
+// How long a curator's claim on a queue item lasts before others can pick it up
+const CLAIM_DURATION_MS = Number(process.env.REVIEW_CLAIM_MINUTES || 30) * 60 * 1000;
+
+export interface ReviewQueueFilters {
+  category?: string;
+  artist?: string;
+  search?: string;
+  // 'me', 'unassigned' or a curator's user ID
+  assignee?: string;
+}
+
+export const REJECTION_REASON_LABELS: Record<RejectionReason, string> = {
+  [RejectionReason.IMAGE_QUALITY]: 'Image quality',
+  [RejectionReason.INCOMPLETE_INFORMATION]: 'Incomplete information',
+  [RejectionReason.COPYRIGHT]: 'Copyright concerns',
+  [RejectionReason.INAPPROPRIATE_CONTENT]: 'Inappropriate content',
+  [RejectionReason.OFF_THEME]: 'Does not fit the gallery',
+  [RejectionReason.DUPLICATE]: 'Duplicate submission',
+  [RejectionReason.OTHER]: 'Other'
+};
+
+const SNAPSHOT_FIELDS: (keyof ArtworkSnapshot)[] = ['title', 'description', 'category', 'tags', 'fileUrl', 'thumbnailUrl'];
+
+/**
+ * Capture the reviewable parts of an artwork as they are right now
+ */
+const snapshotArtwork = (artwork: Artwork): ArtworkSnapshot => ({
+  title: artwork.title,
+  description: artwork.description,
+  category: artwork.category,
+  tags: artwork.tags || [],
+  fileUrl: artwork.fileUrl,
+  thumbnailUrl: artwork.thumbnailUrl
+});
+
+/**
+ * Get the most recent review round for an artwork
+ */
+const findLatestRound = async (artworkId: string) => {
+  return await AppDataSource.getRepository(ArtworkReview).findOne({
+    where: { artworkId },
+    relations: ['reviewer'],
+    order: { round: 'DESC' }
+  });
+};
+
+/**
+ * Open a new review round for an artwork that was just submitted or resubmitted
+ */
+export const openReviewRound = async (artwork: Artwork, submissionNote?: string) => {
+  const reviewRepository = AppDataSource.getRepository(ArtworkReview);
+  const latestRound = await findLatestRound(artwork.id);
+
+  const review = new ArtworkReview();
+  review.artworkId = artwork.id;
+  review.round = (latestRound?.round || 0) + 1;
+  review.decision = ReviewDecision.PENDING;
+  review.reviewerId = null;
+  review.reasonCategory = null;
+  review.reason = null;
+  review.submissionNote = submissionNote || null;
+  review.artworkRevision = artwork.revision;
+  review.snapshot = snapshotArtwork(artwork);
+  review.reviewedAt = null;
+
+  return await reviewRepository.save(review);
+};
+
+/**
+ * Refresh the open review round after the artist edits a pending artwork
+ */
+export const syncOpenReviewRound = async (artwork: Artwork) => {
+  const review = await findLatestRound(artwork.id);
+
+  if (!review || review.decision !== ReviewDecision.PENDING) {
+    return null;
+  }
+
+  review.artworkRevision = artwork.revision;
+  review.snapshot = snapshotArtwork(artwork);
+
+  return await AppDataSource.getRepository(ArtworkReview).save(review);
+};
+
+/**
+ * Record a curator's decision on the open review round. Artworks uploaded
+ * before review rounds existed get their first round opened here.
+ */
+export const closeReviewRound = async (
+  artwork: Artwork,
+  reviewer: User,
+  decision: ReviewDecision.APPROVED | ReviewDecision.REJECTED,
+  reasonCategory?: RejectionReason,
+  reason?: string
+) => {
+  const reviewRepository = AppDataSource.getRepository(ArtworkReview);
+
+  let review = await findLatestRound(artwork.id);
+
+  if (!review || review.decision !== ReviewDecision.PENDING) {
+    review = await openReviewRound(artwork);
+  }
+
+  // Record exactly what the curator was looking at when deciding
+  review.artworkRevision = artwork.revision;
+  review.snapshot = snapshotArtwork(artwork);
+  review.decision = decision;
+  review.reviewer = reviewer;
+  review.reviewerId = reviewer.id;
+  review.reasonCategory = reasonCategory || null;
+  review.reason = reason?.trim() || null;
+  review.reviewedAt = new Date();
+
+  return await reviewRepository.save(review);
+};
+
+/**
+ * Describe a rejection for the artist, e.g. "Image quality: the scan is blurry"
+ */
+export const describeRejection = (reasonCategory: RejectionReason, reason?: string) => {
+  const label = REJECTION_REASON_LABELS[reasonCategory];
+  return reason?.trim() ? `${label}: ${reason.trim()}` : label;
+};
+
+/**
+ * Reviews are visible to the artwork's artist, curators and admins
+ */
+const assertCanViewReviews = async (artworkId: string, user: User) => {
+  const artwork = await AppDataSource.getRepository(Artwork).findOne({
+    where: { id: artworkId }
+  });
+
+  if (!artwork) {
+    throw {
+      code: 404,
+      error: new Error('Artwork not found')
+    };
+  }
+
+  if (
+    artwork.artistId !== user.id &&
+    user.role !== UserRole.CURATOR &&
+    user.role !== UserRole.ADMIN
+  ) {
+    throw {
+      code: 403,
+      error: new Error('Not authorized to view reviews for this artwork')
+    };
+  }
+
+  return artwork;
+};
+
+/**
+ * Only expose who reviewed, not their account details
+ */
+const toReviewResponse = (review: ArtworkReview) => ({
+  ...review,
+  reviewer: review.reviewer ? { id: review.reviewer.id, username: review.reviewer.username } : null
+});
+
+/**
+ * Get every review round of an artwork, newest first
+ */
+export const getArtworkReviews = async (artworkId: string, user: User) => {
+  try {
+    await assertCanViewReviews(artworkId, user);
+
+    const reviews = await AppDataSource.getRepository(ArtworkReview).find({
+      where: { artworkId },
+      relations: ['reviewer'],
+      order: { round: 'DESC' }
+    });
+
+    return reviews.map(toReviewResponse);
+  } catch (error) {
+    logger.error('Get artwork reviews error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Compare the latest review round of an artwork with the one before it,
+ * so curators can see what the artist changed when resubmitting
+ */
+export const getReviewComparison = async (artworkId: string, user: User) => {
+  try {
+    await assertCanViewReviews(artworkId, user);
+
+    const rounds = await AppDataSource.getRepository(ArtworkReview).find({
+      where: { artworkId },
+      relations: ['reviewer'],
+      order: { round: 'DESC' },
+      take: 2
+    });
+
+    const [current = null, previous = null] = rounds;
+
+    const changes = current && previous
+      ? SNAPSHOT_FIELDS
+          .filter(field => JSON.stringify(current.snapshot[field]) !== JSON.stringify(previous.snapshot[field]))
+          .map(field => ({
+            field,
+            before: previous.snapshot[field],
+            after: current.snapshot[field]
+          }))
+      : [];
+
+    return {
+      current: current && toReviewResponse(current),
+      previous: previous && toReviewResponse(previous),
+      changes
+    };
+  } catch (error) {
+    logger.error('Get review comparison error:', error);
+    throw error;
+  }
+};
+
+/**
+ * A claim or assignment holds a round until it lapses or is released
+ */
+const isClaimActive = (review: ArtworkReview, now: Date = new Date()) =>
+  !!review.assigneeId && (!review.claimExpiresAt || review.claimExpiresAt.getTime() > now.getTime());
+
+/**
+ * Shape a queue entry without exposing account details
+ */
+const toQueueItem = (artwork: Artwork, review: ArtworkReview | null, now: Date = new Date()) => {
+  const claimed = review ? isClaimActive(review, now) : false;
+
+  return {
+    artworkId: artwork.id,
+    artwork: {
+      id: artwork.id,
+      title: artwork.title,
+      description: artwork.description,
+      category: artwork.category,
+      tags: artwork.tags,
+      fileUrl: artwork.fileUrl,
+      thumbnailUrl: artwork.thumbnailUrl,
+      imageStatus: artwork.imageStatus,
+      createdAt: artwork.createdAt,
+      artist: artwork.artist ? { id: artwork.artist.id, username: artwork.artist.username } : null
+    },
+    round: review?.round || 1,
+    submittedAt: review?.submittedAt || artwork.createdAt,
+    assignee: claimed && review?.assignee ? { id: review.assignee.id, username: review.assignee.username } : null,
+    assignedById: claimed ? review?.assignedById || null : null,
+    claimedAt: claimed ? review?.claimedAt || null : null,
+    claimExpiresAt: claimed ? review?.claimExpiresAt || null : null
+  };
+};
+
+/**
+ * Tell every curator and admin that a queue entry changed
+ */
+export const emitQueueUpdate = (
+  io: any,
+  artworkId: string,
+  action: 'added' | 'claimed' | 'released' | 'assigned' | 'removed',
+  item?: ReturnType<typeof toQueueItem>
+) => {
+  if (!io) return;
+
+  io.to(`role:${UserRole.CURATOR}`).to(`role:${UserRole.ADMIN}`).emit('review-queue:updated', {
+    artworkId,
+    action,
+    item: item || null
+  });
+};
+
+/**
+ * Find an artwork waiting for review along with its open round, opening
+ * the round for artworks uploaded before review rounds existed
+ */
+const findQueueEntryOrFail = async (artworkId: string) => {
+  const artwork = await AppDataSource.getRepository(Artwork).findOne({
+    where: { id: artworkId },
+    relations: ['artist']
+  });
+
+  if (!artwork) {
+    throw {
+      code: 404,
+      error: new Error('Artwork not found')
+    };
+  }
+
+  if (artwork.status !== ArtworkStatus.PENDING) {
+    throw {
+      code: 409,
+      error: new Error('This artwork is not awaiting review')
+    };
+  }
+
+  let review = await findLatestRound(artwork.id);
+
+  if (!review || review.decision !== ReviewDecision.PENDING) {
+    review = await openReviewRound(artwork);
+  }
+
+  if (review.assigneeId && !review.assignee) {
+    review.assignee = await AppDataSource.getRepository(User).findOne({ where: { id: review.assigneeId } });
+  }
+
+  return { artwork, review };
+};
+
+/**
+ * Stop curators from deciding on an artwork someone else is reviewing.
+ * Admins can always step in.
+ */
+export const assertNotClaimedByOthers = async (artwork: Artwork, user: User) => {
+  if (user.role === UserRole.ADMIN) return;
+
+  const review = await AppDataSource.getRepository(ArtworkReview).findOne({
+    where: { artworkId: artwork.id, decision: ReviewDecision.PENDING },
+    relations: ['assignee']
+  });
+
+  if (review && isClaimActive(review) && review.assigneeId !== user.id) {
+    throw {
+      code: 409,
+      error: new Error(`This artwork is being reviewed by ${review.assignee?.username || 'another curator'}`)
+    };
+  }
+};
+
+/**
+ * Get the artworks waiting for review, oldest submission first
+ */
+export const getReviewQueue = async (
+  user: User,
+  filters: ReviewQueueFilters = {},
+  page: number = 1,
+  limit: number = 20
+) => {
+  try {
+    const now = new Date();
+
+    let query = AppDataSource.getRepository(Artwork)
+      .createQueryBuilder('artwork')
+      .leftJoinAndSelect('artwork.artist', 'artist')
+      .leftJoinAndMapOne(
+        'artwork.openReview',
+        ArtworkReview,
+        'review',
+        'review.artworkId = artwork.id AND review.decision = :pending',
+        { pending: ReviewDecision.PENDING }
+      )
+      .leftJoinAndSelect('review.assignee', 'assignee')
+      .where('artwork.status = :status', { status: ArtworkStatus.PENDING });
+
+    if (filters.category) {
+      query = query.andWhere('artwork.category = :category', { category: filters.category });
+    }
+
+    if (filters.artist) {
+      query = query.andWhere('artist.username = :artist', { artist: filters.artist });
+    }
+
+    if (filters.search) {
+      query = query.andWhere(
+        '(artwork.title ILIKE :search OR artwork.description ILIKE :search)',
+        { search: `%${filters.search}%` }
+      );
+    }
+
+    if (filters.assignee === 'unassigned') {
+      query = query.andWhere(
+        '(review.id IS NULL OR review.assigneeId IS NULL OR review.claimExpiresAt <= :now)',
+        { now }
+      );
+    } else if (filters.assignee) {
+      const assigneeId = filters.assignee === 'me' ? user.id : filters.assignee;
+      query = query.andWhere(
+        'review.assigneeId = :assigneeId AND (review.claimExpiresAt IS NULL OR review.claimExpiresAt > :now)',
+        { assigneeId, now }
+      );
+    }
+
+    const total = await query.getCount();
+
+    // Each artwork has at most one open round, so plain offset/limit paging is safe
+    const artworks = await query
+      .orderBy('COALESCE(review."submittedAt", artwork."createdAt")', 'ASC')
+      .offset((Number(page) - 1) * Number(limit))
+      .limit(Number(limit))
+      .getMany();
+
+    return {
+      items: artworks.map(artwork =>
+        toQueueItem(artwork, (artwork as Artwork & { openReview?: ArtworkReview }).openReview || null, now)
+      ),
+      pagination: {
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        pages: Math.ceil(total / Number(limit))
+      }
+    };
+  } catch (error) {
+    logger.error('Get review queue error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Claim a queue entry for a limited time so no one else acts on it
+ */
+export const claimReview = async (user: User, artworkId: string, io?: any) => {
+  try {
+    const { artwork, review } = await findQueueEntryOrFail(artworkId);
+    const now = new Date();
+
+    if (isClaimActive(review, now) && review.assigneeId !== user.id) {
+      throw {
+        code: 409,
+        error: new Error(`This artwork is already being reviewed by ${review.assignee?.username || 'another curator'}`)
+      };
+    }
+
+    // An admin assignment to this curator already holds the item without expiry
+    const keepAssignment = isClaimActive(review, now) && review.assigneeId === user.id && !review.claimExpiresAt;
+
+    if (!keepAssignment) {
+      const claimExpiresAt = new Date(now.getTime() + CLAIM_DURATION_MS);
+
+      // Only take the round if it is still free, so two curators can't claim it at once
+      const result = await AppDataSource.getRepository(ArtworkReview)
+        .createQueryBuilder()
+        .update(ArtworkReview)
+        .set({ assigneeId: user.id, assignedById: user.id, claimedAt: now, claimExpiresAt })
+        .where('id = :id', { id: review.id })
+        .andWhere('("assigneeId" IS NULL OR "assigneeId" = :userId OR "claimExpiresAt" <= :now)', { userId: user.id, now })
+        .execute();
+
+      if (!result.affected) {
+        throw {
+          code: 409,
+          error: new Error('This artwork was just claimed by another curator')
+        };
+      }
+
+      review.assignee = user;
+      review.assigneeId = user.id;
+      review.assignedById = user.id;
+      review.claimedAt = now;
+      review.claimExpiresAt = claimExpiresAt;
+    }
+
+    const item = toQueueItem(artwork, review, now);
+    emitQueueUpdate(io, artwork.id, 'claimed', item);
+
+    return item;
+  } catch (error) {
+    logger.error('Claim review error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Give a claimed queue entry back to the pool
+ */
+export const releaseReview = async (user: User, artworkId: string, io?: any) => {
+  try {
+    const { artwork, review } = await findQueueEntryOrFail(artworkId);
+
+    if (isClaimActive(review) && review.assigneeId !== user.id && user.role !== UserRole.ADMIN) {
+      throw {
+        code: 403,
+        error: new Error('Only the assigned curator or an admin can release this review')
+      };
+    }
+
+    review.assignee = null;
+    review.assigneeId = null;
+    review.assignedById = null;
+    review.claimedAt = null;
+    review.claimExpiresAt = null;
+    await AppDataSource.getRepository(ArtworkReview).save(review);
+
+    const item = toQueueItem(artwork, review);
+    emitQueueUpdate(io, artwork.id, 'released', item);
+
+    return item;
+  } catch (error) {
+    logger.error('Release review error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Assign a queue entry to a specific curator (admins only)
+ */
+export const assignReview = async (admin: User, artworkId: string, curatorId: string, io?: any) => {
+  try {
+    if (admin.role !== UserRole.ADMIN) {
+      throw {
+        code: 403,
+        error: new Error('Only admins can assign reviews')
+      };
+    }
+
+    const curator = await AppDataSource.getRepository(User).findOne({ where: { id: curatorId } });
+
+    if (!curator) {
+      throw {
+        code: 404,
+        error: new Error('Curator not found')
+      };
+    }
+
+    if (curator.role !== UserRole.CURATOR && curator.role !== UserRole.ADMIN) {
+      throw {
+        code: 400,
+        error: new Error('Reviews can only be assigned to curators or admins')
+      };
+    }
+
+    const { artwork, review } = await findQueueEntryOrFail(artworkId);
+    const now = new Date();
+
+    review.assignee = curator;
+    review.assigneeId = curator.id;
+    review.assignedById = admin.id;
+    review.claimedAt = now;
+    review.claimExpiresAt = null;
+    await AppDataSource.getRepository(ArtworkReview).save(review);
+
+    if (curator.id !== admin.id) {
+      await notifyReviewAssignment(artwork.id, artwork.title, curator.id, admin.id, admin.username);
+
+      if (io) {
+        io.to(curator.id).emit('review-assigned', {
+          id: artwork.id,
+          title: artwork.title,
+          adminName: admin.username
+        });
+      }
+    }
+
+    const item = toQueueItem(artwork, review, now);
+    emitQueueUpdate(io, artwork.id, 'assigned', item);
+
+    return item;
+  } catch (error) {
+    logger.error('Assign review error:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,73 @@
+import { In } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Exhibition, ExhibitionStatus } from '../entities/Exhibition';
+import { logger } from '../utils/logger';
+import { resolveLifecycleStatus, transitionExhibition } from './exhibition.service';
+
+const SCHEDULER_INTERVAL_MS = Number(process.env.EXHIBITION_SCHEDULER_INTERVAL_MS || 60 * 1000);
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+/**
+ * Move every published exhibition to the status its dates call for
+ * @param io Socket.io server used to announce openings and closings
+ */
+export const runExhibitionLifecycle = async (io?: any) => {
+  // Skip this tick if the previous run is still going. Other servers may be
+  // running too; transitionExhibition makes sure each change happens once.
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    const now = new Date();
+    const exhibitions = await AppDataSource.getRepository(Exhibition).find({
+      where: {
+        status: In([ExhibitionStatus.SCHEDULED, ExhibitionStatus.LIVE, ExhibitionStatus.CLOSED])
+      }
+    });
+
+    for (const exhibition of exhibitions) {
+      const nextStatus = resolveLifecycleStatus(exhibition, now);
+
+      if (nextStatus !== exhibition.status) {
+        try {
+          await transitionExhibition(exhibition, nextStatus, io);
+        } catch (error) {
+          // Another server's scheduler moved it first
+          if ((error as { code?: number })?.code === 409) continue;
+          logger.error(`Failed to move exhibition ${exhibition.id} to ${nextStatus}:`, error);
+        }
+      }
+    }
+  } catch (error) {
+    logger.error('Exhibition lifecycle run error:', error);
+  } finally {
+    isRunning = false;
+  }
+};
+
+/**
+ * Start the background scheduler that drives exhibition lifecycles
+ * @param io Socket.io server used to announce openings and closings
+ */
+export const startExhibitionScheduler = (io?: any) => {
+  if (schedulerTimer) return;
+
+  logger.info(`Starting exhibition scheduler (every ${SCHEDULER_INTERVAL_MS}ms)`);
+
+  // Catch up on anything that changed while the server was down
+  runExhibitionLifecycle(io);
+
+  schedulerTimer = setInterval(() => runExhibitionLifecycle(io), SCHEDULER_INTERVAL_MS);
+};
+
+/**
+ * Stop the background scheduler
+ */
+export const stopExhibitionScheduler = () => {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+};
@@ -0,0 +1,395 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { AwsCredentials, presignUrl, signRequest } from '../utils/awsSignature';
+
+export type StorageDriverName = 'local' | 's3';
+
+// Files under this prefix are never served as they are: clients reach them
+// through /files, which checks who is asking and hands out a signed URL
+const PRIVATE_PREFIX = 'originals/';
+const PRIVATE_FILE_ROUTE = '/files/';
+
+// How long a signed URL for a private file works
+const SIGNED_URL_SECONDS = parseInt(process.env.STORAGE_SIGNED_URL_SECONDS || '900');
+
+// Files sent to the store at once when copying many, e.g. deep-zoom tiles
+const PARALLEL_TRANSFERS = 8;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.dzi': 'application/xml',
+  '.xml': 'application/xml',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.ogg': 'audio/ogg',
+  '.wav': 'audio/wav',
+  '.webm': 'audio/webm'
+};
+
+/**
+ * Where uploaded files are kept. Keys are relative paths such as
+ * renditions/photo_card_480.webp; each store decides the URLs they are
+ * served from.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  // Deleting a file that is not there is not an error
+  delete(key: string): Promise<void>;
+  // Every key starting with the prefix
+  list(prefix: string): Promise<string[]>;
+  publicUrl(key: string): string;
+  // The key behind one of this store's public URLs, or null when it is not one
+  keyFromUrl(url: string): string | null;
+  signedUrl(key: string, expiresIn: number): string;
+}
+
+const contentTypeFor = (key: string) => CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream';
+
+/**
+ * Whether a key is for a file only handed out through signed URLs
+ */
+export const isPrivateStorageKey = (key: string) => key.startsWith(PRIVATE_PREFIX);
+
+/**
+ * Run a task for each item, a few at a time
+ */
+const forEachInParallel = async <T>(items: T[], task: (item: T) => Promise<void>) => {
+  const queue = [...items];
+  const workers = Array.from({ length: Math.min(PARALLEL_TRANSFERS, queue.length) }, async () => {
+    for (let item = queue.shift(); item !== undefined; item = queue.shift()) {
+      await task(item);
+    }
+  });
+  await Promise.all(workers);
+};
+
+/**
+ * Every file under a directory, as paths relative to it with forward slashes
+ */
+const walkDirectory = (dir: string, relative = ''): string[] => {
+  if (!fs.existsSync(path.join(dir, relative))) return [];
+
+  return fs.readdirSync(path.join(dir, relative), { withFileTypes: true }).flatMap(entry => {
+    const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+    return entry.isDirectory() ? walkDirectory(dir, entryPath) : [entryPath];
+  });
+};
+
+const localSignature = (key: string, expires: number) =>
+  crypto
+    .createHmac('sha256', process.env.STORAGE_SIGNING_SECRET || (process.env.JWT_SECRET as string))
+    .update(`${key}:${expires}`)
+    .digest('hex');
+
+// Where the local store keeps files
+export const LOCAL_STORAGE_DIR = path.resolve(process.env.UPLOAD_DIR || path.join(__dirname, '../../uploads'));
+
+/**
+ * Files on this server's disk, served from /uploads. Only suits a single
+ * backend: other replicas cannot see them.
+ */
+const createLocalStorage = (): StorageDriver => {
+  const root = LOCAL_STORAGE_DIR;
+
+  const pathFor = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw { code: 400, error: new Error(`Invalid storage key: ${key}`) };
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+
+    put: async (key, body) => {
+      const filePath = pathFor(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, body);
+    },
+
+    get: key => fs.promises.readFile(pathFor(key)),
+
+    delete: key => fs.promises.rm(pathFor(key), { force: true }),
+
+    list: async prefix => {
+      // Only walk the directory the prefix points into
+      const dir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+      return walkDirectory(root, dir).filter(key => key.startsWith(prefix));
+    },
+
+    publicUrl: key => `/uploads/${key}`,
+
+    keyFromUrl: url => (url.startsWith('/uploads/') ? url.slice('/uploads/'.length).split('?')[0] : null),
+
+    signedUrl: (key, expiresIn) => {
+      const expires = Math.floor(Date.now() / 1000) + expiresIn;
+      return `/uploads/${key}?expires=${expires}&signature=${localSignature(key, expires)}`;
+    }
+  };
+};
+
+/**
+ * Files in an S3-compatible bucket: AWS S3, or MinIO for local testing.
+ * Every backend replica sees the same files. The bucket should let anyone
+ * read everything but the originals/ prefix.
+ */
+const createS3Storage = (): StorageDriver => {
+  const region = process.env.S3_REGION || 'us-east-1';
+  const endpoint = (process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, '');
+  const bucket = process.env.S3_BUCKET as string;
+  // A CDN in front of the bucket, when there is one
+  const publicBase = (process.env.S3_PUBLIC_URL || `${endpoint}/${bucket}`).replace(/\/+$/, '');
+
+  const credentials: AwsCredentials = {
+    accessKeyId: process.env.S3_ACCESS_KEY_ID as string,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY as string,
+    region,
+    service: 's3'
+  };
+
+  const encodeKey = (key: string) => key.split('/').map(encodeURIComponent).join('/');
+
+  // Path-style addressing, which MinIO and AWS both accept
+  const objectUrl = (key: string) => new URL(`${endpoint}/${bucket}/${encodeKey(key)}`);
+
+  const send = async (method: string, url: URL, body?: Buffer, headers: Record<string, string> = {}) => {
+    const signed = signRequest(credentials, method, url, headers, body);
+    // fetch sets the host header itself
+    delete signed.host;
+    const response = await fetch(url, { method, headers: signed, body });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 ${method} ${url.pathname} failed with ${response.status}: ${await response.text()}`);
+    }
+    return response;
+  };
+
+  return {
+    name: 's3',
+
+    put: async (key, body, contentType) => {
+      await send('PUT', objectUrl(key), body, { 'content-type': contentType });
+    },
+
+    get: async key => {
+      const response = await send('GET', objectUrl(key));
+      if (response.status === 404) {
+        throw { code: 404, error: new Error(`Stored file not found: ${key}`) };
+      }
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    delete: async key => {
+      await send('DELETE', objectUrl(key));
+    },
+
+    list: async prefix => {
+      const keys: string[] = [];
+      let continuationToken: string | undefined;
+
+      do {
+        const url = new URL(`${endpoint}/${bucket}`);
+        url.searchParams.set('list-type', '2');
+        url.searchParams.set('prefix', prefix);
+        if (continuationToken) url.searchParams.set('continuation-token', continuationToken);
+
+        const xml = await (await send('GET', url)).text();
+        const unescape = (value: string) => value
+          .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+          .replace(/&amp;/g, '&');
+
+        keys.push(...[...xml.matchAll(/<Key>([^<]*)<\/Key>/g)].map(match => unescape(match[1])));
+        continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml)
+          ? unescape(xml.match(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/)?.[1] || '') || undefined
+          : undefined;
+      } while (continuationToken);
+
+      return keys;
+    },
+
+    publicUrl: key => `${publicBase}/${encodeKey(key)}`,
+
+    keyFromUrl: url =>
+      url.startsWith(`${publicBase}/`)
+        ? url.slice(publicBase.length + 1).split('?')[0].split('/').map(decodeURIComponent).join('/')
+        : null,
+
+    signedUrl: (key, expiresIn) => presignUrl(credentials, 'GET', objectUrl(key), expiresIn)
+  };
+};
+
+/**
+ * Make a store by name, configured from the environment
+ */
+export const createStorageDriver = (name: string): StorageDriver => {
+  switch (name) {
+    case 'local':
+      return createLocalStorage();
+    case 's3':
+      if (!process.env.S3_BUCKET || !process.env.S3_ACCESS_KEY_ID || !process.env.S3_SECRET_ACCESS_KEY) {
+        throw new Error('S3 storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+      }
+      return createS3Storage();
+    default:
+      throw new Error(`Unknown storage driver: ${name}`);
+  }
+};
+
+let activeStorage: StorageDriver | null = null;
+
+/**
+ * The store new uploads go to, chosen by STORAGE_DRIVER
+ */
+export const getStorage = (): StorageDriver => {
+  if (!activeStorage) {
+    activeStorage = createStorageDriver(process.env.STORAGE_DRIVER || 'local');
+  }
+  return activeStorage;
+};
+
+/**
+ * The URL clients use for a stored file. Private files get a link to
+ * /files, which works whichever store holds them.
+ */
+export const fileUrlFor = (key: string, storage: StorageDriver = getStorage()) =>
+  isPrivateStorageKey(key) ? `${PRIVATE_FILE_ROUTE}${key}` : storage.publicUrl(key);
+
+/**
+ * The key of a stored file from its URL
+ * @returns The key, or null when the URL is not from the store
+ */
+export const storageKeyFromUrl = (url: string, storage: StorageDriver = getStorage()) =>
+  url.startsWith(PRIVATE_FILE_ROUTE) ? url.slice(PRIVATE_FILE_ROUTE.length) : storage.keyFromUrl(url);
+
+/**
+ * Put a local file in the store
+ * @param localPath File on this server's disk
+ * @param key Where to keep it; keys under originals/ stay private
+ * @returns URL to save for the file
+ */
+export const storeFile = async (localPath: string, key: string) => {
+  const storage = getStorage();
+  await storage.put(key, await fs.promises.readFile(localPath), contentTypeFor(key));
+  return fileUrlFor(key, storage);
+};
+
+/**
+ * Put every file under a local directory in the store, keeping their paths
+ * @param localDir Directory on this server's disk
+ * @param keyPrefix Key of the directory in the store
+ * @returns URL of the directory, to which file paths are appended
+ */
+export const storeDirectory = async (localDir: string, keyPrefix: string) => {
+  const storage = getStorage();
+  await forEachInParallel(walkDirectory(localDir), async relative => {
+    const key = `${keyPrefix}/${relative}`;
+    await storage.put(key, await fs.promises.readFile(path.join(localDir, relative)), contentTypeFor(key));
+  });
+  return fileUrlFor(keyPrefix, storage);
+};
+
+/**
+ * Copy a stored file to this server's disk
+ * @param url URL saved for the file
+ * @param localPath Where to write it
+ */
+export const fetchStoredFile = async (url: string, localPath: string) => {
+  const key = storageKeyFromUrl(url);
+  if (!key) {
+    throw new Error(`Not a stored file: ${url}`);
+  }
+
+  await fs.promises.writeFile(localPath, await getStorage().get(key));
+};
+
+/**
+ * Copy a file from one store to another
+ * @param targetKey Key in the new store, when it changes
+ */
+export const copyStoredFile = async (key: string, from: StorageDriver, to: StorageDriver, targetKey: string = key) => {
+  await to.put(targetKey, await from.get(key), contentTypeFor(key));
+};
+
+/**
+ * Delete a stored file by its URL. Failures are logged rather than thrown:
+ * a leftover file is better than failing the change that dropped it.
+ */
+export const deleteStoredFile = async (url: string) => {
+  const key = storageKeyFromUrl(url);
+  if (!key) return;
+
+  try {
+    await getStorage().delete(key);
+  } catch (error) {
+    logger.warn(`Failed to delete stored file ${key}:`, error);
+  }
+};
+
+/**
+ * Delete every stored file under a directory URL, such as deep-zoom tiles
+ */
+export const deleteStoredDirectory = async (url: string) => {
+  const prefix = storageKeyFromUrl(url);
+  if (!prefix) return;
+
+  try {
+    const storage = getStorage();
+    await forEachInParallel(await storage.list(`${prefix}/`), key => storage.delete(key));
+  } catch (error) {
+    logger.warn(`Failed to delete stored directory ${prefix}:`, error);
+  }
+};
+
+/**
+ * A short-lived URL for reading a private file
+ */
+export const getSignedFileUrl = (key: string) => getStorage().signedUrl(key, SIGNED_URL_SECONDS);
+
+/**
+ * The key of the local store's file a request under /uploads reads, decoded
+ * and normalised the way the static file server finds the file
+ * @param requestPath Path of the request below /uploads
+ * @returns The key, or null when the path cannot be decoded or leaves the store
+ */
+export const localStorageKeyFromPath = (requestPath: string) => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(requestPath);
+  } catch (error) {
+    return null;
+  }
+
+  const filePath = path.resolve(LOCAL_STORAGE_DIR, `.${path.posix.sep}${decoded}`);
+  if (filePath !== LOCAL_STORAGE_DIR && !filePath.startsWith(LOCAL_STORAGE_DIR + path.sep)) {
+    return null;
+  }
+
+  return path.relative(LOCAL_STORAGE_DIR, filePath).split(path.sep).join('/');
+};
+
+/**
+ * Check a signed URL made by the local store
+ * @param key Key of the file requested
+ * @param expires Unix time the URL stops working, from the query string
+ * @param signature Signature from the query string
+ */
+export const verifyLocalSignature = (key: string, expires: unknown, signature: unknown) => {
+  const expiresAt = Number(expires);
+  if (typeof signature !== 'string' || !Number.isFinite(expiresAt) || expiresAt * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(localSignature(key, expiresAt));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+};
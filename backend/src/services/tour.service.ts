@@ -0,0 +1,439 @@
+import fs from 'fs';
+import path from 'path';
+import { In } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Tour } from '../entities/Tour';
+import { TourStop, CameraPose } from '../entities/TourStop';
+import { Wall } from '../entities/Wall';
+import { ArtworkPlacement } from '../entities/ArtworkPlacement';
+import { User, UserRole } from '../entities/User';
+import { Exhibition } from '../entities/Exhibition';
+import { logger } from '../utils/logger';
+import { deleteStoredFile, storeFile } from './storage.service';
+import {
+  assertCanManageExhibition,
+  assertCanViewExhibition,
+  assertExhibitionEditable,
+  findExhibitionOrFail
+} from './exhibition.service';
+
+export interface TourDetails {
+  title?: string;
+  description?: string | null;
+  isPublished?: boolean;
+}
+
+export interface TourStopInput {
+  // Keep an existing stop (and its audio) instead of creating a new one
+  id?: string;
+  wallId: string;
+  artworkId: string;
+  cameraPose?: CameraPose | null;
+  narration?: string;
+}
+
+export interface TourStopResponse {
+  id: string;
+  stopOrder: number;
+  wallId: string;
+  wallName: string | null;
+  artworkId: string;
+  artwork: {
+    id: string;
+    title: string;
+    fileUrl: string;
+    thumbnailUrl: string | null;
+    artistName: string | null;
+  } | null;
+  cameraPose: CameraPose | null;
+  narration: string;
+  audioUrl: string | null;
+}
+
+export interface TourResponse {
+  id: string;
+  exhibitionId: string;
+  title: string;
+  description: string | null;
+  isPublished: boolean;
+  stopCount: number;
+  stops?: TourStopResponse[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const canManage = (exhibition: Exhibition, viewer?: User) =>
+  viewer?.role === UserRole.ADMIN || viewer?.id === exhibition.curatorId;
+
+const toTourStopResponse = (stop: TourStop): TourStopResponse => ({
+  id: stop.id,
+  stopOrder: stop.stopOrder,
+  wallId: stop.wallId,
+  wallName: stop.wall?.name ?? null,
+  artworkId: stop.artworkId,
+  artwork: stop.artwork
+    ? {
+        id: stop.artwork.id,
+        title: stop.artwork.title,
+        fileUrl: stop.artwork.fileUrl,
+        thumbnailUrl: stop.artwork.thumbnailUrl ?? null,
+        artistName: stop.artwork.artist?.username ?? null
+      }
+    : null,
+  cameraPose: stop.cameraPose,
+  narration: stop.narration,
+  audioUrl: stop.audioUrl
+});
+
+const toTourResponse = (tour: Tour, stops?: TourStop[]): TourResponse => ({
+  id: tour.id,
+  exhibitionId: tour.exhibitionId,
+  title: tour.title,
+  description: tour.description,
+  isPublished: tour.isPublished,
+  stopCount: stops ? stops.length : tour.stops?.length ?? 0,
+  ...(stops && { stops: stops.map(toTourStopResponse) }),
+  createdAt: tour.createdAt,
+  updatedAt: tour.updatedAt
+});
+
+/**
+ * Load a tour's stops in order, with their walls and artworks
+ */
+const findTourStops = (tourId: string) =>
+  AppDataSource.getRepository(TourStop).find({
+    where: { tourId },
+    relations: ['wall', 'artwork', 'artwork.artist'],
+    order: { stopOrder: 'ASC' }
+  });
+
+/**
+ * Find a tour by ID (with its exhibition) or throw a 404
+ */
+const findTourOrFail = async (tourId: string) => {
+  const tour = await AppDataSource.getRepository(Tour).findOne({
+    where: { id: tourId },
+    relations: ['exhibition']
+  });
+
+  if (!tour) {
+    throw {
+      code: 404,
+      error: new Error('Tour not found')
+    };
+  }
+
+  return tour;
+};
+
+/**
+ * Find a tour and check the user may edit it
+ */
+const findManageableTour = async (user: User, tourId: string) => {
+  const tour = await findTourOrFail(tourId);
+
+  assertCanManageExhibition(user, tour.exhibition);
+  assertExhibitionEditable(tour.exhibition);
+
+  return tour;
+};
+
+/**
+ * Find one of a tour's stops or throw a 404
+ */
+const findTourStopOrFail = async (tourId: string, stopId: string) => {
+  const stop = await AppDataSource.getRepository(TourStop).findOne({ where: { id: stopId, tourId } });
+
+  if (!stop) {
+    throw {
+      code: 404,
+      error: new Error('Tour stop not found')
+    };
+  }
+
+  return stop;
+};
+
+/**
+ * Get the tours of an exhibition. Visitors see published tours only.
+ * @param exhibitionId Exhibition ID
+ * @param viewer The user asking, if signed in
+ * @returns Tours without their stops
+ */
+export const getTours = async (exhibitionId: string, viewer?: User) => {
+  try {
+    const exhibition = await findExhibitionOrFail(exhibitionId);
+    assertCanViewExhibition(exhibition, viewer);
+
+    const tours = await AppDataSource.getRepository(Tour).find({
+      where: {
+        exhibitionId,
+        ...(!canManage(exhibition, viewer) && { isPublished: true })
+      },
+      relations: ['stops'],
+      order: { createdAt: 'ASC' }
+    });
+
+    return tours.map(tour => toTourResponse(tour));
+  } catch (error) {
+    logger.error('Get tours error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get a tour with its stops in order
+ * @param tourId Tour ID
+ * @param viewer The user asking, if signed in
+ * @returns The tour and its stops
+ */
+export const getTour = async (tourId: string, viewer?: User) => {
+  try {
+    const tour = await findTourOrFail(tourId);
+    assertCanViewExhibition(tour.exhibition, viewer);
+
+    if (!tour.isPublished && !canManage(tour.exhibition, viewer)) {
+      throw {
+        code: 404,
+        error: new Error('Tour not found')
+      };
+    }
+
+    return toTourResponse(tour, await findTourStops(tour.id));
+  } catch (error) {
+    logger.error('Get tour error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Start a new, unpublished tour of an exhibition
+ * @param user Curator or admin creating the tour
+ * @param exhibitionId Exhibition ID
+ * @param details Title and description
+ * @returns The created tour
+ */
+export const createTour = async (user: User, exhibitionId: string, details: TourDetails) => {
+  try {
+    const exhibition = await findExhibitionOrFail(exhibitionId);
+    assertCanManageExhibition(user, exhibition);
+    assertExhibitionEditable(exhibition);
+
+    const tourRepository = AppDataSource.getRepository(Tour);
+    const tour = tourRepository.create({
+      exhibitionId,
+      title: details.title,
+      description: details.description ?? null,
+      isPublished: false
+    });
+
+    return toTourResponse(await tourRepository.save(tour), []);
+  } catch (error) {
+    logger.error('Create tour error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Rename, describe, publish or unpublish a tour
+ * @param user Curator or admin editing the tour
+ * @param tourId Tour ID
+ * @param updates Fields to change
+ * @returns The updated tour
+ */
+export const updateTour = async (user: User, tourId: string, updates: TourDetails) => {
+  try {
+    const tour = await findManageableTour(user, tourId);
+    const stops = await findTourStops(tour.id);
+
+    if (updates.isPublished && stops.length === 0) {
+      throw {
+        code: 400,
+        error: new Error('Add at least one stop before publishing a tour')
+      };
+    }
+
+    if (updates.title !== undefined) tour.title = updates.title;
+    if (updates.description !== undefined) tour.description = updates.description;
+    if (updates.isPublished !== undefined) tour.isPublished = updates.isPublished;
+
+    return toTourResponse(await AppDataSource.getRepository(Tour).save(tour), stops);
+  } catch (error) {
+    logger.error('Update tour error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a tour, its stops and their audio
+ * @param user Curator or admin deleting the tour
+ * @param tourId Tour ID
+ */
+export const deleteTour = async (user: User, tourId: string) => {
+  try {
+    const tour = await findManageableTour(user, tourId);
+    const stops = await AppDataSource.getRepository(TourStop).find({ where: { tourId: tour.id } });
+
+    await AppDataSource.getRepository(Tour).remove(tour);
+
+    for (const stop of stops) {
+      if (stop.audioUrl) await deleteStoredFile(stop.audioUrl);
+    }
+
+    return { message: 'Tour deleted successfully' };
+  } catch (error) {
+    logger.error('Delete tour error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Replace a tour's stops with a new ordered list. Stops passed with their ID
+ * keep their audio; stops left out are deleted.
+ * @param user Curator or admin editing the tour
+ * @param tourId Tour ID
+ * @param inputs The stops in order
+ * @returns The tour with its new stops
+ */
+export const saveTourStops = async (user: User, tourId: string, inputs: TourStopInput[]) => {
+  try {
+    const tour = await findManageableTour(user, tourId);
+
+    // Every stop must point at an artwork hanging on a wall of this exhibition
+    const wallIds = [...new Set(inputs.map(input => input.wallId))];
+    const walls = wallIds.length > 0
+      ? await AppDataSource.getRepository(Wall).find({ where: { id: In(wallIds), exhibitionId: tour.exhibitionId } })
+      : [];
+    const placements = wallIds.length > 0
+      ? await AppDataSource.getRepository(ArtworkPlacement).find({ where: { wallId: In(wallIds) } })
+      : [];
+
+    inputs.forEach((input, i) => {
+      if (!walls.some(wall => wall.id === input.wallId)) {
+        throw {
+          code: 400,
+          error: new Error(`Stop ${i + 1}: wall not found in this exhibition`)
+        };
+      }
+      if (!placements.some(placement => placement.wallId === input.wallId && placement.artworkId === input.artworkId)) {
+        throw {
+          code: 400,
+          error: new Error(`Stop ${i + 1}: that artwork is not on that wall`)
+        };
+      }
+    });
+
+    const removedAudio: string[] = [];
+
+    await AppDataSource.transaction(async transactionalEntityManager => {
+      const stopRepository = transactionalEntityManager.getRepository(TourStop);
+      const existingStops = await stopRepository.find({ where: { tourId: tour.id } });
+
+      inputs.forEach((input, i) => {
+        if (input.id && !existingStops.some(stop => stop.id === input.id)) {
+          throw {
+            code: 400,
+            error: new Error(`Stop ${i + 1}: not a stop of this tour`)
+          };
+        }
+      });
+
+      const keptIds = new Set(inputs.map(input => input.id).filter(Boolean));
+      const removedStops = existingStops.filter(stop => !keptIds.has(stop.id));
+      removedStops.forEach(stop => {
+        if (stop.audioUrl) removedAudio.push(stop.audioUrl);
+      });
+      if (removedStops.length > 0) {
+        await stopRepository.remove(removedStops);
+      }
+
+      await stopRepository.save(inputs.map((input, i) => {
+        const stop = existingStops.find(existing => existing.id === input.id) || stopRepository.create({ tourId: tour.id });
+        stop.stopOrder = i + 1;
+        stop.wallId = input.wallId;
+        stop.artworkId = input.artworkId;
+        stop.cameraPose = input.cameraPose ?? null;
+        stop.narration = input.narration ?? '';
+        return stop;
+      }));
+
+      // A tour left without stops has nothing to show visitors
+      if (inputs.length === 0 && tour.isPublished) {
+        tour.isPublished = false;
+        await transactionalEntityManager.getRepository(Tour).save(tour);
+      }
+    });
+
+    // Only delete files once the stops pointing at them are gone
+    for (const audioUrl of removedAudio) {
+      await deleteStoredFile(audioUrl);
+    }
+
+    return toTourResponse(tour, await findTourStops(tour.id));
+  } catch (error) {
+    logger.error('Save tour stops error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Attach a narration clip to a stop, replacing any clip it had
+ * @param user Curator or admin editing the tour
+ * @param tourId Tour ID
+ * @param stopId Stop ID
+ * @param file Uploaded audio from multer
+ * @returns The updated stop
+ */
+export const setTourStopAudio = async (user: User, tourId: string, stopId: string, file: Express.Multer.File) => {
+  try {
+    await findManageableTour(user, tourId);
+    const stop = await findTourStopOrFail(tourId, stopId);
+    const previousAudio = stop.audioUrl;
+
+    stop.audioUrl = await storeFile(file.path, `audio/${path.basename(file.path)}`);
+    await AppDataSource.getRepository(TourStop).save(stop);
+
+    if (previousAudio) await deleteStoredFile(previousAudio);
+
+    const [savedStop] = await AppDataSource.getRepository(TourStop).find({
+      where: { id: stop.id },
+      relations: ['wall', 'artwork', 'artwork.artist']
+    });
+    return toTourStopResponse(savedStop);
+  } catch (error) {
+    logger.error('Set tour stop audio error:', error);
+    throw error;
+  } finally {
+    // The upload is in storage now, or was not wanted
+    await fs.promises.rm(file.path, { force: true });
+  }
+};
+
+/**
+ * Remove a stop's narration clip
+ * @param user Curator or admin editing the tour
+ * @param tourId Tour ID
+ * @param stopId Stop ID
+ * @returns The updated stop
+ */
+export const removeTourStopAudio = async (user: User, tourId: string, stopId: string) => {
+  try {
+    await findManageableTour(user, tourId);
+    const stop = await findTourStopOrFail(tourId, stopId);
+
+    if (stop.audioUrl) {
+      await deleteStoredFile(stop.audioUrl);
+      stop.audioUrl = null;
+      await AppDataSource.getRepository(TourStop).save(stop);
+    }
+
+    const [savedStop] = await AppDataSource.getRepository(TourStop).find({
+      where: { id: stop.id },
+      relations: ['wall', 'artwork', 'artwork.artist']
+    });
+    return toTourStopResponse(savedStop);
+  } catch (error) {
+    logger.error('Remove tour stop audio error:', error);
+    throw error;
+  }
+};
@@ -1,70 +1,200 @@
 import sharp from 'sharp';
 import path from 'path';
 import fs from 'fs';
+import os from 'os';
+import { DeepZoomImage } from '../entities/Artwork';
+import { RenditionFormat, RenditionKind } from '../entities/ArtworkRendition';
+import { fetchStoredFile, storeDirectory, storeFile } from './storage.service';
+
+// Widths in pixels made for each kind of rendition. Thumbnails fit a square;
+// textures are stretched to power-of-two sides, which the 3D viewer undoes
+// by drawing them at the artwork's real proportions.
+const RENDITION_WIDTHS: Record<RenditionKind, number[]> = {
+  [RenditionKind.THUMB]: [150, 300],
+  [RenditionKind.CARD]: [480, 960],
+  [RenditionKind.DETAIL]: [1280, 2048],
+  [RenditionKind.TEXTURE]: [512, 1024, 2048]
+};
+
+// Unity loads textures from JPEG and PNG only, so they skip the modern formats
+const MODERN_FORMATS = [RenditionFormat.AVIF, RenditionFormat.WEBP];
+
+// Browsers cannot show TIFF, so TIFF originals are converted on upload
+const WEB_SAFE_FORMATS = ['jpeg', 'png'];
+
+// Images whose longer side is at most this are shown whole by the detail
+// rendition; bigger ones are also cut into deep-zoom tiles
+const DEEP_ZOOM_MIN_SIDE = 2048;
+const DEEP_ZOOM_TILE_SIZE = 256;
+const DEEP_ZOOM_OVERLAP = 1;
+
+export interface ProcessedRendition {
+  kind: RenditionKind;
+  format: RenditionFormat;
+  width: number;
+  height: number;
+  fileUrl: string;
+  bytes: number;
+}
+
+/**
+ * The sizes to make of one kind: those the image is big enough for, or the
+ * smallest one when it is smaller than all of them
+ */
+const widthsFor = (kind: RenditionKind, sourceWidth: number) => {
+  const widths = RENDITION_WIDTHS[kind];
+  const fitting = widths.filter(width => width <= sourceWidth);
+  return fitting.length > 0 ? fitting : [widths[0]];
+};
 
 /**
- * Process uploaded artwork image - creates thumbnail and optimizes original
- * @param file Uploaded file from multer
- * @returns Object containing paths to original and thumbnail files
+ * The power of two nearest to a length, but no bigger than the limit
  */
-export const processArtworkImage = async (file: Express.Multer.File) => {
-  const uploadDir = path.join(__dirname, '../../uploads');
-  
-  // Ensure upload directory exists
-  if (!fs.existsSync(uploadDir)) {
-    fs.mkdirSync(uploadDir, { recursive: true });
+const nearestPowerOfTwo = (length: number, limit: number) =>
+  Math.min(2 ** Math.max(0, Math.round(Math.log2(Math.max(1, length)))), limit);
+
+const encode = (image: sharp.Sharp, format: RenditionFormat) => {
+  switch (format) {
+    case RenditionFormat.AVIF:
+      return image.avif({ quality: 50 });
+    case RenditionFormat.WEBP:
+      return image.webp({ quality: 80, alphaQuality: 90 });
+    case RenditionFormat.PNG:
+      return image.png({ compressionLevel: 9 });
+    default:
+      return image.jpeg({ quality: 82, mozjpeg: true });
   }
-  
-  // Generate paths
-  const filename = path.basename(file.path);
-  const thumbnailFilename = `thumb_${filename}`;
-  const optimizedFilename = `opt_${filename}`;
-  
-  const originalPath = file.path;
-  const thumbnailPath = path.join(uploadDir, thumbnailFilename);
-  const optimizedPath = path.join(uploadDir, optimizedFilename);
-  
-  // Create thumbnail (300x300, maintaining aspect ratio)
-  await sharp(originalPath)
-    .resize(300, 300, { 
-      fit: 'inside',
-      withoutEnlargement: true
-    })
-    .jpeg({ quality: 80 })
-    .toFile(thumbnailPath);
-  
-  // Create optimized version of original
-  await sharp(originalPath)
-    .jpeg({ quality: 85 })
-    .toFile(optimizedPath);
-  
-  // Replace original with optimized version
-  fs.unlinkSync(originalPath);
-  fs.renameSync(optimizedPath, originalPath);
-  
-  return {
-    originalPath,
-    thumbnailPath
-  };
 };
 
 /**
- * Delete file if it exists
- * @param filePath Path to file
+ * Put an uploaded artwork image in storage as it is, as the artwork's
+ * original. The worker makes everything else from it later.
+ * @param file Uploaded file from multer, removed once stored
+ * @returns URL of the original
  */
-export const deleteFileIfExists = (filePath: string) => {
-  if (fs.existsSync(filePath)) {
-    fs.unlinkSync(filePath);
+export const storeArtworkUpload = async (file: Express.Multer.File) => {
+  try {
+    return await storeFile(file.path, `originals/${path.basename(file.path)}`);
+  } finally {
+    await fs.promises.rm(file.path, { force: true });
   }
 };
 
 /**
- * Generate a properly formatted URL for file path
- * @param filePath Local file path
- * @returns URL path for client access
+ * Process an artwork's original image - makes renditions in several sizes
+ * and formats and puts them in storage. Originals browsers cannot show are
+ * replaced by a converted copy.
+ * @param sourceUrl URL of the stored original
+ * @returns URLs of the original and the thumbnail, every rendition made and
+ * the deep-zoom tiles of big images
  */
-export const generateFileUrl = (filePath: string) => {
-  // Convert absolute path to relative URL
-  const relativePath = filePath.replace(path.join(__dirname, '../../'), '');
-  return relativePath.startsWith('/') ? relativePath : `/${relativePath}`;
-};
\ No newline at end of file
+export const processArtworkImage = async (sourceUrl: string) => {
+  // Everything is made here first, then copied to storage
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'artwork-'));
+
+  try {
+    const sourcePath = path.join(workDir, path.posix.basename(sourceUrl));
+    await fetchStoredFile(sourceUrl, sourcePath);
+
+    const metadata = await sharp(sourcePath).metadata();
+    const sourceWidth = metadata.width || 1;
+    const sourceHeight = metadata.height || 1;
+    const transparent = !!metadata.hasAlpha;
+    // Orientation 5 to 8 turn the image on its side
+    const [uprightWidth, uprightHeight] = (metadata.orientation || 1) >= 5
+      ? [sourceHeight, sourceWidth]
+      : [sourceWidth, sourceHeight];
+
+    // Keep PNG transparency instead of flattening it into a JPEG
+    const fallbackFormat = transparent ? RenditionFormat.PNG : RenditionFormat.JPEG;
+
+    let fileUrl = sourceUrl;
+    let originalPath = sourcePath;
+    if (!WEB_SAFE_FORMATS.includes(metadata.format || '')) {
+      const baseName = path.basename(originalPath, path.extname(originalPath));
+      originalPath = path.join(workDir, baseName + (transparent ? '.png' : '.jpg'));
+      await encode(sharp(sourcePath).rotate(), fallbackFormat).toFile(originalPath);
+      fileUrl = await storeFile(originalPath, `originals/${path.basename(originalPath)}`);
+    }
+
+    const baseName = path.basename(originalPath, path.extname(originalPath));
+    const renditions: ProcessedRendition[] = [];
+
+    for (const kind of Object.values(RenditionKind)) {
+      const formats = kind === RenditionKind.TEXTURE ? [fallbackFormat] : [...MODERN_FORMATS, fallbackFormat];
+
+      // Texture sizes are for the longer side
+      const longSide = Math.max(uprightWidth, uprightHeight);
+
+      for (const width of widthsFor(kind, kind === RenditionKind.TEXTURE ? longSide : uprightWidth)) {
+        const scale = Math.min(width, longSide) / longSide;
+
+        // Auto-orient from EXIF first so every rendition is upright
+        const resized = kind === RenditionKind.TEXTURE
+          ? sharp(originalPath).rotate().resize(
+            nearestPowerOfTwo(uprightWidth * scale, width),
+            nearestPowerOfTwo(uprightHeight * scale, width),
+            { fit: 'fill' }
+          )
+          : sharp(originalPath).rotate().resize(
+            width,
+            kind === RenditionKind.THUMB ? width : undefined,
+            { fit: 'inside', withoutEnlargement: true }
+          );
+
+        for (const format of formats) {
+          const extension = format === RenditionFormat.JPEG ? 'jpg' : format;
+          const fileName = `${baseName}_${kind}_${width}.${extension}`;
+          const renditionPath = path.join(workDir, fileName);
+          const info = await encode(resized.clone(), format).toFile(renditionPath);
+
+          renditions.push({
+            kind,
+            format,
+            width: info.width,
+            height: info.height,
+            fileUrl: await storeFile(renditionPath, `renditions/${fileName}`),
+            bytes: info.size
+          });
+        }
+      }
+    }
+
+    // Cut big images into a tile pyramid that viewers load piece by piece as they zoom in
+    let deepZoom: DeepZoomImage | null = null;
+    if (Math.max(uprightWidth, uprightHeight) > DEEP_ZOOM_MIN_SIDE) {
+      // Writes <name>.dzi and the tiles under <name>_files
+      const tileBase = path.join(workDir, baseName);
+      const format = transparent ? 'png' : 'jpeg';
+      const tiled = sharp(originalPath).rotate();
+      await (format === 'png' ? tiled.png() : tiled.jpeg({ quality: 85 }))
+        .tile({ size: DEEP_ZOOM_TILE_SIZE, overlap: DEEP_ZOOM_OVERLAP, layout: 'dz' })
+        .toFile(tileBase);
+
+      deepZoom = {
+        descriptorUrl: await storeFile(`${tileBase}.dzi`, `tiles/${baseName}.dzi`),
+        tilesUrl: await storeDirectory(`${tileBase}_files`, `tiles/${baseName}_files`),
+        width: uprightWidth,
+        height: uprightHeight,
+        tileSize: DEEP_ZOOM_TILE_SIZE,
+        overlap: DEEP_ZOOM_OVERLAP,
+        format,
+        levels: Math.ceil(Math.log2(Math.max(uprightWidth, uprightHeight))) + 1
+      };
+    }
+
+    // The biggest fallback thumbnail
+    const thumbnail = renditions
+      .filter(rendition => rendition.kind === RenditionKind.THUMB && rendition.format === fallbackFormat)
+      .pop() as ProcessedRendition;
+
+    return {
+      fileUrl,
+      thumbnailUrl: thumbnail.fileUrl,
+      renditions,
+      deepZoom
+    };
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+};
@@ -207,7 +207,7 @@ export const getUserArtworks = async (
       skip,
       take: Number(limit),
       order: { creationDate: 'DESC' },
-      relations: ['artist']
+      relations: ['artist', 'renditions']
     });
     
     return {
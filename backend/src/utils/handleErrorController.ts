@@ -6,6 +6,8 @@ interface ErrorWithCode extends Error {
   statusCode?: number;
   status?: number;
   error?: Error;
+  // Machine-readable specifics the client can act on, e.g. which fields failed
+  details?: unknown;
 }
 
 /**
@@ -82,6 +84,7 @@ export function handleErrorController(
   return res.status(statusCode).json({
     error: userMessage,
     status: statusCode,
-    success: false
+    success: false,
+    ...(normalizedError.details !== undefined && { details: normalizedError.details })
   });
 }
\ No newline at end of file
@@ -0,0 +1,70 @@
+import 'dotenv/config';
+import { AppDataSource } from './config/database';
+import { logger } from './utils/logger';
+import { JobType } from './entities/Job';
+import { registerJobHandler, startJobWorker, stopJobWorker } from './services/jobQueue.service';
+import { markArtworkImageFailed, processArtworkImageJob } from './services/artwork.service';
+import {
+  sendArtworkResubmissionNotifications,
+  sendArtworkUploadNotifications
+} from './services/notification.service';
+
+// Image processing is heavy on memory and CPU, so few run at once by default
+const IMAGE_CONCURRENCY = parseInt(process.env.JOB_IMAGE_CONCURRENCY || '1');
+const NOTIFICATION_CONCURRENCY = parseInt(process.env.JOB_NOTIFICATION_CONCURRENCY || '4');
+
+process.on('uncaughtException', (error) => {
+  logger.error('Uncaught Exception:', error);
+  process.exit(1);
+});
+
+process.on('unhandledRejection', (reason, promise) => {
+  logger.error('Unhandled Rejection at:', promise, 'reason:', reason);
+  process.exit(1);
+});
+
+// Finish the jobs in hand before exiting, so none wait out the lock timeout
+async function stopWorker(signal: string) {
+  logger.info(`${signal} received, stopping job worker...`);
+  await stopJobWorker();
+  await AppDataSource.destroy();
+  process.exit(0);
+}
+
+// Start the worker
+async function startWorker() {
+  try {
+    // The API server keeps the schema in step; two processes doing it at once could clash
+    AppDataSource.setOptions({ synchronize: false, migrationsRun: false });
+
+    logger.info('Initializing database connection...');
+    await AppDataSource.initialize();
+    logger.info('Database connection established');
+
+    registerJobHandler(JobType.PROCESS_ARTWORK_IMAGE, {
+      run: processArtworkImageJob,
+      concurrency: IMAGE_CONCURRENCY,
+      onDeadLetter: markArtworkImageFailed
+    });
+
+    registerJobHandler(JobType.NOTIFY_ARTWORK_UPLOAD, {
+      run: sendArtworkUploadNotifications,
+      concurrency: NOTIFICATION_CONCURRENCY
+    });
+
+    registerJobHandler(JobType.NOTIFY_ARTWORK_RESUBMISSION, {
+      run: sendArtworkResubmissionNotifications,
+      concurrency: NOTIFICATION_CONCURRENCY
+    });
+
+    startJobWorker();
+
+    process.on('SIGTERM', () => stopWorker('SIGTERM'));
+    process.on('SIGINT', () => stopWorker('SIGINT'));
+  } catch (error) {
+    logger.error('Failed to start job worker:', error);
+    process.exit(1);
+  }
+}
+
+startWorker();
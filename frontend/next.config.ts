@@ -1,5 +1,8 @@
 import type { NextConfig } from "next";
 
+// Where uploads are loaded from when the backend keeps them in an S3-compatible bucket
+const storageUrl = process.env.NEXT_PUBLIC_STORAGE_URL ? new URL(process.env.NEXT_PUBLIC_STORAGE_URL) : null;
+
 const nextConfig: NextConfig = {
   /* config options here */
   reactStrictMode: true,
@@ -11,6 +14,14 @@ const nextConfig: NextConfig = {
         hostname: 'api.exhibition-art.com',
         pathname: '/uploads/**',
       },
+      ...(storageUrl
+        ? [{
+            protocol: storageUrl.protocol === 'http:' ? 'http' as const : 'https' as const,
+            hostname: storageUrl.hostname,
+            port: storageUrl.port,
+            pathname: `${storageUrl.pathname.replace(/\/$/, '')}/**`,
+          }]
+        : []),
     ],
   },
   typescript: {
@@ -11,7 +11,6 @@ import {
   Alert, 
   Descriptions, 
   List,
-  Input,
   Avatar,
   Popconfirm,
   message,
@@ -23,15 +22,20 @@ import {
   DeleteOutlined, 
   LikeOutlined, 
   DislikeOutlined,
-  CommentOutlined,
+  ReloadOutlined,
   ArrowLeftOutlined
 } from '@ant-design/icons';
 import { useAuthContext } from '@/contexts/AuthContext';
-import { getArtworkById, deleteArtwork } from '@/lib/api/index';
-import { Artwork, Comment } from '@/types/artwork.types';
-import { formatDate, formatImageUrl } from '@/utils/format';
+import { getArtworkById, deleteArtwork, getReviewComparison } from '@/lib/api/index';
+import { trackEvent } from '@/lib/analytics';
+import { Artwork, ArtworkImageStatus, ArtworkReview, ArtworkStatus } from '@/types/artwork.types';
+import { formatDate, formatDimensions, formatImageUrl, REJECTION_REASON_LABELS } from '@/utils/format';
+import CommentSection from '@/components/artwork/CommentSection';
+import ArtworkResubmitModal from '@/components/artwork/ArtworkResubmitModal';
+import DeepZoomViewer from '@/components/artwork/DeepZoomViewer';
 
-const { TextArea } = Input;
+// How often to check whether a processing image is ready
+const IMAGE_STATUS_POLL_MS = 5000;
 
 const ArtworkDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -41,8 +45,8 @@ const ArtworkDetailPage: React.FC = () => {
   const [artwork, setArtwork] = useState<Artwork | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [commentText, setCommentText] = useState('');
-  const [submittingComment, setSubmittingComment] = useState(false);
+  const [rejection, setRejection] = useState<ArtworkReview | null>(null);
+  const [resubmitModalVisible, setResubmitModalVisible] = useState(false);
 
   useEffect(() => {
     const fetchArtwork = async () => {
@@ -51,6 +55,7 @@ const ArtworkDetailPage: React.FC = () => {
         const artworkData = await getArtworkById(id as string);
         console.log('Fetched artwork:', artworkData);
         setArtwork(artworkData);
+        trackEvent({ type: 'view', artworkId: artworkData.id });
       } catch (err: unknown) {
         if (err instanceof Error) {
           setError(err.message);
@@ -67,6 +72,44 @@ const ArtworkDetailPage: React.FC = () => {
     }
   }, [id]);
 
+  // Swap in the renditions and tiles once the worker has made them
+  const imageStatus = artwork?.imageStatus;
+  useEffect(() => {
+    if (!id || imageStatus !== ArtworkImageStatus.PROCESSING) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const artworkData = await getArtworkById(id as string);
+        if (artworkData.imageStatus !== ArtworkImageStatus.PROCESSING) {
+          setArtwork(prev => prev ? { ...prev, ...artworkData } : artworkData);
+        }
+      } catch (err) {
+        console.error('Failed to check image processing:', err instanceof Error ? err.message : err);
+      }
+    }, IMAGE_STATUS_POLL_MS);
+
+    return () => clearInterval(timer);
+  }, [id, imageStatus]);
+
+  // Show the artist why their artwork was rejected
+  useEffect(() => {
+    if (!artwork || !user || artwork.artistId !== user.id || artwork.status !== ArtworkStatus.REJECTED) {
+      setRejection(null);
+      return;
+    }
+
+    const fetchRejection = async () => {
+      try {
+        const { current } = await getReviewComparison(artwork.id);
+        setRejection(current);
+      } catch (err) {
+        console.error('Failed to load rejection details:', err instanceof Error ? err.message : err);
+      }
+    };
+
+    fetchRejection();
+  }, [artwork, user]);
+
   const handleDelete = async () => {
     try {
       await deleteArtwork(id as string);
@@ -81,47 +124,6 @@ const ArtworkDetailPage: React.FC = () => {
     }
   };
 
-  // Comment submission is a placeholder since backend logic might differ
-  const handleCommentSubmit = async () => {
-    if (!commentText.trim() || !user) return;
-    
-    setSubmittingComment(true);
-    try {
-      // Placeholder for comment submission
-      // await submitComment(id as string, commentText);
-      
-      // For now, we'll just simulate adding the comment
-      setArtwork(prev => {
-        if (!prev) return prev;
-        
-        const newComment: Comment = {
-          id: `temp-${Date.now()}`,
-          content: commentText,
-          userId: user.id,
-          user: user,
-          artworkId: prev.id,
-          timestamp: new Date().toISOString()
-        };
-        
-        return {
-          ...prev,
-          comments: [...(prev.comments || []), newComment]
-        };
-      });
-      
-      setCommentText('');
-      message.success('Comment added');
-    } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message);
-      } else {
-        setError('Failed to add comment');
-      }
-    } finally {
-      setSubmittingComment(false);
-    }
-  };
-
   if (loading) {
     return (
       <div className="flex justify-center items-center min-h-screen">
@@ -193,17 +195,59 @@ const ArtworkDetailPage: React.FC = () => {
             marginBottom: '1.5rem',
             overflow: 'hidden',
           }}>
-            <div className="flex justify-center">
-              <Image
-                src={formatImageUrl(artwork.fileUrl)}
-                alt={artwork.title}
-                width={600}
-                height={600}
-                className="max-w-full max-h-[600px] object-contain"
-              />
-            </div>
+            {artwork.deepZoom ? (
+              <DeepZoomViewer image={artwork.deepZoom} title={artwork.title} />
+            ) : (
+              <div className="flex justify-center">
+                <Image
+                  src={formatImageUrl(artwork.fileUrl)}
+                  alt={artwork.title}
+                  width={600}
+                  height={600}
+                  className="max-w-full max-h-[600px] object-contain"
+                />
+              </div>
+            )}
           </Card>
           
+          {artwork.imageStatus === ArtworkImageStatus.PROCESSING && (
+            <Alert
+              className="mb-6"
+              type="info"
+              showIcon
+              message="This image is still being processed"
+              description="Smaller sizes and zooming will be ready in a moment."
+            />
+          )}
+          
+          {canEdit && artwork.imageStatus === ArtworkImageStatus.FAILED && (
+            <Alert
+              className="mb-6"
+              type="error"
+              showIcon
+              message="This image could not be processed"
+              description="Please upload the image again by editing the artwork."
+            />
+          )}
+          
+          {/* Rejection details and resubmission */}
+          {isArtist && artwork.status === ArtworkStatus.REJECTED && (
+            <Alert
+              className="mb-6"
+              type="error"
+              showIcon
+              message={rejection?.reasonCategory
+                ? `This artwork was not accepted: ${REJECTION_REASON_LABELS[rejection.reasonCategory]}`
+                : 'This artwork was not accepted'}
+              description={rejection?.reason || 'You can revise it and send it back for another review.'}
+              action={
+                <Button icon={<ReloadOutlined />} onClick={() => setResubmitModalVisible(true)}>
+                  Revise and Resubmit
+                </Button>
+              }
+            />
+          )}
+          
           {/* Action Buttons */}
           {(canEdit || canDelete) && (
             <div className="flex space-x-4 mb-6">
@@ -235,71 +279,7 @@ const ArtworkDetailPage: React.FC = () => {
           )}
           
           {/* Comments Section */}
-          <Card title="Comments" className="mb-6">
-            {artwork.comments && artwork.comments.length > 0 ? (
-              <List
-                itemLayout="horizontal"
-                dataSource={artwork.comments}
-                renderItem={(comment) => (
-                  <List.Item>
-                    <List.Item.Meta
-                      avatar={
-                        <Avatar icon={<UserOutlined />} src={comment.user?.profileUrl} />
-                      }
-                      title={
-                        <div className="flex justify-between">
-                          <span>{comment.user?.username || 'Anonymous'}</span>
-                          <span className="text-gray-500 text-sm">
-                            {formatDate(comment.timestamp)}
-                          </span>
-                        </div>
-                      }
-                      description={comment.content}
-                    />
-                  </List.Item>
-                )}
-              />
-            ) : (
-              <div className="text-center py-4 text-gray-500">
-                No comments yet. Be the first to comment!
-              </div>
-            )}
-            
-            {user ? (
-              <div className="mt-4">
-                <TextArea
-                  rows={3}
-                  value={commentText}
-                  onChange={(e) => setCommentText(e.target.value)}
-                  placeholder="Add a comment..."
-                  disabled={submittingComment}
-                />
-                <Button
-                  type="primary"
-                  onClick={handleCommentSubmit}
-                  loading={submittingComment}
-                  disabled={!commentText.trim()}
-                  className="mt-2"
-                  icon={<CommentOutlined />}
-                >
-                  Add Comment
-                </Button>
-              </div>
-            ) : (
-              <div className="mt-4 text-center">
-                <Alert
-                  message="Please log in to comment"
-                  type="info"
-                  showIcon
-                  action={
-                    <Button size="small" onClick={() => router.push('/login')}>
-                      Log In
-                    </Button>
-                  }
-                />
-              </div>
-            )}
-          </Card>
+          <CommentSection artworkId={artwork.id} />
         </div>
         
         {/* Artwork Info */}
@@ -336,6 +316,12 @@ const ArtworkDetailPage: React.FC = () => {
                 {formatDate(artwork.creationDate)}
               </Descriptions.Item>
               
+              {formatDimensions(artwork) && (
+                <Descriptions.Item label="Size">
+                  {formatDimensions(artwork)}
+                </Descriptions.Item>
+              )}
+              
               <Descriptions.Item label="Tags">
                 {artwork.tags && artwork.tags.length > 0 ? (
                   <div className="flex flex-wrap gap-1">
@@ -386,6 +372,16 @@ const ArtworkDetailPage: React.FC = () => {
           </Card>
         </div>
       </div>
+      
+      {isArtist && (
+        <ArtworkResubmitModal
+          artwork={artwork}
+          rejection={rejection}
+          open={resubmitModalVisible}
+          onClose={() => setResubmitModalVisible(false)}
+          onResubmitted={(updatedArtwork) => setArtwork(prev => prev ? { ...prev, ...updatedArtwork } : prev)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,484 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Card,
+  Table,
+  Button,
+  Space,
+  Tag,
+  Image,
+  message,
+  Modal,
+  Select,
+  Input,
+  Tooltip
+} from 'antd';
+import {
+  CheckCircleOutlined,
+  CloseCircleOutlined,
+  LockOutlined,
+  UnlockOutlined,
+  SearchOutlined,
+  FilterOutlined,
+  InfoCircleOutlined,
+  ArrowLeftOutlined
+} from '@ant-design/icons';
+import { useRouter } from 'next/navigation';
+import { withProtectedRoute, useAuthContext } from '@/contexts/AuthContext';
+import { User, UserRole } from '@/types/user.types';
+import { ArtworkImageStatus, RejectionReason, ReviewQueueItem } from '@/types/artwork.types';
+import {
+  getReviewQueue,
+  claimReview,
+  releaseReview,
+  assignReview,
+  approveArtwork,
+  rejectArtwork,
+  getUsers
+} from '@/lib/api/index';
+import { getSocketClient, authenticateSocket } from '@/lib/socketClient';
+import { formatDate, formatImageUrl, REJECTION_REASON_LABELS } from '@/utils/format';
+
+const { Option } = Select;
+
+const TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  hour: '2-digit',
+  minute: '2-digit'
+};
+
+const ReviewQueuePage: React.FC = () => {
+  const router = useRouter();
+  const { user } = useAuthContext();
+  const isAdmin = user?.role === UserRole.ADMIN;
+
+  const [items, setItems] = useState<ReviewQueueItem[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [actionArtworkId, setActionArtworkId] = useState<string | null>(null);
+  const [curators, setCurators] = useState<User[]>([]);
+  const [rejectionTarget, setRejectionTarget] = useState<ReviewQueueItem | null>(null);
+  const [rejectReason, setRejectReason] = useState<string>('');
+  const [rejectReasonCategory, setRejectReasonCategory] = useState<RejectionReason | undefined>(undefined);
+  const [pagination, setPagination] = useState({
+    current: 1,
+    pageSize: 10,
+    total: 0
+  });
+
+  // Filter states
+  const [searchText, setSearchText] = useState<string>('');
+  const [artistName, setArtistName] = useState<string>('');
+  const [selectedCategory, setSelectedCategory] = useState<string>('');
+  const [selectedAssignee, setSelectedAssignee] = useState<string>('');
+
+  // Fetch the queue with the current filters
+  const fetchQueue = async (
+    page = pagination.current,
+    pageSize = pagination.pageSize,
+    search = searchText,
+    artist = artistName,
+    category = selectedCategory,
+    assignee = selectedAssignee
+  ) => {
+    setLoading(true);
+    try {
+      const { items: queueItems, pagination: paginationData } = await getReviewQueue({
+        page,
+        limit: pageSize,
+        search: search || undefined,
+        artist: artist || undefined,
+        category: category || undefined,
+        assignee: assignee || undefined
+      });
+
+      setItems(queueItems);
+      setPagination({
+        current: paginationData.page,
+        pageSize: paginationData.limit,
+        total: paginationData.total
+      });
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to load review queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Socket handlers outlive renders, so refetch through a ref that sees the latest filters
+  const fetchQueueRef = useRef(fetchQueue);
+  fetchQueueRef.current = fetchQueue;
+
+  useEffect(() => {
+    fetchQueueRef.current();
+  }, []);
+
+  // Admins hand out work, so they need the list of curators
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    getUsers({ role: UserRole.CURATOR, limit: 100 })
+      .then(({ users }) => setCurators(users))
+      .catch(err => message.error(err instanceof Error ? err.message : 'Failed to load curators'));
+  }, [isAdmin]);
+
+  // Keep the queue in sync with what other curators are doing
+  useEffect(() => {
+    if (!user) return;
+
+    const socket = getSocketClient();
+    authenticateSocket(user.id, user.role);
+
+    const handleQueueUpdate = () => fetchQueueRef.current();
+    socket.on('review-queue:updated', handleQueueUpdate);
+
+    return () => {
+      socket.off('review-queue:updated', handleQueueUpdate);
+    };
+  }, [user]);
+
+  const handleApplyFilters = () => {
+    fetchQueue(1);
+  };
+
+  const handleResetFilters = () => {
+    setSearchText('');
+    setArtistName('');
+    setSelectedCategory('');
+    setSelectedAssignee('');
+    fetchQueue(1, pagination.pageSize, '', '', '', '');
+  };
+
+  const handleTableChange = (tablePagination: { current?: number; pageSize?: number }) => {
+    fetchQueue(tablePagination.current, tablePagination.pageSize);
+  };
+
+  // Run a queue action and put the returned entry in place
+  const runItemAction = async (
+    artworkId: string,
+    action: () => Promise<ReviewQueueItem>,
+    successMessage: string
+  ) => {
+    setActionArtworkId(artworkId);
+    try {
+      const updated = await action();
+      setItems(prev => prev.map(item => (item.artworkId === artworkId ? updated : item)));
+      message.success(successMessage);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to update review queue');
+    } finally {
+      setActionArtworkId(null);
+    }
+  };
+
+  const handleApprove = async (item: ReviewQueueItem) => {
+    setActionArtworkId(item.artworkId);
+    try {
+      await approveArtwork(item.artworkId);
+      message.success('Artwork approved successfully');
+      setItems(prev => prev.filter(entry => entry.artworkId !== item.artworkId));
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to approve artwork');
+    } finally {
+      setActionArtworkId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejectionTarget || !rejectReasonCategory) return;
+
+    try {
+      await rejectArtwork(rejectionTarget.artworkId, rejectReasonCategory, rejectReason);
+      message.success('Artwork rejected successfully');
+      setItems(prev => prev.filter(entry => entry.artworkId !== rejectionTarget.artworkId));
+
+      setRejectionTarget(null);
+      setRejectReason('');
+      setRejectReasonCategory(undefined);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to reject artwork');
+    }
+  };
+
+  const isHeldByOther = (item: ReviewQueueItem) =>
+    Boolean(item.assignee && item.assignee.id !== user?.id);
+
+  const columns = [
+    {
+      title: 'Thumbnail',
+      key: 'thumbnail',
+      width: 120,
+      render: (_: unknown, record: ReviewQueueItem) => (
+        <Space direction="vertical" size={4}>
+          <Image
+            src={formatImageUrl(record.artwork.thumbnailUrl || record.artwork.fileUrl)}
+            alt={record.artwork.title}
+            width={80}
+            height={80}
+            style={{ objectFit: 'cover' }}
+            fallback="/images/placeholder-image.png"
+          />
+          {record.artwork.imageStatus === ArtworkImageStatus.PROCESSING && <Tag color="processing">Processing</Tag>}
+          {record.artwork.imageStatus === ArtworkImageStatus.FAILED && <Tag color="error">Image failed</Tag>}
+        </Space>
+      ),
+    },
+    {
+      title: 'Title',
+      key: 'title',
+      render: (_: unknown, record: ReviewQueueItem) => (
+        <Button type="link" onClick={() => router.push(`/artworks/${record.artworkId}`)}>
+          {record.artwork.title}
+        </Button>
+      ),
+    },
+    {
+      title: 'Artist',
+      key: 'artist',
+      render: (_: unknown, record: ReviewQueueItem) => record.artwork.artist?.username || 'Unknown artist',
+    },
+    {
+      title: 'Category',
+      key: 'category',
+      render: (_: unknown, record: ReviewQueueItem) => <Tag color="blue">{record.artwork.category}</Tag>,
+    },
+    {
+      title: 'Submitted',
+      key: 'submittedAt',
+      render: (_: unknown, record: ReviewQueueItem) => (
+        <div>
+          <div>{formatDate(record.submittedAt)}</div>
+          {record.round > 1 && <Tag color="purple">Round {record.round}</Tag>}
+        </div>
+      ),
+    },
+    {
+      title: 'Reviewer',
+      key: 'assignee',
+      render: (_: unknown, record: ReviewQueueItem) => {
+        if (!record.assignee) {
+          return <span className="text-gray-500">Unclaimed</span>;
+        }
+
+        const label = record.assignee.id === user?.id ? 'You' : record.assignee.username;
+
+        return (
+          <Tooltip
+            title={record.claimExpiresAt
+              ? `Claim expires at ${formatDate(record.claimExpiresAt, TIME_FORMAT)}`
+              : 'Assigned by an admin'}
+          >
+            <Tag icon={<LockOutlined />} color={record.assignee.id === user?.id ? 'green' : 'orange'}>
+              {label}
+            </Tag>
+          </Tooltip>
+        );
+      },
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_: unknown, record: ReviewQueueItem) => {
+        const busy = actionArtworkId === record.artworkId;
+        const locked = isHeldByOther(record) && !isAdmin;
+
+        return (
+          <Space size="small" wrap>
+            {record.assignee && (record.assignee.id === user?.id || isAdmin) ? (
+              <Tooltip title="Release">
+                <Button
+                  icon={<UnlockOutlined />}
+                  size="small"
+                  loading={busy}
+                  onClick={() => runItemAction(record.artworkId, () => releaseReview(record.artworkId), 'Review released')}
+                />
+              </Tooltip>
+            ) : (
+              <Tooltip title="Claim">
+                <Button
+                  icon={<LockOutlined />}
+                  size="small"
+                  loading={busy}
+                  disabled={locked}
+                  onClick={() => runItemAction(record.artworkId, () => claimReview(record.artworkId), 'Review claimed')}
+                />
+              </Tooltip>
+            )}
+
+            <Tooltip title="Approve Artwork">
+              <Button
+                type="primary"
+                icon={<CheckCircleOutlined />}
+                size="small"
+                disabled={locked || busy}
+                onClick={() => handleApprove(record)}
+              />
+            </Tooltip>
+
+            <Tooltip title="Reject Artwork">
+              <Button
+                danger
+                icon={<CloseCircleOutlined />}
+                size="small"
+                disabled={locked || busy}
+                onClick={() => setRejectionTarget(record)}
+              />
+            </Tooltip>
+
+            {isAdmin && (
+              <Select
+                size="small"
+                placeholder="Assign to..."
+                style={{ width: 150 }}
+                value={record.assignee && !record.claimExpiresAt ? record.assignee.id : undefined}
+                disabled={busy}
+                onChange={curatorId =>
+                  runItemAction(record.artworkId, () => assignReview(record.artworkId, curatorId), 'Review assigned')
+                }
+                options={curators.map(curator => ({ value: curator.id, label: curator.username }))}
+              />
+            )}
+          </Space>
+        );
+      },
+    },
+  ];
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <Button
+        onClick={() => router.back()}
+        style={{ marginBottom: '1.5rem' }}
+        icon={<ArrowLeftOutlined />}
+      >
+        Back
+      </Button>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Pending Approvals</h1>
+      </div>
+
+      {/* Search and Filters */}
+      <Card className="mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Input
+            placeholder="Search by title or description"
+            value={searchText}
+            onChange={e => setSearchText(e.target.value)}
+            prefix={<SearchOutlined />}
+            allowClear
+          />
+
+          <Input
+            placeholder="Artist username"
+            value={artistName}
+            onChange={e => setArtistName(e.target.value)}
+            allowClear
+          />
+
+          <Select
+            placeholder="Filter by category"
+            style={{ width: '100%' }}
+            value={selectedCategory || undefined}
+            onChange={value => setSelectedCategory(value)}
+            allowClear
+          >
+            <Option value="Painting">Painting</Option>
+            <Option value="Photography">Photography</Option>
+            <Option value="Digital Art">Digital Art</Option>
+            <Option value="Sculpture">Sculpture</Option>
+            <Option value="Mixed Media">Mixed Media</Option>
+            <Option value="Other">Other</Option>
+          </Select>
+
+          <Select
+            placeholder="Filter by reviewer"
+            style={{ width: '100%' }}
+            value={selectedAssignee || undefined}
+            onChange={value => setSelectedAssignee(value)}
+            allowClear
+          >
+            <Option value="me">Claimed by me</Option>
+            <Option value="unassigned">Unclaimed</Option>
+            {curators.map(curator => (
+              <Option key={curator.id} value={curator.id}>{curator.username}</Option>
+            ))}
+          </Select>
+
+          <div className="col-span-1 md:col-span-4 flex justify-end space-x-2">
+            <Button icon={<FilterOutlined />} onClick={handleApplyFilters} type="primary">
+              Apply Filters
+            </Button>
+            <Button onClick={handleResetFilters}>Reset</Button>
+          </div>
+        </div>
+      </Card>
+
+      {/* Review Queue Table */}
+      <Card>
+        <Table
+          columns={columns}
+          dataSource={items}
+          rowKey="artworkId"
+          loading={loading}
+          pagination={{
+            ...pagination,
+            showSizeChanger: true,
+            showTotal: (total) => `${total} artworks waiting for review`
+          }}
+          onChange={handleTableChange}
+        />
+      </Card>
+
+      {/* Artwork Rejection Modal */}
+      <Modal
+        title="Reject Artwork"
+        open={rejectionTarget !== null}
+        onCancel={() => setRejectionTarget(null)}
+        onOk={handleReject}
+        okText="Reject"
+        okButtonProps={{
+          danger: true,
+          disabled: !rejectReasonCategory || (rejectReasonCategory === RejectionReason.OTHER && !rejectReason.trim())
+        }}
+      >
+        <div className="py-2">
+          <p className="mb-4">
+            Please provide a reason for rejecting
+            <strong> &quot;{rejectionTarget?.artwork.title}&quot;</strong>
+          </p>
+
+          <Select
+            placeholder="Select a reason"
+            style={{ width: '100%', marginBottom: '1rem' }}
+            value={rejectReasonCategory}
+            onChange={value => setRejectReasonCategory(value)}
+            options={Object.values(RejectionReason).map(reason => ({
+              value: reason,
+              label: REJECTION_REASON_LABELS[reason]
+            }))}
+          />
+
+          <Input.TextArea
+            rows={4}
+            value={rejectReason}
+            onChange={e => setRejectReason(e.target.value)}
+            placeholder={rejectReasonCategory === RejectionReason.OTHER
+              ? 'Explain why this artwork is being rejected...'
+              : 'Add details to help the artist revise their work (optional)'}
+          />
+
+          <div className="mt-4 flex items-center text-gray-500">
+            <InfoCircleOutlined className="mr-2" />
+            <small>
+              This reason will be sent to the artist to help them understand why their artwork was rejected.
+            </small>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default withProtectedRoute(ReviewQueuePage, {
+  requiredRoles: [UserRole.CURATOR, UserRole.ADMIN],
+  redirectTo: '/unauthorized',
+});
@@ -1,7 +1,7 @@
 // frontend/src/app/curator/layout/page.tsx
 'use client';
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { DndProvider, TouchTransition, MouseTransition } from 'react-dnd-multi-backend';
 import { HTML5Backend } from 'react-dnd-html5-backend'
 import { TouchBackend } from 'react-dnd-touch-backend'
@@ -21,7 +21,10 @@ import {
   Empty,
   Space,
   Tooltip,
-  Badge
+  Badge,
+  Select,
+  Tag,
+  InputNumber
 } from 'antd';
 import { 
   PlusOutlined, 
@@ -30,32 +33,55 @@ import {
   ExportOutlined, 
   InfoCircleOutlined, 
   SearchOutlined,
-  ExclamationCircleOutlined
+  ExclamationCircleOutlined,
+  HistoryOutlined,
+  RollbackOutlined,
+  EyeOutlined,
+  CloudUploadOutlined,
+  ThunderboltOutlined
 } from '@ant-design/icons';
-import { withProtectedRoute } from '@/contexts/AuthContext';
+import { withProtectedRoute, useAuthContext } from '@/contexts/AuthContext';
 import { UserRole } from '@/types/user.types';
 import { 
+  Exhibition,
   Wall, 
   WallData, 
   PlacementPosition, 
   WallLayoutData,
-  DraggableArtwork
+  DraggableArtwork,
+  LayoutPublishStatus,
+  LayoutChange,
+  PlacementIssue,
+  FloorPlan
 } from '@/types/exhibition.types';
 import { Artwork } from '@/types/artwork.types';
 
 import { 
+  getExhibitions,
   getWalls, 
   createWall, 
   updateWall, 
   deleteWall, 
   updateWallLayout,
   getArtworksForPlacement,
-  saveExhibitionLayout
+  saveExhibitionLayout,
+  getWallLayoutVersions,
+  rollbackWallLayout,
+  getLayoutPublishStatus,
+  publishExhibitionLayout,
+  getPlacementIssues,
+  getFloorPlan
 } from '@/lib/api/exhibition';
+import { formatDate } from '@/utils/format';
 
 import WallComponent from '@/components/exhibition/Wall';
 import WallLayout from '@/components/exhibition/WallLayout';
 import DraggableArtworkComponent from '@/components/exhibition/DraggableArtwork';
+import LayoutHistoryDrawer from '@/components/exhibition/LayoutHistoryDrawer';
+import LayoutEditorsBar from '@/components/exhibition/LayoutEditorsBar';
+import AutoLayoutModal from '@/components/exhibition/AutoLayoutModal';
+import FloorPlanEditor from '@/components/exhibition/FloorPlanEditor';
+import useLayoutCollaboration from '@/hooks/useLayoutCollaboration';
 
 const { Title, Text, Paragraph } = Typography;
 const { Content, Sider } = Layout;
@@ -79,8 +105,13 @@ export const dndOptions = {
 }
 
 const CuratorLayoutEditor: React.FC = () => {
+  const { user } = useAuthContext();
+  
   // State
+  const [exhibitions, setExhibitions] = useState<Exhibition[]>([]);
+  const [selectedExhibitionId, setSelectedExhibitionId] = useState<string | null>(null);
   const [walls, setWalls] = useState<Wall[]>([]);
+  const [floorPlan, setFloorPlan] = useState<FloorPlan | null>(null);
   const [stockpile, setStockpile] = useState<Artwork[]>([]);
   const [selectedWallId, setSelectedWallId] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
@@ -93,6 +124,15 @@ const CuratorLayoutEditor: React.FC = () => {
   const [searchText, setSearchText] = useState<string>('');
   const [confirmResetVisible, setConfirmResetVisible] = useState<boolean>(false);
   const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [historyVisible, setHistoryVisible] = useState<boolean>(false);
+  const [autoLayoutVisible, setAutoLayoutVisible] = useState<boolean>(false);
+  const [publishStatus, setPublishStatus] = useState<LayoutPublishStatus | null>(null);
+  const [publishingLayout, setPublishingLayout] = useState<boolean>(false);
+  // Why the last save of a wall was refused, so the slots involved can be highlighted
+  const [layoutIssues, setLayoutIssues] = useState<{ wallId: string; issues: PlacementIssue[] } | null>(null);
+  
+  // The stockpile artwork this curator is dragging, shared with the other editors
+  const draggingArtworkRef = useRef<{ id: string; title: string } | null>(null);
   
   // Find the selected wall
   const selectedWall = walls.find(wall => wall.id === selectedWallId);
@@ -120,14 +160,46 @@ const CuratorLayoutEditor: React.FC = () => {
       }));
   }, [stockpile, placedArtworkIds, searchText]);
 
+  // Load the exhibitions this curator can edit (admins can edit all of them)
+  useEffect(() => {
+    const loadExhibitions = async () => {
+      try {
+        const { exhibitions: exhibitionsData } = await getExhibitions({
+          curator: user?.role === UserRole.ADMIN ? undefined : user?.username,
+          limit: 100
+        });
+        setExhibitions(exhibitionsData);
+        
+        if (exhibitionsData.length > 0) {
+          setSelectedExhibitionId(current => current || exhibitionsData[0].id);
+        } else {
+          setLoading(false);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Error loading exhibitions');
+        setLoading(false);
+      }
+    };
+    
+    loadExhibitions();
+  }, [user?.role, user?.username]);
+  
   // Load walls and stockpile data
   const loadData = useCallback(async () => {
+    if (!selectedExhibitionId) return;
+    
     setLoading(true);
     setError(null);
     try {
-      // Load walls
-      const wallsData = await getWalls();
+      // Load the draft walls; visitors keep seeing the published layout
+      const [wallsData, statusData, floorPlanData] = await Promise.all([
+        getWalls(selectedExhibitionId, { draft: true }),
+        getLayoutPublishStatus(selectedExhibitionId),
+        getFloorPlan(selectedExhibitionId, { draft: true })
+      ]);
       setWalls(wallsData);
+      setPublishStatus(statusData);
+      setFloorPlan(floorPlanData);
       
       // Set the first wall as selected if none is selected
       if (wallsData.length > 0 && !selectedWallId) {
@@ -142,7 +214,7 @@ const CuratorLayoutEditor: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [selectedWallId]);
+  }, [selectedExhibitionId, selectedWallId]);
   
   // Load data on component mount
   useEffect(() => {
@@ -151,6 +223,63 @@ const CuratorLayoutEditor: React.FC = () => {
     console.log('availableArtworks', availableArtworks);
   }, [loadData]);
   
+  // Reload when another curator changes a wall of this exhibition
+  const handleRemoteChange = (change: LayoutChange) => {
+    if (change.userId === user?.id) return;
+    
+    if (change.deleted && change.wallId && change.wallId === selectedWallId) {
+      message.info(`${change.username} deleted the wall you were editing`);
+      // Clearing the selection reloads the walls
+      setSelectedWallId(null);
+      return;
+    }
+    
+    loadData();
+  };
+  
+  const {
+    editors,
+    locks,
+    drags,
+    focusWall,
+    sendDrag,
+    lockSlot,
+    unlockSlot
+  } = useLayoutCollaboration(selectedExhibitionId, user, handleRemoteChange);
+  
+  // Show the other editors which wall this curator is on
+  useEffect(() => {
+    focusWall(selectedWallId);
+  }, [selectedWallId, focusWall]);
+  
+  const handleSlotHover = useCallback((position: PlacementPosition | null) => {
+    if (draggingArtworkRef.current) {
+      sendDrag(selectedWallId, draggingArtworkRef.current, position);
+    }
+  }, [selectedWallId, sendDrag]);
+  
+  // Save a wall's layout while holding the slot it changes, so two curators
+  // cannot fill or clear the same slot at once
+  const saveSlotChange = async (wall: Wall, position: PlacementPosition, layoutData: WallLayoutData) => {
+    const locked = await lockSlot(wall.id, position);
+    if (!locked) {
+      throw new Error('Another curator is working on this slot');
+    }
+    
+    try {
+      await updateWallLayout(wall.id, { ...layoutData, expectedRevision: wall.layoutRevision });
+    } finally {
+      unlockSlot(wall.id, position);
+    }
+  };
+  
+  // Show why a layout save failed, highlighting the artworks that don't fit
+  const reportLayoutError = (wallId: string, err: unknown, fallback: string) => {
+    const issues = getPlacementIssues(err);
+    setLayoutIssues(issues.length > 0 ? { wallId, issues } : null);
+    message.error(err instanceof Error ? err.message : fallback);
+  };
+  
   // Auto-hide success message after 3 seconds
   useEffect(() => {
     if (successMessage) {
@@ -161,6 +290,12 @@ const CuratorLayoutEditor: React.FC = () => {
     }
   }, [successMessage]);
   
+  // Handle exhibition selection
+  const handleExhibitionSelect = (exhibitionId: string) => {
+    setSelectedWallId(null);
+    setSelectedExhibitionId(exhibitionId);
+  };
+  
   // Handle wall selection
   const handleWallSelect = (wallId: string) => {
     setSelectedWallId(wallId);
@@ -178,7 +313,8 @@ const CuratorLayoutEditor: React.FC = () => {
         setSuccessMessage('Wall updated successfully');
       } else {
         // Create new wall
-        await createWall(values);
+        if (!selectedExhibitionId) return;
+        await createWall(selectedExhibitionId, values);
         setSuccessMessage('Wall created successfully');
       }
       
@@ -219,7 +355,10 @@ const CuratorLayoutEditor: React.FC = () => {
     setEditingWall(wall);
     wallForm.setFieldsValue({
       name: wall.name,
-      displayOrder: wall.displayOrder
+      displayOrder: wall.displayOrder,
+      width: wall.width,
+      height: wall.height,
+      depth: wall.depth
     });
     setWallFormVisible(true);
   };
@@ -262,12 +401,14 @@ const CuratorLayoutEditor: React.FC = () => {
     
     try {
       // Update the wall layout
-      await updateWallLayout(wallId, layoutData);
+      await saveSlotChange(wall, position, layoutData);
+      setLayoutIssues(null);
       setSuccessMessage('Artwork placed successfully');
-      loadData();
-    } catch (err: any) {
-      message.error(err.message || 'Failed to place artwork');
+    } catch (err) {
+      reportLayoutError(wallId, err, 'Failed to place artwork');
     } finally {
+      // Pick up the saved layout, or whatever another curator changed instead
+      loadData();
       setSavingLayout(false);
     }
   };
@@ -276,6 +417,9 @@ const CuratorLayoutEditor: React.FC = () => {
   const handleArtworkRemove = async (placementId: string) => {
     if (!selectedWall) return;
     
+    const removedPlacement = selectedWall.placements.find(p => p.id === placementId);
+    if (!removedPlacement) return;
+    
     setSavingLayout(true);
     
     // Filter out the removed placement
@@ -296,23 +440,26 @@ const CuratorLayoutEditor: React.FC = () => {
     
     try {
       // Update the wall layout
-      await updateWallLayout(selectedWall.id, layoutData);
+      await saveSlotChange(selectedWall, removedPlacement.position, layoutData);
+      setLayoutIssues(null);
       setSuccessMessage('Artwork removed successfully');
-      loadData();
-    } catch (err: any) {
-      message.error(err.message || 'Failed to remove artwork');
+    } catch (err) {
+      reportLayoutError(selectedWall.id, err, 'Failed to remove artwork');
     } finally {
+      loadData();
       setSavingLayout(false);
     }
   };
   
   // Handle layout save to Unity
   const handleSaveLayout = async () => {
+    if (!selectedExhibitionId) return;
+    
     try {
       setSavingLayout(true);
       
       // Call API to save the exhibition layout for Unity
-      const result = await saveExhibitionLayout();
+      const result = await saveExhibitionLayout(selectedExhibitionId);
       
       message.success('Layout saved and ready for the 3D exhibition');
       setSuccessMessage(result.message || 'Layout successfully pushed to 3D exhibition');
@@ -333,12 +480,57 @@ const CuratorLayoutEditor: React.FC = () => {
     
     try {
       // Update with empty placements
-      await updateWallLayout(selectedWall.id, { placements: [] });
+      await updateWallLayout(selectedWall.id, {
+        placements: [],
+        expectedRevision: selectedWall.layoutRevision
+      });
+      setLayoutIssues(null);
       setSuccessMessage('Layout reset successfully');
+    } catch (err) {
+      reportLayoutError(selectedWall.id, err, 'Failed to reset layout');
+    } finally {
       loadData();
-    } catch (err: any) {
-      message.error(err.message || 'Failed to reset layout');
+      setSavingLayout(false);
+    }
+  };
+
+  // Handle publishing the draft layout to visitors
+  const handlePublishLayout = async () => {
+    if (!selectedExhibitionId) return;
+    
+    setPublishingLayout(true);
+    
+    try {
+      setPublishStatus(await publishExhibitionLayout(selectedExhibitionId));
+      setSuccessMessage('Layout published. Visitors now see these walls.');
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to publish layout');
+    } finally {
+      setPublishingLayout(false);
+    }
+  };
+  
+  // Handle undo by restoring the layout saved before the current one
+  const handleUndoLayout = async () => {
+    if (!selectedWall) return;
+    
+    setSavingLayout(true);
+    
+    try {
+      const versions = await getWallLayoutVersions(selectedWall.id);
+      
+      if (versions.length < 2) {
+        message.info('There is no earlier layout to go back to');
+        return;
+      }
+      
+      await rollbackWallLayout(selectedWall.id, versions[1].version, selectedWall.layoutRevision);
+      setLayoutIssues(null);
+      setSuccessMessage(`Restored layout version ${versions[1].version}`);
+    } catch (err) {
+      reportLayoutError(selectedWall.id, err, 'Failed to undo layout change');
     } finally {
+      loadData();
       setSavingLayout(false);
     }
   };
@@ -390,8 +582,17 @@ const CuratorLayoutEditor: React.FC = () => {
                     <DraggableArtworkComponent 
                       key={artwork.id} 
                       artwork={artwork}
-                      onDragStart={() => setIsDragging(true)}
-                      onDragEnd={() => setIsDragging(false)}
+                      remoteDragger={drags.find(drag => drag.artworkId === artwork.id)}
+                      onDragStart={() => {
+                        setIsDragging(true);
+                        draggingArtworkRef.current = { id: artwork.id, title: artwork.title };
+                        sendDrag(selectedWallId, draggingArtworkRef.current);
+                      }}
+                      onDragEnd={() => {
+                        setIsDragging(false);
+                        draggingArtworkRef.current = null;
+                        sendDrag(null, null);
+                      }}
                     />
                   ))}
                 </>
@@ -414,6 +615,48 @@ const CuratorLayoutEditor: React.FC = () => {
               <Title level={2}>Exhibition Layout Editor</Title>
               
               <Space>
+                <LayoutEditorsBar editors={editors} walls={walls} />
+                <Select
+                  style={{ minWidth: 240 }}
+                  placeholder="Select an exhibition"
+                  value={selectedExhibitionId || undefined}
+                  onChange={handleExhibitionSelect}
+                  options={exhibitions.map(exhibition => ({
+                    value: exhibition.id,
+                    label: exhibition.title
+                  }))}
+                />
+                {publishStatus && (
+                  <Tooltip
+                    title={publishStatus.layoutPublishedAt
+                      ? `Last published ${formatDate(publishStatus.layoutPublishedAt)}`
+                      : 'This layout has never been published'}
+                  >
+                    <Tag color={publishStatus.hasUnpublishedChanges ? 'orange' : 'green'}>
+                      {publishStatus.hasUnpublishedChanges ? 'Unpublished changes' : 'Published'}
+                    </Tag>
+                  </Tooltip>
+                )}
+                <Tooltip title="View the draft in the 3D viewer">
+                  <Button
+                    icon={<EyeOutlined />}
+                    disabled={!selectedExhibitionId}
+                    onClick={() => window.open(`/exhibitions/${selectedExhibitionId}/preview`, '_blank')}
+                  >
+                    Preview
+                  </Button>
+                </Tooltip>
+                <Tooltip title="Make the draft layout visible to visitors">
+                  <Button
+                    type="primary"
+                    icon={<CloudUploadOutlined />}
+                    disabled={!publishStatus?.hasUnpublishedChanges}
+                    loading={publishingLayout}
+                    onClick={handlePublishLayout}
+                  >
+                    Publish Layout
+                  </Button>
+                </Tooltip>
                 {/* <Tooltip title="Save layout to 3D exhibition">
                   <Button 
                     type="primary" 
@@ -463,6 +706,7 @@ const CuratorLayoutEditor: React.FC = () => {
                       type="primary" 
                       icon={<PlusOutlined />}
                       size="small"
+                      disabled={!selectedExhibitionId}
                       onClick={() => {
                         setEditingWall(null);
                         wallForm.resetFields();
@@ -509,21 +753,55 @@ const CuratorLayoutEditor: React.FC = () => {
                     <div className="flex justify-between items-center mb-4">
                       <Title level={3}>Wall Layout: {selectedWall.name}</Title>
                       
-                      <Tooltip title="Reset wall and remove all artworks">
-                        <Button 
-                          icon={<UndoOutlined />} 
-                          onClick={() => setConfirmResetVisible(true)}
-                          danger
-                        >
-                          Reset Layout
-                        </Button>
-                      </Tooltip>
+                      <Space>
+                        <Tooltip title="Have the artworks arranged to fit the wall">
+                          <Button 
+                            icon={<ThunderboltOutlined />} 
+                            onClick={() => setAutoLayoutVisible(true)}
+                          >
+                            Auto Layout
+                          </Button>
+                        </Tooltip>
+                        
+                        <Tooltip title="Go back to the previous saved layout">
+                          <Button 
+                            icon={<RollbackOutlined />} 
+                            onClick={handleUndoLayout}
+                            loading={savingLayout}
+                          >
+                            Undo
+                          </Button>
+                        </Tooltip>
+                        
+                        <Tooltip title="Browse, compare and restore saved layouts">
+                          <Button 
+                            icon={<HistoryOutlined />} 
+                            onClick={() => setHistoryVisible(true)}
+                          >
+                            History
+                          </Button>
+                        </Tooltip>
+                        
+                        <Tooltip title="Reset wall and remove all artworks">
+                          <Button 
+                            icon={<UndoOutlined />} 
+                            onClick={() => setConfirmResetVisible(true)}
+                            danger
+                          >
+                            Reset Layout
+                          </Button>
+                        </Tooltip>
+                      </Space>
                     </div>
                     
                     <WallLayout 
                       wall={selectedWall}
                       onArtworkPlace={handleArtworkPlace}
                       onArtworkRemove={handleArtworkRemove}
+                      locks={locks}
+                      remoteDrags={drags}
+                      onSlotHover={handleSlotHover}
+                      issues={layoutIssues?.wallId === selectedWall.id ? layoutIssues.issues : []}
                     />
                   </Card>
                 ) : (
@@ -550,6 +828,20 @@ const CuratorLayoutEditor: React.FC = () => {
               </div>
             </div>
             
+            {/* Floor plan */}
+            {selectedExhibitionId && floorPlan && (
+              <Card title="Floor Plan" style={{ marginTop: '1.5rem' }}>
+                <FloorPlanEditor
+                  exhibitionId={selectedExhibitionId}
+                  rooms={floorPlan.rooms}
+                  doorways={floorPlan.doorways}
+                  walls={walls}
+                  onChanged={loadData}
+                  onWallSelect={handleWallSelect}
+                />
+              </Card>
+            )}
+            
             {/* Help information */}
             <Card style={{ backgroundColor: '#eef2ff', marginTop: '1.5rem' }}>
               <div className="flex">
@@ -563,7 +855,16 @@ const CuratorLayoutEditor: React.FC = () => {
                     2. <strong>Arrange Artwork:</strong> Drag artwork from the stockpile on the left and drop it onto the wall's left, center, or right position.
                   </Paragraph>
                   <Paragraph>
-                    3. <strong>Save Layout:</strong> Once you've arranged all your artwork, click the "Save Exhibition Layout" button to push the changes to the 3D exhibition.
+                    3. <strong>Preview and Publish:</strong> Your changes are a draft until you publish them. Click &quot;Preview&quot; to walk through the draft in 3D, then &quot;Publish Layout&quot; to show it to visitors.
+                  </Paragraph>
+                  <Paragraph>
+                    <strong>Auto Layout:</strong> Pick artworks and a style (a single eye-line row, a salon grid, or grouped by category or artist) and the server proposes where to hang them on the wall. Adjust the proposal, then save it.
+                  </Paragraph>
+                  <Paragraph>
+                    <strong>Floor Plan:</strong> Draw the exhibition&apos;s rooms from above, stand each wall in a room facing the way its artworks should be seen, and add doorways between rooms and in from outside. Visitors walk through the rooms in the 3D viewer as drawn.
+                  </Paragraph>
+                  <Paragraph>
+                    <strong>Working together:</strong> Other curators editing this exhibition appear next to the exhibition picker. Their drags show up live, and a slot they are saving is locked until they finish. If someone changes a wall before you, your change is refused and the wall reloads with their work.
                   </Paragraph>
                   <Paragraph>
                     <strong>Note:</strong> Only approved artwork appears in the stockpile. To approve more artwork, visit the Curator Dashboard.
@@ -604,9 +905,54 @@ const CuratorLayoutEditor: React.FC = () => {
           >
             <Input type="number" min={1} placeholder="e.g. 1, 2, 3" />
           </Form.Item>
+          
+          <Form.Item
+            label="Size"
+            extra="In metres. Depth is how far artworks may stand out from the wall."
+          >
+            <Space wrap>
+              <Form.Item name="width" noStyle initialValue={6}>
+                <InputNumber min={0.1} max={100} step={0.1} addonBefore="Width" addonAfter="m" />
+              </Form.Item>
+              <Form.Item name="height" noStyle initialValue={3}>
+                <InputNumber min={0.1} max={20} step={0.1} addonBefore="Height" addonAfter="m" />
+              </Form.Item>
+              <Form.Item name="depth" noStyle initialValue={0.5}>
+                <InputNumber min={0.01} max={10} step={0.05} addonBefore="Depth" addonAfter="m" />
+              </Form.Item>
+            </Space>
+          </Form.Item>
         </Form>
       </Modal>
       
+      {/* Layout History Drawer */}
+      {selectedWall && (
+        <LayoutHistoryDrawer
+          wallId={selectedWall.id}
+          wallName={selectedWall.name}
+          layoutRevision={selectedWall.layoutRevision}
+          open={historyVisible}
+          onClose={() => setHistoryVisible(false)}
+          onRestored={loadData}
+        />
+      )}
+      
+      {/* Auto Layout Modal */}
+      {selectedWall && autoLayoutVisible && (
+        <AutoLayoutModal
+          wall={selectedWall}
+          artworks={stockpile.filter(artwork =>
+            !placedArtworkIds.includes(artwork.id) ||
+            selectedWall.placements.some(placement => placement.artworkId === artwork.id)
+          )}
+          onClose={() => setAutoLayoutVisible(false)}
+          onSaved={() => {
+            setLayoutIssues(null);
+            loadData();
+          }}
+        />
+      )}
+      
       {/* Confirm Reset Modal */}
       <Modal
         title="Reset Wall Layout"
@@ -620,7 +966,7 @@ const CuratorLayoutEditor: React.FC = () => {
         <div className="py-2">
           <ExclamationCircleOutlined style={{ color: '#f59e0b', fontSize: '1.25rem', marginRight: '0.5rem'}} />
           <span>
-            Are you sure you want to remove all artworks from this wall? This action cannot be undone.
+            Are you sure you want to remove all artworks from this wall? The current layout stays in the wall&apos;s history.
           </span>
         </div>
       </Modal>
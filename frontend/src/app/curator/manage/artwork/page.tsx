@@ -30,14 +30,17 @@ import {
   FilterOutlined,
   ExclamationCircleOutlined,
   InfoCircleOutlined,
-  ArrowLeftOutlined
+  ArrowLeftOutlined,
+  DiffOutlined
 } from '@ant-design/icons';
 import { useRouter } from 'next/navigation';
 import { withProtectedRoute } from '@/contexts/AuthContext';
 import { UserRole } from '@/types/user.types';
-import { Artwork, ArtworkStatus } from '@/types/artwork.types';
+import { Artwork, ArtworkStatus, RejectionReason } from '@/types/artwork.types';
 import { getArtworks, approveArtwork, rejectArtwork, deleteArtwork } from '@/lib/api/index';
-import { formatDate, formatImageUrl } from '@/utils/format';
+import { formatDate, formatImageUrl, REJECTION_REASON_LABELS } from '@/utils/format';
+import ReviewComparisonModal from '@/components/artwork/ReviewComparisonModal';
+import ReviewHistoryTimeline from '@/components/artwork/ReviewHistoryTimeline';
 
 const { Option } = Select;
 
@@ -47,8 +50,10 @@ const ArtworkManagementPage: React.FC = () => {
   const [loading, setLoading] = useState<boolean>(true);
   const [rejectionModalVisible, setRejectionModalVisible] = useState<boolean>(false);
   const [rejectReason, setRejectReason] = useState<string>('');
+  const [rejectReasonCategory, setRejectReasonCategory] = useState<RejectionReason | undefined>(undefined);
   const [selectedArtwork, setSelectedArtwork] = useState<Artwork | null>(null);
   const [detailModalVisible, setDetailModalVisible] = useState<boolean>(false);
+  const [comparisonArtworkId, setComparisonArtworkId] = useState<string | null>(null);
   const [pagination, setPagination] = useState({
     current: 1,
     pageSize: 10,
@@ -152,10 +157,10 @@ const ArtworkManagementPage: React.FC = () => {
 
   // Handle artwork rejection submission
   const handleRejectArtwork = async () => {
-    if (!selectedArtwork) return;
+    if (!selectedArtwork || !rejectReasonCategory) return;
     
     try {
-      await rejectArtwork(selectedArtwork.id, rejectReason);
+      await rejectArtwork(selectedArtwork.id, rejectReasonCategory, rejectReason);
       message.success('Artwork rejected successfully');
       
       // Update local state
@@ -170,6 +175,7 @@ const ArtworkManagementPage: React.FC = () => {
       // Close modal and reset
       setRejectionModalVisible(false);
       setRejectReason('');
+      setRejectReasonCategory(undefined);
       setSelectedArtwork(null);
     } catch (error) {
       console.error('Failed to reject artwork:', error);
@@ -312,6 +318,14 @@ const ArtworkManagementPage: React.FC = () => {
                     onClick={() => handleRejectClick(record)}
                   />
                 </Tooltip>
+                
+                <Tooltip title="Compare With Previous Submission">
+                  <Button 
+                    icon={<DiffOutlined />} 
+                    size="small"
+                    onClick={() => setComparisonArtworkId(record.id)}
+                  />
+                </Tooltip>
               </>
             )}
             
@@ -428,7 +442,10 @@ const ArtworkManagementPage: React.FC = () => {
         onCancel={() => setRejectionModalVisible(false)}
         onOk={handleRejectArtwork}
         okText="Reject"
-        okButtonProps={{ danger: true }}
+        okButtonProps={{
+          danger: true,
+          disabled: !rejectReasonCategory || (rejectReasonCategory === RejectionReason.OTHER && !rejectReason.trim())
+        }}
       >
         <div className="py-2">
           <p className="mb-4">
@@ -436,11 +453,24 @@ const ArtworkManagementPage: React.FC = () => {
             <strong> &quot;{selectedArtwork?.title}&quot;</strong>
           </p>
           
+          <Select
+            placeholder="Select a reason"
+            style={{ width: '100%', marginBottom: '1rem' }}
+            value={rejectReasonCategory}
+            onChange={value => setRejectReasonCategory(value)}
+            options={Object.values(RejectionReason).map(reason => ({
+              value: reason,
+              label: REJECTION_REASON_LABELS[reason]
+            }))}
+          />
+          
           <Input.TextArea
             rows={4}
             value={rejectReason}
             onChange={e => setRejectReason(e.target.value)}
-            placeholder="Explain why this artwork is being rejected..."
+            placeholder={rejectReasonCategory === RejectionReason.OTHER
+              ? 'Explain why this artwork is being rejected...'
+              : 'Add details to help the artist revise their work (optional)'}
           />
           
           <div className="mt-4 flex items-center text-gray-500">
@@ -452,6 +482,13 @@ const ArtworkManagementPage: React.FC = () => {
         </div>
       </Modal>
 
+      {/* Review Round Comparison Modal */}
+      <ReviewComparisonModal
+        artworkId={comparisonArtworkId}
+        open={comparisonArtworkId !== null}
+        onClose={() => setComparisonArtworkId(null)}
+      />
+
       {/* Artwork Details Modal */}
       {selectedArtwork && (
         <Modal
@@ -530,6 +567,10 @@ const ArtworkManagementPage: React.FC = () => {
               </div>
             </div>
           </div>
+          
+          <Divider orientation="left">Review History</Divider>
+          
+          {detailModalVisible && <ReviewHistoryTimeline artworkId={selectedArtwork.id} />}
         </Modal>
       )}
     </div>
@@ -0,0 +1,457 @@
+// frontend/src/app/curator/tours/page.tsx
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Typography,
+  Button,
+  Spin,
+  Card,
+  Modal,
+  Form,
+  Input,
+  message,
+  Alert,
+  Empty,
+  List,
+  Select,
+  Space,
+  Switch,
+  Tag,
+  Popconfirm
+} from 'antd';
+import { PlusOutlined, SaveOutlined, DeleteOutlined, EyeOutlined } from '@ant-design/icons';
+import { withProtectedRoute, useAuthContext } from '@/contexts/AuthContext';
+import { UserRole } from '@/types/user.types';
+import { Exhibition, Wall } from '@/types/exhibition.types';
+import { Tour, TourData } from '@/types/tour.types';
+import { getExhibitions, getWalls } from '@/lib/api/exhibition';
+import {
+  getTours,
+  getTour,
+  createTour,
+  updateTour,
+  deleteTour,
+  saveTourStops,
+  uploadTourStopAudio,
+  deleteTourStopAudio
+} from '@/lib/api/tour';
+import TourStopsEditor, { TourStopDraft, newDraftKey } from '@/components/exhibition/TourStopsEditor';
+
+const { Title, Text, Paragraph } = Typography;
+const { TextArea } = Input;
+
+const toDrafts = (tour: Tour): TourStopDraft[] =>
+  (tour.stops || []).map(stop => ({
+    key: newDraftKey(),
+    id: stop.id,
+    wallId: stop.wallId,
+    artworkId: stop.artworkId,
+    cameraPose: stop.cameraPose,
+    narration: stop.narration,
+    audioUrl: stop.audioUrl
+  }));
+
+const CuratorToursPage: React.FC = () => {
+  const { user } = useAuthContext();
+
+  const [exhibitions, setExhibitions] = useState<Exhibition[]>([]);
+  const [selectedExhibitionId, setSelectedExhibitionId] = useState<string | null>(null);
+  const [walls, setWalls] = useState<Wall[]>([]);
+  const [tours, setTours] = useState<Tour[]>([]);
+  const [selectedTour, setSelectedTour] = useState<Tour | null>(null);
+  const [stops, setStops] = useState<TourStopDraft[]>([]);
+  // Unsaved changes to the stops
+  const [stopsDirty, setStopsDirty] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [createVisible, setCreateVisible] = useState<boolean>(false);
+  const [createForm] = Form.useForm();
+  const [detailsForm] = Form.useForm();
+
+  // Load the exhibitions this curator can edit (admins can edit all of them)
+  useEffect(() => {
+    const loadExhibitions = async () => {
+      try {
+        const { exhibitions: exhibitionsData } = await getExhibitions({
+          curator: user?.role === UserRole.ADMIN ? undefined : user?.username,
+          limit: 100
+        });
+        setExhibitions(exhibitionsData);
+
+        if (exhibitionsData.length > 0) {
+          setSelectedExhibitionId(current => current || exhibitionsData[0].id);
+        } else {
+          setLoading(false);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Error loading exhibitions');
+        setLoading(false);
+      }
+    };
+
+    loadExhibitions();
+  }, [user?.role, user?.username]);
+
+  // Load the tours and the draft walls their stops can point at
+  const loadData = useCallback(async () => {
+    if (!selectedExhibitionId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const [toursData, wallsData] = await Promise.all([
+        getTours(selectedExhibitionId),
+        getWalls(selectedExhibitionId, { draft: true })
+      ]);
+      setTours(toursData);
+      setWalls(wallsData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error loading tours');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedExhibitionId]);
+
+  useEffect(() => {
+    setSelectedTour(null);
+    loadData();
+  }, [loadData]);
+
+  // Show a tour in the editor, with its stops as saved
+  const showTour = (tour: Tour) => {
+    setSelectedTour(tour);
+    setStops(toDrafts(tour));
+    setStopsDirty(false);
+    setTours(prev => prev.map(t => (t.id === tour.id ? { ...tour, stops: undefined } : t)));
+  };
+
+  const handleSelectTour = async (tourId: string) => {
+    if (stopsDirty && !window.confirm('Discard the unsaved changes to this tour\'s stops?')) return;
+
+    try {
+      showTour(await getTour(tourId));
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to load tour');
+    }
+  };
+
+  const handleCreateTour = async () => {
+    if (!selectedExhibitionId) return;
+
+    let values: TourData;
+    try {
+      values = await createForm.validateFields();
+    } catch {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const tour = await createTour(selectedExhibitionId, values);
+      setTours(prev => [...prev, tour]);
+      showTour({ ...tour, stops: [] });
+      setCreateVisible(false);
+      createForm.resetFields();
+      message.success('Tour created');
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to create tour');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveDetails = async () => {
+    if (!selectedTour) return;
+
+    let values: TourData;
+    try {
+      values = await detailsForm.validateFields();
+    } catch {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const tour = await updateTour(selectedTour.id, values);
+      setSelectedTour(prev => (prev ? { ...prev, ...tour, stops: prev.stops } : prev));
+      setTours(prev => prev.map(t => (t.id === tour.id ? tour : t)));
+      message.success('Tour details saved');
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to save tour details');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePublishToggle = async (isPublished: boolean) => {
+    if (!selectedTour) return;
+
+    setSaving(true);
+    try {
+      const tour = await updateTour(selectedTour.id, { isPublished });
+      setSelectedTour(prev => (prev ? { ...prev, ...tour, stops: prev.stops } : prev));
+      setTours(prev => prev.map(t => (t.id === tour.id ? tour : t)));
+      message.success(isPublished ? 'Tour published' : 'Tour hidden from visitors');
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to update tour');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTour = async () => {
+    if (!selectedTour) return;
+
+    try {
+      await deleteTour(selectedTour.id);
+      setTours(prev => prev.filter(t => t.id !== selectedTour.id));
+      setSelectedTour(null);
+      setStopsDirty(false);
+      message.success('Tour deleted');
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to delete tour');
+    }
+  };
+
+  const handleStopsChange = (next: TourStopDraft[]) => {
+    setStops(next);
+    setStopsDirty(true);
+  };
+
+  const handleSaveStops = async () => {
+    if (!selectedTour) return;
+
+    setSaving(true);
+    try {
+      const tour = await saveTourStops(selectedTour.id, stops.map(stop => ({
+        ...(stop.id && { id: stop.id }),
+        wallId: stop.wallId,
+        artworkId: stop.artworkId,
+        cameraPose: stop.cameraPose,
+        narration: stop.narration
+      })));
+      showTour(tour);
+      message.success('Tour stops saved');
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to save tour stops');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Audio goes straight to a saved stop, without touching unsaved stop edits
+  const setStopAudio = (stopId: string, audioUrl: string | null) => {
+    setStops(prev => prev.map(stop => (stop.id === stopId ? { ...stop, audioUrl } : stop)));
+  };
+
+  const handleUploadAudio = async (stop: TourStopDraft, file: File) => {
+    if (!selectedTour || !stop.id) return;
+
+    const hide = message.loading('Uploading narration audio...', 0);
+    try {
+      const saved = await uploadTourStopAudio(selectedTour.id, stop.id, file);
+      setStopAudio(saved.id, saved.audioUrl);
+      message.success('Narration audio added');
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to upload audio');
+    } finally {
+      hide();
+    }
+  };
+
+  const handleRemoveAudio = async (stop: TourStopDraft) => {
+    if (!selectedTour || !stop.id) return;
+
+    try {
+      const saved = await deleteTourStopAudio(selectedTour.id, stop.id);
+      setStopAudio(saved.id, saved.audioUrl);
+      message.success('Narration audio removed');
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to remove audio');
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto py-8 px-4">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <Title level={2} className="mb-0">Guided Tours</Title>
+          <Paragraph type="secondary" className="mb-0">
+            Lead visitors through an exhibition stop by stop, with narration and an optional audio clip at each artwork.
+          </Paragraph>
+        </div>
+        <Select
+          className="w-72"
+          placeholder="Select an exhibition"
+          value={selectedExhibitionId || undefined}
+          onChange={value => {
+            if (stopsDirty && !window.confirm('Discard the unsaved changes to this tour\'s stops?')) return;
+            setStopsDirty(false);
+            setSelectedExhibitionId(value);
+          }}
+          options={exhibitions.map(exhibition => ({ value: exhibition.id, label: exhibition.title }))}
+        />
+      </div>
+
+      {error && <Alert className="mb-6" type="error" showIcon message={error} />}
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <Spin size="large" />
+        </div>
+      ) : !selectedExhibitionId ? (
+        <Empty description="You have no exhibitions to write tours for" />
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card
+            title="Tours"
+            extra={
+              <Button type="primary" size="small" icon={<PlusOutlined />} onClick={() => setCreateVisible(true)}>
+                New Tour
+              </Button>
+            }
+          >
+            <List
+              dataSource={tours}
+              locale={{ emptyText: 'No tours yet' }}
+              renderItem={tour => (
+                <List.Item
+                  className={`cursor-pointer px-2 ${tour.id === selectedTour?.id ? 'bg-indigo-50' : ''}`}
+                  onClick={() => handleSelectTour(tour.id)}
+                >
+                  <List.Item.Meta
+                    title={tour.title}
+                    description={`${tour.stopCount} ${tour.stopCount === 1 ? 'stop' : 'stops'}`}
+                  />
+                  <Tag color={tour.isPublished ? 'green' : 'default'}>
+                    {tour.isPublished ? 'Published' : 'Draft'}
+                  </Tag>
+                </List.Item>
+              )}
+            />
+          </Card>
+
+          <div className="lg:col-span-2">
+            {selectedTour ? (
+              <Space direction="vertical" className="w-full" size="large">
+                <Card
+                  title="Details"
+                  extra={
+                    <Space>
+                      <Text type="secondary">Published</Text>
+                      <Switch
+                        checked={selectedTour.isPublished}
+                        disabled={saving || (!selectedTour.isPublished && selectedTour.stopCount === 0)}
+                        onChange={handlePublishToggle}
+                      />
+                      <Button
+                        icon={<EyeOutlined />}
+                        href={`/exhibitions/${selectedExhibitionId}`}
+                        target="_blank"
+                      >
+                        View Exhibition
+                      </Button>
+                      <Popconfirm
+                        title="Delete this tour?"
+                        description="Its stops and narration clips are deleted too."
+                        okText="Delete"
+                        okButtonProps={{ danger: true }}
+                        onConfirm={handleDeleteTour}
+                      >
+                        <Button danger icon={<DeleteOutlined />} />
+                      </Popconfirm>
+                    </Space>
+                  }
+                >
+                  <Form
+                    key={selectedTour.id}
+                    form={detailsForm}
+                    layout="vertical"
+                    initialValues={{ title: selectedTour.title, description: selectedTour.description }}
+                  >
+                    <Form.Item
+                      name="title"
+                      label="Title"
+                      rules={[{ required: true, message: 'Please enter a title' }, { max: 100 }]}
+                    >
+                      <Input />
+                    </Form.Item>
+                    <Form.Item name="description" label="Description">
+                      <TextArea rows={2} />
+                    </Form.Item>
+                    <Button icon={<SaveOutlined />} loading={saving} onClick={handleSaveDetails}>
+                      Save Details
+                    </Button>
+                  </Form>
+                  {!selectedTour.isPublished && selectedTour.stopCount === 0 && (
+                    <Text type="secondary" className="block mt-4">Save at least one stop before publishing.</Text>
+                  )}
+                </Card>
+
+                <Card
+                  title="Stops"
+                  extra={
+                    <Button
+                      type="primary"
+                      icon={<SaveOutlined />}
+                      loading={saving}
+                      disabled={!stopsDirty}
+                      onClick={handleSaveStops}
+                    >
+                      Save Stops
+                    </Button>
+                  }
+                >
+                  {stopsDirty && (
+                    <Alert className="mb-4" type="warning" showIcon message="The stops have unsaved changes" />
+                  )}
+                  <TourStopsEditor
+                    stops={stops}
+                    walls={walls}
+                    onChange={handleStopsChange}
+                    onUploadAudio={handleUploadAudio}
+                    onRemoveAudio={handleRemoveAudio}
+                    disabled={saving}
+                  />
+                </Card>
+              </Space>
+            ) : (
+              <Card>
+                <Empty description="Select a tour, or start a new one" />
+              </Card>
+            )}
+          </div>
+        </div>
+      )}
+
+      <Modal
+        title="New Tour"
+        open={createVisible}
+        onOk={handleCreateTour}
+        onCancel={() => setCreateVisible(false)}
+        confirmLoading={saving}
+        okText="Create"
+      >
+        <Form form={createForm} layout="vertical">
+          <Form.Item
+            name="title"
+            label="Title"
+            rules={[{ required: true, message: 'Please enter a title' }, { max: 100 }]}
+          >
+            <Input placeholder="e.g. Highlights in 10 minutes" />
+          </Form.Item>
+          <Form.Item name="description" label="Description">
+            <TextArea rows={3} />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+};
+
+export default withProtectedRoute(CuratorToursPage, {
+    requiredRoles: [UserRole.CURATOR],
+    redirectTo: '/unauthorized',
+});
@@ -6,11 +6,12 @@ import { PictureOutlined, UploadOutlined, CommentOutlined, StarOutlined, CheckCi
 import { useRouter } from 'next/navigation';
 import { withProtectedRoute } from '@/contexts/AuthContext';
 import { UserRole } from '@/types/user.types';
-import { getArtworks } from '@/lib/api/index';
+import { getArtworks, getArtistAnalytics } from '@/lib/api/index';
 import { useNotifications } from '@/contexts/NotificationContext';
 import { getSocketClient, authenticateSocket } from '@/lib/socketClient';
 import ArtworkGrid from '@/components/artwork/ArtworkGrid';
 import NotificationBadge from '@/components/notification/NotificationBadge';
+import EngagementAnalytics from '@/components/analytics/EngagementAnalytics';
 import { Artwork } from '@/types/artwork.types';
 
 const ArtistDashboard: React.FC = () => {
@@ -52,6 +53,12 @@ const ArtistDashboard: React.FC = () => {
 
         setArtworks(fetchedArtworks);
         setPendingArtworks(pending);
+
+        // Views are best effort; the rest of the dashboard works without them
+        const analytics = await getArtistAnalytics().catch(err => {
+          console.error('Error fetching artist analytics:', err);
+          return null;
+        });
         
         // Calculate statistics
         setStats({
@@ -60,7 +67,7 @@ const ArtistDashboard: React.FC = () => {
           approvedArtworks: approved.length,
           exhibitionsFeatureIn: fetchedArtworks.reduce((total, art) => 
             total + (art.exhibitionItems?.length || 0), 0),
-          totalViews: Math.floor(Math.random() * 1000), // Mock data
+          totalViews: analytics?.totals.views || 0,
           totalLikes: Math.floor(Math.random() * 100), // Mock data
         });
       } catch (error) {
@@ -195,7 +202,7 @@ const ArtistDashboard: React.FC = () => {
         </Card>
         <Card>
           <Statistic 
-            title="Total Views" 
+            title="Views (30 days)" 
             value={stats.totalViews} 
             prefix={<CommentOutlined />} 
           />
@@ -295,6 +302,11 @@ const ArtistDashboard: React.FC = () => {
                   />
                 )
               )
+            },
+            {
+              key: 'engagement',
+              label: 'Engagement',
+              children: <EngagementAnalytics mode="artist" />
             }
           ]}
         />
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Card, Tabs, Button, Statistic, Table, Tag, message, Spin, Modal, Tooltip, Badge, Alert, Drawer, List, Avatar, Empty, Space, Image, Popconfirm, Input, Divider } from 'antd';
+import { Card, Tabs, Button, Statistic, Table, Tag, message, Spin, Modal, Tooltip, Badge, Alert, Drawer, List, Avatar, Empty, Space, Image, Popconfirm, Input, Divider, Select } from 'antd';
 import { 
   PlusOutlined, 
   CheckCircleOutlined, 
@@ -16,21 +16,24 @@ import {
   InfoCircleOutlined
 } from '@ant-design/icons';
 import { useRouter } from 'next/navigation';
-import { withProtectedRoute } from '@/contexts/AuthContext';
+import { withProtectedRoute, useAuthContext } from '@/contexts/AuthContext';
 import { UserRole } from '@/types/user.types';
-import { getExhibition, getArtworks, approveArtwork, rejectArtwork, deleteArtwork } from '@/lib/api/index';
+import { getExhibitions, getArtworks, approveArtwork, rejectArtwork, deleteArtwork } from '@/lib/api/index';
 import { useNotifications } from '@/contexts/NotificationContext';
 import { Exhibition } from '@/types/exhibition.types';
-import { Artwork, ArtworkStatus } from '@/types/artwork.types';
-import { formatDate, formatImageUrl } from '@/utils/format';
+import { Artwork, ArtworkStatus, RejectionReason } from '@/types/artwork.types';
+import { formatDate, formatImageUrl, formatExhibitionStatus, REJECTION_REASON_LABELS } from '@/utils/format';
 import { getSocketClient, authenticateSocket } from '@/lib/socketClient';
 import CuratorNavLinks from '@/components/curator/CuratorNavLink';
+import EngagementAnalytics from '@/components/analytics/EngagementAnalytics';
 
 const CuratorDashboard: React.FC = () => {
   const router = useRouter();
+  const { user } = useAuthContext();
   const { notifications = [], unreadCount = 0, markAsRead } = useNotifications();
   const [rejectionModalVisible, setRejectionModalVisible] = useState<boolean>(false);
   const [rejectReason, setRejectReason] = useState<string>('');
+  const [rejectReasonCategory, setRejectReasonCategory] = useState<RejectionReason | undefined>(undefined);
   const [selectedArtwork, setSelectedArtwork] = useState<Artwork | null>(null);
   const [detailModalVisible, setDetailModalVisible] = useState<boolean>(false);
   const [exhibition, setExhibition] = useState<Exhibition>();
@@ -65,14 +68,16 @@ const CuratorDashboard: React.FC = () => {
         setLoading(true);
         
         // Get all exhibitions curated by current user
-        const {exhibition: fetchedExhibition} = await getExhibition();
-        setExhibition(fetchedExhibition);
+        const { exhibitions: curatedExhibitions } = await getExhibitions({ curator: user?.username });
+        
+        // Feature the active exhibition, falling back to the most recent one
+        setExhibition(curatedExhibitions.find(e => e.isActive) || curatedExhibitions[0]);
         
         // Update statistics with actual counts
         setStats(prev => ({
           ...prev,
           totalUsers: 25,     // This would come from an actual API call
-          activeExhibitions: fetchedExhibition?.isActive ? 1 : 0,
+          activeExhibitions: curatedExhibitions.filter(e => e.isActive).length,
         }));
       } catch (error) {
         console.error('Error fetching curator data:', error);
@@ -125,7 +130,7 @@ const CuratorDashboard: React.FC = () => {
     return () => {
       socket.off('new-artwork');
     };
-  }, [router]);
+  }, [router, user?.username]);
 
   const fetchArtworksData = async (
       page = pagination.current, 
@@ -218,10 +223,10 @@ const CuratorDashboard: React.FC = () => {
 
   // Handle artwork rejection submission
   const handleRejectArtwork = async () => {
-    if (!selectedArtwork) return;
+    if (!selectedArtwork || !rejectReasonCategory) return;
     
     try {
-      await rejectArtwork(selectedArtwork.id, rejectReason);
+      await rejectArtwork(selectedArtwork.id, rejectReasonCategory, rejectReason);
       setSuccessMessage('Artwork rejected successfully');
 
       pendingArtworks.filter((artwork) => {
@@ -236,6 +241,7 @@ const CuratorDashboard: React.FC = () => {
       // Close modal and reset
       setRejectionModalVisible(false);
       setRejectReason('');
+      setRejectReasonCategory(undefined);
       setSelectedArtwork(null);
       
       // Update stats
@@ -530,7 +536,7 @@ const CuratorDashboard: React.FC = () => {
         <Card>
           <Statistic 
             title="Exhibition Status" 
-            value={exhibition?.isActive ? 'Active' : 'Inactive'} 
+            value={exhibition ? formatExhibitionStatus(exhibition.status).label : 'None'} 
             prefix={<SettingOutlined />} 
           />
           <div className="mt-4">
@@ -642,8 +648,8 @@ const CuratorDashboard: React.FC = () => {
                             <p className="text-gray-500 mb-4">{exhibition.description.substring(0, 150)}...</p>
                             <p>
                               <strong>Status:</strong>{' '}
-                              <Tag color={exhibition.isActive ? 'green' : 'orange'}>
-                                {exhibition.isActive ? 'Active' : 'Inactive'}
+                              <Tag color={formatExhibitionStatus(exhibition.status).color}>
+                                {formatExhibitionStatus(exhibition.status).label}
                               </Tag>
                             </p>
                             <p>
@@ -697,6 +703,11 @@ const CuratorDashboard: React.FC = () => {
                   )}
                 </div>
               )
+            },
+            {
+              key: 'engagement',
+              label: 'Engagement',
+              children: <EngagementAnalytics mode="curator" />
             }
           ]}
         />
@@ -709,11 +720,15 @@ const CuratorDashboard: React.FC = () => {
         onCancel={() => {
           setRejectionModalVisible(false);
           setRejectReason('');
+          setRejectReasonCategory(undefined);
           setSelectedArtwork(null);
         }}
         onOk={handleRejectArtwork}
         okText="Reject"
-        okButtonProps={{ danger: true }}
+        okButtonProps={{
+          danger: true,
+          disabled: !rejectReasonCategory || (rejectReasonCategory === RejectionReason.OTHER && !rejectReason.trim())
+        }}
       >
         <div className="py-2">
           <p className="mb-4">
@@ -721,11 +736,24 @@ const CuratorDashboard: React.FC = () => {
             <strong> &quot;{selectedArtwork?.title}&quot;</strong>
           </p>
           
+          <Select
+            placeholder="Select a reason"
+            style={{ width: '100%', marginBottom: '1rem' }}
+            value={rejectReasonCategory}
+            onChange={value => setRejectReasonCategory(value)}
+            options={Object.values(RejectionReason).map(reason => ({
+              value: reason,
+              label: REJECTION_REASON_LABELS[reason]
+            }))}
+          />
+          
           <Input.TextArea
             rows={4}
             value={rejectReason}
             onChange={e => setRejectReason(e.target.value)}
-            placeholder="Explain why this artwork is being rejected..."
+            placeholder={rejectReasonCategory === RejectionReason.OTHER
+              ? 'Explain why this artwork is being rejected...'
+              : 'Add details to help the artist revise their work (optional)'}
           />
           
           <div className="mt-4 flex items-center text-gray-500">
@@ -22,16 +22,37 @@ import {
   CalendarOutlined, 
   EditOutlined, 
   DeleteOutlined, 
-  PlusOutlined
+  PlusOutlined,
+  SendOutlined,
+  RollbackOutlined,
+  CompassOutlined,
+  TeamOutlined,
+  MessageOutlined
 } from '@ant-design/icons';
 import { useAuthContext } from '@/contexts/AuthContext';
-import { getExhibitionById, deleteExhibition } from '@/lib/api/index';
-import { Exhibition } from '@/types/exhibition.types';
+import {
+  getExhibitionById,
+  deleteExhibition,
+  publishExhibition,
+  unpublishExhibition,
+  getTours,
+  getTour
+} from '@/lib/api/index';
+import unityBridge from '@/lib/unityBridge';
+import { getSocketClient } from '@/lib/socketClient';
+import useExhibitionPresence from '@/hooks/useExhibitionPresence';
+import useGroupTour from '@/hooks/useGroupTour';
+import useArtworkEngagement from '@/hooks/useArtworkEngagement';
+import useMovementSampling from '@/hooks/useMovementSampling';
+import { Exhibition, ExhibitionStatus } from '@/types/exhibition.types';
 import { Artwork } from '@/types/artwork.types';
-import { formatDate, formatImageUrl } from '@/utils/format';
+import { Tour } from '@/types/tour.types';
+import { formatDate, formatImageUrl, formatExhibitionStatus } from '@/utils/format';
 import { UserRole } from '@/types/user.types';
 import ArtworkGrid from '@/components/artwork/ArtworkGrid';
 import UnityViewer from '@/components/metaverse/UnityViewer';
+import TourPlayer from '@/components/metaverse/TourPlayer';
+import GroupTourPanel from '@/components/metaverse/GroupTourPanel';
 
 const { TabPane } = Tabs;
 
@@ -45,6 +66,19 @@ const ExhibitionDetailPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('info');
   const [selectedArtwork, setSelectedArtwork] = useState<Artwork | null>(null);
+  const [tours, setTours] = useState<Tour[]>([]);
+  const [activeTour, setActiveTour] = useState<Tour | null>(null);
+  // Whether the active tour plays in the 3D scene or as the 2D fallback
+  const [tourInUnity, setTourInUnity] = useState(false);
+  const [startingTourId, setStartingTourId] = useState<string | null>(null);
+  // Joins the exhibition's room, which the live updates below arrive through
+  const { visitorCount, avatars, inScene } = useExhibitionPresence(id || null, user);
+  // Followers of a group tour see the artworks their guide selects
+  const groupTour = useGroupTour(id || null, artworkId => handleArtworkSelect(artworkId));
+  // Selections and time spent near artworks in the 3D scene feed the dashboards
+  useArtworkEngagement(id || null);
+  // Where visitors walk feeds the curators' heatmaps
+  useMovementSampling(id || null);
 
   useEffect(() => {
     const fetchExhibition = async () => {
@@ -64,6 +98,66 @@ const ExhibitionDetailPage: React.FC = () => {
     }
   }, [id]);
 
+  // Tours are extras: the exhibition still shows if they fail to load
+  useEffect(() => {
+    if (!id) return;
+
+    getTours(id)
+      .then(setTours)
+      .catch(err => console.error('Failed to load tours:', err instanceof Error ? err.message : err));
+  }, [id]);
+
+  // Follow the exhibition room so openings and closings show up live
+  useEffect(() => {
+    if (!id) return;
+
+    const socket = getSocketClient();
+    const handleStatusChange = (data: { id: string; status: ExhibitionStatus }) => {
+      if (data.id !== id) return;
+      setExhibition(prev => prev ? {
+        ...prev,
+        status: data.status,
+        isActive: data.status === ExhibitionStatus.LIVE
+      } : prev);
+    };
+
+    // Pick up the walls the curator just published
+    const handleLayoutPublished = async (data: { id: string }) => {
+      if (data.id !== id) return;
+      try {
+        setExhibition(await getExhibitionById(id));
+      } catch (err) {
+        console.error('Failed to reload exhibition layout:', err instanceof Error ? err.message : err);
+      }
+    };
+
+    socket.on('exhibition:opened', handleStatusChange);
+    socket.on('exhibition:closed', handleStatusChange);
+    socket.on('exhibition:layout-published', handleLayoutPublished);
+
+    return () => {
+      socket.off('exhibition:opened', handleStatusChange);
+      socket.off('exhibition:closed', handleStatusChange);
+      socket.off('exhibition:layout-published', handleLayoutPublished);
+    };
+  }, [id]);
+
+  const handlePublishToggle = async () => {
+    if (!exhibition) return;
+
+    try {
+      const updatedExhibition = exhibition.status === ExhibitionStatus.DRAFT
+        ? await publishExhibition(exhibition.id)
+        : await unpublishExhibition(exhibition.id);
+      setExhibition(prev => prev ? { ...prev, status: updatedExhibition.status, isActive: updatedExhibition.isActive } : prev);
+      message.success(updatedExhibition.status === ExhibitionStatus.DRAFT
+        ? 'Exhibition moved back to draft'
+        : 'Exhibition published');
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to update exhibition status');
+    }
+  };
+
   const handleDelete = async () => {
     Modal.confirm({
       title: 'Delete Exhibition',
@@ -82,12 +176,33 @@ const ExhibitionDetailPage: React.FC = () => {
     });
   };
 
+  // Play a tour in the 3D scene when Unity is up and speaks the tour
+  // commands, otherwise as pictures in the Tours tab
+  const handleStartTour = async (tourId: string) => {
+    setStartingTourId(tourId);
+    try {
+      const tour = await getTour(tourId);
+      const inUnity = unityBridge.supportsCommand('StartTour');
+      setTourInUnity(inUnity);
+      setActiveTour(tour);
+      if (inUnity) {
+        setActiveTab('3d');
+      }
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to load tour');
+    } finally {
+      setStartingTourId(null);
+    }
+  };
+
   const handleArtworkSelect = (artworkId: string) => {
-    if (!exhibition || !exhibition.items) return;
+    if (!exhibition || !exhibition.walls) return;
     
-    const foundItem = exhibition.items.find(item => item.artwork?.id === artworkId);
-    if (foundItem && foundItem.artwork) {
-      setSelectedArtwork(foundItem.artwork);
+    const foundPlacement = exhibition.walls
+      .flatMap(wall => wall.placements || [])
+      .find(placement => placement.artwork?.id === artworkId);
+    if (foundPlacement && foundPlacement.artwork) {
+      setSelectedArtwork(foundPlacement.artwork);
     }
   };
 
@@ -141,13 +256,18 @@ const ExhibitionDetailPage: React.FC = () => {
 
   const isCurator = user?.id === exhibition.curatorId;
   const isAdmin = user?.role === UserRole.ADMIN;
-  const canEdit = isCurator || isAdmin;
+  const isReadOnly = exhibition.status === ExhibitionStatus.CLOSED || exhibition.status === ExhibitionStatus.ARCHIVED;
+  const canEdit = (isCurator || isAdmin) && exhibition.status !== ExhibitionStatus.ARCHIVED;
   const canDelete = isCurator || isAdmin;
+  const canTogglePublish = (isCurator || isAdmin) &&
+    (exhibition.status === ExhibitionStatus.DRAFT || exhibition.status === ExhibitionStatus.SCHEDULED);
+  const status = formatExhibitionStatus(exhibition.status);
 
-  // Get all artworks from exhibition items
-  const artworks = exhibition.items
-    ?.filter(item => item.artwork)
-    .map(item => item.artwork) as Artwork[];
+  // Get all artworks placed on the exhibition walls
+  const artworks = exhibition.walls
+    ?.flatMap(wall => wall.placements || [])
+    .filter(placement => placement.artwork)
+    .map(placement => placement.artwork);
 
   return (
     <div className="max-w-6xl mx-auto py-8 px-4">
@@ -172,6 +292,15 @@ const ExhibitionDetailPage: React.FC = () => {
               </Button>
             )}
             
+            {canTogglePublish && (
+              <Button 
+                icon={exhibition.status === ExhibitionStatus.DRAFT ? <SendOutlined /> : <RollbackOutlined />}
+                onClick={handlePublishToggle}
+              >
+                {exhibition.status === ExhibitionStatus.DRAFT ? 'Publish' : 'Unpublish'}
+              </Button>
+            )}
+            
             {canDelete && (
               <Button 
                 danger 
@@ -182,7 +311,7 @@ const ExhibitionDetailPage: React.FC = () => {
               </Button>
             )}
             
-            {isCurator && (
+            {isCurator && !isReadOnly && (
               <Button 
                 icon={<PlusOutlined />}
                 onClick={() => router.push(`/exhibitions/${id}/add-artwork`)}
@@ -197,8 +326,8 @@ const ExhibitionDetailPage: React.FC = () => {
       <div className="mb-6">
         <h1 className="text-3xl font-bold">{exhibition.title}</h1>
         <div className="mt-2 flex items-center flex-wrap gap-2">
-          <Tag color={exhibition.isActive ? 'green' : 'orange'}>
-            {exhibition.isActive ? 'Active' : 'Coming Soon'}
+          <Tag color={status.color}>
+            {status.label}
           </Tag>
           
           <div className="flex items-center">
@@ -214,9 +343,25 @@ const ExhibitionDetailPage: React.FC = () => {
               Curator: {exhibition.curator?.username || `Curator #${exhibition.curatorId}`}
             </span>
           </div>
+          
+          {visitorCount !== null && (
+            <Tag icon={<TeamOutlined />} color="blue" className="ml-4">
+              {visitorCount} {visitorCount === 1 ? 'visitor' : 'visitors'} here now
+            </Tag>
+          )}
         </div>
       </div>
       
+      {isReadOnly && (
+        <Alert
+          className="mb-6"
+          type="info"
+          showIcon
+          message={exhibition.status === ExhibitionStatus.ARCHIVED ? 'This exhibition has been archived' : 'This exhibition has closed'}
+          description="You can still browse it, but its layout can no longer be changed."
+        />
+      )}
+      
       <Tabs activeKey={activeTab} onChange={setActiveTab}>
         <TabPane tab="Information" key="info">
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -247,7 +392,7 @@ const ExhibitionDetailPage: React.FC = () => {
                   </Descriptions.Item>
                   
                   <Descriptions.Item label="Status">
-                    {exhibition.isActive ? 'Currently Active' : 'Coming Soon'}
+                    {status.label}
                   </Descriptions.Item>
                 </Descriptions>
               </Card>
@@ -344,12 +489,48 @@ const ExhibitionDetailPage: React.FC = () => {
         </TabPane>
         
         <TabPane tab="3D Experience" key="3d">
-          <Card>
+          <Card
+            extra={
+              <Button icon={<MessageOutlined />} onClick={() => router.push(`/metaverse/view?exhibition=${id}`)}>
+                Full-Screen Viewer with Chat
+              </Button>
+            }
+          >
             <UnityViewer 
               exhibitionId={id as string} 
               onArtworkSelect={handleArtworkSelect}
             />
             
+            {inScene && (
+              <div className="mt-4 flex items-center flex-wrap gap-2">
+                <TeamOutlined />
+                {avatars.length > 0 ? (
+                  <>
+                    <span>Nearby:</span>
+                    {avatars.map(avatar => (
+                      <Tag key={avatar.socketId}>{avatar.displayName}</Tag>
+                    ))}
+                  </>
+                ) : (
+                  <span className="text-gray-500">No other visitors nearby</span>
+                )}
+              </div>
+            )}
+            
+            <div className="mt-6">
+              <GroupTourPanel
+                {...groupTour}
+                canGuide={!!user && (user.role === UserRole.CURATOR || user.role === UserRole.ADMIN)}
+                signedIn={!!user}
+              />
+            </div>
+            
+            {activeTour && tourInUnity && (
+              <div className="mt-6">
+                <TourPlayer tour={activeTour} useUnity onEnd={() => setActiveTour(null)} />
+              </div>
+            )}
+            
             {selectedArtwork && (
               <div className="mt-6 p-4 border border-gray-200 rounded-lg">
                 <h3 className="text-lg font-semibold">{selectedArtwork.title}</h3>
@@ -365,6 +546,59 @@ const ExhibitionDetailPage: React.FC = () => {
             )}
           </Card>
         </TabPane>
+        
+        <TabPane tab={`Tours${tours.length > 0 ? ` (${tours.length})` : ''}`} key="tours">
+          {activeTour && !tourInUnity ? (
+            <TourPlayer tour={activeTour} useUnity={false} onEnd={() => setActiveTour(null)} />
+          ) : (
+            <Card>
+              <h2 className="text-xl font-bold mb-4">Guided Tours</h2>
+              {activeTour && (
+                <Alert
+                  className="mb-4"
+                  type="info"
+                  showIcon
+                  message={`"${activeTour.title}" is playing in the 3D Experience tab`}
+                />
+              )}
+              <List
+                dataSource={tours}
+                locale={{ emptyText: 'No guided tours for this exhibition yet.' }}
+                renderItem={tour => (
+                  <List.Item
+                    actions={[
+                      <Button
+                        key="start"
+                        type="primary"
+                        icon={<CompassOutlined />}
+                        loading={startingTourId === tour.id}
+                        disabled={!!activeTour}
+                        onClick={() => handleStartTour(tour.id)}
+                      >
+                        Start Tour
+                      </Button>
+                    ]}
+                  >
+                    <List.Item.Meta
+                      title={
+                        <span>
+                          {tour.title}
+                          {!tour.isPublished && <Tag className="ml-2">Draft</Tag>}
+                        </span>
+                      }
+                      description={
+                        <>
+                          {tour.description && <p className="mb-1">{tour.description}</p>}
+                          <span>{tour.stopCount} {tour.stopCount === 1 ? 'stop' : 'stops'}</span>
+                        </>
+                      }
+                    />
+                  </List.Item>
+                )}
+              />
+            </Card>
+          )}
+        </TabPane>
       </Tabs>
     </div>
   );
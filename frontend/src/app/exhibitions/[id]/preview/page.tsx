@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Alert, Button, Card, Spin } from 'antd';
+import { ArrowLeftOutlined, ReloadOutlined } from '@ant-design/icons';
+import { withProtectedRoute } from '@/contexts/AuthContext';
+import { UserRole } from '@/types/user.types';
+import { createLayoutPreview } from '@/lib/api/exhibition';
+import UnityViewer from '@/components/metaverse/UnityViewer';
+
+/**
+ * The 3D viewer showing the curator's draft layout before it is published
+ */
+const ExhibitionPreviewPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+
+  const [previewToken, setPreviewToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Bumped to ask for a fresh preview link
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const loadPreview = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const { token } = await createLayoutPreview(id);
+        setPreviewToken(token);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to open the draft preview');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (id) {
+      loadPreview();
+    }
+  }, [id, reloadKey]);
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <div className="flex justify-between items-center mb-4">
+        <Button icon={<ArrowLeftOutlined />} onClick={() => router.push('/curator/layout')}>
+          Back to Layout Editor
+        </Button>
+        <Button icon={<ReloadOutlined />} onClick={() => setReloadKey(key => key + 1)} loading={loading}>
+          Reload Draft
+        </Button>
+      </div>
+
+      <Alert
+        className="mb-4"
+        type="warning"
+        showIcon
+        message="Draft preview"
+        description="You are viewing the unpublished layout. Visitors keep seeing the published layout until you publish from the layout editor."
+      />
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Spin size="large" />
+        </div>
+      ) : error ? (
+        <Alert message="Error" description={error} type="error" showIcon />
+      ) : previewToken && (
+        <Card>
+          <UnityViewer exhibitionId={id} previewToken={previewToken} />
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default withProtectedRoute(ExhibitionPreviewPage, {
+  requiredRoles: [UserRole.CURATOR, UserRole.ADMIN],
+  redirectTo: '/unauthorized',
+});
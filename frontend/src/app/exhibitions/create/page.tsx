@@ -7,7 +7,7 @@ import { ProtectedRoute } from '@/contexts/AuthContext';
 import { UserRole } from '@/types/user.types';
 import ExhibitionCreateForm from '@/components/exhibition/ExhibitionCreateForm';
 import { ExhibitionCreateData } from '@/types/exhibition.types';
-import { createOrUpdateExhibition } from '@/lib/api/index';
+import { createExhibition } from '@/lib/api/index';
 
 const ExhibitionCreatePage: React.FC = () => {
   const router = useRouter();
@@ -16,7 +16,7 @@ const ExhibitionCreatePage: React.FC = () => {
   const handleSubmit = async (data: ExhibitionCreateData) => {
     setLoading(true);
     try {
-      const exhibition = await createOrUpdateExhibition(data);
+      const exhibition = await createExhibition(data);
       message.success('Exhibition created successfully!');
       
       // Redirect to exhibition detail page
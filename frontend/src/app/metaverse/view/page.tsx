@@ -1,9 +1,36 @@
+'use client';
+
+import { Suspense } from "react";
+import { useSearchParams } from "next/navigation";
 import ExhibitionGame from "@/components/ExhibitionGame";
+import ExhibitionChat from "@/components/metaverse/ExhibitionChat";
+import { useAuthContext } from "@/contexts/AuthContext";
+
+function ExhibitionView() {
+  // The exhibition being visited, e.g. /metaverse/view?exhibition=<id>; its chat sits beside the viewer
+  const exhibitionId = useSearchParams().get("exhibition");
+  const { user } = useAuthContext();
 
-export default function ExhibitionPage() {
   return (
-    <main className="h-screen w-full">
-      <ExhibitionGame />
+    <main className="h-screen w-full flex">
+      <div className="flex-1 min-w-0">
+        <ExhibitionGame />
+      </div>
+      {exhibitionId && (
+        <ExhibitionChat
+          exhibitionId={exhibitionId}
+          user={user}
+          className="w-80 shrink-0 h-screen border-l border-gray-200"
+        />
+      )}
     </main>
   );
-}
\ No newline at end of file
+}
+
+export default function ExhibitionPage() {
+  return (
+    <Suspense>
+      <ExhibitionView />
+    </Suspense>
+  );
+}
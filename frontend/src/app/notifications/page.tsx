@@ -65,6 +65,7 @@ export default function NotificationsPage() {
     // Navigate based on notification type
     switch (notification.type) {
       case 'artwork_upload':
+      case 'artwork_resubmitted':
         router.push(`/artworks/${notification.entityId}`);
         break;
       case 'artwork_approved':
@@ -77,6 +78,9 @@ export default function NotificationsPage() {
       case 'comment_added':
         router.push(`/artworks/${notification.entityId}?showComments=true`);
         break;
+      case 'review_assigned':
+        router.push('/curator/approvals');
+        break;
     }
   };
 
@@ -84,6 +88,8 @@ export default function NotificationsPage() {
   const getNotificationIcon = (type: string) => {
     switch (type) {
       case 'artwork_upload':
+      case 'artwork_resubmitted':
+      case 'review_assigned':
         return <PictureOutlined style={{ color: '#1890ff' }} />;
       case 'artwork_approved':
         return <CheckOutlined style={{ color: '#52c41a' }} />;
@@ -32,12 +32,12 @@ import {
   PlusOutlined
 } from '@ant-design/icons';
 import { useAuthContext } from '@/contexts/AuthContext';
-import { getUserByUsername, getUserArtworks, getExhibition } from '@/lib/api/index';
+import { getUserByUsername, getUserArtworks, getExhibitions } from '@/lib/api/index';
 import { User, UserRole } from '@/types/user.types';
 import { Artwork } from '@/types/artwork.types';
 import { Exhibition } from '@/types/exhibition.types';
 import ArtworkGrid from '@/components/artwork/ArtworkGrid';
-// import ExhibitionGrid from '@/components/exhibition/ExhibitionGrid';
+import ExhibitionGrid from '@/components/exhibition/ExhibitionGrid';
 import { formatDate, formatImageUrl } from '@/utils/format';
 // import { set } from 'date-fns';
 
@@ -50,7 +50,7 @@ const UserProfilePage: React.FC = () => {
   
   const [user, setUser] = useState<User | null>(null);
   const [artworks, setArtworks] = useState<Artwork[]>([]);
-  const [exhibitions, setExhibitions] = useState<Exhibition | null>(null);
+  const [exhibitions, setExhibitions] = useState<Exhibition[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<string>('1');
@@ -73,8 +73,8 @@ const UserProfilePage: React.FC = () => {
             .then(({ artworks: fetchedArtworks }) => setArtworks(fetchedArtworks)),
           
           // If user is a curator, get their exhibitions
-          userData.role === UserRole.CURATOR && getExhibition()
-            .then(({ exhibition: fetchedExhibition }) => setExhibitions(fetchedExhibition))
+          userData.role === UserRole.CURATOR && getExhibitions({ curator: userData.username })
+            .then(({ exhibitions: fetchedExhibitions }) => setExhibitions(fetchedExhibitions))
         ]);
 
       } catch (err: any) {
@@ -316,6 +316,13 @@ const UserProfilePage: React.FC = () => {
               </div>
             </div>
             
+            <ExhibitionGrid 
+              exhibitions={exhibitions}
+              showCurator={false}
+              showActions={false}
+              emptyText={`${user.username} has not curated any exhibitions yet`}
+              onExhibitionClick={(exhibition) => router.push(`/exhibitions/${exhibition.id}`)}
+            />
           </div>
         )
       });
@@ -418,8 +425,8 @@ const UserProfilePage: React.FC = () => {
               {user.role === UserRole.CURATOR && (
                 <>
                   <Statistic 
-                    title="Artworks" 
-                    value={exhibitions?.items?.length || 0} 
+                    title="Exhibitions" 
+                    value={exhibitions.length} 
                     prefix={<PictureOutlined className="text-blue-500" />} 
                   />
                   <Statistic 
@@ -1,8 +1,13 @@
 'use client'
 
+import { useState } from "react";
 import { Unity, useUnityContext } from "react-unity-webgl";
+import { MockUnityInstance, isUnityMockEnabled } from "@/lib/mockUnity";
+import MockUnityScene from "@/components/metaverse/MockUnityScene";
 
 export default function ExhibitionGame() {
+  // With NEXT_PUBLIC_UNITY_MOCK=true the page works without the WebGL build
+  const [mock] = useState(() => (isUnityMockEnabled() ? new MockUnityInstance() : null));
   const { unityProvider, isLoaded, loadingProgression } = useUnityContext({
     loaderUrl: "/unity/Build/ExhibitionClient.loader.js",
     dataUrl: "/unity/Build/ExhibitionClient.data",
@@ -10,6 +15,14 @@ export default function ExhibitionGame() {
     codeUrl: "/unity/Build/ExhibitionClient.wasm",
   });
 
+  if (mock) {
+    return (
+      <div className="w-full h-screen">
+        <MockUnityScene instance={mock} />
+      </div>
+    );
+  }
+
   return (
     <div className="w-full h-screen bg-black flex items-center justify-center">
       {!isLoaded && (
@@ -0,0 +1,254 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Alert, Card, Empty, Select, Spin, Statistic, Table, Tooltip, Typography } from 'antd';
+import { AimOutlined, EyeOutlined, FieldTimeOutlined } from '@ant-design/icons';
+import { useRouter } from 'next/navigation';
+import { getArtistAnalytics, getCuratorAnalytics } from '@/lib/api/index';
+import { ArtistAnalytics, CuratorAnalytics, DailyEngagement, EngagementTotals } from '@/types/analytics.types';
+import { formatDate } from '@/utils/format';
+
+const { Text } = Typography;
+
+const RANGE_OPTIONS = [
+  { value: 7, label: 'Last 7 days' },
+  { value: 30, label: 'Last 30 days' },
+  { value: 90, label: 'Last 90 days' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days are counted in UTC, as the server stores them
+const formatDay = (day: string) => formatDate(day, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const formatDwell = (seconds: number) => {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${Math.round(seconds % 60)}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const totalsColumns = [
+  { title: 'Views', dataIndex: 'views', key: 'views', sorter: (a: EngagementTotals, b: EngagementTotals) => a.views - b.views },
+  {
+    title: 'Selections',
+    dataIndex: 'selections',
+    key: 'selections',
+    sorter: (a: EngagementTotals, b: EngagementTotals) => a.selections - b.selections
+  },
+  {
+    title: 'Time Spent',
+    dataIndex: 'dwellSeconds',
+    key: 'dwellSeconds',
+    render: (seconds: number) => formatDwell(seconds),
+    sorter: (a: EngagementTotals, b: EngagementTotals) => a.dwellSeconds - b.dwellSeconds
+  },
+  {
+    title: 'Average Stop',
+    dataIndex: 'averageDwellSeconds',
+    key: 'averageDwellSeconds',
+    render: (seconds: number) => (seconds > 0 ? formatDwell(seconds) : '-')
+  }
+];
+
+/**
+ * Bars of the day's views, selections and stops, one per day
+ */
+const DailyChart: React.FC<{ daily: DailyEngagement[] }> = ({ daily }) => {
+  const activity = (day: DailyEngagement) => day.views + day.selections + day.dwellCount;
+  const peak = Math.max(1, ...daily.map(activity));
+
+  return (
+    <div>
+      <div className="flex items-end gap-px h-32">
+        {daily.map(day => (
+          <Tooltip
+            key={day.day}
+            title={`${formatDay(day.day)}: ${day.views} views, ${day.selections} selections, ${day.dwellCount} stops`}
+          >
+            <div className="flex-1 h-full flex items-end">
+              <div
+                className="w-full bg-blue-500 rounded-t-sm hover:bg-blue-600"
+                style={{ height: `${(activity(day) / peak) * 100}%`, minHeight: activity(day) > 0 ? 2 : 0 }}
+              />
+            </div>
+          </Tooltip>
+        ))}
+      </div>
+      {daily.length > 0 && (
+        <div className="flex justify-between mt-1">
+          <Text type="secondary" className="text-xs">{formatDay(daily[0].day)}</Text>
+          <Text type="secondary" className="text-xs">{formatDay(daily[daily.length - 1].day)}</Text>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface EngagementAnalyticsProps {
+  // Artists see their artworks; curators their exhibitions and walls
+  mode: 'artist' | 'curator';
+}
+
+/**
+ * How visitors engaged with an artist's artworks or a curator's exhibitions:
+ * detail-page views, selections in the 3D scene and time spent near artworks
+ */
+const EngagementAnalytics: React.FC<EngagementAnalyticsProps> = ({ mode }) => {
+  const router = useRouter();
+  const [rangeDays, setRangeDays] = useState(30);
+  const [data, setData] = useState<ArtistAnalytics | CuratorAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const from = new Date(Date.now() - (rangeDays - 1) * DAY_MS).toISOString().slice(0, 10);
+
+    const fetchAnalytics = async () => {
+      setLoading(true);
+      try {
+        const result = mode === 'artist'
+          ? await getArtistAnalytics({ from })
+          : await getCuratorAnalytics({ from });
+        if (cancelled) return;
+        setData(result);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load engagement');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchAnalytics();
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, rangeDays]);
+
+  if (loading && !data) {
+    return (
+      <div className="flex justify-center py-10">
+        <Spin size="large" />
+      </div>
+    );
+  }
+
+  if (error && !data) {
+    return <Alert type="error" showIcon message={error} />;
+  }
+
+  if (!data) return null;
+
+  const renderBreakdown = () => {
+    if ('artworks' in data) {
+      return (
+        <Card size="small" title="By Artwork">
+          <Table
+            size="small"
+            rowKey="artworkId"
+            dataSource={data.artworks}
+            pagination={{ pageSize: 10, hideOnSinglePage: true }}
+            locale={{ emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No artworks yet" /> }}
+            columns={[
+              {
+                title: 'Artwork',
+                dataIndex: 'title',
+                key: 'title',
+                render: (title: string, row) => <a onClick={() => router.push(`/artworks/${row.artworkId}`)}>{title}</a>
+              },
+              ...totalsColumns
+            ]}
+          />
+        </Card>
+      );
+    }
+
+    return (
+      <>
+        <Card size="small" title="By Exhibition" className="mb-4">
+          <Table
+            size="small"
+            rowKey="exhibitionId"
+            dataSource={data.exhibitions}
+            pagination={{ pageSize: 10, hideOnSinglePage: true }}
+            locale={{ emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No exhibitions yet" /> }}
+            columns={[
+              {
+                title: 'Exhibition',
+                dataIndex: 'title',
+                key: 'title',
+                render: (title: string, row) => (
+                  <a onClick={() => router.push(`/exhibitions/${row.exhibitionId}`)}>{title}</a>
+                )
+              },
+              ...totalsColumns.filter(column => column.key !== 'views')
+            ]}
+          />
+        </Card>
+        <Card size="small" title="By Wall">
+          <Table
+            size="small"
+            rowKey="wallId"
+            dataSource={data.walls}
+            pagination={{ pageSize: 10, hideOnSinglePage: true }}
+            locale={{
+              emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No visitors have stopped at a wall yet" />
+            }}
+            columns={[
+              { title: 'Wall', dataIndex: 'name', key: 'name' },
+              { title: 'Exhibition', dataIndex: 'exhibitionTitle', key: 'exhibitionTitle' },
+              ...totalsColumns.filter(column => column.key !== 'views')
+            ]}
+          />
+        </Card>
+      </>
+    );
+  };
+
+  return (
+    <Spin spinning={loading}>
+      <div className="flex justify-between items-center mb-4">
+        <Text type="secondary">
+          {formatDay(data.from)} – {formatDay(data.to)}
+        </Text>
+        <Select className="w-40" value={rangeDays} onChange={setRangeDays} options={RANGE_OPTIONS} />
+      </div>
+
+      {error && <Alert type="error" showIcon message={error} className="mb-4" />}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        {mode === 'artist' ? (
+          <Card size="small">
+            <Statistic title="Detail Page Views" value={data.totals.views} prefix={<EyeOutlined />} />
+          </Card>
+        ) : (
+          <Card size="small">
+            <Statistic title="Stops at Artworks" value={data.totals.dwellCount} prefix={<EyeOutlined />} />
+          </Card>
+        )}
+        <Card size="small">
+          <Statistic title="Selections in 3D" value={data.totals.selections} prefix={<AimOutlined />} />
+        </Card>
+        <Card size="small">
+          <Statistic
+            title="Time Spent Near Artworks"
+            value={formatDwell(data.totals.dwellSeconds)}
+            prefix={<FieldTimeOutlined />}
+          />
+        </Card>
+      </div>
+
+      <Card size="small" title="Daily Activity" className="mb-4">
+        <DailyChart daily={data.daily} />
+      </Card>
+
+      {renderBreakdown()}
+    </Spin>
+  );
+};
+
+export default EngagementAnalytics;
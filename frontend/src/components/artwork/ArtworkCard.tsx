@@ -2,12 +2,11 @@
 
 import { Card, Tag, Typography, Tooltip } from 'antd';
 import { motion } from 'framer-motion';
-import Image from 'next/image';
 import Link from 'next/link';
 import { formatDistanceToNow } from 'date-fns';
-import { formatImageUrl } from '@/utils/format';
 import { EyeOutlined, HeartOutlined, HeartFilled, CommentOutlined } from '@ant-design/icons';
-import { ArtworkWithLikes } from '@/types/artwork.types';
+import { ArtworkImageStatus, ArtworkWithLikes } from '@/types/artwork.types';
+import ArtworkPicture from '@/components/artwork/ArtworkPicture';
 
 const { Meta } = Card;
 const { Text } = Typography;
@@ -21,7 +20,6 @@ const ArtworkCard: React.FC<ArtworkCardProps> = ({ artwork, onLikeClick }) => {
   const {
     id,
     title,
-    thumbnailUrl,
     category,
     artist,
     creationDate,
@@ -44,9 +42,6 @@ const ArtworkCard: React.FC<ArtworkCardProps> = ({ artwork, onLikeClick }) => {
     }
   };
 
-  // Generate a placeholder if image is not available
-  const imageUrl = formatImageUrl(thumbnailUrl || artwork.fileUrl)
-
   return (
     <motion.div
       whileHover={{ y: -5 }}
@@ -64,12 +59,14 @@ const ArtworkCard: React.FC<ArtworkCardProps> = ({ artwork, onLikeClick }) => {
           }}
           cover={
             <div style={{ position: 'relative', height: '12rem', overflow: 'hidden' }}>
-              <Image
-                src={imageUrl}
-                alt={title}
-                fill
+              <ArtworkPicture
+                artwork={artwork}
                 sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
                 style={{
+                  position: 'absolute',
+                  inset: 0,
+                  width: '100%',
+                  height: '100%',
                   objectFit: 'cover',
                   transition: 'transform 0.5s',
                 }}
@@ -80,6 +77,12 @@ const ArtworkCard: React.FC<ArtworkCardProps> = ({ artwork, onLikeClick }) => {
               <div style={{ position: 'absolute', top: '0.5rem', right: '0.5rem' }}>
                <Tag color="blue">{category}</Tag>
               </div>
+
+              {artwork.imageStatus === ArtworkImageStatus.PROCESSING && (
+                <div style={{ position: 'absolute', top: '0.5rem', left: '0.5rem' }}>
+                  <Tag color="processing">Processing</Tag>
+                </div>
+              )}
             </div>
           }
           actions={[
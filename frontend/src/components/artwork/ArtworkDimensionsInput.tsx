@@ -0,0 +1,56 @@
+import React from 'react';
+import { Form, InputNumber, Space } from 'antd';
+
+export interface ArtworkDimensionValues {
+  width?: number | null;
+  height?: number | null;
+  depth?: number | null;
+}
+
+const DIMENSIONS = [
+  { name: 'width', label: 'Width', placeholder: 'e.g. 0.6' },
+  { name: 'height', label: 'Height', placeholder: 'e.g. 0.9' },
+  { name: 'depth', label: 'Depth', placeholder: 'e.g. 0.04' }
+] as const;
+
+/**
+ * Add the dimensions that were filled in to an artwork form submission
+ * @param formData The form data being sent
+ * @param values The form values
+ */
+export const appendArtworkDimensions = (formData: FormData, values: ArtworkDimensionValues) => {
+  DIMENSIONS.forEach(({ name }) => {
+    const value = values[name];
+    if (value !== undefined && value !== null) {
+      formData.append(name, String(value));
+    }
+  });
+};
+
+/**
+ * Width, height and depth fields for an artwork form, in metres.
+ * Curators use them to check the artwork fits where they hang it.
+ */
+const ArtworkDimensionsInput: React.FC = () => (
+  <Form.Item
+    label="Physical Size"
+    extra="In metres. Curators use the size to check the artwork fits on a wall."
+  >
+    <Space wrap>
+      {DIMENSIONS.map(({ name, label, placeholder }) => (
+        <Form.Item key={name} name={name} noStyle>
+          <InputNumber
+            min={0.01}
+            max={100}
+            step={0.01}
+            addonBefore={label}
+            addonAfter="m"
+            placeholder={placeholder}
+          />
+        </Form.Item>
+      ))}
+    </Space>
+  </Form.Item>
+);
+
+export default ArtworkDimensionsInput;
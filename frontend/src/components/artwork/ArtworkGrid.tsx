@@ -1,10 +1,10 @@
 'use client';
 
 import React from 'react';
-import { Card, Empty, Spin, Tag, Image } from 'antd';
+import { Card, Empty, Spin, Tag } from 'antd';
 import { useRouter } from 'next/navigation';
-import { Artwork } from '@/types/artwork.types';
-import { formatImageUrl } from '@/utils/format';
+import { Artwork, ArtworkImageStatus } from '@/types/artwork.types';
+import ArtworkPicture from '@/components/artwork/ArtworkPicture';
 
 const { Meta } = Card;
 
@@ -43,6 +43,20 @@ const ArtworkGrid: React.FC<ArtworkGridProps> = ({
     }
   };
 
+  // How wide each picture is drawn at the column class's breakpoints
+  const getSizes = () => {
+    switch (columns) {
+      case 1:
+        return '100vw';
+      case 2:
+        return '(max-width: 640px) 100vw, 50vw';
+      case 4:
+        return '(max-width: 640px) 100vw, (max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw';
+      default:
+        return '(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw';
+    }
+  };
+
   const handleArtworkClick = (artwork: Artwork) => {
     if (onArtworkClick) {
       onArtworkClick(artwork);
@@ -72,12 +86,10 @@ const ArtworkGrid: React.FC<ArtworkGridProps> = ({
           onClick={() => handleArtworkClick(artwork)}
           cover={
             <div className="aspect-w-1 aspect-h-1 overflow-hidden bg-gray-100">
-              <Image
-                alt={artwork.title}
-                src={formatImageUrl(artwork.thumbnailUrl || artwork.fileUrl)}
-                style={{ objectFit: 'cover' }}
-                width={'100%'}
-                height={'100%'}
+              <ArtworkPicture
+                artwork={artwork}
+                sizes={getSizes()}
+                style={{ objectFit: 'cover', width: '100%', height: '100%' }}
               />
             </div>
           }
@@ -92,6 +104,8 @@ const ArtworkGrid: React.FC<ArtworkGridProps> = ({
                 </p>
                 <div className="flex flex-wrap gap-1 mb-2">
                   <Tag color="blue">{artwork.category}</Tag>
+                  {artwork.imageStatus === ArtworkImageStatus.PROCESSING && <Tag color="processing">Processing</Tag>}
+                  {artwork.imageStatus === ArtworkImageStatus.FAILED && <Tag color="error">Image failed</Tag>}
                   {artwork.tags && artwork.tags.slice(0, 2).map((tag, index) => (
                     <Tag key={index}>{tag}</Tag>
                   ))}
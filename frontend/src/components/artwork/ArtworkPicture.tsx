@@ -0,0 +1,86 @@
+'use client';
+
+import React from 'react';
+import { Artwork, ArtworkImageStatus, ArtworkRendition, RenditionFormat, RenditionKind } from '@/types/artwork.types';
+import { formatImageUrl } from '@/utils/format';
+
+// Sizes made for pages; textures are for the 3D viewer
+const DISPLAY_KINDS = [RenditionKind.THUMB, RenditionKind.CARD, RenditionKind.DETAIL];
+
+// Offered first, for browsers that can show them
+const MODERN_SOURCES = [
+  { format: RenditionFormat.AVIF, type: 'image/avif' },
+  { format: RenditionFormat.WEBP, type: 'image/webp' }
+];
+
+type ArtworkPictureProps = Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet' | 'sizes' | 'alt'> & {
+  artwork: Pick<Artwork, 'title' | 'thumbnailUrl' | 'fileUrl' | 'renditions'> & Partial<Pick<Artwork, 'imageStatus'>>;
+  // How wide the picture is drawn, as in the sizes attribute
+  sizes: string;
+};
+
+/**
+ * One srcset entry per width, smallest first
+ */
+const toSrcSet = (renditions: ArtworkRendition[]) => {
+  const byWidth = new Map(renditions.map(rendition => [rendition.width, rendition]));
+  return [...byWidth.values()]
+    .sort((a, b) => a.width - b.width)
+    .map(rendition => `${formatImageUrl(rendition.fileUrl)} ${rendition.width}w`)
+    .join(', ');
+};
+
+/**
+ * An artwork's image, letting the browser pick the rendition that fits how
+ * wide it is drawn, in AVIF or WebP where supported. Artworks without
+ * renditions show their thumbnail, and new ones still being processed a
+ * placeholder.
+ */
+const ArtworkPicture: React.FC<ArtworkPictureProps> = ({ artwork, sizes, loading = 'lazy', ...imgProps }) => {
+  if (!artwork.thumbnailUrl && artwork.imageStatus && artwork.imageStatus !== ArtworkImageStatus.READY) {
+    return (
+      <div
+        className={imgProps.className}
+        style={{
+          ...imgProps.style,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          background: '#f3f4f6',
+          color: '#6b7280',
+          fontSize: '0.875rem',
+          textAlign: 'center'
+        }}
+        role="img"
+        aria-label={artwork.title}
+      >
+        {artwork.imageStatus === ArtworkImageStatus.PROCESSING ? 'Processing image…' : 'Image could not be processed'}
+      </div>
+    );
+  }
+
+  const renditions = (artwork.renditions || []).filter(rendition => DISPLAY_KINDS.includes(rendition.kind));
+  const fallbacks = renditions.filter(
+    rendition => !MODERN_SOURCES.some(source => source.format === rendition.format)
+  );
+
+  return (
+    <picture>
+      {MODERN_SOURCES.map(source => {
+        const srcSet = toSrcSet(renditions.filter(rendition => rendition.format === source.format));
+        return srcSet ? <source key={source.format} type={source.type} srcSet={srcSet} sizes={sizes} /> : null;
+      })}
+      <img
+        {...imgProps}
+        src={formatImageUrl(artwork.thumbnailUrl || artwork.fileUrl)}
+        srcSet={fallbacks.length > 0 ? toSrcSet(fallbacks) : undefined}
+        sizes={fallbacks.length > 0 ? sizes : undefined}
+        alt={artwork.title}
+        loading={loading}
+        decoding="async"
+      />
+    </picture>
+  );
+};
+
+export default ArtworkPicture;
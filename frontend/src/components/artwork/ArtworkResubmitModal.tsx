@@ -0,0 +1,157 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Modal, Form, Input, Select, Upload, Button, Alert, message } from 'antd';
+import type { UploadFile } from 'antd';
+import { UploadOutlined } from '@ant-design/icons';
+import { resubmitArtwork } from '@/lib/api/index';
+import { Artwork, ArtworkResubmitData, ArtworkReview } from '@/types/artwork.types';
+import { REJECTION_REASON_LABELS } from '@/utils/format';
+import ArtworkDimensionsInput, { appendArtworkDimensions } from '@/components/artwork/ArtworkDimensionsInput';
+
+const { TextArea } = Input;
+
+interface ArtworkResubmitModalProps {
+  artwork: Artwork;
+  rejection?: ArtworkReview | null;
+  open: boolean;
+  onClose: () => void;
+  onResubmitted: (artwork: Artwork) => void;
+  categories?: string[];
+}
+
+/**
+ * Lets an artist revise a rejected artwork and send it back for another review round
+ */
+const ArtworkResubmitModal: React.FC<ArtworkResubmitModalProps> = ({
+  artwork,
+  rejection,
+  open,
+  onClose,
+  onResubmitted,
+  categories = ['Painting', 'Photography', 'Digital Art', 'Sculpture', 'Mixed Media', 'Other'],
+}) => {
+  const [form] = Form.useForm<ArtworkResubmitData>();
+  const [fileList, setFileList] = useState<UploadFile[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Start from the artwork as it was rejected
+  useEffect(() => {
+    if (open) {
+      form.setFieldsValue({
+        title: artwork.title,
+        description: artwork.description,
+        category: artwork.category,
+        tags: artwork.tags,
+        width: artwork.width ?? undefined,
+        height: artwork.height ?? undefined,
+        depth: artwork.depth ?? undefined,
+        note: ''
+      });
+      setFileList([]);
+    }
+  }, [open, artwork, form]);
+
+  const handleSubmit = async (values: ArtworkResubmitData) => {
+    setSubmitting(true);
+    try {
+      const formData = new FormData();
+
+      if (values.title) formData.append('title', values.title);
+      if (values.description) formData.append('description', values.description);
+      if (values.category) formData.append('category', values.category);
+      if (values.tags) formData.append('tags', JSON.stringify(values.tags));
+      if (values.note) formData.append('note', values.note);
+      appendArtworkDimensions(formData, values);
+      if (fileList[0]?.originFileObj) formData.append('image', fileList[0].originFileObj);
+
+      const updatedArtwork = await resubmitArtwork(artwork.id, formData);
+      message.success('Artwork resubmitted for review');
+      onResubmitted(updatedArtwork);
+      onClose();
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to resubmit artwork');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="Revise and Resubmit"
+      open={open}
+      onCancel={onClose}
+      onOk={() => form.submit()}
+      okText="Resubmit for Review"
+      confirmLoading={submitting}
+      width={640}
+    >
+      {rejection?.reasonCategory && (
+        <Alert
+          className="mb-4"
+          type="warning"
+          showIcon
+          message={`Rejected: ${REJECTION_REASON_LABELS[rejection.reasonCategory]}`}
+          description={rejection.reason || undefined}
+        />
+      )}
+
+      <Form form={form} layout="vertical" requiredMark={false} onFinish={handleSubmit}>
+        <Form.Item
+          name="title"
+          label="Title"
+          rules={[
+            { required: true, message: 'Please enter a title' },
+            { max: 100, message: 'Title must be under 100 characters' }
+          ]}
+        >
+          <Input />
+        </Form.Item>
+
+        <Form.Item
+          name="description"
+          label="Description"
+          rules={[{ required: true, message: 'Please enter a description' }]}
+        >
+          <TextArea rows={4} />
+        </Form.Item>
+
+        <Form.Item
+          name="category"
+          label="Category"
+          rules={[{ required: true, message: 'Please select a category' }]}
+        >
+          <Select options={categories.map(category => ({ value: category, label: category }))} />
+        </Form.Item>
+
+        <Form.Item name="tags" label="Tags">
+          <Select mode="tags" placeholder="Add tags" />
+        </Form.Item>
+
+        <ArtworkDimensionsInput />
+
+        <Form.Item label="Replace image (optional)">
+          <Upload
+            accept="image/jpeg,image/png,image/tiff"
+            fileList={fileList}
+            beforeUpload={() => false}
+            onChange={({ fileList: newFileList }) => setFileList(newFileList.slice(-1))}
+            maxCount={1}
+          >
+            <Button icon={<UploadOutlined />}>Select new image</Button>
+          </Upload>
+        </Form.Item>
+
+        <Form.Item
+          name="note"
+          label="Note for curators"
+          rules={[{ max: 2000, message: 'Note must be under 2000 characters' }]}
+        >
+          <TextArea rows={3} placeholder="Describe what you changed since the last review..." />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
+
+export default ArtworkResubmitModal;
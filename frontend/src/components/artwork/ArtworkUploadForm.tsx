@@ -1,14 +1,19 @@
 import React, { useState } from 'react';
-import { Form, Input, Button, Upload, Select, DatePicker, Alert, Image } from 'antd';
-import { InboxOutlined } from '@ant-design/icons';
+import { Form, Input, Button, Upload, Select, DatePicker, Alert, Image, Progress, Space } from 'antd';
+import { InboxOutlined, PauseOutlined, CaretRightOutlined } from '@ant-design/icons';
 import moment from 'moment';
 import { useAuthContext } from '@/contexts/AuthContext';
 import { ArtworkCreateData } from '@/types/artwork.types';
+import ArtworkDimensionsInput, { appendArtworkDimensions } from '@/components/artwork/ArtworkDimensionsInput';
+import useResumableUpload from '@/hooks/useResumableUpload';
 
 const { TextArea } = Input;
 const { Dragger } = Upload;
 const { Option } = Select;
 
+// Matches UPLOAD_MAX_BYTES on the backend
+const MAX_IMAGE_MB = 500;
+
 interface ArtworkUploadFormProps {
   onSubmit: (formData: FormData) => Promise<void>;
   categories?: string[];
@@ -26,6 +31,8 @@ const ArtworkUploadForm: React.FC<ArtworkUploadFormProps> = ({
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const imageUpload = useResumableUpload();
+  const isUploading = ['uploading', 'paused', 'completing'].includes(imageUpload.status);
 
   // Validate file
   const beforeUpload = (file: File) => {
@@ -39,9 +46,9 @@ const ArtworkUploadForm: React.FC<ArtworkUploadFormProps> = ({
       return Upload.LIST_IGNORE;
     }
     
-    const isLt10M = file.size / 1024 / 1024 < 10;
-    if (!isLt10M) {
-      setUploadError('Image must be smaller than 10MB!');
+    const isSmallEnough = file.size / 1024 / 1024 < MAX_IMAGE_MB;
+    if (!isSmallEnough) {
+      setUploadError(`Image must be smaller than ${MAX_IMAGE_MB}MB!`);
       return Upload.LIST_IGNORE;
     }
     
@@ -93,8 +100,11 @@ const ArtworkUploadForm: React.FC<ArtworkUploadFormProps> = ({
         formData.append('creationDate', values.creationDate);
       }
       
-      // Append file
-      formData.append('image', fileList[0].originFileObj);
+      appendArtworkDimensions(formData, values);
+      
+      // Upload the image in chunks first, then point the artwork at it
+      const uploadId = await imageUpload.upload(fileList[0].originFileObj);
+      formData.append('uploadId', uploadId);
       
       // Submit form
       await onSubmit(formData);
@@ -103,11 +113,13 @@ const ArtworkUploadForm: React.FC<ArtworkUploadFormProps> = ({
       form.resetFields();
       setFileList([]);
       setPreviewImage(null);
+      imageUpload.reset();
       
       // Show success message
       setSuccessMessage('Artwork uploaded successfully!');
     } catch (error) {
       console.error('Upload error:', error);
+      setUploadError(error instanceof Error ? error.message : 'Upload failed');
     }
   };
 
@@ -180,6 +192,8 @@ const ArtworkUploadForm: React.FC<ArtworkUploadFormProps> = ({
         <DatePicker style={{ width: '100%' }} />
       </Form.Item>
 
+      <ArtworkDimensionsInput />
+
       <Form.Item
         label="Artwork Image"
         required
@@ -193,6 +207,7 @@ const ArtworkUploadForm: React.FC<ArtworkUploadFormProps> = ({
           accept=".jpg,.jpeg,.png,.tiff"
           multiple={false}
           showUploadList={false}
+          disabled={isUploading}
           customRequest={({ onSuccess }) => {
             setTimeout(() => {
               onSuccess?.({}, new XMLHttpRequest());
@@ -217,11 +232,38 @@ const ArtworkUploadForm: React.FC<ArtworkUploadFormProps> = ({
                 Click or drag file to this area to upload
               </p>
               <p className="ant-upload-hint">
-                Support for JPG, PNG, and TIFF. Max file size: 10MB.
+                Support for JPG, PNG, and TIFF. Max file size: {MAX_IMAGE_MB}MB.
               </p>
             </div>
           )}
         </Dragger>
+
+        {imageUpload.status !== 'idle' && imageUpload.totalBytes > 0 && (
+          <div className="mt-4">
+            <Progress
+              percent={Math.floor((imageUpload.uploadedBytes / imageUpload.totalBytes) * 100)}
+              status={
+                imageUpload.status === 'error' ? 'exception'
+                  : imageUpload.status === 'complete' ? 'success'
+                  : imageUpload.status === 'paused' ? 'normal'
+                  : 'active'
+              }
+            />
+            <Space>
+              {imageUpload.status === 'uploading' && (
+                <Button size="small" icon={<PauseOutlined />} onClick={imageUpload.pause}>
+                  Pause
+                </Button>
+              )}
+              {imageUpload.status === 'paused' && (
+                <Button size="small" icon={<CaretRightOutlined />} onClick={imageUpload.resume}>
+                  Resume
+                </Button>
+              )}
+              {imageUpload.status === 'completing' && <span>Checking image...</span>}
+            </Space>
+          </div>
+        )}
       </Form.Item>
 
       {/* Show informational note about approval process */}
@@ -239,7 +281,7 @@ const ArtworkUploadForm: React.FC<ArtworkUploadFormProps> = ({
           htmlType="submit"
           size="large"
           block
-          loading={loading}
+          loading={loading || isUploading}
           disabled={!user || user.role !== 'artist'}
         >
           Upload Artwork
@@ -0,0 +1,418 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Card,
+  Button,
+  Tag,
+  Spin,
+  Alert,
+  Input,
+  Avatar,
+  Popconfirm,
+  Modal,
+  Timeline,
+  message
+} from 'antd';
+import {
+  UserOutlined,
+  CommentOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  EyeInvisibleOutlined,
+  EyeOutlined,
+  PushpinOutlined,
+  LockOutlined,
+  UnlockOutlined,
+  HistoryOutlined
+} from '@ant-design/icons';
+import { useAuthContext } from '@/contexts/AuthContext';
+import {
+  getComments,
+  createComment,
+  updateComment,
+  deleteComment,
+  getCommentHistory,
+  moderateComment
+} from '@/lib/api/index';
+import { Comment, CommentModerationData, CommentVersion } from '@/types/artwork.types';
+import { UserRole } from '@/types/user.types';
+import { formatDate } from '@/utils/format';
+
+const { TextArea } = Input;
+
+const PAGE_SIZE = 20;
+
+interface CommentSectionProps {
+  artworkId: string;
+}
+
+/**
+ * Threaded comments for an artwork, with editing, deletion and moderation
+ */
+const CommentSection: React.FC<CommentSectionProps> = ({ artworkId }) => {
+  const router = useRouter();
+  const { user } = useAuthContext();
+
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [commentText, setCommentText] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [history, setHistory] = useState<CommentVersion[] | null>(null);
+
+  const isModerator = user?.role === UserRole.CURATOR || user?.role === UserRole.ADMIN;
+
+  const fetchComments = useCallback(async (pageToLoad: number) => {
+    setLoading(true);
+    try {
+      const { comments: fetchedComments, pagination } = await getComments(artworkId, {
+        page: pageToLoad,
+        limit: PAGE_SIZE
+      });
+
+      setComments(prev => pageToLoad === 1 ? fetchedComments : [...prev, ...fetchedComments]);
+      setPage(pageToLoad);
+      setHasMore(pageToLoad < pagination.pages);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load comments');
+    } finally {
+      setLoading(false);
+    }
+  }, [artworkId]);
+
+  useEffect(() => {
+    fetchComments(1);
+  }, [fetchComments]);
+
+  const handleCommentSubmit = async () => {
+    if (!commentText.trim()) return;
+
+    setSubmitting(true);
+    try {
+      await createComment(artworkId, commentText.trim());
+      setCommentText('');
+      message.success('Comment added');
+      await fetchComments(1);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to add comment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReplySubmit = async (parentId: string) => {
+    if (!replyText.trim()) return;
+
+    setSubmitting(true);
+    try {
+      await createComment(artworkId, replyText.trim(), parentId);
+      setReplyingTo(null);
+      setReplyText('');
+      message.success('Reply added');
+      await fetchComments(1);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to add reply');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleEditSubmit = async (commentId: string) => {
+    if (!editText.trim()) return;
+
+    setSubmitting(true);
+    try {
+      await updateComment(artworkId, commentId, editText.trim());
+      setEditingId(null);
+      setEditText('');
+      await fetchComments(1);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to update comment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    try {
+      await deleteComment(artworkId, commentId);
+      message.success('Comment deleted');
+      await fetchComments(1);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to delete comment');
+    }
+  };
+
+  const handleModerate = async (commentId: string, data: CommentModerationData) => {
+    try {
+      await moderateComment(artworkId, commentId, data);
+      await fetchComments(1);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to moderate comment');
+    }
+  };
+
+  const handleShowHistory = async (commentId: string) => {
+    try {
+      setHistory(await getCommentHistory(artworkId, commentId));
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to load edit history');
+    }
+  };
+
+  const renderComment = (comment: Comment, threadLocked: boolean): React.ReactNode => {
+    const isAuthor = !!user && comment.userId === user.id;
+    const isRoot = comment.parentId === null;
+    const locked = isRoot ? comment.isLocked : threadLocked;
+    const canReply = !!user && !comment.isDeleted && (!locked || isModerator);
+
+    return (
+      <div key={comment.id} className={isRoot ? 'py-4 border-b border-gray-100' : 'mt-4'}>
+        <div className="flex gap-3">
+          <Avatar icon={<UserOutlined />} src={comment.user?.profileUrl} />
+          <div className="flex-1">
+            <div className="flex justify-between">
+              <span>
+                <span className="font-medium">
+                  {comment.isDeleted ? 'Deleted comment' : comment.user?.username || 'Anonymous'}
+                </span>
+                {comment.isPinned && <Tag color="blue" className="ml-2" icon={<PushpinOutlined />}>Pinned</Tag>}
+                {comment.isLocked && <Tag color="orange" className="ml-2" icon={<LockOutlined />}>Locked</Tag>}
+                {comment.isHidden && <Tag color="red" className="ml-2" icon={<EyeInvisibleOutlined />}>Hidden</Tag>}
+              </span>
+              <span className="text-gray-500 text-sm">
+                {formatDate(comment.timestamp)}
+              </span>
+            </div>
+
+            {editingId === comment.id ? (
+              <div className="mt-2">
+                <TextArea
+                  rows={2}
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  disabled={submitting}
+                />
+                <div className="mt-2 space-x-2">
+                  <Button
+                    size="small"
+                    type="primary"
+                    loading={submitting}
+                    disabled={!editText.trim()}
+                    onClick={() => handleEditSubmit(comment.id)}
+                  >
+                    Save
+                  </Button>
+                  <Button size="small" onClick={() => setEditingId(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className={comment.isDeleted ? 'mt-1 text-gray-400 italic' : 'mt-1 whitespace-pre-wrap'}>
+                {comment.isDeleted ? 'This comment has been deleted.' : comment.content}
+              </div>
+            )}
+
+            {!comment.isDeleted && editingId !== comment.id && (
+              <div className="mt-1 flex flex-wrap items-center">
+                {canReply && (
+                  <Button type="link" size="small" icon={<CommentOutlined />} onClick={() => {
+                    setReplyingTo(comment.id);
+                    setReplyText('');
+                  }}>
+                    Reply
+                  </Button>
+                )}
+                {isAuthor && (!locked || isModerator) && (
+                  <Button type="link" size="small" icon={<EditOutlined />} onClick={() => {
+                    setEditingId(comment.id);
+                    setEditText(comment.content);
+                  }}>
+                    Edit
+                  </Button>
+                )}
+                {(isAuthor || isModerator) && (
+                  <Popconfirm
+                    title="Delete this comment?"
+                    onConfirm={() => handleDelete(comment.id)}
+                    okText="Delete"
+                    cancelText="Cancel"
+                    okButtonProps={{ danger: true }}
+                  >
+                    <Button type="link" size="small" danger icon={<DeleteOutlined />}>
+                      Delete
+                    </Button>
+                  </Popconfirm>
+                )}
+                {comment.isEdited && (
+                  <Button type="link" size="small" icon={<HistoryOutlined />} onClick={() => handleShowHistory(comment.id)}>
+                    Edited
+                  </Button>
+                )}
+                {isModerator && (
+                  <Button
+                    type="link"
+                    size="small"
+                    icon={comment.isHidden ? <EyeOutlined /> : <EyeInvisibleOutlined />}
+                    onClick={() => handleModerate(comment.id, { isHidden: !comment.isHidden })}
+                  >
+                    {comment.isHidden ? 'Unhide' : 'Hide'}
+                  </Button>
+                )}
+                {isModerator && isRoot && (
+                  <>
+                    <Button
+                      type="link"
+                      size="small"
+                      icon={<PushpinOutlined />}
+                      onClick={() => handleModerate(comment.id, { isPinned: !comment.isPinned })}
+                    >
+                      {comment.isPinned ? 'Unpin' : 'Pin'}
+                    </Button>
+                    <Button
+                      type="link"
+                      size="small"
+                      icon={comment.isLocked ? <UnlockOutlined /> : <LockOutlined />}
+                      onClick={() => handleModerate(comment.id, { isLocked: !comment.isLocked })}
+                    >
+                      {comment.isLocked ? 'Unlock' : 'Lock'}
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+
+            {replyingTo === comment.id && (
+              <div className="mt-2">
+                <TextArea
+                  rows={2}
+                  value={replyText}
+                  onChange={(e) => setReplyText(e.target.value)}
+                  placeholder={`Reply to ${comment.user?.username || 'this comment'}...`}
+                  disabled={submitting}
+                />
+                <div className="mt-2 space-x-2">
+                  <Button
+                    size="small"
+                    type="primary"
+                    loading={submitting}
+                    disabled={!replyText.trim()}
+                    onClick={() => handleReplySubmit(comment.id)}
+                  >
+                    Reply
+                  </Button>
+                  <Button size="small" onClick={() => setReplyingTo(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {comment.replies.length > 0 && (
+              <div className="pl-4 border-l border-gray-200">
+                {comment.replies.map(reply => renderComment(reply, locked))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card title="Comments" className="mb-6">
+      {error && (
+        <Alert className="mb-4" message={error} type="error" showIcon />
+      )}
+
+      {loading && comments.length === 0 ? (
+        <div className="flex justify-center py-4">
+          <Spin />
+        </div>
+      ) : comments.length > 0 ? (
+        <>
+          {comments.map(comment => renderComment(comment, comment.isLocked))}
+          {hasMore && (
+            <div className="text-center mt-4">
+              <Button loading={loading} onClick={() => fetchComments(page + 1)}>
+                Load more comments
+              </Button>
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="text-center py-4 text-gray-500">
+          No comments yet. Be the first to comment!
+        </div>
+      )}
+
+      {user ? (
+        <div className="mt-4">
+          <TextArea
+            rows={3}
+            value={commentText}
+            onChange={(e) => setCommentText(e.target.value)}
+            placeholder="Add a comment..."
+            maxLength={2000}
+            disabled={submitting}
+          />
+          <Button
+            type="primary"
+            onClick={handleCommentSubmit}
+            loading={submitting}
+            disabled={!commentText.trim()}
+            className="mt-2"
+            icon={<CommentOutlined />}
+          >
+            Add Comment
+          </Button>
+        </div>
+      ) : (
+        <div className="mt-4 text-center">
+          <Alert
+            message="Please log in to comment"
+            type="info"
+            showIcon
+            action={
+              <Button size="small" onClick={() => router.push('/login')}>
+                Log In
+              </Button>
+            }
+          />
+        </div>
+      )}
+
+      <Modal
+        title="Edit history"
+        open={history !== null}
+        onCancel={() => setHistory(null)}
+        footer={null}
+      >
+        <Timeline
+          items={(history || []).map((version, index) => ({
+            color: index === (history || []).length - 1 ? 'blue' : 'gray',
+            children: (
+              <div>
+                <div className="text-gray-500 text-sm">{formatDate(version.createdAt)}</div>
+                <div className="whitespace-pre-wrap">{version.content}</div>
+              </div>
+            )
+          }))}
+        />
+      </Modal>
+    </Card>
+  );
+};
+
+export default CommentSection;
@@ -0,0 +1,270 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef } from 'react';
+import { Button, Space } from 'antd';
+import { ZoomInOutlined, ZoomOutOutlined, ExpandOutlined } from '@ant-design/icons';
+import { DeepZoomImage } from '@/types/artwork.types';
+import { formatImageUrl } from '@/utils/format';
+
+// Closest zoom, in screen pixels per image pixel
+const MAX_SCALE = 4;
+const ZOOM_STEP = 1.5;
+// Tiles kept in memory; the ones loaded longest ago are dropped first
+const MAX_CACHED_TILES = 400;
+
+interface DeepZoomViewerProps {
+  image: DeepZoomImage;
+  title: string;
+  height?: number;
+}
+
+// Where the image sits on the canvas: its top-left corner, in CSS pixels,
+// and how many screen pixels one image pixel covers
+interface View {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+/**
+ * Pan and zoom around a tiled artwork image, loading only the tiles in view
+ * at the detail the screen can show
+ */
+const DeepZoomViewer: React.FC<DeepZoomViewerProps> = ({ image, title, height = 600 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewRef = useRef<View>({ x: 0, y: 0, scale: 1 });
+  // Until the visitor pans or zooms, the image follows the canvas size
+  const fittedRef = useRef(true);
+  const tilesRef = useRef(new Map<string, HTMLImageElement>());
+  const frameRef = useRef<number | null>(null);
+  // Where the pointer was at the last move of a drag
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  const maxLevel = image.levels - 1;
+
+  const fitScale = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return 1;
+    return Math.min(canvas.clientWidth / image.width, canvas.clientHeight / image.height, MAX_SCALE);
+  }, [image]);
+
+  // Keep the image from drifting out of view, centring it along any side it does not fill
+  const clampView = useCallback((view: View): View => {
+    const canvas = canvasRef.current;
+    if (!canvas) return view;
+
+    const scale = Math.min(Math.max(view.scale, fitScale()), MAX_SCALE);
+    const clampAxis = (offset: number, imageSize: number, canvasSize: number) => {
+      const drawn = imageSize * scale;
+      if (drawn <= canvasSize) return (canvasSize - drawn) / 2;
+      return Math.min(0, Math.max(canvasSize - drawn, offset));
+    };
+
+    return {
+      scale,
+      x: clampAxis(view.x, image.width, canvas.clientWidth),
+      y: clampAxis(view.y, image.height, canvas.clientHeight)
+    };
+  }, [image, fitScale]);
+
+  const draw = useCallback(() => {
+    frameRef.current = null;
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const view = viewRef.current;
+    context.setTransform(dpr, 0, 0, dpr, 0, 0);
+    context.clearRect(0, 0, canvas.clientWidth, canvas.clientHeight);
+
+    // The level whose pixels are no bigger than the screen's
+    const wanted = Math.min(maxLevel, Math.max(0, maxLevel + Math.ceil(Math.log2(view.scale * dpr))));
+    // The level that fits in one tile, loaded first so there is always something to show
+    const base = Math.min(
+      wanted,
+      Math.max(0, maxLevel - Math.ceil(Math.log2(Math.max(image.width, image.height) / image.tileSize)))
+    );
+
+    // Coarser levels first; finer tiles are drawn over them as they arrive
+    for (let level = base; level <= wanted; level++) {
+      const load = level === base || level === wanted;
+      // Image pixels per pixel of this level
+      const factor = 2 ** (maxLevel - level);
+      const levelWidth = Math.ceil(image.width / factor);
+      const levelHeight = Math.ceil(image.height / factor);
+      const tileSpan = image.tileSize * factor * view.scale;
+
+      const firstColumn = Math.max(0, Math.floor(-view.x / tileSpan));
+      const lastColumn = Math.min(
+        Math.ceil(levelWidth / image.tileSize) - 1,
+        Math.floor((canvas.clientWidth - view.x) / tileSpan)
+      );
+      const firstRow = Math.max(0, Math.floor(-view.y / tileSpan));
+      const lastRow = Math.min(
+        Math.ceil(levelHeight / image.tileSize) - 1,
+        Math.floor((canvas.clientHeight - view.y) / tileSpan)
+      );
+
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        for (let row = firstRow; row <= lastRow; row++) {
+          const url = formatImageUrl(`${image.tilesUrl}/${level}/${column}_${row}.${image.format}`);
+          let tile = tilesRef.current.get(url);
+
+          if (!tile) {
+            if (!load) continue;
+
+            tile = new window.Image();
+            tile.onload = () => {
+              if (frameRef.current === null) frameRef.current = requestAnimationFrame(draw);
+            };
+            tile.src = url;
+            tilesRef.current.set(url, tile);
+
+            if (tilesRef.current.size > MAX_CACHED_TILES) {
+              const oldest = tilesRef.current.keys().next().value;
+              if (oldest) tilesRef.current.delete(oldest);
+            }
+          }
+          if (!tile.complete || tile.naturalWidth === 0) continue;
+
+          // Tiles after the first in a row or column start overlap pixels early
+          const left = column * image.tileSize - (column > 0 ? image.overlap : 0);
+          const top = row * image.tileSize - (row > 0 ? image.overlap : 0);
+          context.drawImage(
+            tile,
+            view.x + left * factor * view.scale,
+            view.y + top * factor * view.scale,
+            tile.naturalWidth * factor * view.scale,
+            tile.naturalHeight * factor * view.scale
+          );
+        }
+      }
+    }
+  }, [image, maxLevel]);
+
+  const redraw = useCallback(() => {
+    if (frameRef.current === null) frameRef.current = requestAnimationFrame(draw);
+  }, [draw]);
+
+  const setView = useCallback((view: View) => {
+    viewRef.current = clampView(view);
+    redraw();
+  }, [clampView, redraw]);
+
+  // Zoom keeping the image point under (x, y) where it is
+  const zoomAt = useCallback((factor: number, x: number, y: number) => {
+    const view = viewRef.current;
+    const scale = Math.min(Math.max(view.scale * factor, fitScale()), MAX_SCALE);
+    fittedRef.current = false;
+    setView({
+      scale,
+      x: x - ((x - view.x) * scale) / view.scale,
+      y: y - ((y - view.y) * scale) / view.scale
+    });
+  }, [fitScale, setView]);
+
+  const zoomAtCentre = (factor: number) => {
+    const canvas = canvasRef.current;
+    if (canvas) zoomAt(factor, canvas.clientWidth / 2, canvas.clientHeight / 2);
+  };
+
+  const reset = useCallback(() => {
+    fittedRef.current = true;
+    setView({ x: 0, y: 0, scale: fitScale() });
+  }, [fitScale, setView]);
+
+  // Size the canvas backing store to the screen, and show the whole image when it opens
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    tilesRef.current.clear();
+
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.round(canvas.clientWidth * dpr);
+      canvas.height = Math.round(canvas.clientHeight * dpr);
+      if (fittedRef.current) {
+        reset();
+      } else {
+        setView(viewRef.current);
+      }
+    };
+
+    fittedRef.current = true;
+    resize();
+
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+
+    return () => {
+      observer.disconnect();
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [reset, setView]);
+
+  // React's wheel listener is passive and cannot stop the page scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const bounds = canvas.getBoundingClientRect();
+      zoomAt(Math.exp(-event.deltaY / 300), event.clientX - bounds.left, event.clientY - bounds.top);
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, y: event.clientY };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const view = viewRef.current;
+    fittedRef.current = false;
+    setView({ ...view, x: view.x + event.clientX - drag.x, y: view.y + event.clientY - drag.y });
+    dragRef.current = { x: event.clientX, y: event.clientY };
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    dragRef.current = null;
+  };
+
+  return (
+    <div style={{ position: 'relative', width: '100%', height }}>
+      <canvas
+        ref={canvasRef}
+        role="img"
+        aria-label={title}
+        style={{ width: '100%', height: '100%', cursor: 'grab', touchAction: 'none', display: 'block' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={event => {
+          const bounds = event.currentTarget.getBoundingClientRect();
+          zoomAt(ZOOM_STEP * ZOOM_STEP, event.clientX - bounds.left, event.clientY - bounds.top);
+        }}
+      />
+      <Space style={{ position: 'absolute', right: 12, bottom: 12 }}>
+        <Button icon={<ZoomInOutlined />} title="Zoom in" onClick={() => zoomAtCentre(ZOOM_STEP)} />
+        <Button icon={<ZoomOutOutlined />} title="Zoom out" onClick={() => zoomAtCentre(1 / ZOOM_STEP)} />
+        <Button icon={<ExpandOutlined />} title="Show the whole artwork" onClick={reset} />
+      </Space>
+    </div>
+  );
+};
+
+export default DeepZoomViewer;
@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Modal, Spin, Alert, Descriptions, Table, Tag, Image, Empty } from 'antd';
+import { getReviewComparison } from '@/lib/api/index';
+import { ArtworkSnapshot, ReviewComparison, ReviewDecision } from '@/types/artwork.types';
+import { formatDate, formatImageUrl, REJECTION_REASON_LABELS } from '@/utils/format';
+
+interface ReviewComparisonModalProps {
+  artworkId: string | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<keyof ArtworkSnapshot, string> = {
+  title: 'Title',
+  description: 'Description',
+  category: 'Category',
+  tags: 'Tags',
+  fileUrl: 'Image',
+  thumbnailUrl: 'Thumbnail'
+};
+
+const DECISION_COLORS: Record<ReviewDecision, string> = {
+  [ReviewDecision.PENDING]: 'orange',
+  [ReviewDecision.APPROVED]: 'green',
+  [ReviewDecision.REJECTED]: 'red'
+};
+
+/**
+ * Side-by-side view of an artwork's latest review round and the one before it,
+ * so curators can check what the artist changed when resubmitting
+ */
+const ReviewComparisonModal: React.FC<ReviewComparisonModalProps> = ({ artworkId, open, onClose }) => {
+  const [comparison, setComparison] = useState<ReviewComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !artworkId) return;
+
+    const fetchComparison = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setComparison(await getReviewComparison(artworkId));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load review rounds');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchComparison();
+  }, [artworkId, open]);
+
+  const renderValue = (field: keyof ArtworkSnapshot, value: string | string[]) => {
+    if (field === 'fileUrl' || field === 'thumbnailUrl') {
+      return <Image src={formatImageUrl(value as string)} alt={FIELD_LABELS[field]} width={120} />;
+    }
+
+    if (Array.isArray(value)) {
+      return value.length > 0 ? value.map(tag => <Tag key={tag}>{tag}</Tag>) : <span className="text-gray-500">None</span>;
+    }
+
+    return <span className="whitespace-pre-line">{value}</span>;
+  };
+
+  const { current, previous, changes = [] } = comparison || {};
+
+  return (
+    <Modal
+      title="Compare Review Rounds"
+      open={open}
+      onCancel={onClose}
+      footer={null}
+      width={800}
+    >
+      {loading ? (
+        <div className="flex justify-center py-10">
+          <Spin />
+        </div>
+      ) : error ? (
+        <Alert message={error} type="error" showIcon />
+      ) : !current || !previous ? (
+        <Empty description="This is the first submission, so there is nothing to compare yet." />
+      ) : (
+        <>
+          <Descriptions bordered size="small" column={2} className="mb-4">
+            <Descriptions.Item label={`Round ${previous.round}`}>
+              <Tag color={DECISION_COLORS[previous.decision]}>{previous.decision}</Tag>
+              {previous.reviewer && <span>by {previous.reviewer.username}</span>}
+              {previous.reviewedAt && <div className="text-gray-500">{formatDate(previous.reviewedAt)}</div>}
+            </Descriptions.Item>
+            <Descriptions.Item label={`Round ${current.round}`}>
+              <Tag color={DECISION_COLORS[current.decision]}>{current.decision}</Tag>
+              <div className="text-gray-500">Submitted {formatDate(current.submittedAt)}</div>
+            </Descriptions.Item>
+            {previous.reasonCategory && (
+              <Descriptions.Item label="Previous rejection" span={2}>
+                <strong>{REJECTION_REASON_LABELS[previous.reasonCategory]}</strong>
+                {previous.reason && <div className="whitespace-pre-line">{previous.reason}</div>}
+              </Descriptions.Item>
+            )}
+            {current.submissionNote && (
+              <Descriptions.Item label="Artist's note" span={2}>
+                <span className="whitespace-pre-line">{current.submissionNote}</span>
+              </Descriptions.Item>
+            )}
+          </Descriptions>
+
+          {changes.length > 0 ? (
+            <Table
+              rowKey="field"
+              size="small"
+              pagination={false}
+              dataSource={changes}
+              columns={[
+                {
+                  title: 'Field',
+                  dataIndex: 'field',
+                  key: 'field',
+                  render: (field: keyof ArtworkSnapshot) => FIELD_LABELS[field]
+                },
+                {
+                  title: `Round ${previous.round}`,
+                  key: 'before',
+                  render: (_, change) => renderValue(change.field, change.before)
+                },
+                {
+                  title: `Round ${current.round}`,
+                  key: 'after',
+                  render: (_, change) => renderValue(change.field, change.after)
+                }
+              ]}
+            />
+          ) : (
+            <Alert message="The artist resubmitted without changing any details." type="warning" showIcon />
+          )}
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default ReviewComparisonModal;
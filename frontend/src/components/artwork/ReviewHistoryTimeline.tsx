@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Timeline, Spin, Alert, Empty, Tag } from 'antd';
+import {
+  CheckCircleOutlined,
+  CloseCircleOutlined,
+  ClockCircleOutlined,
+  UploadOutlined
+} from '@ant-design/icons';
+import { getArtworkReviews } from '@/lib/api/index';
+import { ArtworkReview, ReviewDecision } from '@/types/artwork.types';
+import { formatDate, REJECTION_REASON_LABELS } from '@/utils/format';
+
+interface ReviewHistoryTimelineProps {
+  artworkId: string;
+}
+
+const DATE_TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+};
+
+/**
+ * Every submission of an artwork and the curator decision on it, oldest first
+ */
+const ReviewHistoryTimeline: React.FC<ReviewHistoryTimelineProps> = ({ artworkId }) => {
+  const [reviews, setReviews] = useState<ArtworkReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchReviews = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setReviews(await getArtworkReviews(artworkId));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load review history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReviews();
+  }, [artworkId]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Spin />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <Alert message={error} type="error" showIcon />;
+  }
+
+  if (reviews.length === 0) {
+    return <Empty description="No review history recorded" />;
+  }
+
+  // The API returns newest first; read the story from the first submission
+  const items = [...reviews].reverse().flatMap(review => {
+    const submission = {
+      color: 'blue',
+      dot: <UploadOutlined />,
+      children: (
+        <div>
+          <strong>{review.round === 1 ? 'Submitted' : `Resubmitted (round ${review.round})`}</strong>
+          <div className="text-gray-500 text-sm">{formatDate(review.submittedAt, DATE_TIME_FORMAT)}</div>
+          {review.submissionNote && (
+            <div className="whitespace-pre-line mt-1">&ldquo;{review.submissionNote}&rdquo;</div>
+          )}
+        </div>
+      )
+    };
+
+    if (review.decision === ReviewDecision.PENDING) {
+      return [submission, {
+        color: 'orange',
+        dot: <ClockCircleOutlined />,
+        children: <span className="text-gray-500">Awaiting review</span>
+      }];
+    }
+
+    const approved = review.decision === ReviewDecision.APPROVED;
+
+    return [submission, {
+      color: approved ? 'green' : 'red',
+      dot: approved ? <CheckCircleOutlined /> : <CloseCircleOutlined />,
+      children: (
+        <div>
+          <strong>{approved ? 'Approved' : 'Rejected'}</strong>
+          {' by '}
+          {review.reviewer?.username || 'a former curator'}
+          <Tag className="ml-2">Revision {review.artworkRevision}</Tag>
+          <div className="text-gray-500 text-sm">{formatDate(review.reviewedAt || undefined, DATE_TIME_FORMAT)}</div>
+          {review.reasonCategory && (
+            <div className="mt-1">
+              <strong>{REJECTION_REASON_LABELS[review.reasonCategory]}</strong>
+              {review.reason && <div className="whitespace-pre-line">{review.reason}</div>}
+            </div>
+          )}
+        </div>
+      )
+    }];
+  });
+
+  return <Timeline items={items} />;
+};
+
+export default ReviewHistoryTimeline;
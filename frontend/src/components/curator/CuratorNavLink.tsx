@@ -6,7 +6,8 @@ import {
   PictureOutlined, 
   UserOutlined, 
   LayoutOutlined,
-  AppstoreOutlined
+  AppstoreOutlined,
+  CompassOutlined
 } from '@ant-design/icons';
 import { usePathname } from 'next/navigation';
 
@@ -23,6 +24,8 @@ const CuratorNavLinks: React.FC = () => {
     if (pathname?.includes('/curator/manage/user')) return 'manage-users';
     if (pathname?.includes('/curator/manage/artwork')) return 'manage-artworks';
     if (pathname?.includes('/curator/layout')) return 'layout-editor';
+    if (pathname?.includes('/curator/tours')) return 'tours';
+    if (pathname?.includes('/curator/approvals')) return 'approvals';
     if (pathname?.includes('/dashboard/curator')) return 'dashboard';
     return '';
   };
@@ -48,6 +51,11 @@ const CuratorNavLinks: React.FC = () => {
       icon: <LayoutOutlined />,
       label: <Link href="/curator/layout">Layout Editor</Link>
     },
+    {
+      key: 'tours',
+      icon: <CompassOutlined />,
+      label: <Link href="/curator/tours">Guided Tours</Link>
+    },
     {
       key: 'approvals',
       icon: <AppstoreOutlined />,
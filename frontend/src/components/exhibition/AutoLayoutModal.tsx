@@ -0,0 +1,259 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Modal, Select, Radio, Button, Alert, InputNumber, List, Space, Typography, message } from 'antd';
+import { DeleteOutlined, ThunderboltOutlined } from '@ant-design/icons';
+import { previewAutoLayout, updateWallLayout, getPlacementIssues } from '@/lib/api/exhibition';
+import {
+  AutoLayoutGrouping,
+  AutoLayoutPreview,
+  AutoLayoutStrategy,
+  PlacementIssue,
+  ProposedPlacement,
+  Wall
+} from '@/types/exhibition.types';
+import { Artwork } from '@/types/artwork.types';
+import { formatDimensions } from '@/utils/format';
+import WallPreview from '@/components/exhibition/WallPreview';
+
+const { Text } = Typography;
+
+interface AutoLayoutModalProps {
+  wall: Wall;
+  // Artworks the curator may hang here: the wall's own and those not on any wall
+  artworks: Artwork[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const STRATEGY_LABELS: Record<AutoLayoutStrategy, string> = {
+  [AutoLayoutStrategy.EYE_LINE]: 'Eye line',
+  [AutoLayoutStrategy.SALON]: 'Salon grid',
+  [AutoLayoutStrategy.GROUPED]: 'Grouped'
+};
+
+/**
+ * Ask the server to propose a layout for a wall, adjust it, and save it.
+ * Mount it only while open so each visit starts from the wall's current artworks.
+ */
+const AutoLayoutModal: React.FC<AutoLayoutModalProps> = ({ wall, artworks, onClose, onSaved }) => {
+  const [artworkIds, setArtworkIds] = useState<string[]>(() => wall.placements.map(placement => placement.artworkId));
+  const [strategy, setStrategy] = useState<AutoLayoutStrategy>(AutoLayoutStrategy.EYE_LINE);
+  const [groupBy, setGroupBy] = useState<AutoLayoutGrouping>(AutoLayoutGrouping.CATEGORY);
+  const [preview, setPreview] = useState<AutoLayoutPreview | null>(null);
+  // The proposal as the curator has adjusted it
+  const [placements, setPlacements] = useState<ProposedPlacement[]>([]);
+  const [selectedArtworkId, setSelectedArtworkId] = useState<string | null>(null);
+  const [issues, setIssues] = useState<PlacementIssue[]>([]);
+  const [generating, setGenerating] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const result = await previewAutoLayout(wall.id, {
+        artworkIds,
+        strategy,
+        ...(strategy === AutoLayoutStrategy.GROUPED && { groupBy })
+      });
+      setPreview(result);
+      setPlacements(result.placements);
+      setIssues(result.issues);
+      setSelectedArtworkId(null);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to generate a layout');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleMove = (artworkId: string, axis: 'x' | 'y', value: number | null) => {
+    if (value === null) return;
+
+    setPlacements(prev => prev.map(placement =>
+      placement.artworkId === artworkId
+        ? { ...placement, coordinates: { ...placement.coordinates, [axis]: value } }
+        : placement
+    ));
+  };
+
+  const handleRemove = (artworkId: string) => {
+    setPlacements(prev => prev.filter(placement => placement.artworkId !== artworkId));
+  };
+
+  const handleSave = async () => {
+    if (!preview) return;
+
+    setSaving(true);
+    try {
+      await updateWallLayout(wall.id, {
+        placements: placements.map(placement => ({
+          artworkId: placement.artworkId,
+          position: placement.position,
+          coordinates: placement.coordinates
+        })),
+        // Refuse the save if someone changed the wall since the proposal was made
+        expectedRevision: preview.layoutRevision
+      });
+      message.success('Layout saved');
+      onSaved();
+      onClose();
+    } catch (err) {
+      setIssues(getPlacementIssues(err));
+      message.error(err instanceof Error ? err.message : 'Failed to save layout');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const highlightedArtworkIds = issues.flatMap(issue =>
+    issue.otherArtworkId ? [issue.artworkId, issue.otherArtworkId] : [issue.artworkId]
+  );
+
+  return (
+    <Modal
+      title={`Auto Layout: ${wall.name}`}
+      open
+      onCancel={onClose}
+      width={760}
+      footer={[
+        <Button key="cancel" onClick={onClose}>
+          Cancel
+        </Button>,
+        <Button
+          key="save"
+          type="primary"
+          disabled={!preview || placements.length === 0}
+          loading={saving}
+          onClick={handleSave}
+        >
+          Save Layout
+        </Button>
+      ]}
+    >
+      <Space direction="vertical" className="w-full" size="middle">
+        <Select
+          mode="multiple"
+          className="w-full"
+          placeholder="Pick the artworks to hang"
+          value={artworkIds}
+          onChange={setArtworkIds}
+          optionFilterProp="label"
+          options={artworks.map(artwork => ({
+            value: artwork.id,
+            label: artwork.artist ? `${artwork.title} (${artwork.artist.username})` : artwork.title
+          }))}
+        />
+
+        <Space wrap>
+          <Radio.Group value={strategy} onChange={e => setStrategy(e.target.value)}>
+            {Object.values(AutoLayoutStrategy).map(value => (
+              <Radio.Button key={value} value={value}>{STRATEGY_LABELS[value]}</Radio.Button>
+            ))}
+          </Radio.Group>
+          {strategy === AutoLayoutStrategy.GROUPED && (
+            <Select
+              value={groupBy}
+              onChange={setGroupBy}
+              style={{ width: 160 }}
+              options={[
+                { value: AutoLayoutGrouping.CATEGORY, label: 'By category' },
+                { value: AutoLayoutGrouping.ARTIST, label: 'By artist' }
+              ]}
+            />
+          )}
+          <Button
+            icon={<ThunderboltOutlined />}
+            disabled={artworkIds.length === 0}
+            loading={generating}
+            onClick={handleGenerate}
+          >
+            Generate
+          </Button>
+        </Space>
+
+        {preview && (
+          <>
+            <WallPreview
+              wall={wall}
+              placements={placements}
+              highlightedArtworkIds={highlightedArtworkIds}
+              selectedArtworkId={selectedArtworkId}
+              onSelect={setSelectedArtworkId}
+            />
+            <Text type="secondary">
+              {formatDimensions(wall)}. Saving replaces the artworks on this wall; the current layout stays in the wall&apos;s history.
+            </Text>
+
+            {issues.length > 0 && (
+              <Alert
+                type="error"
+                showIcon
+                message="These artworks don't fit"
+                description={issues.map(issue => issue.message).join('. ')}
+              />
+            )}
+
+            {preview.unplaced.length > 0 && (
+              <Alert
+                type="warning"
+                showIcon
+                message={`${preview.unplaced.length} left off`}
+                description={preview.unplaced.map(item => item.reason).join('. ')}
+              />
+            )}
+
+            <List
+              size="small"
+              dataSource={placements}
+              renderItem={placement => (
+                <List.Item
+                  className={placement.artworkId === selectedArtworkId ? 'bg-blue-50' : ''}
+                  onClick={() => setSelectedArtworkId(placement.artworkId)}
+                  actions={[
+                    <Button
+                      key="remove"
+                      size="small"
+                      type="text"
+                      danger
+                      icon={<DeleteOutlined />}
+                      onClick={() => handleRemove(placement.artworkId)}
+                    />
+                  ]}
+                >
+                  <div className="flex w-full items-center justify-between gap-2">
+                    <span className="truncate">{placement.artwork.title}</span>
+                    <Space>
+                      <InputNumber
+                        size="small"
+                        step={0.05}
+                        min={0}
+                        max={wall.width}
+                        addonBefore="x"
+                        addonAfter="m"
+                        value={placement.coordinates.x}
+                        onChange={value => handleMove(placement.artworkId, 'x', value)}
+                      />
+                      <InputNumber
+                        size="small"
+                        step={0.05}
+                        min={0}
+                        max={wall.height}
+                        addonBefore="y"
+                        addonAfter="m"
+                        value={placement.coordinates.y}
+                        onChange={value => handleMove(placement.artworkId, 'y', value)}
+                      />
+                    </Space>
+                  </div>
+                </List.Item>
+              )}
+            />
+          </>
+        )}
+      </Space>
+    </Modal>
+  );
+};
+
+export default AutoLayoutModal;
@@ -3,7 +3,7 @@ import React, { useRef } from 'react';
 import { useDrag } from 'react-dnd';
 import { Card, Image, Typography, Tooltip } from 'antd';
 import { DraggableArtwork } from '@/types/exhibition.types';
-import { formatImageUrl } from '@/utils/format';
+import { formatImageUrl, getEditorColor } from '@/utils/format';
 
 const { Text, Paragraph } = Typography;
 
@@ -12,13 +12,16 @@ interface DraggableArtworkProps {
   isPlaced?: boolean;
   onDragStart?: () => void;
   onDragEnd?: () => void;
+  // Another curator who is dragging this artwork right now
+  remoteDragger?: { userId: string; username: string };
 }
 
 const DraggableArtworkComponent: React.FC<DraggableArtworkProps> = ({ 
   artwork, 
   isPlaced = false,
   onDragStart,
-  onDragEnd
+  onDragEnd,
+  remoteDragger
 }) => {
   const ref = useRef<HTMLDivElement>(null);
   
@@ -49,6 +52,8 @@ const DraggableArtworkComponent: React.FC<DraggableArtworkProps> = ({
   // Connect drag ref to component
   drag(ref);
   
+  const remoteColor = remoteDragger ? getEditorColor(remoteDragger.userId) : undefined;
+  
   return (
     <div 
       ref={ref}
@@ -56,6 +61,11 @@ const DraggableArtworkComponent: React.FC<DraggableArtworkProps> = ({
                  ${isPlaced ? 'cursor-not-allowed' : 'cursor-grab'}`}
       style={{ touchAction: 'none' }} // Important for touch devices
     >
+      {remoteDragger && (
+        <div className="text-xs mb-1" style={{ color: remoteColor }}>
+          {remoteDragger.username} is dragging this
+        </div>
+      )}
       <Tooltip 
         title={isPlaced ? "This artwork is already placed" : "Drag to place in layout"} 
         placement="right"
@@ -75,6 +85,7 @@ const DraggableArtworkComponent: React.FC<DraggableArtworkProps> = ({
             </div>
           }
           className={isPlaced ? 'bg-gray-100' : ''}
+          style={remoteColor ? { borderColor: remoteColor, borderWidth: 2 } : undefined}
         >
           <Card.Meta
             title={<Text ellipsis>{artwork.title}</Text>}
@@ -3,7 +3,7 @@ import { Card, Tag, Avatar, Button } from 'antd';
 import { EnvironmentOutlined, UserOutlined, CalendarOutlined, EyeOutlined } from '@ant-design/icons';
 import { useRouter } from 'next/navigation';
 import { Exhibition } from '@/types/exhibition.types';
-import { formatDate, formatImageUrl } from '@/utils/format';
+import { formatDate, formatImageUrl, formatExhibitionStatus } from '@/utils/format';
 
 const { Meta } = Card;
 
@@ -47,6 +47,8 @@ const ExhibitionCard: React.FC<ExhibitionCardProps> = ({
       ]
     : undefined;
 
+  const status = formatExhibitionStatus(exhibition.status);
+
   return (
     <Card
       hoverable
@@ -60,8 +62,8 @@ const ExhibitionCard: React.FC<ExhibitionCardProps> = ({
       className="h-full flex flex-col"
     >
       <div className="flex items-center justify-between mb-2">
-        <Tag color={exhibition.isActive ? 'green' : 'orange'}>
-          {exhibition.isActive ? 'Active' : 'Coming Soon'}
+        <Tag color={status.color}>
+          {status.label}
         </Tag>
         {showCurator && exhibition.curator && (
           <div className="flex items-center">
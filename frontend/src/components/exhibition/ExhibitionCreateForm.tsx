@@ -30,7 +30,7 @@ const ExhibitionCreateForm: React.FC<ExhibitionCreateFormProps> = ({
         description: values.description,
         startDate: values.dates[0].toISOString(),
         endDate: values.dates[1].toISOString(),
-        isActive: values.isActive,
+        publish: values.publish,
       };
 
       await onSubmit(formattedValues);
@@ -47,10 +47,10 @@ const ExhibitionCreateForm: React.FC<ExhibitionCreateFormProps> = ({
         dates: initialValues.startDate && initialValues.endDate
           ? [moment(initialValues.startDate), moment(initialValues.endDate)]
           : undefined,
-        isActive: initialValues.isActive,
+        publish: initialValues.publish,
       }
     : {
-        isActive: false,
+        publish: false,
         dates: [moment().add(1, 'days'), moment().add(30, 'days')],
       };
 
@@ -102,14 +102,16 @@ const ExhibitionCreateForm: React.FC<ExhibitionCreateFormProps> = ({
         />
       </Form.Item>
 
-      <Form.Item
-        name="isActive"
-        label="Active Status"
-        valuePropName="checked"
-        extra="Activate the exhibition to make it publicly visible"
-      >
-        <Switch />
-      </Form.Item>
+      {mode === 'create' && (
+        <Form.Item
+          name="publish"
+          label="Publish Now"
+          valuePropName="checked"
+          extra="Published exhibitions open and close automatically on their dates. Leave this off to keep working on a private draft."
+        >
+          <Switch />
+        </Form.Item>
+      )}
 
       {/* Note about artwork placement */}
       <Alert
@@ -0,0 +1,351 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Doorway, FloorPlanWall, PlacementPosition, PlanPoint, Room, Wall } from '@/types/exhibition.types';
+import { ExhibitionHeatmap } from '@/types/analytics.types';
+
+// Dragged items land on this grid, in metres
+const SNAP = 0.25;
+
+// Space left around the drawing, in metres
+const MARGIN = 1;
+
+// Where slot placements sit along a wall, as a share of its width
+const SLOT_SHARES: Record<PlacementPosition, number> = {
+  [PlacementPosition.LEFT]: 0.2,
+  [PlacementPosition.CENTER]: 0.5,
+  [PlacementPosition.RIGHT]: 0.8,
+  [PlacementPosition.CUSTOM]: 0.5
+};
+
+export type FloorPlanSelection = { type: 'room' | 'wall' | 'doorway'; id: string };
+
+export type PlacedArtwork = { artworkId: string; wallId: string; title: string; at: PlanPoint };
+
+interface FloorPlanCanvasProps {
+  rooms: Room[];
+  doorways: Doorway[];
+  // Only walls with a plan position are drawn
+  walls: Wall[];
+  selection: FloorPlanSelection | null;
+  // Where visitors walked, drawn over the floor and under the walls
+  heatmap?: ExhibitionHeatmap | null;
+  onSelect: (selection: FloorPlanSelection | null) => void;
+  onRoomReshape: (roomId: string, footprint: PlanPoint[]) => void;
+  onWallMove: (wallId: string, position: PlanPoint) => void;
+  onDoorwayMove: (doorwayId: string, position: PlanPoint) => void;
+}
+
+// What is being dragged and where it is now
+type Drag = {
+  type: 'corner' | 'wall' | 'doorway';
+  id: string;
+  // The room corner being moved
+  corner?: number;
+  // Where the item and the pointer were when the drag started
+  origin: PlanPoint;
+  grab: PlanPoint;
+  point: PlanPoint;
+};
+
+const snap = (value: number) => Math.round(value / SNAP) * SNAP;
+
+// Quiet cells are pale yellow, the busiest deep red
+const heatColour = (share: number) => `hsl(${Math.round(50 - share * 50)}, 90%, ${Math.round(60 - share * 15)}%)`;
+
+const centreOf = (points: PlanPoint[]) => ({
+  x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+  y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+});
+
+/**
+ * The two ends of a wall, which runs at right angles to the way it faces
+ */
+export const getWallEnds = (position: PlanPoint, orientation: number, width: number): [PlanPoint, PlanPoint] => {
+  const angle = (orientation * Math.PI) / 180;
+  const along = { x: -Math.sin(angle), y: Math.cos(angle) };
+
+  return [
+    { x: position.x - (along.x * width) / 2, y: position.y - (along.y * width) / 2 },
+    { x: position.x + (along.x * width) / 2, y: position.y + (along.y * width) / 2 }
+  ];
+};
+
+/**
+ * Where each artwork on a wall lands on the plan, measured from the wall's
+ * left end as seen by a visitor facing it
+ */
+export const getArtworkPlanPositions = (wall: FloorPlanWall): PlacedArtwork[] => {
+  if (!wall.position) return [];
+
+  const [left, right] = getWallEnds(wall.position, wall.orientation, wall.width);
+
+  return wall.placements.map(placement => {
+    const share = placement.coordinates
+      ? placement.coordinates.x / wall.width
+      : SLOT_SHARES[placement.position];
+
+    return {
+      artworkId: placement.artworkId,
+      wallId: wall.id,
+      title: placement.title || 'Untitled',
+      at: { x: left.x + (right.x - left.x) * share, y: left.y + (right.y - left.y) * share }
+    };
+  });
+};
+
+/**
+ * Top-down drawing of an exhibition's rooms, walls and doorways. Room
+ * corners, walls and doorways can be dragged into place.
+ *
+ * The plan's y axis points north, so it is drawn flipped: SVG y is -y.
+ */
+const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
+  rooms,
+  doorways,
+  walls,
+  selection,
+  heatmap,
+  onSelect,
+  onRoomReshape,
+  onWallMove,
+  onDoorwayMove
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+
+  const placedWalls = walls.filter(wall => wall.planPosition);
+
+  // Fit the view around everything on the plan
+  const points = [
+    ...rooms.flatMap(room => room.footprint),
+    ...placedWalls.flatMap(wall => getWallEnds(wall.planPosition as PlanPoint, wall.orientation, wall.width)),
+    ...doorways.map(doorway => doorway.position)
+  ];
+  const minX = points.length > 0 ? Math.min(...points.map(point => point.x)) : 0;
+  const maxX = points.length > 0 ? Math.max(...points.map(point => point.x)) : 20;
+  const minY = points.length > 0 ? Math.min(...points.map(point => point.y)) : 0;
+  const maxY = points.length > 0 ? Math.max(...points.map(point => point.y)) : 12;
+  const viewBox = [minX - MARGIN, -maxY - MARGIN, maxX - minX + 2 * MARGIN, maxY - minY + 2 * MARGIN].join(' ');
+
+  const toPlanPoint = (event: React.PointerEvent): PlanPoint | null => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return null;
+
+    const point = svg.createSVGPoint();
+    point.x = event.clientX;
+    point.y = event.clientY;
+    const transformed = point.matrixTransform(matrix.inverse());
+
+    return { x: transformed.x, y: -transformed.y };
+  };
+
+  const startDrag = (event: React.PointerEvent, start: Omit<Drag, 'grab' | 'point'>) => {
+    const grab = toPlanPoint(event);
+    if (!grab) return;
+
+    event.stopPropagation();
+    svgRef.current?.setPointerCapture(event.pointerId);
+    setDrag({ ...start, grab, point: start.origin });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!drag) return;
+
+    const pointer = toPlanPoint(event);
+    if (!pointer) return;
+
+    const point = {
+      x: snap(drag.origin.x + pointer.x - drag.grab.x),
+      y: snap(drag.origin.y + pointer.y - drag.grab.y)
+    };
+    if (point.x !== drag.point.x || point.y !== drag.point.y) {
+      setDrag({ ...drag, point });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+
+    // A click selects without moving anything
+    if (drag.point.x === drag.origin.x && drag.point.y === drag.origin.y) {
+      setDrag(null);
+      return;
+    }
+
+    if (drag.type === 'corner' && drag.corner !== undefined) {
+      const room = rooms.find(r => r.id === drag.id);
+      if (room) {
+        onRoomReshape(room.id, room.footprint.map((corner, i) => (i === drag.corner ? drag.point : corner)));
+      }
+    } else if (drag.type === 'wall') {
+      onWallMove(drag.id, drag.point);
+    } else {
+      onDoorwayMove(drag.id, drag.point);
+    }
+
+    setDrag(null);
+  };
+
+  // Where things are drawn, following the drag in progress
+  const footprintOf = (room: Room) =>
+    drag?.type === 'corner' && drag.id === room.id
+      ? room.footprint.map((corner, i) => (i === drag.corner ? drag.point : corner))
+      : room.footprint;
+  const wallPositionOf = (wall: Wall) =>
+    drag?.type === 'wall' && drag.id === wall.id ? drag.point : (wall.planPosition as PlanPoint);
+  const doorwayPositionOf = (doorway: Doorway) =>
+    drag?.type === 'doorway' && drag.id === doorway.id ? drag.point : doorway.position;
+
+  const isSelected = (type: FloorPlanSelection['type'], id: string) => selection?.type === type && selection.id === id;
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={viewBox}
+      className="w-full bg-white border border-gray-200 rounded select-none"
+      style={{ height: 420, touchAction: 'none' }}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerDown={() => onSelect(null)}
+    >
+      {/* One-metre grid */}
+      <defs>
+        <pattern id="floor-plan-grid" width={1} height={1} patternUnits="userSpaceOnUse">
+          <path d="M 1 0 L 0 0 0 1" fill="none" stroke="#e5e7eb" strokeWidth={0.02} />
+        </pattern>
+      </defs>
+      <rect x={minX - MARGIN} y={-maxY - MARGIN} width="100%" height="100%" fill="url(#floor-plan-grid)" />
+
+      {rooms.map(room => {
+        const footprint = footprintOf(room);
+        const centre = centreOf(footprint);
+        const selected = isSelected('room', room.id);
+
+        return (
+          <g key={room.id}>
+            <polygon
+              points={footprint.map(point => `${point.x},${-point.y}`).join(' ')}
+              fill={selected ? '#e0e7ff' : '#f3f4f6'}
+              stroke={selected ? '#4f46e5' : '#9ca3af'}
+              strokeWidth={0.05}
+              className="cursor-pointer"
+              onPointerDown={event => {
+                event.stopPropagation();
+                onSelect({ type: 'room', id: room.id });
+              }}
+            />
+            <text x={centre.x} y={-centre.y} fontSize={0.4} textAnchor="middle" fill="#4b5563" pointerEvents="none">
+              {room.name}
+            </text>
+            {selected && footprint.map((corner, i) => (
+              <circle
+                key={i}
+                cx={corner.x}
+                cy={-corner.y}
+                r={0.2}
+                fill="#4f46e5"
+                className="cursor-move"
+                onPointerDown={event => startDrag(event, { type: 'corner', id: room.id, corner: i, origin: corner })}
+              />
+            ))}
+          </g>
+        );
+      })}
+
+      {heatmap && heatmap.peakSamples > 0 && (
+        <g pointerEvents="none">
+          {heatmap.cells.map(cell => {
+            const share = cell.samples / heatmap.peakSamples;
+
+            return (
+              <rect
+                key={`${cell.x},${cell.y}`}
+                x={cell.x}
+                y={-(cell.y + heatmap.cellSize)}
+                width={heatmap.cellSize}
+                height={heatmap.cellSize}
+                fill={heatColour(share)}
+                fillOpacity={0.35 + share * 0.45}
+              />
+            );
+          })}
+        </g>
+      )}
+
+      {placedWalls.map(wall => {
+        const position = wallPositionOf(wall);
+        const [start, end] = getWallEnds(position, wall.orientation, wall.width);
+        const angle = (wall.orientation * Math.PI) / 180;
+        const selected = isSelected('wall', wall.id);
+
+        return (
+          <g
+            key={wall.id}
+            className="cursor-move"
+            onPointerDown={event => {
+              onSelect({ type: 'wall', id: wall.id });
+              startDrag(event, { type: 'wall', id: wall.id, origin: position });
+            }}
+          >
+            <line
+              x1={start.x}
+              y1={-start.y}
+              x2={end.x}
+              y2={-end.y}
+              stroke={selected ? '#4f46e5' : '#374151'}
+              strokeWidth={0.2}
+              strokeLinecap="square"
+            />
+            {/* The side artworks hang on */}
+            <line
+              x1={position.x}
+              y1={-position.y}
+              x2={position.x + Math.cos(angle) * 0.5}
+              y2={-(position.y + Math.sin(angle) * 0.5)}
+              stroke={selected ? '#4f46e5' : '#374151'}
+              strokeWidth={0.06}
+            />
+            <text
+              x={position.x + Math.cos(angle) * 0.8}
+              y={-(position.y + Math.sin(angle) * 0.8)}
+              fontSize={0.3}
+              textAnchor="middle"
+              fill="#111827"
+              pointerEvents="none"
+            >
+              {wall.name}
+            </text>
+          </g>
+        );
+      })}
+
+      {doorways.map(doorway => {
+        const position = doorwayPositionOf(doorway);
+        const selected = isSelected('doorway', doorway.id);
+
+        return (
+          <circle
+            key={doorway.id}
+            cx={position.x}
+            cy={-position.y}
+            r={doorway.width / 2}
+            fill={doorway.toRoomId ? '#bbf7d0' : '#fde68a'}
+            fillOpacity={0.8}
+            stroke={selected ? '#4f46e5' : '#16a34a'}
+            strokeWidth={0.05}
+            strokeDasharray="0.15 0.1"
+            className="cursor-move"
+            onPointerDown={event => {
+              onSelect({ type: 'doorway', id: doorway.id });
+              startDrag(event, { type: 'doorway', id: doorway.id, origin: position });
+            }}
+          />
+        );
+      })}
+    </svg>
+  );
+};
+
+export default FloorPlanCanvas;
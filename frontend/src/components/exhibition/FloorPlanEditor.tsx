@@ -0,0 +1,519 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  Empty,
+  Form,
+  Input,
+  InputNumber,
+  Modal,
+  Popconfirm,
+  Select,
+  Space,
+  Switch,
+  Tag,
+  Tooltip,
+  Typography,
+  message
+} from 'antd';
+import { DeleteOutlined, PlusOutlined, RotateLeftOutlined, RotateRightOutlined } from '@ant-design/icons';
+import {
+  createDoorway,
+  createRoom,
+  deleteDoorway,
+  deleteRoom,
+  updateDoorway,
+  updateRoom,
+  updateWall
+} from '@/lib/api/exhibition';
+import { getExhibitionHeatmap } from '@/lib/api/analytics';
+import { Doorway, PlanPoint, Room, Wall } from '@/types/exhibition.types';
+import { ExhibitionHeatmap } from '@/types/analytics.types';
+import FloorPlanCanvas, { FloorPlanSelection } from '@/components/exhibition/FloorPlanCanvas';
+
+const { Text } = Typography;
+
+// Gap left between a new room and the rooms already drawn, in metres
+const ROOM_GAP = 1;
+
+const HEATMAP_RANGE_OPTIONS = [
+  { value: 7, label: 'Last 7 days' },
+  { value: 30, label: 'Last 30 days' },
+  { value: 90, label: 'Last 90 days' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+interface FloorPlanEditorProps {
+  exhibitionId: string;
+  rooms: Room[];
+  doorways: Doorway[];
+  walls: Wall[];
+  // Called after every saved change so the page can reload the plan
+  onChanged: () => void;
+  // Picking a wall on the plan also opens it in the wall editor
+  onWallSelect?: (wallId: string) => void;
+}
+
+const centreOf = (points: PlanPoint[]) => ({
+  x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+  y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+});
+
+/**
+ * Top-down editor for an exhibition's rooms, the walls standing in them and
+ * the doorways between them
+ */
+const FloorPlanEditor: React.FC<FloorPlanEditorProps> = ({
+  exhibitionId,
+  rooms,
+  doorways,
+  walls,
+  onChanged,
+  onWallSelect
+}) => {
+  const [selection, setSelection] = useState<FloorPlanSelection | null>(null);
+  const [roomFormVisible, setRoomFormVisible] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [roomForm] = Form.useForm();
+  // Days of visitor movement shown over the plan; null hides the heatmap
+  const [heatmapDays, setHeatmapDays] = useState<number | null>(null);
+  const [heatmap, setHeatmap] = useState<ExhibitionHeatmap | null>(null);
+  const [heatmapLoading, setHeatmapLoading] = useState(false);
+
+  const selectedRoom = selection?.type === 'room' ? rooms.find(room => room.id === selection.id) : undefined;
+  const selectedWall = selection?.type === 'wall' ? walls.find(wall => wall.id === selection.id) : undefined;
+  const selectedDoorway = selection?.type === 'doorway' ? doorways.find(doorway => doorway.id === selection.id) : undefined;
+  const unplacedWalls = walls.filter(wall => !wall.roomId || !wall.planPosition);
+
+  useEffect(() => {
+    if (!heatmapDays) {
+      setHeatmap(null);
+      return;
+    }
+
+    let cancelled = false;
+    const from = new Date(Date.now() - (heatmapDays - 1) * DAY_MS).toISOString().slice(0, 10);
+
+    const fetchHeatmap = async () => {
+      setHeatmapLoading(true);
+      try {
+        const result = await getExhibitionHeatmap(exhibitionId, { from });
+        if (!cancelled) setHeatmap(result);
+      } catch (err) {
+        if (!cancelled) {
+          message.error(err instanceof Error ? err.message : 'Failed to load the visitor heatmap');
+          setHeatmapDays(null);
+        }
+      } finally {
+        if (!cancelled) setHeatmapLoading(false);
+      }
+    };
+
+    fetchHeatmap();
+    return () => {
+      cancelled = true;
+    };
+  }, [exhibitionId, heatmapDays]);
+
+  // Save a change, then reload the plan whether or not it was accepted
+  const save = async (change: () => Promise<unknown>, failure: string) => {
+    setSaving(true);
+    try {
+      await change();
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : failure);
+    } finally {
+      setSaving(false);
+      onChanged();
+    }
+  };
+
+  const handleSelect = (next: FloorPlanSelection | null) => {
+    setSelection(next);
+    if (next?.type === 'wall') onWallSelect?.(next.id);
+  };
+
+  const handleRoomCreate = async () => {
+    let values;
+    try {
+      values = await roomForm.validateFields();
+    } catch {
+      // The form shows what is missing
+      return;
+    }
+
+    // Start the new room east of everything already drawn
+    const corners = rooms.flatMap(room => room.footprint);
+    const left = corners.length > 0 ? Math.max(...corners.map(corner => corner.x)) + ROOM_GAP : 0;
+    const bottom = corners.length > 0 ? Math.min(...corners.map(corner => corner.y)) : 0;
+
+    await save(async () => {
+      const room = await createRoom(exhibitionId, {
+        name: values.name,
+        displayOrder: rooms.length + 1,
+        footprint: [
+          { x: left, y: bottom },
+          { x: left + values.width, y: bottom },
+          { x: left + values.width, y: bottom + values.length },
+          { x: left, y: bottom + values.length }
+        ]
+      });
+      setSelection({ type: 'room', id: room.id });
+      setRoomFormVisible(false);
+      roomForm.resetFields();
+    }, 'Failed to add room');
+  };
+
+  const handleDoorwayCreate = async (room: Room) => {
+    // Open the doorway in the middle of the room's first side
+    const [start, end] = room.footprint;
+
+    await save(async () => {
+      const doorway = await createDoorway(exhibitionId, {
+        fromRoomId: room.id,
+        toRoomId: null,
+        position: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 }
+      });
+      setSelection({ type: 'doorway', id: doorway.id });
+    }, 'Failed to add doorway');
+  };
+
+  const handleWallPlace = async (wall: Wall, room: Room) => {
+    await save(async () => {
+      await updateWall(wall.id, {
+        roomId: room.id,
+        planPosition: wall.planPosition || centreOf(room.footprint)
+      });
+      setSelection({ type: 'wall', id: wall.id });
+    }, 'Failed to place wall');
+  };
+
+  const renderRoomHeat = (roomId: string) => {
+    const room = heatmap?.rooms.find(r => r.roomId === roomId);
+    if (!heatmap || !room) return null;
+
+    return (
+      <Text>
+        Visitors reached {percent(room.visitedCells, room.floorCells)}% of this room&apos;s floor and spent{' '}
+        {percent(room.samples, heatmap.samples)}% of their time here.
+      </Text>
+    );
+  };
+
+  const renderWallHeat = (wallId: string) => {
+    const wall = heatmap?.walls.find(w => w.wallId === wallId);
+    if (!heatmap || !wall) return null;
+
+    return (
+      <Text>
+        Visitors spent {percent(wall.samples, heatmap.samples)}% of their time in front of this wall.
+      </Text>
+    );
+  };
+
+  const renderHeatmapSummary = () => {
+    if (!heatmap) return null;
+
+    if (heatmap.samples === 0) {
+      return <Text>Nobody has walked through the 3D scene in this period.</Text>;
+    }
+
+    const busiest = heatmap.walls[0];
+    const quietest = heatmap.walls[heatmap.walls.length - 1];
+
+    return (
+      <Space direction="vertical" size={4}>
+        <Text strong>Visitor Heatmap</Text>
+        <Text>
+          {heatmap.sessions} {heatmap.sessions === 1 ? 'visit' : 'visits'} to the 3D scene. Warmer squares are where
+          visitors spent more time; uncoloured floor is where nobody went.
+        </Text>
+        {busiest && busiest.samples > 0 && (
+          <Text>Busiest wall: {busiest.name} ({percent(busiest.samples, heatmap.samples)}% of visitor time)</Text>
+        )}
+        {quietest && quietest !== busiest && (
+          <Text>Quietest wall: {quietest.name} ({percent(quietest.samples, heatmap.samples)}% of visitor time)</Text>
+        )}
+      </Space>
+    );
+  };
+
+  const renderInspector = () => {
+    if (selectedRoom) {
+      return (
+        <Space direction="vertical" className="w-full">
+          <Text strong>Room</Text>
+          <Input
+            key={selectedRoom.id}
+            defaultValue={selectedRoom.name}
+            onPressEnter={e => e.currentTarget.blur()}
+            onBlur={e => {
+              const name = e.target.value.trim();
+              if (name && name !== selectedRoom.name) {
+                save(() => updateRoom(selectedRoom.id, { name }), 'Failed to rename room');
+              }
+            }}
+          />
+          <Text type="secondary">
+            Drag the corners to reshape the room. Walls in it stay where they are.
+          </Text>
+          {renderRoomHeat(selectedRoom.id)}
+          <Button
+            block
+            icon={<PlusOutlined />}
+            loading={saving}
+            onClick={() => handleDoorwayCreate(selectedRoom)}
+          >
+            Add Doorway
+          </Button>
+          <Popconfirm
+            title="Delete this room?"
+            description="Its walls are kept but taken off the floor plan."
+            onConfirm={() => save(async () => {
+              await deleteRoom(selectedRoom.id);
+              setSelection(null);
+            }, 'Failed to delete room')}
+          >
+            <Button block danger icon={<DeleteOutlined />}>
+              Delete Room
+            </Button>
+          </Popconfirm>
+        </Space>
+      );
+    }
+
+    if (selectedWall) {
+      const turn = (degrees: number) =>
+        save(
+          () => updateWall(selectedWall.id, { orientation: (selectedWall.orientation + degrees + 360) % 360 }),
+          'Failed to turn wall'
+        );
+
+      return (
+        <Space direction="vertical" className="w-full">
+          <Text strong>{selectedWall.name}</Text>
+          <Select
+            className="w-full"
+            value={selectedWall.roomId || undefined}
+            placeholder="Room"
+            options={rooms.map(room => ({ value: room.id, label: room.name }))}
+            onChange={roomId => save(() => updateWall(selectedWall.id, { roomId }), 'Failed to move wall')}
+          />
+          <Space>
+            <Tooltip title="Turn anticlockwise">
+              <Button icon={<RotateLeftOutlined />} onClick={() => turn(90)} />
+            </Tooltip>
+            <InputNumber
+              key={`${selectedWall.id}-${selectedWall.orientation}`}
+              min={0}
+              max={359}
+              step={15}
+              addonAfter="°"
+              defaultValue={selectedWall.orientation}
+              onBlur={e => {
+                const orientation = Number(e.target.value);
+                if (!Number.isNaN(orientation) && orientation !== selectedWall.orientation) {
+                  save(() => updateWall(selectedWall.id, { orientation }), 'Failed to turn wall');
+                }
+              }}
+            />
+            <Tooltip title="Turn clockwise">
+              <Button icon={<RotateRightOutlined />} onClick={() => turn(-90)} />
+            </Tooltip>
+          </Space>
+          <Text type="secondary">
+            The tick shows the side artworks hang on. Drag the wall to move it.
+          </Text>
+          {renderWallHeat(selectedWall.id)}
+          <Button
+            block
+            onClick={() => save(async () => {
+              await updateWall(selectedWall.id, { roomId: null, planPosition: null });
+              setSelection(null);
+            }, 'Failed to take wall off the plan')}
+          >
+            Take Off Plan
+          </Button>
+        </Space>
+      );
+    }
+
+    if (selectedDoorway) {
+      return (
+        <Space direction="vertical" className="w-full">
+          <Text strong>
+            Doorway from {rooms.find(room => room.id === selectedDoorway.fromRoomId)?.name}
+          </Text>
+          <Select
+            className="w-full"
+            value={selectedDoorway.toRoomId ?? ''}
+            options={[
+              { value: '', label: 'Outside (entrance)' },
+              ...rooms
+                .filter(room => room.id !== selectedDoorway.fromRoomId)
+                .map(room => ({ value: room.id, label: room.name }))
+            ]}
+            onChange={toRoomId => save(
+              () => updateDoorway(selectedDoorway.id, { toRoomId: toRoomId || null }),
+              'Failed to update doorway'
+            )}
+          />
+          <InputNumber
+            key={`${selectedDoorway.id}-${selectedDoorway.width}`}
+            className="w-full"
+            min={0.5}
+            max={10}
+            step={0.1}
+            addonBefore="Width"
+            addonAfter="m"
+            defaultValue={selectedDoorway.width}
+            onBlur={e => {
+              const width = Number(e.target.value);
+              if (width > 0 && width !== selectedDoorway.width) {
+                save(() => updateDoorway(selectedDoorway.id, { width }), 'Failed to update doorway');
+              }
+            }}
+          />
+          <Popconfirm
+            title="Delete this doorway?"
+            onConfirm={() => save(async () => {
+              await deleteDoorway(selectedDoorway.id);
+              setSelection(null);
+            }, 'Failed to delete doorway')}
+          >
+            <Button block danger icon={<DeleteOutlined />}>
+              Delete Doorway
+            </Button>
+          </Popconfirm>
+        </Space>
+      );
+    }
+
+    return (
+      <Space direction="vertical" className="w-full">
+        <Text type="secondary">
+          Select a room, wall or doorway on the plan to edit it.
+        </Text>
+        {renderHeatmapSummary()}
+      </Space>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <Space wrap>
+          <Button icon={<PlusOutlined />} onClick={() => setRoomFormVisible(true)}>
+            Add Room
+          </Button>
+          <Space size={4}>
+            <Switch
+              size="small"
+              checked={heatmapDays !== null}
+              loading={heatmapLoading}
+              onChange={checked => setHeatmapDays(checked ? 30 : null)}
+            />
+            <Text>Visitor heatmap</Text>
+          </Space>
+          {heatmapDays !== null && (
+            <Select
+              size="small"
+              className="w-36"
+              value={heatmapDays}
+              onChange={setHeatmapDays}
+              options={HEATMAP_RANGE_OPTIONS}
+            />
+          )}
+        </Space>
+
+        {unplacedWalls.length > 0 && (
+          <Space wrap size={4}>
+            <Text type="secondary">Not on the plan:</Text>
+            {unplacedWalls.map(wall => {
+              // New walls go into the selected room, or the first one
+              const room = selectedRoom || rooms[0];
+
+              return (
+                <Tooltip key={wall.id} title={room ? `Stand in ${room.name}` : 'Add a room first'}>
+                  <Tag
+                    className={room ? 'cursor-pointer' : ''}
+                    onClick={() => room && handleWallPlace(wall, room)}
+                  >
+                    {wall.name}
+                  </Tag>
+                </Tooltip>
+              );
+            })}
+          </Space>
+        )}
+      </div>
+
+      <div className="flex flex-wrap md:flex-nowrap gap-6">
+        <div className="w-full md:w-3/4">
+          {rooms.length > 0 ? (
+            <FloorPlanCanvas
+              rooms={rooms}
+              doorways={doorways}
+              walls={walls}
+              selection={selection}
+              heatmap={heatmap}
+              onSelect={handleSelect}
+              onRoomReshape={(roomId, footprint) =>
+                save(() => updateRoom(roomId, { footprint }), 'Failed to reshape room')
+              }
+              onWallMove={(wallId, planPosition) =>
+                save(() => updateWall(wallId, { planPosition }), 'Failed to move wall')
+              }
+              onDoorwayMove={(doorwayId, position) =>
+                save(() => updateDoorway(doorwayId, { position }), 'Failed to move doorway')
+              }
+            />
+          ) : (
+            <Empty description="No rooms yet. Add a room to start the floor plan." />
+          )}
+        </div>
+        <div className="w-full md:w-1/4">
+          {renderInspector()}
+        </div>
+      </div>
+
+      <Modal
+        title="Add Room"
+        open={roomFormVisible}
+        onCancel={() => setRoomFormVisible(false)}
+        onOk={handleRoomCreate}
+        okText="Add"
+        confirmLoading={saving}
+      >
+        <Form form={roomForm} layout="vertical">
+          <Form.Item
+            name="name"
+            label="Room Name"
+            rules={[{ required: true, message: 'Please enter a name for this room' }]}
+          >
+            <Input placeholder="e.g. Main Hall, East Gallery" />
+          </Form.Item>
+          <Form.Item
+            label="Size"
+            extra="In metres. The room starts as a rectangle; drag its corners to reshape it."
+          >
+            <Space wrap>
+              <Form.Item name="width" noStyle initialValue={8}>
+                <InputNumber min={1} max={200} step={0.5} addonBefore="East-west" addonAfter="m" />
+              </Form.Item>
+              <Form.Item name="length" noStyle initialValue={6}>
+                <InputNumber min={1} max={200} step={0.5} addonBefore="North-south" addonAfter="m" />
+              </Form.Item>
+            </Space>
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+};
+
+export default FloorPlanEditor;
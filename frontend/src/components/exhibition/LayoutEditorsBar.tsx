@@ -0,0 +1,45 @@
+'use client';
+
+import React from 'react';
+import { Avatar, Tooltip } from 'antd';
+import { TeamOutlined } from '@ant-design/icons';
+import { LayoutEditor, Wall } from '@/types/exhibition.types';
+import { getEditorColor } from '@/utils/format';
+
+interface LayoutEditorsBarProps {
+  editors: LayoutEditor[];
+  walls: Wall[];
+}
+
+/**
+ * Avatars of the other curators who have this exhibition's layout open
+ */
+const LayoutEditorsBar: React.FC<LayoutEditorsBarProps> = ({ editors, walls }) => {
+  if (editors.length === 0) {
+    return null;
+  }
+
+  const describeEditor = (editor: LayoutEditor) => {
+    const wall = walls.find(w => w.id === editor.wallId);
+    return wall ? `${editor.username} is editing ${wall.name}` : `${editor.username} is viewing the layout`;
+  };
+
+  return (
+    <div className="flex items-center">
+      <Tooltip title="Also editing this exhibition">
+        <TeamOutlined className="mr-2 text-gray-500" />
+      </Tooltip>
+      <Avatar.Group max={{ count: 5 }}>
+        {editors.map(editor => (
+          <Tooltip key={editor.socketId} title={describeEditor(editor)}>
+            <Avatar style={{ backgroundColor: getEditorColor(editor.userId) }}>
+              {editor.username.charAt(0).toUpperCase()}
+            </Avatar>
+          </Tooltip>
+        ))}
+      </Avatar.Group>
+    </div>
+  );
+};
+
+export default LayoutEditorsBar;
@@ -0,0 +1,213 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Drawer, List, Tag, Button, Popconfirm, Spin, Alert, Empty, message } from 'antd';
+import { RollbackOutlined, DiffOutlined } from '@ant-design/icons';
+import { getWallLayoutVersions, getWallLayoutDiff, rollbackWallLayout } from '@/lib/api/exhibition';
+import {
+  LayoutPlacementSnapshot,
+  PlacementPosition,
+  WallLayoutDiff,
+  WallLayoutVersion
+} from '@/types/exhibition.types';
+import { formatDate } from '@/utils/format';
+
+interface LayoutHistoryDrawerProps {
+  wallId: string;
+  wallName: string;
+  // The layout revision being viewed, so a restore over someone else's save is refused
+  layoutRevision?: number;
+  open: boolean;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+const DATE_TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+};
+
+const describePlacement = (placement: LayoutPlacementSnapshot) => {
+  if (placement.position !== PlacementPosition.CUSTOM || !placement.coordinates) {
+    return placement.position;
+  }
+
+  const { x, y, z } = placement.coordinates;
+  return `(${x}, ${y}, ${z})`;
+};
+
+/**
+ * Saved layouts of a wall with what changed in each and a way to restore them
+ */
+const LayoutHistoryDrawer: React.FC<LayoutHistoryDrawerProps> = ({
+  wallId,
+  wallName,
+  layoutRevision,
+  open,
+  onClose,
+  onRestored
+}) => {
+  const [versions, setVersions] = useState<WallLayoutVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [diffs, setDiffs] = useState<Record<number, WallLayoutDiff>>({});
+  const [loadingDiff, setLoadingDiff] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const fetchVersions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setVersions(await getWallLayoutVersions(wallId));
+      setDiffs({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load layout history');
+    } finally {
+      setLoading(false);
+    }
+  }, [wallId]);
+
+  useEffect(() => {
+    if (open) {
+      fetchVersions();
+    }
+  }, [open, fetchVersions]);
+
+  const handleShowChanges = async (version: number) => {
+    if (diffs[version]) return;
+
+    setLoadingDiff(version);
+    try {
+      const diff = await getWallLayoutDiff(wallId, version - 1, version);
+      setDiffs(prev => ({ ...prev, [version]: diff }));
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to compare layouts');
+    } finally {
+      setLoadingDiff(null);
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    setRestoring(version);
+    try {
+      await rollbackWallLayout(wallId, version, layoutRevision);
+      message.success(`Restored version ${version}`);
+      onRestored();
+      fetchVersions();
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to restore layout');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const renderDiff = (diff: WallLayoutDiff) => {
+    if (diff.added.length === 0 && diff.removed.length === 0 && diff.moved.length === 0) {
+      return <div className="text-gray-500 text-sm mt-2">No changes from the previous version</div>;
+    }
+
+    return (
+      <div className="mt-2 text-sm space-y-1">
+        {diff.added.map(change => (
+          <div key={`added-${change.artworkId}`}>
+            <Tag color="green">Added</Tag>
+            {change.title} at {describePlacement(change.placement)}
+          </div>
+        ))}
+        {diff.removed.map(change => (
+          <div key={`removed-${change.artworkId}`}>
+            <Tag color="red">Removed</Tag>
+            {change.title} from {describePlacement(change.placement)}
+          </div>
+        ))}
+        {diff.moved.map(change => (
+          <div key={`moved-${change.artworkId}`}>
+            <Tag color="blue">Moved</Tag>
+            {change.title}: {describePlacement(change.before)} &rarr; {describePlacement(change.after)}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Drawer
+      title={`Layout History: ${wallName}`}
+      open={open}
+      onClose={onClose}
+      width={420}
+    >
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Spin />
+        </div>
+      ) : error ? (
+        <Alert message={error} type="error" showIcon />
+      ) : versions.length === 0 ? (
+        <Empty description="No layouts saved for this wall yet" />
+      ) : (
+        <List
+          dataSource={versions}
+          renderItem={(version, index) => {
+            const isCurrent = index === 0;
+
+            return (
+              <List.Item
+                actions={[
+                  <Button
+                    key="changes"
+                    size="small"
+                    icon={<DiffOutlined />}
+                    loading={loadingDiff === version.version}
+                    onClick={() => handleShowChanges(version.version)}
+                  >
+                    Changes
+                  </Button>,
+                  <Popconfirm
+                    key="restore"
+                    title={`Restore version ${version.version}?`}
+                    description="The current layout stays in the history."
+                    onConfirm={() => handleRestore(version.version)}
+                    okText="Restore"
+                    disabled={isCurrent}
+                  >
+                    <Button
+                      size="small"
+                      icon={<RollbackOutlined />}
+                      disabled={isCurrent}
+                      loading={restoring === version.version}
+                    >
+                      Restore
+                    </Button>
+                  </Popconfirm>
+                ]}
+              >
+                <div className="w-full">
+                  <div>
+                    <strong>Version {version.version}</strong>
+                    {isCurrent && <Tag color="green" className="ml-2">Current</Tag>}
+                  </div>
+                  <div className="text-gray-500 text-sm">
+                    {formatDate(version.createdAt, DATE_TIME_FORMAT)}
+                    {' · '}
+                    {version.createdBy ? version.createdBy.username : 'Saved before history was kept'}
+                  </div>
+                  <div className="text-sm">
+                    {version.placementCount} {version.placementCount === 1 ? 'artwork' : 'artworks'}
+                    {version.restoredFromVersion && ` · restored from version ${version.restoredFromVersion}`}
+                  </div>
+                  {diffs[version.version] && renderDiff(diffs[version.version])}
+                </div>
+              </List.Item>
+            );
+          }}
+        />
+      )}
+    </Drawer>
+  );
+};
+
+export default LayoutHistoryDrawer;
@@ -0,0 +1,242 @@
+'use client';
+
+import React from 'react';
+import { Button, Card, Empty, Input, InputNumber, Popconfirm, Select, Space, Switch, Tooltip, Typography, Upload } from 'antd';
+import {
+  ArrowDownOutlined,
+  ArrowUpOutlined,
+  DeleteOutlined,
+  PlusOutlined,
+  SoundOutlined,
+  UploadOutlined
+} from '@ant-design/icons';
+import { Wall } from '@/types/exhibition.types';
+import { CameraPose } from '@/types/tour.types';
+import { Vector3 } from '@/types/unity.types';
+import { formatImageUrl } from '@/utils/format';
+
+const { Text } = Typography;
+const { TextArea } = Input;
+
+// A stop as edited: saved stops keep their id, new ones only have a key
+export interface TourStopDraft {
+  key: string;
+  id?: string;
+  wallId: string;
+  artworkId: string;
+  cameraPose: CameraPose | null;
+  narration: string;
+  audioUrl: string | null;
+}
+
+interface TourStopsEditorProps {
+  stops: TourStopDraft[];
+  // The exhibition's draft walls; stops can only point at artworks hung on them
+  walls: Wall[];
+  onChange: (stops: TourStopDraft[]) => void;
+  // Audio is attached to saved stops only, so these are called straight away
+  onUploadAudio: (stop: TourStopDraft, file: File) => void;
+  onRemoveAudio: (stop: TourStopDraft) => void;
+  disabled?: boolean;
+}
+
+// Where the camera starts when a curator first sets a pose: eye height, a few metres back
+const DEFAULT_CAMERA_POSE: CameraPose = {
+  position: { x: 0, y: 1.6, z: -3 },
+  rotation: { x: 0, y: 0, z: 0 }
+};
+
+const AXES: Array<keyof Vector3> = ['x', 'y', 'z'];
+
+let nextDraftKey = 0;
+export const newDraftKey = () => `new-${++nextDraftKey}`;
+
+/**
+ * Edits a tour's ordered stops: which artwork each shows, the narration, an
+ * optional camera pose and the narration clip.
+ */
+const TourStopsEditor: React.FC<TourStopsEditorProps> = ({
+  stops,
+  walls,
+  onChange,
+  onUploadAudio,
+  onRemoveAudio,
+  disabled = false
+}) => {
+  const hungWalls = walls.filter(wall => wall.placements.some(placement => placement.artwork));
+
+  const update = (index: number, changes: Partial<TourStopDraft>) => {
+    onChange(stops.map((stop, i) => (i === index ? { ...stop, ...changes } : stop)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...stops];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const addStop = () => {
+    const wall = hungWalls[0];
+    if (!wall) return;
+    onChange([...stops, {
+      key: newDraftKey(),
+      wallId: wall.id,
+      artworkId: wall.placements[0].artworkId,
+      cameraPose: null,
+      narration: '',
+      audioUrl: null
+    }]);
+  };
+
+  const setPoseAxis = (index: number, part: 'position' | 'rotation', axis: keyof Vector3, value: number | null) => {
+    const pose = stops[index].cameraPose || DEFAULT_CAMERA_POSE;
+    update(index, { cameraPose: { ...pose, [part]: { ...pose[part], [axis]: value ?? 0 } } });
+  };
+
+  if (hungWalls.length === 0) {
+    return <Empty description="Hang artworks on the walls before adding tour stops" />;
+  }
+
+  return (
+    <div>
+      {stops.length === 0 && <Empty description="No stops yet" className="mb-4" />}
+
+      {stops.map((stop, index) => {
+        const wall = walls.find(w => w.id === stop.wallId);
+
+        return (
+          <Card
+            key={stop.id || stop.key}
+            size="small"
+            className="mb-3"
+            title={`Stop ${index + 1}`}
+            extra={
+              <Space>
+                <Button size="small" icon={<ArrowUpOutlined />} disabled={disabled || index === 0} onClick={() => move(index, -1)} />
+                <Button size="small" icon={<ArrowDownOutlined />} disabled={disabled || index === stops.length - 1} onClick={() => move(index, 1)} />
+                <Popconfirm
+                  title="Remove this stop?"
+                  description={stop.audioUrl ? 'Its narration clip is deleted when the stops are saved.' : undefined}
+                  onConfirm={() => onChange(stops.filter((_, i) => i !== index))}
+                  disabled={disabled}
+                >
+                  <Button size="small" danger icon={<DeleteOutlined />} disabled={disabled} />
+                </Popconfirm>
+              </Space>
+            }
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+              <Select
+                value={stop.wallId}
+                disabled={disabled}
+                onChange={wallId => {
+                  const nextWall = walls.find(w => w.id === wallId);
+                  update(index, { wallId, artworkId: nextWall?.placements[0]?.artworkId || '' });
+                }}
+                options={hungWalls.map(w => ({ value: w.id, label: w.name }))}
+              />
+              <Select
+                value={stop.artworkId || undefined}
+                placeholder="Artwork"
+                disabled={disabled}
+                status={wall?.placements.some(p => p.artworkId === stop.artworkId) ? undefined : 'error'}
+                onChange={artworkId => update(index, { artworkId })}
+                options={(wall?.placements || []).map(placement => ({
+                  value: placement.artworkId,
+                  label: placement.artwork?.title || 'Untitled'
+                }))}
+              />
+            </div>
+
+            <TextArea
+              rows={3}
+              placeholder="What visitors read at this stop"
+              value={stop.narration}
+              disabled={disabled}
+              onChange={e => update(index, { narration: e.target.value })}
+            />
+
+            <div className="mt-3 flex items-center gap-2">
+              <Switch
+                size="small"
+                checked={!!stop.cameraPose}
+                disabled={disabled}
+                onChange={checked => update(index, { cameraPose: checked ? DEFAULT_CAMERA_POSE : null })}
+              />
+              <Text>{stop.cameraPose ? 'Custom camera pose' : 'Let the viewer frame the artwork'}</Text>
+            </div>
+
+            {stop.cameraPose && (
+              <div className="mt-2 space-y-2">
+                {(['position', 'rotation'] as const).map(part => (
+                  <Space key={part} wrap>
+                    <Text type="secondary" className="inline-block w-16">{part === 'position' ? 'Position' : 'Rotation'}</Text>
+                    {AXES.map(axis => (
+                      <InputNumber
+                        key={axis}
+                        size="small"
+                        addonBefore={axis}
+                        step={part === 'position' ? 0.1 : 5}
+                        value={(stop.cameraPose as CameraPose)[part][axis]}
+                        disabled={disabled}
+                        onChange={value => setPoseAxis(index, part, axis, value)}
+                      />
+                    ))}
+                  </Space>
+                ))}
+                <Space>
+                  <Text type="secondary" className="inline-block w-16">FOV</Text>
+                  <InputNumber
+                    size="small"
+                    min={10}
+                    max={120}
+                    placeholder="Default"
+                    value={stop.cameraPose.fieldOfView}
+                    disabled={disabled}
+                    onChange={value => update(index, {
+                      cameraPose: { ...(stop.cameraPose as CameraPose), fieldOfView: value ?? undefined }
+                    })}
+                  />
+                </Space>
+              </div>
+            )}
+
+            <div className="mt-3 flex items-center gap-2">
+              <SoundOutlined />
+              {stop.audioUrl ? (
+                <>
+                  <audio src={formatImageUrl(stop.audioUrl)} controls className="h-8" />
+                  <Button size="small" danger disabled={disabled} onClick={() => onRemoveAudio(stop)}>
+                    Remove Audio
+                  </Button>
+                </>
+              ) : stop.id ? (
+                <Upload
+                  accept="audio/*"
+                  showUploadList={false}
+                  disabled={disabled}
+                  beforeUpload={file => {
+                    onUploadAudio(stop, file);
+                    return false;
+                  }}
+                >
+                  <Button size="small" icon={<UploadOutlined />} disabled={disabled}>Add Narration Audio</Button>
+                </Upload>
+              ) : (
+                <Tooltip title="Audio is attached to saved stops">
+                  <Text type="secondary">Save the stops to add audio</Text>
+                </Tooltip>
+              )}
+            </div>
+          </Card>
+        );
+      })}
+
+      <Button type="dashed" block icon={<PlusOutlined />} disabled={disabled} onClick={addStop}>
+        Add Stop
+      </Button>
+    </div>
+  );
+};
+
+export default TourStopsEditor;
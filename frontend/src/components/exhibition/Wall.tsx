@@ -3,6 +3,7 @@ import React from 'react';
 import { Card, Typography, Button, Popconfirm, Badge, Tooltip } from 'antd';
 import { EditOutlined, DeleteOutlined, LayoutOutlined } from '@ant-design/icons';
 import { Wall } from '@/types/exhibition.types';
+import { formatDimensions } from '@/utils/format';
 
 const { Title } = Typography;
 
@@ -87,6 +88,7 @@ const WallComponent: React.FC<WallProps> = ({
       <div className="flex justify-between items-center">
         <div className="text-gray-500">
           <p>Display Order: {wall.displayOrder}</p>
+          <p>Size: {formatDimensions(wall)}</p>
           <p className="flex items-center">
             <span className="mr-2">Status:</span>
             <Badge status={statusColor} text={statusText} />
@@ -1,10 +1,19 @@
 // frontend/src/components/exhibition/WallLayout.tsx
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useDrop } from 'react-dnd';
-import { Typography, Button, Image, Tooltip, Badge } from 'antd';
-import { CloseOutlined, InfoCircleOutlined } from '@ant-design/icons';
-import { Wall, PlacementPosition, ArtworkPlacement, DraggableArtwork } from '@/types/exhibition.types';
-import { formatImageUrl } from '@/utils/format';
+import { Typography, Button, Image, Tooltip, Badge, Alert, Tag } from 'antd';
+import { CloseOutlined, InfoCircleOutlined, LockOutlined, WarningOutlined } from '@ant-design/icons';
+import {
+  Wall,
+  PlacementPosition,
+  ArtworkPlacement,
+  DraggableArtwork,
+  LayoutDragPreview,
+  PlacementLock,
+  PlacementIssue
+} from '@/types/exhibition.types';
+import { formatDimensions, formatImageUrl, getEditorColor } from '@/utils/format';
+import WallPreview from '@/components/exhibition/WallPreview';
 
 const { Title, Text } = Typography;
 
@@ -12,12 +21,24 @@ interface WallLayoutProps {
   wall: Wall;
   onArtworkPlace: (artworkId: string, position: PlacementPosition, wallId: string) => void;
   onArtworkRemove: (placementId: string) => void;
+  // Slots other curators are working on
+  locks?: PlacementLock[];
+  // Artworks other curators are dragging
+  remoteDrags?: LayoutDragPreview[];
+  // Called as a dragged artwork moves over and off the slots
+  onSlotHover?: (position: PlacementPosition | null) => void;
+  // Why the last save was refused
+  issues?: PlacementIssue[];
 }
 
 const WallLayout: React.FC<WallLayoutProps> = ({ 
   wall, 
   onArtworkPlace, 
-  onArtworkRemove
+  onArtworkRemove,
+  locks = [],
+  remoteDrags = [],
+  onSlotHover,
+  issues = []
 }) => {
   // State to track active drag operations
   const [isDragging, setIsDragging] = useState(false);
@@ -30,11 +51,24 @@ const WallLayout: React.FC<WallLayoutProps> = ({
   // Count number of filled slots
   const filledSlots = [leftPlacement, centerPlacement, rightPlacement].filter(Boolean).length;
   const totalSlots = 3;
+  
+  // Artworks hung by coordinates, e.g. by the auto-layout generator
+  const customPlacements = wall.placements?.filter(p => p.position === PlacementPosition.CUSTOM) || [];
+  
+  // Problems that involve a slot, either the artwork headed for it or the one already there
+  const getSlotIssues = (position: PlacementPosition, placement?: ArtworkPlacement) =>
+    issues.filter(issue =>
+      issue.position === position ||
+      (placement && (issue.artworkId === placement.artworkId || issue.otherArtworkId === placement.artworkId))
+    );
 
   return (
     <div className="my-6">
       <div className="flex justify-between items-center mb-4">
-        <Title level={3}>{wall.name} Layout</Title>
+        <div>
+          <Title level={3}>{wall.name} Layout</Title>
+          <Text type="secondary">{formatDimensions(wall)}</Text>
+        </div>
         <Badge 
           count={`${filledSlots}/${totalSlots}`} 
           className="site-badge-count-4"
@@ -42,12 +76,32 @@ const WallLayout: React.FC<WallLayoutProps> = ({
         />
       </div>
       
+      {issues.length > 0 && (
+        <Alert
+          className="mb-4"
+          type="error"
+          showIcon
+          message="These artworks don't fit on the wall"
+          description={
+            <ul className="list-disc pl-4">
+              {issues.map(issue => (
+                <li key={`${issue.code}-${issue.index}-${issue.otherIndex ?? ''}`}>{issue.message}</li>
+              ))}
+            </ul>
+          }
+        />
+      )}
+      
       <div className="flex flex-wrap justify-between gap-4 p-4 bg-gray-100 rounded-lg">
         {/* Left Position */}
         <PlacementSlot 
           position={PlacementPosition.LEFT}
           placement={leftPlacement}
           wallId={wall.id}
+          lock={locks.find(lock => lock.wallId === wall.id && lock.position === PlacementPosition.LEFT)}
+          remoteDrag={remoteDrags.find(drag => drag.wallId === wall.id && drag.position === PlacementPosition.LEFT)}
+          onHoverChange={onSlotHover}
+          issues={getSlotIssues(PlacementPosition.LEFT, leftPlacement)}
           onArtworkPlace={onArtworkPlace}
           onArtworkRemove={onArtworkRemove}
           isDraggingGlobal={isDragging}
@@ -59,6 +113,10 @@ const WallLayout: React.FC<WallLayoutProps> = ({
           position={PlacementPosition.CENTER}
           placement={centerPlacement}
           wallId={wall.id}
+          lock={locks.find(lock => lock.wallId === wall.id && lock.position === PlacementPosition.CENTER)}
+          remoteDrag={remoteDrags.find(drag => drag.wallId === wall.id && drag.position === PlacementPosition.CENTER)}
+          onHoverChange={onSlotHover}
+          issues={getSlotIssues(PlacementPosition.CENTER, centerPlacement)}
           onArtworkPlace={onArtworkPlace}
           onArtworkRemove={onArtworkRemove}
           isDraggingGlobal={isDragging}
@@ -70,6 +128,10 @@ const WallLayout: React.FC<WallLayoutProps> = ({
           position={PlacementPosition.RIGHT}
           placement={rightPlacement}
           wallId={wall.id}
+          lock={locks.find(lock => lock.wallId === wall.id && lock.position === PlacementPosition.RIGHT)}
+          remoteDrag={remoteDrags.find(drag => drag.wallId === wall.id && drag.position === PlacementPosition.RIGHT)}
+          onHoverChange={onSlotHover}
+          issues={getSlotIssues(PlacementPosition.RIGHT, rightPlacement)}
           onArtworkPlace={onArtworkPlace}
           onArtworkRemove={onArtworkRemove}
           isDraggingGlobal={isDragging}
@@ -77,11 +139,41 @@ const WallLayout: React.FC<WallLayoutProps> = ({
         />
       </div>
       
+      {customPlacements.length > 0 && (
+        <div className="mt-4">
+          <Text strong>Hung by position on the wall</Text>
+          <div className="mt-2">
+            <WallPreview
+              wall={wall}
+              placements={customPlacements}
+              highlightedArtworkIds={issues.flatMap(issue =>
+                issue.otherArtworkId ? [issue.artworkId, issue.otherArtworkId] : [issue.artworkId]
+              )}
+            />
+          </div>
+          <div className="mt-2 flex flex-wrap gap-y-2">
+            {customPlacements.map(placement => (
+              <Tag
+                key={placement.id}
+                closable
+                onClose={e => {
+                  e.preventDefault();
+                  onArtworkRemove(placement.id);
+                }}
+              >
+                {placement.artwork?.title || 'Untitled'}
+              </Tag>
+            ))}
+          </div>
+        </div>
+      )}
+      
       <div className="mt-4 p-3 bg-blue-50 text-blue-700 rounded-md flex items-start">
         <InfoCircleOutlined className="mr-2 mt-1" />
         <div>
           <p className="font-medium">Drag artworks from the stockpile on the left and drop them into one of the three position slots above.</p>
           <p className="text-sm mt-1">Each wall can display three artworks. You can remove an artwork by clicking the X button and replace it with another one.</p>
+          <p className="text-sm mt-1">To hang more, use Auto Layout to have the artworks arranged to fit the wall.</p>
         </div>
       </div>
     </div>
@@ -96,6 +188,10 @@ interface PlacementSlotProps {
   onArtworkRemove: (placementId: string) => void;
   isDraggingGlobal: boolean;
   onDragStateChange: (isDragging: boolean) => void;
+  lock?: PlacementLock;
+  remoteDrag?: LayoutDragPreview;
+  onHoverChange?: (position: PlacementPosition | null) => void;
+  issues: PlacementIssue[];
 }
 
 const PlacementSlot: React.FC<PlacementSlotProps> = ({
@@ -105,7 +201,11 @@ const PlacementSlot: React.FC<PlacementSlotProps> = ({
   onArtworkPlace,
   onArtworkRemove,
   isDraggingGlobal,
-  onDragStateChange
+  onDragStateChange,
+  lock,
+  remoteDrag,
+  onHoverChange,
+  issues
 }) => {
   // Set up drop target
   const [{ isOver, canDrop }, drop] = useDrop({
@@ -114,13 +214,28 @@ const PlacementSlot: React.FC<PlacementSlotProps> = ({
       onArtworkPlace(item.id, position, wallId);
       return { position, wallId };
     },
-    canDrop: () => !placement, // Only allow drop if no artwork is already placed
+    // Only allow drop if the slot is empty and no one else is working on it
+    canDrop: () => !placement && !lock,
     collect: (monitor) => ({
       isOver: monitor.isOver(),
       canDrop: monitor.canDrop(),
     }),
   });
 
+  // Let the other curators see which slot a dragged artwork is over
+  useEffect(() => {
+    if (!onHoverChange) return;
+
+    if (isOver) {
+      onHoverChange(position);
+      return () => onHoverChange(null);
+    }
+  }, [isOver, position, onHoverChange]);
+
+  // Another curator's drag or lock outlines the slot in their color
+  const remoteUser = lock || remoteDrag;
+  const remoteColor = remoteUser ? getEditorColor(remoteUser.userId) : undefined;
+
   // Determine the background color based on drop state
   let backgroundColor = 'bg-white';
   if (isOver && canDrop) {
@@ -140,6 +255,8 @@ const PlacementSlot: React.FC<PlacementSlotProps> = ({
     borderStyle = 'border-green-500';
   } else if (canDrop && isDraggingGlobal) {
     borderStyle = 'border-blue-400 border-dashed';
+  } else if (issues.length > 0) {
+    borderStyle = 'border-red-500';
   }
 
   // Get position title for display
@@ -156,11 +273,16 @@ const PlacementSlot: React.FC<PlacementSlotProps> = ({
         drop(node);
       }}
       className={`flex-1 min-w-64 min-h-64 p-2 rounded border-2 ${borderStyle} ${backgroundColor} transition-colors duration-200`}
+      style={remoteColor ? { borderColor: remoteColor } : undefined}
     >
       <div className="flex justify-between items-center mb-2">
         <Text strong>{positionTitle[position]}</Text>
         
-        {placement && (
+        {lock ? (
+          <Tooltip title={`${lock.username} is working on this slot`}>
+            <LockOutlined style={{ color: remoteColor }} />
+          </Tooltip>
+        ) : placement && (
           <Tooltip title="Remove artwork">
             <Button 
               type="text" 
@@ -173,6 +295,21 @@ const PlacementSlot: React.FC<PlacementSlotProps> = ({
         )}
       </div>
       
+      {issues.length > 0 && (
+        <Tooltip title={issues.map(issue => issue.message).join('. ')}>
+          <div className="text-xs mb-2 text-red-500">
+            <WarningOutlined className="mr-1" />
+            Doesn&apos;t fit here
+          </div>
+        </Tooltip>
+      )}
+      
+      {remoteDrag && (
+        <div className="text-xs mb-2" style={{ color: remoteColor }}>
+          {remoteDrag.username} is placing {remoteDrag.artworkTitle || 'an artwork'} here
+        </div>
+      )}
+      
       {placement ? (
         <div className="p-2">
           <Image
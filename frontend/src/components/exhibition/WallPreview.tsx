@@ -0,0 +1,86 @@
+'use client';
+
+import React from 'react';
+import { Tooltip } from 'antd';
+import { Artwork } from '@/types/artwork.types';
+import { Wall } from '@/types/exhibition.types';
+import { formatImageUrl } from '@/utils/format';
+
+// The size the server assumes for artworks submitted without one, in metres
+const DEFAULT_ARTWORK_SIZE = { width: 1, height: 1 };
+
+export interface WallPreviewPlacement {
+  artworkId: string;
+  coordinates?: { x: number; y: number; z: number } | null;
+  rotation?: { x: number; y: number; z: number } | null;
+  scale?: { x: number; y: number; z: number } | null;
+  artwork: Artwork;
+}
+
+interface WallPreviewProps {
+  wall: Pick<Wall, 'width' | 'height'>;
+  // Only placements with coordinates are drawn
+  placements: WallPreviewPlacement[];
+  // Outlined in red, e.g. artworks a save was refused for
+  highlightedArtworkIds?: string[];
+  selectedArtworkId?: string | null;
+  onSelect?: (artworkId: string) => void;
+}
+
+/**
+ * A to-scale elevation of a wall showing where artworks placed by
+ * coordinates hang
+ */
+const WallPreview: React.FC<WallPreviewProps> = ({
+  wall,
+  placements,
+  highlightedArtworkIds = [],
+  selectedArtworkId,
+  onSelect
+}) => {
+  const toPercent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <div
+      className="relative w-full bg-gray-100 border border-gray-300 rounded overflow-hidden"
+      style={{ aspectRatio: `${wall.width} / ${wall.height}` }}
+    >
+      {placements.map(placement => {
+        if (!placement.coordinates) return null;
+
+        const width = (placement.artwork.width ?? DEFAULT_ARTWORK_SIZE.width) * (placement.scale?.x ?? 1);
+        const height = (placement.artwork.height ?? DEFAULT_ARTWORK_SIZE.height) * (placement.scale?.y ?? 1);
+        const { x, y } = placement.coordinates;
+
+        let outline = 'border-white';
+        if (highlightedArtworkIds.includes(placement.artworkId)) {
+          outline = 'border-red-500';
+        } else if (placement.artworkId === selectedArtworkId) {
+          outline = 'border-blue-500';
+        }
+
+        return (
+          <Tooltip key={placement.artworkId} title={placement.artwork.title}>
+            <div
+              className={`absolute border-2 ${outline} shadow ${onSelect ? 'cursor-pointer' : ''}`}
+              style={{
+                left: toPercent(x - width / 2, wall.width),
+                bottom: toPercent(y - height / 2, wall.height),
+                width: toPercent(width, wall.width),
+                height: toPercent(height, wall.height),
+                // The wall's y axis points up, so a positive turn is anticlockwise on screen
+                transform: `rotate(${-(placement.rotation?.z ?? 0)}deg)`,
+                backgroundImage: `url(${formatImageUrl(placement.artwork.thumbnailUrl || placement.artwork.fileUrl)})`,
+                backgroundSize: 'cover',
+                backgroundPosition: 'center'
+              }}
+              onClick={() => onSelect?.(placement.artworkId)}
+            />
+          </Tooltip>
+        );
+      })}
+    </div>
+  );
+};
+
+export default WallPreview;
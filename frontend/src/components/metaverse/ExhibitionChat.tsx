@@ -0,0 +1,280 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, Button, Dropdown, Empty, Input, Popconfirm, Select, Space, Spin, Tag, Tooltip, Typography, message } from 'antd';
+import { AudioMutedOutlined, DeleteOutlined, FieldTimeOutlined, SendOutlined } from '@ant-design/icons';
+import useExhibitionChat from '@/hooks/useExhibitionChat';
+import { User, UserRole } from '@/types/user.types';
+import { ChatMessage } from '@/types/chat.types';
+import { formatDate } from '@/utils/format';
+
+const { Text } = Typography;
+
+const MAX_MESSAGE_LENGTH = 500;
+
+const SLOW_MODE_OPTIONS = [
+  { value: 0, label: 'Slow mode off' },
+  { value: 5, label: 'One message per 5s' },
+  { value: 15, label: 'One message per 15s' },
+  { value: 30, label: 'One message per 30s' },
+  { value: 60, label: 'One message per minute' },
+  { value: 300, label: 'One message per 5 minutes' }
+];
+
+const MUTE_OPTIONS = [
+  { key: '10', label: 'Mute for 10 minutes' },
+  { key: '60', label: 'Mute for an hour' },
+  { key: '1440', label: 'Mute for a day' },
+  { key: 'indefinite', label: 'Mute until unmuted' }
+];
+
+// Follow new messages only when the reader is already at the bottom
+const STICK_TO_BOTTOM_PX = 48;
+
+interface ExhibitionChatProps {
+  exhibitionId: string;
+  user: User | null;
+  className?: string;
+}
+
+const isStaff = (author: ChatMessage['user']) =>
+  author?.role === UserRole.CURATOR || author?.role === UserRole.ADMIN;
+
+/**
+ * An exhibition's visitor chat, shown beside the 3D viewer. Curators and
+ * admins can delete messages, mute visitors and turn on slow mode.
+ */
+const ExhibitionChat: React.FC<ExhibitionChatProps> = ({ exhibitionId, user, className }) => {
+  const {
+    messages,
+    loading,
+    error,
+    hasMore,
+    slowModeSeconds,
+    canPost,
+    canModerate,
+    mute,
+    send,
+    loadOlder,
+    deleteMessage,
+    muteUser,
+    setSlowMode
+  } = useExhibitionChat(exhibitionId, user);
+
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  // Slow mode makes visitors wait after each message
+  const [waitUntil, setWaitUntil] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  const listRef = useRef<HTMLDivElement>(null);
+  const stickToBottomRef = useRef(true);
+
+  // Keep up with the newest message unless the reader scrolled back
+  useEffect(() => {
+    const list = listRef.current;
+    if (list && stickToBottomRef.current) {
+      list.scrollTop = list.scrollHeight;
+    }
+  }, [messages]);
+
+  // Count down the slow mode wait
+  useEffect(() => {
+    if (waitUntil <= Date.now()) return;
+
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= waitUntil) clearInterval(timer);
+    }, 500);
+    return () => clearInterval(timer);
+  }, [waitUntil]);
+
+  const waitSeconds = Math.max(0, Math.ceil((waitUntil - now) / 1000));
+
+  const handleScroll = () => {
+    const list = listRef.current;
+    if (!list) return;
+    stickToBottomRef.current = list.scrollHeight - list.scrollTop - list.clientHeight < STICK_TO_BOTTOM_PX;
+  };
+
+  const handleSend = async () => {
+    const content = draft.trim();
+    if (!content || sending) return;
+
+    setSending(true);
+    try {
+      await send(content);
+      setDraft('');
+      stickToBottomRef.current = true;
+      if (slowModeSeconds > 0 && !canModerate) {
+        setWaitUntil(Date.now() + slowModeSeconds * 1000);
+        setNow(Date.now());
+      }
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to send the message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleLoadOlder = async () => {
+    setLoadingOlder(true);
+    stickToBottomRef.current = false;
+    try {
+      await loadOlder();
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to load earlier messages');
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const handleDelete = async (messageId: string) => {
+    try {
+      await deleteMessage(messageId);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to delete the message');
+    }
+  };
+
+  const handleMute = async (author: NonNullable<ChatMessage['user']>, key: string) => {
+    try {
+      await muteUser(author.id, key === 'indefinite' ? null : Number(key));
+      message.success(`${author.username} is muted`);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to mute the visitor');
+    }
+  };
+
+  const handleSlowMode = async (seconds: number) => {
+    try {
+      await setSlowMode(seconds);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to change slow mode');
+    }
+  };
+
+  const renderMessage = (chatMessage: ChatMessage) => {
+    const author = chatMessage.user;
+    const own = !!user && chatMessage.userId === user.id;
+
+    return (
+      <div key={chatMessage.id} className="group px-3 py-1.5 hover:bg-gray-50">
+        <div className="flex items-center gap-2">
+          <Text strong className="text-sm">{author?.username || 'Deleted'}</Text>
+          {isStaff(author) && <Tag color="gold" className="text-xs">Curator</Tag>}
+          <Text type="secondary" className="text-xs">
+            {formatDate(chatMessage.createdAt, { hour: '2-digit', minute: '2-digit' })}
+          </Text>
+          {!chatMessage.isDeleted && (own || canModerate) && (
+            <Space size={2} className="ml-auto opacity-0 group-hover:opacity-100">
+              {canModerate && author && !own && !isStaff(author) && (
+                <Dropdown
+                  trigger={['click']}
+                  menu={{ items: MUTE_OPTIONS, onClick: ({ key }) => handleMute(author, key) }}
+                >
+                  <Tooltip title={`Mute ${author.username}`}>
+                    <Button type="text" size="small" icon={<AudioMutedOutlined />} />
+                  </Tooltip>
+                </Dropdown>
+              )}
+              <Popconfirm title="Delete this message?" onConfirm={() => handleDelete(chatMessage.id)}>
+                <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+              </Popconfirm>
+            </Space>
+          )}
+        </div>
+        {chatMessage.isDeleted ? (
+          <Text type="secondary" italic className="text-sm">Message deleted</Text>
+        ) : (
+          <div className="text-sm whitespace-pre-wrap break-words">{chatMessage.content}</div>
+        )}
+      </div>
+    );
+  };
+
+  const renderComposer = () => {
+    if (!canPost) {
+      return <Text type="secondary">Sign in to join the conversation</Text>;
+    }
+
+    if (mute) {
+      return (
+        <Alert
+          type="warning"
+          showIcon
+          message={mute.until
+            ? `You are muted until ${formatDate(mute.until, { hour: '2-digit', minute: '2-digit' })}`
+            : 'A moderator has muted you in this chat'}
+        />
+      );
+    }
+
+    return (
+      <Space.Compact className="w-full">
+        <Input
+          placeholder={waitSeconds > 0 ? `Slow mode: wait ${waitSeconds}s` : 'Say something'}
+          value={draft}
+          maxLength={MAX_MESSAGE_LENGTH}
+          disabled={waitSeconds > 0}
+          onChange={e => setDraft(e.target.value)}
+          onPressEnter={handleSend}
+        />
+        <Button
+          type="primary"
+          icon={<SendOutlined />}
+          loading={sending}
+          disabled={!draft.trim() || waitSeconds > 0}
+          onClick={handleSend}
+        />
+      </Space.Compact>
+    );
+  };
+
+  return (
+    <div className={`flex flex-col bg-white ${className || ''}`}>
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-200">
+        <Text strong>Chat</Text>
+        {slowModeSeconds > 0 && (
+          <Tag icon={<FieldTimeOutlined />} color="blue">Slow mode {slowModeSeconds}s</Tag>
+        )}
+        {canModerate && (
+          <Select
+            size="small"
+            className="ml-auto w-48"
+            value={slowModeSeconds}
+            onChange={handleSlowMode}
+            options={SLOW_MODE_OPTIONS.some(option => option.value === slowModeSeconds)
+              ? SLOW_MODE_OPTIONS
+              : [...SLOW_MODE_OPTIONS, { value: slowModeSeconds, label: `One message per ${slowModeSeconds}s` }]}
+          />
+        )}
+      </div>
+
+      <div ref={listRef} onScroll={handleScroll} className="flex-1 overflow-y-auto py-2">
+        {hasMore && (
+          <div className="text-center mb-2">
+            <Button size="small" type="link" loading={loadingOlder} onClick={handleLoadOlder}>
+              Load earlier messages
+            </Button>
+          </div>
+        )}
+        {error && <Alert type="error" showIcon message={error} className="mx-3 mb-2" />}
+        {loading && messages.length === 0 ? (
+          <div className="flex justify-center py-8"><Spin /></div>
+        ) : messages.length === 0 ? (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No messages yet" />
+        ) : (
+          messages.map(renderMessage)
+        )}
+      </div>
+
+      <div className="px-3 py-2 border-t border-gray-200">
+        {renderComposer()}
+      </div>
+    </div>
+  );
+};
+
+export default ExhibitionChat;
@@ -0,0 +1,270 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Alert, Badge, Button, Card, Empty, Input, List, Popconfirm, Space, Tag, Typography, message } from 'antd';
+import {
+  AudioMutedOutlined,
+  AudioOutlined,
+  CheckOutlined,
+  LikeOutlined,
+  LogoutOutlined,
+  SendOutlined,
+  StopOutlined,
+  UserDeleteOutlined
+} from '@ant-design/icons';
+import { GroupTourFollower, GroupTourQuestion, GroupTourSession } from '@/types/groupTour.types';
+
+const { Text } = Typography;
+
+interface GroupTourPanelProps {
+  session: GroupTourSession | null;
+  role: 'guide' | 'follower' | null;
+  followers: GroupTourFollower[];
+  questions: GroupTourQuestion[];
+  muted: boolean;
+  handRaised: boolean;
+  notice: string | null;
+  // Curators may guide; everyone may follow
+  canGuide: boolean;
+  // Followers who are not signed in are asked for a name
+  signedIn: boolean;
+  start: () => Promise<void>;
+  join: (code: string, displayName?: string) => Promise<void>;
+  leave: () => void;
+  raiseHand: (raised: boolean) => void;
+  ask: (text: string) => Promise<void>;
+  answer: (questionId: string) => void;
+  mute: (socketId: string, muted: boolean) => void;
+  kick: (socketId: string) => void;
+}
+
+/**
+ * Controls for "follow the guide" group tours: starting one and managing its
+ * followers and questions as the guide, or joining one with a code and taking
+ * part as a follower
+ */
+const GroupTourPanel: React.FC<GroupTourPanelProps> = ({
+  session,
+  role,
+  followers,
+  questions,
+  muted,
+  handRaised,
+  notice,
+  canGuide,
+  signedIn,
+  start,
+  join,
+  leave,
+  raiseHand,
+  ask,
+  answer,
+  mute,
+  kick
+}) => {
+  const [code, setCode] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [question, setQuestion] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : fallback);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleJoin = () =>
+    run(() => join(code, signedIn ? undefined : displayName.trim() || undefined), 'Failed to join the tour');
+
+  const handleAsk = async () => {
+    if (await run(() => ask(question.trim()), 'Failed to send your question')) {
+      setQuestion('');
+      message.success('Question sent to the guide');
+    }
+  };
+
+  if (!session) {
+    return (
+      <Card size="small" title="Follow the Guide">
+        {notice && <Alert type="info" showIcon message={notice} className="mb-3" />}
+        <Space wrap>
+          <Input
+            placeholder="Tour code"
+            value={code}
+            maxLength={6}
+            className="w-32 uppercase"
+            onChange={e => setCode(e.target.value)}
+            onPressEnter={handleJoin}
+          />
+          {!signedIn && (
+            <Input
+              placeholder="Your name"
+              value={displayName}
+              maxLength={40}
+              className="w-40"
+              onChange={e => setDisplayName(e.target.value)}
+            />
+          )}
+          <Button type="primary" loading={busy} disabled={code.trim().length === 0} onClick={handleJoin}>
+            Join Tour
+          </Button>
+          {canGuide && (
+            <Button loading={busy} onClick={() => run(start, 'Failed to start the tour')}>
+              Guide a Group Tour
+            </Button>
+          )}
+        </Space>
+      </Card>
+    );
+  }
+
+  if (role === 'guide') {
+    const openQuestions = questions.filter(q => !q.answered);
+
+    return (
+      <Card
+        size="small"
+        title={
+          <Space>
+            <span>Guiding a group tour</span>
+            <Tag color="gold" className="text-base font-mono">{session.code}</Tag>
+          </Space>
+        }
+        extra={
+          <Popconfirm title="End the tour for everyone?" onConfirm={leave}>
+            <Button size="small" danger icon={<StopOutlined />}>End Tour</Button>
+          </Popconfirm>
+        }
+      >
+        <Text type="secondary" className="block mb-3">
+          Share the code with your group. They see what you see and the artworks you select.
+        </Text>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Text strong className="block mb-2">Followers ({followers.length})</Text>
+            {followers.length === 0 ? (
+              <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="Nobody has joined yet" />
+            ) : (
+              <List
+                size="small"
+                dataSource={followers}
+                renderItem={follower => (
+                  <List.Item
+                    actions={[
+                      <Button
+                        key="mute"
+                        size="small"
+                        icon={follower.muted ? <AudioOutlined /> : <AudioMutedOutlined />}
+                        onClick={() => mute(follower.socketId, !follower.muted)}
+                      >
+                        {follower.muted ? 'Unmute' : 'Mute'}
+                      </Button>,
+                      <Popconfirm
+                        key="kick"
+                        title={`Remove ${follower.displayName} from the tour?`}
+                        onConfirm={() => kick(follower.socketId)}
+                      >
+                        <Button size="small" danger icon={<UserDeleteOutlined />} />
+                      </Popconfirm>
+                    ]}
+                  >
+                    <Space>
+                      <span>{follower.displayName}</span>
+                      {follower.handRaised && <Tag color="orange" icon={<LikeOutlined />}>Hand raised</Tag>}
+                      {follower.muted && <Tag>Muted</Tag>}
+                    </Space>
+                  </List.Item>
+                )}
+              />
+            )}
+          </div>
+
+          <div>
+            <Text strong className="block mb-2">
+              Questions <Badge count={openQuestions.length} />
+            </Text>
+            {questions.length === 0 ? (
+              <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No questions yet" />
+            ) : (
+              <List
+                size="small"
+                dataSource={[...questions].reverse()}
+                renderItem={q => (
+                  <List.Item
+                    actions={q.answered ? [] : [
+                      <Button key="answer" size="small" icon={<CheckOutlined />} onClick={() => answer(q.id)}>
+                        Answered
+                      </Button>
+                    ]}
+                  >
+                    <div className={q.answered ? 'opacity-50' : undefined}>
+                      <Text strong>{q.displayName}: </Text>
+                      <span>{q.text}</span>
+                    </div>
+                  </List.Item>
+                )}
+              />
+            )}
+          </div>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card
+      size="small"
+      title={`Following ${session.guideName}`}
+      extra={
+        <Button size="small" icon={<LogoutOutlined />} onClick={leave}>
+          Leave Tour
+        </Button>
+      }
+    >
+      <Text type="secondary" className="block mb-3">
+        {session.followerCount} {session.followerCount === 1 ? 'visitor' : 'visitors'} on this tour.
+        Your camera follows the guide.
+      </Text>
+
+      {muted ? (
+        <Alert type="warning" showIcon message="The guide has muted you" />
+      ) : (
+        <Space direction="vertical" className="w-full">
+          <Button
+            icon={<LikeOutlined />}
+            type={handRaised ? 'primary' : 'default'}
+            onClick={() => raiseHand(!handRaised)}
+          >
+            {handRaised ? 'Lower Hand' : 'Raise Hand'}
+          </Button>
+          <Space.Compact className="w-full">
+            <Input
+              placeholder="Ask the guide a question"
+              value={question}
+              maxLength={500}
+              onChange={e => setQuestion(e.target.value)}
+              onPressEnter={handleAsk}
+            />
+            <Button
+              type="primary"
+              icon={<SendOutlined />}
+              loading={busy}
+              disabled={question.trim().length === 0}
+              onClick={handleAsk}
+            />
+          </Space.Compact>
+        </Space>
+      )}
+    </Card>
+  );
+};
+
+export default GroupTourPanel;
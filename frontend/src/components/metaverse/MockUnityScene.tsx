@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Empty, List, Tag, Typography } from 'antd';
+import { PlanPoint } from '@/types/exhibition.types';
+import { MockUnityInstance } from '@/lib/mockUnity';
+import { getArtworkPlanPositions, getWallEnds } from '@/components/exhibition/FloorPlanCanvas';
+
+const { Text } = Typography;
+
+interface MockUnitySceneProps {
+  instance: MockUnityInstance;
+}
+
+// A visitor marker: a dot with a tick pointing the way they face
+const VisitorMarker: React.FC<{ x: number; z: number; heading: number; color: string; label: string }> = ({
+  x, z, heading, color, label
+}) => {
+  const radians = (heading * Math.PI) / 180;
+  return (
+    <g>
+      <circle cx={x} cy={-z} r={0.3} fill={color} stroke="#fff" strokeWidth={0.05} />
+      <line
+        x1={x}
+        y1={-z}
+        x2={x + Math.sin(radians) * 0.6}
+        y2={-z - Math.cos(radians) * 0.6}
+        stroke={color}
+        strokeWidth={0.1}
+      />
+      <text x={x} y={-z - 0.5} fontSize={0.4} textAnchor="middle" fill="#374151">{label}</text>
+    </g>
+  );
+};
+
+/**
+ * A flat, top-down stand-in for the 3D scene, drawn from what a
+ * MockUnityInstance has loaded. Clicking an artwork selects it the way a
+ * click in Unity would.
+ */
+const MockUnityScene: React.FC<MockUnitySceneProps> = ({ instance }) => {
+  const [scene, setScene] = useState(() => instance.getScene());
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    setScene(instance.getScene());
+    return instance.subscribe(setScene);
+  }, [instance]);
+
+  if (!scene.exhibitionId) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-gray-50">
+        <Empty description="Mock Unity: no exhibition loaded" />
+      </div>
+    );
+  }
+
+  const walls = scene.floorPlan
+    ? scene.floorPlan.rooms.flatMap(room => room.walls).filter(wall => wall.position)
+    : [];
+  const artworks = walls.flatMap(getArtworkPlanPositions);
+
+  const points = [
+    ...(scene.floorPlan?.rooms.flatMap(room => room.footprint) || []),
+    ...artworks.map(artwork => artwork.at)
+  ];
+  // Walk to where a room was clicked, facing the way of travel
+  const handleFloorClick = (event: React.MouseEvent) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return;
+
+    const point = svg.createSVGPoint();
+    point.x = event.clientX;
+    point.y = event.clientY;
+    const { x, y } = point.matrixTransform(matrix.inverse());
+    const target = { x, y: 0, z: -y };
+
+    const from = scene.player?.position;
+    const heading = from && (from.x !== target.x || from.z !== target.z)
+      ? (Math.atan2(target.x - from.x, target.z - from.z) * 180) / Math.PI
+      : scene.player?.heading || 0;
+    instance.movePlayer(target, heading);
+  };
+
+  const minX = Math.min(0, ...points.map(point => point.x)) - 1;
+  const maxX = Math.max(10, ...points.map(point => point.x)) + 1;
+  const minY = Math.min(0, ...points.map(point => point.y)) - 1;
+  const maxY = Math.max(10, ...points.map(point => point.y)) + 1;
+
+  return (
+    <div className="w-full h-full flex bg-gray-50">
+      <div className="flex-1 p-4">
+        <div className="mb-2 flex items-center gap-2">
+          <Tag color="purple">Mock Unity</Tag>
+          <Text type="secondary">
+            Exhibition {scene.exhibitionId}{scene.previewToken ? ' (draft preview)' : ''}
+          </Text>
+          {scene.tour && (
+            <Tag color="blue">
+              Tour &quot;{scene.tour.title}&quot;: stop {scene.tour.stopIndex + 1} of {scene.tour.stops.length}
+            </Tag>
+          )}
+          {scene.following && (
+            <Tag color="gold">Following {scene.following.guideName || 'the guide'}</Tag>
+          )}
+        </div>
+        {scene.floorPlan ? (
+          // The plan's y axis points north, so it is drawn flipped: SVG y is -y
+          <svg
+            ref={svgRef}
+            viewBox={`${minX} ${-maxY} ${maxX - minX} ${maxY - minY}`}
+            className="w-full h-[90%] bg-white rounded"
+          >
+            {scene.floorPlan.rooms.map(room => (
+              <polygon
+                key={room.id}
+                points={room.footprint.map(point => `${point.x},${-point.y}`).join(' ')}
+                fill="#f3f4f6"
+                stroke="#9ca3af"
+                strokeWidth={0.05}
+                className="cursor-crosshair"
+                onClick={handleFloorClick}
+              />
+            ))}
+            {scene.floorPlan.doorways.map(doorway => (
+              <circle
+                key={doorway.id}
+                cx={doorway.position.x}
+                cy={-doorway.position.y}
+                r={doorway.width / 2}
+                fill="#bbf7d0"
+              />
+            ))}
+            {walls.map(wall => {
+              const [start, end] = getWallEnds(wall.position as PlanPoint, wall.orientation, wall.width);
+              return (
+                <line
+                  key={wall.id}
+                  x1={start.x}
+                  y1={-start.y}
+                  x2={end.x}
+                  y2={-end.y}
+                  stroke="#374151"
+                  strokeWidth={0.2}
+                />
+              );
+            })}
+            {artworks.map(artwork => (
+              <circle
+                key={artwork.artworkId}
+                cx={artwork.at.x}
+                cy={-artwork.at.y}
+                r={0.25}
+                fill={artwork.artworkId === scene.selectedArtworkId ? '#4f46e5' : '#f59e0b'}
+                className="cursor-pointer"
+                onClick={() => instance.clickArtwork(artwork.artworkId)}
+              >
+                <title>{artwork.title}</title>
+              </circle>
+            ))}
+            {Object.entries(scene.avatars).map(([avatarId, avatar]) => (
+              <VisitorMarker
+                key={avatarId}
+                x={avatar.position.x}
+                z={avatar.position.z}
+                heading={avatar.heading}
+                color={avatar.color}
+                label={avatar.displayName}
+              />
+            ))}
+            {scene.player && (
+              <VisitorMarker
+                x={scene.player.position.x}
+                z={scene.player.position.z}
+                heading={scene.player.heading}
+                color="#111827"
+                label="You"
+              />
+            )}
+          </svg>
+        ) : (
+          <Empty description="Loaded without a floor plan; the real client would fetch the walls itself" />
+        )}
+      </div>
+
+      <div className="w-64 p-4 overflow-auto bg-white border-l border-gray-200">
+        <Text strong>Artworks</Text>
+        <List
+          size="small"
+          dataSource={artworks}
+          locale={{ emptyText: 'None on the plan' }}
+          renderItem={artwork => (
+            <List.Item
+              className={`cursor-pointer ${artwork.artworkId === scene.selectedArtworkId ? 'bg-indigo-50' : ''}`}
+              onClick={() => instance.clickArtwork(artwork.artworkId)}
+            >
+              {artwork.title}
+              {scene.artworkTransforms[artwork.artworkId] && <Tag className="ml-2">moved</Tag>}
+            </List.Item>
+          )}
+        />
+
+        <Text strong className="block mt-4">Other Visitors</Text>
+        <List
+          size="small"
+          dataSource={Object.entries(scene.avatars)}
+          locale={{ emptyText: 'Nobody nearby' }}
+          renderItem={([avatarId, avatar]) => (
+            <List.Item key={avatarId}>
+              <Tag color={avatar.color}>{avatar.displayName}</Tag>
+            </List.Item>
+          )}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default MockUnityScene;
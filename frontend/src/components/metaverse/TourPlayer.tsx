@@ -0,0 +1,193 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, Button, Card, Empty, Image, Space, Steps, Tag, Typography, message } from 'antd';
+import { LeftOutlined, RightOutlined, StopOutlined } from '@ant-design/icons';
+import { Tour } from '@/types/tour.types';
+import { TourCommandStop } from '@/types/unity.types';
+import unityBridge from '@/lib/unityBridge';
+import { formatImageUrl } from '@/utils/format';
+
+const { Title, Paragraph, Text } = Typography;
+
+interface TourPlayerProps {
+  // The tour with its stops
+  tour: Tour;
+  // Drive the 3D scene; otherwise each stop is shown as a flat picture
+  useUnity: boolean;
+  onEnd: () => void;
+}
+
+const toCommandStops = (tour: Tour): TourCommandStop[] =>
+  (tour.stops || []).map(stop => ({
+    id: stop.id,
+    wallId: stop.wallId,
+    artworkId: stop.artworkId,
+    cameraPose: stop.cameraPose,
+    narration: stop.narration,
+    audioUrl: stop.audioUrl ? formatImageUrl(stop.audioUrl) : null
+  }));
+
+/**
+ * Plays a guided tour. With Unity the camera flies between stops and this
+ * shows the narration and controls; without it every stop is shown as its
+ * artwork's picture.
+ */
+const TourPlayer: React.FC<TourPlayerProps> = ({ tour, useUnity, onEnd }) => {
+  const stops = tour.stops || [];
+  const [stopIndex, setStopIndex] = useState(0);
+  // Unity refused the tour, so it is played flat instead
+  const [unityFailed, setUnityFailed] = useState(false);
+  const [moving, setMoving] = useState(false);
+  // Whether Unity still has the tour running and needs telling when it ends
+  const runningRef = useRef(false);
+  const onEndRef = useRef(onEnd);
+  onEndRef.current = onEnd;
+
+  const inUnity = useUnity && !unityFailed;
+
+  useEffect(() => {
+    if (!inUnity || stops.length === 0) return;
+
+    const handleStopReached = (data: { tourId: string; stopIndex: number }) => {
+      if (data.tourId !== tour.id) return;
+      setStopIndex(data.stopIndex);
+      setMoving(false);
+    };
+
+    const handleTourEnded = (data: { tourId: string }) => {
+      if (data.tourId !== tour.id) return;
+      runningRef.current = false;
+      onEndRef.current();
+    };
+
+    unityBridge.on('TourStopReached', handleStopReached);
+    unityBridge.on('TourEnded', handleTourEnded);
+
+    runningRef.current = true;
+    setMoving(true);
+    unityBridge.startTour({ id: tour.id, title: tour.title, stops: toCommandStops(tour) }).catch(err => {
+      runningRef.current = false;
+      setMoving(false);
+      setUnityFailed(true);
+      message.warning(`Playing the tour without the 3D scene: ${err instanceof Error ? err.message : 'Unity could not start it'}`);
+    });
+
+    return () => {
+      unityBridge.off('TourStopReached', handleStopReached);
+      unityBridge.off('TourEnded', handleTourEnded);
+      if (runningRef.current) {
+        runningRef.current = false;
+        unityBridge.endTour(tour.id).catch(err => {
+          console.error('Failed to end tour in Unity:', err instanceof Error ? err.message : err);
+        });
+      }
+    };
+  }, [tour, inUnity, stops.length]);
+
+  const goTo = async (index: number) => {
+    if (index < 0 || index >= stops.length) return;
+
+    if (!inUnity) {
+      setStopIndex(index);
+      return;
+    }
+
+    // The stop changes once Unity reports it has arrived
+    setMoving(true);
+    try {
+      await unityBridge.goToStop(tour.id, index);
+    } catch (err) {
+      setMoving(false);
+      message.error(err instanceof Error ? err.message : 'Failed to move to the stop');
+    }
+  };
+
+  const handleEnd = async () => {
+    if (inUnity && runningRef.current) {
+      runningRef.current = false;
+      try {
+        await unityBridge.endTour(tour.id);
+      } catch (err) {
+        console.error('Failed to end tour in Unity:', err instanceof Error ? err.message : err);
+      }
+    }
+    onEnd();
+  };
+
+  if (stops.length === 0) {
+    return (
+      <Card>
+        <Empty description="This tour has no stops" />
+        <Button className="mt-4" onClick={onEnd}>Close</Button>
+      </Card>
+    );
+  }
+
+  const stop = stops[Math.min(stopIndex, stops.length - 1)];
+
+  return (
+    <Card
+      title={
+        <Space>
+          {tour.title}
+          <Tag color={inUnity ? 'blue' : 'default'}>{inUnity ? '3D' : '2D'}</Tag>
+        </Space>
+      }
+      extra={<Button icon={<StopOutlined />} onClick={handleEnd}>End Tour</Button>}
+    >
+      {unityFailed && (
+        <Alert className="mb-4" type="info" showIcon message="The 3D scene could not play this tour, so it is shown as pictures." />
+      )}
+
+      <Steps
+        size="small"
+        current={stopIndex}
+        onChange={goTo}
+        className="mb-4"
+        items={stops.map(s => ({ title: s.artwork?.title || 'Untitled' }))}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {!inUnity && (
+          <Image
+            src={formatImageUrl(stop.artwork?.fileUrl)}
+            alt={stop.artwork?.title || 'Artwork'}
+            className="max-h-96 object-contain bg-gray-50 rounded"
+            width="100%"
+          />
+        )}
+
+        <div className={inUnity ? 'md:col-span-2' : ''}>
+          <Title level={4}>{stop.artwork?.title || 'Untitled'}</Title>
+          {stop.artwork?.artistName && <Text type="secondary">By {stop.artwork.artistName}</Text>}
+          {stop.wallName && <Text type="secondary" className="block">On {stop.wallName}</Text>}
+
+          <Paragraph className="mt-4 whitespace-pre-line">
+            {stop.narration || <Text type="secondary">No narration for this stop.</Text>}
+          </Paragraph>
+
+          {stop.audioUrl && (
+            <audio key={stop.id} src={formatImageUrl(stop.audioUrl)} controls autoPlay className="w-full" />
+          )}
+        </div>
+      </div>
+
+      <div className="mt-6 flex justify-between">
+        <Button icon={<LeftOutlined />} disabled={stopIndex === 0 || moving} onClick={() => goTo(stopIndex - 1)}>
+          Previous
+        </Button>
+        <Text type="secondary">Stop {stopIndex + 1} of {stops.length}</Text>
+        {stopIndex < stops.length - 1 ? (
+          <Button type="primary" disabled={moving} onClick={() => goTo(stopIndex + 1)}>
+            Next <RightOutlined />
+          </Button>
+        ) : (
+          <Button type="primary" onClick={handleEnd}>Finish</Button>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default TourPlayer;
@@ -5,13 +5,27 @@ import { Unity, useUnityContext } from 'react-unity-webgl';
 import { Card, Spin, Alert, Progress } from 'antd';
 import { motion } from 'framer-motion';
 import unityBridge from '@/lib/unityBridge';
+import { getFloorPlan } from '@/lib/api/exhibition';
+import { FloorPlan } from '@/types/exhibition.types';
+import { MockUnityInstance, isUnityMockEnabled } from '@/lib/mockUnity';
+import MockUnityScene from '@/components/metaverse/MockUnityScene';
+
+// How long Unity has to start once its files are loaded, in milliseconds
+const UNITY_READY_TIMEOUT = 30000;
 
 interface UnityViewerProps {
   exhibitionId: string;
+  // Load the curator's draft layout instead of the published one
+  previewToken?: string;
   onArtworkSelect?: (artworkId: string) => void;
+  // Run against this stand-in instead of the WebGL build. Without it the
+  // stand-in is still used when NEXT_PUBLIC_UNITY_MOCK=true.
+  mockUnity?: MockUnityInstance;
 }
 
-const UnityViewer: React.FC<UnityViewerProps> = ({ exhibitionId, onArtworkSelect }) => {
+const UnityViewer: React.FC<UnityViewerProps> = ({ exhibitionId, previewToken, onArtworkSelect, mockUnity }) => {
+  const [defaultMock] = useState(() => (isUnityMockEnabled() ? new MockUnityInstance() : null));
+  const mock = mockUnity || defaultMock;
   const [error, setError] = useState<string | null>(null);
   const [unityReady, setUnityReady] = useState<boolean>(false);
   const [exhibitionLoaded, setExhibitionLoaded] = useState<boolean>(false);
@@ -31,48 +45,99 @@ const UnityViewer: React.FC<UnityViewerProps> = ({ exhibitionId, onArtworkSelect
     codeUrl: '/unity/exhibition.wasm',
   });
 
+  // The stand-in is there straight away; the WebGL build once it has loaded
+  const unityLoaded = mock ? true : isLoaded;
+  const unityInstance = mock || (isLoaded ? UNSAFE__unityInstance : null);
+
   // When Unity is loaded, set the instance in the bridge
   useEffect(() => {
-    if (isLoaded && UNSAFE__unityInstance) {
-      unityBridge.setUnityInstance(UNSAFE__unityInstance);
-      
-      // Register event listeners for Unity messages
-      unityBridge.on('UnityReady', () => {
+    if (!unityInstance) return;
+
+    let cancelled = false;
+    unityBridge.setUnityInstance(unityInstance);
+    if (unityInstance instanceof MockUnityInstance) {
+      unityInstance.start();
+    }
+
+    // Ready once Unity has started and agreed a protocol version with the bridge
+    unityBridge.waitForUnity(UNITY_READY_TIMEOUT)
+      .then(() => {
+        if (cancelled) return;
         console.log('Unity is ready to load exhibitions');
         setUnityReady(true);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Unity did not become ready:', err);
+        setError('The 3D exhibition could not start. Please reload the page.');
       });
-      
-      unityBridge.on('ExhibitionLoaded', (loadedExhibitionId) => {
-        console.log(`Exhibition loaded: ${loadedExhibitionId}`);
-        setExhibitionLoaded(true);
-      });
-      
-      unityBridge.on('ArtworkSelected', (artworkId) => {
-        console.log(`Artwork selected: ${artworkId}`);
-        if (onArtworkSelect) {
-          onArtworkSelect(artworkId);
-        }
-      });
-    }
-    
+
     return () => {
-      // Cleanup event listeners when component unmounts
-      if (unityBridge) {
-        unityBridge.off('UnityReady');
-        unityBridge.off('ExhibitionLoaded');
-        unityBridge.off('ArtworkSelected');
+      cancelled = true;
+      if (unityInstance instanceof MockUnityInstance) {
+        unityInstance.stop();
+      }
+    };
+  }, [unityInstance]);
+
+  // Register event listeners for Unity messages
+  useEffect(() => {
+    const handleArtworkSelected = ({ artworkId }: { artworkId: string }) => {
+      console.log(`Artwork selected: ${artworkId}`);
+      if (onArtworkSelect) {
+        onArtworkSelect(artworkId);
       }
     };
-  }, [isLoaded, UNSAFE__unityInstance, onArtworkSelect]);
+
+    unityBridge.on('ArtworkSelected', handleArtworkSelected);
+
+    return () => {
+      // Cleanup event listeners when component unmounts
+      unityBridge.off('ArtworkSelected', handleArtworkSelected);
+    };
+  }, [onArtworkSelect]);
   
   // Load exhibition when ID changes and Unity is ready
   useEffect(() => {
-    if (unityReady && exhibitionId) {
+    if (!unityReady || !exhibitionId) return;
+
+    let cancelled = false;
+
+    const loadExhibition = async () => {
       console.log(`Loading exhibition: ${exhibitionId}`);
       setExhibitionLoaded(false);
-      unityBridge.loadExhibition(exhibitionId);
-    }
-  }, [exhibitionId, unityReady]);
+
+      // Without a floor plan Unity falls back to fetching the walls itself
+      let floorPlan: FloorPlan | undefined;
+      try {
+        floorPlan = await getFloorPlan(exhibitionId, { previewToken });
+      } catch (err) {
+        console.warn('Could not load the floor plan, loading walls only:', err);
+      }
+
+      if (cancelled) return;
+
+      try {
+        // Resolves once Unity acknowledges the exhibition is built
+        await unityBridge.loadExhibition(exhibitionId, { previewToken, floorPlan });
+        if (!cancelled) {
+          console.log(`Exhibition loaded: ${exhibitionId}`);
+          setExhibitionLoaded(true);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          console.error('Unity could not load the exhibition:', err);
+          setError('Failed to load this exhibition in 3D. Please try again later.');
+        }
+      }
+    };
+
+    loadExhibition();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [exhibitionId, previewToken, unityReady]);
   
   // Handle Unity WebGL errors
   useEffect(() => {
@@ -105,7 +170,7 @@ const UnityViewer: React.FC<UnityViewerProps> = ({ exhibitionId, onArtworkSelect
         />
       )}
       
-      {!isLoaded && !error && (
+      {!unityLoaded && !error && (
         <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-900 z-10 p-8">
           <Spin size="large" />
           <div className="mt-6 text-white text-lg font-medium">
@@ -127,7 +192,7 @@ const UnityViewer: React.FC<UnityViewerProps> = ({ exhibitionId, onArtworkSelect
         </div>
       )}
       
-      {isLoaded && !exhibitionLoaded && !error && (
+      {unityLoaded && !exhibitionLoaded && !error && (
         <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center z-10">
           <Card className="bg-white p-4 rounded-lg shadow-lg">
             <Spin tip="Loading exhibition..."></Spin>
@@ -135,11 +200,15 @@ const UnityViewer: React.FC<UnityViewerProps> = ({ exhibitionId, onArtworkSelect
         </div>
       )}
       
-      <Unity 
-        unityProvider={unityProvider} 
-        style={{ width: '100%', height: '100%' }}
-        className={`${isLoaded ? 'opacity-100' : 'opacity-0'} transition-opacity duration-500`}
-      />
+      {mock ? (
+        <MockUnityScene instance={mock} />
+      ) : (
+        <Unity 
+          unityProvider={unityProvider} 
+          style={{ width: '100%', height: '100%' }}
+          className={`${isLoaded ? 'opacity-100' : 'opacity-0'} transition-opacity duration-500`}
+        />
+      )}
     </motion.div>
   );
 };
@@ -44,6 +44,7 @@ const NotificationBadge: React.FC<NotificationBadgeProps> = ({
     // Navigate based on notification type
     switch (notification.type) {
       case 'artwork_upload':
+      case 'artwork_resubmitted':
         router.push(`/artworks/${notification.entityId}`);
         break;
       case 'artwork_approved':
@@ -56,6 +57,9 @@ const NotificationBadge: React.FC<NotificationBadgeProps> = ({
       case 'comment_added':
         router.push(`/artworks/${notification.entityId}?showComments=true`);
         break;
+      case 'review_assigned':
+        router.push('/curator/approvals');
+        break;
     }
   };
   
@@ -30,6 +30,7 @@ const NotificationDropdown: React.FC = () => {
     // Navigate based on notification type
     switch (notification.type) {
       case 'artwork_upload':
+      case 'artwork_resubmitted':
         router.push(`/artworks/${notification.entityId}`);
         break;
       case 'artwork_approved':
@@ -42,6 +43,9 @@ const NotificationDropdown: React.FC = () => {
       case 'comment_added':
         router.push(`/artworks/${notification.entityId}?showComments=true`);
         break;
+      case 'review_assigned':
+        router.push('/curator/approvals');
+        break;
       default:
         // Default action - just close the dropdown
         setOpen(false);
@@ -52,6 +56,8 @@ const NotificationDropdown: React.FC = () => {
   const getNotificationIcon = (type: string) => {
     switch (type) {
       case 'artwork_upload':
+      case 'artwork_resubmitted':
+      case 'review_assigned':
         return <PictureOutlined style={{ color: '#1890ff' }} />;
       case 'artwork_approved':
         return <CheckOutlined style={{ color: '#52c41a' }} />;
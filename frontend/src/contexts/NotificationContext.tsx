@@ -155,6 +155,72 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
         setNotifications(prev => [newNotification, ...prev]);
         setUnreadCount(prev => prev + 1);
       });
+
+      // Listen for rejected artworks coming back for another review round
+      socket.on('artwork-resubmitted', (data: { id: string; title: string; artist: string; artistId: string; round: number }) => {
+        console.log('Artwork resubmitted notification:', data);
+
+        // Show toast notification
+        message.info({
+          content: `${data.artist} resubmitted "${data.title}" for review (round ${data.round})`,
+          duration: 5,
+          key: `resubmission-${data.id}-${data.round}`,
+          onClick: () => {
+            window.location.href = `/artworks/${data.id}`;
+          }
+        });
+
+        // Create notification object
+        const newNotification: Notification = {
+          id: `temp-${Date.now()}`, // Will be replaced on refresh
+          type: 'artwork_resubmitted',
+          message: `${data.artist} resubmitted "${data.title}" for review (round ${data.round})`,
+          entityId: data.id,
+          recipientId: user?.id || '',
+          senderId: data.artistId,
+          sender: {
+            id: data.artistId,
+            username: data.artist
+          },
+          isRead: false,
+          createdAt: new Date().toISOString()
+        };
+
+        // Update state with new notification
+        setNotifications(prev => [newNotification, ...prev]);
+        setUnreadCount(prev => prev + 1);
+      });
+
+      // Listen for an admin handing this curator an item from the review queue
+      socket.on('review-assigned', (data: { id: string; title: string; adminName: string }) => {
+        console.log('Review assigned notification:', data);
+
+        // Show toast notification
+        message.info({
+          content: `${data.adminName} assigned "${data.title}" to you for review`,
+          duration: 5,
+          key: `assignment-${data.id}`,
+          onClick: () => {
+            window.location.href = '/curator/approvals';
+          }
+        });
+
+        // Create notification object
+        const newNotification: Notification = {
+          id: `temp-${Date.now()}`, // Will be replaced on refresh
+          type: 'review_assigned',
+          message: `${data.adminName} assigned "${data.title}" to you for review`,
+          entityId: data.id,
+          recipientId: user?.id || '',
+          senderId: null,
+          isRead: false,
+          createdAt: new Date().toISOString()
+        };
+
+        // Update state with new notification
+        setNotifications(prev => [newNotification, ...prev]);
+        setUnreadCount(prev => prev + 1);
+      });
     }
 
     // Listen for artwork approval notifications (for artists)
@@ -219,6 +285,37 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
         setNotifications(prev => [newNotification, ...prev]);
         setUnreadCount(prev => prev + 1);
       });
+
+      // Listen for comments on the artist's artworks
+      socket.on('comment-added', (data: { id: string; artworkId: string; title: string; username: string }) => {
+        console.log('Comment added notification:', data);
+
+        // Show toast notification
+        message.info({
+          content: `${data.username} commented on your artwork "${data.title}"`,
+          duration: 5,
+          key: `comment-${data.id}`,
+          onClick: () => {
+            window.location.href = `/artworks/${data.artworkId}?showComments=true`;
+          }
+        });
+
+        // Create notification object
+        const newNotification: Notification = {
+          id: `temp-${Date.now()}`, // Will be replaced on refresh
+          type: 'comment_added',
+          message: `${data.username} commented on your artwork "${data.title}"`,
+          entityId: data.artworkId,
+          recipientId: user?.id || '',
+          senderId: null,
+          isRead: false,
+          createdAt: new Date().toISOString()
+        };
+
+        // Update state with new notification
+        setNotifications(prev => [newNotification, ...prev]);
+        setUnreadCount(prev => prev + 1);
+      });
     }
   };
 
@@ -0,0 +1,112 @@
+import { useEffect } from 'react';
+import unityBridge from '@/lib/unityBridge';
+import { trackEvent } from '@/lib/analytics';
+import { getFloorPlan } from '@/lib/api/index';
+import { getArtworkPlanPositions, PlacedArtwork } from '@/components/exhibition/FloorPlanCanvas';
+import { Vector3 } from '@/types/unity.types';
+
+// How close, in metres, a visitor stands to an artwork to count as looking at it
+const DWELL_RADIUS = 2.5;
+// Shorter stops are passing by
+const MIN_DWELL_MS = 2000;
+
+/**
+ * Record what a visitor does in an exhibition's 3D scene: the artworks they
+ * select and how long they stand near each one
+ * @param exhibitionId Exhibition loaded in the scene
+ */
+const useArtworkEngagement = (exhibitionId: string | null): void => {
+  useEffect(() => {
+    if (!exhibitionId) return;
+
+    let cancelled = false;
+    let artworks: PlacedArtwork[] = [];
+    // The artwork the visitor is standing near, and since when
+    let dwelling: { artwork: PlacedArtwork; since: number } | null = null;
+
+    // Unity's x and z are the plan's x and y
+    getFloorPlan(exhibitionId)
+      .then(plan => {
+        if (cancelled) return;
+        artworks = [...plan.rooms.flatMap(room => room.walls), ...plan.unplacedWalls]
+          .flatMap(getArtworkPlanPositions);
+      })
+      .catch(err => {
+        console.warn('Failed to load the floor plan for engagement:', err instanceof Error ? err.message : err);
+      });
+
+    const endDwell = () => {
+      if (!dwelling) return;
+
+      const durationMs = Date.now() - dwelling.since;
+      if (durationMs >= MIN_DWELL_MS) {
+        trackEvent({
+          type: 'dwell',
+          artworkId: dwelling.artwork.artworkId,
+          exhibitionId,
+          wallId: dwelling.artwork.wallId,
+          durationMs
+        });
+      }
+      dwelling = null;
+    };
+
+    const handlePlayerMoved = (pose: { position: Vector3; heading: number }) => {
+      let nearest: PlacedArtwork | null = null;
+      let nearestDistance = DWELL_RADIUS;
+      for (const artwork of artworks) {
+        const distance = Math.hypot(artwork.at.x - pose.position.x, artwork.at.y - pose.position.z);
+        if (distance <= nearestDistance) {
+          nearest = artwork;
+          nearestDistance = distance;
+        }
+      }
+
+      if (nearest?.artworkId === dwelling?.artwork.artworkId) return;
+
+      endDwell();
+      if (nearest) {
+        dwelling = { artwork: nearest, since: Date.now() };
+      }
+    };
+
+    const handleArtworkSelected = (data: { artworkId: string }) => {
+      trackEvent({
+        type: 'select',
+        artworkId: data.artworkId,
+        exhibitionId,
+        wallId: artworks.find(artwork => artwork.artworkId === data.artworkId)?.wallId
+      });
+    };
+
+    // Nobody looks at a hidden tab; the next move starts a fresh dwell
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') {
+        endDwell();
+      }
+    };
+
+    // Another exhibition loading, or Unity restarting, ends the current stop
+    const handleLoaded = (data: { exhibitionId: string }) => {
+      if (data.exhibitionId !== exhibitionId) endDwell();
+    };
+
+    unityBridge.on('PlayerMoved', handlePlayerMoved);
+    unityBridge.on('ArtworkSelected', handleArtworkSelected);
+    unityBridge.on('ExhibitionLoaded', handleLoaded);
+    unityBridge.on('UnityReady', endDwell);
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      cancelled = true;
+      endDwell();
+      unityBridge.off('PlayerMoved', handlePlayerMoved);
+      unityBridge.off('ArtworkSelected', handleArtworkSelected);
+      unityBridge.off('ExhibitionLoaded', handleLoaded);
+      unityBridge.off('UnityReady', endDwell);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [exhibitionId]);
+};
+
+export default useArtworkEngagement;
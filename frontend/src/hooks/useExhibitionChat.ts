@@ -0,0 +1,233 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getSocketClient, authenticateSocket } from '@/lib/socketClient';
+import {
+  getChatHistory,
+  deleteChatMessage,
+  muteChatUser,
+  setChatSlowMode
+} from '@/lib/api/index';
+import { User } from '@/types/user.types';
+import { ChatJoinResult, ChatMessage } from '@/types/chat.types';
+
+// How long the server has to answer a message
+const SEND_TIMEOUT_MS = 5000;
+
+interface UseExhibitionChatReturn {
+  messages: ChatMessage[];
+  loading: boolean;
+  error: string | null;
+  // Older messages are left to load
+  hasMore: boolean;
+  slowModeSeconds: number;
+  canPost: boolean;
+  canModerate: boolean;
+  // Set while this visitor is muted; until is null for mutes without an end
+  mute: { until: string | null } | null;
+  send: (content: string) => Promise<void>;
+  loadOlder: () => Promise<void>;
+  deleteMessage: (messageId: string) => Promise<void>;
+  muteUser: (userId: string, minutes: number | null) => Promise<void>;
+  setSlowMode: (seconds: number) => Promise<void>;
+}
+
+const mergeMessages = (older: ChatMessage[], newer: ChatMessage[]) => {
+  const seen = new Set(newer.map(message => message.id));
+  return [...older.filter(message => !seen.has(message.id)), ...newer];
+};
+
+/**
+ * An exhibition's visitor chat: its history, new messages as they arrive and
+ * the moderation tools for curators
+ * @param exhibitionId Exhibition whose chat to show
+ * @param user The signed-in visitor, or null for guests, who can only read
+ */
+const useExhibitionChat = (exhibitionId: string | null, user: User | null): UseExhibitionChatReturn => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [slowModeSeconds, setSlowModeSeconds] = useState(0);
+  const [canPost, setCanPost] = useState(false);
+  const [canModerate, setCanModerate] = useState(false);
+  const [mute, setMute] = useState<{ until: string | null } | null>(null);
+
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  useEffect(() => {
+    if (!exhibitionId) return;
+
+    const socket = getSocketClient();
+    let cancelled = false;
+
+    // Messages sent while the connection was down are picked up with the history
+    const loadLatest = async () => {
+      setLoading(true);
+      try {
+        const history = await getChatHistory(exhibitionId);
+        if (cancelled) return;
+        setMessages(prev => mergeMessages(prev, history.messages));
+        setHasMore(prev => prev || history.hasMore);
+        setSlowModeSeconds(history.slowModeSeconds);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load the chat');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    const join = () => {
+      if (user) {
+        authenticateSocket(user.id, user.role);
+      }
+      socket.emit('chat:join', exhibitionId, (result: { ok: boolean; error?: string } & ChatJoinResult) => {
+        if (cancelled) return;
+        if (!result.ok) {
+          setError(result.error || 'Failed to join the chat');
+          return;
+        }
+        setSlowModeSeconds(result.slowModeSeconds);
+        setCanPost(result.canPost);
+        setCanModerate(result.canModerate);
+        setMute(result.mute);
+      });
+    };
+
+    const rejoin = () => {
+      join();
+      loadLatest();
+    };
+
+    const handleMessage = (message: ChatMessage) => {
+      if (message.exhibitionId !== exhibitionId) return;
+      setMessages(prev => mergeMessages(prev, [message]));
+    };
+
+    const handleDeleted = (data: { exhibitionId: string; messageId: string }) => {
+      if (data.exhibitionId !== exhibitionId) return;
+      setMessages(prev => prev.map(message => (
+        message.id === data.messageId
+          ? { ...message, isDeleted: true, content: '', userId: null, user: null }
+          : message
+      )));
+    };
+
+    const handleSettings = (data: { exhibitionId: string; slowModeSeconds: number }) => {
+      if (data.exhibitionId !== exhibitionId) return;
+      setSlowModeSeconds(data.slowModeSeconds);
+    };
+
+    const handleMuted = (data: { exhibitionId: string; muted: boolean; until: string | null }) => {
+      if (data.exhibitionId !== exhibitionId) return;
+      setMute(data.muted ? { until: data.until } : null);
+    };
+
+    socket.on('connect', rejoin);
+    socket.on('chat:message', handleMessage);
+    socket.on('chat:deleted', handleDeleted);
+    socket.on('chat:settings', handleSettings);
+    socket.on('chat:muted', handleMuted);
+
+    join();
+    loadLatest();
+
+    return () => {
+      cancelled = true;
+      socket.emit('chat:leave', exhibitionId);
+      socket.off('connect', rejoin);
+      socket.off('chat:message', handleMessage);
+      socket.off('chat:deleted', handleDeleted);
+      socket.off('chat:settings', handleSettings);
+      socket.off('chat:muted', handleMuted);
+
+      setMessages([]);
+      setHasMore(false);
+      setError(null);
+      setCanPost(false);
+      setCanModerate(false);
+      setMute(null);
+    };
+  }, [exhibitionId, user]);
+
+  // A timed mute lifts by itself
+  useEffect(() => {
+    if (!mute?.until) return;
+
+    const timer = setTimeout(() => setMute(null), Math.max(0, new Date(mute.until).getTime() - Date.now()));
+    return () => clearTimeout(timer);
+  }, [mute]);
+
+  const send = useCallback((content: string) => {
+    return new Promise<void>((resolve, reject) => {
+      if (!exhibitionId) {
+        resolve();
+        return;
+      }
+
+      getSocketClient()
+        .timeout(SEND_TIMEOUT_MS)
+        .emit(
+          'chat:send',
+          { exhibitionId, content },
+          (err: Error | null, result?: { ok: boolean; error?: string; message?: ChatMessage }) => {
+            if (err || !result) {
+              reject(new Error('The server did not answer'));
+            } else if (!result.ok) {
+              reject(new Error(result.error || 'Failed to send the message'));
+            } else {
+              if (result.message) {
+                setMessages(prev => mergeMessages(prev, [result.message as ChatMessage]));
+              }
+              resolve();
+            }
+          }
+        );
+    });
+  }, [exhibitionId]);
+
+  const loadOlder = useCallback(async () => {
+    const oldest = messagesRef.current[0];
+    if (!exhibitionId || !oldest) return;
+
+    const history = await getChatHistory(exhibitionId, oldest.createdAt);
+    setMessages(prev => mergeMessages(history.messages, prev));
+    setHasMore(history.hasMore);
+  }, [exhibitionId]);
+
+  const deleteMessage = useCallback(async (messageId: string) => {
+    if (!exhibitionId) return;
+    await deleteChatMessage(exhibitionId, messageId);
+  }, [exhibitionId]);
+
+  const muteUser = useCallback(async (userId: string, minutes: number | null) => {
+    if (!exhibitionId) return;
+    await muteChatUser(exhibitionId, userId, minutes);
+  }, [exhibitionId]);
+
+  const setSlowMode = useCallback(async (seconds: number) => {
+    if (!exhibitionId) return;
+    const settings = await setChatSlowMode(exhibitionId, seconds);
+    setSlowModeSeconds(settings.slowModeSeconds);
+  }, [exhibitionId]);
+
+  return {
+    messages,
+    loading,
+    error,
+    hasMore,
+    slowModeSeconds,
+    canPost,
+    canModerate,
+    mute,
+    send,
+    loadOlder,
+    deleteMessage,
+    muteUser,
+    setSlowMode
+  };
+};
+
+export default useExhibitionChat;
@@ -0,0 +1,229 @@
+import { useState, useEffect, useRef } from 'react';
+import { getSocketClient, authenticateSocket } from '@/lib/socketClient';
+import unityBridge from '@/lib/unityBridge';
+import { User } from '@/types/user.types';
+import { Vector3, AvatarMove } from '@/types/unity.types';
+import { VisitorAvatar, VisitorAvatarUpdate, VisitorCount } from '@/types/presence.types';
+import { getEditorColor } from '@/utils/format';
+
+// The server drops poses sent faster than this
+const POSE_INTERVAL_MS = 100;
+// Smaller moves than these are not worth sending
+const MIN_MOVE = 0.05;
+const MIN_TURN = 2;
+
+interface UseExhibitionPresenceReturn {
+  // Everyone on the exhibition right now, this visitor included; null until the server says
+  visitorCount: number | null;
+  // The other visitors near this one in the 3D scene
+  avatars: VisitorAvatar[];
+  // Whether this visitor is shown to the others as an avatar
+  inScene: boolean;
+}
+
+const logUnityError = (action: string) => (err: unknown) => {
+  console.error(`Failed to ${action} in Unity:`, err instanceof Error ? err.message : err);
+};
+
+/**
+ * Live visitor presence for an exhibition: the visitor count, and once the
+ * 3D scene has loaded, this visitor's pose streamed to the others and theirs
+ * shown as avatars in Unity
+ * @param exhibitionId Exhibition being visited
+ * @param user The signed-in visitor, or null for guests
+ */
+const useExhibitionPresence = (
+  exhibitionId: string | null,
+  user: User | null
+): UseExhibitionPresenceReturn => {
+  const [visitorCount, setVisitorCount] = useState<number | null>(null);
+  const [avatars, setAvatars] = useState<VisitorAvatar[]>([]);
+  // Unity has this exhibition loaded
+  const [sceneReady, setSceneReady] = useState(false);
+  const [inScene, setInScene] = useState(false);
+  // Unity reports where the visitor starts as the scene loads, before streaming begins
+  const latestPoseRef = useRef<{ position: Vector3; heading: number } | null>(null);
+
+  // Follow whether Unity has the exhibition up
+  useEffect(() => {
+    if (!exhibitionId) return;
+
+    const handleLoaded = (data: { exhibitionId: string }) => {
+      setSceneReady(data.exhibitionId === exhibitionId);
+    };
+    // Unity announcing itself again means it restarted and lost the scene
+    const handleRestart = () => {
+      latestPoseRef.current = null;
+      setSceneReady(false);
+    };
+    const handlePlayerMoved = (pose: { position: Vector3; heading: number }) => {
+      latestPoseRef.current = pose;
+    };
+
+    unityBridge.on('ExhibitionLoaded', handleLoaded);
+    unityBridge.on('UnityReady', handleRestart);
+    unityBridge.on('PlayerMoved', handlePlayerMoved);
+
+    return () => {
+      unityBridge.off('ExhibitionLoaded', handleLoaded);
+      unityBridge.off('UnityReady', handleRestart);
+      unityBridge.off('PlayerMoved', handlePlayerMoved);
+      setSceneReady(false);
+    };
+  }, [exhibitionId]);
+
+  // Join the exhibition's room and follow its visitor count
+  useEffect(() => {
+    if (!exhibitionId) return;
+
+    const socket = getSocketClient();
+
+    const join = () => {
+      if (user) {
+        authenticateSocket(user.id, user.role);
+      }
+      socket.emit('join-exhibition', exhibitionId);
+    };
+
+    const handleCount = (data: VisitorCount) => {
+      if (data.exhibitionId !== exhibitionId) return;
+      setVisitorCount(data.count);
+    };
+
+    socket.on('connect', join);
+    socket.on('exhibition:visitors', handleCount);
+
+    join();
+
+    return () => {
+      socket.emit('leave-exhibition', exhibitionId);
+      socket.off('connect', join);
+      socket.off('exhibition:visitors', handleCount);
+      setVisitorCount(null);
+    };
+  }, [exhibitionId, user]);
+
+  // Stream this visitor's pose and show the others, while the scene is up
+  useEffect(() => {
+    if (!exhibitionId || !sceneReady || !unityBridge.supportsCommand('SpawnAvatar')) return;
+
+    const socket = getSocketClient();
+    // The avatars spawned in Unity, keyed by socket id
+    const spawned = new Map<string, VisitorAvatar>();
+    let lastSent: { position: Vector3; heading: number; at: number } | null = null;
+    let pendingPose: { position: Vector3; heading: number } | null = null;
+    let poseTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const removeAll = () => {
+      spawned.forEach((_, socketId) => {
+        unityBridge.removeAvatar(socketId).catch(logUnityError('remove avatar'));
+      });
+      spawned.clear();
+    };
+
+    const enter = () => {
+      socket.emit('presence:enter', exhibitionId);
+      if (latestPoseRef.current) {
+        handlePlayerMoved(latestPoseRef.current);
+      }
+    };
+
+    // The server forgot this visitor when the connection dropped, and the
+    // others' avatars come again from scratch
+    const reenter = () => {
+      removeAll();
+      setAvatars([]);
+      lastSent = null;
+      enter();
+    };
+
+    const sendPose = () => {
+      poseTimer = null;
+      if (!pendingPose) return;
+
+      socket.emit('presence:pose', { exhibitionId, ...pendingPose });
+      lastSent = { ...pendingPose, at: Date.now() };
+      pendingPose = null;
+    };
+
+    // Unity reports every frame; send at most one pose per interval, always ending on the latest
+    const handlePlayerMoved = (pose: { position: Vector3; heading: number }) => {
+      if (lastSent) {
+        const moved = Math.hypot(
+          pose.position.x - lastSent.position.x,
+          pose.position.y - lastSent.position.y,
+          pose.position.z - lastSent.position.z
+        );
+        const turned = Math.abs(((pose.heading - lastSent.heading + 540) % 360) - 180);
+        if (moved < MIN_MOVE && turned < MIN_TURN) return;
+      }
+
+      pendingPose = pose;
+      if (poseTimer) return;
+
+      const wait = lastSent ? Math.max(0, POSE_INTERVAL_MS - (Date.now() - lastSent.at)) : 0;
+      poseTimer = setTimeout(sendPose, wait);
+    };
+
+    const handleAvatars = (data: VisitorAvatarUpdate) => {
+      if (data.exhibitionId !== exhibitionId) return;
+
+      data.removed.forEach(socketId => {
+        if (!spawned.delete(socketId)) return;
+        unityBridge.removeAvatar(socketId).catch(logUnityError('remove avatar'));
+      });
+
+      const moves: AvatarMove[] = [];
+      data.updates.forEach(avatar => {
+        if (spawned.has(avatar.socketId)) {
+          moves.push({ avatarId: avatar.socketId, position: avatar.position, heading: avatar.heading });
+        } else {
+          unityBridge.spawnAvatar({
+            avatarId: avatar.socketId,
+            displayName: avatar.displayName,
+            color: getEditorColor(avatar.userId || avatar.socketId),
+            position: avatar.position,
+            heading: avatar.heading
+          }).catch(logUnityError('spawn avatar'));
+        }
+        spawned.set(avatar.socketId, avatar);
+      });
+
+      if (moves.length > 0) {
+        unityBridge.moveAvatars(moves).catch(logUnityError('move avatars'));
+      }
+
+      setAvatars([...spawned.values()]);
+    };
+
+    socket.on('connect', reenter);
+    socket.on('presence:avatars', handleAvatars);
+    unityBridge.on('PlayerMoved', handlePlayerMoved);
+
+    enter();
+    setInScene(true);
+
+    return () => {
+      socket.emit('presence:exit', exhibitionId);
+      socket.off('connect', reenter);
+      socket.off('presence:avatars', handleAvatars);
+      unityBridge.off('PlayerMoved', handlePlayerMoved);
+      if (poseTimer) clearTimeout(poseTimer);
+
+      // Unity may already have lost the scene, in which case there is nothing to remove
+      if (unityBridge.isUnityReady()) {
+        removeAll();
+      }
+      setAvatars([]);
+      setInScene(false);
+    };
+  }, [exhibitionId, sceneReady, user]);
+
+  return {
+    visitorCount,
+    avatars,
+    inScene
+  };
+};
+
+export default useExhibitionPresence;
@@ -0,0 +1,435 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getSocketClient } from '@/lib/socketClient';
+import unityBridge from '@/lib/unityBridge';
+import { Vector3 } from '@/types/unity.types';
+import {
+  GroupTourCamera,
+  GroupTourEndReason,
+  GroupTourFollower,
+  GroupTourQuestion,
+  GroupTourSession
+} from '@/types/groupTour.types';
+
+// How long the server has to answer a request
+const ACK_TIMEOUT_MS = 5000;
+// The server drops camera updates sent faster than this
+const CAMERA_INTERVAL_MS = 100;
+// Where this browser's guest token is kept; the guide's kicks follow it
+const GUEST_TOKEN_KEY = 'group-tour:guest-token';
+
+const END_NOTICES: Record<GroupTourEndReason, string> = {
+  ended: 'The guide ended the tour',
+  'guide-left': 'The guide left, so the tour ended',
+  kicked: 'The guide removed you from the tour'
+};
+
+interface UseGroupTourReturn {
+  // The tour this visitor guides or follows
+  session: GroupTourSession | null;
+  role: 'guide' | 'follower' | null;
+  // Guide only: who is following, and what they asked
+  followers: GroupTourFollower[];
+  questions: GroupTourQuestion[];
+  // Follower only
+  muted: boolean;
+  handRaised: boolean;
+  // Why the last tour stopped, until another starts
+  notice: string | null;
+  start: () => Promise<void>;
+  join: (code: string, displayName?: string) => Promise<void>;
+  leave: () => void;
+  raiseHand: (raised: boolean) => void;
+  ask: (text: string) => Promise<void>;
+  answer: (questionId: string) => void;
+  mute: (socketId: string, muted: boolean) => void;
+  kick: (socketId: string) => void;
+}
+
+type Ack<T> = { ok: boolean; error?: string } & T;
+
+const logUnityError = (action: string) => (err: unknown) => {
+  console.error(`Failed to ${action} in Unity:`, err instanceof Error ? err.message : err);
+};
+
+// Identify this browser to tours joined without signing in
+const getGuestToken = () => {
+  let token = localStorage.getItem(GUEST_TOKEN_KEY);
+  if (!token) {
+    token = crypto.randomUUID();
+    localStorage.setItem(GUEST_TOKEN_KEY, token);
+  }
+  return token;
+};
+
+// Send a request and wait for the server's answer
+const request = <T>(event: string, data: unknown) =>
+  new Promise<Ack<T>>((resolve, reject) => {
+    getSocketClient()
+      .timeout(ACK_TIMEOUT_MS)
+      .emit(event, data, (err: Error | null, result?: Ack<T>) => {
+        if (err || !result) {
+          reject(new Error('The server did not answer'));
+        } else if (!result.ok) {
+          reject(new Error(result.error || 'Something went wrong'));
+        } else {
+          resolve(result);
+        }
+      });
+  });
+
+/**
+ * Docent-led group tours of an exhibition. A curator starts a tour and shares
+ * its code; visitors who join with it follow the guide's camera and artwork
+ * selections in Unity, and can raise a hand or ask questions.
+ * @param exhibitionId Exhibition being visited
+ * @param onArtworkSelected Called when the guide selects an artwork, for followers
+ */
+const useGroupTour = (
+  exhibitionId: string | null,
+  onArtworkSelected: (artworkId: string) => void
+): UseGroupTourReturn => {
+  const [session, setSession] = useState<GroupTourSession | null>(null);
+  const [role, setRole] = useState<'guide' | 'follower' | null>(null);
+  const [followers, setFollowers] = useState<GroupTourFollower[]>([]);
+  const [questions, setQuestions] = useState<GroupTourQuestion[]>([]);
+  const [muted, setMuted] = useState(false);
+  const [handRaised, setHandRaised] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const onArtworkSelectedRef = useRef(onArtworkSelected);
+  onArtworkSelectedRef.current = onArtworkSelected;
+
+  // Where this visitor's own camera is, so a guide's followers start there
+  const latestPoseRef = useRef<GroupTourCamera | null>(null);
+  // What a follower joined with, to join again after a reconnect
+  const joinedWithRef = useRef<{ code: string; displayName?: string; guestToken: string } | null>(null);
+  // The guide's last camera, applied again if the follower's scene reloads
+  const guideCameraRef = useRef<GroupTourCamera | null>(null);
+  // Read when the page goes away
+  const currentRef = useRef<{ session: GroupTourSession | null; role: 'guide' | 'follower' | null }>({
+    session: null,
+    role: null
+  });
+  currentRef.current = { session, role };
+
+  const finish = useCallback((reason: string | null) => {
+    setSession(null);
+    setRole(null);
+    setFollowers([]);
+    setQuestions([]);
+    setMuted(false);
+    setHandRaised(false);
+    setNotice(reason);
+    joinedWithRef.current = null;
+    guideCameraRef.current = null;
+  }, []);
+
+  // Leave or end the tour along with the exhibition
+  useEffect(() => {
+    if (!exhibitionId) return;
+
+    const handlePlayerMoved = (pose: { position: Vector3; heading: number }) => {
+      latestPoseRef.current = pose;
+    };
+    unityBridge.on('PlayerMoved', handlePlayerMoved);
+
+    return () => {
+      unityBridge.off('PlayerMoved', handlePlayerMoved);
+
+      const { session: current, role: currentRole } = currentRef.current;
+      if (current && currentRole === 'guide') {
+        getSocketClient().emit('group-tour:end', { sessionId: current.id });
+      } else if (current) {
+        getSocketClient().emit('group-tour:leave');
+      }
+      finish(null);
+    };
+  }, [exhibitionId, finish]);
+
+  const sessionId = session?.id || null;
+  const guideName = session?.guideName || null;
+
+  // What everyone on the tour hears
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const socket = getSocketClient();
+
+    const handleState = (data: GroupTourSession) => {
+      if (data.id !== sessionId) return;
+      setSession(data);
+    };
+
+    const handleEnded = (data: { sessionId: string; reason: GroupTourEndReason }) => {
+      if (data.sessionId !== sessionId) return;
+      finish(END_NOTICES[data.reason]);
+    };
+
+    socket.on('group-tour:state', handleState);
+    socket.on('group-tour:ended', handleEnded);
+
+    return () => {
+      socket.off('group-tour:state', handleState);
+      socket.off('group-tour:ended', handleEnded);
+    };
+  }, [sessionId, finish]);
+
+  // The guide streams their camera and selections, and hears from followers
+  useEffect(() => {
+    if (!sessionId || role !== 'guide') return;
+
+    const socket = getSocketClient();
+    let lastSentAt = 0;
+    let pendingPose: GroupTourCamera | null = null;
+    let cameraTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const sendCamera = () => {
+      cameraTimer = null;
+      if (!pendingPose) return;
+
+      socket.emit('group-tour:camera', { sessionId, ...pendingPose });
+      lastSentAt = Date.now();
+      pendingPose = null;
+    };
+
+    // Unity reports every frame; send at most one pose per interval, always ending on the latest
+    const handlePlayerMoved = (pose: GroupTourCamera) => {
+      pendingPose = pose;
+      if (cameraTimer) return;
+      cameraTimer = setTimeout(sendCamera, Math.max(0, CAMERA_INTERVAL_MS - (Date.now() - lastSentAt)));
+    };
+
+    const handleArtworkSelected = (data: { artworkId: string }) => {
+      socket.emit('group-tour:select', { sessionId, artworkId: data.artworkId });
+    };
+
+    const handleFollowers = (data: { sessionId: string; followers: GroupTourFollower[] }) => {
+      if (data.sessionId !== sessionId) return;
+      setFollowers(data.followers);
+    };
+
+    const handleQuestion = (data: { sessionId: string; question: GroupTourQuestion }) => {
+      if (data.sessionId !== sessionId) return;
+      setQuestions(prev => [...prev, data.question]);
+    };
+
+    const handleQuestions = (data: { sessionId: string; questions: GroupTourQuestion[] }) => {
+      if (data.sessionId !== sessionId) return;
+      setQuestions(data.questions);
+    };
+
+    // The server ends a tour whose guide drops off
+    const handleDisconnect = () => {
+      finish('Your connection dropped, so the tour ended');
+    };
+
+    unityBridge.on('PlayerMoved', handlePlayerMoved);
+    unityBridge.on('ArtworkSelected', handleArtworkSelected);
+    socket.on('group-tour:followers', handleFollowers);
+    socket.on('group-tour:question', handleQuestion);
+    socket.on('group-tour:questions', handleQuestions);
+    socket.on('disconnect', handleDisconnect);
+
+    if (latestPoseRef.current) {
+      handlePlayerMoved(latestPoseRef.current);
+    }
+
+    return () => {
+      unityBridge.off('PlayerMoved', handlePlayerMoved);
+      unityBridge.off('ArtworkSelected', handleArtworkSelected);
+      socket.off('group-tour:followers', handleFollowers);
+      socket.off('group-tour:question', handleQuestion);
+      socket.off('group-tour:questions', handleQuestions);
+      socket.off('disconnect', handleDisconnect);
+      if (cameraTimer) clearTimeout(cameraTimer);
+    };
+  }, [sessionId, role, finish]);
+
+  // The follower's camera and selection follow the guide's
+  useEffect(() => {
+    if (!sessionId || role !== 'follower') return;
+
+    const socket = getSocketClient();
+
+    const applyCamera = (camera: GroupTourCamera) => {
+      if (!unityBridge.supportsCommand('FollowCamera')) return;
+      unityBridge.followCamera(camera.position, camera.heading).catch(logUnityError('follow the guide'));
+    };
+
+    // Hand the camera to the guide, again whenever the scene reloads
+    const enterFollowMode = () => {
+      if (!unityBridge.supportsCommand('SetFollowMode')) return;
+      unityBridge.setFollowMode(true, guideName || undefined).catch(logUnityError('enter follow mode'));
+      if (guideCameraRef.current) {
+        applyCamera(guideCameraRef.current);
+      }
+    };
+
+    const handleLoaded = (data: { exhibitionId: string }) => {
+      if (data.exhibitionId === exhibitionId) {
+        enterFollowMode();
+      }
+    };
+
+    const handleCamera = (data: { sessionId: string } & GroupTourCamera) => {
+      if (data.sessionId !== sessionId) return;
+      guideCameraRef.current = { position: data.position, heading: data.heading };
+      applyCamera(guideCameraRef.current);
+    };
+
+    const handleSelected = (data: { sessionId: string; artworkId: string | null }) => {
+      if (data.sessionId !== sessionId || !data.artworkId) return;
+      onArtworkSelectedRef.current(data.artworkId);
+      if (unityBridge.isUnityReady()) {
+        unityBridge.selectArtwork(data.artworkId).catch(logUnityError('select the artwork'));
+      }
+    };
+
+    const handleMuted = (data: { sessionId: string; muted: boolean }) => {
+      if (data.sessionId !== sessionId) return;
+      setMuted(data.muted);
+      if (data.muted) {
+        setHandRaised(false);
+      }
+    };
+
+    const handleKicked = (data: { sessionId: string }) => {
+      if (data.sessionId !== sessionId) return;
+      finish(END_NOTICES.kicked);
+    };
+
+    // The server forgot this follower when the connection dropped
+    const rejoin = () => {
+      const joinedWith = joinedWithRef.current;
+      if (!joinedWith) return;
+
+      request<{ session: GroupTourSession }>('group-tour:join', { exhibitionId, ...joinedWith })
+        .then(result => {
+          setSession(result.session);
+          setMuted(false);
+          setHandRaised(false);
+        })
+        .catch(err => finish(err instanceof Error ? err.message : 'Lost the group tour'));
+    };
+
+    unityBridge.on('ExhibitionLoaded', handleLoaded);
+    socket.on('group-tour:camera', handleCamera);
+    socket.on('group-tour:selected', handleSelected);
+    socket.on('group-tour:muted', handleMuted);
+    socket.on('group-tour:kicked', handleKicked);
+    socket.on('connect', rejoin);
+
+    enterFollowMode();
+
+    return () => {
+      unityBridge.off('ExhibitionLoaded', handleLoaded);
+      socket.off('group-tour:camera', handleCamera);
+      socket.off('group-tour:selected', handleSelected);
+      socket.off('group-tour:muted', handleMuted);
+      socket.off('group-tour:kicked', handleKicked);
+      socket.off('connect', rejoin);
+
+      // Give the visitor their own controls back
+      if (unityBridge.supportsCommand('SetFollowMode')) {
+        unityBridge.setFollowMode(false).catch(logUnityError('leave follow mode'));
+      }
+    };
+  }, [sessionId, role, guideName, exhibitionId, finish]);
+
+  const start = useCallback(async () => {
+    if (!exhibitionId) return;
+
+    const result = await request<{ session: GroupTourSession }>('group-tour:start', { exhibitionId });
+    setNotice(null);
+    setFollowers([]);
+    setQuestions([]);
+    setRole('guide');
+    setSession(result.session);
+  }, [exhibitionId]);
+
+  const join = useCallback(async (code: string, displayName?: string) => {
+    if (!exhibitionId) return;
+
+    const joinedWith = { code: code.trim().toUpperCase(), displayName, guestToken: getGuestToken() };
+    const result = await request<{
+      session: GroupTourSession;
+      camera: GroupTourCamera | null;
+      selectedArtworkId: string | null;
+    }>('group-tour:join', { exhibitionId, ...joinedWith });
+
+    joinedWithRef.current = joinedWith;
+    guideCameraRef.current = result.camera;
+    setNotice(null);
+    setMuted(false);
+    setHandRaised(false);
+    setRole('follower');
+    setSession(result.session);
+
+    if (result.selectedArtworkId) {
+      onArtworkSelectedRef.current(result.selectedArtworkId);
+    }
+  }, [exhibitionId]);
+
+  const leave = useCallback(() => {
+    const { session: current, role: currentRole } = currentRef.current;
+    if (!current) return;
+
+    if (currentRole === 'guide') {
+      getSocketClient().emit('group-tour:end', { sessionId: current.id });
+    } else {
+      getSocketClient().emit('group-tour:leave');
+    }
+    finish(null);
+  }, [finish]);
+
+  const raiseHand = useCallback((raised: boolean) => {
+    if (!sessionId) return;
+
+    getSocketClient().emit('group-tour:hand', { sessionId, raised });
+    setHandRaised(raised);
+  }, [sessionId]);
+
+  const ask = useCallback(async (text: string) => {
+    if (!sessionId) return;
+
+    await request<{ question: GroupTourQuestion }>('group-tour:question', { sessionId, text });
+  }, [sessionId]);
+
+  const answer = useCallback((questionId: string) => {
+    if (!sessionId) return;
+
+    getSocketClient().emit('group-tour:answer', { sessionId, questionId });
+  }, [sessionId]);
+
+  const mute = useCallback((socketId: string, shouldMute: boolean) => {
+    if (!sessionId) return;
+
+    getSocketClient().emit('group-tour:mute', { sessionId, socketId, muted: shouldMute });
+  }, [sessionId]);
+
+  const kick = useCallback((socketId: string) => {
+    if (!sessionId) return;
+
+    getSocketClient().emit('group-tour:kick', { sessionId, socketId });
+  }, [sessionId]);
+
+  return {
+    session,
+    role,
+    followers,
+    questions,
+    muted,
+    handRaised,
+    notice,
+    start,
+    join,
+    leave,
+    raiseHand,
+    ask,
+    answer,
+    mute,
+    kick
+  };
+};
+
+export default useGroupTour;
@@ -0,0 +1,172 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getSocketClient, authenticateSocket } from '@/lib/socketClient';
+import { User } from '@/types/user.types';
+import {
+  LayoutChange,
+  LayoutDragPreview,
+  LayoutEditor,
+  PlacementLock,
+  PlacementPosition
+} from '@/types/exhibition.types';
+
+interface UseLayoutCollaborationReturn {
+  // The other curators with this exhibition's layout open
+  editors: LayoutEditor[];
+  // Slots held by other curators
+  locks: PlacementLock[];
+  // Artworks other curators are dragging right now
+  drags: LayoutDragPreview[];
+  focusWall: (wallId: string | null) => void;
+  sendDrag: (
+    wallId: string | null,
+    artwork: { id: string; title: string } | null,
+    position?: PlacementPosition | null
+  ) => void;
+  lockSlot: (wallId: string, position: PlacementPosition) => Promise<boolean>;
+  unlockSlot: (wallId: string, position: PlacementPosition) => void;
+}
+
+/**
+ * Live co-editing for the layout editor: tracks who else has the exhibition
+ * open, what they are dragging and which slots they hold
+ * @param exhibitionId Exhibition being edited
+ * @param user The signed-in curator
+ * @param onChange Called when someone saves a wall of the exhibition
+ */
+const useLayoutCollaboration = (
+  exhibitionId: string | null,
+  user: User | null,
+  onChange: (change: LayoutChange) => void
+): UseLayoutCollaborationReturn => {
+  const [editors, setEditors] = useState<LayoutEditor[]>([]);
+  const [locks, setLocks] = useState<PlacementLock[]>([]);
+  const [drags, setDrags] = useState<LayoutDragPreview[]>([]);
+
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  // Rejoin the wall the curator had selected after a reconnect
+  const focusedWallRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!exhibitionId || !user) return;
+
+    const socket = getSocketClient();
+
+    const join = () => {
+      authenticateSocket(user.id, user.role);
+      socket.emit('layout:join', exhibitionId);
+      if (focusedWallRef.current) {
+        socket.emit('layout:focus', { exhibitionId, wallId: focusedWallRef.current });
+      }
+    };
+
+    const handlePresence = (data: { exhibitionId: string; editors: LayoutEditor[] }) => {
+      if (data.exhibitionId !== exhibitionId) return;
+      setEditors(data.editors.filter(editor => editor.socketId !== socket.id));
+      // Forget drag previews of curators who left
+      setDrags(prev => prev.filter(drag => data.editors.some(editor => editor.socketId === drag.socketId)));
+    };
+
+    const handleLocks = (data: { exhibitionId: string; locks: PlacementLock[] }) => {
+      if (data.exhibitionId !== exhibitionId) return;
+      setLocks(data.locks.filter(lock => lock.socketId !== socket.id));
+    };
+
+    const handleDrag = (drag: LayoutDragPreview) => {
+      if (drag.exhibitionId !== exhibitionId) return;
+      setDrags(prev => [
+        ...prev.filter(existing => existing.socketId !== drag.socketId),
+        ...(drag.artworkId ? [drag] : [])
+      ]);
+    };
+
+    const handleChange = (change: LayoutChange) => {
+      if (change.exhibitionId !== exhibitionId) return;
+      onChangeRef.current(change);
+    };
+
+    socket.on('connect', join);
+    socket.on('layout:presence', handlePresence);
+    socket.on('layout:locks', handleLocks);
+    socket.on('layout:drag', handleDrag);
+    socket.on('layout:changed', handleChange);
+
+    join();
+
+    return () => {
+      socket.emit('layout:leave', exhibitionId);
+      socket.off('connect', join);
+      socket.off('layout:presence', handlePresence);
+      socket.off('layout:locks', handleLocks);
+      socket.off('layout:drag', handleDrag);
+      socket.off('layout:changed', handleChange);
+
+      setEditors([]);
+      setLocks([]);
+      setDrags([]);
+    };
+  }, [exhibitionId, user]);
+
+  const focusWall = useCallback((wallId: string | null) => {
+    if (!exhibitionId) return;
+
+    focusedWallRef.current = wallId;
+    getSocketClient().emit('layout:focus', { exhibitionId, wallId });
+  }, [exhibitionId]);
+
+  const sendDrag = useCallback((
+    wallId: string | null,
+    artwork: { id: string; title: string } | null,
+    position: PlacementPosition | null = null
+  ) => {
+    if (!exhibitionId) return;
+
+    getSocketClient().emit('layout:drag', {
+      exhibitionId,
+      wallId,
+      artworkId: artwork?.id || null,
+      artworkTitle: artwork?.title || null,
+      position
+    });
+  }, [exhibitionId]);
+
+  // Resolves false only when another curator holds the slot. If the server
+  // does not answer the save goes ahead and the revision check catches conflicts.
+  const lockSlot = useCallback((wallId: string, position: PlacementPosition) => {
+    return new Promise<boolean>(resolve => {
+      if (!exhibitionId) {
+        resolve(true);
+        return;
+      }
+
+      getSocketClient()
+        .timeout(5000)
+        .emit(
+          'layout:lock',
+          { exhibitionId, wallId, position },
+          (err: Error | null, result?: { ok: boolean; lock?: PlacementLock }) => {
+            resolve(Boolean(err) || Boolean(result?.ok));
+          }
+        );
+    });
+  }, [exhibitionId]);
+
+  const unlockSlot = useCallback((wallId: string, position: PlacementPosition) => {
+    if (!exhibitionId) return;
+
+    getSocketClient().emit('layout:unlock', { exhibitionId, wallId, position });
+  }, [exhibitionId]);
+
+  return {
+    editors,
+    locks,
+    drags,
+    focusWall,
+    sendDrag,
+    lockSlot,
+    unlockSlot
+  };
+};
+
+export default useLayoutCollaboration;
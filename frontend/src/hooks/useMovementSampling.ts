@@ -0,0 +1,101 @@
+import { useEffect } from 'react';
+import unityBridge from '@/lib/unityBridge';
+import { sendPositionSamples } from '@/lib/api/index';
+import { PositionSample } from '@/types/analytics.types';
+import { Vector3 } from '@/types/unity.types';
+
+// The visitor's position is taken this often, so each sample stands for this much time
+const SAMPLE_INTERVAL_MS = 2000;
+// Samples are sent together, at most this often, or sooner once this many are waiting
+const FLUSH_INTERVAL_MS = 30000;
+const MAX_BATCH_SIZE = 100;
+// A visitor who has not moved for this long has left the screen
+const IDLE_LIMIT_MS = 5 * 60 * 1000;
+
+/**
+ * Sample where the visitor walks in an exhibition's 3D scene, for the
+ * curators' heatmaps. Samples are taken while the exhibition is loaded and
+ * the tab is in view.
+ * @param exhibitionId Exhibition being visited
+ */
+const useMovementSampling = (exhibitionId: string | null): void => {
+  useEffect(() => {
+    if (!exhibitionId) return;
+
+    // Each visit to the scene is its own session
+    const sessionId = crypto.randomUUID();
+    let sceneReady = false;
+    let position: Vector3 | null = null;
+    let movedAt = 0;
+    let queue: PositionSample[] = [];
+
+    const flush = (keepalive = false) => {
+      if (queue.length === 0) return;
+
+      const batch = queue;
+      queue = [];
+
+      // Samples are best effort: a batch that fails is dropped
+      sendPositionSamples(exhibitionId, sessionId, batch, keepalive).catch(err => {
+        console.warn('Failed to send position samples:', err instanceof Error ? err.message : err);
+      });
+    };
+
+    const sample = () => {
+      if (!sceneReady || !position || document.visibilityState === 'hidden') return;
+      if (Date.now() - movedAt > IDLE_LIMIT_MS) return;
+
+      // Unity's x and z are the plan's x and y
+      queue.push({ x: position.x, y: position.z, sampledAt: new Date().toISOString() });
+      if (queue.length >= MAX_BATCH_SIZE) flush();
+    };
+
+    const handlePlayerMoved = (pose: { position: Vector3; heading: number }) => {
+      if (
+        !position ||
+        Math.abs(pose.position.x - position.x) > 0.01 ||
+        Math.abs(pose.position.z - position.z) > 0.01
+      ) {
+        movedAt = Date.now();
+      }
+      position = pose.position;
+    };
+
+    const handleLoaded = (data: { exhibitionId: string }) => {
+      sceneReady = data.exhibitionId === exhibitionId;
+    };
+
+    // Unity announcing itself again means it restarted and lost the scene
+    const handleRestart = () => {
+      sceneReady = false;
+      position = null;
+    };
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') flush(true);
+    };
+    const handlePageHide = () => flush(true);
+
+    unityBridge.on('PlayerMoved', handlePlayerMoved);
+    unityBridge.on('ExhibitionLoaded', handleLoaded);
+    unityBridge.on('UnityReady', handleRestart);
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('pagehide', handlePageHide);
+
+    const sampleTimer = setInterval(sample, SAMPLE_INTERVAL_MS);
+    const flushTimer = setInterval(() => flush(), FLUSH_INTERVAL_MS);
+
+    return () => {
+      clearInterval(sampleTimer);
+      clearInterval(flushTimer);
+      flush(true);
+      unityBridge.off('PlayerMoved', handlePlayerMoved);
+      unityBridge.off('ExhibitionLoaded', handleLoaded);
+      unityBridge.off('UnityReady', handleRestart);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, [exhibitionId]);
+};
+
+export default useMovementSampling;
@@ -0,0 +1,137 @@
+import { useCallback, useRef, useState } from 'react';
+import { ApiError, completeUpload, createUpload, getUpload, uploadChunk } from '@/lib/api/index';
+import { UploadState, UploadStatus } from '@/types/upload.types';
+
+export type ResumableUploadStatus = 'idle' | 'uploading' | 'paused' | 'completing' | 'complete' | 'error';
+
+// Tries at one chunk before giving up, waiting twice as long after each
+const MAX_CHUNK_ATTEMPTS = 6;
+const RETRY_BASE_MS = 1000;
+
+// Uploads are remembered per file, so choosing the same file again after a
+// reload carries on where it stopped
+const savedUploadKey = (file: File) => `resumable-upload:${file.name}:${file.size}:${file.lastModified}`;
+
+const sha256Base64 = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return btoa(String.fromCharCode(...new Uint8Array(digest)));
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Upload a file in checksummed chunks that survive dropped connections and
+ * can be paused and resumed
+ */
+const useResumableUpload = () => {
+  const [status, setStatus] = useState<ResumableUploadStatus>('idle');
+  const [uploadedBytes, setUploadedBytes] = useState(0);
+  const [totalBytes, setTotalBytes] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const pausedRef = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const resumeRef = useRef<(() => void) | null>(null);
+
+  const waitWhilePaused = () =>
+    pausedRef.current ? new Promise<void>(resolve => { resumeRef.current = resolve; }) : Promise.resolve();
+
+  /**
+   * Upload a file, resolving with the upload's id once it is complete.
+   * Stays pending while paused.
+   */
+  const upload = useCallback(async (file: File): Promise<string> => {
+    const key = savedUploadKey(file);
+    pausedRef.current = false;
+    setError(null);
+    setTotalBytes(file.size);
+    setUploadedBytes(0);
+    setStatus('uploading');
+
+    try {
+      const savedId = localStorage.getItem(key);
+      let state: UploadState | null = savedId ? await getUpload(savedId).catch(() => null) : null;
+      if (!state) {
+        state = await createUpload({ fileName: file.name, mimeType: file.type, size: file.size });
+        localStorage.setItem(key, state.id);
+      }
+
+      let offset = state.offset;
+      let attempts = 0;
+      setUploadedBytes(offset);
+
+      while (state.status === UploadStatus.UPLOADING && offset < file.size) {
+        await waitWhilePaused();
+
+        const chunkStart = offset;
+        const chunk = file.slice(chunkStart, chunkStart + state.chunkSize);
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        try {
+          state = await uploadChunk(state.id, chunkStart, chunk, await sha256Base64(chunk), {
+            signal: controller.signal,
+            onProgress: loaded => setUploadedBytes(chunkStart + Math.min(loaded, chunk.size))
+          });
+          offset = state.offset;
+          attempts = 0;
+          setUploadedBytes(offset);
+        } catch (err) {
+          // Pausing cancels the chunk in flight; it is sent again on resume
+          if (pausedRef.current) continue;
+
+          // The server has more or less than we thought, e.g. after a timeout
+          const { status: httpStatus, details } = err as ApiError;
+          const serverOffset = (details as { offset?: number } | undefined)?.offset;
+          if (httpStatus === 409 && typeof serverOffset === 'number') {
+            offset = serverOffset;
+            continue;
+          }
+
+          attempts++;
+          if (attempts >= MAX_CHUNK_ATTEMPTS || (httpStatus !== undefined && httpStatus < 500 && httpStatus !== 460)) {
+            throw err;
+          }
+          setUploadedBytes(chunkStart);
+          await wait(RETRY_BASE_MS * 2 ** (attempts - 1));
+        }
+      }
+
+      setStatus('completing');
+      const completed = await completeUpload(state.id);
+      localStorage.removeItem(key);
+      setStatus('complete');
+      return completed.id;
+    } catch (err) {
+      setStatus('error');
+      setError(err instanceof Error ? err.message : 'Upload failed');
+      throw err;
+    } finally {
+      abortRef.current = null;
+    }
+  }, []);
+
+  const pause = useCallback(() => {
+    pausedRef.current = true;
+    abortRef.current?.abort();
+    setStatus('paused');
+  }, []);
+
+  const resume = useCallback(() => {
+    pausedRef.current = false;
+    setStatus('uploading');
+    resumeRef.current?.();
+    resumeRef.current = null;
+  }, []);
+
+  const reset = useCallback(() => {
+    setStatus('idle');
+    setUploadedBytes(0);
+    setTotalBytes(0);
+    setError(null);
+  }, []);
+
+  return { status, uploadedBytes, totalBytes, error, upload, pause, resume, reset };
+};
+
+export default useResumableUpload;
@@ -0,0 +1,59 @@
+import { sendAnalyticsEvents } from '@/lib/api/analytics';
+import { AnalyticsEvent } from '@/types/analytics.types';
+
+// Events are sent together, at most this often, or sooner once this many are waiting
+const FLUSH_INTERVAL_MS = 10000;
+const MAX_BATCH_SIZE = 50;
+
+let queue: AnalyticsEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let listening = false;
+
+/**
+ * Send everything waiting. When the page is going away the request is kept
+ * alive so it still arrives.
+ * @param keepalive Whether the page is being closed or hidden
+ */
+export const flushAnalytics = (keepalive = false): void => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (queue.length === 0) return;
+
+  const batch = queue;
+  queue = [];
+
+  // Analytics are best effort: a batch that fails is dropped
+  sendAnalyticsEvents(batch, keepalive).catch(err => {
+    console.warn('Failed to send analytics events:', err instanceof Error ? err.message : err);
+  });
+};
+
+const flushOnHide = () => {
+  if (document.visibilityState === 'hidden') {
+    flushAnalytics(true);
+  }
+};
+
+/**
+ * Record an engagement event. Events are batched and sent in the background.
+ * @param event What the visitor did
+ */
+export const trackEvent = (event: AnalyticsEvent): void => {
+  if (typeof window === 'undefined') return;
+
+  if (!listening) {
+    listening = true;
+    document.addEventListener('visibilitychange', flushOnHide);
+    window.addEventListener('pagehide', () => flushAnalytics(true));
+  }
+
+  queue.push({ ...event, occurredAt: event.occurredAt || new Date().toISOString() });
+
+  if (queue.length >= MAX_BATCH_SIZE) {
+    flushAnalytics();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(() => flushAnalytics(), FLUSH_INTERVAL_MS);
+  }
+};
@@ -0,0 +1,79 @@
+// src/lib/api/analytics.ts
+import api from './index';
+import {
+  AnalyticsEvent,
+  AnalyticsRange,
+  ArtistAnalytics,
+  CuratorAnalytics,
+  ExhibitionHeatmap,
+  PositionSample
+} from '@/types/analytics.types';
+
+/**
+ * Send a batch of engagement events
+ * @param events Up to 100 events
+ * @param keepalive Let the request finish after the page is closed
+ */
+export const sendAnalyticsEvents = async (
+  events: AnalyticsEvent[],
+  keepalive = false
+): Promise<{ accepted: number }> => {
+  const response = await api.post(
+    '/analytics/events',
+    { events },
+    keepalive ? { adapter: 'fetch', fetchOptions: { keepalive: true } } : undefined
+  );
+  return response.data;
+};
+
+/**
+ * Send positions sampled from a visitor's walk through an exhibition
+ * @param exhibitionId Exhibition being visited
+ * @param sessionId The visit the samples belong to
+ * @param samples Up to 200 samples
+ * @param keepalive Let the request finish after the page is closed
+ */
+export const sendPositionSamples = async (
+  exhibitionId: string,
+  sessionId: string,
+  samples: PositionSample[],
+  keepalive = false
+): Promise<{ accepted: number }> => {
+  const response = await api.post(
+    '/analytics/positions',
+    { exhibitionId, sessionId, samples },
+    keepalive ? { adapter: 'fetch', fetchOptions: { keepalive: true } } : undefined
+  );
+  return response.data;
+};
+
+/**
+ * Get engagement with the signed-in artist's artworks
+ * @param range Days to cover
+ */
+export const getArtistAnalytics = async (range: AnalyticsRange = {}): Promise<ArtistAnalytics> => {
+  const response = await api.get('/analytics/artist', { params: range });
+  return response.data;
+};
+
+/**
+ * Get engagement with the signed-in curator's exhibitions
+ * @param range Days to cover
+ */
+export const getCuratorAnalytics = async (range: AnalyticsRange = {}): Promise<CuratorAnalytics> => {
+  const response = await api.get('/analytics/curator', { params: range });
+  return response.data;
+};
+
+/**
+ * Get a heatmap of where visitors walked in an exhibition
+ * @param exhibitionId Exhibition to map
+ * @param options Days to cover and the cell size in metres
+ */
+export const getExhibitionHeatmap = async (
+  exhibitionId: string,
+  options: AnalyticsRange & { cellSize?: number } = {}
+): Promise<ExhibitionHeatmap> => {
+  const response = await api.get(`/analytics/exhibitions/${exhibitionId}/heatmap`, { params: options });
+  return response.data;
+};
@@ -1,5 +1,5 @@
 import api from './index';
-import { Artwork } from '@/types/artwork.types';
+import { Artwork, ArtworkReview, RejectionReason, ReviewComparison } from '@/types/artwork.types';
 
 interface ArtworksResponse {
   artworks: Artwork[];
@@ -87,39 +87,52 @@ export const approveArtwork = async (id: string): Promise<Artwork> => {
 /**
  * Reject artwork (curator or admin only)
  * @param id Artwork ID
- * @param reason Optional reason for rejection
+ * @param reasonCategory Structured reason for rejection
+ * @param reason Optional details for the artist (required for "other")
  */
-export const rejectArtwork = async (id: string, reason?: string): Promise<Artwork> => {
-  const response = await api.patch(`/artworks/${id}/reject`, { reason });
+export const rejectArtwork = async (id: string, reasonCategory: RejectionReason, reason?: string): Promise<Artwork> => {
+  const response = await api.patch(`/artworks/${id}/reject`, { reasonCategory, reason });
   return response.data;
 };
 
 /**
- * Like or unlike an artwork
+ * Revise a rejected artwork and send it back for review (artist only)
  * @param id Artwork ID
- * @param like True to like, false to unlike
+ * @param formData Form data with the revised details, an optional new image and a note for curators
  */
-export const toggleLikeArtwork = async (id: string, like: boolean): Promise<{ message: string }> => {
-  const response = await api.post(`/artworks/${id}/${like ? 'like' : 'unlike'}`);
+export const resubmitArtwork = async (id: string, formData: FormData): Promise<Artwork> => {
+  const response = await api.post(`/artworks/${id}/resubmit`, formData, {
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+  });
   return response.data;
 };
 
 /**
- * Add comment to artwork
+ * Get the review history of an artwork, newest round first
  * @param id Artwork ID
- * @param content Comment content
  */
-export const addComment = async (id: string, content: string): Promise<any> => {
-  const response = await api.post(`/artworks/${id}/comments`, { content });
+export const getArtworkReviews = async (id: string): Promise<ArtworkReview[]> => {
+  const response = await api.get(`/artworks/${id}/reviews`);
   return response.data;
 };
 
 /**
- * Delete comment from artwork
- * @param artworkId Artwork ID
- * @param commentId Comment ID
+ * Compare the latest review round of an artwork with the previous one
+ * @param id Artwork ID
  */
-export const deleteComment = async (artworkId: string, commentId: string): Promise<{ message: string }> => {
-  const response = await api.delete(`/artworks/${artworkId}/comments/${commentId}`);
+export const getReviewComparison = async (id: string): Promise<ReviewComparison> => {
+  const response = await api.get(`/artworks/${id}/reviews/compare`);
+  return response.data;
+};
+
+/**
+ * Like or unlike an artwork
+ * @param id Artwork ID
+ * @param like True to like, false to unlike
+ */
+export const toggleLikeArtwork = async (id: string, like: boolean): Promise<{ message: string }> => {
+  const response = await api.post(`/artworks/${id}/${like ? 'like' : 'unlike'}`);
   return response.data;
 };
\ No newline at end of file
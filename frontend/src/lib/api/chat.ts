@@ -0,0 +1,78 @@
+// src/lib/api/chat.ts
+import api from './index';
+import { ChatHistory, ChatMute } from '@/types/chat.types';
+
+/**
+ * Get a page of an exhibition's chat history, oldest first. Messages are sent
+ * over the socket.
+ * @param exhibitionId Exhibition ID
+ * @param before Only messages sent before this time
+ * @param limit Most messages to return
+ */
+export const getChatHistory = async (
+  exhibitionId: string,
+  before?: string,
+  limit = 50
+): Promise<ChatHistory> => {
+  const response = await api.get(`/exhibitions/${exhibitionId}/chat`, {
+    params: { limit, ...(before && { before }) }
+  });
+  return response.data;
+};
+
+/**
+ * Delete a chat message; authors can delete their own, moderators any
+ * @param exhibitionId Exhibition ID
+ * @param messageId Message ID
+ */
+export const deleteChatMessage = async (exhibitionId: string, messageId: string): Promise<{ message: string }> => {
+  const response = await api.delete(`/exhibitions/${exhibitionId}/chat/${messageId}`);
+  return response.data;
+};
+
+/**
+ * Get the visitors muted in an exhibition's chat (curators and admins)
+ * @param exhibitionId Exhibition ID
+ */
+export const getChatMutes = async (exhibitionId: string): Promise<ChatMute[]> => {
+  const response = await api.get(`/exhibitions/${exhibitionId}/chat/mutes`);
+  return response.data;
+};
+
+/**
+ * Mute a visitor in an exhibition's chat (curators and admins)
+ * @param exhibitionId Exhibition ID
+ * @param userId The visitor
+ * @param minutes How long for; null until the mute is lifted
+ */
+export const muteChatUser = async (
+  exhibitionId: string,
+  userId: string,
+  minutes: number | null
+): Promise<ChatMute> => {
+  const response = await api.put(`/exhibitions/${exhibitionId}/chat/mutes/${userId}`, { minutes });
+  return response.data;
+};
+
+/**
+ * Lift a visitor's chat mute (curators and admins)
+ * @param exhibitionId Exhibition ID
+ * @param userId The visitor
+ */
+export const unmuteChatUser = async (exhibitionId: string, userId: string): Promise<{ message: string }> => {
+  const response = await api.delete(`/exhibitions/${exhibitionId}/chat/mutes/${userId}`);
+  return response.data;
+};
+
+/**
+ * Turn slow mode on or off (curators and admins)
+ * @param exhibitionId Exhibition ID
+ * @param seconds Seconds between each visitor's messages; 0 turns it off
+ */
+export const setChatSlowMode = async (
+  exhibitionId: string,
+  seconds: number
+): Promise<{ exhibitionId: string; slowModeSeconds: number }> => {
+  const response = await api.put(`/exhibitions/${exhibitionId}/chat/slow-mode`, { seconds });
+  return response.data;
+};
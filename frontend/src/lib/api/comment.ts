@@ -0,0 +1,84 @@
+import api from './index';
+import { Comment, CommentModerationData, CommentVersion } from '@/types/artwork.types';
+
+interface CommentsResponse {
+  comments: Comment[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    pages: number;
+  };
+}
+
+interface CommentParams {
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Get the comment threads on an artwork
+ * @param artworkId Artwork ID
+ * @param params Pagination parameters
+ */
+export const getComments = async (artworkId: string, params?: CommentParams): Promise<CommentsResponse> => {
+  const response = await api.get(`/artworks/${artworkId}/comments`, { params });
+  return response.data;
+};
+
+/**
+ * Add a comment to an artwork, or reply to an existing comment
+ * @param artworkId Artwork ID
+ * @param content Comment text
+ * @param parentId ID of the comment being replied to
+ */
+export const createComment = async (artworkId: string, content: string, parentId?: string): Promise<Comment> => {
+  const response = await api.post(`/artworks/${artworkId}/comments`, { content, parentId });
+  return response.data;
+};
+
+/**
+ * Edit a comment
+ * @param artworkId Artwork ID
+ * @param commentId Comment ID
+ * @param content New comment text
+ */
+export const updateComment = async (artworkId: string, commentId: string, content: string): Promise<Comment> => {
+  const response = await api.patch(`/artworks/${artworkId}/comments/${commentId}`, { content });
+  return response.data;
+};
+
+/**
+ * Delete a comment
+ * @param artworkId Artwork ID
+ * @param commentId Comment ID
+ */
+export const deleteComment = async (artworkId: string, commentId: string): Promise<{ message: string }> => {
+  const response = await api.delete(`/artworks/${artworkId}/comments/${commentId}`);
+  return response.data;
+};
+
+/**
+ * Get every version of a comment, oldest first
+ * @param artworkId Artwork ID
+ * @param commentId Comment ID
+ */
+export const getCommentHistory = async (artworkId: string, commentId: string): Promise<CommentVersion[]> => {
+  const response = await api.get(`/artworks/${artworkId}/comments/${commentId}/history`);
+  return response.data;
+};
+
+/**
+ * Hide, pin or lock a comment (curators and admins only)
+ * @param artworkId Artwork ID
+ * @param commentId Comment ID
+ * @param data Moderation flags to change
+ */
+export const moderateComment = async (
+  artworkId: string,
+  commentId: string,
+  data: CommentModerationData
+): Promise<Comment> => {
+  const response = await api.patch(`/artworks/${artworkId}/comments/${commentId}/moderate`, data);
+  return response.data;
+};
@@ -1,45 +1,157 @@
 // src/lib/api/exhibition.ts
-import api from './index';
+import api, { ApiError } from './index';
 import { 
   Exhibition, 
   Wall, 
   ExhibitionCreateData, 
+  ExhibitionUpdateData, 
+  ExhibitionStatus, 
   WallData, 
-  WallLayoutData 
+  WallLayoutData,
+  WallLayoutVersion,
+  WallLayoutDiff,
+  LayoutPublishStatus,
+  LayoutPreview,
+  PlacementIssue,
+  AutoLayoutData,
+  AutoLayoutPreview,
+  FloorPlan,
+  Room,
+  RoomData,
+  Doorway,
+  DoorwayData
 } from '@/types/exhibition.types';
 import { Artwork } from '@/types/artwork.types';
 
+interface ExhibitionsResponse {
+  exhibitions: Exhibition[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    pages: number;
+  };
+}
+
+interface ExhibitionParams {
+  curator?: string;
+  isActive?: boolean;
+  status?: ExhibitionStatus;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Get all exhibitions with filtering and pagination
+ * @param params Filter and pagination parameters
+ */
+export const getExhibitions = async (params?: ExhibitionParams): Promise<ExhibitionsResponse> => {
+  const response = await api.get('/exhibitions', { params });
+  return response.data;
+};
+
 /**
- * Get the active exhibition with all walls and artwork placements
+ * Get an exhibition with all walls and artwork placements
+ * @param id Exhibition ID
  */
-export const getExhibition = async (): Promise<{exhibition: Exhibition}> => {
-  const response = await api.get('/exhibition');
+export const getExhibitionById = async (id: string): Promise<Exhibition> => {
+  const response = await api.get(`/exhibitions/${id}`);
   return response.data;
 };
 
 /**
- * Create or update the exhibition
+ * Create a new exhibition owned by the current curator
  * @param data Exhibition data
  */
-export const createOrUpdateExhibition = async (data: ExhibitionCreateData): Promise<Exhibition> => {
-  const response = await api.post('/exhibition', data);
+export const createExhibition = async (data: ExhibitionCreateData): Promise<Exhibition> => {
+  const response = await api.post('/exhibitions', data);
+  return response.data;
+};
+
+/**
+ * Update an exhibition
+ * @param id Exhibition ID
+ * @param data Updated exhibition data
+ */
+export const updateExhibition = async (id: string, data: ExhibitionUpdateData): Promise<Exhibition> => {
+  const response = await api.put(`/exhibitions/${id}`, data);
+  return response.data;
+};
+
+/**
+ * Delete an exhibition
+ * @param id Exhibition ID
+ */
+export const deleteExhibition = async (id: string): Promise<{ message: string }> => {
+  const response = await api.delete(`/exhibitions/${id}`);
+  return response.data;
+};
+
+/**
+ * Publish a draft exhibition so it opens and closes on its dates
+ * @param id Exhibition ID
+ */
+export const publishExhibition = async (id: string): Promise<Exhibition> => {
+  const response = await api.patch(`/exhibitions/${id}/publish`);
+  return response.data;
+};
+
+/**
+ * Move a scheduled exhibition back to draft
+ * @param id Exhibition ID
+ */
+export const unpublishExhibition = async (id: string): Promise<Exhibition> => {
+  const response = await api.patch(`/exhibitions/${id}/unpublish`);
   return response.data;
 };
 
 /**
- * Get all walls for the exhibition
+ * Get all walls for an exhibition
+ * @param exhibitionId Exhibition ID
+ * @param options Pass draft to get the curator's unpublished layout
  */
-export const getWalls = async (): Promise<Wall[]> => {
-  const response = await api.get('/exhibition/walls');
+export const getWalls = async (exhibitionId: string, options?: { draft?: boolean }): Promise<Wall[]> => {
+  const response = await api.get(`/exhibitions/${exhibitionId}/layout`, {
+    params: options?.draft ? { layout: 'draft' } : undefined
+  });
   return response.data;
 };
 
 /**
- * Create a new wall
+ * Get when the layout was last published and whether the draft has changed since
+ * @param exhibitionId Exhibition ID
+ */
+export const getLayoutPublishStatus = async (exhibitionId: string): Promise<LayoutPublishStatus> => {
+  const response = await api.get(`/exhibitions/${exhibitionId}/layout/status`);
+  return response.data;
+};
+
+/**
+ * Publish the draft layout so visitors see it
+ * @param exhibitionId Exhibition ID
+ */
+export const publishExhibitionLayout = async (exhibitionId: string): Promise<LayoutPublishStatus> => {
+  const response = await api.post(`/exhibitions/${exhibitionId}/layout/publish`);
+  return response.data;
+};
+
+/**
+ * Create a preview link for viewing the draft layout in the 3D viewer
+ * @param exhibitionId Exhibition ID
+ */
+export const createLayoutPreview = async (exhibitionId: string): Promise<LayoutPreview> => {
+  const response = await api.post(`/exhibitions/${exhibitionId}/layout/preview`);
+  return response.data;
+};
+
+/**
+ * Create a new wall in an exhibition
+ * @param exhibitionId Exhibition ID
  * @param data Wall data
  */
-export const createWall = async (data: WallData): Promise<Wall> => {
-  const response = await api.post('/exhibition/walls', data);
+export const createWall = async (exhibitionId: string, data: WallData): Promise<Wall> => {
+  const response = await api.post(`/exhibitions/${exhibitionId}/walls`, data);
   return response.data;
 };
 
@@ -48,8 +160,8 @@ export const createWall = async (data: WallData): Promise<Wall> => {
  * @param id Wall ID
  * @param data Updated wall data
  */
-export const updateWall = async (id: string, data: WallData): Promise<Wall> => {
-  const response = await api.put(`/exhibition/walls/${id}`, data);
+export const updateWall = async (id: string, data: Partial<WallData>): Promise<Wall> => {
+  const response = await api.put(`/exhibitions/walls/${id}`, data);
   return response.data;
 };
 
@@ -58,7 +170,83 @@ export const updateWall = async (id: string, data: WallData): Promise<Wall> => {
  * @param id Wall ID
  */
 export const deleteWall = async (id: string): Promise<{ message: string }> => {
-  const response = await api.delete(`/exhibition/walls/${id}`);
+  const response = await api.delete(`/exhibitions/walls/${id}`);
+  return response.data;
+};
+
+/**
+ * Get an exhibition's floor plan: its rooms with their walls and artworks, and the doorways between them
+ * @param exhibitionId Exhibition ID
+ * @param options draft for the curator's draft, previewToken for a draft preview link
+ */
+export const getFloorPlan = async (
+  exhibitionId: string,
+  options?: { draft?: boolean; previewToken?: string }
+): Promise<FloorPlan> => {
+  const response = await api.get(`/exhibitions/${exhibitionId}/floor-plan`, {
+    params: {
+      ...(options?.draft && { layout: 'draft' }),
+      ...(options?.previewToken && { preview: options.previewToken })
+    }
+  });
+  return response.data;
+};
+
+/**
+ * Add a room to an exhibition's floor plan
+ * @param exhibitionId Exhibition ID
+ * @param data Room name and footprint
+ */
+export const createRoom = async (exhibitionId: string, data: RoomData): Promise<Room> => {
+  const response = await api.post(`/exhibitions/${exhibitionId}/rooms`, data);
+  return response.data;
+};
+
+/**
+ * Update a room
+ * @param id Room ID
+ * @param data Fields to change
+ */
+export const updateRoom = async (id: string, data: Partial<RoomData>): Promise<Room> => {
+  const response = await api.put(`/exhibitions/rooms/${id}`, data);
+  return response.data;
+};
+
+/**
+ * Delete a room. Its walls stay in the exhibition, off the floor plan.
+ * @param id Room ID
+ */
+export const deleteRoom = async (id: string): Promise<{ message: string }> => {
+  const response = await api.delete(`/exhibitions/rooms/${id}`);
+  return response.data;
+};
+
+/**
+ * Add a doorway between two rooms, or from a room to outside
+ * @param exhibitionId Exhibition ID
+ * @param data The rooms it joins and where it is
+ */
+export const createDoorway = async (exhibitionId: string, data: DoorwayData): Promise<Doorway> => {
+  const response = await api.post(`/exhibitions/${exhibitionId}/doorways`, data);
+  return response.data;
+};
+
+/**
+ * Update a doorway
+ * @param id Doorway ID
+ * @param data Fields to change
+ */
+export const updateDoorway = async (id: string, data: Partial<DoorwayData>): Promise<Doorway> => {
+  const response = await api.put(`/exhibitions/doorways/${id}`, data);
+  return response.data;
+};
+
+/**
+ * Delete a doorway
+ * @param id Doorway ID
+ */
+export const deleteDoorway = async (id: string): Promise<{ message: string }> => {
+  const response = await api.delete(`/exhibitions/doorways/${id}`);
   return response.data;
 };
 
@@ -68,7 +256,57 @@ export const deleteWall = async (id: string): Promise<{ message: string }> => {
  * @param data Layout data with artwork placements
  */
 export const updateWallLayout = async (wallId: string, data: WallLayoutData): Promise<Wall> => {
-  const response = await api.post(`/exhibition/walls/${wallId}/layout`, data);
+  const response = await api.post(`/exhibitions/walls/${wallId}/layout`, data);
+  return response.data;
+};
+
+/**
+ * Ask the server to propose a layout for a wall. The proposal is not saved.
+ * @param wallId Wall ID
+ * @param data Artworks to hang and how to arrange them
+ */
+export const previewAutoLayout = async (wallId: string, data: AutoLayoutData): Promise<AutoLayoutPreview> => {
+  const response = await api.post(`/exhibitions/walls/${wallId}/layout/auto`, data);
+  return response.data;
+};
+
+/**
+ * Get the placements a layout save was refused for, if that is why it failed
+ * @param error Error thrown by a layout save or restore
+ */
+export const getPlacementIssues = (error: unknown): PlacementIssue[] => {
+  const details = (error as ApiError | undefined)?.details;
+  return Array.isArray(details) ? details as PlacementIssue[] : [];
+};
+
+/**
+ * Get the saved layout versions of a wall, newest first
+ * @param wallId Wall ID
+ */
+export const getWallLayoutVersions = async (wallId: string): Promise<WallLayoutVersion[]> => {
+  const response = await api.get(`/exhibitions/walls/${wallId}/layout/versions`);
+  return response.data;
+};
+
+/**
+ * Compare two layout versions of a wall
+ * @param wallId Wall ID
+ * @param from Older version (defaults to the one before `to`)
+ * @param to Newer version (defaults to the latest)
+ */
+export const getWallLayoutDiff = async (wallId: string, from?: number, to?: number): Promise<WallLayoutDiff> => {
+  const response = await api.get(`/exhibitions/walls/${wallId}/layout/diff`, { params: { from, to } });
+  return response.data;
+};
+
+/**
+ * Restore an earlier layout version of a wall. The restore is saved as a new version.
+ * @param wallId Wall ID
+ * @param version Version to restore
+ * @param expectedRevision The wall's layout revision the restore was chosen from
+ */
+export const rollbackWallLayout = async (wallId: string, version: number, expectedRevision?: number): Promise<Wall> => {
+  const response = await api.post(`/exhibitions/walls/${wallId}/layout/versions/${version}/rollback`, { expectedRevision });
   return response.data;
 };
 
@@ -76,36 +314,26 @@ export const updateWallLayout = async (wallId: string, data: WallLayoutData): Pr
  * Get all approved artworks for placement (curator's stockpile)
  */
 export const getArtworksForPlacement = async (): Promise<Artwork[]> => {
-  const response = await api.get('/exhibition/stockpile');
+  const response = await api.get('/exhibitions/stockpile');
   console.log('Artworks for placement:', response);
   return response.data;
 };
 
 /**
  * Save the complete exhibition layout to be used by Unity WebGL
- * @param exhibitionId Exhibition ID (optional in single exhibition system)
+ * @param exhibitionId Exhibition ID
  */
-export const saveExhibitionLayout = async (exhibitionId?: string): Promise<{ message: string }> => {
-  // In a single exhibition system, the exhibitionId might be optional
-  const endpoint = exhibitionId 
-    ? `/exhibition/${exhibitionId}/save-layout` 
-    : '/exhibition/save-layout';
-  
-  const response = await api.post(endpoint);
+export const saveExhibitionLayout = async (exhibitionId: string): Promise<{ message: string }> => {
+  const response = await api.post(`/exhibitions/${exhibitionId}/save-layout`);
   return response.data;
 };
 
 /**
  * Get the Unity compatible layout data for rendering the exhibition
  * This endpoint would be called by the Unity WebGL application
- * @param exhibitionId Exhibition ID (optional in single exhibition system)
- */
-export const getUnityLayout = async (exhibitionId?: string): Promise<any> => {
-  // In a single exhibition system, the exhibitionId might be optional
-  const endpoint = exhibitionId 
-    ? `/exhibition/${exhibitionId}/unity-layout` 
-    : '/exhibition/unity-layout';
-  
-  const response = await api.get(endpoint);
+ * @param exhibitionId Exhibition ID
+ */
+export const getUnityLayout = async (exhibitionId: string): Promise<any> => {
+  const response = await api.get(`/exhibitions/${exhibitionId}/unity-layout`);
   return response.data;
 };
\ No newline at end of file
@@ -153,8 +153,16 @@ api.interceptors.response.use(
   }
 );
 
+/**
+ * An error from the API, keeping the status code and any machine-readable details
+ */
+export interface ApiError extends Error {
+  status?: number;
+  details?: unknown;
+}
+
 // Format error messages from API responses
-export const formatError = (error: any): Error => {
+export const formatError = (error: any): ApiError => {
   let message = 'An unexpected error occurred';
   
   if (error.response) {
@@ -171,7 +179,10 @@ export const formatError = (error: any): Error => {
     message = error.message;
   }
   
-  return new Error(message);
+  return Object.assign(new Error(message), {
+    status: error.response?.status,
+    details: error.response?.data?.details
+  });
 };
 
 // Add CSRF protection
@@ -219,4 +230,10 @@ export * from './auth';
 export * from './artwork';
 export * from './user';
 export * from './notification';
-export * from './exhibition';
\ No newline at end of file
+export * from './exhibition';
+export * from './comment';
+export * from './review';
+export * from './tour';
+export * from './chat';
+export * from './analytics';
+export * from './upload';
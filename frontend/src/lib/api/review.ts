@@ -0,0 +1,59 @@
+import api from './index';
+import { ReviewQueueItem } from '@/types/artwork.types';
+
+interface ReviewQueueResponse {
+  items: ReviewQueueItem[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    pages: number;
+  };
+}
+
+interface ReviewQueueParams {
+  category?: string;
+  artist?: string;
+  search?: string;
+  // 'me', 'unassigned' or a curator's user ID
+  assignee?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Get the artworks waiting for review, oldest submission first
+ * @param params Filter and pagination parameters
+ */
+export const getReviewQueue = async (params?: ReviewQueueParams): Promise<ReviewQueueResponse> => {
+  const response = await api.get('/reviews/queue', { params });
+  return response.data;
+};
+
+/**
+ * Claim an artwork so other curators can't act on it for a while
+ * @param artworkId Artwork ID
+ */
+export const claimReview = async (artworkId: string): Promise<ReviewQueueItem> => {
+  const response = await api.post(`/reviews/queue/${artworkId}/claim`);
+  return response.data;
+};
+
+/**
+ * Give a claimed artwork back to the queue
+ * @param artworkId Artwork ID
+ */
+export const releaseReview = async (artworkId: string): Promise<ReviewQueueItem> => {
+  const response = await api.post(`/reviews/queue/${artworkId}/release`);
+  return response.data;
+};
+
+/**
+ * Assign an artwork to a curator (admin only)
+ * @param artworkId Artwork ID
+ * @param curatorId Curator's user ID
+ */
+export const assignReview = async (artworkId: string, curatorId: string): Promise<ReviewQueueItem> => {
+  const response = await api.post(`/reviews/queue/${artworkId}/assign`, { curatorId });
+  return response.data;
+};
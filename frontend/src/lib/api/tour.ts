@@ -0,0 +1,88 @@
+// src/lib/api/tour.ts
+import api from './index';
+import { Tour, TourData, TourStop, TourStopData } from '@/types/tour.types';
+
+/**
+ * Get the tours of an exhibition. Visitors only get published tours.
+ * @param exhibitionId Exhibition ID
+ */
+export const getTours = async (exhibitionId: string): Promise<Tour[]> => {
+  const response = await api.get(`/exhibitions/${exhibitionId}/tours`);
+  return response.data;
+};
+
+/**
+ * Get a tour with its stops in order
+ * @param id Tour ID
+ */
+export const getTour = async (id: string): Promise<Tour> => {
+  const response = await api.get(`/exhibitions/tours/${id}`);
+  return response.data;
+};
+
+/**
+ * Start a new, unpublished tour of an exhibition
+ * @param exhibitionId Exhibition ID
+ * @param data Title and description
+ */
+export const createTour = async (exhibitionId: string, data: TourData): Promise<Tour> => {
+  const response = await api.post(`/exhibitions/${exhibitionId}/tours`, data);
+  return response.data;
+};
+
+/**
+ * Update a tour's details, or publish it
+ * @param id Tour ID
+ * @param data Fields to change
+ */
+export const updateTour = async (id: string, data: Partial<TourData>): Promise<Tour> => {
+  const response = await api.put(`/exhibitions/tours/${id}`, data);
+  return response.data;
+};
+
+/**
+ * Delete a tour
+ * @param id Tour ID
+ */
+export const deleteTour = async (id: string): Promise<{ message: string }> => {
+  const response = await api.delete(`/exhibitions/tours/${id}`);
+  return response.data;
+};
+
+/**
+ * Replace a tour's stops with a new ordered list
+ * @param id Tour ID
+ * @param stops The stops in order; stops left out are deleted
+ */
+export const saveTourStops = async (id: string, stops: TourStopData[]): Promise<Tour> => {
+  const response = await api.put(`/exhibitions/tours/${id}/stops`, { stops });
+  return response.data;
+};
+
+/**
+ * Attach a narration clip to a tour stop
+ * @param tourId Tour ID
+ * @param stopId Stop ID
+ * @param audio The audio file
+ */
+export const uploadTourStopAudio = async (tourId: string, stopId: string, audio: File): Promise<TourStop> => {
+  const formData = new FormData();
+  formData.append('audio', audio);
+
+  const response = await api.post(`/exhibitions/tours/${tourId}/stops/${stopId}/audio`, formData, {
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+  });
+  return response.data;
+};
+
+/**
+ * Remove a tour stop's narration clip
+ * @param tourId Tour ID
+ * @param stopId Stop ID
+ */
+export const deleteTourStopAudio = async (tourId: string, stopId: string): Promise<TourStop> => {
+  const response = await api.delete(`/exhibitions/tours/${tourId}/stops/${stopId}/audio`);
+  return response.data;
+};
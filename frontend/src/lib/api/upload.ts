@@ -0,0 +1,70 @@
+import api from './index';
+import { UploadState } from '@/types/upload.types';
+
+interface ChunkOptions {
+  signal?: AbortSignal;
+  // Bytes of this chunk sent so far
+  onProgress?: (loaded: number) => void;
+}
+
+/**
+ * Start a chunked upload
+ * @param file What will be uploaded
+ */
+export const createUpload = async (file: { fileName: string; mimeType: string; size: number }): Promise<UploadState> => {
+  const response = await api.post('/uploads', file);
+  return response.data;
+};
+
+/**
+ * How far an upload has got
+ * @param id Upload ID
+ */
+export const getUpload = async (id: string): Promise<UploadState> => {
+  const response = await api.get(`/uploads/${id}`);
+  return response.data;
+};
+
+/**
+ * Send the next chunk of an upload
+ * @param id Upload ID
+ * @param offset Where in the file the chunk starts
+ * @param chunk The bytes
+ * @param checksum Base64 SHA-256 of the chunk
+ */
+export const uploadChunk = async (
+  id: string,
+  offset: number,
+  chunk: Blob,
+  checksum: string,
+  { signal, onProgress }: ChunkOptions = {}
+): Promise<UploadState> => {
+  const response = await api.patch(`/uploads/${id}`, chunk, {
+    headers: {
+      'Content-Type': 'application/offset+octet-stream',
+      'Upload-Offset': String(offset),
+      'Upload-Checksum': `sha256 ${checksum}`,
+    },
+    signal,
+    onUploadProgress: event => onProgress?.(event.loaded),
+  });
+  return response.data;
+};
+
+/**
+ * Finish an upload once every chunk is in
+ * @param id Upload ID
+ */
+export const completeUpload = async (id: string): Promise<UploadState> => {
+  const response = await api.post(`/uploads/${id}/complete`);
+  return response.data;
+};
+
+/**
+ * Give up on an upload
+ * @param id Upload ID
+ */
+export const cancelUpload = async (id: string): Promise<{ message: string }> => {
+  const response = await api.delete(`/uploads/${id}`);
+  return response.data;
+};
@@ -0,0 +1,409 @@
+import { FloorPlan } from '@/types/exhibition.types';
+import {
+  SpawnAvatarCommandPayload,
+  StartTourCommandPayload,
+  UnityCommand,
+  UnityEvent,
+  UnityEventPayloads,
+  UnityEventType,
+  Vector3
+} from '@/types/unity.types';
+import { UnityInstance } from '@/lib/unityBridge';
+import { UNITY_PROTOCOL_VERSION, MIN_UNITY_PROTOCOL_VERSION, assertValidCommand } from '@/lib/unityProtocol';
+
+// Set NEXT_PUBLIC_UNITY_MOCK=true to run the viewer against MockUnityInstance
+export const isUnityMockEnabled = () => process.env.NEXT_PUBLIC_UNITY_MOCK === 'true';
+
+// What the stand-in has built, as Unity would hold it
+export interface MockUnitySceneState {
+  exhibitionId: string | null;
+  previewToken: string | null;
+  // null when Unity was asked to fetch the walls itself
+  floorPlan: FloorPlan | null;
+  // Where PositionArtwork has moved artworks
+  artworkTransforms: Record<string, { position: Vector3; rotation: Vector3 }>;
+  selectedArtworkId: string | null;
+  // The guided tour being played, and the stop the camera is at
+  tour: (StartTourCommandPayload & { stopIndex: number }) | null;
+  // Where the visitor stands; Unity x and z are the floor plan's x and y
+  player: { position: Vector3; heading: number } | null;
+  // Other visitors, keyed by avatar id
+  avatars: Record<string, Omit<SpawnAvatarCommandPayload, 'avatarId'>>;
+  // Set while a group tour's guide has the camera
+  following: { guideName: string | null } | null;
+}
+
+export interface UnityTrafficEntry {
+  direction: 'toUnity' | 'fromUnity';
+  // The parsed message, or the raw text when it was not JSON
+  message: UnityCommand | UnityEvent | string;
+  at: number;
+}
+
+export interface MockUnityOptions {
+  // How long the stand-in takes to answer, in milliseconds
+  latency?: number;
+  // Building an exhibition takes longer than other commands
+  loadLatency?: number;
+  // The versions announced in UnityReady
+  protocolVersion?: number;
+  minProtocolVersion?: number;
+  // Where events go; defaults to the page's window.unityInterface, as in the real build
+  deliver?: (messageJson: string) => void;
+}
+
+type SceneListener = (scene: MockUnitySceneState) => void;
+
+interface UnityInterfaceWindow {
+  unityInterface?: { handleUnityMessage: (messageJson: string) => void };
+}
+
+const deliverToWindow = (messageJson: string) => {
+  if (typeof window !== 'undefined') {
+    (window as unknown as UnityInterfaceWindow).unityInterface?.handleUnityMessage(messageJson);
+  }
+};
+
+const emptyScene = (): MockUnitySceneState => ({
+  exhibitionId: null,
+  previewToken: null,
+  floorPlan: null,
+  artworkTransforms: {},
+  selectedArtworkId: null,
+  tour: null,
+  player: null,
+  avatars: {},
+  following: null
+});
+
+// Visitors start in the middle of the first room, or at the origin without a plan
+const startingPosition = (floorPlan: FloorPlan | null): Vector3 => {
+  const footprint = floorPlan?.rooms[0]?.footprint || [];
+  if (footprint.length === 0) return { x: 0, y: 0, z: 0 };
+
+  return {
+    x: footprint.reduce((sum, point) => sum + point.x, 0) / footprint.length,
+    y: 0,
+    z: footprint.reduce((sum, point) => sum + point.y, 0) / footprint.length
+  };
+};
+
+/**
+ * A stand-in for the Unity WebGL build. It answers commands the way the
+ * exhibition client does, keeps a record of every message in both directions
+ * and holds a scene that MockUnityScene can draw, so the viewer and the bridge
+ * work without WebGL.
+ */
+export class MockUnityInstance implements UnityInstance {
+  public readonly traffic: UnityTrafficEntry[] = [];
+  private scene: MockUnitySceneState = emptyScene();
+  private listeners: SceneListener[] = [];
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private readonly options: Required<MockUnityOptions>;
+
+  constructor(options: MockUnityOptions = {}) {
+    this.options = {
+      latency: 50,
+      loadLatency: 300,
+      protocolVersion: UNITY_PROTOCOL_VERSION,
+      minProtocolVersion: MIN_UNITY_PROTOCOL_VERSION,
+      deliver: deliverToWindow,
+      ...options
+    };
+  }
+
+  // Announce that Unity has started, as the real build does once its scene is up
+  public start(): void {
+    this.later(this.options.latency, () => {
+      this.emit('UnityReady', {
+        protocolVersion: this.options.protocolVersion,
+        minProtocolVersion: this.options.minProtocolVersion
+      });
+    });
+  }
+
+  // Stop answering and forget the scene
+  public stop(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+    this.scene = emptyScene();
+    this.notify();
+  }
+
+  // Called by the bridge, exactly like the WebGL build's SendMessage
+  public SendMessage(gameObject: string, method: string, data: string): void {
+    let command: UnityCommand;
+    try {
+      command = JSON.parse(data);
+    } catch {
+      this.traffic.push({ direction: 'toUnity', message: data, at: Date.now() });
+      console.error(`Mock Unity: ${gameObject}.${method} received a message that is not JSON`);
+      return;
+    }
+
+    this.traffic.push({ direction: 'toUnity', message: command, at: Date.now() });
+
+    if (typeof command !== 'object' || command === null || typeof command.id !== 'string') {
+      console.error('Mock Unity: ignoring a command without an id', command);
+      return;
+    }
+
+    try {
+      if (typeof command.payload !== 'object' || command.payload === null) {
+        throw new Error('payload must be an object');
+      }
+      assertValidCommand(command);
+    } catch (error) {
+      this.respond(command.id, { ok: false, error: error instanceof Error ? error.message : 'Invalid command' });
+      return;
+    }
+
+    this.handleCommand(command);
+  }
+
+  // Act as if the visitor clicked an artwork in the 3D scene
+  public clickArtwork(artworkId: string): void {
+    this.updateScene({ selectedArtworkId: artworkId });
+    this.emit('ArtworkSelected', { artworkId });
+  }
+
+  // Act as if the visitor walked somewhere in the 3D scene. Their controls
+  // are locked while they follow a guide.
+  public movePlayer(position: Vector3, heading: number): void {
+    if (!this.scene.exhibitionId || this.scene.following) return;
+
+    this.updateScene({ player: { position, heading } });
+    this.emit('PlayerMoved', { position, heading });
+  }
+
+  public getScene(): MockUnitySceneState {
+    return this.scene;
+  }
+
+  // Hear about every change to the scene. Returns a function that stops listening.
+  public subscribe(listener: SceneListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private handleCommand(command: UnityCommand): void {
+    switch (command.type) {
+      case 'Handshake':
+        this.later(this.options.latency, () => this.respond(command.id, { ok: true }));
+        break;
+
+      case 'LoadExhibition': {
+        const { exhibitionId, previewToken, floorPlan } = command.payload;
+        this.later(this.options.loadLatency, () => {
+          const player = { position: startingPosition(floorPlan || null), heading: 0 };
+          this.scene = {
+            ...emptyScene(),
+            exhibitionId,
+            previewToken: previewToken || null,
+            floorPlan: floorPlan || null,
+            player
+          };
+          this.notify();
+          this.emit('ExhibitionLoaded', { exhibitionId });
+          this.respond(command.id, { ok: true });
+          this.emit('PlayerMoved', player);
+        });
+        break;
+      }
+
+      case 'PositionArtwork': {
+        const { artworkId, position, rotation } = command.payload;
+        this.later(this.options.latency, () => {
+          if (!this.hasArtwork(artworkId)) {
+            this.respond(command.id, { ok: false, error: `Artwork ${artworkId} is not in this exhibition` });
+            return;
+          }
+          this.updateScene({
+            artworkTransforms: { ...this.scene.artworkTransforms, [artworkId]: { position, rotation } }
+          });
+          this.respond(command.id, { ok: true });
+        });
+        break;
+      }
+
+      case 'SelectArtwork': {
+        const { artworkId } = command.payload;
+        this.later(this.options.latency, () => {
+          if (!this.hasArtwork(artworkId)) {
+            this.respond(command.id, { ok: false, error: `Artwork ${artworkId} is not in this exhibition` });
+            return;
+          }
+          this.updateScene({ selectedArtworkId: artworkId });
+          this.respond(command.id, { ok: true });
+        });
+        break;
+      }
+
+      case 'StartTour': {
+        const tour = command.payload;
+        this.later(this.options.latency, () => {
+          const missing = tour.stops.find(stop => !this.hasArtwork(stop.artworkId));
+          if (missing) {
+            this.respond(command.id, { ok: false, error: `Artwork ${missing.artworkId} is not in this exhibition` });
+            return;
+          }
+          this.goToStop(command.id, { ...tour, stopIndex: tour.startAt ?? 0 });
+        });
+        break;
+      }
+
+      case 'GoToStop': {
+        const { tourId, stopIndex } = command.payload;
+        this.later(this.options.latency, () => {
+          const { tour } = this.scene;
+          if (!tour || tour.tourId !== tourId) {
+            this.respond(command.id, { ok: false, error: `Tour ${tourId} is not running` });
+            return;
+          }
+          if (stopIndex >= tour.stops.length) {
+            this.respond(command.id, { ok: false, error: `Tour ${tourId} has no stop ${stopIndex}` });
+            return;
+          }
+          this.goToStop(command.id, { ...tour, stopIndex });
+        });
+        break;
+      }
+
+      case 'EndTour': {
+        const { tourId } = command.payload;
+        this.later(this.options.latency, () => {
+          const { tour } = this.scene;
+          if (!tour || tour.tourId !== tourId) {
+            this.respond(command.id, { ok: false, error: `Tour ${tourId} is not running` });
+            return;
+          }
+          this.updateScene({ tour: null, selectedArtworkId: null });
+          this.respond(command.id, { ok: true });
+          this.emit('TourEnded', { tourId, completed: tour.stopIndex === tour.stops.length - 1 });
+        });
+        break;
+      }
+
+      case 'SpawnAvatar': {
+        const { avatarId, ...avatar } = command.payload;
+        this.later(this.options.latency, () => {
+          if (!this.scene.exhibitionId) {
+            this.respond(command.id, { ok: false, error: 'No exhibition is loaded' });
+            return;
+          }
+          this.updateScene({ avatars: { ...this.scene.avatars, [avatarId]: avatar } });
+          this.respond(command.id, { ok: true });
+        });
+        break;
+      }
+
+      case 'MoveAvatars': {
+        const { moves } = command.payload;
+        this.later(this.options.latency, () => {
+          const unknown = moves.find(move => !this.scene.avatars[move.avatarId]);
+          if (unknown) {
+            this.respond(command.id, { ok: false, error: `Avatar ${unknown.avatarId} has not been spawned` });
+            return;
+          }
+          const avatars = { ...this.scene.avatars };
+          moves.forEach(({ avatarId, position, heading }) => {
+            avatars[avatarId] = { ...avatars[avatarId], position, heading };
+          });
+          this.updateScene({ avatars });
+          this.respond(command.id, { ok: true });
+        });
+        break;
+      }
+
+      case 'RemoveAvatar': {
+        const { avatarId } = command.payload;
+        this.later(this.options.latency, () => {
+          if (!this.scene.avatars[avatarId]) {
+            this.respond(command.id, { ok: false, error: `Avatar ${avatarId} has not been spawned` });
+            return;
+          }
+          const avatars = { ...this.scene.avatars };
+          delete avatars[avatarId];
+          this.updateScene({ avatars });
+          this.respond(command.id, { ok: true });
+        });
+        break;
+      }
+
+      case 'FollowCamera': {
+        const { position, heading } = command.payload;
+        this.later(this.options.latency, () => {
+          if (!this.scene.exhibitionId) {
+            this.respond(command.id, { ok: false, error: 'No exhibition is loaded' });
+            return;
+          }
+          this.updateScene({ player: { position, heading } });
+          this.respond(command.id, { ok: true });
+          this.emit('PlayerMoved', { position, heading });
+        });
+        break;
+      }
+
+      case 'SetFollowMode': {
+        const { following, guideName } = command.payload;
+        this.later(this.options.latency, () => {
+          this.updateScene({ following: following ? { guideName: guideName || null } : null });
+          this.respond(command.id, { ok: true });
+        });
+        break;
+      }
+    }
+  }
+
+  // Arrive at a tour stop at once; the real client flies the camera there first
+  private goToStop(commandId: string, tour: NonNullable<MockUnitySceneState['tour']>): void {
+    this.updateScene({ tour, selectedArtworkId: tour.stops[tour.stopIndex].artworkId });
+    this.respond(commandId, { ok: true });
+    this.emit('TourStopReached', { tourId: tour.tourId, stopIndex: tour.stopIndex });
+  }
+
+  // Without a floor plan the stand-in cannot know which artworks are hung, so it accepts any
+  private hasArtwork(artworkId: string): boolean {
+    const { exhibitionId, floorPlan } = this.scene;
+    if (!exhibitionId) return false;
+    if (!floorPlan) return true;
+
+    return [...floorPlan.rooms.flatMap(room => room.walls), ...floorPlan.unplacedWalls]
+      .some(wall => wall.placements.some(placement => placement.artworkId === artworkId));
+  }
+
+  private respond(commandId: string, payload: UnityEventPayloads['Response']): void {
+    this.emit('Response', payload, commandId);
+  }
+
+  private emit<T extends UnityEventType>(type: T, payload: UnityEventPayloads[T], replyTo?: string): void {
+    const event = {
+      protocolVersion: this.options.protocolVersion,
+      type,
+      ...(replyTo && { replyTo }),
+      payload
+    } as UnityEvent;
+
+    this.traffic.push({ direction: 'fromUnity', message: event, at: Date.now() });
+    this.options.deliver(JSON.stringify(event));
+  }
+
+  private updateScene(changes: Partial<MockUnitySceneState>): void {
+    this.scene = { ...this.scene, ...changes };
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.scene));
+  }
+
+  private later(delay: number, action: () => void): void {
+    const timer = setTimeout(() => {
+      this.timers = this.timers.filter(t => t !== timer);
+      action();
+    }, delay);
+    this.timers.push(timer);
+  }
+}
@@ -2,6 +2,8 @@ import { io, Socket } from 'socket.io-client';
 import { UserRole } from '@/types/user.types';
 
 let socket: Socket | null = null;
+// Set after reconnecting to pick up the login cookie, so a missing one does not loop
+let reconnectedForLogin = false;
 
 /**
  * Get the socket.io client instance
@@ -50,15 +52,26 @@ export const getSocketClient = (): Socket => {
 
 /**
  * Authenticate the socket connection with user information
+ * The server identifies the user from the login cookie sent when the socket
+ * connected, so a socket that connected before logging in is reconnected once
+ * to send it.
  * @param userId User ID for authentication
  * @param userRole User role for role-based notifications
  */
 export const authenticateSocket = (userId: string, userRole: UserRole): void => {
   const socket = getSocketClient();
-  
+
+  socket.once('authenticated', (result: { status: string }) => {
+    if (result.status === 'success') {
+      reconnectedForLogin = false;
+      console.log('Socket authenticated for user:', userId);
+    } else if (!reconnectedForLogin) {
+      reconnectedForLogin = true;
+      socket.disconnect().connect();
+    }
+  });
+
   socket.emit('authenticate', { userId, userRole });
-  
-  console.log('Socket authenticated for user:', userId);
 };
 
 /**
@@ -81,6 +94,26 @@ export const leaveRoom = (roomId: string): void => {
   socket.emit('leave-room', roomId);
 };
 
+/**
+ * Join an exhibition room for live exhibition updates
+ * @param exhibitionId Exhibition ID
+ */
+export const joinExhibition = (exhibitionId: string): void => {
+  const socket = getSocketClient();
+  
+  socket.emit('join-exhibition', exhibitionId);
+};
+
+/**
+ * Leave an exhibition room
+ * @param exhibitionId Exhibition ID
+ */
+export const leaveExhibition = (exhibitionId: string): void => {
+  const socket = getSocketClient();
+  
+  socket.emit('leave-exhibition', exhibitionId);
+};
+
 /**
  * Disconnect the socket
  */
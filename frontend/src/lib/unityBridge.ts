@@ -1,22 +1,68 @@
+import { FloorPlan } from '@/types/exhibition.types';
+import {
+  UnityCommand,
+  UnityCommandPayloads,
+  UnityCommandType,
+  UnityEvent,
+  UnityEventPayloads,
+  UnityEventType,
+  AvatarMove,
+  SpawnAvatarCommandPayload,
+  TourCommandStop,
+  Vector3
+} from '@/types/unity.types';
+import {
+  UNITY_PROTOCOL_VERSION,
+  MIN_UNITY_PROTOCOL_VERSION,
+  UnityProtocolError,
+  assertValidCommand,
+  isCommandSupported,
+  negotiateProtocolVersion,
+  parseUnityEvent
+} from '@/lib/unityProtocol';
+
+// How long Unity has to answer a command, in milliseconds
+const COMMAND_TIMEOUT = 10000;
+// Building an exhibition can take much longer than other commands
+const LOAD_EXHIBITION_TIMEOUT = 60000;
+
+// The Unity object and method every command is sent to
+const COMMAND_TARGET = { gameObject: 'ExhibitionManager', method: 'HandleMessage' };
+
 // Define callback function type
-type UnityMessageCallback = (data: any) => void;
+type UnityEventCallback<T extends UnityEventType> = (payload: UnityEventPayloads[T]) => void;
+type AnyUnityEventCallback = UnityEventCallback<UnityEventType>;
 
-// Define callback map type
-interface CallbackMap {
-  [messageType: string]: UnityMessageCallback[];
+// A command waiting to be sent, or for Unity's answer
+interface OutgoingCommand {
+  type: UnityCommandType;
+  payload: UnityCommandPayloads[UnityCommandType];
+  timeout: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
 }
 
-// Define Unity instance interface
-interface UnityInstance {
+// Define Unity instance interface: the WebGL build, or MockUnityInstance
+export interface UnityInstance {
   SendMessage: (gameObject: string, method: string, data: string) => void;
 }
 
 class UnityBridge {
   private unityInstance: UnityInstance | null = null;
-  private callbacks: CallbackMap = {};
+  private callbacks: Map<UnityEventType, AnyUnityEventCallback[]> = new Map();
   private isReady: boolean = false;
-  private messageQueue: Array<{gameObject: string, method: string, data: string}> = [];
-  
+  // The version agreed in the handshake, or why none could be agreed
+  private protocolVersion: number | null = null;
+  private handshakeError: Error | null = null;
+  // Callers of waitForUnity to tell when the handshake fails
+  private handshakeFailureCallbacks: Array<(error: Error) => void> = [];
+  // UnityReady can arrive before the instance is handed over
+  private earlyReady: UnityEventPayloads['UnityReady'] | null = null;
+  // Commands sent before the handshake finished
+  private messageQueue: OutgoingCommand[] = [];
+  private pendingCommands: Map<string, { command: OutgoingCommand; timeoutId: ReturnType<typeof setTimeout> }> = new Map();
+  private nextCommandId: number = 0;
+
   constructor() {
     // Define method to be called from Unity
     if (typeof window !== 'undefined') {
@@ -25,139 +71,337 @@ class UnityBridge {
       };
     }
   }
-  
-  // Initialize Unity instance
+
+  // Initialize Unity instance. Commands wait until Unity announces it is
+  // ready and the handshake agrees a protocol version.
   public setUnityInstance(instance: UnityInstance): void {
     this.unityInstance = instance;
     console.log('Unity instance initialized');
-    
-    // Process any queued messages
-    if (this.messageQueue.length > 0) {
-      console.log(`Processing ${this.messageQueue.length} queued messages`);
-      this.messageQueue.forEach(msg => {
-        this.sendMessage(msg.gameObject, msg.method, msg.data);
-      });
-      this.messageQueue = [];
+
+    if (this.earlyReady) {
+      const ready = this.earlyReady;
+      this.earlyReady = null;
+      this.handshake(ready);
     }
   }
-  
-  // Register callback for specific message type
-  public on(messageType: string, callback: UnityMessageCallback): UnityBridge {
-    if (!this.callbacks[messageType]) {
-      this.callbacks[messageType] = [];
-    }
-    this.callbacks[messageType].push(callback);
+
+  // Register callback for specific event type
+  public on<T extends UnityEventType>(eventType: T, callback: UnityEventCallback<T>): UnityBridge {
+    const callbacks = this.callbacks.get(eventType) || [];
+    callbacks.push(callback as AnyUnityEventCallback);
+    this.callbacks.set(eventType, callbacks);
     return this; // For method chaining
   }
-  
+
   // Remove callback
-  public off(messageType: string, callback?: UnityMessageCallback): UnityBridge {
-    if (this.callbacks[messageType]) {
+  public off<T extends UnityEventType>(eventType: T, callback?: UnityEventCallback<T>): UnityBridge {
+    const callbacks = this.callbacks.get(eventType);
+    if (callbacks) {
       if (callback) {
-        this.callbacks[messageType] = this.callbacks[messageType]
-          .filter(cb => cb !== callback);
+        this.callbacks.set(eventType, callbacks.filter(cb => cb !== callback));
       } else {
-        delete this.callbacks[messageType];
+        this.callbacks.delete(eventType);
       }
     }
     return this;
   }
-  
+
   // Handle messages from Unity
-  public handleUnityMessage(messageType: string, dataJson: string): void {
-    console.log(`Unity message received: ${messageType}`, dataJson);
-    
-    let data;
+  public handleUnityMessage(messageJson: string): void {
+    let event: UnityEvent;
     try {
-      data = JSON.parse(dataJson);
-    } catch (e) {
-      data = dataJson; // If not JSON, use as-is
+      event = parseUnityEvent(messageJson);
+    } catch (error) {
+      console.error('Ignoring message from Unity:', error instanceof Error ? error.message : error, messageJson);
+      return;
     }
-    
-    if (messageType === 'UnityReady') {
-      this.isReady = true;
-      console.log('Unity is ready for messages');
+
+    // Unity reports the player's pose many times a second
+    if (event.type !== 'PlayerMoved') {
+      console.log(`Unity message received: ${event.type}`, event.payload);
     }
-    
-    if (this.callbacks[messageType]) {
-      this.callbacks[messageType].forEach(callback => {
-        try {
-          callback(data);
-        } catch (error) {
-          console.error(`Error in Unity callback for ${messageType}:`, error);
+
+    switch (event.type) {
+      case 'UnityReady':
+        if (this.unityInstance) {
+          this.handshake(event.payload);
+        } else {
+          this.earlyReady = event.payload;
         }
-      });
+        return;
+      case 'Response':
+        this.settleCommand(event.replyTo as string, event.payload);
+        return;
+      default:
+        this.emit(event.type, event.payload);
     }
   }
-  
-  // Send message to Unity with error handling and queuing
-  public sendMessage(gameObject: string, method: string, data: any): boolean {
-    // Convert data to string if it's not already
-    const dataString = typeof data === 'string' ? data : JSON.stringify(data);
-    
-    if (!this.unityInstance) {
-      console.warn('Unity instance not initialized yet, queuing message');
-      this.messageQueue.push({gameObject, method, data: dataString});
-      return false;
-    }
-    
-    try {
-      this.unityInstance.SendMessage(gameObject, method, dataString);
-      return true;
-    } catch (error) {
-      console.error('Error sending message to Unity:', error);
-      return false;
-    }
+
+  // Send a command to Unity. Resolves when Unity acknowledges it and rejects
+  // when Unity reports an error, does not answer in time, or the command does
+  // not match the protocol.
+  public sendCommand<T extends UnityCommandType>(
+    type: T,
+    payload: UnityCommandPayloads[T],
+    timeout: number = COMMAND_TIMEOUT
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const command: OutgoingCommand = { type, payload, timeout, resolve, reject };
+
+      if (!this.isReady && type !== 'Handshake') {
+        if (this.handshakeError) {
+          reject(this.handshakeError);
+          return;
+        }
+        console.warn(`Unity is not ready yet, queuing ${type}`);
+        this.messageQueue.push(command);
+        return;
+      }
+
+      this.transmit(command);
+    });
   }
-  
-  // Load exhibition in Unity
-  public loadExhibition(exhibitionId: string): boolean {
-    console.log(`Requesting Unity to load exhibition: ${exhibitionId}`);
-    return this.sendMessage('ExhibitionManager', 'LoadExhibition', exhibitionId);
+
+  // Load exhibition in Unity. With a preview token Unity loads the curator's
+  // draft layout by passing it on as ?preview= when fetching walls. With a
+  // floor plan Unity builds the rooms, walls and doorways from it directly.
+  public loadExhibition(
+    exhibitionId: string,
+    options: { previewToken?: string; floorPlan?: FloorPlan } = {}
+  ): Promise<void> {
+    const { previewToken, floorPlan } = options;
+    console.log(`Requesting Unity to load exhibition: ${exhibitionId}${previewToken ? ' (draft preview)' : ''}`);
+    return this.sendCommand('LoadExhibition', {
+      exhibitionId,
+      ...(previewToken && { previewToken }),
+      ...(floorPlan && { floorPlan })
+    }, LOAD_EXHIBITION_TIMEOUT);
   }
-  
+
   // Position artwork in Unity
-  public positionArtwork(artworkId: string, position: {x: number, y: number, z: number}, rotation: {x: number, y: number, z: number}): boolean {
-    const data = {
-      artworkId,
-      position,
-      rotation
-    };
-    console.log(`Positioning artwork in Unity: ${artworkId}`, data);
-    return this.sendMessage('ExhibitionManager', 'PositionArtwork', data);
-  }
-  
+  public positionArtwork(artworkId: string, position: Vector3, rotation: Vector3): Promise<void> {
+    console.log(`Positioning artwork in Unity: ${artworkId}`, { position, rotation });
+    return this.sendCommand('PositionArtwork', { artworkId, position, rotation });
+  }
+
   // Select artwork in Unity
-  public selectArtwork(artworkId: string): boolean {
+  public selectArtwork(artworkId: string): Promise<void> {
     console.log(`Selecting artwork in Unity: ${artworkId}`);
-    return this.sendMessage('ExhibitionManager', 'SelectArtwork', artworkId);
+    return this.sendCommand('SelectArtwork', { artworkId });
+  }
+
+  // Start a guided tour in Unity. Unity flies to each stop and answers
+  // TourStopReached once it is there.
+  public startTour(tour: { id: string; title: string; stops: TourCommandStop[] }, startAt?: number): Promise<void> {
+    console.log(`Starting tour in Unity: ${tour.id}`);
+    return this.sendCommand('StartTour', {
+      tourId: tour.id,
+      title: tour.title,
+      stops: tour.stops,
+      ...(startAt !== undefined && { startAt })
+    });
+  }
+
+  // Move the running tour to another stop
+  public goToStop(tourId: string, stopIndex: number): Promise<void> {
+    console.log(`Moving Unity tour ${tourId} to stop ${stopIndex}`);
+    return this.sendCommand('GoToStop', { tourId, stopIndex });
+  }
+
+  // End the running tour and give the visitor back free movement
+  public endTour(tourId: string): Promise<void> {
+    console.log(`Ending tour in Unity: ${tourId}`);
+    return this.sendCommand('EndTour', { tourId });
+  }
+
+  // Show another visitor in the scene
+  public spawnAvatar(avatar: SpawnAvatarCommandPayload): Promise<void> {
+    return this.sendCommand('SpawnAvatar', avatar);
   }
-  
+
+  // Move other visitors' avatars; sent often, so it is not logged
+  public moveAvatars(moves: AvatarMove[]): Promise<void> {
+    return this.sendCommand('MoveAvatars', { moves });
+  }
+
+  // Take another visitor out of the scene
+  public removeAvatar(avatarId: string): Promise<void> {
+    return this.sendCommand('RemoveAvatar', { avatarId });
+  }
+
+  // Put the camera where a group tour's guide is; sent often, so it is not logged
+  public followCamera(position: Vector3, heading: number): Promise<void> {
+    return this.sendCommand('FollowCamera', { position, heading });
+  }
+
+  // Hand the camera to a group tour's guide, or give the visitor it back
+  public setFollowMode(following: boolean, guideName?: string): Promise<void> {
+    console.log(following ? `Following ${guideName || 'the guide'} in Unity` : 'Leaving follow mode in Unity');
+    return this.sendCommand('SetFollowMode', { following, ...(guideName !== undefined && { guideName }) });
+  }
+
   // Check if Unity is ready
   public isUnityReady(): boolean {
     return this.isReady;
   }
-  
-  // Wait for Unity to be ready with timeout
+
+  // Whether the connected Unity client understands a command. False until
+  // the handshake has agreed a protocol version.
+  public supportsCommand(type: UnityCommandType): boolean {
+    return this.isReady && this.protocolVersion !== null && isCommandSupported(type, this.protocolVersion);
+  }
+
+  // Wait for Unity to be ready with timeout. Rejects as soon as the
+  // handshake finds no protocol version both sides speak.
   public async waitForUnity(timeout: number = 10000): Promise<boolean> {
-    if (this.isReady) return Promise.resolve(true);
-    
+    if (this.isReady) return true;
+    if (this.handshakeError) throw this.handshakeError;
+
     return new Promise((resolve, reject) => {
-      const readyCallback = () => {
+      const cleanup = () => {
         clearTimeout(timeoutId);
+        this.off('UnityReady', readyCallback);
+        this.handshakeFailureCallbacks = this.handshakeFailureCallbacks.filter(cb => cb !== failureCallback);
+      };
+
+      const readyCallback = () => {
+        cleanup();
         resolve(true);
       };
-      
+
+      const failureCallback = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+
       const timeoutId = setTimeout(() => {
-        this.off('UnityReady', readyCallback);
+        cleanup();
         reject(new Error('Unity ready timeout'));
       }, timeout);
-      
+
       this.on('UnityReady', readyCallback);
+      this.handshakeFailureCallbacks.push(failureCallback);
+    });
+  }
+
+  // Agree a protocol version with Unity, then send whatever was queued.
+  // Listeners hear UnityReady only once the handshake succeeds.
+  private async handshake(ready: UnityEventPayloads['UnityReady']): Promise<void> {
+    // Unity announcing itself again means it restarted and lost any commands in flight
+    this.isReady = false;
+    this.handshakeError = null;
+    this.pendingCommands.forEach(({ command, timeoutId }) => {
+      clearTimeout(timeoutId);
+      command.reject(new Error(`Unity restarted before answering ${command.type}`));
+    });
+    this.pendingCommands.clear();
+
+    this.protocolVersion = negotiateProtocolVersion(ready);
+    if (this.protocolVersion === null) {
+      this.failHandshake(new UnityProtocolError(
+        `Unity speaks protocol versions ${ready.minProtocolVersion}-${ready.protocolVersion} ` +
+        `but the web app needs ${MIN_UNITY_PROTOCOL_VERSION}-${UNITY_PROTOCOL_VERSION}`
+      ));
+      return;
+    }
+
+    try {
+      await this.sendCommand('Handshake', { protocolVersion: this.protocolVersion });
+    } catch (error) {
+      this.failHandshake(error instanceof Error ? error : new Error('Unity handshake failed'));
+      return;
+    }
+
+    this.isReady = true;
+    console.log(`Unity is ready for messages (protocol version ${this.protocolVersion})`);
+
+    // Process any queued messages
+    if (this.messageQueue.length > 0) {
+      console.log(`Processing ${this.messageQueue.length} queued messages`);
+      const queue = this.messageQueue;
+      this.messageQueue = [];
+      queue.forEach(command => this.transmit(command));
+    }
+
+    this.emit('UnityReady', ready);
+  }
+
+  private failHandshake(error: Error): void {
+    console.error('Unity handshake failed:', error.message);
+    this.handshakeError = error;
+    this.messageQueue.forEach(command => command.reject(error));
+    this.messageQueue = [];
+    this.handshakeFailureCallbacks.forEach(callback => callback(error));
+  }
+
+  private transmit(command: OutgoingCommand): void {
+    const envelope = {
+      protocolVersion: this.protocolVersion ?? UNITY_PROTOCOL_VERSION,
+      id: `web-${++this.nextCommandId}`,
+      type: command.type,
+      payload: command.payload
+    } as UnityCommand;
+
+    try {
+      assertValidCommand(envelope);
+
+      if (!isCommandSupported(command.type, envelope.protocolVersion)) {
+        throw new UnityProtocolError(
+          `${command.type} needs a newer Unity client than protocol version ${envelope.protocolVersion}`
+        );
+      }
+
+      if (!this.unityInstance) {
+        throw new Error('Unity instance not initialized');
+      }
+
+      const timeoutId = setTimeout(() => {
+        this.pendingCommands.delete(envelope.id);
+        command.reject(new Error(`Unity did not answer ${command.type} in time`));
+      }, command.timeout);
+      this.pendingCommands.set(envelope.id, { command, timeoutId });
+
+      this.unityInstance.SendMessage(COMMAND_TARGET.gameObject, COMMAND_TARGET.method, JSON.stringify(envelope));
+    } catch (error) {
+      const pending = this.pendingCommands.get(envelope.id);
+      if (pending) {
+        clearTimeout(pending.timeoutId);
+        this.pendingCommands.delete(envelope.id);
+      }
+      console.error(`Error sending ${command.type} to Unity:`, error);
+      command.reject(error instanceof Error ? error : new Error(`Failed to send ${command.type} to Unity`));
+    }
+  }
+
+  // Resolve or reject the command a Response answers
+  private settleCommand(commandId: string, response: UnityEventPayloads['Response']): void {
+    const pending = this.pendingCommands.get(commandId);
+    if (!pending) {
+      console.warn(`Unity answered unknown or expired command ${commandId}`);
+      return;
+    }
+
+    clearTimeout(pending.timeoutId);
+    this.pendingCommands.delete(commandId);
+
+    if (response.ok) {
+      pending.command.resolve();
+    } else {
+      pending.command.reject(new Error(`Unity could not ${pending.command.type}: ${response.error}`));
+    }
+  }
+
+  private emit<T extends UnityEventType>(eventType: T, payload: UnityEventPayloads[T]): void {
+    (this.callbacks.get(eventType) || []).forEach(callback => {
+      try {
+        callback(payload);
+      } catch (error) {
+        console.error(`Error in Unity callback for ${eventType}:`, error);
+      }
     });
   }
 }
 
 // Create singleton instance
 const unityBridge = new UnityBridge();
-export default unityBridge;
\ No newline at end of file
+export default unityBridge;
@@ -0,0 +1,250 @@
+import {
+  UnityCommand,
+  UnityCommandPayloads,
+  UnityCommandType,
+  UnityEvent,
+  UnityEventPayloads,
+  UnityEventType
+} from '@/types/unity.types';
+
+// The newest protocol version the web app speaks, and the oldest it still accepts
+export const UNITY_PROTOCOL_VERSION = 4;
+export const MIN_UNITY_PROTOCOL_VERSION = 1;
+
+// Commands added after version 1, and the version that added them
+const COMMAND_PROTOCOL_VERSIONS: Partial<Record<UnityCommandType, number>> = {
+  StartTour: 2,
+  GoToStop: 2,
+  EndTour: 2,
+  SpawnAvatar: 3,
+  MoveAvatars: 3,
+  RemoveAvatar: 3,
+  FollowCamera: 4,
+  SetFollowMode: 4
+};
+
+/**
+ * Raised when a message does not match the protocol, in either direction
+ */
+export class UnityProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnityProtocolError';
+  }
+}
+
+type Checks<Payloads> = { [T in keyof Payloads]: (payload: Record<string, unknown>) => string | null };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isVersion = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+const isVector3 = (value: unknown) =>
+  isObject(value) && isNumber(value.x) && isNumber(value.y) && isNumber(value.z);
+
+const isIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isCameraPose = (value: unknown) =>
+  value === null || (
+    isObject(value) && isVector3(value.position) && isVector3(value.rotation) &&
+    (value.fieldOfView === undefined || isNumber(value.fieldOfView))
+  );
+
+// What is wrong with one entry of a MoveAvatars command, or null when it is valid
+const checkAvatarMove = (move: unknown, i: number) => {
+  if (!isObject(move) || !isString(move.avatarId)) return `move ${i} needs an avatarId`;
+  if (!isVector3(move.position)) return `move ${i} position must have numeric x, y and z`;
+  return isNumber(move.heading) ? null : `move ${i} heading must be a number`;
+};
+
+// What is wrong with one stop of a StartTour command, or null when it is valid
+const checkTourStop = (stop: unknown, i: number) => {
+  if (!isObject(stop)) return `stop ${i} must be an object`;
+  if (!isString(stop.id) || !isString(stop.wallId) || !isString(stop.artworkId)) {
+    return `stop ${i} needs id, wallId and artworkId`;
+  }
+  if (!isCameraPose(stop.cameraPose)) return `stop ${i} has an invalid cameraPose`;
+  if (typeof stop.narration !== 'string') return `stop ${i} narration must be a string`;
+  if (stop.audioUrl !== null && !isString(stop.audioUrl)) return `stop ${i} audioUrl must be a string or null`;
+  return null;
+};
+
+// Each check returns what is wrong with a payload, or null when it is valid
+const COMMAND_CHECKS: Checks<UnityCommandPayloads> = {
+  Handshake: payload =>
+    isVersion(payload.protocolVersion) ? null : 'protocolVersion must be a positive integer',
+  LoadExhibition: payload => {
+    if (!isString(payload.exhibitionId)) return 'exhibitionId must be a string';
+    if (payload.previewToken !== undefined && !isString(payload.previewToken)) return 'previewToken must be a string';
+    if (payload.floorPlan !== undefined) {
+      const plan = payload.floorPlan;
+      if (!isObject(plan) || !isVersion(plan.formatVersion) || !Array.isArray(plan.rooms) ||
+          !Array.isArray(plan.doorways) || !Array.isArray(plan.unplacedWalls)) {
+        return 'floorPlan is not a floor plan document';
+      }
+    }
+    return null;
+  },
+  PositionArtwork: payload => {
+    if (!isString(payload.artworkId)) return 'artworkId must be a string';
+    if (!isVector3(payload.position)) return 'position must have numeric x, y and z';
+    if (!isVector3(payload.rotation)) return 'rotation must have numeric x, y and z';
+    return null;
+  },
+  SelectArtwork: payload =>
+    isString(payload.artworkId) ? null : 'artworkId must be a string',
+  StartTour: payload => {
+    if (!isString(payload.tourId)) return 'tourId must be a string';
+    if (typeof payload.title !== 'string') return 'title must be a string';
+    if (!Array.isArray(payload.stops) || payload.stops.length === 0) return 'stops must be a non-empty array';
+    if (payload.startAt !== undefined && (!isIndex(payload.startAt) || payload.startAt >= payload.stops.length)) {
+      return 'startAt must be the index of a stop';
+    }
+    return payload.stops.map(checkTourStop).find(problem => problem !== null) ?? null;
+  },
+  GoToStop: payload => {
+    if (!isString(payload.tourId)) return 'tourId must be a string';
+    return isIndex(payload.stopIndex) ? null : 'stopIndex must be a non-negative integer';
+  },
+  EndTour: payload =>
+    isString(payload.tourId) ? null : 'tourId must be a string',
+  SpawnAvatar: payload => {
+    if (!isString(payload.avatarId)) return 'avatarId must be a string';
+    if (!isString(payload.displayName)) return 'displayName must be a string';
+    if (!isString(payload.color)) return 'color must be a string';
+    if (!isVector3(payload.position)) return 'position must have numeric x, y and z';
+    return isNumber(payload.heading) ? null : 'heading must be a number';
+  },
+  MoveAvatars: payload => {
+    if (!Array.isArray(payload.moves)) return 'moves must be an array';
+    return payload.moves.map(checkAvatarMove).find(problem => problem !== null) ?? null;
+  },
+  RemoveAvatar: payload =>
+    isString(payload.avatarId) ? null : 'avatarId must be a string',
+  FollowCamera: payload => {
+    if (!isVector3(payload.position)) return 'position must have numeric x, y and z';
+    return isNumber(payload.heading) ? null : 'heading must be a number';
+  },
+  SetFollowMode: payload => {
+    if (typeof payload.following !== 'boolean') return 'following must be a boolean';
+    if (payload.guideName !== undefined && typeof payload.guideName !== 'string') return 'guideName must be a string';
+    return null;
+  }
+};
+
+const EVENT_CHECKS: Checks<UnityEventPayloads> = {
+  UnityReady: payload => {
+    if (!isVersion(payload.protocolVersion)) return 'protocolVersion must be a positive integer';
+    if (!isVersion(payload.minProtocolVersion) || payload.minProtocolVersion > payload.protocolVersion) {
+      return 'minProtocolVersion must be a positive integer no higher than protocolVersion';
+    }
+    return null;
+  },
+  ExhibitionLoaded: payload =>
+    isString(payload.exhibitionId) ? null : 'exhibitionId must be a string',
+  ArtworkSelected: payload =>
+    isString(payload.artworkId) ? null : 'artworkId must be a string',
+  Response: payload => {
+    if (payload.ok === true) return null;
+    if (payload.ok === false && typeof payload.error === 'string') return null;
+    return 'ok must be true, or false with an error';
+  },
+  TourStopReached: payload => {
+    if (!isString(payload.tourId)) return 'tourId must be a string';
+    return isIndex(payload.stopIndex) ? null : 'stopIndex must be a non-negative integer';
+  },
+  TourEnded: payload => {
+    if (!isString(payload.tourId)) return 'tourId must be a string';
+    return typeof payload.completed === 'boolean' ? null : 'completed must be a boolean';
+  },
+  PlayerMoved: payload => {
+    if (!isVector3(payload.position)) return 'position must have numeric x, y and z';
+    return isNumber(payload.heading) ? null : 'heading must be a number';
+  }
+};
+
+/**
+ * Whether a command can be sent to a Unity client speaking a protocol version
+ * @param type The command type
+ * @param protocolVersion The version agreed in the handshake
+ */
+export const isCommandSupported = (type: UnityCommandType, protocolVersion: number): boolean =>
+  protocolVersion >= (COMMAND_PROTOCOL_VERSIONS[type] ?? 1);
+
+/**
+ * Check a command before it is sent to Unity
+ * @param command The command envelope
+ * @throws UnityProtocolError when the command does not match the protocol
+ */
+export const assertValidCommand = (command: UnityCommand): void => {
+  const check = COMMAND_CHECKS[command.type as UnityCommandType];
+  if (!check) {
+    throw new UnityProtocolError(`Unknown command type: ${command.type}`);
+  }
+
+  const problem = isString(command.id)
+    ? check(command.payload as unknown as Record<string, unknown>)
+    : 'id must be a string';
+  if (problem) {
+    throw new UnityProtocolError(`Invalid ${command.type} command: ${problem}`);
+  }
+};
+
+/**
+ * Parse and check a message from Unity
+ * @param messageJson The event envelope as sent by Unity
+ * @returns The event
+ * @throws UnityProtocolError when the message does not match the protocol
+ */
+export const parseUnityEvent = (messageJson: string): UnityEvent => {
+  let message: unknown;
+  try {
+    message = JSON.parse(messageJson);
+  } catch {
+    throw new UnityProtocolError('Message from Unity is not JSON');
+  }
+
+  if (!isObject(message) || !isString(message.type)) {
+    throw new UnityProtocolError('Message from Unity has no type');
+  }
+
+  const type = message.type as UnityEventType;
+  const check = EVENT_CHECKS[type];
+  if (!check) {
+    throw new UnityProtocolError(`Unknown event type: ${message.type}`);
+  }
+
+  let problem: string | null;
+  if (!isVersion(message.protocolVersion)) {
+    problem = 'protocolVersion must be a positive integer';
+  } else if (message.replyTo !== undefined && !isString(message.replyTo)) {
+    problem = 'replyTo must be a string';
+  } else if (type === 'Response' && message.replyTo === undefined) {
+    problem = 'replyTo is required';
+  } else if (!isObject(message.payload)) {
+    problem = 'payload must be an object';
+  } else {
+    problem = check(message.payload);
+  }
+
+  if (problem) {
+    throw new UnityProtocolError(`Invalid ${type} event: ${problem}`);
+  }
+
+  return message as unknown as UnityEvent;
+};
+
+/**
+ * Pick the protocol version to speak with a Unity client
+ * @param unity The versions Unity announced when it became ready
+ * @returns The newest version both sides accept, or null when there is none
+ */
+export const negotiateProtocolVersion = (unity: UnityEventPayloads['UnityReady']): number | null => {
+  const version = Math.min(UNITY_PROTOCOL_VERSION, unity.protocolVersion);
+  return version >= Math.max(MIN_UNITY_PROTOCOL_VERSION, unity.minProtocolVersion) ? version : null;
+};
@@ -0,0 +1,126 @@
+/**
+ * Something a visitor did with an artwork, sent to the server in batches
+ */
+export interface AnalyticsEvent {
+  // view: the detail page was opened; select: it was picked in the 3D scene;
+  // dwell: the visitor stood near it in the 3D scene for durationMs
+  type: 'view' | 'select' | 'dwell';
+  artworkId: string;
+  // Set for events in the 3D scene
+  exhibitionId?: string;
+  wallId?: string;
+  durationMs?: number;
+  occurredAt?: string;
+}
+
+/**
+ * Engagement added up over a period
+ */
+export interface EngagementTotals {
+  views: number;
+  selections: number;
+  dwellSeconds: number;
+  dwellCount: number;
+  averageDwellSeconds: number;
+}
+
+export interface DailyEngagement extends EngagementTotals {
+  // YYYY-MM-DD, UTC
+  day: string;
+}
+
+export interface AnalyticsRange {
+  // YYYY-MM-DD, both included; the last 30 days when left out
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Engagement with an artist's artworks
+ */
+export interface ArtistAnalytics {
+  from: string;
+  to: string;
+  totals: EngagementTotals;
+  daily: DailyEngagement[];
+  artworks: (EngagementTotals & {
+    artworkId: string;
+    title: string;
+    thumbnailUrl: string | null;
+  })[];
+}
+
+/**
+ * Engagement with a curator's exhibitions and the walls in them
+ */
+export interface CuratorAnalytics {
+  from: string;
+  to: string;
+  totals: EngagementTotals;
+  daily: DailyEngagement[];
+  exhibitions: (EngagementTotals & {
+    exhibitionId: string;
+    title: string;
+  })[];
+  // Only walls visitors engaged with
+  walls: (EngagementTotals & {
+    wallId: string;
+    name: string;
+    exhibitionId: string;
+    exhibitionTitle: string | null;
+  })[];
+}
+
+/**
+ * Where a visitor stood in the 3D scene, on the floor plan in metres
+ */
+export interface PositionSample {
+  x: number;
+  y: number;
+  sampledAt?: string;
+}
+
+/**
+ * Position samples counted in one square of the floor plan
+ */
+export interface HeatmapCell {
+  // South-west corner
+  x: number;
+  y: number;
+  samples: number;
+  // Separate visits that passed through
+  sessions: number;
+  roomId: string | null;
+}
+
+/**
+ * Where visitors walked and stood in an exhibition's 3D scene
+ */
+export interface ExhibitionHeatmap {
+  exhibitionId: string;
+  from: string;
+  to: string;
+  // Side of each cell, in metres
+  cellSize: number;
+  sessions: number;
+  samples: number;
+  // Samples in the busiest cell
+  peakSamples: number;
+  // Only cells someone visited
+  cells: HeatmapCell[];
+  rooms: {
+    roomId: string;
+    name: string;
+    samples: number;
+    // Cells covering the room's floor, and how many of them anyone visited
+    floorCells: number;
+    visitedCells: number;
+  }[];
+  // Samples taken in front of each wall on the plan, busiest first
+  walls: {
+    wallId: string;
+    name: string;
+    roomId: string | null;
+    samples: number;
+  }[];
+}
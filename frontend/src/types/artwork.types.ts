@@ -7,6 +7,75 @@ export enum ArtworkStatus {
   REJECTED = 'rejected'
 }
 
+// Renditions and tiles are made in the background after upload
+export enum ArtworkImageStatus {
+  PROCESSING = 'processing',
+  READY = 'ready',
+  FAILED = 'failed'
+}
+
+export enum ReviewDecision {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected'
+}
+
+export enum RejectionReason {
+  IMAGE_QUALITY = 'image_quality',
+  INCOMPLETE_INFORMATION = 'incomplete_information',
+  COPYRIGHT = 'copyright',
+  INAPPROPRIATE_CONTENT = 'inappropriate_content',
+  OFF_THEME = 'off_theme',
+  DUPLICATE = 'duplicate',
+  OTHER = 'other'
+}
+
+export enum RenditionKind {
+  THUMB = 'thumb',
+  CARD = 'card',
+  DETAIL = 'detail',
+  // Power-of-two texture for the 3D viewer
+  TEXTURE = 'texture'
+}
+
+export enum RenditionFormat {
+  AVIF = 'avif',
+  WEBP = 'webp',
+  // The fallbacks: PNG for images with transparency, JPEG for the rest
+  JPEG = 'jpeg',
+  PNG = 'png'
+}
+
+/**
+ * A resized copy of an artwork's image in one format
+ */
+export interface ArtworkRendition {
+  id: string;
+  kind: RenditionKind;
+  format: RenditionFormat;
+  width: number;
+  height: number;
+  fileUrl: string;
+  bytes: number;
+}
+
+/**
+ * A tile pyramid in the Deep Zoom layout. Level levels - 1 is full size and
+ * each level below halves it; tile (column, row) of a level is found at
+ * `${tilesUrl}/${level}/${column}_${row}.${format}`.
+ */
+export interface DeepZoomImage {
+  descriptorUrl: string;
+  tilesUrl: string;
+  width: number;
+  height: number;
+  tileSize: number;
+  // Pixels each tile repeats from its neighbours on every shared edge
+  overlap: number;
+  format: 'jpeg' | 'png';
+  levels: number;
+}
+
 /**
  * Artwork interface - represents an artwork in the system
  */
@@ -21,7 +90,19 @@ export interface Artwork {
   category: string;
   tags: string[];
   creationDate: string;
+  // Physical size in metres; null when the artist didn't give one
+  width: number | null;
+  height: number | null;
+  depth: number | null;
   status: ArtworkStatus;
+  revision: number;
+  // Missing for artworks uploaded before renditions existed
+  renditions?: ArtworkRendition[];
+  // Only images too big to show whole are tiled
+  deepZoom?: DeepZoomImage | null;
+  // While processing, a new artwork has no thumbnail yet and an edited one
+  // keeps the renditions of its previous image
+  imageStatus: ArtworkImageStatus;
   comments?: Comment[];
   exhibitionItems?: ExhibitionItem[];
   createdAt: string;
@@ -42,16 +123,115 @@ export interface ArtworkWithLikes extends Artwork {
 }
 
 /**
- * Comment interface - represents a comment on an artwork
+ * Comment interface - represents a comment on an artwork.
+ * Deleted comments keep their place in a thread with empty content and no author.
  */
 export interface Comment {
   id: string;
   content: string;
-  userId: string;
-  user?: User;
+  userId: string | null;
+  user?: Pick<User, 'id' | 'username' | 'profileUrl' | 'role'> | null;
   artworkId: string;
   artwork?: Artwork;
+  parentId: string | null;
+  rootId: string | null;
+  isEdited: boolean;
+  editedAt: string | null;
+  isDeleted: boolean;
+  isHidden: boolean;
+  isPinned: boolean;
+  isLocked: boolean;
   timestamp: string;
+  replies: Comment[];
+}
+
+/**
+ * A previous or current version of a comment's content
+ */
+export interface CommentVersion {
+  content: string;
+  createdAt: string;
+}
+
+/**
+ * Comment moderation data interface (curators and admins only)
+ */
+export interface CommentModerationData {
+  isHidden?: boolean;
+  isPinned?: boolean;
+  isLocked?: boolean;
+}
+
+/**
+ * The reviewable parts of an artwork as they were submitted for a review round
+ */
+export interface ArtworkSnapshot {
+  title: string;
+  description: string;
+  category: string;
+  tags: string[];
+  fileUrl: string;
+  thumbnailUrl: string;
+}
+
+/**
+ * ArtworkReview interface - one round of curator review, opened on each
+ * submission or resubmission and closed by the curator's decision
+ */
+export interface ArtworkReview {
+  id: string;
+  artworkId: string;
+  round: number;
+  decision: ReviewDecision;
+  reviewerId: string | null;
+  reviewer: { id: string; username: string } | null;
+  reasonCategory: RejectionReason | null;
+  reason: string | null;
+  submissionNote: string | null;
+  artworkRevision: number;
+  snapshot: ArtworkSnapshot;
+  submittedAt: string;
+  reviewedAt: string | null;
+}
+
+/**
+ * The latest review round of an artwork next to the one before it
+ */
+export interface ReviewComparison {
+  current: ArtworkReview | null;
+  previous: ArtworkReview | null;
+  changes: {
+    field: keyof ArtworkSnapshot;
+    before: string | string[];
+    after: string | string[];
+  }[];
+}
+
+/**
+ * ReviewQueueItem interface - an artwork waiting for review and who,
+ * if anyone, currently holds it
+ */
+export interface ReviewQueueItem {
+  artworkId: string;
+  artwork: {
+    id: string;
+    title: string;
+    description: string;
+    category: string;
+    tags: string[];
+    fileUrl: string;
+    thumbnailUrl: string;
+    imageStatus: ArtworkImageStatus;
+    createdAt: string;
+    artist: { id: string; username: string } | null;
+  };
+  round: number;
+  submittedAt: string;
+  assignee: { id: string; username: string } | null;
+  assignedById: string | null;
+  claimedAt: string | null;
+  // null while the item is held by an admin assignment
+  claimExpiresAt: string | null;
 }
 
 /**
@@ -90,6 +270,9 @@ export interface ArtworkCreateData {
   category: string;
   tags: string[];
   creationDate?: string;
+  width?: number;
+  height?: number;
+  depth?: number;
   image: File;
 }
 
@@ -101,10 +284,20 @@ export interface ArtworkUpdateData {
   description?: string;
   category?: string;
   tags?: string[];
+  width?: number;
+  height?: number;
+  depth?: number;
   status?: ArtworkStatus;
   image?: File;
 }
 
+/**
+ * Artwork resubmission data interface - the revised fields plus a note for curators
+ */
+export interface ArtworkResubmitData extends ArtworkUpdateData {
+  note?: string;
+}
+
 /**
  * ArtworkParams interface - represents the query parameters used for filtering and searching artworks.
  */
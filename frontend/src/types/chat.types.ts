@@ -0,0 +1,50 @@
+import { User } from './user.types';
+
+/**
+ * A message in an exhibition's visitor chat
+ */
+export interface ChatMessage {
+  id: string;
+  exhibitionId: string;
+  // null once the message is deleted
+  userId: string | null;
+  user: Pick<User, 'id' | 'username' | 'profileUrl' | 'role'> | null;
+  // Empty once the message is deleted; blocked words come masked
+  content: string;
+  isDeleted: boolean;
+  createdAt: string;
+}
+
+/**
+ * A page of chat history, oldest first
+ */
+export interface ChatHistory {
+  messages: ChatMessage[];
+  // Older messages are left to fetch
+  hasMore: boolean;
+  slowModeSeconds: number;
+}
+
+/**
+ * A visitor muted in an exhibition's chat
+ */
+export interface ChatMute {
+  exhibitionId: string;
+  userId: string;
+  username: string | null;
+  mutedById: string | null;
+  // null until a moderator lifts the mute
+  until: string | null;
+  createdAt: string;
+}
+
+/**
+ * What the server says about the chat when this visitor joins it
+ */
+export interface ChatJoinResult {
+  slowModeSeconds: number;
+  // Guests can read but not post
+  canPost: boolean;
+  canModerate: boolean;
+  mute: { until: string | null } | null;
+}
@@ -1,6 +1,17 @@
 // src/types/exhibition.types.ts
 import { User } from './user.types';
-import { Artwork } from './artwork.types';
+import { Artwork, DeepZoomImage } from './artwork.types';
+
+/**
+ * Exhibition lifecycle statuses, driven by the exhibition dates once published
+ */
+export enum ExhibitionStatus {
+  DRAFT = 'draft',
+  SCHEDULED = 'scheduled',
+  LIVE = 'live',
+  CLOSED = 'closed',
+  ARCHIVED = 'archived'
+}
 
 /**
  * Exhibition interface - represents an exhibition in the system
@@ -13,13 +24,32 @@ export interface Exhibition {
   curator?: User;
   startDate: string;
   endDate: string;
+  status: ExhibitionStatus;
   isActive: boolean;
+  // When the curator last published the layout visitors see
+  layoutPublishedAt?: string | null;
   walls: Wall[];
   items?: ExhibitionItem[];
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Whether the curator's draft layout has changes visitors don't see yet
+ */
+export interface LayoutPublishStatus {
+  layoutPublishedAt: string | null;
+  hasUnpublishedChanges: boolean;
+}
+
+/**
+ * A short-lived link that lets the 3D viewer load the draft layout
+ */
+export interface LayoutPreview {
+  token: string;
+  expiresAt: string;
+}
+
 /**
  * Exhibition creation data interface
  */
@@ -28,7 +58,7 @@ export interface ExhibitionCreateData {
   description: string;
   startDate: string;
   endDate: string;
-  isActive: boolean;
+  publish?: boolean;
 }
 
 /**
@@ -39,7 +69,6 @@ export interface ExhibitionUpdateData {
   description?: string;
   startDate?: string;
   endDate?: string;
-  isActive?: boolean;
 }
 
 /**
@@ -51,7 +80,20 @@ export interface Wall {
   displayOrder: number;
   exhibitionId: string;
   exhibition?: Exhibition;
+  // Size in metres
+  width: number;
+  height: number;
+  depth: number;
+  // Where the wall stands on the floor plan; no room until it is put in one
+  roomId: string | null;
+  planPosition: PlanPoint | null;
+  // Direction the hanging face looks, in degrees anticlockwise from east
+  orientation: number;
   placements: ArtworkPlacement[];
+  // Goes up with every layout save; sent back with the next save to catch conflicts
+  layoutRevision: number;
+  // Returned by layout saves: the version the save was recorded as
+  layoutVersion?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -62,6 +104,104 @@ export interface Wall {
 export interface WallData {
   name: string;
   displayOrder?: number;
+  width?: number;
+  height?: number;
+  depth?: number;
+  // null takes the wall out of its room or off the floor plan
+  roomId?: string | null;
+  planPosition?: PlanPoint | null;
+  orientation?: number;
+}
+
+/**
+ * A point on the floor plan seen from above: metres with x to the east and y to the north
+ */
+export interface PlanPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Room interface - a named space in the exhibition holding walls
+ */
+export interface Room {
+  id: string;
+  name: string;
+  displayOrder: number;
+  // Corners of the floor in order around the room
+  footprint: PlanPoint[];
+}
+
+/**
+ * Room data interface for creation/update
+ */
+export interface RoomData {
+  name: string;
+  footprint: PlanPoint[];
+  displayOrder?: number;
+}
+
+/**
+ * Doorway interface - an opening between two rooms, or into the exhibition from outside
+ */
+export interface Doorway {
+  id: string;
+  fromRoomId: string;
+  // null for the way in from outside
+  toRoomId: string | null;
+  // Middle of the opening
+  position: PlanPoint;
+  width: number;
+}
+
+/**
+ * Doorway data interface for creation/update
+ */
+export interface DoorwayData {
+  fromRoomId: string;
+  toRoomId?: string | null;
+  position: PlanPoint;
+  width?: number;
+}
+
+/**
+ * A wall as described in the floor plan document
+ */
+export interface FloorPlanWall {
+  id: string;
+  name: string;
+  displayOrder: number;
+  width: number;
+  height: number;
+  depth: number;
+  position: PlanPoint | null;
+  orientation: number;
+  placements: {
+    artworkId: string;
+    position: PlacementPosition;
+    coordinates: { x: number; y: number; z: number } | null;
+    rotation: { x: number; y: number; z: number } | null;
+    scale: { x: number; y: number; z: number } | null;
+    title: string | null;
+    fileUrl: string | null;
+    deepZoom: DeepZoomImage | null;
+    artistName: string | null;
+  }[];
+}
+
+/**
+ * The whole exhibition as one document: rooms with their walls and
+ * artworks, and the doorways between them. Passed to Unity to build the space.
+ */
+export interface FloorPlan {
+  formatVersion: number;
+  units: 'metres';
+  exhibitionId: string;
+  title: string;
+  rooms: (Room & { walls: FloorPlanWall[] })[];
+  doorways: Doorway[];
+  // Walls not yet stood in a room
+  unplacedWalls: FloorPlanWall[];
 }
 
 /**
@@ -126,6 +266,186 @@ export interface WallLayoutData {
       z: number;
     };
   }[];
+  // The wall's layout revision this edit was based on
+  expectedRevision?: number;
+}
+
+/**
+ * Why a placement was refused when saving a wall layout
+ */
+export enum PlacementIssueCode {
+  MISSING_COORDINATES = 'missing_coordinates',
+  OUT_OF_BOUNDS = 'out_of_bounds',
+  TOO_DEEP = 'too_deep',
+  OVERLAP = 'overlap',
+  INSUFFICIENT_SPACING = 'insufficient_spacing'
+}
+
+/**
+ * One problem with a saved layout, pointing at the placement by its index in the request
+ */
+export interface PlacementIssue {
+  code: PlacementIssueCode;
+  index: number;
+  artworkId: string;
+  position: PlacementPosition;
+  // The placement it collides with, for overlaps and spacing
+  otherIndex?: number;
+  otherArtworkId?: string;
+  message: string;
+}
+
+/**
+ * How the auto-layout generator arranges artworks on a wall
+ */
+export enum AutoLayoutStrategy {
+  // One row centred on the eye line
+  EYE_LINE = 'eye_line',
+  // Rows packed tightly above and below the eye line
+  SALON = 'salon',
+  // One row on the eye line with related artworks kept together
+  GROUPED = 'grouped'
+}
+
+/**
+ * What the grouped strategy keeps together
+ */
+export enum AutoLayoutGrouping {
+  CATEGORY = 'category',
+  ARTIST = 'artist'
+}
+
+/**
+ * Auto-layout request data interface
+ */
+export interface AutoLayoutData {
+  // Approved artworks to hang, in the order they should be considered
+  artworkIds: string[];
+  strategy: AutoLayoutStrategy;
+  groupBy?: AutoLayoutGrouping;
+}
+
+/**
+ * An artwork placed by the auto-layout generator
+ */
+export interface ProposedPlacement {
+  artworkId: string;
+  position: PlacementPosition;
+  coordinates: { x: number; y: number; z: number };
+  artwork: Artwork;
+}
+
+/**
+ * A layout proposed for a wall. Nothing is saved until the curator saves it.
+ */
+export interface AutoLayoutPreview {
+  wallId: string;
+  // The wall's layout revision the proposal was made from
+  layoutRevision: number;
+  strategy: AutoLayoutStrategy;
+  groupBy: AutoLayoutGrouping | null;
+  placements: ProposedPlacement[];
+  // Artworks left off because there was no room for them
+  unplaced: { artworkId: string; reason: string }[];
+  issues: PlacementIssue[];
+}
+
+/**
+ * A curator with the exhibition's layout editor open
+ */
+export interface LayoutEditor {
+  socketId: string;
+  userId: string;
+  username: string;
+  // The wall they have selected
+  wallId: string | null;
+}
+
+/**
+ * A wall slot another curator is working on
+ */
+export interface PlacementLock {
+  exhibitionId: string;
+  wallId: string;
+  position: PlacementPosition;
+  socketId: string;
+  userId: string;
+  username: string;
+  expiresAt: string;
+}
+
+/**
+ * Where another curator is dragging an artwork right now
+ */
+export interface LayoutDragPreview {
+  exhibitionId: string;
+  socketId: string;
+  userId: string;
+  username: string;
+  wallId: string | null;
+  // null once the drag has ended
+  artworkId: string | null;
+  artworkTitle: string | null;
+  // The slot the artwork is held over, if any
+  position: PlacementPosition | null;
+}
+
+/**
+ * Sent when someone saves a wall of the exhibition being edited
+ */
+export interface LayoutChange {
+  exhibitionId: string;
+  // One of these is set, depending on what changed
+  wallId: string | null;
+  roomId: string | null;
+  // Only set when the wall's layout changed
+  layoutRevision?: number;
+  deleted: boolean;
+  userId: string;
+  username: string;
+}
+
+/**
+ * One artwork as it was placed on a wall when a layout version was saved
+ */
+export interface LayoutPlacementSnapshot {
+  artworkId: string;
+  position: PlacementPosition;
+  coordinates: { x: number; y: number; z: number } | null;
+  rotation: { x: number; y: number; z: number } | null;
+  scale: { x: number; y: number; z: number } | null;
+}
+
+/**
+ * WallLayoutVersion interface - an immutable snapshot recorded on every layout save
+ */
+export interface WallLayoutVersion {
+  id: string;
+  wallId: string;
+  version: number;
+  placements: LayoutPlacementSnapshot[];
+  placementCount: number;
+  // null for the baseline recorded from a layout saved before versioning
+  createdBy: { id: string; username: string } | null;
+  restoredFromVersion: number | null;
+  createdAt: string;
+}
+
+/**
+ * What changed on a wall between two layout versions
+ */
+export interface WallLayoutDiff {
+  // null when comparing the first version against an empty wall
+  from: WallLayoutVersion | null;
+  to: WallLayoutVersion;
+  added: { artworkId: string; title: string; placement: LayoutPlacementSnapshot }[];
+  removed: { artworkId: string; title: string; placement: LayoutPlacementSnapshot }[];
+  moved: {
+    artworkId: string;
+    title: string;
+    before: LayoutPlacementSnapshot;
+    after: LayoutPlacementSnapshot;
+  }[];
 }
 
 /**
@@ -0,0 +1,50 @@
+import { Vector3 } from './unity.types';
+
+/**
+ * A running docent-led group tour, as everyone on it sees it
+ */
+export interface GroupTourSession {
+  id: string;
+  // What followers type to join
+  code: string;
+  exhibitionId: string;
+  guideName: string;
+  followerCount: number;
+  startedAt: string;
+}
+
+/**
+ * Someone following a group tour, as the guide sees them
+ */
+export interface GroupTourFollower {
+  // Identifies the follower; one per browser tab
+  socketId: string;
+  // null for followers who are not signed in
+  userId: string | null;
+  displayName: string;
+  handRaised: boolean;
+  // Muted followers cannot raise their hand or ask questions
+  muted: boolean;
+  joinedAt: string;
+}
+
+export interface GroupTourQuestion {
+  id: string;
+  // The follower who asked
+  socketId: string;
+  displayName: string;
+  text: string;
+  askedAt: string;
+  answered: boolean;
+}
+
+/**
+ * Where the guide stands and faces, mirrored to every follower's camera
+ */
+export interface GroupTourCamera {
+  position: Vector3;
+  heading: number;
+}
+
+// Why a follower's tour stopped
+export type GroupTourEndReason = 'ended' | 'guide-left' | 'kicked';
@@ -2,7 +2,10 @@ export enum NotificationType {
   ARTWORK_UPLOAD = 'artwork_upload',
   ARTWORK_APPROVED = 'artwork_approved',
   ARTWORK_REJECTED = 'artwork_rejected',
+  ARTWORK_RESUBMITTED = 'artwork_resubmitted',
   EXHIBITION_CREATED = 'exhibition_created',
+  EXHIBITION_OPENED = 'exhibition_opened',
+  EXHIBITION_CLOSED = 'exhibition_closed',
   COMMENT_ADDED = 'comment_added'
 }
 
@@ -0,0 +1,33 @@
+import { Vector3 } from './unity.types';
+
+/**
+ * Another visitor as seen in the 3D scene
+ */
+export interface VisitorAvatar {
+  // Identifies the avatar; one per browser tab
+  socketId: string;
+  // null for visitors who are not signed in
+  userId: string | null;
+  displayName: string;
+  position: Vector3;
+  // Degrees clockwise from the scene's forward (+z) axis
+  heading: number;
+}
+
+/**
+ * The avatars near this visitor that appeared or moved, and the ones that
+ * left or went out of range, since the last update
+ */
+export interface VisitorAvatarUpdate {
+  exhibitionId: string;
+  updates: VisitorAvatar[];
+  removed: string[];
+}
+
+/**
+ * How many visitors an exhibition has right now
+ */
+export interface VisitorCount {
+  exhibitionId: string;
+  count: number;
+}
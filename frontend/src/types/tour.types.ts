@@ -0,0 +1,69 @@
+import { Vector3 } from './unity.types';
+
+/**
+ * Where the camera stands and looks at a tour stop: metres and degrees in the 3D scene
+ */
+export interface CameraPose {
+  position: Vector3;
+  rotation: Vector3;
+  fieldOfView?: number;
+}
+
+/**
+ * Tour stop interface - an artwork on a wall, with what to see and hear there
+ */
+export interface TourStop {
+  id: string;
+  stopOrder: number;
+  wallId: string;
+  wallName: string | null;
+  artworkId: string;
+  artwork: {
+    id: string;
+    title: string;
+    fileUrl: string;
+    thumbnailUrl: string | null;
+    artistName: string | null;
+  } | null;
+  // null lets the viewer frame the artwork itself
+  cameraPose: CameraPose | null;
+  narration: string;
+  audioUrl: string | null;
+}
+
+/**
+ * Tour interface - a guided route through an exhibition
+ */
+export interface Tour {
+  id: string;
+  exhibitionId: string;
+  title: string;
+  description: string | null;
+  isPublished: boolean;
+  stopCount: number;
+  // Only included when a single tour is fetched
+  stops?: TourStop[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Tour data interface for creation/update
+ */
+export interface TourData {
+  title: string;
+  description?: string | null;
+  isPublished?: boolean;
+}
+
+/**
+ * Tour stop data interface for saving a tour's stops
+ */
+export interface TourStopData {
+  // Keep an existing stop and its audio
+  id?: string;
+  wallId: string;
+  artworkId: string;
+  cameraPose?: CameraPose | null;
+  narration?: string;
+}
@@ -0,0 +1,198 @@
+import { FloorPlan } from './exhibition.types';
+import { CameraPose } from './tour.types';
+
+/**
+ * Messages between the web app and the Unity exhibition client.
+ *
+ * Every message travels as one JSON envelope. Commands go from the web app
+ * to Unity's ExhibitionManager; events come back through
+ * window.unityInterface.handleUnityMessage. Unity answers each command with a
+ * Response event carrying the command's id in replyTo.
+ */
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Commands: web app to Unity
+
+export interface HandshakeCommandPayload {
+  // The version both sides agreed to speak
+  protocolVersion: number;
+}
+
+export interface LoadExhibitionCommandPayload {
+  exhibitionId: string;
+  // Load the curator's draft layout instead of the published one
+  previewToken?: string;
+  // Build the rooms, walls and doorways from this instead of fetching walls
+  floorPlan?: FloorPlan;
+}
+
+export interface PositionArtworkCommandPayload {
+  artworkId: string;
+  position: Vector3;
+  rotation: Vector3;
+}
+
+export interface SelectArtworkCommandPayload {
+  artworkId: string;
+}
+
+export interface TourCommandStop {
+  id: string;
+  wallId: string;
+  artworkId: string;
+  // null lets Unity frame the artwork itself
+  cameraPose: CameraPose | null;
+  narration: string;
+  audioUrl: string | null;
+}
+
+export interface StartTourCommandPayload {
+  tourId: string;
+  title: string;
+  stops: TourCommandStop[];
+  // Index of the stop to begin at; the first when left out
+  startAt?: number;
+}
+
+export interface GoToStopCommandPayload {
+  tourId: string;
+  stopIndex: number;
+}
+
+export interface EndTourCommandPayload {
+  tourId: string;
+}
+
+export interface SpawnAvatarCommandPayload {
+  avatarId: string;
+  displayName: string;
+  // CSS colour for the avatar and its name tag
+  color: string;
+  position: Vector3;
+  // Degrees clockwise from the scene's forward (+z) axis
+  heading: number;
+}
+
+export interface AvatarMove {
+  avatarId: string;
+  position: Vector3;
+  heading: number;
+}
+
+export interface MoveAvatarsCommandPayload {
+  // Every avatar that moved since the last command, so busy rooms stay one command per update
+  moves: AvatarMove[];
+}
+
+export interface RemoveAvatarCommandPayload {
+  avatarId: string;
+}
+
+export interface FollowCameraCommandPayload {
+  // Where a group tour's guide stands and faces; the follower's camera moves there
+  position: Vector3;
+  heading: number;
+}
+
+export interface SetFollowModeCommandPayload {
+  // While following, the visitor's own movement controls are locked
+  following: boolean;
+  // Shown to the visitor while following
+  guideName?: string;
+}
+
+export interface UnityCommandPayloads {
+  Handshake: HandshakeCommandPayload;
+  LoadExhibition: LoadExhibitionCommandPayload;
+  PositionArtwork: PositionArtworkCommandPayload;
+  SelectArtwork: SelectArtworkCommandPayload;
+  // Since protocol version 2
+  StartTour: StartTourCommandPayload;
+  GoToStop: GoToStopCommandPayload;
+  EndTour: EndTourCommandPayload;
+  // Since protocol version 3
+  SpawnAvatar: SpawnAvatarCommandPayload;
+  MoveAvatars: MoveAvatarsCommandPayload;
+  RemoveAvatar: RemoveAvatarCommandPayload;
+  // Since protocol version 4
+  FollowCamera: FollowCameraCommandPayload;
+  SetFollowMode: SetFollowModeCommandPayload;
+}
+
+export type UnityCommandType = keyof UnityCommandPayloads;
+
+export type UnityCommand = {
+  [T in UnityCommandType]: {
+    protocolVersion: number;
+    // Echoed back in the Response's replyTo
+    id: string;
+    type: T;
+    payload: UnityCommandPayloads[T];
+  };
+}[UnityCommandType];
+
+// Events: Unity to web app
+
+export interface UnityReadyEventPayload {
+  // The newest version Unity speaks, and the oldest it still accepts
+  protocolVersion: number;
+  minProtocolVersion: number;
+}
+
+export interface ExhibitionLoadedEventPayload {
+  exhibitionId: string;
+}
+
+export interface ArtworkSelectedEventPayload {
+  artworkId: string;
+}
+
+export interface TourStopReachedEventPayload {
+  tourId: string;
+  stopIndex: number;
+}
+
+export interface TourEndedEventPayload {
+  tourId: string;
+  // false when the visitor left the tour before its last stop
+  completed: boolean;
+}
+
+export interface PlayerMovedEventPayload {
+  // Where the visitor's own camera stands, and the way it faces
+  position: Vector3;
+  heading: number;
+}
+
+export type ResponseEventPayload =
+  | { ok: true }
+  | { ok: false; error: string };
+
+export interface UnityEventPayloads {
+  UnityReady: UnityReadyEventPayload;
+  ExhibitionLoaded: ExhibitionLoadedEventPayload;
+  ArtworkSelected: ArtworkSelectedEventPayload;
+  Response: ResponseEventPayload;
+  // Since protocol version 2
+  TourStopReached: TourStopReachedEventPayload;
+  TourEnded: TourEndedEventPayload;
+  // Since protocol version 3
+  PlayerMoved: PlayerMovedEventPayload;
+}
+
+export type UnityEventType = keyof UnityEventPayloads;
+
+export type UnityEvent = {
+  [T in UnityEventType]: {
+    protocolVersion: number;
+    type: T;
+    // The id of the command this answers
+    replyTo?: string;
+    payload: UnityEventPayloads[T];
+  };
+}[UnityEventType];
@@ -0,0 +1,24 @@
+export enum UploadStatus {
+  // Chunks are still coming in
+  UPLOADING = 'uploading',
+  // Put together and checked; ready to be used by an artwork
+  COMPLETE = 'complete'
+}
+
+/**
+ * A file being uploaded in chunks
+ */
+export interface UploadState {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  // Bytes received so far; the next chunk starts here
+  offset: number;
+  status: UploadStatus;
+  // SHA-256 of the whole file, once complete
+  checksum: string | null;
+  // How big the server would like chunks to be
+  chunkSize: number;
+  expiresAt: string;
+}
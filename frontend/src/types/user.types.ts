@@ -4,7 +4,8 @@
 export enum UserRole {
   VISITOR = 'visitor',
   ARTIST = 'artist',
-  CURATOR = 'curator'
+  CURATOR = 'curator',
+  ADMIN = 'admin'
 }
 
 /**
@@ -1,3 +1,6 @@
+import { ExhibitionStatus } from '@/types/exhibition.types';
+import { RejectionReason } from '@/types/artwork.types';
+
 /**
  * Format a date string to a human-readable format
  * @param dateString - ISO date string
@@ -107,6 +110,41 @@ export const formatDate = (
     return parseFloat((bytes / Math.pow(k, i)).toFixed(decimals)) + ' ' + sizes[i];
   };
 
+/**
+ * Get the label and tag color for an exhibition lifecycle status
+ * @param status - Exhibition status
+ * @returns Display label and Ant Design tag color
+ */
+export const formatExhibitionStatus = (status?: ExhibitionStatus): { label: string; color: string } => {
+  switch (status) {
+    case ExhibitionStatus.DRAFT:
+      return { label: 'Draft', color: 'default' };
+    case ExhibitionStatus.SCHEDULED:
+      return { label: 'Coming Soon', color: 'orange' };
+    case ExhibitionStatus.LIVE:
+      return { label: 'Open Now', color: 'green' };
+    case ExhibitionStatus.CLOSED:
+      return { label: 'Closed', color: 'red' };
+    case ExhibitionStatus.ARCHIVED:
+      return { label: 'Archived', color: 'purple' };
+    default:
+      return { label: 'Unknown', color: 'default' };
+  }
+};
+
+/**
+ * Human-readable labels for the reasons a curator can give when rejecting an artwork
+ */
+export const REJECTION_REASON_LABELS: Record<RejectionReason, string> = {
+  [RejectionReason.IMAGE_QUALITY]: 'Image quality',
+  [RejectionReason.INCOMPLETE_INFORMATION]: 'Incomplete information',
+  [RejectionReason.COPYRIGHT]: 'Copyright concerns',
+  [RejectionReason.INAPPROPRIATE_CONTENT]: 'Inappropriate content',
+  [RejectionReason.OFF_THEME]: 'Does not fit the gallery',
+  [RejectionReason.DUPLICATE]: 'Duplicate submission',
+  [RejectionReason.OTHER]: 'Other'
+};
+
 /**
  * Formats image URLs to ensure they point to the correct backend path
  * @param url The image URL from the backend
@@ -125,4 +163,35 @@ export const formatImageUrl = (url: string | undefined | null): string => {
   
   // The backend URL should be port 3001 (not 3000, which is likely your frontend)
   return `http://localhost:3001${formattedUrl}`;
-}
\ No newline at end of file
+}
+
+/**
+ * Formats a physical size as width × height (× depth) in metres
+ * @param size The size to format
+ * @returns Formatted size, or null when the width or height is unknown
+ */
+export const formatDimensions = (size: {
+  width?: number | null;
+  height?: number | null;
+  depth?: number | null;
+}): string | null => {
+  if (!size.width || !size.height) return null;
+
+  const parts = [size.width, size.height, ...(size.depth ? [size.depth] : [])];
+  return `${parts.join(' × ')} m`;
+};
+
+const EDITOR_COLORS = ['#f5222d', '#fa8c16', '#13c2c2', '#2f54eb', '#722ed1', '#eb2f96', '#52c41a', '#faad14'];
+
+/**
+ * Picks a stable color for a user so their avatar, cursor and locks match
+ * @param userId The user's ID
+ * @returns A hex color
+ */
+export const getEditorColor = (userId: string): string => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return EDITOR_COLORS[Math.abs(hash) % EDITOR_COLORS.length];
+};